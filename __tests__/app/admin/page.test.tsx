@@ -0,0 +1,190 @@
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import AdminPage from '@/app/admin/page';
+import { useAuth } from '@/lib/auth/useAuth';
+import { useAdminUsers } from '@/app/admin/hooks/useAdminUsers';
+import { useCircuitBreakers } from '@/app/admin/hooks/useCircuitBreakers';
+import type { AdminUserDTO } from '@/types/models';
+
+jest.mock('@/lib/auth/useAuth', () => ({
+  useAuth: jest.fn(),
+}));
+
+jest.mock('@/app/admin/hooks/useAdminUsers', () => ({
+  ADMIN_USERS_PAGE_SIZE: 25,
+  useAdminUsers: jest.fn(),
+}));
+
+jest.mock('@/app/admin/hooks/useCircuitBreakers', () => ({
+  useCircuitBreakers: jest.fn(),
+}));
+
+const users: AdminUserDTO[] = [
+  {
+    id: 'user-1',
+    email: 'ada@example.com',
+    name: 'Ada',
+    tenantId: 'tenant-1',
+    role: 'power-user',
+    lastSeenAt: new Date().toISOString(),
+    sessions: [
+      {
+        fingerprint: 'abc123',
+        ipAddress: '10.0.0.1',
+        userAgent: 'jest',
+        createdAt: new Date().toISOString(),
+        lastActivityAt: new Date().toISOString(),
+        expiresAt: new Date().toISOString(),
+      },
+    ],
+    suspension: null,
+    lockouts: [
+      { endpoint: 'chat', identifier: 'user:user-1', retryAfter: 600 },
+    ],
+  },
+  {
+    id: 'user-2',
+    email: 'bob@example.com',
+    name: 'Bob',
+    tenantId: null,
+    role: null,
+    lastSeenAt: new Date().toISOString(),
+    sessions: [],
+    suspension: {
+      reason: 'Spam',
+      suspendedBy: 'admin@example.com',
+      suspendedAt: new Date().toISOString(),
+    },
+    lockouts: [],
+  },
+];
+
+const runAction = jest.fn();
+
+describe('AdminPage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useAuth as jest.Mock).mockReturnValue({
+      isAuthenticated: true,
+      user: { id: 'admin-1', email: 'a', name: 'Admin', appRole: 'admin' },
+      login: jest.fn(),
+      isLoading: false,
+      error: null,
+    });
+    (useAdminUsers as jest.Mock).mockReturnValue({
+      users,
+      total: 2,
+      isLoading: false,
+      error: null,
+      runAction,
+      isActionPending: false,
+      actionError: null,
+    });
+    (useCircuitBreakers as jest.Mock).mockReturnValue({
+      breakers: [
+        {
+          name: 'Redis',
+          state: 'CLOSED',
+          failureCount: 0,
+          nextAttemptAt: null,
+        },
+        {
+          name: 'LLM',
+          state: 'OPEN',
+          failureCount: 5,
+          nextAttemptAt: new Date().toISOString(),
+        },
+      ],
+      isLoading: false,
+      error: null,
+    });
+  });
+
+  it('lists users with their sessions, suspension and lockouts', () => {
+    render(<AdminPage />);
+
+    const list = within(screen.getByRole('list', { name: 'Users' }));
+    expect(list.getByText('Ada')).toBeInTheDocument();
+    expect(list.getByText('1 active session')).toBeInTheDocument();
+    expect(list.getByText(/^Power user · Last seen/)).toBeInTheDocument();
+    expect(list.getByText('Locked out of chat for 10 min')).toBeInTheDocument();
+    expect(
+      list.getByText('Suspended by admin@example.com: Spam'),
+    ).toBeInTheDocument();
+    expect(screen.getByText('1–2 of 2')).toBeInTheDocument();
+  });
+
+  it('shows circuit breaker states', () => {
+    render(<AdminPage />);
+
+    const breakers = within(
+      screen.getByRole('list', { name: 'Circuit breakers' }),
+    );
+    expect(breakers.getByText('Closed')).toBeInTheDocument();
+    expect(breakers.getByText('Open')).toBeInTheDocument();
+    expect(breakers.getByText('5 consecutive failures')).toBeInTheDocument();
+  });
+
+  it('signs a user out after confirmation', () => {
+    render(<AdminPage />);
+
+    const actions = within(
+      screen.getByRole('group', { name: 'Actions for Ada' }),
+    );
+    fireEvent.click(
+      actions.getByRole('button', { name: 'Sign out everywhere' }),
+    );
+    expect(runAction).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm' }));
+    expect(runAction).toHaveBeenCalledWith({
+      type: 'signOut',
+      userId: 'user-1',
+    });
+  });
+
+  it('suspends with a reason, clears lockouts and lifts suspensions', () => {
+    render(<AdminPage />);
+
+    const ada = within(screen.getByRole('group', { name: 'Actions for Ada' }));
+    fireEvent.click(ada.getByRole('button', { name: 'Clear lockouts' }));
+    expect(runAction).toHaveBeenCalledWith({
+      type: 'clearLockouts',
+      userId: 'user-1',
+    });
+
+    const bob = within(screen.getByRole('group', { name: 'Actions for Bob' }));
+    fireEvent.click(bob.getByRole('button', { name: 'Lift suspension' }));
+    expect(runAction).toHaveBeenCalledWith({
+      type: 'unsuspend',
+      userId: 'user-2',
+    });
+
+    fireEvent.click(ada.getByRole('button', { name: 'Suspend' }));
+    fireEvent.change(screen.getByLabelText('Reason for suspension'), {
+      target: { value: 'Abuse' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Suspend' }));
+    expect(runAction).toHaveBeenCalledWith({
+      type: 'suspend',
+      userId: 'user-1',
+      reason: 'Abuse',
+    });
+  });
+
+  it('refuses users without the admin role', () => {
+    (useAuth as jest.Mock).mockReturnValue({
+      isAuthenticated: true,
+      user: { id: 'user-3', email: 'c', name: 'Carol', appRole: 'user' },
+      login: jest.fn(),
+      isLoading: false,
+      error: null,
+    });
+
+    render(<AdminPage />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'You need the admin role to use this page.',
+    );
+    expect(useAdminUsers).not.toHaveBeenCalled();
+  });
+});
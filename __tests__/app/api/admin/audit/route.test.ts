@@ -0,0 +1,146 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/admin/audit/route';
+import { requireSession } from '@/server/middleware/session';
+import { queryAuditEvents } from '@/lib/redis/audit';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+  getSessionAppRole: jest.fn((session: { data: { roles?: string[] } }) =>
+    jest
+      .requireActual('@/lib/auth/roles')
+      .resolveAppRole({ roles: session.data.roles }),
+  ),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/audit', () => ({
+  queryAuditEvents: jest.fn(),
+}));
+
+const adminSession = {
+  userId: 'admin-1',
+  data: { email: 'admin@example.com', roles: ['Admin'] },
+};
+
+const storedEvent = {
+  id: '1760868000000-0',
+  type: 'user.suspend',
+  occurredAt: new Date('2026-10-19T10:00:00.000Z'),
+  actorId: 'admin-1',
+  tenantId: 'tenant-1',
+  ip: '203.0.113.7',
+  targetId: 'user-1',
+  details: { reason: '=HYPERLINK("http://evil")' },
+  prevHash: '0'.repeat(64),
+  hash: 'a'.repeat(64),
+};
+
+const buildRequest = (query = '') =>
+  new NextRequest(`http://localhost:3000/api/admin/audit${query}`);
+
+describe('GET /api/admin/audit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(adminSession);
+    (queryAuditEvents as jest.Mock).mockResolvedValue({
+      events: [storedEvent],
+      nextCursor: '1760868000000-0',
+    });
+  });
+
+  it('returns a filtered page of events', async () => {
+    const response = await GET(
+      buildRequest(
+        '?type=user.suspend&actorId=admin-1&from=2026-10-01&limit=1',
+      ),
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('private, no-store');
+    expect(queryAuditEvents).toHaveBeenCalledWith({
+      type: 'user.suspend',
+      actorId: 'admin-1',
+      tenantId: 'tenant-1',
+      from: new Date('2026-10-01'),
+      limit: 1,
+    });
+    expect(body.data).toEqual([
+      {
+        id: '1760868000000-0',
+        type: 'user.suspend',
+        occurredAt: '2026-10-19T10:00:00.000Z',
+        actorId: 'admin-1',
+        tenantId: 'tenant-1',
+        ip: '203.0.113.7',
+        targetId: 'user-1',
+        details: { reason: '=HYPERLINK("http://evil")' },
+        hash: 'a'.repeat(64),
+      },
+    ]);
+    expect(body.meta.pagination).toEqual({
+      limit: 1,
+      hasMore: true,
+      nextCursor: '1760868000000-0',
+    });
+  });
+
+  it('downloads the page as CSV', async () => {
+    const response = await GET(buildRequest('?format=csv'));
+    const csv = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe(
+      'text/csv; charset=utf-8',
+    );
+    expect(response.headers.get('Content-Disposition')).toMatch(
+      /^attachment; filename="audit-\d{4}-\d{2}-\d{2}\.csv"$/,
+    );
+    expect(csv.split('\r\n')[0]).toBe(
+      'id,occurredAt,type,actorId,tenantId,ip,targetId,details,hash',
+    );
+    expect(csv).toContain('1760868000000-0,2026-10-19T10:00:00.000Z');
+  });
+
+  it("only queries the admin's own tenant", async () => {
+    const response = await GET(buildRequest('?tenantId=tenant-2'));
+
+    expect(response.status).toBe(200);
+    expect(queryAuditEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: 'tenant-1' }),
+    );
+  });
+
+  it('rejects unknown event types and inverted ranges', async () => {
+    const unknownType = await GET(buildRequest('?type=user.deleted'));
+    const inverted = await GET(buildRequest('?from=2026-10-19&to=2026-10-01'));
+
+    expect(unknownType.status).toBe(400);
+    expect(inverted.status).toBe(400);
+    expect(queryAuditEvents).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 without the admin role', async () => {
+    (requireSession as jest.Mock).mockResolvedValue({
+      userId: 'user-2',
+      data: { roles: [] },
+    });
+
+    const response = await GET(buildRequest());
+
+    expect(response.status).toBe(403);
+    expect(queryAuditEvents).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 without a session', async () => {
+    (requireSession as jest.Mock).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(buildRequest());
+
+    expect(response.status).toBe(401);
+  });
+});
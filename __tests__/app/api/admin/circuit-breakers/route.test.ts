@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/admin/circuit-breakers/route';
+import { requireSession } from '@/server/middleware/session';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionAppRole: jest.fn((session: { data: { roles?: string[] } }) =>
+    jest
+      .requireActual('@/lib/auth/roles')
+      .resolveAppRole({ roles: session.data.roles }),
+  ),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/circuit-breaker', () => ({
+  redisCircuitBreaker: {
+    getSnapshot: () => ({
+      name: 'Redis',
+      state: 'CLOSED',
+      failureCount: 0,
+      nextAttemptAt: null,
+    }),
+  },
+}));
+
+jest.mock('@/lib/llm/service', () => ({
+  getCircuitBreaker: () => ({
+    getSnapshot: () => ({
+      name: 'LLM',
+      state: 'OPEN',
+      failureCount: 5,
+      nextAttemptAt: '2026-10-19T12:01:00.000Z',
+    }),
+  }),
+}));
+
+const buildRequest = () =>
+  new NextRequest('http://localhost:3000/api/admin/circuit-breakers');
+
+describe('GET /api/admin/circuit-breakers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue({
+      userId: 'admin-1',
+      data: { roles: ['Admin'] },
+    });
+  });
+
+  it('reports the Redis and LLM breakers', async () => {
+    const response = await GET(buildRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.map((breaker: { name: string }) => breaker.name)).toEqual([
+      'Redis',
+      'LLM',
+    ]);
+    expect(body.data[1].state).toBe('OPEN');
+  });
+
+  it('returns 403 without the admin role', async () => {
+    (requireSession as jest.Mock).mockResolvedValue({
+      userId: 'user-2',
+      data: {},
+    });
+
+    const response = await GET(buildRequest());
+
+    expect(response.status).toBe(403);
+  });
+});
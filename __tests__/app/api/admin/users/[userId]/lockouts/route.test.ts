@@ -0,0 +1,100 @@
+import { NextRequest } from 'next/server';
+import { DELETE } from '@/app/api/admin/users/[userId]/lockouts/route';
+import { requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { clearLockouts } from '@/server/middleware/enhanced-rate-limit';
+import { getUserTenantId } from '@/lib/redis/users';
+import { logInfo } from '@/utils/logger';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+  getSessionAppRole: jest.fn((session: { data: { roles?: string[] } }) =>
+    jest
+      .requireActual('@/lib/auth/roles')
+      .resolveAppRole({ roles: session.data.roles }),
+  ),
+}));
+
+jest.mock('@/server/middleware/csrf', () => ({
+  withCsrfProtection: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/server/middleware/enhanced-rate-limit', () => ({
+  clearLockouts: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/users', () => ({
+  getUserTenantId: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/audit', () => ({
+  appendAuditEvent: jest.fn(),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+  logError: jest.fn(),
+}));
+
+const buildContext = (userId: string) => ({
+  params: Promise.resolve({ userId }),
+});
+
+const buildRequest = () =>
+  new NextRequest('http://localhost:3000/api/admin/users/user-1/lockouts', {
+    method: 'DELETE',
+  });
+
+describe('DELETE /api/admin/users/[userId]/lockouts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue({
+      userId: 'admin-1',
+      data: { roles: ['Admin'] },
+    });
+    (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (clearLockouts as jest.Mock).mockResolvedValue(1);
+    (getUserTenantId as jest.Mock).mockResolvedValue('tenant-1');
+  });
+
+  it("lifts the user's lockouts and audit-logs the action", async () => {
+    const response = await DELETE(buildRequest(), buildContext('user-1'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(getUserTenantId).toHaveBeenCalledWith('user-1');
+    expect(clearLockouts).toHaveBeenCalledWith('tenant:tenant-1:user:user-1');
+    expect(body.data).toEqual({ userId: 'user-1', liftedCount: 1 });
+    expect(logInfo).toHaveBeenCalledWith(
+      'Admin action',
+      expect.objectContaining({
+        action: 'user.lockouts_cleared',
+        targetUserId: 'user-1',
+      }),
+    );
+  });
+
+  it('returns 404 for a user of another tenant', async () => {
+    (getUserTenantId as jest.Mock).mockResolvedValue('tenant-2');
+
+    const response = await DELETE(buildRequest(), buildContext('user-1'));
+
+    expect(response.status).toBe(404);
+    expect(clearLockouts).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 without a session', async () => {
+    (requireSession as jest.Mock).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await DELETE(buildRequest(), buildContext('user-1'));
+
+    expect(response.status).toBe(401);
+    expect(clearLockouts).not.toHaveBeenCalled();
+  });
+});
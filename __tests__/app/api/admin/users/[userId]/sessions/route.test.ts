@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import { DELETE } from '@/app/api/admin/users/[userId]/sessions/route';
+import { requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { revokeUserSessions } from '@/lib/redis/session';
+import { getUserTenantId } from '@/lib/redis/users';
+import { logInfo } from '@/utils/logger';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+  getSessionAppRole: jest.fn((session: { data: { roles?: string[] } }) =>
+    jest
+      .requireActual('@/lib/auth/roles')
+      .resolveAppRole({ roles: session.data.roles }),
+  ),
+}));
+
+jest.mock('@/server/middleware/csrf', () => ({
+  withCsrfProtection: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/session', () => ({
+  revokeUserSessions: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/users', () => ({
+  getUserTenantId: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/audit', () => ({
+  appendAuditEvent: jest.fn(),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+  logError: jest.fn(),
+}));
+
+const buildContext = (userId: string) => ({
+  params: Promise.resolve({ userId }),
+});
+
+const buildRequest = () =>
+  new NextRequest('http://localhost:3000/api/admin/users/user-1/sessions', {
+    method: 'DELETE',
+  });
+
+describe('DELETE /api/admin/users/[userId]/sessions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue({
+      userId: 'admin-1',
+      data: { roles: ['Admin'] },
+    });
+    (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (revokeUserSessions as jest.Mock).mockResolvedValue(2);
+    (getUserTenantId as jest.Mock).mockResolvedValue('tenant-1');
+  });
+
+  it('signs the user out everywhere and audit-logs the action', async () => {
+    const response = await DELETE(buildRequest(), buildContext('user-1'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(revokeUserSessions).toHaveBeenCalledWith('user-1');
+    expect(body.data).toEqual({ userId: 'user-1', endedCount: 2 });
+    expect(logInfo).toHaveBeenCalledWith(
+      'Admin action',
+      expect.objectContaining({
+        action: 'user.sign_out',
+        actorId: 'admin-1',
+        targetUserId: 'user-1',
+        endedCount: 2,
+      }),
+    );
+  });
+
+  it('returns 404 for a user of another tenant', async () => {
+    (getUserTenantId as jest.Mock).mockResolvedValue('tenant-2');
+
+    const response = await DELETE(buildRequest(), buildContext('user-1'));
+
+    expect(response.status).toBe(404);
+    expect(revokeUserSessions).not.toHaveBeenCalled();
+    expect(logInfo).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 without the admin role', async () => {
+    (requireSession as jest.Mock).mockResolvedValue({
+      userId: 'user-2',
+      data: { roles: [] },
+    });
+
+    const response = await DELETE(buildRequest(), buildContext('user-1'));
+
+    expect(response.status).toBe(403);
+    expect(revokeUserSessions).not.toHaveBeenCalled();
+  });
+});
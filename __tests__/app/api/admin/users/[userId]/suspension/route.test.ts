@@ -0,0 +1,213 @@
+import { NextRequest } from 'next/server';
+import { DELETE, PUT } from '@/app/api/admin/users/[userId]/suspension/route';
+import { requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { getUserTenantId, suspendUser, unsuspendUser } from '@/lib/redis/users';
+import { appendAuditEvent } from '@/lib/redis/audit';
+import { logInfo } from '@/utils/logger';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+  getSessionAppRole: jest.fn((session: { data: { roles?: string[] } }) =>
+    jest
+      .requireActual('@/lib/auth/roles')
+      .resolveAppRole({ roles: session.data.roles }),
+  ),
+}));
+
+jest.mock('@/server/middleware/csrf', () => ({
+  withCsrfProtection: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/users', () => ({
+  getUserTenantId: jest.fn(),
+  suspendUser: jest.fn(),
+  unsuspendUser: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/audit', () => ({
+  appendAuditEvent: jest.fn(),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+  logError: jest.fn(),
+}));
+
+const adminSession = {
+  userId: 'admin-1',
+  data: { email: 'admin@example.com', roles: ['Admin'] },
+};
+
+const buildContext = (userId: string) => ({
+  params: Promise.resolve({ userId }),
+});
+
+const buildRequest = (method: string, body?: Record<string, unknown>) =>
+  new NextRequest('http://localhost:3000/api/admin/users/user-1/suspension', {
+    method,
+    headers: { 'x-forwarded-for': '203.0.113.7' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe('/api/admin/users/[userId]/suspension', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(adminSession);
+    (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (suspendUser as jest.Mock).mockImplementation(async (_userId, details) => ({
+      ...details,
+      suspendedAt: new Date('2026-10-19T11:00:00.000Z'),
+    }));
+    (unsuspendUser as jest.Mock).mockResolvedValue(true);
+    (getUserTenantId as jest.Mock).mockResolvedValue('tenant-1');
+  });
+
+  describe('PUT', () => {
+    it('suspends the user and audit-logs the action', async () => {
+      const response = await PUT(
+        buildRequest('PUT', { reason: '  Abuse  ' }),
+        buildContext('user-1'),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(suspendUser).toHaveBeenCalledWith('user-1', {
+        reason: 'Abuse',
+        suspendedBy: 'admin@example.com',
+      });
+      expect(body.data.suspension.suspendedAt).toBe('2026-10-19T11:00:00.000Z');
+      expect(logInfo).toHaveBeenCalledWith(
+        'Admin action',
+        expect.objectContaining({
+          audit: true,
+          action: 'user.suspend',
+          actorId: 'admin-1',
+          actorIp: '203.0.113.7',
+          targetUserId: 'user-1',
+          reason: 'Abuse',
+        }),
+      );
+      expect(appendAuditEvent).toHaveBeenCalledWith({
+        type: 'user.suspend',
+        actorId: 'admin-1',
+        tenantId: 'tenant-1',
+        ip: '203.0.113.7',
+        targetId: 'user-1',
+        details: { reason: 'Abuse' },
+      });
+    });
+
+    it('requires a reason', async () => {
+      const response = await PUT(
+        buildRequest('PUT', { reason: ' ' }),
+        buildContext('user-1'),
+      );
+
+      expect(response.status).toBe(400);
+      expect(suspendUser).not.toHaveBeenCalled();
+    });
+
+    it('does not let admins suspend themselves', async () => {
+      const response = await PUT(
+        buildRequest('PUT', { reason: 'Oops' }),
+        buildContext('admin-1'),
+      );
+
+      expect(response.status).toBe(400);
+      expect(suspendUser).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for a user of another tenant', async () => {
+      (getUserTenantId as jest.Mock).mockResolvedValue('tenant-2');
+
+      const response = await PUT(
+        buildRequest('PUT', { reason: 'Abuse' }),
+        buildContext('user-1'),
+      );
+
+      expect(response.status).toBe(404);
+      expect(suspendUser).not.toHaveBeenCalled();
+      expect(appendAuditEvent).not.toHaveBeenCalled();
+    });
+
+    it('returns 403 without the admin role', async () => {
+      (requireSession as jest.Mock).mockResolvedValue({
+        userId: 'user-2',
+        data: {},
+      });
+
+      const response = await PUT(
+        buildRequest('PUT', { reason: 'Abuse' }),
+        buildContext('user-1'),
+      );
+
+      expect(response.status).toBe(403);
+      expect(suspendUser).not.toHaveBeenCalled();
+    });
+
+    it('validates CSRF before anything else', async () => {
+      (withCsrfProtection as jest.Mock).mockResolvedValue({
+        valid: false,
+        error: new Response(null, { status: 403 }),
+      });
+
+      const response = await PUT(
+        buildRequest('PUT', { reason: 'Abuse' }),
+        buildContext('user-1'),
+      );
+
+      expect(response.status).toBe(403);
+      expect(requireSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE', () => {
+    it('lifts the suspension and audit-logs the action', async () => {
+      const response = await DELETE(
+        buildRequest('DELETE'),
+        buildContext('user-1'),
+      );
+
+      expect(response.status).toBe(200);
+      expect(unsuspendUser).toHaveBeenCalledWith('user-1');
+      expect(logInfo).toHaveBeenCalledWith(
+        'Admin action',
+        expect.objectContaining({
+          action: 'user.unsuspend',
+          targetUserId: 'user-1',
+        }),
+      );
+    });
+
+    it('does not lift suspensions in another tenant', async () => {
+      (getUserTenantId as jest.Mock).mockResolvedValue('tenant-2');
+
+      const response = await DELETE(
+        buildRequest('DELETE'),
+        buildContext('user-1'),
+      );
+
+      expect(response.status).toBe(404);
+      expect(unsuspendUser).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when the user is not suspended', async () => {
+      (unsuspendUser as jest.Mock).mockResolvedValue(false);
+
+      const response = await DELETE(
+        buildRequest('DELETE'),
+        buildContext('user-1'),
+      );
+
+      expect(response.status).toBe(404);
+      expect(logInfo).not.toHaveBeenCalled();
+    });
+  });
+});
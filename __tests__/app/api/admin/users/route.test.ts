@@ -0,0 +1,141 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/admin/users/route';
+import { requireSession } from '@/server/middleware/session';
+import { getLockouts } from '@/server/middleware/enhanced-rate-limit';
+import { getUserSessions } from '@/lib/redis/session';
+import { getUserSuspension, listUsers } from '@/lib/redis/users';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+  getSessionAppRole: jest.fn((session: { data: { roles?: string[] } }) =>
+    jest
+      .requireActual('@/lib/auth/roles')
+      .resolveAppRole({ roles: session.data.roles }),
+  ),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/server/middleware/enhanced-rate-limit', () => ({
+  getLockouts: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/session', () => ({
+  getUserSessions: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/users', () => ({
+  listUsers: jest.fn(),
+  getUserSuspension: jest.fn(),
+}));
+
+const adminSession = {
+  userId: 'admin-1',
+  data: { email: 'admin@example.com', roles: ['Admin'] },
+};
+
+const buildRequest = (query = '') =>
+  new NextRequest(`http://localhost:3000/api/admin/users${query}`);
+
+describe('GET /api/admin/users', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(adminSession);
+    (listUsers as jest.Mock).mockResolvedValue({
+      users: [
+        {
+          id: 'user-1',
+          email: 'user@example.com',
+          name: 'User One',
+          tenantId: 'tenant-1',
+          role: 'user',
+          lastSeenAt: new Date('2026-10-19T10:00:00.000Z'),
+        },
+      ],
+      total: 3,
+    });
+    (getUserSessions as jest.Mock).mockResolvedValue([
+      {
+        id: 'secret-session-id',
+        userId: 'user-1',
+        csrfToken: 'csrf',
+        data: { ipAddress: '10.0.0.1', userAgent: 'jest' },
+        createdAt: new Date('2026-10-19T09:00:00.000Z'),
+        updatedAt: new Date('2026-10-19T09:00:00.000Z'),
+        expiresAt: new Date('2026-10-26T09:00:00.000Z'),
+      },
+    ]);
+    (getUserSuspension as jest.Mock).mockResolvedValue({
+      reason: 'Abuse',
+      suspendedBy: 'admin@example.com',
+      suspendedAt: new Date('2026-10-19T11:00:00.000Z'),
+    });
+    (getLockouts as jest.Mock).mockResolvedValue([
+      {
+        endpoint: 'chat',
+        identifier: 'tenant:tenant-1:user:user-1',
+        retryAfter: 600,
+      },
+    ]);
+  });
+
+  it('returns 401 without a session', async () => {
+    (requireSession as jest.Mock).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(buildRequest());
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 403 without the admin role', async () => {
+    (requireSession as jest.Mock).mockResolvedValue({
+      userId: 'user-2',
+      data: { roles: ['Reader'] },
+    });
+
+    const response = await GET(buildRequest());
+
+    expect(response.status).toBe(403);
+    expect(listUsers).not.toHaveBeenCalled();
+  });
+
+  it('rejects page sizes over the limit', async () => {
+    const response = await GET(buildRequest('?limit=500'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('lists users with their sessions, suspension and lockouts', async () => {
+    const response = await GET(buildRequest('?offset=0&limit=1'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('private, no-store');
+    expect(listUsers).toHaveBeenCalledWith('tenant-1', 0, 1);
+    expect(getLockouts).toHaveBeenCalledWith('tenant:tenant-1:user:user-1');
+    expect(body.meta.pagination).toEqual({
+      offset: 0,
+      limit: 1,
+      total: 3,
+      hasMore: true,
+    });
+
+    const [user] = body.data;
+    expect(user).toMatchObject({
+      id: 'user-1',
+      lastSeenAt: '2026-10-19T10:00:00.000Z',
+      suspension: {
+        reason: 'Abuse',
+        suspendedAt: '2026-10-19T11:00:00.000Z',
+      },
+      lockouts: [{ endpoint: 'chat', retryAfter: 600 }],
+    });
+    expect(user.sessions).toHaveLength(1);
+    expect(user.sessions[0].ipAddress).toBe('10.0.0.1');
+    // Session IDs are credentials and never leave the server
+    expect(JSON.stringify(body)).not.toContain('secret-session-id');
+  });
+});
@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/chat/[chatId]/delete/route';
+import { getSessionTenantId, requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { deleteChat, getChat } from '@/lib/redis/chat';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/csrf', () => ({
+  withCsrfProtection: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  getChat: jest.fn(),
+  deleteChat: jest.fn(),
+}));
+
+const buildContext = (chatId: string) => ({
+  params: Promise.resolve({ chatId }),
+});
+
+const buildRequest = (chatId: string) =>
+  new NextRequest(`http://localhost:3000/api/chat/${chatId}/delete`, {
+    method: 'POST',
+    body: JSON.stringify({}),
+  });
+
+const mockSession = { userId: 'test-user' };
+
+describe('POST /api/chat/[chatId]/delete', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (getSessionTenantId as jest.Mock).mockReturnValue('tenant-1');
+    (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (deleteChat as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('deletes a chat owned by the user', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-123',
+      userId: mockSession.userId,
+    });
+
+    const response = await POST(buildRequest('chat-123'), buildContext('chat-123'));
+
+    expect(response.status).toBe(200);
+    expect(getChat).toHaveBeenCalledWith('tenant-1', 'chat-123');
+    expect(deleteChat).toHaveBeenCalledWith('tenant-1', 'chat-123');
+  });
+
+  it('returns 404 when chat is missing', async () => {
+    (getChat as jest.Mock).mockResolvedValue(null);
+
+    const response = await POST(buildRequest('missing'), buildContext('missing'));
+
+    expect(response.status).toBe(404);
+    expect(deleteChat).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for chats owned by other users (prevents IDOR)', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-123',
+      userId: 'other',
+    });
+
+    const response = await POST(buildRequest('chat-123'), buildContext('chat-123'));
+
+    expect(response.status).toBe(404);
+    expect(deleteChat).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for chats under legal hold', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-123',
+      userId: mockSession.userId,
+      legalHold: true,
+    });
+
+    const response = await POST(buildRequest('chat-123'), buildContext('chat-123'));
+
+    expect(response.status).toBe(403);
+    expect(deleteChat).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when deletion fails', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-123',
+      userId: mockSession.userId,
+    });
+    (deleteChat as jest.Mock).mockResolvedValue(false);
+
+    const response = await POST(buildRequest('chat-123'), buildContext('chat-123'));
+
+    expect(response.status).toBe(500);
+  });
+});
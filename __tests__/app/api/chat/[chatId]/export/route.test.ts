@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/chat/[chatId]/export/route';
+import { requireSession } from '@/server/middleware/session';
+import { getChat, getChatMessages } from '@/lib/redis/chat';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  getChat: jest.fn(),
+  getChatMessages: jest.fn(),
+}));
+
+const buildContext = (chatId: string) => ({
+  params: Promise.resolve({ chatId }),
+});
+
+const buildRequest = (format?: string) =>
+  new NextRequest(
+    `http://localhost:3000/api/chat/chat-123/export${format ? `?format=${format}` : ''}`,
+  );
+
+const mockSession = { userId: 'test-user' };
+
+describe('GET /api/chat/[chatId]/export', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-123',
+      userId: mockSession.userId,
+      title: 'Release notes',
+      archived: false,
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+    });
+    (getChatMessages as jest.Mock).mockResolvedValue([
+      {
+        id: 'msg-1',
+        chatId: 'chat-123',
+        role: 'user',
+        content: 'Summarize the release',
+        status: 'sent',
+        parentMessageId: null,
+        metadata: null,
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        updatedAt: new Date('2024-01-01T00:00:00Z'),
+      },
+    ]);
+  });
+
+  it('downloads Markdown by default', async () => {
+    const response = await GET(buildRequest(), buildContext('chat-123'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('text/markdown');
+    expect(response.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="release-notes.md"',
+    );
+    expect(await response.text()).toContain('Summarize the release');
+  });
+
+  it('includes metadata in JSON exports', async () => {
+    const response = await GET(buildRequest('json'), buildContext('chat-123'));
+
+    const payload = await response.json();
+    expect(payload.chat.title).toBe('Release notes');
+    expect(payload.messages[0]).toEqual(
+      expect.objectContaining({ id: 'msg-1', metadata: null }),
+    );
+  });
+
+  it('rejects unknown formats', async () => {
+    const response = await GET(buildRequest('pdf'), buildContext('chat-123'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('hides chats owned by another user', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-123',
+      userId: 'someone-else',
+    });
+
+    const response = await GET(buildRequest(), buildContext('chat-123'));
+
+    expect(response.status).toBe(404);
+    expect(getChatMessages).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 when session is missing', async () => {
+    (requireSession as jest.Mock).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(buildRequest(), buildContext('chat-123'));
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,111 @@
+import { NextRequest } from 'next/server';
+import { PUT } from '@/app/api/chat/[chatId]/legal-hold/route';
+import { setChatLegalHold } from '@/lib/redis/chat';
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  setChatLegalHold: jest.fn(),
+}));
+
+const OPERATOR_TOKEN = 'operator-secret';
+
+const buildContext = (chatId: string) => ({
+  params: Promise.resolve({ chatId }),
+});
+
+const buildRequest = (body: Record<string, unknown>, token = OPERATOR_TOKEN) =>
+  new NextRequest('http://localhost:3000/api/chat/chat-1/legal-hold', {
+    method: 'PUT',
+    headers: { authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+
+describe('PUT /api/chat/[chatId]/legal-hold', () => {
+  const originalToken = process.env.OPERATOR_API_TOKEN;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.OPERATOR_API_TOKEN = OPERATOR_TOKEN;
+  });
+
+  afterAll(() => {
+    process.env.OPERATOR_API_TOKEN = originalToken;
+  });
+
+  it('places a legal hold on the chat', async () => {
+    (setChatLegalHold as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: 'user-1',
+      title: 'Held',
+      archived: false,
+      legalHold: true,
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+    });
+
+    const response = await PUT(
+      buildRequest({ legalHold: true }),
+      buildContext('chat-1'),
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(setChatLegalHold).toHaveBeenCalledWith(undefined, 'chat-1', true);
+    expect(body.data.legalHold).toBe(true);
+  });
+
+  it('looks the chat up in the given tenant', async () => {
+    (setChatLegalHold as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: 'user-1',
+      tenantId: 'tenant-1',
+      title: 'Released',
+      archived: false,
+      legalHold: false,
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+    });
+
+    const response = await PUT(
+      buildRequest({ legalHold: false, tenantId: 'tenant-1' }),
+      buildContext('chat-1'),
+    );
+
+    expect(response.status).toBe(200);
+    expect(setChatLegalHold).toHaveBeenCalledWith('tenant-1', 'chat-1', false);
+  });
+
+  it('returns 404 for unknown chats', async () => {
+    (setChatLegalHold as jest.Mock).mockResolvedValue(null);
+
+    const response = await PUT(
+      buildRequest({ legalHold: false }),
+      buildContext('missing'),
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it('is limited to operators', async () => {
+    const response = await PUT(
+      buildRequest({ legalHold: false }, 'not-the-token'),
+      buildContext('chat-1'),
+    );
+
+    expect(response.status).toBe(401);
+    expect(setChatLegalHold).not.toHaveBeenCalled();
+  });
+
+  it('validates the request body', async () => {
+    const response = await PUT(
+      buildRequest({ legalHold: 'yes' }),
+      buildContext('chat-1'),
+    );
+
+    expect(response.status).toBe(400);
+    expect(setChatLegalHold).not.toHaveBeenCalled();
+  });
+});
@@ -1,19 +1,33 @@
 import { NextRequest } from 'next/server';
-import { GET } from '@/app/api/chat/[chatId]/route';
-import { requireSession } from '@/server/middleware/session';
-import { getChat, getChatMessages } from '@/lib/redis/chat';
+import { GET, POST } from '@/app/api/chat/[chatId]/route';
+import { getSessionAppRole, requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { getChat, getChatMessagePage, updateChat } from '@/lib/redis/chat';
+import { recordAuditEvent } from '@/server/utils/audit';
 
 jest.mock('@/server/middleware/session', () => ({
   requireSession: jest.fn(),
+  getSessionAppRole: jest.fn(() => 'user'),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+}));
+
+jest.mock('@/server/middleware/csrf', () => ({
+  withCsrfProtection: jest.fn(),
 }));
 
 jest.mock('@/server/middleware/rate-limit', () => ({
   withChatRateLimit: jest.fn((handler) => handler),
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/server/utils/audit', () => ({
+  recordAuditEvent: jest.fn(),
 }));
 
 jest.mock('@/lib/redis/chat', () => ({
   getChat: jest.fn(),
-  getChatMessages: jest.fn(),
+  getChatMessagePage: jest.fn(),
+  updateChat: jest.fn(),
 }));
 
 const buildContext = (chatId: string) => ({
@@ -26,30 +40,35 @@ describe('GET /api/chat/[chatId]', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (requireSession as jest.Mock).mockResolvedValue(mockSession);
-    (getChatMessages as jest.Mock).mockResolvedValue([
-      {
-        id: 'msg-1',
-        chatId: 'chat-123',
-        role: 'user',
-        content: 'Hello',
-        status: 'sent',
-        parentMessageId: null,
-        metadata: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-    ]);
+    (getChatMessagePage as jest.Mock).mockResolvedValue({
+      messages: [
+        {
+          id: 'msg-1',
+          chatId: 'chat-123',
+          role: 'user',
+          content: 'Hello',
+          status: 'sent',
+          parentMessageId: null,
+          metadata: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ],
+      nextCursor: null,
+    });
+  });
+
+  const ownedChat = () => ({
+    id: 'chat-123',
+    userId: mockSession.userId,
+    title: 'Test',
+    metadata: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
   });
 
   it('returns chat data for owner', async () => {
-    (getChat as jest.Mock).mockResolvedValue({
-      id: 'chat-123',
-      userId: mockSession.userId,
-      title: 'Test',
-      metadata: null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
+    (getChat as jest.Mock).mockResolvedValue(ownedChat());
 
     const response = await GET(
       new NextRequest('http://localhost:3000/api/chat/chat-123'),
@@ -59,6 +78,56 @@ describe('GET /api/chat/[chatId]', () => {
     expect(response.status).toBe(200);
     const payload = await response.json();
     expect(payload.data.chat.id).toBe('chat-123');
+    expect(getChatMessagePage).toHaveBeenCalledWith(
+      'tenant-1',
+      'chat-123',
+      undefined,
+      50,
+    );
+    expect(payload.data.pagination).toEqual({
+      limit: 50,
+      nextCursor: null,
+      hasMore: false,
+    });
+  });
+
+  it('pages back from the cursor', async () => {
+    (getChat as jest.Mock).mockResolvedValue(ownedChat());
+    (getChatMessagePage as jest.Mock).mockResolvedValue({
+      messages: [],
+      nextCursor: 'msg-40',
+    });
+
+    const response = await GET(
+      new NextRequest(
+        'http://localhost:3000/api/chat/chat-123?before=msg-60&limit=20',
+      ),
+      buildContext('chat-123'),
+    );
+
+    expect(response.status).toBe(200);
+    expect(getChatMessagePage).toHaveBeenCalledWith(
+      'tenant-1',
+      'chat-123',
+      'msg-60',
+      20,
+    );
+    const payload = await response.json();
+    expect(payload.data.pagination).toEqual({
+      limit: 20,
+      nextCursor: 'msg-40',
+      hasMore: true,
+    });
+  });
+
+  it('rejects out-of-range page sizes', async () => {
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/chat/chat-123?limit=500'),
+      buildContext('chat-123'),
+    );
+
+    expect(response.status).toBe(400);
+    expect(getChatMessagePage).not.toHaveBeenCalled();
   });
 
   it('returns 404 when chat is missing', async () => {
@@ -70,6 +139,7 @@ describe('GET /api/chat/[chatId]', () => {
     );
 
     expect(response.status).toBe(404);
+    expect(recordAuditEvent).not.toHaveBeenCalled();
   });
 
   it('returns 404 for chats owned by other users (prevents IDOR)', async () => {
@@ -82,11 +152,177 @@ describe('GET /api/chat/[chatId]', () => {
       updatedAt: new Date(),
     });
 
-    const response = await GET(
-      new NextRequest('http://localhost:3000/api/chat/chat-123'),
+    const request = new NextRequest('http://localhost:3000/api/chat/chat-123');
+    const response = await GET(request, buildContext('chat-123'));
+
+    expect(response.status).toBe(404);
+    expect(recordAuditEvent).toHaveBeenCalledWith(request, {
+      type: 'chat.access_denied',
+      actorId: 'test-user',
+      tenantId: 'tenant-1',
+      targetId: 'other',
+      details: { chatId: 'chat-123' },
+    });
+  });
+});
+
+describe('POST /api/chat/[chatId]', () => {
+  const ownedChat = () => ({
+    id: 'chat-123',
+    userId: mockSession.userId,
+    title: 'Test',
+    archived: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const buildUpdateRequest = (body: Record<string, unknown>) =>
+    new NextRequest('http://localhost:3000/api/chat/chat-123', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (updateChat as jest.Mock).mockResolvedValue(true);
+    (getSessionAppRole as jest.Mock).mockReturnValue('user');
+  });
+
+  it('renames a chat owned by the user', async () => {
+    (getChat as jest.Mock)
+      .mockResolvedValueOnce(ownedChat())
+      .mockResolvedValueOnce({ ...ownedChat(), title: 'Renamed' });
+
+    const response = await POST(
+      buildUpdateRequest({ title: 'Renamed' }),
+      buildContext('chat-123'),
+    );
+
+    expect(response.status).toBe(200);
+    expect(updateChat).toHaveBeenCalledWith('tenant-1', 'chat-123', {
+      title: 'Renamed',
+    });
+    const payload = await response.json();
+    expect(payload.data.title).toBe('Renamed');
+  });
+
+  it('archives a chat owned by the user', async () => {
+    (getChat as jest.Mock)
+      .mockResolvedValueOnce(ownedChat())
+      .mockResolvedValueOnce({ ...ownedChat(), archived: true });
+
+    const response = await POST(
+      buildUpdateRequest({ archived: true }),
+      buildContext('chat-123'),
+    );
+
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.data.archived).toBe(true);
+  });
+
+  it('stores per-chat model settings', async () => {
+    (getSessionAppRole as jest.Mock).mockReturnValue('power-user');
+    const settings = {
+      model: 'gemini-1.5-pro',
+      temperature: 0.3,
+      maxTokens: 1500,
+    };
+    (getChat as jest.Mock)
+      .mockResolvedValueOnce(ownedChat())
+      .mockResolvedValueOnce({ ...ownedChat(), settings });
+
+    const response = await POST(
+      buildUpdateRequest({ settings }),
+      buildContext('chat-123'),
+    );
+
+    expect(response.status).toBe(200);
+    expect(updateChat).toHaveBeenCalledWith('tenant-1', 'chat-123', {
+      settings,
+    });
+    const payload = await response.json();
+    expect(payload.data.settings).toEqual(settings);
+  });
+
+  it('rejects models outside the allow-list and out-of-range settings', async () => {
+    (getChat as jest.Mock).mockResolvedValue(ownedChat());
+
+    const unknownModel = await POST(
+      buildUpdateRequest({ settings: { model: 'gpt-unlisted' } }),
+      buildContext('chat-123'),
+    );
+    expect(unknownModel.status).toBe(400);
+
+    const hotTemperature = await POST(
+      buildUpdateRequest({ settings: { temperature: 5 } }),
+      buildContext('chat-123'),
+    );
+    expect(hotTemperature.status).toBe(400);
+
+    const extraField = await POST(
+      buildUpdateRequest({ settings: { topK: 3 } }),
+      buildContext('chat-123'),
+    );
+    expect(extraField.status).toBe(400);
+    expect(updateChat).not.toHaveBeenCalled();
+  });
+
+  it('rejects models the role may not use', async () => {
+    (getChat as jest.Mock).mockResolvedValue(ownedChat());
+
+    const response = await POST(
+      buildUpdateRequest({ settings: { model: 'gemini-1.5-pro' } }),
+      buildContext('chat-123'),
+    );
+
+    expect(response.status).toBe(403);
+    expect(updateChat).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for chats owned by other users (prevents IDOR)', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      ...ownedChat(),
+      userId: 'other',
+    });
+
+    const response = await POST(
+      buildUpdateRequest({ title: 'Hijacked' }),
       buildContext('chat-123'),
     );
 
     expect(response.status).toBe(404);
+    expect(updateChat).not.toHaveBeenCalled();
+  });
+
+  it('rejects empty and invalid updates', async () => {
+    (getChat as jest.Mock).mockResolvedValue(ownedChat());
+
+    const empty = await POST(buildUpdateRequest({}), buildContext('chat-123'));
+    expect(empty.status).toBe(400);
+
+    const invalid = await POST(
+      buildUpdateRequest({ title: '' }),
+      buildContext('chat-123'),
+    );
+    expect(invalid.status).toBe(400);
+    expect(updateChat).not.toHaveBeenCalled();
+  });
+
+  it('returns the CSRF error when validation fails', async () => {
+    (withCsrfProtection as jest.Mock).mockResolvedValue({
+      valid: false,
+      error: new Response(null, { status: 401 }),
+    });
+
+    const response = await POST(
+      buildUpdateRequest({ title: 'Renamed' }),
+      buildContext('chat-123'),
+    );
+
+    expect(response.status).toBe(401);
+    expect(getChat).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,178 @@
+import { NextRequest } from 'next/server';
+import { DELETE, GET, POST } from '@/app/api/chat/[chatId]/share/route';
+import { requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { getChat, getChatMessages } from '@/lib/redis/chat';
+import {
+  createShareLink,
+  getChatShareLinks,
+  revokeShareLink,
+} from '@/lib/redis/share';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+}));
+
+jest.mock('@/server/middleware/csrf', () => ({
+  withCsrfProtection: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  getChat: jest.fn(),
+  getChatMessages: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/share', () => ({
+  createShareLink: jest.fn(),
+  getChatShareLinks: jest.fn(),
+  revokeShareLink: jest.fn(),
+}));
+
+const mockSession = { userId: 'test-user' };
+
+const buildContext = (chatId: string) => ({
+  params: Promise.resolve({ chatId }),
+});
+
+const buildRequest = (method: string, body?: Record<string, unknown>) =>
+  new NextRequest('http://localhost:3000/api/chat/chat-1/share', {
+    method,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+const shareLink = {
+  token: 'tok',
+  chatId: 'chat-1',
+  userId: mockSession.userId,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  expiresAt: null,
+};
+
+describe('/api/chat/[chatId]/share', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      tenantId: 'tenant-1',
+      title: 'Mine',
+    });
+    (getChatMessages as jest.Mock).mockResolvedValue([
+      {
+        id: 'msg-1',
+        chatId: 'chat-1',
+        role: 'assistant',
+        content: 'Hi',
+        status: 'sent',
+        parentMessageId: null,
+        metadata: { model: 'gemini-2.0-flash' },
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        updatedAt: new Date('2024-01-01T00:00:00Z'),
+      },
+    ]);
+    (getChatShareLinks as jest.Mock).mockResolvedValue([shareLink]);
+    (createShareLink as jest.Mock).mockResolvedValue(shareLink);
+    (revokeShareLink as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('lists links with the redaction preview', async () => {
+    const response = await GET(buildRequest('GET'), buildContext('chat-1'));
+
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.data.links).toEqual([
+      {
+        token: 'tok',
+        chatId: 'chat-1',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        expiresAt: null,
+      },
+    ]);
+    expect(payload.data.redactionPreview).toEqual({
+      messageCount: 1,
+      redactedFields: ['model'],
+    });
+  });
+
+  it('mints an expiring link', async () => {
+    const response = await POST(
+      buildRequest('POST', { expiresInDays: 7 }),
+      buildContext('chat-1'),
+    );
+
+    expect(response.status).toBe(200);
+    expect(getChat).toHaveBeenCalledWith('tenant-1', 'chat-1');
+    expect(createShareLink).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'chat-1', tenantId: 'tenant-1' }),
+      7 * 24 * 60 * 60,
+    );
+  });
+
+  it('rejects expiries outside the allowed range', async () => {
+    const response = await POST(
+      buildRequest('POST', { expiresInDays: 365 }),
+      buildContext('chat-1'),
+    );
+
+    expect(response.status).toBe(400);
+    expect(createShareLink).not.toHaveBeenCalled();
+  });
+
+  it('revokes a link', async () => {
+    const response = await DELETE(
+      buildRequest('DELETE', { token: 'tok' }),
+      buildContext('chat-1'),
+    );
+
+    expect(response.status).toBe(200);
+    expect(revokeShareLink).toHaveBeenCalledWith('chat-1', 'tok');
+  });
+
+  it('returns 404 when revoking an unknown link', async () => {
+    (revokeShareLink as jest.Mock).mockResolvedValue(false);
+
+    const response = await DELETE(
+      buildRequest('DELETE', { token: 'nope' }),
+      buildContext('chat-1'),
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it('hides chats owned by another user', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: 'someone-else',
+    });
+
+    const response = await POST(
+      buildRequest('POST', {}),
+      buildContext('chat-1'),
+    );
+
+    expect(response.status).toBe(404);
+    expect(createShareLink).not.toHaveBeenCalled();
+  });
+
+  it('returns the CSRF error before minting', async () => {
+    (withCsrfProtection as jest.Mock).mockResolvedValue({
+      valid: false,
+      error: new Response(null, { status: 403 }),
+    });
+
+    const response = await POST(
+      buildRequest('POST', {}),
+      buildContext('chat-1'),
+    );
+
+    expect(response.status).toBe(403);
+    expect(createShareLink).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/chat/backfill/route';
+import { backfillMessageStore } from '@/lib/redis/message-backfill';
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/message-backfill', () => ({
+  backfillMessageStore: jest.fn(),
+}));
+
+const OPERATOR_TOKEN = 'operator-secret';
+
+const buildRequest = (body: Record<string, unknown>, token = OPERATOR_TOKEN) =>
+  new NextRequest('http://localhost:3000/api/chat/backfill', {
+    method: 'POST',
+    headers: { authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+
+describe('POST /api/chat/backfill', () => {
+  const originalToken = process.env.OPERATOR_API_TOKEN;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.OPERATOR_API_TOKEN = OPERATOR_TOKEN;
+    (backfillMessageStore as jest.Mock).mockResolvedValue({
+      cursor: '0',
+      upgradedChats: 3,
+      upgradedMessages: 10,
+      failedChatIds: [],
+    });
+  });
+
+  afterAll(() => {
+    process.env.OPERATOR_API_TOKEN = originalToken;
+  });
+
+  it('backfills a batch from the given cursor', async () => {
+    const response = await POST(buildRequest({ cursor: '128', count: 50 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(backfillMessageStore).toHaveBeenCalledWith('128', 50);
+    expect(body.data.upgradedChats).toBe(3);
+  });
+
+  it('starts from the beginning without a cursor', async () => {
+    await POST(buildRequest({}));
+
+    expect(backfillMessageStore).toHaveBeenCalledWith('0', undefined);
+  });
+
+  it('rejects malformed cursors', async () => {
+    const response = await POST(buildRequest({ cursor: 'abc' }));
+
+    expect(response.status).toBe(400);
+    expect(backfillMessageStore).not.toHaveBeenCalled();
+  });
+
+  it('is limited to operators', async () => {
+    const response = await POST(buildRequest({}, 'not-the-token'));
+
+    expect(response.status).toBe(401);
+    expect(backfillMessageStore).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/chat/import/route';
+import { requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { importChat } from '@/lib/redis/chat';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+}));
+
+jest.mock('@/server/middleware/csrf', () => ({
+  withCsrfProtection: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  importChat: jest.fn(),
+}));
+
+const mockSession = { userId: 'test-user' };
+
+const transcript = {
+  version: 1,
+  chat: { title: 'Restored chat' },
+  messages: [
+    {
+      id: 'u1',
+      role: 'user',
+      content: 'Hello <script>alert(1)</script>',
+      parentMessageId: null,
+      createdAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+};
+
+const buildRequest = (body: string, headers: Record<string, string> = {}) =>
+  new NextRequest('http://localhost:3000/api/chat/import', {
+    method: 'POST',
+    body,
+    headers,
+  });
+
+describe('POST /api/chat/import', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (importChat as jest.Mock).mockImplementation(
+      async (_tenantId, chat) => chat,
+    );
+  });
+
+  it('imports a transcript as a new chat owned by the caller', async () => {
+    const response = await POST(buildRequest(JSON.stringify(transcript)));
+
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.data.userId).toBe(mockSession.userId);
+    expect(payload.data.title).toBe('Restored chat');
+
+    const [tenantId, chat, messages] = (importChat as jest.Mock).mock.calls[0];
+    expect(tenantId).toBe('tenant-1');
+    expect(chat.id).toBe(payload.data.id);
+    expect(chat.tenantId).toBe('tenant-1');
+    expect(messages[0].content).toBe('Hello ');
+  });
+
+  it('rejects payloads over the size limit', async () => {
+    const response = await POST(
+      buildRequest(JSON.stringify(transcript), {
+        'content-length': String(10 * 1024 * 1024),
+      }),
+    );
+
+    expect(response.status).toBe(400);
+    const payload = await response.json();
+    expect(payload.error.message).toBe(
+      'Request size exceeds maximum allowed size',
+    );
+    expect(importChat).not.toHaveBeenCalled();
+  });
+
+  it('rejects files that are not JSON', async () => {
+    const response = await POST(buildRequest('# Markdown export'));
+
+    expect(response.status).toBe(400);
+    const payload = await response.json();
+    expect(payload.error.message).toBe('Invalid JSON body');
+  });
+
+  it('rejects invalid transcripts', async () => {
+    const response = await POST(
+      buildRequest(JSON.stringify({ ...transcript, messages: [] })),
+    );
+
+    expect(response.status).toBe(400);
+    expect(importChat).not.toHaveBeenCalled();
+  });
+
+  it('returns the CSRF error before importing', async () => {
+    (withCsrfProtection as jest.Mock).mockResolvedValue({
+      valid: false,
+      error: new Response(null, { status: 403 }),
+    });
+
+    const response = await POST(buildRequest(JSON.stringify(transcript)));
+
+    expect(response.status).toBe(403);
+    expect(importChat).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 when session is missing', async () => {
+    (requireSession as jest.Mock).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await POST(buildRequest(JSON.stringify(transcript)));
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/chat/migrate/route';
+import { migrateRedisChatsToSqlite } from '@/lib/chat/repository/migrate';
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/chat/repository/migrate', () => ({
+  migrateRedisChatsToSqlite: jest.fn(),
+}));
+
+const OPERATOR_TOKEN = 'operator-secret';
+
+const buildRequest = (body: Record<string, unknown>, token = OPERATOR_TOKEN) =>
+  new NextRequest('http://localhost:3000/api/chat/migrate', {
+    method: 'POST',
+    headers: { authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+
+describe('POST /api/chat/migrate', () => {
+  const originalToken = process.env.OPERATOR_API_TOKEN;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.OPERATOR_API_TOKEN = OPERATOR_TOKEN;
+    (migrateRedisChatsToSqlite as jest.Mock).mockResolvedValue({
+      cursor: '0',
+      migratedChats: 3,
+      migratedMessages: 10,
+      failedChatIds: [],
+    });
+  });
+
+  afterAll(() => {
+    process.env.OPERATOR_API_TOKEN = originalToken;
+  });
+
+  it('migrates a batch from the given cursor', async () => {
+    const response = await POST(buildRequest({ cursor: '128', count: 50 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(migrateRedisChatsToSqlite).toHaveBeenCalledWith('128', 50);
+    expect(body.data.migratedChats).toBe(3);
+  });
+
+  it('starts from the beginning without a cursor', async () => {
+    await POST(buildRequest({}));
+
+    expect(migrateRedisChatsToSqlite).toHaveBeenCalledWith('0', undefined);
+  });
+
+  it('rejects malformed cursors', async () => {
+    const response = await POST(buildRequest({ cursor: 'abc' }));
+
+    expect(response.status).toBe(400);
+    expect(migrateRedisChatsToSqlite).not.toHaveBeenCalled();
+  });
+
+  it('is limited to operators', async () => {
+    const response = await POST(buildRequest({}, 'not-the-token'));
+
+    expect(response.status).toBe(401);
+    expect(migrateRedisChatsToSqlite).not.toHaveBeenCalled();
+  });
+});
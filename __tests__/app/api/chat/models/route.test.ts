@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/chat/models/route';
+import { getSessionAppRole, requireSession } from '@/server/middleware/session';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionAppRole: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+const buildRequest = () =>
+  new NextRequest('http://localhost:3000/api/chat/models');
+
+const modelIds = async (response: Response) =>
+  (await response.json()).data.map((model: { id: string }) => model.id);
+
+describe('GET /api/chat/models', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue({ userId: 'test-user' });
+    (getSessionAppRole as jest.Mock).mockReturnValue('user');
+  });
+
+  it('lists the standard models of the configured provider to users', async () => {
+    const response = await GET(buildRequest());
+
+    expect(response.status).toBe(200);
+    expect(await modelIds(response)).toEqual([
+      'gemini-1.5-flash',
+      'gemini-2.0-flash',
+    ]);
+  });
+
+  it('includes premium models for power users', async () => {
+    (getSessionAppRole as jest.Mock).mockReturnValue('power-user');
+
+    const response = await GET(buildRequest());
+
+    expect(await modelIds(response)).toContain('gemini-1.5-pro');
+  });
+
+  it('returns 401 when session is missing', async () => {
+    (requireSession as jest.Mock).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(buildRequest());
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -1,18 +1,25 @@
 import { NextRequest } from 'next/server';
 
-import { POST } from '@/app/api/chat/route';
-import { requireSession } from '@/server/middleware/session';
+import { GET, POST } from '@/app/api/chat/route';
+import { getSessionAppRole, requireSession } from '@/server/middleware/session';
 import { withCsrfProtection } from '@/server/middleware/csrf';
+import { checkUsageQuota } from '@/server/middleware/usage-quota';
+import { checkChatSuspension } from '@/server/middleware/suspension';
+import { forbidden, tooManyRequests } from '@/server/api-response';
 import {
   createChat,
   getChat,
   addMessage,
   getChatMessages,
+  getUserChats,
 } from '@/lib/redis/chat';
+import { getRedisClient } from '@/lib/redis/client';
 import { callLLMWithRetry, truncateMessagesToFit } from '@/lib/llm/service';
 
 jest.mock('@/server/middleware/session', () => ({
   requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+  getSessionAppRole: jest.fn(() => 'user'),
 }));
 
 jest.mock('@/server/middleware/csrf', () => ({
@@ -21,6 +28,15 @@ jest.mock('@/server/middleware/csrf', () => ({
 
 jest.mock('@/server/middleware/rate-limit', () => ({
   withChatRateLimit: jest.fn((handler) => handler),
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/server/middleware/usage-quota', () => ({
+  checkUsageQuota: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/suspension', () => ({
+  checkChatSuspension: jest.fn(),
 }));
 
 jest.mock('@/server/middleware/request-dedup', () => ({
@@ -32,6 +48,11 @@ jest.mock('@/lib/redis/chat', () => ({
   getChat: jest.fn(),
   addMessage: jest.fn(),
   getChatMessages: jest.fn(),
+  getUserChats: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
 }));
 
 jest.mock('@/lib/redis/transactions', () => ({
@@ -60,6 +81,12 @@ describe('POST /api/chat', () => {
     jest.clearAllMocks();
     (requireSession as jest.Mock).mockResolvedValue(mockSession);
     (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (checkUsageQuota as jest.Mock).mockResolvedValue({
+      allowed: true,
+      headers: { 'X-Quota-Tokens-Remaining': '958' },
+    });
+    (checkChatSuspension as jest.Mock).mockResolvedValue({ allowed: true });
+    (getSessionAppRole as jest.Mock).mockReturnValue('user');
     (getChat as jest.Mock).mockResolvedValue(null);
     (createChat as jest.Mock).mockResolvedValue({
       id: 'chat-123',
@@ -103,12 +130,219 @@ describe('POST /api/chat', () => {
     expect(response.status).toBe(200);
     const payload = await response.json();
     expect(payload.data.chatId).toBe('chat-123');
+    expect(createChat).toHaveBeenCalledWith(
+      'tenant-1',
+      mockSession.userId,
+      'Hello',
+    );
     expect(payload.data.userMessage.role).toBe('user');
     expect(payload.data.aiMessage.content).toBe('AI response');
     expect(callLLMWithRetry).toHaveBeenCalled();
     expect(addMessage).toHaveBeenCalledTimes(2);
   });
 
+  it('applies per-chat model settings over the defaults', async () => {
+    (getSessionAppRole as jest.Mock).mockReturnValue('power-user');
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Tuned',
+      settings: { model: 'gemini-1.5-pro', temperature: 0.2 },
+    });
+
+    const response = await POST(
+      buildRequest({ content: 'Hi', chatId: 'chat-1' }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(callLLMWithRetry).toHaveBeenCalledWith(expect.any(Array), {
+      model: 'gemini-1.5-pro',
+      maxTokens: 1000,
+      temperature: 0.2,
+      account: { userId: mockSession.userId, tenantId: 'tenant-1' },
+    });
+  });
+
+  it('reports the remaining quota on success', async () => {
+    const response = await POST(buildRequest({ content: 'Hello' }));
+
+    expect(checkUsageQuota).toHaveBeenCalledWith(
+      {
+        userId: mockSession.userId,
+        tenantId: 'tenant-1',
+      },
+      1,
+    );
+    expect(response.headers.get('X-Quota-Tokens-Remaining')).toBe('958');
+  });
+
+  it('scales the user quotas for power users', async () => {
+    (getSessionAppRole as jest.Mock).mockReturnValue('power-user');
+
+    await POST(buildRequest({ content: 'Hello' }));
+
+    expect(checkUsageQuota).toHaveBeenCalledWith(expect.any(Object), 5);
+  });
+
+  it('refuses chat models the role may not use without calling the LLM', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Tuned',
+      settings: { model: 'gemini-1.5-pro' },
+    });
+
+    const response = await POST(
+      buildRequest({ content: 'Hi', chatId: 'chat-1' }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(callLLMWithRetry).not.toHaveBeenCalled();
+    expect(addMessage).not.toHaveBeenCalled();
+  });
+
+  it('releases the idempotency lock when the request is refused', async () => {
+    const redis = {
+      get: jest.fn().mockResolvedValue(null),
+      setnx: jest.fn().mockResolvedValue(1),
+      expire: jest.fn(),
+      del: jest.fn(),
+    };
+    (getRedisClient as jest.Mock).mockReturnValue(redis);
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Tuned',
+      settings: { model: 'gemini-1.5-pro' },
+    });
+
+    const response = await POST(
+      buildRequest({ content: 'Hi', chatId: 'chat-1', idempotencyKey: 'k1' }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(redis.del).toHaveBeenCalledWith('idempotency:lock:test-user:k1');
+  });
+
+  it('refuses without calling the LLM once the quota is used up', async () => {
+    (checkUsageQuota as jest.Mock).mockResolvedValue({
+      allowed: false,
+      headers: {},
+      error: tooManyRequests('Your daily token quota has been used up.', {
+        retryAfter: 3600,
+        type: 'quota',
+      }),
+    });
+
+    const response = await POST(buildRequest({ content: 'Hello' }));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('3600');
+    expect(callLLMWithRetry).not.toHaveBeenCalled();
+    expect(createChat).not.toHaveBeenCalled();
+    expect(addMessage).not.toHaveBeenCalled();
+  });
+
+  it('refuses suspended users before anything is written', async () => {
+    (checkChatSuspension as jest.Mock).mockResolvedValue({
+      allowed: false,
+      error: forbidden('Your account has been suspended from chatting.'),
+    });
+
+    const response = await POST(buildRequest({ content: 'Hello' }));
+
+    expect(response.status).toBe(403);
+    expect(checkChatSuspension).toHaveBeenCalledWith(mockSession.userId);
+    expect(callLLMWithRetry).not.toHaveBeenCalled();
+    expect(createChat).not.toHaveBeenCalled();
+  });
+
+  it('leads the LLM context with the chat system prompt', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Persona chat',
+      settings: { systemPrompt: 'You are a pirate.' },
+    });
+
+    await POST(buildRequest({ content: 'Hi', chatId: 'chat-1' }));
+
+    expect(truncateMessagesToFit).toHaveBeenCalledWith(
+      [
+        { role: 'system', content: 'You are a pirate.' },
+        { role: 'user', content: 'Hi' },
+      ],
+      expect.any(Number),
+    );
+  });
+
+  it('branches an edited message from the original parent', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Branching',
+    });
+    (getChatMessages as jest.Mock).mockResolvedValue([
+      { id: 'u1', role: 'user', content: 'First', parentMessageId: null },
+      { id: 'a1', role: 'assistant', content: 'Reply', parentMessageId: 'u1' },
+      { id: 'u2', role: 'user', content: 'Typo', parentMessageId: 'a1' },
+      { id: 'a2', role: 'assistant', content: 'Huh?', parentMessageId: 'u2' },
+    ]);
+
+    const response = await POST(
+      buildRequest({
+        content: 'Fixed',
+        chatId: 'chat-1',
+        editOfMessageId: 'u2',
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    // The tree is built from the whole history, not the first page of it
+    expect(getChatMessages).toHaveBeenCalledWith(
+      'tenant-1',
+      'chat-1',
+      0,
+      Number.MAX_SAFE_INTEGER,
+    );
+    expect(truncateMessagesToFit).toHaveBeenCalledWith(
+      [
+        { role: 'user', content: 'First' },
+        { role: 'assistant', content: 'Reply' },
+        { role: 'user', content: 'Fixed' },
+      ],
+      expect.any(Number),
+    );
+    expect(addMessage).toHaveBeenCalledWith(
+      'tenant-1',
+      'chat-1',
+      expect.objectContaining({
+        role: 'user',
+        parentMessageId: 'a1',
+        metadata: expect.objectContaining({ editedFromMessageId: 'u2' }),
+      }),
+    );
+  });
+
+  it('rejects edits of messages outside the chat', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Branching',
+    });
+
+    const response = await POST(
+      buildRequest({
+        content: 'Fixed',
+        chatId: 'chat-1',
+        editOfMessageId: 'x',
+      }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(addMessage).not.toHaveBeenCalled();
+  });
+
   it('rejects access to chats owned by another user', async () => {
     (getChat as jest.Mock).mockResolvedValue({
       id: 'chat-1',
@@ -130,3 +364,85 @@ describe('POST /api/chat', () => {
     expect(payload.error.message).toBe('Failed to process message');
   });
 });
+
+describe('GET /api/chat', () => {
+  const buildChat = (id: string, archived: boolean, updatedAt: string) => ({
+    id,
+    userId: mockSession.userId,
+    title: `Chat ${id}`,
+    archived,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date(updatedAt),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (getUserChats as jest.Mock).mockResolvedValue([
+      buildChat('chat-3', false, '2024-01-03T00:00:00Z'),
+      buildChat('chat-2', true, '2024-01-02T00:00:00Z'),
+      buildChat('chat-1', false, '2024-01-01T00:00:00Z'),
+    ]);
+  });
+
+  it('returns 401 when session is missing', async () => {
+    (requireSession as jest.Mock).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/chat'),
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it('lists only the current user chats', async () => {
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/chat'),
+    );
+
+    expect(response.status).toBe(200);
+    expect(getUserChats).toHaveBeenCalledWith('tenant-1', mockSession.userId);
+    const payload = await response.json();
+    expect(payload.data.map((chat: { id: string }) => chat.id)).toEqual([
+      'chat-3',
+      'chat-2',
+      'chat-1',
+    ]);
+    expect(payload.meta.pagination.total).toBe(3);
+  });
+
+  it('filters by archived state', async () => {
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/chat?archived=false'),
+    );
+
+    const payload = await response.json();
+    expect(payload.data.map((chat: { id: string }) => chat.id)).toEqual([
+      'chat-3',
+      'chat-1',
+    ]);
+  });
+
+  it('paginates results', async () => {
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/chat?offset=1&limit=1'),
+    );
+
+    const payload = await response.json();
+    expect(payload.data).toHaveLength(1);
+    expect(payload.data[0].id).toBe('chat-2');
+    expect(payload.meta.pagination).toEqual({
+      offset: 1,
+      limit: 1,
+      total: 3,
+      hasMore: true,
+    });
+  });
+
+  it('rejects invalid query parameters', async () => {
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/chat?archived=maybe'),
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
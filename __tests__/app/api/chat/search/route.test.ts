@@ -0,0 +1,122 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/chat/search/route';
+import { requireSession } from '@/server/middleware/session';
+import { searchMessages } from '@/lib/redis/search';
+import { getChatRepository } from '@/lib/chat/repository';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/search', () => ({
+  searchMessages: jest.fn(),
+}));
+
+jest.mock('@/lib/chat/repository', () => ({
+  getChatRepository: jest.fn(),
+}));
+
+const mockChatRepository = { getChat: jest.fn() };
+
+const mockSession = { userId: 'test-user' };
+
+const buildRequest = (query: string) =>
+  new NextRequest(`http://localhost:3000/api/chat/search?${query}`);
+
+describe('GET /api/chat/search', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (getChatRepository as jest.Mock).mockReturnValue(mockChatRepository);
+    (searchMessages as jest.Mock).mockResolvedValue({
+      results: [
+        {
+          messageId: 'msg-1',
+          chatId: 'chat-1',
+          chatTitle: 'Infra',
+          role: 'user',
+          snippet: 'Terraform modules',
+          highlights: [[0, 9]],
+          createdAt: '2024-05-01T10:00:00.000Z',
+        },
+      ],
+      total: 3,
+      truncated: false,
+    });
+  });
+
+  it('returns 401 when session is missing', async () => {
+    (requireSession as jest.Mock).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(buildRequest('q=terraform'));
+    expect(response.status).toBe(401);
+  });
+
+  it('searches the current user index with filters and pagination', async () => {
+    const response = await GET(
+      buildRequest(
+        'q=terraform&role=user&from=2024-04-01&to=2024-06-01&offset=0&limit=1',
+      ),
+    );
+
+    expect(response.status).toBe(200);
+    expect(getChatRepository).toHaveBeenCalledWith('tenant-1');
+    expect(searchMessages).toHaveBeenCalledWith(
+      mockChatRepository,
+      mockSession.userId,
+      {
+        query: 'terraform',
+        role: 'user',
+        from: new Date('2024-04-01'),
+        to: new Date('2024-06-01'),
+        offset: 0,
+        limit: 1,
+      },
+    );
+    const payload = await response.json();
+    expect(payload.data[0].highlights).toEqual([[0, 9]]);
+    expect(payload.meta.pagination).toEqual({
+      offset: 0,
+      limit: 1,
+      total: 3,
+      truncated: false,
+      hasMore: true,
+    });
+  });
+
+  it('reports more results when the search stopped early', async () => {
+    (searchMessages as jest.Mock).mockResolvedValue({
+      results: [],
+      total: 0,
+      truncated: true,
+    });
+
+    const response = await GET(buildRequest('q=the'));
+    const payload = await response.json();
+
+    expect(payload.meta.pagination).toMatchObject({
+      total: 0,
+      truncated: true,
+      hasMore: true,
+    });
+  });
+
+  it('rejects missing queries, unknown roles and inverted date ranges', async () => {
+    const missing = await GET(buildRequest(''));
+    expect(missing.status).toBe(400);
+
+    const role = await GET(buildRequest('q=terraform&role=system'));
+    expect(role.status).toBe(400);
+
+    const range = await GET(
+      buildRequest('q=terraform&from=2024-06-01&to=2024-04-01'),
+    );
+    expect(range.status).toBe(400);
+    expect(searchMessages).not.toHaveBeenCalled();
+  });
+});
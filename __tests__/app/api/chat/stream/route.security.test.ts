@@ -16,12 +16,17 @@ jest.mock('@/server/middleware/csrf', () => ({
 }));
 jest.mock('@/server/middleware/session', () => ({
   requireSession: jest.fn().mockResolvedValue({ userId: 'test-user-id' }),
+  getSessionTenantId: jest.fn(),
+  getSessionAppRole: jest.fn(() => 'user'),
 }));
 jest.mock('@/server/middleware/rate-limit', () => ({
   withChatRateLimit: jest.fn(
     (handler: (request: NextRequest) => Promise<Response>) => handler,
   ),
 }));
+jest.mock('@/server/middleware/suspension', () => ({
+  checkChatSuspension: jest.fn().mockResolvedValue({ allowed: true }),
+}));
 jest.mock('@/lib/redis/chat', () => ({
   createChat: jest.fn().mockResolvedValue({
     id: 'chat-123',
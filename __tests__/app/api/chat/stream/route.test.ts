@@ -1,31 +1,48 @@
-import { POST } from '@/app/api/chat/stream/route';
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { withCsrfProtection as mockWithCsrfProtection } from '@/server/middleware/csrf';
-import { requireSession as mockRequireSession } from '@/server/middleware/session';
+import { DELETE, POST } from '@/app/api/chat/stream/route';
+import { requireSession } from '@/server/middleware/session';
+import { checkUsageQuota } from '@/server/middleware/usage-quota';
+import { checkChatSuspension } from '@/server/middleware/suspension';
+import { forbidden, tooManyRequests } from '@/server/api-response';
 import {
+  addMessage,
   createChat,
   getChat,
-  addMessage,
   getChatMessages,
 } from '@/lib/redis/chat';
 import {
   callLLMStreamWithRetry,
   truncateMessagesToFit,
-  getCircuitBreaker,
 } from '@/lib/llm/service';
+import {
+  appendStreamEvent,
+  completeStreamBuffer,
+  getStreamBuffer,
+  getStreamEventsAfter,
+  openStreamBuffer,
+  requestStreamStop,
+} from '@/lib/redis/stream-buffer';
 
-jest.mock('next-auth');
 jest.mock('@/server/middleware/csrf', () => ({
   withCsrfProtection: jest.fn().mockResolvedValue({ valid: true }),
 }));
+
 jest.mock('@/server/middleware/session', () => ({
   requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+  getSessionAppRole: jest.fn(() => 'user'),
 }));
+
 jest.mock('@/server/middleware/rate-limit', () => ({
-  withChatRateLimit: jest.fn(
-    (handler: (request: NextRequest) => Promise<Response>) => handler,
-  ),
+  withChatRateLimit: jest.fn((handler) => handler),
+}));
+
+jest.mock('@/server/middleware/usage-quota', () => ({
+  checkUsageQuota: jest.fn().mockResolvedValue({ allowed: true, headers: {} }),
+}));
+
+jest.mock('@/server/middleware/suspension', () => ({
+  checkChatSuspension: jest.fn().mockResolvedValue({ allowed: true }),
 }));
 jest.mock('@/lib/redis/chat', () => ({
   createChat: jest.fn(),
@@ -33,33 +50,51 @@ jest.mock('@/lib/redis/chat', () => ({
   addMessage: jest.fn(),
   getChatMessages: jest.fn(),
 }));
+
 jest.mock('@/lib/llm/service', () => ({
   callLLMStreamWithRetry: jest.fn(),
-  truncateMessagesToFit: jest.fn().mockReturnValue({
-    messages: [],
-    truncated: false,
-    removedCount: 0,
-  }),
+  truncateMessagesToFit: jest.fn(),
   getFallbackMessage: jest.fn().mockReturnValue('Fallback'),
   getCircuitBreaker: jest.fn().mockReturnValue({ getState: () => 'CLOSED' }),
 }));
 
-describe('POST /api/chat/stream', () => {
-  const mockSession = {
-    user: { id: 'test-user-id', email: 'test@example.com' },
-  };
+jest.mock('@/lib/redis/stream-buffer', () => ({
+  ...jest.requireActual('@/lib/redis/stream-buffer'),
+  openStreamBuffer: jest.fn(),
+  appendStreamEvent: jest.fn(),
+  completeStreamBuffer: jest.fn(),
+  getStreamBuffer: jest.fn(),
+  getStreamEventsAfter: jest.fn(),
+  requestStreamStop: jest.fn(),
+}));
+
+const mockSession = { userId: 'test-user' };
+
+const history = [
+  { id: 'u1', role: 'user', content: 'Tell a joke', parentMessageId: null },
+  {
+    id: 'a1',
+    role: 'assistant',
+    content: 'Not funny',
+    parentMessageId: 'u1',
+  },
+];
 
+const buildRequest = (body: Record<string, unknown>) =>
+  new NextRequest('http://localhost:3000/api/chat/stream', {
+    method: 'POST',
+    headers: { host: 'localhost:3000' },
+    body: JSON.stringify(body),
+  });
+
+describe('POST /api/chat/stream', () => {
   beforeEach(() => {
     jest.clearAllMocks();
-    (getServerSession as jest.Mock).mockResolvedValue(mockSession);
-    (mockWithCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
-    (mockRequireSession as jest.Mock).mockResolvedValue({
-      userId: mockSession.user.id,
-    });
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
     (getChat as jest.Mock).mockResolvedValue(null);
     (createChat as jest.Mock).mockResolvedValue({
       id: 'chat-123',
-      userId: mockSession.user.id,
+      userId: mockSession.userId,
     });
     (getChatMessages as jest.Mock).mockResolvedValue([]);
     (addMessage as jest.Mock).mockResolvedValue(undefined);
@@ -75,31 +110,20 @@ describe('POST /api/chat/stream', () => {
       truncated: false,
       removedCount: 0,
     });
-    (getCircuitBreaker as jest.Mock).mockReturnValue({
-      getState: () => 'CLOSED',
-    });
   });
 
   describe('Streaming Response', () => {
     it('returns a ReadableStream for valid requests', async () => {
-      const request = new NextRequest('http://localhost:3000/api/chat/stream', {
-        method: 'POST',
-        body: JSON.stringify({ content: 'Hello streaming' }),
-      });
-
-      const response = await POST(request);
+      const response = await POST(buildRequest({ content: 'Hello streaming' }));
       expect(response.status).toBe(200);
       expect(response.headers.get('content-type')).toBe('text/event-stream');
       expect(response.body).toBeInstanceOf(ReadableStream);
     });
 
     it('handles stream cancellation gracefully', async () => {
-      const request = new NextRequest('http://localhost:3000/api/chat/stream', {
-        method: 'POST',
-        body: JSON.stringify({ content: 'Test cancellation' }),
-      });
-
-      const response = await POST(request);
+      const response = await POST(
+        buildRequest({ content: 'Test cancellation' }),
+      );
       const reader = response.body?.getReader();
 
       // Read first chunk then cancel
@@ -112,12 +136,7 @@ describe('POST /api/chat/stream', () => {
     });
 
     it('streams tokens progressively', async () => {
-      const request = new NextRequest('http://localhost:3000/api/chat/stream', {
-        method: 'POST',
-        body: JSON.stringify({ content: 'Test streaming' }),
-      });
-
-      const response = await POST(request);
+      const response = await POST(buildRequest({ content: 'Test streaming' }));
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       const chunks: string[] = [];
@@ -143,12 +162,8 @@ describe('POST /api/chat/stream', () => {
       (callLLMStreamWithRetry as jest.Mock).mockImplementationOnce(async () => {
         throw new Error('Stream interrupted');
       });
-      const request = new NextRequest('http://localhost:3000/api/chat/stream', {
-        method: 'POST',
-        body: JSON.stringify({ content: 'Test error' }),
-      });
 
-      const response = await POST(request);
+      const response = await POST(buildRequest({ content: 'Test error' }));
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       let errorReceived = false;
@@ -181,6 +196,7 @@ describe('POST /api/chat/stream', () => {
       const abortController = new AbortController();
       const request = new NextRequest('http://localhost:3000/api/chat/stream', {
         method: 'POST',
+        headers: { host: 'localhost:3000' },
         body: JSON.stringify({ content: 'Test abort' }),
         signal: abortController.signal,
       });
@@ -194,3 +210,441 @@ describe('POST /api/chat/stream', () => {
     });
   });
 });
+
+describe('POST /api/chat/stream regeneration', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Jokes',
+    });
+    (getChatMessages as jest.Mock).mockResolvedValue(history);
+    (addMessage as jest.Mock).mockResolvedValue(undefined);
+    (truncateMessagesToFit as jest.Mock).mockImplementation((messages) => ({
+      messages,
+      truncated: false,
+      removedCount: 0,
+    }));
+    (callLLMStreamWithRetry as jest.Mock).mockImplementation(
+      async (_messages, onToken: (chunk: string) => void) => {
+        onToken('Funnier');
+        return { model: 'mock-model', tokensUsed: 3 };
+      },
+    );
+  });
+
+  it('streams an alternate answer as a sibling of the original', async () => {
+    const response = await POST(
+      buildRequest({ chatId: 'chat-1', regenerateMessageId: 'a1' }),
+    );
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(body).toContain('event: message_created');
+    expect(callLLMStreamWithRetry).toHaveBeenCalledWith(
+      [{ role: 'user', content: 'Tell a joke' }],
+      expect.any(Function),
+      expect.any(Object),
+    );
+    // Only the alternate is stored; the user turn is reused
+    expect(addMessage).toHaveBeenCalledTimes(1);
+    expect(addMessage).toHaveBeenCalledWith(
+      'tenant-1',
+      'chat-1',
+      expect.objectContaining({
+        role: 'assistant',
+        content: 'Funnier',
+        parentMessageId: 'u1',
+        metadata: expect.objectContaining({ regeneratedFromMessageId: 'a1' }),
+      }),
+    );
+  });
+
+  it('rejects regenerating user messages and unknown messages', async () => {
+    const userTarget = await POST(
+      buildRequest({ chatId: 'chat-1', regenerateMessageId: 'u1' }),
+    );
+    expect(userTarget.status).toBe(400);
+
+    const unknownTarget = await POST(
+      buildRequest({ chatId: 'chat-1', regenerateMessageId: 'missing' }),
+    );
+    expect(unknownTarget.status).toBe(400);
+    expect(callLLMStreamWithRetry).not.toHaveBeenCalled();
+  });
+
+  it('rejects regenerating in chats owned by another user', async () => {
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: 'other-user',
+    });
+
+    const response = await POST(
+      buildRequest({ chatId: 'chat-1', regenerateMessageId: 'a1' }),
+    );
+
+    expect(response.status).toBe(401);
+    expect(getChatMessages).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/chat/stream usage quota', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Jokes',
+    });
+    (getChatMessages as jest.Mock).mockResolvedValue(history);
+    (addMessage as jest.Mock).mockResolvedValue(undefined);
+    (truncateMessagesToFit as jest.Mock).mockImplementation((messages) => ({
+      messages,
+      truncated: false,
+      removedCount: 0,
+    }));
+    (callLLMStreamWithRetry as jest.Mock).mockImplementation(
+      async (_messages, onToken: (chunk: string) => void) => {
+        onToken('Funnier');
+        return { model: 'mock-model', tokensUsed: 3 };
+      },
+    );
+  });
+
+  afterEach(() => {
+    (checkUsageQuota as jest.Mock).mockResolvedValue({
+      allowed: true,
+      headers: {},
+    });
+  });
+
+  it('bills the stream to the session and reports the remaining quota', async () => {
+    (checkUsageQuota as jest.Mock).mockResolvedValue({
+      allowed: true,
+      headers: { 'X-Quota-Tokens-Remaining': '500' },
+    });
+
+    const response = await POST(
+      buildRequest({ chatId: 'chat-1', regenerateMessageId: 'a1' }),
+    );
+    await response.text();
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(response.headers.get('X-Quota-Tokens-Remaining')).toBe('500');
+    expect(callLLMStreamWithRetry).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.any(Function),
+      expect.objectContaining({
+        account: { userId: mockSession.userId, tenantId: 'tenant-1' },
+      }),
+    );
+  });
+
+  it('refuses to start a generation once the quota is used up', async () => {
+    (checkUsageQuota as jest.Mock).mockResolvedValue({
+      allowed: false,
+      headers: {},
+      error: tooManyRequests('Your monthly spending quota has been used up.', {
+        retryAfter: 60,
+        type: 'quota',
+      }),
+    });
+
+    const response = await POST(
+      buildRequest({ chatId: 'chat-1', regenerateMessageId: 'a1' }),
+    );
+
+    expect(response.status).toBe(429);
+    const payload = await response.json();
+    expect(payload.error.details.type).toBe('quota');
+    expect(callLLMStreamWithRetry).not.toHaveBeenCalled();
+    expect(addMessage).not.toHaveBeenCalled();
+  });
+
+  it('refuses to start a generation for a suspended user', async () => {
+    (checkChatSuspension as jest.Mock).mockResolvedValueOnce({
+      allowed: false,
+      error: forbidden('Your account has been suspended from chatting.'),
+    });
+
+    const response = await POST(
+      buildRequest({ chatId: 'chat-1', regenerateMessageId: 'a1' }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(callLLMStreamWithRetry).not.toHaveBeenCalled();
+    expect(addMessage).not.toHaveBeenCalled();
+  });
+
+  it('refuses chat models the role may not use before storing the message', async () => {
+    (getChat as jest.Mock).mockResolvedValueOnce({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Jokes',
+      settings: { model: 'gemini-1.5-pro' },
+    });
+
+    const response = await POST(
+      buildRequest({ chatId: 'chat-1', content: 'Another one' }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(callLLMStreamWithRetry).not.toHaveBeenCalled();
+    expect(addMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/chat/stream cancellation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Jokes',
+    });
+    (getChatMessages as jest.Mock).mockResolvedValue(history);
+    (addMessage as jest.Mock).mockResolvedValue(undefined);
+    (truncateMessagesToFit as jest.Mock).mockImplementation((messages) => ({
+      messages,
+      truncated: false,
+      removedCount: 0,
+    }));
+  });
+
+  it('saves the partial answer as stopped when an unbuffered client aborts', async () => {
+    (openStreamBuffer as jest.Mock).mockResolvedValue(false);
+    const client = new AbortController();
+    let providerSignal: AbortSignal | undefined;
+    (callLLMStreamWithRetry as jest.Mock).mockImplementation(
+      async (
+        _messages,
+        onToken: (chunk: string) => void,
+        options: { signal: AbortSignal },
+      ) => {
+        providerSignal = options.signal;
+        onToken('Half a ');
+        client.abort();
+        throw Object.assign(new Error('Request aborted'), {
+          name: 'AbortError',
+        });
+      },
+    );
+
+    const response = await POST(
+      new NextRequest('http://localhost:3000/api/chat/stream', {
+        method: 'POST',
+        headers: { host: 'localhost:3000' },
+        body: JSON.stringify({ chatId: 'chat-1', regenerateMessageId: 'a1' }),
+        signal: client.signal,
+      }),
+    );
+    const body = await response.text();
+
+    expect(providerSignal?.aborted).toBe(true);
+    expect(body).not.toContain('event: error');
+    expect(addMessage).toHaveBeenCalledWith(
+      'tenant-1',
+      'chat-1',
+      expect.objectContaining({
+        role: 'assistant',
+        content: 'Half a',
+        status: 'stopped',
+        metadata: expect.objectContaining({ stopped: true }),
+      }),
+    );
+  });
+
+  it('stores nothing when the stop comes before the first token', async () => {
+    (openStreamBuffer as jest.Mock).mockResolvedValue(false);
+    const client = new AbortController();
+    (callLLMStreamWithRetry as jest.Mock).mockImplementation(async () => {
+      client.abort();
+      throw Object.assign(new Error('Request aborted'), {
+        name: 'AbortError',
+      });
+    });
+
+    const response = await POST(
+      new NextRequest('http://localhost:3000/api/chat/stream', {
+        method: 'POST',
+        headers: { host: 'localhost:3000' },
+        body: JSON.stringify({ chatId: 'chat-1', regenerateMessageId: 'a1' }),
+        signal: client.signal,
+      }),
+    );
+    const body = await response.text();
+
+    expect(body).not.toContain('event: error');
+    expect(addMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/chat/stream resumption', () => {
+  const ownedBuffer = {
+    chatId: 'chat-1',
+    userId: mockSession.userId,
+    status: 'complete',
+    stopRequested: false,
+  };
+
+  const buildResumeRequest = (lastEventId: string) =>
+    new NextRequest('http://localhost:3000/api/chat/stream', {
+      method: 'POST',
+      headers: { host: 'localhost:3000', 'Last-Event-ID': lastEventId },
+      body: JSON.stringify({ chatId: 'chat-1' }),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: mockSession.userId,
+      title: 'Jokes',
+    });
+    (getChatMessages as jest.Mock).mockResolvedValue(history);
+    (addMessage as jest.Mock).mockResolvedValue(undefined);
+    (truncateMessagesToFit as jest.Mock).mockImplementation((messages) => ({
+      messages,
+      truncated: false,
+      removedCount: 0,
+    }));
+    (openStreamBuffer as jest.Mock).mockResolvedValue(true);
+    (appendStreamEvent as jest.Mock).mockResolvedValue(true);
+    (getStreamBuffer as jest.Mock).mockResolvedValue(ownedBuffer);
+  });
+
+  it('keeps generating into the buffer after the client disconnects', async () => {
+    const client = new AbortController();
+    let providerSignal: AbortSignal | undefined;
+    (callLLMStreamWithRetry as jest.Mock).mockImplementation(
+      async (
+        _messages,
+        onToken: (chunk: string) => void,
+        options: { signal: AbortSignal },
+      ) => {
+        providerSignal = options.signal;
+        onToken('Knock ');
+        client.abort();
+        onToken('knock');
+        return { model: 'mock-model', tokensUsed: 2 };
+      },
+    );
+
+    const response = await POST(
+      new NextRequest('http://localhost:3000/api/chat/stream', {
+        method: 'POST',
+        headers: { host: 'localhost:3000' },
+        body: JSON.stringify({ chatId: 'chat-1', regenerateMessageId: 'a1' }),
+        signal: client.signal,
+      }),
+    );
+    const body = await response.text();
+
+    expect(body).toMatch(/id: gen_[\w-]+:1\nevent: message_created/);
+    expect(providerSignal?.aborted).toBe(false);
+    expect(appendStreamEvent).toHaveBeenLastCalledWith(
+      expect.stringMatching(/^gen_/),
+      expect.objectContaining({ seq: 4, event: 'message_complete' }),
+    );
+    expect(addMessage).toHaveBeenCalledWith(
+      'tenant-1',
+      'chat-1',
+      expect.objectContaining({ content: 'Knock knock', status: 'sent' }),
+    );
+    expect(completeStreamBuffer).toHaveBeenCalled();
+  });
+
+  it('replays events after Last-Event-ID without a new generation', async () => {
+    (getStreamEventsAfter as jest.Mock).mockResolvedValue([
+      {
+        seq: 3,
+        event: 'content_delta',
+        data: { messageId: 'a2', delta: 'lo', accumulatedContent: 'Hello' },
+      },
+      {
+        seq: 4,
+        event: 'message_complete',
+        data: { messageId: 'a2', content: 'Hello' },
+      },
+    ]);
+
+    const response = await POST(buildResumeRequest('gen_1:2'));
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(getStreamEventsAfter).toHaveBeenCalledWith('gen_1', 2);
+    expect(body).toContain('id: gen_1:3\nevent: content_delta');
+    expect(body).toContain('id: gen_1:4\nevent: message_complete');
+    expect(callLLMStreamWithRetry).not.toHaveBeenCalled();
+    expect(addMessage).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown, expired and foreign streams', async () => {
+    const malformed = await POST(buildResumeRequest('not-an-id'));
+    expect(malformed.status).toBe(400);
+
+    (getStreamBuffer as jest.Mock).mockResolvedValueOnce(null);
+    const expired = await POST(buildResumeRequest('gen_1:2'));
+    expect(expired.status).toBe(404);
+
+    (getStreamBuffer as jest.Mock).mockResolvedValueOnce({
+      ...ownedBuffer,
+      userId: 'other-user',
+    });
+    const foreign = await POST(buildResumeRequest('gen_1:2'));
+    expect(foreign.status).toBe(404);
+    expect(getStreamEventsAfter).not.toHaveBeenCalled();
+  });
+});
+
+describe('DELETE /api/chat/stream', () => {
+  const buildStopRequest = (body: Record<string, unknown>) =>
+    new NextRequest('http://localhost:3000/api/chat/stream', {
+      method: 'DELETE',
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (getStreamBuffer as jest.Mock).mockResolvedValue({
+      chatId: 'chat-1',
+      userId: mockSession.userId,
+      status: 'streaming',
+      stopRequested: false,
+    });
+    (requestStreamStop as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('requests a stop for the owner', async () => {
+    const response = await DELETE(buildStopRequest({ generationId: 'gen_1' }));
+
+    expect(response.status).toBe(200);
+    expect(requestStreamStop).toHaveBeenCalledWith('gen_1');
+  });
+
+  it('hides generations of other users', async () => {
+    (getStreamBuffer as jest.Mock).mockResolvedValue({
+      chatId: 'chat-1',
+      userId: 'other-user',
+      status: 'streaming',
+      stopRequested: false,
+    });
+
+    const response = await DELETE(buildStopRequest({ generationId: 'gen_1' }));
+
+    expect(response.status).toBe(404);
+    expect(requestStreamStop).not.toHaveBeenCalled();
+  });
+
+  it('validates the request body', async () => {
+    const response = await DELETE(buildStopRequest({}));
+
+    expect(response.status).toBe(400);
+  });
+});
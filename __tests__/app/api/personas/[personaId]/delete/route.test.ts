@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/personas/[personaId]/delete/route';
+import { requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { deletePersona, getPersona } from '@/lib/redis/persona';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/csrf', () => ({
+  withCsrfProtection: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/persona', () => ({
+  getPersona: jest.fn(),
+  deletePersona: jest.fn(),
+}));
+
+const buildContext = (personaId: string) => ({
+  params: Promise.resolve({ personaId }),
+});
+
+const buildRequest = (personaId: string) =>
+  new NextRequest(`http://localhost:3000/api/personas/${personaId}/delete`, {
+    method: 'POST',
+    body: JSON.stringify({}),
+  });
+
+const mockSession = { userId: 'test-user' };
+
+describe('POST /api/personas/[personaId]/delete', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (deletePersona as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('deletes a persona owned by the user', async () => {
+    (getPersona as jest.Mock).mockResolvedValue({
+      id: 'persona-1',
+      userId: mockSession.userId,
+    });
+
+    const response = await POST(
+      buildRequest('persona-1'),
+      buildContext('persona-1'),
+    );
+
+    expect(response.status).toBe(200);
+    expect(deletePersona).toHaveBeenCalledWith('persona-1');
+  });
+
+  it('returns 404 for personas owned by other users (prevents IDOR)', async () => {
+    (getPersona as jest.Mock).mockResolvedValue({
+      id: 'persona-1',
+      userId: 'other-user',
+    });
+
+    const response = await POST(
+      buildRequest('persona-1'),
+      buildContext('persona-1'),
+    );
+
+    expect(response.status).toBe(404);
+    expect(deletePersona).not.toHaveBeenCalled();
+  });
+});
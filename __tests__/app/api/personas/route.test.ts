@@ -0,0 +1,121 @@
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/personas/route';
+import { requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { createPersona, getUserPersonas } from '@/lib/redis/persona';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/csrf', () => ({
+  withCsrfProtection: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/persona', () => ({
+  createPersona: jest.fn(),
+  getUserPersonas: jest.fn(),
+}));
+
+const mockSession = { userId: 'test-user' };
+
+const buildPersona = (overrides: Record<string, unknown> = {}) => ({
+  id: 'persona-1',
+  userId: mockSession.userId,
+  name: 'Reviewer',
+  systemPrompt: 'You are a strict code reviewer.',
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const buildCreateRequest = (body: Record<string, unknown>) =>
+  new NextRequest('http://localhost:3000/api/personas', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+
+describe('/api/personas', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (getUserPersonas as jest.Mock).mockResolvedValue([buildPersona()]);
+  });
+
+  it('lists the current user personas without owner metadata', async () => {
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/personas'),
+    );
+
+    expect(response.status).toBe(200);
+    expect(getUserPersonas).toHaveBeenCalledWith(mockSession.userId);
+    const payload = await response.json();
+    expect(payload.data).toEqual([
+      {
+        id: 'persona-1',
+        name: 'Reviewer',
+        systemPrompt: 'You are a strict code reviewer.',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('returns 401 when session is missing', async () => {
+    (requireSession as jest.Mock).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/personas'),
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it('creates a persona for the current user', async () => {
+    (createPersona as jest.Mock).mockResolvedValue(
+      buildPersona({ id: 'persona-2', name: 'Pirate' }),
+    );
+
+    const response = await POST(
+      buildCreateRequest({ name: ' Pirate ', systemPrompt: 'Say arr.' }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(createPersona).toHaveBeenCalledWith(
+      mockSession.userId,
+      'Pirate',
+      'Say arr.',
+    );
+  });
+
+  it('rejects invalid personas and enforces the per-user limit', async () => {
+    const invalid = await POST(buildCreateRequest({ name: 'Empty' }));
+    expect(invalid.status).toBe(400);
+
+    (getUserPersonas as jest.Mock).mockResolvedValue(
+      Array.from({ length: 50 }, (_, i) => buildPersona({ id: `p-${i}` })),
+    );
+    const overLimit = await POST(
+      buildCreateRequest({ name: 'One more', systemPrompt: 'Hi' }),
+    );
+    expect(overLimit.status).toBe(400);
+    expect(createPersona).not.toHaveBeenCalled();
+  });
+
+  it('returns the CSRF error before creating', async () => {
+    (withCsrfProtection as jest.Mock).mockResolvedValue({
+      valid: false,
+      error: new Response(null, { status: 403 }),
+    });
+
+    const response = await POST(
+      buildCreateRequest({ name: 'Pirate', systemPrompt: 'Say arr.' }),
+    );
+    expect(response.status).toBe(403);
+    expect(createPersona).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server';
+import { GET, PUT } from '@/app/api/retention/route';
+import {
+  getSessionTenantId,
+  requireSession,
+} from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import {
+  getEffectiveRetentionPolicy,
+  getUserRetentionPolicy,
+  setUserRetentionPolicy,
+} from '@/lib/redis/retention';
+import { rescheduleUserChats } from '@/lib/redis/chat';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/csrf', () => ({
+  withCsrfProtection: jest.fn(),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/retention', () => ({
+  getEffectiveRetentionPolicy: jest.fn(),
+  getUserRetentionPolicy: jest.fn(),
+  setUserRetentionPolicy: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  rescheduleUserChats: jest.fn(),
+}));
+
+const mockSession = { userId: 'test-user' };
+const tenantPolicy = { mode: 'since_creation', days: 365 };
+
+const buildRequest = (method: string, body?: Record<string, unknown>) =>
+  new NextRequest('http://localhost:3000/api/retention', {
+    method,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe('/api/retention', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue(mockSession);
+    (getSessionTenantId as jest.Mock).mockReturnValue('tenant-1');
+    (withCsrfProtection as jest.Mock).mockResolvedValue({ valid: true });
+    (getUserRetentionPolicy as jest.Mock).mockResolvedValue(null);
+    (getEffectiveRetentionPolicy as jest.Mock).mockResolvedValue(tenantPolicy);
+    (rescheduleUserChats as jest.Mock).mockResolvedValue(3);
+  });
+
+  it('returns the user policy and the one in force', async () => {
+    const response = await GET(buildRequest('GET'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ policy: null, effective: tenantPolicy });
+    expect(getEffectiveRetentionPolicy).toHaveBeenCalledWith(
+      mockSession.userId,
+      'tenant-1',
+    );
+  });
+
+  it('stores the policy and reschedules existing chats', async () => {
+    const policy = { mode: 'since_activity', days: 7 };
+    (getEffectiveRetentionPolicy as jest.Mock).mockResolvedValue(policy);
+
+    const response = await PUT(buildRequest('PUT', { policy }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(setUserRetentionPolicy).toHaveBeenCalledWith(
+      mockSession.userId,
+      policy,
+    );
+    expect(rescheduleUserChats).toHaveBeenCalledWith(
+      'tenant-1',
+      mockSession.userId,
+    );
+    expect(body.data.effective).toEqual(policy);
+  });
+
+  it('rejects policies without a valid day count', async () => {
+    const response = await PUT(
+      buildRequest('PUT', { policy: { mode: 'since_creation', days: 0 } }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(setUserRetentionPolicy).not.toHaveBeenCalled();
+  });
+
+  it('returns CSRF errors before touching the policy', async () => {
+    (withCsrfProtection as jest.Mock).mockResolvedValue({
+      valid: false,
+      error: new Response(null, { status: 403 }),
+    });
+
+    const response = await PUT(buildRequest('PUT', { policy: null }));
+
+    expect(response.status).toBe(403);
+    expect(setUserRetentionPolicy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/retention/sweep/route';
+import { sweepExpiredChats } from '@/lib/redis/retention-sweeper';
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/retention-sweeper', () => ({
+  sweepExpiredChats: jest.fn(),
+}));
+
+const OPERATOR_TOKEN = 'operator-secret';
+
+const buildRequest = (token?: string) =>
+  new NextRequest('http://localhost:3000/api/retention/sweep', {
+    method: 'POST',
+    headers: token ? { authorization: `Bearer ${token}` } : undefined,
+  });
+
+describe('POST /api/retention/sweep', () => {
+  const originalToken = process.env.OPERATOR_API_TOKEN;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.OPERATOR_API_TOKEN = OPERATOR_TOKEN;
+    (sweepExpiredChats as jest.Mock).mockResolvedValue({
+      scanned: 2,
+      purged: 2,
+      rescheduled: 0,
+      failed: 0,
+      hasMore: false,
+    });
+  });
+
+  afterAll(() => {
+    process.env.OPERATOR_API_TOKEN = originalToken;
+  });
+
+  it('runs a sweep for the operator', async () => {
+    const response = await POST(buildRequest(OPERATOR_TOKEN));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.purged).toBe(2);
+  });
+
+  it('rejects requests without the operator token', async () => {
+    const missing = await POST(buildRequest());
+    const wrong = await POST(buildRequest('guess'));
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+    expect(sweepExpiredChats).not.toHaveBeenCalled();
+  });
+
+  it('stays disabled while no operator token is configured', async () => {
+    delete process.env.OPERATOR_API_TOKEN;
+
+    const response = await POST(buildRequest(''));
+
+    expect(response.status).toBe(401);
+    expect(sweepExpiredChats).not.toHaveBeenCalled();
+  });
+});
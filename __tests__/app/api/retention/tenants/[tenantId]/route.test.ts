@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { PUT } from '@/app/api/retention/tenants/[tenantId]/route';
+import {
+  getTenantUserIds,
+  setTenantRetentionPolicy,
+} from '@/lib/redis/retention';
+import { rescheduleUserChats } from '@/lib/redis/chat';
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/retention', () => ({
+  getTenantUserIds: jest.fn(),
+  setTenantRetentionPolicy: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  rescheduleUserChats: jest.fn(),
+}));
+
+const OPERATOR_TOKEN = 'operator-secret';
+
+const buildContext = (tenantId: string) => ({
+  params: Promise.resolve({ tenantId }),
+});
+
+const buildRequest = (body: Record<string, unknown>, token = OPERATOR_TOKEN) =>
+  new NextRequest('http://localhost:3000/api/retention/tenants/tenant-1', {
+    method: 'PUT',
+    headers: { authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+
+describe('PUT /api/retention/tenants/[tenantId]', () => {
+  const originalToken = process.env.OPERATOR_API_TOKEN;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.OPERATOR_API_TOKEN = OPERATOR_TOKEN;
+    (getTenantUserIds as jest.Mock).mockResolvedValue(['user-1', 'user-2']);
+    (rescheduleUserChats as jest.Mock).mockResolvedValue(2);
+  });
+
+  afterAll(() => {
+    process.env.OPERATOR_API_TOKEN = originalToken;
+  });
+
+  it('sets the tenant policy and reschedules its users chats', async () => {
+    const policy = { mode: 'since_creation', days: 180 };
+
+    const response = await PUT(
+      buildRequest({ policy }),
+      buildContext('tenant-1'),
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(setTenantRetentionPolicy).toHaveBeenCalledWith('tenant-1', policy);
+    expect(rescheduleUserChats).toHaveBeenCalledWith('tenant-1', 'user-1');
+    expect(rescheduleUserChats).toHaveBeenCalledWith('tenant-1', 'user-2');
+    expect(body.data.rescheduledChats).toBe(4);
+  });
+
+  it('is limited to operators', async () => {
+    const response = await PUT(
+      buildRequest({ policy: null }, 'not-the-token'),
+      buildContext('tenant-1'),
+    );
+
+    expect(response.status).toBe(401);
+    expect(setTenantRetentionPolicy).not.toHaveBeenCalled();
+  });
+});
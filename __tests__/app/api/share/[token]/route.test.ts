@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/share/[token]/route';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import { getChat, getChatMessages } from '@/lib/redis/chat';
+import { getShareLink } from '@/lib/redis/share';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  getChat: jest.fn(),
+  getChatMessages: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/share', () => ({
+  getShareLink: jest.fn(),
+}));
+
+const buildContext = (token: string) => ({
+  params: Promise.resolve({ token }),
+});
+
+const buildRequest = () =>
+  new NextRequest('http://localhost:3000/api/share/tok');
+
+describe('GET /api/share/[token]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getShareLink as jest.Mock).mockResolvedValue({
+      token: 'tok',
+      chatId: 'chat-1',
+      userId: 'owner',
+      createdAt: new Date(),
+      expiresAt: null,
+    });
+    (getChat as jest.Mock).mockResolvedValue({
+      id: 'chat-1',
+      userId: 'owner',
+      title: 'Shared chat',
+      archived: false,
+      settings: { systemPrompt: 'Secret prompt' },
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+    });
+    (getChatMessages as jest.Mock).mockResolvedValue([
+      {
+        id: 'msg-1',
+        chatId: 'chat-1',
+        role: 'assistant',
+        content: 'Hello',
+        status: 'sent',
+        parentMessageId: null,
+        metadata: { model: 'gemini-2.0-flash', tokensUsed: 12 },
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        updatedAt: new Date('2024-01-01T00:00:00Z'),
+      },
+    ]);
+  });
+
+  it('applies the public share rate limit', async () => {
+    await GET(buildRequest(), buildContext('tok'));
+
+    expect(requireRateLimit).toHaveBeenCalledWith(
+      RATE_LIMITS.SHARE_PUBLIC,
+      expect.any(Function),
+    );
+  });
+
+  it('returns the chat without metadata, owner or settings', async () => {
+    const response = await GET(buildRequest(), buildContext('tok'));
+
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.data.title).toBe('Shared chat');
+    expect(payload.data.messages[0].metadata).toBeNull();
+    expect(JSON.stringify(payload.data)).not.toMatch(/owner|Secret prompt/);
+  });
+
+  it('returns 404 for unknown, revoked or expired tokens', async () => {
+    (getShareLink as jest.Mock).mockResolvedValue(null);
+
+    const response = await GET(buildRequest(), buildContext('tok'));
+
+    expect(response.status).toBe(404);
+    expect(getChat).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the chat is gone', async () => {
+    (getChat as jest.Mock).mockResolvedValue(null);
+
+    const response = await GET(buildRequest(), buildContext('tok'));
+
+    expect(response.status).toBe(404);
+  });
+});
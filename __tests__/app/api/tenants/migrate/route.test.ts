@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/tenants/migrate/route';
+import { migrateKeysToTenants } from '@/lib/redis/tenant-migration';
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/tenant-migration', () => ({
+  migrateKeysToTenants: jest.fn(),
+}));
+
+const OPERATOR_TOKEN = 'operator-secret';
+
+const buildRequest = (body: Record<string, unknown>, token = OPERATOR_TOKEN) =>
+  new NextRequest('http://localhost:3000/api/tenants/migrate', {
+    method: 'POST',
+    headers: { authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+
+describe('POST /api/tenants/migrate', () => {
+  const originalToken = process.env.OPERATOR_API_TOKEN;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.OPERATOR_API_TOKEN = OPERATOR_TOKEN;
+    (migrateKeysToTenants as jest.Mock).mockResolvedValue({
+      cursor: '0',
+      migratedChats: 4,
+      migratedChatLists: 1,
+      migratedUsageKeys: 2,
+      failedKeys: [],
+    });
+  });
+
+  afterAll(() => {
+    process.env.OPERATOR_API_TOKEN = originalToken;
+  });
+
+  it('migrates a batch from the given cursor', async () => {
+    const response = await POST(buildRequest({ cursor: '64', count: 20 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(migrateKeysToTenants).toHaveBeenCalledWith('64', 20);
+    expect(body.data.migratedChats).toBe(4);
+  });
+
+  it('rejects malformed cursors', async () => {
+    const response = await POST(buildRequest({ cursor: '-1' }));
+
+    expect(response.status).toBe(400);
+    expect(migrateKeysToTenants).not.toHaveBeenCalled();
+  });
+
+  it('is limited to operators', async () => {
+    const response = await POST(buildRequest({}, 'not-the-token'));
+
+    expect(response.status).toBe(401);
+    expect(migrateKeysToTenants).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/usage/route';
+import { requireSession } from '@/server/middleware/session';
+import { getChatMessages, getUserChats } from '@/lib/redis/chat';
+
+jest.mock('@/server/middleware/session', () => ({
+  requireSession: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
+}));
+
+jest.mock('@/server/middleware/rate-limit', () => ({
+  requireRateLimit: jest.fn((_config, handler) => handler),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  getUserChats: jest.fn(),
+  getChatMessages: jest.fn(),
+}));
+
+const buildRequest = (query = '') =>
+  new NextRequest(`http://localhost:3000/api/usage${query}`);
+
+describe('GET /api/usage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireSession as jest.Mock).mockResolvedValue({ userId: 'user-1' });
+    (getUserChats as jest.Mock).mockResolvedValue([
+      {
+        id: 'chat-recent',
+        userId: 'user-1',
+        title: 'Recent',
+        updatedAt: new Date(),
+      },
+      {
+        id: 'chat-stale',
+        userId: 'user-1',
+        title: 'Stale',
+        updatedAt: new Date('2020-01-01T00:00:00.000Z'),
+      },
+    ]);
+    (getChatMessages as jest.Mock).mockResolvedValue([
+      {
+        id: 'a1',
+        chatId: 'chat-recent',
+        role: 'assistant',
+        content: 'Answer',
+        status: 'sent',
+        parentMessageId: 'u1',
+        metadata: { model: 'gemini-2.0-flash', tokensUsed: 120 },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    ]);
+  });
+
+  it('returns 401 without a session', async () => {
+    (requireSession as jest.Mock).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(buildRequest());
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects ranges outside 1-90 days', async () => {
+    const response = await GET(buildRequest('?days=365'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("reports the user's usage, reading only chats active in the range", async () => {
+    const response = await GET(buildRequest('?days=7'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('private, no-store');
+    expect(getUserChats).toHaveBeenCalledWith('tenant-1', 'user-1');
+    expect(getChatMessages).toHaveBeenCalledTimes(1);
+    expect(getChatMessages).toHaveBeenCalledWith(
+      'tenant-1',
+      'chat-recent',
+      0,
+      expect.any(Number),
+    );
+
+    const payload = await response.json();
+    expect(payload.data.daily).toHaveLength(7);
+    expect(payload.data.totals).toEqual(
+      expect.objectContaining({ tokens: 120, responses: 1 }),
+    );
+    expect(payload.data.byChat).toEqual([
+      expect.objectContaining({ chatId: 'chat-recent', title: 'Recent' }),
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ChatExportMenu } from '@/app/chat/components/ChatExportMenu';
+import { useExportChat } from '@/app/chat/hooks/useExportChat';
+
+jest.mock('@/app/chat/hooks/useExportChat', () => ({
+  useExportChat: jest.fn(),
+}));
+
+describe('ChatExportMenu', () => {
+  const exportChat = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useExportChat as jest.Mock).mockReturnValue({
+      exportChat,
+      isExporting: false,
+      error: null,
+    });
+  });
+
+  it('downloads the active chat in the chosen format', async () => {
+    const user = userEvent.setup();
+
+    render(<ChatExportMenu chatId="chat-1" />);
+    await user.click(screen.getByRole('button', { name: /download chat/i }));
+    await user.click(screen.getByRole('button', { name: /printable html/i }));
+
+    expect(exportChat).toHaveBeenCalledWith('chat-1', 'html');
+  });
+
+  it('explains that a new chat has nothing to download yet', async () => {
+    const user = userEvent.setup();
+
+    render(<ChatExportMenu chatId={null} />);
+    await user.click(screen.getByRole('button', { name: /download chat/i }));
+
+    expect(screen.getByText(/send a message to start a chat/i)).toBeVisible();
+    expect(
+      screen.queryByRole('button', { name: /markdown/i }),
+    ).not.toBeInTheDocument();
+  });
+});
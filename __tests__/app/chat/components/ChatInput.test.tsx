@@ -0,0 +1,35 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ChatInput } from '@/app/chat/components/ChatInput';
+
+describe('ChatInput', () => {
+  it('swaps the send button for a stop button while streaming', async () => {
+    const onStop = jest.fn();
+    const user = userEvent.setup();
+
+    render(
+      <ChatInput
+        onSendMessage={jest.fn()}
+        isStreaming={true}
+        onStop={onStop}
+      />,
+    );
+
+    expect(
+      screen.queryByRole('button', { name: /send message/i }),
+    ).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /stop generating/i }));
+    expect(onStop).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the disabled send button when stopping is not supported', () => {
+    render(<ChatInput onSendMessage={jest.fn()} isStreaming={true} />);
+
+    expect(
+      screen.getByRole('button', { name: /send message/i }),
+    ).toBeDisabled();
+    expect(
+      screen.queryByRole('button', { name: /stop generating/i }),
+    ).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,69 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ChatSearch } from '@/app/chat/components/ChatSearch';
+import { useMessageSearch } from '@/app/chat/hooks/useMessageSearch';
+
+jest.mock('@/app/chat/hooks/useMessageSearch', () => ({
+  useMessageSearch: jest.fn(),
+}));
+
+const result = {
+  messageId: 'm1',
+  chatId: 'chat-1',
+  chatTitle: 'Trip planning',
+  role: 'assistant' as const,
+  snippet: 'Pack a warm jacket for Oslo',
+  highlights: [[7, 11]] as Array<[number, number]>,
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('ChatSearch', () => {
+  beforeEach(() => {
+    (useMessageSearch as jest.Mock).mockReturnValue({
+      results: [result],
+      isSearching: false,
+      error: null,
+    });
+  });
+
+  it('highlights matched terms and jumps to the selected result', async () => {
+    const onSelectResult = jest.fn();
+    const user = userEvent.setup();
+
+    render(<ChatSearch onSelectResult={onSelectResult} />);
+    const input = screen.getByRole('searchbox', { name: /search messages/i });
+    await user.type(input, 'warm');
+
+    expect(screen.getByText('warm', { selector: 'mark' })).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /trip planning/i }));
+
+    expect(onSelectResult).toHaveBeenCalledWith(result);
+    expect(input).toHaveValue('');
+  });
+
+  it('passes the role filter to the search', async () => {
+    const user = userEvent.setup();
+
+    render(<ChatSearch onSelectResult={jest.fn()} />);
+    await user.selectOptions(
+      screen.getByRole('combobox', { name: /filter by author/i }),
+      'user',
+    );
+
+    expect(useMessageSearch).toHaveBeenLastCalledWith('', 'user');
+  });
+
+  it('shows an empty state when nothing matches', async () => {
+    (useMessageSearch as jest.Mock).mockReturnValue({
+      results: [],
+      isSearching: false,
+      error: null,
+    });
+    const user = userEvent.setup();
+
+    render(<ChatSearch onSelectResult={jest.fn()} />);
+    await user.type(screen.getByRole('searchbox'), 'nothing');
+
+    expect(screen.getByText(/no matching messages/i)).toBeInTheDocument();
+  });
+});
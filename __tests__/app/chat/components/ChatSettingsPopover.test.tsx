@@ -0,0 +1,189 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { legacy_createStore as createStore } from 'redux';
+import { ChatSettingsPopover } from '@/app/chat/components/ChatSettingsPopover';
+import { useManageChat } from '@/app/chat/hooks/useManageChat';
+import { usePersonas } from '@/app/chat/hooks/usePersonas';
+import { useChatModels } from '@/app/chat/hooks/useChatModels';
+import { rootReducer } from '@/lib/redux/rootReducer';
+import { chatActions } from '@/lib/redux/features/chat/actions';
+import { STRINGS } from '@/lib/constants/strings';
+import type { ChatDTO } from '@/types/models';
+
+jest.mock('@/app/chat/hooks/useManageChat', () => ({
+  useManageChat: jest.fn(),
+}));
+
+jest.mock('@/app/chat/hooks/usePersonas', () => ({
+  usePersonas: jest.fn(),
+}));
+
+jest.mock('@/app/chat/hooks/useChatModels', () => ({
+  useChatModels: jest.fn(),
+}));
+
+const mockUseManageChat = useManageChat as jest.MockedFunction<
+  typeof useManageChat
+>;
+const mockUsePersonas = usePersonas as jest.MockedFunction<typeof usePersonas>;
+const mockUseChatModels = useChatModels as jest.MockedFunction<
+  typeof useChatModels
+>;
+
+const chat: ChatDTO = {
+  id: 'chat-1',
+  userId: 'user-1',
+  title: 'Tuned chat',
+  archived: false,
+  settings: { model: 'gemini-1.5-pro', maxTokens: 512 },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+const manageChat = {
+  renameChat: jest.fn(),
+  archiveChat: jest.fn(),
+  updateSettings: jest.fn(),
+  deleteChat: jest.fn(),
+  importChat: jest.fn(),
+  isImporting: false,
+  isPending: false,
+  error: null,
+};
+
+const personas = {
+  personas: [
+    {
+      id: 'persona-1',
+      name: 'Reviewer',
+      systemPrompt: 'You are a strict code reviewer.',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+  isLoading: false,
+  createPersona: jest.fn(),
+  deletePersona: jest.fn(),
+  isPending: false,
+  error: null,
+};
+
+const renderPopover = (chatId: string | null) => {
+  const store = createStore(rootReducer);
+  store.dispatch(chatActions.setChats([chat]));
+
+  render(
+    <Provider store={store}>
+      <ChatSettingsPopover chatId={chatId} />
+    </Provider>,
+  );
+
+  fireEvent.click(
+    screen.getByRole('button', { name: STRINGS.chat.settings.triggerLabel }),
+  );
+};
+
+describe('ChatSettingsPopover', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUseManageChat.mockReturnValue(manageChat);
+    mockUsePersonas.mockReturnValue(personas);
+    mockUseChatModels.mockReturnValue({
+      models: [
+        { id: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash' },
+        { id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro', premium: true },
+      ],
+      isLoading: false,
+      error: null,
+    });
+  });
+
+  it('explains that settings need an existing chat', () => {
+    renderPopover(null);
+
+    expect(
+      screen.getByText(STRINGS.chat.settings.unavailable),
+    ).toBeInTheDocument();
+  });
+
+  it('loads the stored settings and saves edits', () => {
+    renderPopover('chat-1');
+
+    const modelSelect = screen.getByLabelText(STRINGS.chat.settings.model);
+    const maxTokensInput = screen.getByLabelText(
+      STRINGS.chat.settings.maxTokens,
+    );
+    expect(modelSelect).toHaveValue('gemini-1.5-pro');
+    expect(
+      screen.getByRole('option', { name: 'Gemini 1.5 Flash' }),
+    ).toBeInTheDocument();
+    expect(maxTokensInput).toHaveValue(512);
+
+    fireEvent.change(screen.getByRole('slider'), { target: { value: '0.3' } });
+    fireEvent.change(maxTokensInput, { target: { value: '' } });
+    fireEvent.click(
+      screen.getByRole('button', { name: STRINGS.chat.settings.save }),
+    );
+
+    expect(manageChat.updateSettings).toHaveBeenCalledWith('chat-1', {
+      model: 'gemini-1.5-pro',
+      temperature: 0.3,
+      maxTokens: undefined,
+    });
+  });
+
+  it('resets the chat to default settings', () => {
+    renderPopover('chat-1');
+
+    fireEvent.click(
+      screen.getByRole('button', { name: STRINGS.chat.settings.reset }),
+    );
+
+    expect(manageChat.updateSettings).toHaveBeenCalledWith('chat-1', {});
+  });
+
+  it('applies a persona preset as the system prompt', () => {
+    renderPopover('chat-1');
+
+    fireEvent.change(
+      screen.getByLabelText(STRINGS.chat.settings.choosePersona),
+      { target: { value: 'persona-1' } },
+    );
+    expect(
+      screen.getByLabelText(STRINGS.chat.settings.systemPrompt),
+    ).toHaveValue('You are a strict code reviewer.');
+
+    fireEvent.click(
+      screen.getByRole('button', { name: STRINGS.chat.settings.save }),
+    );
+
+    expect(manageChat.updateSettings).toHaveBeenCalledWith(
+      'chat-1',
+      expect.objectContaining({
+        systemPrompt: 'You are a strict code reviewer.',
+      }),
+    );
+  });
+
+  it('saves the current system prompt as a new persona', () => {
+    renderPopover('chat-1');
+
+    fireEvent.change(
+      screen.getByLabelText(STRINGS.chat.settings.systemPrompt),
+      {
+        target: { value: 'Answer like a pirate.' },
+      },
+    );
+    fireEvent.change(screen.getByLabelText(STRINGS.chat.settings.personaName), {
+      target: { value: 'Pirate' },
+    });
+    fireEvent.click(
+      screen.getByRole('button', { name: STRINGS.chat.settings.saveAsPersona }),
+    );
+
+    expect(personas.createPersona).toHaveBeenCalledWith({
+      name: 'Pirate',
+      systemPrompt: 'Answer like a pirate.',
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ChatShareMenu } from '@/app/chat/components/ChatShareMenu';
+import { useShareLinks } from '@/app/chat/hooks/useShareLinks';
+
+jest.mock('@/app/chat/hooks/useShareLinks', () => ({
+  useShareLinks: jest.fn(),
+  buildShareUrl: (token: string) => `http://localhost/share/${token}`,
+}));
+
+describe('ChatShareMenu', () => {
+  const createLink = jest.fn();
+  const revokeLink = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useShareLinks as jest.Mock).mockReturnValue({
+      links: [
+        {
+          token: 'tok-1',
+          chatId: 'chat-1',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          expiresAt: null,
+        },
+      ],
+      redactionPreview: {
+        messageCount: 4,
+        redactedFields: ['model', 'tokensUsed'],
+      },
+      isLoading: false,
+      createLink,
+      revokeLink,
+      isPending: false,
+      error: null,
+    });
+  });
+
+  it('previews the redaction and mints an expiring link', async () => {
+    const user = userEvent.setup();
+
+    render(<ChatShareMenu chatId="chat-1" />);
+    await user.click(screen.getByRole('button', { name: /share chat/i }));
+
+    expect(
+      screen.getByText(/anyone with the link can read 4 messages/i),
+    ).toBeInTheDocument();
+    expect(screen.getByText('tokensUsed')).toBeInTheDocument();
+
+    await user.selectOptions(
+      screen.getByRole('combobox', { name: /link expires/i }),
+      '7',
+    );
+    await user.click(screen.getByRole('button', { name: /create link/i }));
+
+    expect(createLink).toHaveBeenCalledWith(7);
+  });
+
+  it('revokes an active link', async () => {
+    const user = userEvent.setup();
+
+    render(<ChatShareMenu chatId="chat-1" />);
+    await user.click(screen.getByRole('button', { name: /share chat/i }));
+    await user.click(
+      screen.getByRole('button', { name: /revoke share link/i }),
+    );
+
+    expect(revokeLink).toHaveBeenCalledWith('tok-1');
+  });
+});
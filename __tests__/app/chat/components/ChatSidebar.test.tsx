@@ -0,0 +1,192 @@
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { legacy_createStore as createStore } from 'redux';
+import { ChatSidebar } from '@/app/chat/components/ChatSidebar';
+import { useChatList } from '@/app/chat/hooks/useChatList';
+import { useManageChat } from '@/app/chat/hooks/useManageChat';
+import { rootReducer } from '@/lib/redux/rootReducer';
+import { chatActions } from '@/lib/redux/features/chat/actions';
+import type { ChatDTO } from '@/types/models';
+
+jest.mock('@/app/chat/hooks/useChatList', () => ({
+  useChatList: jest.fn(),
+}));
+
+jest.mock('@/app/chat/hooks/useManageChat', () => ({
+  useManageChat: jest.fn(),
+}));
+
+const mockUseChatList = useChatList as jest.MockedFunction<typeof useChatList>;
+const mockUseManageChat = useManageChat as jest.MockedFunction<
+  typeof useManageChat
+>;
+
+const buildChat = (overrides: Partial<ChatDTO>): ChatDTO => ({
+  id: 'chat-1',
+  userId: 'user-1',
+  title: 'First chat',
+  archived: false,
+  settings: {},
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const manageChat = {
+  renameChat: jest.fn(),
+  archiveChat: jest.fn(),
+  updateSettings: jest.fn(),
+  deleteChat: jest.fn(),
+  importChat: jest.fn(),
+  isImporting: false,
+  isPending: false,
+  error: null,
+};
+
+const renderSidebar = (
+  chats: ChatDTO[],
+  activeChatId: string | null = null,
+) => {
+  const store = createStore(rootReducer);
+  store.dispatch(chatActions.setChats(chats));
+  const onSelectChat = jest.fn();
+
+  render(
+    <Provider store={store}>
+      <ChatSidebar activeChatId={activeChatId} onSelectChat={onSelectChat} />
+    </Provider>,
+  );
+
+  return { onSelectChat };
+};
+
+describe('ChatSidebar', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUseChatList.mockReturnValue({
+      isLoading: false,
+      error: null,
+      hasMoreChats: false,
+      isFetchingMoreChats: false,
+      fetchMoreChats: jest.fn(),
+      refetch: jest.fn(),
+    } as unknown as ReturnType<typeof useChatList>);
+    mockUseManageChat.mockReturnValue(manageChat);
+  });
+
+  it('lists chats most recently updated first and selects on click', () => {
+    const { onSelectChat } = renderSidebar([
+      buildChat({ id: 'chat-1', title: 'Older chat' }),
+      buildChat({
+        id: 'chat-2',
+        title: 'Newer chat',
+        updatedAt: '2024-02-01T00:00:00.000Z',
+      }),
+    ]);
+
+    const titles = screen
+      .getAllByRole('button', { name: /chat updated/i })
+      .map((button) => button.textContent);
+    expect(titles[0]).toContain('Newer chat');
+    expect(titles[1]).toContain('Older chat');
+
+    fireEvent.click(screen.getByRole('button', { name: /older chat/i }));
+    expect(onSelectChat).toHaveBeenCalledWith('chat-1');
+  });
+
+  it('loads more chats when the list has further pages', () => {
+    const fetchMoreChats = jest.fn();
+    mockUseChatList.mockReturnValue({
+      isLoading: false,
+      error: null,
+      hasMoreChats: true,
+      isFetchingMoreChats: false,
+      fetchMoreChats,
+      refetch: jest.fn(),
+    } as unknown as ReturnType<typeof useChatList>);
+    renderSidebar([buildChat({ id: 'chat-1' })]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Load more' }));
+
+    expect(fetchMoreChats).toHaveBeenCalled();
+  });
+
+  it('marks the active chat', () => {
+    renderSidebar(
+      [buildChat({ id: 'chat-1', title: 'Active chat' })],
+      'chat-1',
+    );
+
+    expect(
+      screen.getByRole('button', { name: /active chat/i }),
+    ).toHaveAttribute('aria-current', 'page');
+  });
+
+  it('toggles between active and archived chats', () => {
+    renderSidebar([
+      buildChat({ id: 'chat-1', title: 'Visible chat' }),
+      buildChat({ id: 'chat-2', title: 'Old archived chat', archived: true }),
+    ]);
+
+    expect(screen.getByText('Visible chat')).toBeInTheDocument();
+    expect(screen.queryByText('Old archived chat')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Archived' }));
+
+    expect(mockUseChatList).toHaveBeenLastCalledWith({ archived: true });
+    expect(screen.getByText('Old archived chat')).toBeInTheDocument();
+    expect(screen.queryByText('Visible chat')).not.toBeInTheDocument();
+  });
+
+  it('renames a chat inline', () => {
+    renderSidebar([buildChat({ id: 'chat-1', title: 'Draft title' })]);
+
+    const actions = screen.getByRole('group', {
+      name: /actions for draft title/i,
+    });
+    fireEvent.click(within(actions).getByRole('button', { name: 'Rename' }));
+
+    const input = screen.getByRole('textbox', { name: /chat title/i });
+    fireEvent.change(input, { target: { value: 'Final title' } });
+    fireEvent.submit(input.closest('form') as HTMLFormElement);
+
+    expect(manageChat.renameChat).toHaveBeenCalledWith('chat-1', 'Final title');
+  });
+
+  it('archives and deletes after confirmation', () => {
+    renderSidebar([buildChat({ id: 'chat-1', title: 'Disposable' })]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Archive' }));
+    expect(manageChat.archiveChat).toHaveBeenCalledWith('chat-1', true);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    expect(manageChat.deleteChat).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm' }));
+    expect(manageChat.deleteChat).toHaveBeenCalledWith('chat-1');
+  });
+
+  it('imports a JSON export and opens the new chat', () => {
+    const { onSelectChat } = renderSidebar([]);
+    const file = new File(['{}'], 'chat.json', { type: 'application/json' });
+
+    fireEvent.change(
+      screen.getByLabelText(/import a conversation from a json export/i),
+      { target: { files: [file] } },
+    );
+
+    expect(manageChat.importChat).toHaveBeenCalledWith(
+      file,
+      expect.any(Function),
+    );
+    const onImported = manageChat.importChat.mock.calls[0][1];
+    act(() => onImported(buildChat({ id: 'chat-imported' })));
+    expect(onSelectChat).toHaveBeenCalledWith('chat-imported');
+  });
+
+  it('shows an empty state', () => {
+    renderSidebar([]);
+
+    expect(screen.getByText(/no conversations yet/i)).toBeInTheDocument();
+  });
+});
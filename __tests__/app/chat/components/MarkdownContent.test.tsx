@@ -0,0 +1,44 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { MarkdownContent } from '@/app/chat/components/MarkdownContent';
+import { STRINGS } from '@/lib/constants/strings';
+
+describe('MarkdownContent', () => {
+  it('renders markdown formatting instead of literal characters', () => {
+    render(<MarkdownContent content={'**Bold** and `code`\n\n1. First'} />);
+
+    expect(screen.getByText('Bold').tagName).toBe('STRONG');
+    expect(screen.getByText('code').tagName).toBe('CODE');
+    expect(screen.getByRole('listitem')).toHaveTextContent('First');
+  });
+
+  it('copies fenced code to the clipboard', async () => {
+    const writeText = jest.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+
+    render(<MarkdownContent content={'```bash\nnpm test\n```'} />);
+
+    expect(screen.getByText('bash')).toBeInTheDocument();
+    await act(async () => {
+      fireEvent.click(
+        screen.getByRole('button', { name: STRINGS.chat.markdown.copyCode }),
+      );
+    });
+
+    expect(writeText).toHaveBeenCalledWith('npm test');
+    expect(screen.getByText(STRINGS.chat.markdown.copied)).toBeInTheDocument();
+  });
+
+  it('keeps completed blocks mounted while the tail streams in', () => {
+    const { rerender } = render(
+      <MarkdownContent content={'First paragraph\n```js\nconst a'} />,
+    );
+    const firstParagraph = screen.getByText('First paragraph');
+
+    rerender(
+      <MarkdownContent content={'First paragraph\n```js\nconst a = 1;\n```'} />,
+    );
+
+    expect(screen.getByText('First paragraph')).toBe(firstParagraph);
+  });
+});
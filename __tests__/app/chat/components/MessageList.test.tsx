@@ -1,6 +1,10 @@
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import '@testing-library/jest-dom';
+import type { ReactElement } from 'react';
+import { Provider } from 'react-redux';
+import { legacy_createStore as createStore } from 'redux';
 import { MessageList } from '@/app/chat/components/MessageList';
+import { rootReducer } from '@/lib/redux/rootReducer';
 import { STRINGS } from '@/lib/constants/strings';
 import type { MessageDTO } from '@/types/models';
 import { useFetchChatHistory } from '@/app/chat/hooks/useFetchChatHistory';
@@ -28,14 +32,17 @@ jest.mock('@tanstack/react-virtual', () => {
   };
 });
 
-const mockUseFetchChatHistory =
-  useFetchChatHistory as jest.MockedFunction<typeof useFetchChatHistory>;
+const mockUseFetchChatHistory = useFetchChatHistory as jest.MockedFunction<
+  typeof useFetchChatHistory
+>;
 
 const createHookResult = (
   overrides: Partial<ReturnType<typeof useFetchChatHistory>> = {},
 ) => ({
   chat: undefined,
-  pagination: undefined,
+  hasOlderMessages: false,
+  isFetchingOlderMessages: false,
+  fetchOlderMessages: jest.fn(),
   messages: [] as MessageDTO[],
   isLoading: false,
   error: null,
@@ -58,6 +65,9 @@ const buildMessage = (overrides: Partial<MessageDTO> = {}): MessageDTO => {
   };
 };
 
+const renderWithStore = (ui: ReactElement) =>
+  render(<Provider store={createStore(rootReducer)}>{ui}</Provider>);
+
 describe('MessageList', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -65,7 +75,7 @@ describe('MessageList', () => {
   });
 
   it('renders onboarding state when no chat is selected', () => {
-    render(<MessageList />);
+    renderWithStore(<MessageList />);
 
     expect(
       screen.getByRole('heading', { name: STRINGS.chat.emptyState.title }),
@@ -77,7 +87,7 @@ describe('MessageList', () => {
       createHookResult({ isLoading: true }),
     );
 
-    render(<MessageList chatId="chat-123" />);
+    renderWithStore(<MessageList chatId="chat-123" />);
 
     expect(
       screen.getAllByRole('status', { name: /loading message/i }).length,
@@ -88,7 +98,7 @@ describe('MessageList', () => {
     const error = new Error('Unable to load');
     mockUseFetchChatHistory.mockReturnValue(createHookResult({ error }));
 
-    render(<MessageList chatId="chat-123" />);
+    renderWithStore(<MessageList chatId="chat-123" />);
 
     expect(screen.getByRole('alert')).toBeInTheDocument();
     expect(screen.getByText(error.message)).toBeInTheDocument();
@@ -104,7 +114,7 @@ describe('MessageList', () => {
       }),
     );
 
-    render(<MessageList chatId="chat-123" />);
+    renderWithStore(<MessageList chatId="chat-123" />);
 
     expect(screen.getByText('Hello')).toBeInTheDocument();
     expect(screen.getByText('Hi there!')).toBeInTheDocument();
@@ -113,7 +123,7 @@ describe('MessageList', () => {
   it('appends live messages when provided', () => {
     mockUseFetchChatHistory.mockReturnValue(createHookResult());
 
-    render(
+    renderWithStore(
       <MessageList
         chatId="chat-123"
         liveMessages={[
@@ -129,4 +139,276 @@ describe('MessageList', () => {
 
     expect(screen.getByText('Typing...')).toBeInTheDocument();
   });
+
+  it('shows the latest branch and switches between edited versions', () => {
+    const at = (minute: number) =>
+      new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString();
+    mockUseFetchChatHistory.mockReturnValue(
+      createHookResult({
+        messages: [
+          buildMessage({ id: 'u1', content: 'Original', createdAt: at(1) }),
+          buildMessage({
+            id: 'a1',
+            role: 'assistant',
+            content: 'First answer',
+            parentMessageId: 'u1',
+            createdAt: at(2),
+          }),
+          buildMessage({
+            id: 'u1b',
+            content: 'Edited',
+            metadata: { editedFromMessageId: 'u1' },
+            createdAt: at(3),
+          }),
+          buildMessage({
+            id: 'a1b',
+            role: 'assistant',
+            content: 'Second answer',
+            parentMessageId: 'u1b',
+            createdAt: at(4),
+          }),
+        ],
+      }),
+    );
+
+    renderWithStore(<MessageList chatId="chat-123" />);
+
+    expect(screen.getByText('Edited')).toBeInTheDocument();
+    expect(screen.getByText('Second answer')).toBeInTheDocument();
+    expect(screen.queryByText('First answer')).not.toBeInTheDocument();
+    expect(screen.getByText(/2 of 2/)).toBeInTheDocument();
+
+    fireEvent.click(
+      screen.getByRole('button', { name: STRINGS.chat.branches.previous }),
+    );
+
+    expect(screen.getByText('Original')).toBeInTheDocument();
+    expect(screen.getByText('First answer')).toBeInTheDocument();
+    expect(screen.queryByText('Second answer')).not.toBeInTheDocument();
+    expect(screen.getByText(/1 of 2/)).toBeInTheDocument();
+  });
+
+  it('submits an edited user message', () => {
+    const onEditMessage = jest.fn();
+    mockUseFetchChatHistory.mockReturnValue(
+      createHookResult({
+        messages: [buildMessage({ id: 'u1', content: 'Helo' })],
+      }),
+    );
+
+    renderWithStore(
+      <MessageList chatId="chat-123" onEditMessage={onEditMessage} />,
+    );
+
+    fireEvent.click(
+      screen.getByRole('button', { name: STRINGS.chat.branches.editLabel }),
+    );
+    fireEvent.change(
+      screen.getByRole('textbox', { name: STRINGS.chat.branches.editLabel }),
+      { target: { value: 'Hello' } },
+    );
+    fireEvent.click(
+      screen.getByRole('button', { name: STRINGS.chat.branches.resubmit }),
+    );
+
+    expect(onEditMessage).toHaveBeenCalledWith('u1', 'Hello');
+  });
+
+  it('requests an alternate answer for assistant messages', () => {
+    const onRegenerateMessage = jest.fn();
+    mockUseFetchChatHistory.mockReturnValue(
+      createHookResult({
+        messages: [
+          buildMessage({ id: 'u1', content: 'Hi' }),
+          buildMessage({
+            id: 'a1',
+            role: 'assistant',
+            content: 'Hello!',
+            parentMessageId: 'u1',
+          }),
+        ],
+      }),
+    );
+
+    renderWithStore(
+      <MessageList
+        chatId="chat-123"
+        onRegenerateMessage={onRegenerateMessage}
+      />,
+    );
+
+    fireEvent.click(
+      screen.getByRole('button', {
+        name: STRINGS.chat.branches.regenerateLabel,
+      }),
+    );
+
+    expect(onRegenerateMessage).toHaveBeenCalledWith('a1');
+  });
+
+  describe('scrolling back through history', () => {
+    const olderMessage = buildMessage({ id: 'older', content: 'Earlier' });
+    const shownMessages = [
+      buildMessage({ id: 'u1', content: 'Hi' }),
+      buildMessage({ id: 'a1', role: 'assistant', content: 'Hello!' }),
+    ];
+    let scrollHeight = 1000;
+    let scrollTop = 600;
+
+    beforeEach(() => {
+      scrollHeight = 1000;
+      scrollTop = 600;
+      jest
+        .spyOn(HTMLElement.prototype, 'scrollHeight', 'get')
+        .mockImplementation(() => scrollHeight);
+      jest
+        .spyOn(HTMLElement.prototype, 'clientHeight', 'get')
+        .mockImplementation(() => 400);
+      jest
+        .spyOn(Element.prototype, 'scrollTop', 'get')
+        .mockImplementation(() => scrollTop);
+      jest
+        .spyOn(Element.prototype, 'scrollTop', 'set')
+        .mockImplementation((value: number) => {
+          scrollTop = value;
+        });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('loads older messages near the top and keeps the view in place', () => {
+      const fetchOlderMessages = jest.fn();
+      mockUseFetchChatHistory.mockReturnValue(
+        createHookResult({
+          messages: shownMessages,
+          hasOlderMessages: true,
+          fetchOlderMessages,
+        }),
+      );
+
+      const { rerender } = renderWithStore(<MessageList chatId="chat-123" />);
+      const log = screen.getByRole('log');
+
+      fireEvent.scroll(log);
+      expect(fetchOlderMessages).not.toHaveBeenCalled();
+
+      scrollTop = 100;
+      fireEvent.scroll(log);
+      expect(fetchOlderMessages).toHaveBeenCalledTimes(1);
+
+      // The older page adds 500px above what was on screen
+      scrollHeight = 1500;
+      mockUseFetchChatHistory.mockReturnValue(
+        createHookResult({
+          messages: [olderMessage, ...shownMessages],
+          hasOlderMessages: false,
+          fetchOlderMessages,
+        }),
+      );
+      rerender(
+        <Provider store={createStore(rootReducer)}>
+          <MessageList chatId="chat-123" />
+        </Provider>,
+      );
+
+      expect(scrollTop).toBe(600);
+      expect(screen.getByText('Earlier')).toBeInTheDocument();
+    });
+
+    it('shows progress and waits while an older page is loading', () => {
+      const fetchOlderMessages = jest.fn();
+      scrollTop = 0;
+      mockUseFetchChatHistory.mockReturnValue(
+        createHookResult({
+          messages: shownMessages,
+          hasOlderMessages: true,
+          isFetchingOlderMessages: true,
+          fetchOlderMessages,
+        }),
+      );
+
+      renderWithStore(<MessageList chatId="chat-123" />);
+      fireEvent.scroll(screen.getByRole('log'));
+
+      expect(
+        screen.getByText(STRINGS.chat.loadingOlderMessages),
+      ).toBeInTheDocument();
+      expect(fetchOlderMessages).not.toHaveBeenCalled();
+    });
+
+    it('fills a view the first page is too short for', () => {
+      const fetchOlderMessages = jest.fn();
+      scrollHeight = 300;
+      mockUseFetchChatHistory.mockReturnValue(
+        createHookResult({
+          messages: shownMessages,
+          hasOlderMessages: true,
+          fetchOlderMessages,
+        }),
+      );
+
+      renderWithStore(<MessageList chatId="chat-123" />);
+
+      expect(fetchOlderMessages).toHaveBeenCalledTimes(1);
+    });
+
+    it('loads older pages until a search result outside the first page is shown', () => {
+      const fetchOlderMessages = jest.fn();
+      const firstPage = [
+        buildMessage({ id: 'u2', content: 'Latest question' }),
+        buildMessage({
+          id: 'a2',
+          role: 'assistant',
+          content: 'Latest answer',
+          parentMessageId: 'u2',
+        }),
+      ];
+      const olderPage = [
+        buildMessage({
+          id: 'u1',
+          content: 'Question from last month',
+          createdAt: '2024-01-01T00:00:00.000Z',
+        }),
+      ];
+      const store = createStore(rootReducer);
+      const renderList = () => (
+        <Provider store={store}>
+          <MessageList chatId="chat-123" focusedMessageId="u1" />
+        </Provider>
+      );
+
+      mockUseFetchChatHistory.mockReturnValue(
+        createHookResult({
+          messages: firstPage,
+          hasOlderMessages: true,
+          fetchOlderMessages,
+        }),
+      );
+      const { rerender } = render(renderList());
+
+      expect(fetchOlderMessages).toHaveBeenCalledTimes(1);
+
+      mockUseFetchChatHistory.mockReturnValue(
+        createHookResult({
+          messages: [
+            ...olderPage,
+            { ...firstPage[0], parentMessageId: 'u1' },
+            firstPage[1],
+          ],
+          hasOlderMessages: true,
+          fetchOlderMessages,
+        }),
+      );
+      rerender(renderList());
+
+      expect(fetchOlderMessages).toHaveBeenCalledTimes(1);
+      expect(
+        screen
+          .getByText('Question from last month')
+          .closest('[role="article"]'),
+      ).toHaveClass('ring-yellow-400');
+    });
+  });
 });
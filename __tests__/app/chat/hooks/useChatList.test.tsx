@@ -0,0 +1,122 @@
+import React from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useChatList } from '@/app/chat/hooks/useChatList';
+import { useAuth } from '@/lib/auth/useAuth';
+import { useAppDispatch } from '@/lib/redux/hooks';
+import { chatActions } from '@/lib/redux/features/chat/actions';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+
+jest.mock('@/lib/auth/useAuth', () => ({
+  useAuth: jest.fn(),
+}));
+
+jest.mock('@/lib/redux/hooks', () => ({
+  useAppDispatch: jest.fn(),
+}));
+
+const originalFetch = global.fetch;
+const fetchMock = jest.fn() as jest.MockedFunction<typeof fetch>;
+
+beforeAll(() => {
+  global.fetch = fetchMock;
+});
+
+afterAll(() => {
+  global.fetch = originalFetch;
+});
+
+const dispatch = jest.fn();
+
+const buildChat = (id: string) => ({
+  id,
+  userId: 'user-1',
+  title: `Chat ${id}`,
+  archived: false,
+  settings: {},
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const chatPage = (ids: string[], hasMore: boolean) =>
+  ({
+    ok: true,
+    json: async () => ({
+      data: ids.map(buildChat),
+      meta: { pagination: { hasMore } },
+    }),
+  }) as Response;
+
+const createWrapper = (queryClient: QueryClient) => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  return wrapper;
+};
+
+describe('useChatList', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fetchMock.mockReset();
+    (useAuth as jest.Mock).mockReturnValue({ accessToken: 'test-token' });
+    (useAppDispatch as jest.Mock).mockReturnValue(dispatch);
+    queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false } },
+    });
+  });
+
+  it('loads further pages on demand and stores every loaded chat', async () => {
+    fetchMock
+      .mockResolvedValueOnce(chatPage(['chat-1', 'chat-2'], true))
+      .mockResolvedValueOnce(chatPage(['chat-3'], false));
+
+    const { result } = renderHook(() => useChatList({ archived: false }), {
+      wrapper: createWrapper(queryClient),
+    });
+
+    await waitFor(() => {
+      expect(result.current.hasMoreChats).toBe(true);
+    });
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      '/api/chat?archived=false&offset=0&limit=100',
+      expect.any(Object),
+    );
+
+    await act(async () => {
+      await result.current.fetchMoreChats();
+    });
+
+    await waitFor(() => {
+      expect(result.current.hasMoreChats).toBe(false);
+    });
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      '/api/chat?archived=false&offset=2&limit=100',
+      expect.any(Object),
+    );
+    await waitFor(() => {
+      expect(dispatch).toHaveBeenLastCalledWith(
+        chatActions.setChats(['chat-1', 'chat-2', 'chat-3'].map(buildChat)),
+      );
+    });
+  });
+
+  it('keeps its pages apart from the chat history query', async () => {
+    fetchMock.mockResolvedValueOnce(chatPage(['chat-1'], false));
+
+    const { result } = renderHook(() => useChatList({ archived: false }), {
+      wrapper: createWrapper(queryClient),
+    });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(queryClient.getQueryData(queryKeys.chatList(false))).toBeDefined();
+    expect(
+      queryClient.getQueryData([...queryKeys.chats, { archived: false }]),
+    ).toBeUndefined();
+  });
+});
@@ -1,6 +1,6 @@
 import React from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { renderHook, waitFor } from '@testing-library/react';
+import { act, renderHook, waitFor } from '@testing-library/react';
 import { useFetchChatHistory } from '@/app/chat/hooks/useFetchChatHistory';
 import { useAuth } from '@/lib/auth/useAuth';
 
@@ -69,7 +69,7 @@ describe('useFetchChatHistory', () => {
         data: {
           chat: { id: 'chat-123', title: 'Test Chat' },
           messages: mockMessages,
-          pagination: { offset: 0, limit: 50, total: 2, hasMore: false },
+          pagination: { limit: 50, nextCursor: null, hasMore: false },
         },
       }),
     } as Response);
@@ -102,7 +102,7 @@ describe('useFetchChatHistory', () => {
         data: {
           chat: { id: 'chat-1', title: 'Dupes' },
           messages: duplicatedMessages,
-          pagination: { offset: 0, limit: 50, total: 2, hasMore: false },
+          pagination: { limit: 50, nextCursor: null, hasMore: false },
         },
       }),
     } as Response);
@@ -116,6 +116,69 @@ describe('useFetchChatHistory', () => {
     });
   });
 
+  it('loads older pages with the cursor and merges them', async () => {
+    fetchMock
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          data: {
+            chat: { id: 'chat-1', title: 'Long chat' },
+            messages: [
+              {
+                id: '3',
+                content: 'Third',
+                role: 'user',
+                createdAt: '2024-01-01T00:03:00.000Z',
+                updatedAt: '2024-01-01T00:03:00.000Z',
+              },
+            ],
+            pagination: { limit: 1, nextCursor: '3', hasMore: true },
+          },
+        }),
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          data: {
+            chat: { id: 'chat-1', title: 'Long chat' },
+            messages: [
+              {
+                id: '2',
+                content: 'Second',
+                role: 'assistant',
+                createdAt: '2024-01-01T00:02:00.000Z',
+                updatedAt: '2024-01-01T00:02:00.000Z',
+              },
+            ],
+            pagination: { limit: 1, nextCursor: null, hasMore: false },
+          },
+        }),
+      } as Response);
+
+    const { result } = renderHook(() => useFetchChatHistory('chat-1'), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.hasOlderMessages).toBe(true);
+    });
+
+    await act(async () => {
+      await result.current.fetchOlderMessages();
+    });
+
+    expect(fetchMock).toHaveBeenLastCalledWith('/api/chat/chat-1?before=3', {
+      headers: { Authorization: 'Bearer test-token' },
+    });
+    await waitFor(() => {
+      expect(result.current.messages.map((message) => message.id)).toEqual([
+        '2',
+        '3',
+      ]);
+    });
+    expect(result.current.hasOlderMessages).toBe(false);
+  });
+
   it('exposes errors when the request fails', async () => {
     fetchMock.mockResolvedValueOnce({
       ok: false,
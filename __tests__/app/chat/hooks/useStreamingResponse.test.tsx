@@ -40,6 +40,22 @@ afterEach(() => {
   (global.fetch as jest.Mock).mockReset?.();
 });
 
+const buildStreamResponse = (events: string[]) => {
+  const chunks = [new TextEncoder().encode(events.join(''))];
+  return {
+    status: 200,
+    ok: true,
+    body: {
+      getReader: () => ({
+        read: async () =>
+          chunks.length
+            ? { done: false, value: chunks.shift() }
+            : { done: true, value: undefined },
+      }),
+    },
+  } as unknown as Response;
+};
+
 const createWrapper = () => {
   const queryClient = new QueryClient({
     defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
@@ -163,4 +179,54 @@ describe('useStreamingResponse', () => {
     expect(result.current.error?.name).toBe('RateLimitError');
     expect(result.current.rateLimitSeconds).toBe(5);
   });
+
+  it('resumes a dropped stream from the last event without re-sending', async () => {
+    process.env.NEXT_PUBLIC_TEST_AUTH_MODE = 'false';
+    const fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+    fetchMock
+      .mockResolvedValueOnce(
+        buildStreamResponse([
+          'id: gen_1:1\nevent: message_created\ndata: {"messageId":"u1","chatId":"chat-123","generationId":"gen_1"}\n\n',
+          'id: gen_1:2\nevent: content_delta\ndata: {"messageId":"a1","delta":"Hel","accumulatedContent":"Hel"}\n\n',
+        ]),
+      )
+      .mockResolvedValueOnce(
+        buildStreamResponse([
+          'id: gen_1:3\nevent: message_complete\ndata: {"messageId":"a1","content":"Hello"}\n\n',
+        ]),
+      );
+
+    const { result } = renderHook(
+      () => useStreamingResponse({ chatId: 'chat-123' }),
+      { wrapper: createWrapper() },
+    );
+
+    await act(async () => {
+      await result.current.sendStreamingMessage('Hi');
+    });
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2), {
+      timeout: 3000,
+    });
+    const [, resumeInit] = fetchMock.mock.calls[1];
+    expect(resumeInit?.headers).toMatchObject({ 'Last-Event-ID': 'gen_1:2' });
+    expect(JSON.parse(resumeInit?.body as string)).toEqual({
+      chatId: 'chat-123',
+    });
+
+    await waitFor(() => {
+      expect(result.current.isStreaming).toBe(false);
+      expect(
+        result.current.liveMessages.map((message) => [
+          message.id,
+          message.content,
+          message.status,
+        ]),
+      ).toEqual([
+        ['u1', 'Hi', 'sent'],
+        ['a1', 'Hello', 'sent'],
+      ]);
+    });
+    expect(result.current.error).toBeNull();
+  });
 });
@@ -1,6 +1,10 @@
 import type { ReactNode } from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { Provider } from 'react-redux';
+import { legacy_createStore as createStore } from 'redux';
 import ChatPage from '@/app/chat/page';
+import { rootReducer } from '@/lib/redux/rootReducer';
 import { useAuth } from '@/lib/auth/useAuth';
 import { useStreamingResponse } from '@/app/chat/hooks/useStreamingResponse';
 
@@ -17,7 +21,25 @@ jest.mock('@/components/ThemeToggle', () => ({
 }));
 
 jest.mock('@/app/chat/components/MessageList', () => ({
-  MessageList: () => <div data-testid="message-list">messages</div>,
+  MessageList: ({ chatId }: { chatId?: string }) => (
+    <div data-testid="message-list">{chatId ?? 'no-chat'}</div>
+  ),
+}));
+
+jest.mock('@/app/chat/components/ChatSidebar', () => ({
+  ChatSidebar: ({
+    activeChatId,
+    onSelectChat,
+  }: {
+    activeChatId: string | null;
+    onSelectChat: (chatId: string) => void;
+  }) => (
+    <div data-testid="chat-sidebar" data-active={activeChatId ?? ''}>
+      <button type="button" onClick={() => onSelectChat('chat-42')}>
+        Open chat 42
+      </button>
+    </div>
+  ),
 }));
 
 jest.mock('@/app/chat/components/ChatInput', () => ({
@@ -67,6 +89,8 @@ const baseAuthState = {
 
 const baseStreamingState = {
   sendStreamingMessage: jest.fn(),
+  regenerateResponse: jest.fn(),
+  stopGeneration: jest.fn(),
   isStreaming: false,
   error: null,
   closeConnection: jest.fn(),
@@ -77,6 +101,19 @@ const baseStreamingState = {
   streamingMessage: null,
 };
 
+const renderPage = () => {
+  const store = createStore(rootReducer);
+  const queryClient = new QueryClient();
+
+  return render(
+    <Provider store={store}>
+      <QueryClientProvider client={queryClient}>
+        <ChatPage />
+      </QueryClientProvider>
+    </Provider>,
+  );
+};
+
 describe('ChatPage', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -89,7 +126,7 @@ describe('ChatPage', () => {
       isAuthenticated: false,
     });
 
-    render(<ChatPage />);
+    renderPage();
 
     expect(
       screen.getByRole('heading', { name: /sign in to start chatting/i }),
@@ -105,7 +142,7 @@ describe('ChatPage', () => {
       isAuthenticated: true,
     });
 
-    render(<ChatPage />);
+    renderPage();
 
     expect(screen.getByText('Gemini 3')).toBeInTheDocument();
     expect(screen.getByTestId('message-list')).toBeInTheDocument();
@@ -113,4 +150,24 @@ describe('ChatPage', () => {
       screen.getByRole('button', { name: /new chat/i }),
     ).toBeInTheDocument();
   });
+
+  it('switches the active chat from the sidebar', () => {
+    mockUseAuth.mockReturnValue({
+      ...baseAuthState,
+      isAuthenticated: true,
+    });
+
+    renderPage();
+
+    expect(screen.getByTestId('message-list')).toHaveTextContent('no-chat');
+
+    fireEvent.click(screen.getByRole('button', { name: /open chat 42/i }));
+
+    expect(screen.getByTestId('message-list')).toHaveTextContent('chat-42');
+    expect(screen.getByTestId('chat-sidebar')).toHaveAttribute(
+      'data-active',
+      'chat-42',
+    );
+    expect(baseStreamingState.closeConnection).toHaveBeenCalled();
+  });
 });
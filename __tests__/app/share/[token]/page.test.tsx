@@ -0,0 +1,60 @@
+import { render, screen } from '@testing-library/react';
+import SharedChatPage from '@/app/share/[token]/page';
+import { useSharedChat } from '@/app/share/hooks/useSharedChat';
+
+jest.mock('next/navigation', () => ({
+  useParams: () => ({ token: 'tok-1' }),
+}));
+
+jest.mock('@/app/share/hooks/useSharedChat', () => ({
+  useSharedChat: jest.fn(),
+}));
+
+describe('SharedChatPage', () => {
+  it('renders the shared messages read-only', () => {
+    (useSharedChat as jest.Mock).mockReturnValue({
+      chat: {
+        title: 'Onboarding tips',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        messages: [
+          {
+            id: 'msg-1',
+            chatId: 'chat-1',
+            role: 'user',
+            content: 'Where do I start?',
+            status: 'sent',
+            parentMessageId: null,
+            metadata: null,
+            createdAt: '2024-01-01T00:00:00.000Z',
+            updatedAt: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      },
+      isLoading: false,
+      error: null,
+    });
+
+    render(<SharedChatPage />);
+
+    expect(useSharedChat).toHaveBeenCalledWith('tok-1');
+    expect(
+      screen.getByRole('heading', { name: 'Onboarding tips' }),
+    ).toBeInTheDocument();
+    expect(screen.getByText('Where do I start?')).toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: /edit/i }),
+    ).not.toBeInTheDocument();
+  });
+
+  it('explains links that no longer work', () => {
+    (useSharedChat as jest.Mock).mockReturnValue({
+      chat: null,
+      isLoading: false,
+      error: new Error('This link is invalid, expired or has been revoked.'),
+    });
+
+    render(<SharedChatPage />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/revoked/);
+  });
+});
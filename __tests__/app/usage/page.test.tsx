@@ -0,0 +1,138 @@
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import UsagePage from '@/app/usage/page';
+import { useAuth } from '@/lib/auth/useAuth';
+import { useUsageReport } from '@/app/usage/hooks/useUsageReport';
+import type { UsageReportDTO } from '@/types/models';
+
+jest.mock('@/lib/auth/useAuth', () => ({
+  useAuth: jest.fn(),
+}));
+
+jest.mock('@/app/usage/hooks/useUsageReport', () => ({
+  useUsageReport: jest.fn(),
+}));
+
+const report: UsageReportDTO = {
+  from: '2026-10-18T00:00:00.000Z',
+  to: '2026-10-19T15:00:00.000Z',
+  totals: {
+    tokens: 1500,
+    cost: 0.0675,
+    responses: 3,
+    averageProcessingTime: 1250,
+  },
+  daily: [
+    { date: '2026-10-18', tokens: 0, cost: 0, responses: 0 },
+    { date: '2026-10-19', tokens: 1500, cost: 0.0675, responses: 3 },
+  ],
+  byChat: [
+    {
+      chatId: 'chat-1',
+      title: 'Trip planning',
+      tokens: 1200,
+      cost: 0.054,
+      responses: 2,
+    },
+    {
+      chatId: 'chat-2',
+      title: 'Recipes',
+      tokens: 300,
+      cost: 0.0135,
+      responses: 1,
+    },
+  ],
+  byModel: [
+    { model: 'gemini-2.0-flash', tokens: 1200, cost: 0.054, responses: 2 },
+    { model: null, tokens: 300, cost: 0.0135, responses: 1 },
+  ],
+};
+
+describe('UsagePage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useAuth as jest.Mock).mockReturnValue({
+      isAuthenticated: true,
+      login: jest.fn(),
+      isLoading: false,
+      error: null,
+    });
+    (useUsageReport as jest.Mock).mockReturnValue({
+      report,
+      isLoading: false,
+      error: null,
+    });
+  });
+
+  it('summarises usage and breaks it down by day, model and chat', () => {
+    render(<UsagePage />);
+
+    expect(screen.getByRole('heading', { name: 'Usage' })).toBeInTheDocument();
+    expect(screen.getByText('1,500')).toBeInTheDocument();
+    expect(screen.getByText('$0.0675')).toBeInTheDocument();
+    expect(screen.getByText('1.3 s')).toBeInTheDocument();
+
+    const days = within(screen.getByRole('list', { name: 'Tokens per day' }));
+    expect(days.getAllByRole('listitem')).toHaveLength(2);
+    expect(days.getByLabelText(/1,500 tokens/)).toBeInTheDocument();
+
+    const models = within(screen.getByRole('list', { name: 'By model' }));
+    expect(models.getByText('gemini-2.0-flash')).toBeInTheDocument();
+    expect(models.getByText('Unknown model')).toBeInTheDocument();
+
+    const chats = within(screen.getByRole('list', { name: 'By conversation' }));
+    expect(chats.getByText('Trip planning')).toBeInTheDocument();
+  });
+
+  it('reloads the report for the chosen range', () => {
+    render(<UsagePage />);
+
+    expect(useUsageReport).toHaveBeenLastCalledWith(30);
+
+    fireEvent.click(screen.getByRole('button', { name: '7 days' }));
+
+    expect(useUsageReport).toHaveBeenLastCalledWith(7);
+    expect(screen.getByRole('button', { name: '7 days' })).toHaveAttribute(
+      'aria-pressed',
+      'true',
+    );
+  });
+
+  it('says so when nothing was used', () => {
+    (useUsageReport as jest.Mock).mockReturnValue({
+      report: {
+        ...report,
+        totals: {
+          tokens: 0,
+          cost: 0,
+          responses: 0,
+          averageProcessingTime: null,
+        },
+        byChat: [],
+        byModel: [],
+      },
+      isLoading: false,
+      error: null,
+    });
+
+    render(<UsagePage />);
+
+    expect(
+      screen.getByText('No AI responses in this period.'),
+    ).toBeInTheDocument();
+  });
+
+  it('asks signed-out users to sign in', () => {
+    (useAuth as jest.Mock).mockReturnValue({
+      isAuthenticated: false,
+      login: jest.fn(),
+      isLoading: false,
+      error: null,
+    });
+
+    render(<UsagePage />);
+
+    expect(
+      screen.getByRole('button', { name: 'Sign in with Microsoft' }),
+    ).toBeInTheDocument();
+  });
+});
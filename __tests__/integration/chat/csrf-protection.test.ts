@@ -4,6 +4,7 @@ import { withCsrfProtection, requireCsrfToken } from '@/server/middleware/csrf';
 jest.mock('@/server/middleware/session', () => ({
   getSessionFromRequest: jest.fn(),
   getCsrfTokenFromRequest: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
   requiresCsrfProtection: jest.fn(),
   JWT_FALLBACK_PREFIX: 'jwt-fallback',
 }));
@@ -12,6 +13,10 @@ jest.mock('@/lib/redis/session', () => ({
   validateCsrfToken: jest.fn(),
 }));
 
+jest.mock('@/server/utils/audit', () => ({
+  recordAuditEvent: jest.fn(),
+}));
+
 const sessionModule = jest.requireMock('@/server/middleware/session');
 const redisSession = jest.requireMock('@/lib/redis/session');
 
@@ -0,0 +1,51 @@
+import { auditEventsToCsv, exportAuditEvents } from '@/lib/audit/export';
+import type { AuditEventDTO } from '@/types/models';
+
+const event = (overrides: Partial<AuditEventDTO> = {}): AuditEventDTO => ({
+  id: '1760868000000-0',
+  type: 'auth.bypass_used',
+  occurredAt: '2026-10-19T10:00:00.000Z',
+  actorId: 'bypass-user',
+  tenantId: null,
+  ip: '127.0.0.1',
+  targetId: null,
+  details: { source: 'test-auth', path: '/api/chat' },
+  hash: 'a'.repeat(64),
+  ...overrides,
+});
+
+describe('auditEventsToCsv', () => {
+  it('writes a header and one row per event', () => {
+    const rows = auditEventsToCsv([event()]).split('\r\n');
+
+    expect(rows).toEqual([
+      'id,occurredAt,type,actorId,tenantId,ip,targetId,details,hash',
+      `1760868000000-0,2026-10-19T10:00:00.000Z,auth.bypass_used,bypass-user,,127.0.0.1,,"{""source"":""test-auth"",""path"":""/api/chat""}",${'a'.repeat(64)}`,
+      '',
+    ]);
+  });
+
+  it('neutralizes cells a spreadsheet would run as formulas', () => {
+    const csv = auditEventsToCsv([
+      event({ actorId: '=cmd()', targetId: '@SUM(A1)', ip: '-1+1' }),
+    ]);
+
+    expect(csv).toContain(",'=cmd(),");
+    expect(csv).toContain(",'-1+1,");
+    expect(csv).toContain(",'@SUM(A1),");
+  });
+});
+
+describe('exportAuditEvents', () => {
+  it('names the file after the export date', () => {
+    const exported = exportAuditEvents(
+      [event()],
+      'json',
+      new Date('2026-10-19T12:00:00.000Z'),
+    );
+
+    expect(exported.filename).toBe('audit-2026-10-19.json');
+    expect(exported.contentType).toBe('application/json; charset=utf-8');
+    expect(JSON.parse(exported.body)).toEqual([event()]);
+  });
+});
@@ -0,0 +1,64 @@
+import { hasAppRole, resolveAppRole } from '@/lib/auth/roles';
+
+describe('app roles', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      AZURE_AD_ADMIN_GROUPS: 'admins-group, ops-group',
+      AZURE_AD_POWER_USER_GROUPS: 'power-group',
+    };
+    delete process.env.NEXT_PUBLIC_AZURE_AD_ADMIN_ROLE;
+    delete process.env.NEXT_PUBLIC_AZURE_AD_ADMIN_GROUPS;
+    delete process.env.AZURE_AD_ADMIN_ROLE;
+    delete process.env.AZURE_AD_POWER_USER_ROLE;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('resolveAppRole', () => {
+    it('defaults to user without matching claims', () => {
+      expect(resolveAppRole({})).toBe('user');
+      expect(
+        resolveAppRole({ roles: ['Reader'], groups: ['other-group'] }),
+      ).toBe('user');
+    });
+
+    it('maps app roles', () => {
+      expect(resolveAppRole({ roles: ['PowerUser'] })).toBe('power-user');
+      expect(resolveAppRole({ roles: ['Admin'] })).toBe('admin');
+    });
+
+    it('maps configured groups', () => {
+      expect(resolveAppRole({ groups: ['power-group'] })).toBe('power-user');
+      expect(resolveAppRole({ groups: ['ops-group'] })).toBe('admin');
+    });
+
+    it('picks the highest role granted', () => {
+      expect(
+        resolveAppRole({ roles: ['PowerUser'], groups: ['admins-group'] }),
+      ).toBe('admin');
+    });
+
+    it('uses the configured role names', () => {
+      process.env.NEXT_PUBLIC_AZURE_AD_ADMIN_ROLE = 'Chat.Admin';
+      process.env.AZURE_AD_POWER_USER_ROLE = 'Chat.Power';
+
+      expect(resolveAppRole({ roles: ['Admin'] })).toBe('user');
+      expect(resolveAppRole({ roles: ['Chat.Power'] })).toBe('power-user');
+      expect(resolveAppRole({ roles: ['Chat.Admin'] })).toBe('admin');
+    });
+  });
+
+  describe('hasAppRole', () => {
+    it('lets higher roles through lower requirements', () => {
+      expect(hasAppRole('admin', 'power-user')).toBe(true);
+      expect(hasAppRole('power-user', 'power-user')).toBe(true);
+      expect(hasAppRole('user', 'power-user')).toBe(false);
+      expect(hasAppRole('power-user', 'admin')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { getAllowedTenantIds, isTenantAllowed } from '@/lib/auth/tenants';
+
+const TENANT_A = '11111111-1111-1111-1111-111111111111';
+const TENANT_B = '22222222-2222-2222-2222-222222222222';
+
+describe('tenant allow-list', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.AZURE_AD_ALLOWED_TENANT_IDS;
+    delete process.env.NEXT_PUBLIC_AZURE_AD_TENANT_ID;
+    delete process.env.AZURE_AD_TENANT_ID;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getAllowedTenantIds', () => {
+    it('reads the configured allow-list', () => {
+      process.env.AZURE_AD_ALLOWED_TENANT_IDS = ` ${TENANT_A}, ${TENANT_B.toUpperCase()} ,`;
+
+      expect(getAllowedTenantIds()).toEqual([TENANT_A, TENANT_B]);
+    });
+
+    it('falls back to the single tenant sign-in is configured against', () => {
+      process.env.NEXT_PUBLIC_AZURE_AD_TENANT_ID = TENANT_A;
+
+      expect(getAllowedTenantIds()).toEqual([TENANT_A]);
+    });
+
+    it('allows no tenant for a multi-tenant authority without a list', () => {
+      process.env.NEXT_PUBLIC_AZURE_AD_TENANT_ID = 'organizations';
+
+      expect(getAllowedTenantIds()).toEqual([]);
+    });
+  });
+
+  describe('isTenantAllowed', () => {
+    it('accepts only listed tenants', () => {
+      process.env.AZURE_AD_ALLOWED_TENANT_IDS = TENANT_A;
+
+      expect(isTenantAllowed(TENANT_A.toUpperCase())).toBe(true);
+      expect(isTenantAllowed(TENANT_B)).toBe(false);
+    });
+
+    it('accepts any well-formed tenant with a wildcard', () => {
+      process.env.AZURE_AD_ALLOWED_TENANT_IDS = '*';
+
+      expect(isTenantAllowed(TENANT_B)).toBe(true);
+      expect(isTenantAllowed('../../evil')).toBe(false);
+    });
+
+    it('rejects every tenant when none is allowed', () => {
+      expect(isTenantAllowed(TENANT_A)).toBe(false);
+    });
+  });
+});
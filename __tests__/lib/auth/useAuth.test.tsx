@@ -116,10 +116,25 @@ describe('useAuth', () => {
         id: mockAccount.localAccountId,
         email: mockAccount.username,
         name: mockAccount.name,
+        roles: [],
+        appRole: 'user',
       });
     });
   });
 
+  it('exposes app roles from the ID token', async () => {
+    setMsalContext({
+      accounts: [createMockAccount({ idTokenClaims: { roles: ['Admin'] } })],
+    });
+
+    const { result } = renderHook(() => useAuth());
+
+    await waitFor(() => {
+      expect(result.current.user?.roles).toEqual(['Admin']);
+    });
+    expect(result.current.user?.appRole).toBe('admin');
+  });
+
   it('handles login successfully', async () => {
     const mockAccount = createMockAccount();
     const authResult = createAuthResult(mockAccount, {
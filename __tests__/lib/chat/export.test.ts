@@ -0,0 +1,88 @@
+import {
+  buildExportFilename,
+  serializeChatToHtml,
+  serializeChatToJson,
+  serializeChatToMarkdown,
+} from '@/lib/chat/export';
+import type { ChatWithMessages, MessageDTO } from '@/types/models';
+
+const buildMessage = (
+  id: string,
+  role: MessageDTO['role'],
+  content: string,
+  parentMessageId: string | null,
+  minute: number,
+): MessageDTO => ({
+  id,
+  chatId: 'chat-1',
+  role,
+  content,
+  status: 'sent',
+  parentMessageId,
+  metadata: role === 'assistant' ? { model: 'gemini-2.5-flash' } : null,
+  createdAt: `2024-01-01T00:0${minute}:00.000Z`,
+  updatedAt: `2024-01-01T00:0${minute}:00.000Z`,
+});
+
+// a1 was regenerated as a2, so the latest branch is u1 -> a2
+const chat: ChatWithMessages = {
+  id: 'chat-1',
+  userId: 'user-1',
+  title: 'Deploy <checklist>',
+  archived: false,
+  settings: {},
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:02:00.000Z',
+  messages: [
+    buildMessage('u1', 'user', 'What do I check before deploying?', null, 0),
+    buildMessage('a1', 'assistant', 'First answer', 'u1', 1),
+    buildMessage('a2', 'assistant', 'Run <script>tests</script>', 'u1', 2),
+  ],
+};
+
+describe('chat export', () => {
+  it('writes the latest branch as a Markdown transcript', () => {
+    const markdown = serializeChatToMarkdown(chat);
+
+    expect(markdown).toMatch(/^# Deploy <checklist>\n/);
+    expect(markdown).toContain('## You · Mon, 01 Jan 2024 00:00:00 GMT');
+    expect(markdown).toContain('Run <script>tests</script>');
+    expect(markdown).not.toContain('First answer');
+  });
+
+  it('keeps every branch and metadata in JSON', () => {
+    const exported = JSON.parse(serializeChatToJson(chat));
+
+    expect(exported.version).toBe(1);
+    expect(exported.chat).toEqual(
+      expect.objectContaining({ id: 'chat-1', title: 'Deploy <checklist>' }),
+    );
+    expect(exported.chat.messages).toBeUndefined();
+    expect(exported.messages).toHaveLength(3);
+    expect(exported.messages[1]).toEqual(
+      expect.objectContaining({
+        id: 'a1',
+        parentMessageId: 'u1',
+        metadata: { model: 'gemini-2.5-flash' },
+      }),
+    );
+  });
+
+  it('escapes content in the standalone HTML document', () => {
+    const html = serializeChatToHtml(chat);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Deploy &lt;checklist&gt;</title>');
+    expect(html).toContain('Run &lt;script&gt;tests&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('First answer');
+  });
+
+  it('derives ASCII filenames from the title', () => {
+    expect(buildExportFilename('Deploy <checklist>', 'markdown')).toBe(
+      'deploy-checklist.md',
+    );
+    expect(buildExportFilename('Überblick', 'html')).toBe('uberblick.html');
+    expect(buildExportFilename('日本語', 'json')).toBe('chat.json');
+  });
+});
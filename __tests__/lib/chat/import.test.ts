@@ -0,0 +1,96 @@
+import { buildImportedChat } from '@/lib/chat/import';
+import { importChatSchema } from '@/lib/validation/chat.schema';
+
+const transcript = {
+  version: 1,
+  exportedAt: '2024-02-01T00:00:00.000Z',
+  chat: {
+    id: 'chat-old',
+    userId: 'someone-else',
+    title: 'Incident <b>review</b>',
+    archived: false,
+    settings: { temperature: 0.2 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+  },
+  messages: [
+    {
+      id: 'a1',
+      role: 'assistant',
+      content: 'Start with the <img src=x onerror=alert(1)>timeline',
+      status: 'sent',
+      parentMessageId: 'u1',
+      metadata: { model: 'gemini-2.0-flash', tokensUsed: 12 },
+      createdAt: '2024-01-01T00:01:00.000Z',
+      updatedAt: '2024-01-01T00:01:00.000Z',
+    },
+    {
+      id: 'u1',
+      role: 'user',
+      content: 'Where do we start?',
+      status: 'sending',
+      parentMessageId: null,
+      metadata: null,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+};
+
+describe('chat import', () => {
+  it('validates a JSON export and drops the old ownership fields', () => {
+    const parsed = importChatSchema.parse(transcript);
+
+    expect(parsed.chat).toEqual({
+      title: 'Incident <b>review</b>',
+      archived: false,
+      settings: { temperature: 0.2 },
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    });
+  });
+
+  it('rejects dangling parents and duplicate IDs', () => {
+    const result = importChatSchema.safeParse({
+      ...transcript,
+      messages: [
+        { ...transcript.messages[0], parentMessageId: 'missing' },
+        { ...transcript.messages[1], id: 'a1' },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      'Duplicate message ID',
+      'Parent message is not in the transcript',
+    ]);
+  });
+
+  it('rejects other export versions', () => {
+    expect(
+      importChatSchema.safeParse({ ...transcript, version: 2 }).success,
+    ).toBe(false);
+  });
+
+  it('assigns fresh IDs, keeps the tree and re-sanitizes content', () => {
+    const { chat, messages } = buildImportedChat(
+      'user-1',
+      importChatSchema.parse(transcript),
+    );
+
+    expect(chat.id).toMatch(/^chat_/);
+    expect(chat.userId).toBe('user-1');
+    expect(chat.title).toBe('Incident review');
+
+    const [user, assistant] = messages;
+    expect(user.id).toMatch(/^msg_/);
+    expect(user.id).not.toBe('u1');
+    expect(user.status).toBe('failed');
+    expect(assistant.parentMessageId).toBe(user.id);
+    expect(assistant.chatId).toBe(chat.id);
+    expect(assistant.content).toBe('Start with the timeline');
+    expect(assistant.metadata).toEqual({
+      model: 'gemini-2.0-flash',
+      tokensUsed: 12,
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  buildMessageTree,
+  getActivePath,
+  getBranchInfo,
+  getLatestLeafId,
+  resolveBranchPoint,
+  resolveRegenerationPoint,
+} from '@/lib/chat/message-tree';
+
+interface TestMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  parentMessageId: string | null;
+  metadata: { editedFromMessageId?: string } | null;
+}
+
+const message = (
+  id: string,
+  role: TestMessage['role'],
+  parentMessageId: string | null,
+  editedFromMessageId?: string,
+): TestMessage => ({
+  id,
+  role,
+  parentMessageId,
+  metadata: editedFromMessageId ? { editedFromMessageId } : null,
+});
+
+// u1 -> a1 -> u2 -> a2
+//            \-> u2b -> a2b   (u2b is an edit of u2)
+const branchedHistory = [
+  message('u1', 'user', null),
+  message('a1', 'assistant', 'u1'),
+  message('u2', 'user', 'a1'),
+  message('a2', 'assistant', 'u2'),
+  message('u2b', 'user', 'a1', 'u2'),
+  message('a2b', 'assistant', 'u2b'),
+];
+
+const ids = (messages: TestMessage[]) => messages.map((m) => m.id);
+
+describe('message tree', () => {
+  it('follows the most recent branch by default', () => {
+    const tree = buildMessageTree(branchedHistory);
+
+    expect(ids(getActivePath(tree))).toEqual(['u1', 'a1', 'u2b', 'a2b']);
+  });
+
+  it('returns the path to a selected leaf', () => {
+    const tree = buildMessageTree(branchedHistory);
+
+    expect(ids(getActivePath(tree, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2']);
+    expect(ids(getActivePath(tree, 'unknown'))).toEqual([
+      'u1',
+      'a1',
+      'u2b',
+      'a2b',
+    ]);
+  });
+
+  it('reports sibling positions and the latest leaf under a branch', () => {
+    const tree = buildMessageTree(branchedHistory);
+
+    expect(getBranchInfo(tree, 'u2')).toEqual({
+      index: 0,
+      total: 2,
+      siblingIds: ['u2', 'u2b'],
+    });
+    expect(getBranchInfo(tree, 'a1').total).toBe(1);
+    expect(getLatestLeafId(tree, 'u2')).toBe('a2');
+  });
+
+  it('treats unlinked legacy messages as a linear chain', () => {
+    const tree = buildMessageTree([
+      message('u1', 'user', null),
+      message('a1', 'assistant', null),
+      message('u2', 'user', null),
+    ]);
+
+    expect(ids(getActivePath(tree))).toEqual(['u1', 'a1', 'u2']);
+  });
+
+  it('branches an edit from the original message parent', () => {
+    const tree = buildMessageTree(branchedHistory);
+
+    const point = resolveBranchPoint(tree, { editOfMessageId: 'u2' });
+    expect(point).toEqual({
+      parentId: 'a1',
+      context: [branchedHistory[0], branchedHistory[1]],
+    });
+  });
+
+  it('rejects unknown edit targets and parents', () => {
+    const tree = buildMessageTree(branchedHistory);
+
+    expect(resolveBranchPoint(tree, { editOfMessageId: 'a2' })).toEqual({
+      error: 'Message to edit not found',
+    });
+    expect(resolveBranchPoint(tree, { parentMessageId: 'missing' })).toEqual({
+      error: 'Parent message not found',
+    });
+  });
+
+  it('continues from the latest message when no parent is given', () => {
+    const tree = buildMessageTree(branchedHistory);
+
+    const point = resolveBranchPoint(tree, {});
+    expect('parentId' in point && point.parentId).toBe('a2b');
+  });
+
+  it('regenerates from the user turn behind an assistant message', () => {
+    const tree = buildMessageTree(branchedHistory);
+
+    const point = resolveRegenerationPoint(tree, 'a2');
+    expect('userMessage' in point && point.userMessage.id).toBe('u2');
+    expect('context' in point && ids(point.context)).toEqual([
+      'u1',
+      'a1',
+      'u2',
+    ]);
+    expect(resolveRegenerationPoint(tree, 'u2')).toEqual({
+      error: 'Message to regenerate not found',
+    });
+  });
+});
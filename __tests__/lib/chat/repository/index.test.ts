@@ -0,0 +1,54 @@
+import { getChatRepository } from '@/lib/chat/repository';
+import { createRedisChatRepository } from '@/lib/chat/repository/redis';
+import { createWriteThroughChatRepository } from '@/lib/chat/repository/write-through';
+
+jest.mock('@/lib/chat/repository/redis', () => ({
+  createRedisChatRepository: jest.fn((tenantId?: string) => ({
+    name: 'redis',
+    tenantId,
+  })),
+}));
+
+jest.mock('@/lib/chat/repository/write-through', () => ({
+  createWriteThroughChatRepository: jest.fn((tenantId?: string) => ({
+    name: 'sqlite',
+    tenantId,
+  })),
+}));
+
+describe('getChatRepository', () => {
+  const originalStore = process.env.CHAT_STORE;
+
+  afterEach(() => {
+    process.env.CHAT_STORE = originalStore;
+  });
+
+  it('defaults to the Redis store', () => {
+    delete process.env.CHAT_STORE;
+
+    expect(getChatRepository()).toEqual({ name: 'redis' });
+  });
+
+  it('uses SQLite behind the Redis cache when configured', () => {
+    process.env.CHAT_STORE = 'SQLite' as never;
+
+    expect(getChatRepository()).toEqual({ name: 'sqlite' });
+  });
+
+  it('falls back to Redis for unknown stores', () => {
+    process.env.CHAT_STORE = 'postgres' as never;
+
+    expect(getChatRepository()).toEqual({ name: 'redis' });
+  });
+
+  it('binds the repository to the tenant', () => {
+    process.env.CHAT_STORE = 'sqlite' as never;
+
+    expect(getChatRepository('tenant-1')).toEqual({
+      name: 'sqlite',
+      tenantId: 'tenant-1',
+    });
+    expect(createWriteThroughChatRepository).toHaveBeenCalledWith('tenant-1');
+    expect(createRedisChatRepository).not.toHaveBeenCalledWith('tenant-1');
+  });
+});
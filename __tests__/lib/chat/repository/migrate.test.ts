@@ -0,0 +1,76 @@
+import { migrateRedisChatsToSqlite } from '@/lib/chat/repository/migrate';
+import { createSqliteChatRepository } from '@/lib/chat/repository/sqlite';
+import { getChat, getChatMessages, scanChats } from '@/lib/redis/chat';
+
+jest.mock('@/lib/redis/chat', () => ({
+  getChat: jest.fn(),
+  getChatMessages: jest.fn(),
+  scanChats: jest.fn(),
+}));
+
+const mockImportChat = jest.fn();
+
+jest.mock('@/lib/chat/repository/sqlite', () => ({
+  createSqliteChatRepository: jest.fn(() => ({ importChat: mockImportChat })),
+}));
+
+const chat = {
+  id: 'chat-1',
+  userId: 'user-1',
+  tenantId: 'tenant-1',
+  title: 'Chat',
+  archived: false,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+};
+
+describe('migrateRedisChatsToSqlite', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('copies each scanned chat with its history into SQLite', async () => {
+    const messages = [{ id: 'm1' }, { id: 'm2' }];
+    (scanChats as jest.Mock).mockResolvedValue({
+      cursor: '42',
+      chats: [
+        { tenantId: 'tenant-1', chatId: 'chat-1' },
+        { tenantId: 'tenant-1', chatId: 'chat-gone' },
+      ],
+    });
+    (getChat as jest.Mock).mockImplementation(
+      async (_tenantId: string, chatId: string) =>
+        chatId === 'chat-1' ? chat : null,
+    );
+    (getChatMessages as jest.Mock).mockResolvedValue(messages);
+
+    const batch = await migrateRedisChatsToSqlite('7', 50);
+
+    expect(scanChats).toHaveBeenCalledWith('7', 50);
+    expect(getChat).toHaveBeenCalledWith('tenant-1', 'chat-1');
+    expect(createSqliteChatRepository).toHaveBeenCalledWith('tenant-1');
+    expect(mockImportChat).toHaveBeenCalledTimes(1);
+    expect(mockImportChat).toHaveBeenCalledWith(chat, messages);
+    expect(batch).toEqual({
+      cursor: '42',
+      migratedChats: 1,
+      migratedMessages: 2,
+      failedChatIds: [],
+    });
+  });
+
+  it('reports chats that could not be copied and carries on', async () => {
+    (scanChats as jest.Mock).mockResolvedValue({
+      cursor: '0',
+      chats: [{ tenantId: 'tenant-1', chatId: 'chat-1' }],
+    });
+    (getChat as jest.Mock).mockResolvedValue(chat);
+    (getChatMessages as jest.Mock).mockResolvedValue([]);
+    mockImportChat.mockRejectedValue(new Error('disk full'));
+
+    const batch = await migrateRedisChatsToSqlite();
+
+    expect(batch.failedChatIds).toEqual(['chat-1']);
+    expect(batch.cursor).toBe('0');
+  });
+});
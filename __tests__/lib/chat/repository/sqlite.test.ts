@@ -0,0 +1,225 @@
+/**
+ * @jest-environment node
+ */
+
+import { createSqliteChatRepository } from '@/lib/chat/repository/sqlite';
+import { closeDatabase } from '@/lib/db';
+import type { MessageModel } from '@/types/models';
+
+const message = (id: string, overrides: Partial<MessageModel> = {}) => ({
+  id,
+  chatId: 'ignored',
+  role: 'user' as const,
+  content: `content ${id}`,
+  status: 'sent' as const,
+  parentMessageId: null,
+  metadata: null,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const repository = createSqliteChatRepository('tenant-1');
+
+describe('createSqliteChatRepository', () => {
+  const originalPath = process.env.SQLITE_DATABASE_PATH;
+
+  beforeEach(() => {
+    process.env.SQLITE_DATABASE_PATH = ':memory:';
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  afterAll(() => {
+    process.env.SQLITE_DATABASE_PATH = originalPath;
+  });
+
+  it('creates, reads and lists chats newest first', async () => {
+    const older = await repository.createChat('user-1', 'Older');
+    const newer = await repository.createChat('user-1', 'Newer');
+    await repository.updateChat(newer.id, {
+      updatedAt: new Date(Date.now() + 1000),
+    });
+    await repository.createChat('user-2', 'Someone else');
+
+    expect(await repository.getChat(older.id)).toEqual(
+      expect.objectContaining({
+        id: older.id,
+        userId: 'user-1',
+        title: 'Older',
+        tenantId: 'tenant-1',
+        archived: false,
+        legalHold: false,
+      }),
+    );
+    expect(
+      (await repository.getUserChats('user-1')).map((chat) => chat.title),
+    ).toEqual(['Newer', 'Older']);
+  });
+
+  it('hides chats that belong to another tenant', async () => {
+    const other = createSqliteChatRepository('tenant-2');
+    const foreign = await other.createChat('user-1', 'Foreign');
+    await repository.importChat(
+      {
+        id: 'chat-legacy',
+        userId: 'user-1',
+        title: 'Legacy',
+        archived: false,
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+      },
+      [],
+    );
+
+    expect(await repository.getChat(foreign.id)).toBeNull();
+    expect(await other.getChat(foreign.id)).toEqual(
+      expect.objectContaining({ tenantId: 'tenant-2' }),
+    );
+    expect(
+      (await repository.getUserChats('user-1')).map((chat) => chat.title),
+    ).toEqual(['Legacy']);
+  });
+
+  it('refuses reads and writes of another tenant chat', async () => {
+    const other = createSqliteChatRepository('tenant-2');
+    const foreign = await other.createChat('user-1', 'Foreign');
+    await other.addMessage(foreign.id, message('m1'));
+
+    expect(await repository.getChatMessages(foreign.id)).toEqual([]);
+    expect(await repository.getChatMessagePage(foreign.id)).toEqual({
+      messages: [],
+      nextCursor: null,
+    });
+    expect(await repository.addMessage(foreign.id, message('m2'))).toBe(false);
+    expect(await repository.updateChat(foreign.id, { title: 'Mine' })).toBe(
+      false,
+    );
+    expect(
+      await repository.updateMessageStatus(foreign.id, 'm1', 'failed'),
+    ).toBe(false);
+    expect(await repository.setChatLegalHold(foreign.id, true)).toBeNull();
+    expect(await repository.deleteChat(foreign.id)).toBe(false);
+
+    expect(await other.getChat(foreign.id)).toEqual(
+      expect.objectContaining({ title: 'Foreign', legalHold: false }),
+    );
+    expect(await other.getChatMessages(foreign.id)).toEqual([
+      expect.objectContaining({ id: 'm1', status: 'sent' }),
+    ]);
+  });
+
+  it('keeps messages in insertion order and pages through them', async () => {
+    const chat = await repository.createChat('user-1');
+    await repository.addMessage(chat.id, message('m1'));
+    await repository.addMessage(
+      chat.id,
+      message('m2', {
+        role: 'assistant',
+        parentMessageId: 'm1',
+        metadata: { model: 'gemini-2.0-flash', tokensUsed: 12 },
+      }),
+    );
+    await repository.addMessage(chat.id, message('m3'));
+
+    const page = await repository.getChatMessages(chat.id, 1, 1);
+
+    expect(page).toHaveLength(1);
+    expect(page[0]).toEqual(
+      expect.objectContaining({
+        id: 'm2',
+        chatId: chat.id,
+        parentMessageId: 'm1',
+        metadata: { model: 'gemini-2.0-flash', tokensUsed: 12 },
+      }),
+    );
+    expect(page[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('pages back from the newest messages with a cursor', async () => {
+    const chat = await repository.createChat('user-1');
+    for (const id of ['m1', 'm2', 'm3', 'm4', 'm5']) {
+      await repository.addMessage(chat.id, message(id));
+    }
+
+    const newest = await repository.getChatMessagePage(chat.id, undefined, 2);
+    expect(newest.messages.map(({ id }) => id)).toEqual(['m4', 'm5']);
+    expect(newest.nextCursor).toBe('m4');
+
+    const middle = await repository.getChatMessagePage(chat.id, 'm4', 2);
+    expect(middle.messages.map(({ id }) => id)).toEqual(['m2', 'm3']);
+
+    const oldest = await repository.getChatMessagePage(chat.id, 'm2', 2);
+    expect(oldest.messages.map(({ id }) => id)).toEqual(['m1']);
+    expect(oldest.nextCursor).toBeNull();
+
+    expect(await repository.getChatMessagePage(chat.id, 'unknown')).toEqual({
+      messages: [],
+      nextCursor: null,
+    });
+  });
+
+  it('updates chats and message statuses', async () => {
+    const chat = await repository.createChat('user-1');
+    await repository.addMessage(chat.id, message('m1', { status: 'sending' }));
+
+    expect(
+      await repository.updateChat(chat.id, {
+        title: 'Renamed',
+        settings: { temperature: 0.2 },
+      }),
+    ).toBe(true);
+    expect(await repository.updateMessageStatus(chat.id, 'm1', 'failed')).toBe(
+      true,
+    );
+    expect(
+      await repository.updateMessageStatus(chat.id, 'missing', 'failed'),
+    ).toBe(false);
+
+    const updated = await repository.getChat(chat.id);
+    const [stored] = await repository.getChatMessages(chat.id);
+    expect(updated?.title).toBe('Renamed');
+    expect(updated?.settings).toEqual({ temperature: 0.2 });
+    expect(stored.status).toBe('failed');
+  });
+
+  it('deletes chats with their messages unless they are held', async () => {
+    const chat = await repository.createChat('user-1');
+    await repository.addMessage(chat.id, message('m1'));
+
+    await repository.setChatLegalHold(chat.id, true);
+    expect(await repository.deleteChat(chat.id)).toBe(false);
+
+    await repository.setChatLegalHold(chat.id, false);
+    expect(await repository.deleteChat(chat.id)).toBe(true);
+    expect(await repository.getChat(chat.id)).toBeNull();
+    expect(await repository.getChatMessages(chat.id)).toEqual([]);
+  });
+
+  it('replaces the stored copy when a chat is imported again', async () => {
+    const chat = {
+      id: 'chat-imported',
+      userId: 'user-1',
+      title: 'Imported',
+      archived: true,
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+    };
+
+    await repository.importChat(chat, [message('m1'), message('m2')]);
+    await repository.importChat({ ...chat, title: 'Again' }, [message('m3')]);
+
+    expect((await repository.getChat(chat.id))?.title).toBe('Again');
+    expect(
+      (await repository.getChatMessages(chat.id)).map(({ id }) => id),
+    ).toEqual(['m3']);
+  });
+
+  it('rejects messages for unknown chats', async () => {
+    expect(await repository.addMessage('chat-missing', message('m1'))).toBe(
+      false,
+    );
+  });
+});
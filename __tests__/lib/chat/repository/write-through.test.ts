@@ -0,0 +1,208 @@
+import { createWriteThroughChatRepository } from '@/lib/chat/repository/write-through';
+import { createRedisChatRepository } from '@/lib/chat/repository/redis';
+import { createSqliteChatRepository } from '@/lib/chat/repository/sqlite';
+import { evictChat } from '@/lib/redis/chat';
+import type { ChatModel, MessageModel } from '@/types/models';
+
+jest.mock('@/lib/redis/chat', () => ({
+  evictChat: jest.fn(),
+}));
+
+function mockRepository() {
+  return {
+    createChat: jest.fn(),
+    getChat: jest.fn(),
+    updateChat: jest.fn(),
+    deleteChat: jest.fn(),
+    getUserChats: jest.fn(),
+    addMessage: jest.fn(),
+    importChat: jest.fn(),
+    getChatMessages: jest.fn(),
+    getChatMessagePage: jest.fn(),
+    updateMessageStatus: jest.fn(),
+    setChatLegalHold: jest.fn(),
+  };
+}
+
+jest.mock('@/lib/chat/repository/redis', () => {
+  const cache = mockRepository();
+  return { createRedisChatRepository: jest.fn(() => cache) };
+});
+
+jest.mock('@/lib/chat/repository/sqlite', () => {
+  const store = mockRepository();
+  return { createSqliteChatRepository: jest.fn(() => store) };
+});
+
+const TENANT = 'tenant-1';
+
+const repository = createWriteThroughChatRepository(TENANT);
+const mockedCache = createRedisChatRepository(TENANT) as unknown as Record<
+  string,
+  jest.Mock
+>;
+const mockedStore = createSqliteChatRepository(TENANT) as unknown as Record<
+  string,
+  jest.Mock
+>;
+
+const chat: ChatModel = {
+  id: 'chat-1',
+  userId: 'user-1',
+  title: 'Chat',
+  archived: false,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+};
+
+const message: MessageModel = {
+  id: 'msg-1',
+  chatId: chat.id,
+  role: 'user',
+  content: 'Hello',
+  status: 'sent',
+  parentMessageId: null,
+  metadata: null,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+};
+
+describe('createWriteThroughChatRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('binds the cache and the store to the same tenant', () => {
+    createWriteThroughChatRepository('tenant-2');
+
+    expect(createRedisChatRepository).toHaveBeenCalledWith('tenant-2');
+    expect(createSqliteChatRepository).toHaveBeenCalledWith('tenant-2');
+  });
+
+  it('writes new chats to SQLite and then to the cache', async () => {
+    mockedStore.createChat.mockResolvedValue(chat);
+
+    const created = await repository.createChat('user-1', 'Chat');
+
+    expect(created).toBe(chat);
+    expect(mockedStore.createChat).toHaveBeenCalledWith('user-1', 'Chat');
+    expect(mockedCache.importChat).toHaveBeenCalledWith(chat, []);
+  });
+
+  it('serves cached chats without touching SQLite', async () => {
+    mockedCache.getChat.mockResolvedValue(chat);
+
+    expect(await repository.getChat(chat.id)).toBe(chat);
+    expect(mockedStore.getChat).not.toHaveBeenCalled();
+  });
+
+  it('loads a missing chat and its history back into the cache', async () => {
+    mockedCache.getChat.mockResolvedValue(null);
+    mockedStore.getChat.mockResolvedValue(chat);
+    mockedStore.getChatMessages.mockResolvedValue([message]);
+    mockedCache.getChatMessages.mockResolvedValue([message]);
+
+    const messages = await repository.getChatMessages(chat.id, 0, 50);
+
+    expect(evictChat).toHaveBeenCalledWith(TENANT, chat.id);
+    expect(mockedCache.importChat).toHaveBeenCalledWith(chat, [message]);
+    expect(mockedCache.getChatMessages).toHaveBeenCalledWith(chat.id, 0, 50);
+    expect(messages).toEqual([message]);
+  });
+
+  it('pages through the cached copy', async () => {
+    const page = { messages: [message], nextCursor: null };
+    mockedCache.getChat.mockResolvedValue(chat);
+    mockedCache.getChatMessagePage.mockResolvedValue(page);
+
+    expect(await repository.getChatMessagePage(chat.id, 'msg-9', 20)).toBe(
+      page,
+    );
+    expect(mockedCache.getChatMessagePage).toHaveBeenCalledWith(
+      chat.id,
+      'msg-9',
+      20,
+    );
+    expect(mockedStore.getChatMessagePage).not.toHaveBeenCalled();
+  });
+
+  it('returns nothing for chats missing from both stores', async () => {
+    mockedCache.getChat.mockResolvedValue(null);
+    mockedStore.getChat.mockResolvedValue(null);
+
+    expect(await repository.getChat('chat-missing')).toBeNull();
+    expect(await repository.getChatMessages('chat-missing')).toEqual([]);
+    expect(await repository.getChatMessagePage('chat-missing')).toEqual({
+      messages: [],
+      nextCursor: null,
+    });
+    expect(mockedCache.importChat).not.toHaveBeenCalled();
+  });
+
+  it('mirrors writes into the cached copy with one timestamp', async () => {
+    mockedCache.getChat.mockResolvedValue(chat);
+    mockedStore.updateChat.mockResolvedValue(true);
+    mockedCache.updateChat.mockResolvedValue(true);
+
+    expect(await repository.updateChat(chat.id, { title: 'Renamed' })).toBe(
+      true,
+    );
+
+    const [, storeUpdates] = mockedStore.updateChat.mock.calls[0];
+    expect(storeUpdates).toEqual({
+      title: 'Renamed',
+      updatedAt: expect.any(Date),
+    });
+    expect(mockedCache.updateChat).toHaveBeenCalledWith(chat.id, storeUpdates);
+  });
+
+  it('skips the cache for chats that are not cached', async () => {
+    mockedCache.getChat.mockResolvedValue(null);
+    mockedStore.addMessage.mockResolvedValue(true);
+
+    expect(await repository.addMessage(chat.id, message)).toBe(true);
+    expect(mockedCache.addMessage).not.toHaveBeenCalled();
+  });
+
+  it('evicts the cached copy when mirroring fails', async () => {
+    mockedCache.getChat.mockResolvedValue(chat);
+    mockedStore.addMessage.mockResolvedValue(true);
+    mockedCache.addMessage.mockRejectedValue(new Error('Redis down'));
+
+    expect(await repository.addMessage(chat.id, message)).toBe(true);
+    expect(evictChat).toHaveBeenCalledWith(TENANT, chat.id);
+  });
+
+  it('leaves the cache alone when SQLite rejects the write', async () => {
+    mockedStore.updateMessageStatus.mockResolvedValue(false);
+
+    expect(
+      await repository.updateMessageStatus(chat.id, message.id, 'failed'),
+    ).toBe(false);
+    expect(mockedCache.updateMessageStatus).not.toHaveBeenCalled();
+  });
+
+  it('deletes from SQLite and then cleans up the cached copy', async () => {
+    mockedCache.getChat.mockResolvedValue(chat);
+    mockedStore.deleteChat.mockResolvedValue(true);
+    mockedCache.deleteChat.mockResolvedValue(true);
+
+    expect(await repository.deleteChat(chat.id)).toBe(true);
+    expect(mockedCache.deleteChat).toHaveBeenCalledWith(chat.id);
+  });
+
+  it('keeps held chats in both stores', async () => {
+    mockedCache.getChat.mockResolvedValue({ ...chat, legalHold: true });
+    mockedStore.deleteChat.mockResolvedValue(false);
+
+    expect(await repository.deleteChat(chat.id)).toBe(false);
+    expect(mockedCache.deleteChat).not.toHaveBeenCalled();
+  });
+
+  it('lists chats from SQLite, which holds every chat', async () => {
+    mockedStore.getUserChats.mockResolvedValue([chat]);
+
+    expect(await repository.getUserChats('user-1')).toEqual([chat]);
+    expect(mockedCache.getUserChats).not.toHaveBeenCalled();
+  });
+});
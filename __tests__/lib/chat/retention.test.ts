@@ -0,0 +1,44 @@
+import {
+  DEFAULT_RETENTION_POLICY,
+  computeChatExpiry,
+  resolveRetentionPolicy,
+} from '@/lib/chat/retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const chat = {
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-03-01T00:00:00.000Z'),
+};
+
+describe('resolveRetentionPolicy', () => {
+  it('prefers the user policy, then the tenant policy, then the default', () => {
+    const userPolicy = { mode: 'forever' } as const;
+    const tenantPolicy = { mode: 'since_creation', days: 90 } as const;
+
+    expect(resolveRetentionPolicy(userPolicy, tenantPolicy)).toBe(userPolicy);
+    expect(resolveRetentionPolicy(null, tenantPolicy)).toBe(tenantPolicy);
+    expect(resolveRetentionPolicy(null, null)).toBe(DEFAULT_RETENTION_POLICY);
+  });
+});
+
+describe('computeChatExpiry', () => {
+  it('counts from creation or from the last activity', () => {
+    expect(
+      computeChatExpiry(chat, { mode: 'since_creation', days: 10 }),
+    ).toEqual(new Date(chat.createdAt.getTime() + 10 * DAY_MS));
+    expect(
+      computeChatExpiry(chat, { mode: 'since_activity', days: 10 }),
+    ).toEqual(new Date(chat.updatedAt.getTime() + 10 * DAY_MS));
+  });
+
+  it('never expires chats kept forever or under legal hold', () => {
+    expect(computeChatExpiry(chat, { mode: 'forever' })).toBeNull();
+    expect(
+      computeChatExpiry(
+        { ...chat, legalHold: true },
+        { mode: 'since_creation', days: 1 },
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { buildSearchSnippet, tokenizeSearchText } from '@/lib/chat/search';
+
+describe('tokenizeSearchText', () => {
+  it('returns unique lowercase words and skips single characters', () => {
+    expect(
+      tokenizeSearchText('Terraform: plan, then TERRAFORM apply a b'),
+    ).toEqual(['terraform', 'plan', 'then', 'apply']);
+  });
+
+  it('keeps non-Latin words and numbers', () => {
+    expect(tokenizeSearchText('Größe 42 café')).toEqual([
+      'größe',
+      '42',
+      'café',
+    ]);
+  });
+});
+
+describe('buildSearchSnippet', () => {
+  it('highlights whole-word matches inside the excerpt', () => {
+    const { snippet, highlights } = buildSearchSnippet(
+      'Use Terraform modules; terraforming is different.',
+      ['terraform'],
+    );
+
+    expect(snippet).toBe('Use Terraform modules; terraforming is different.');
+    expect(highlights).toEqual([[4, 13]]);
+  });
+
+  it('centres long content on the first match with ellipses', () => {
+    const content = `${'x '.repeat(100)}needle${' y'.repeat(100)}`;
+    const { snippet, highlights } = buildSearchSnippet(content, ['needle']);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    const [[start, end]] = highlights;
+    expect(snippet.slice(start, end)).toBe('needle');
+  });
+});
@@ -0,0 +1,59 @@
+import { buildRedactionPreview, buildSharedChat } from '@/lib/chat/share';
+import type { ChatDTO, MessageDTO } from '@/types/models';
+
+const buildMessage = (
+  id: string,
+  parentMessageId: string | null,
+  minute: number,
+  metadata: MessageDTO['metadata'],
+): MessageDTO => ({
+  id,
+  chatId: 'chat-1',
+  role: parentMessageId ? 'assistant' : 'user',
+  content: `Message ${id}`,
+  status: 'sent',
+  parentMessageId,
+  metadata,
+  createdAt: `2024-01-01T00:0${minute}:00.000Z`,
+  updatedAt: `2024-01-01T00:0${minute}:00.000Z`,
+});
+
+const chat: ChatDTO = {
+  id: 'chat-1',
+  userId: 'user-1',
+  title: 'Shared chat',
+  archived: false,
+  settings: { systemPrompt: 'Internal instructions' },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:02:00.000Z',
+};
+
+// a1 was regenerated as a2; only the latest branch is shared
+const messages = [
+  buildMessage('u1', null, 0, { clientRequestId: 'req-1' }),
+  buildMessage('a1', 'u1', 1, { model: 'old-model', circuitBreakerOpen: true }),
+  buildMessage('a2', 'u1', 2, { model: 'gemini-2.0-flash', tokensUsed: 42 }),
+];
+
+describe('chat sharing', () => {
+  it('shares the latest branch without metadata or settings', () => {
+    const shared = buildSharedChat(chat, messages);
+
+    expect(shared).toEqual({
+      title: 'Shared chat',
+      createdAt: chat.createdAt,
+      messages: [
+        expect.objectContaining({ id: 'u1', metadata: null }),
+        expect.objectContaining({ id: 'a2', metadata: null }),
+      ],
+    });
+    expect(JSON.stringify(shared)).not.toContain('Internal instructions');
+  });
+
+  it('previews which metadata fields will be removed', () => {
+    expect(buildRedactionPreview(messages)).toEqual({
+      messageCount: 2,
+      redactedFields: ['clientRequestId', 'model', 'tokensUsed'],
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { buildUsageReport, usageReportRange } from '@/lib/chat/usage-report';
+import { splitTokenUsage } from '@/lib/llm/usage';
+import type { MessageModel } from '@/types/models';
+
+const now = new Date('2026-10-19T15:00:00.000Z');
+const range = usageReportRange(3, now);
+
+const message = (overrides: Partial<MessageModel>): MessageModel => ({
+  id: 'msg',
+  chatId: 'chat-1',
+  role: 'assistant',
+  content: 'a'.repeat(40),
+  status: 'sent',
+  parentMessageId: null,
+  metadata: { model: 'gemini-2.0-flash', tokensUsed: 100, processingTime: 800 },
+  createdAt: new Date('2026-10-19T10:00:00.000Z'),
+  updatedAt: new Date('2026-10-19T10:00:00.000Z'),
+  ...overrides,
+});
+
+describe('usage report', () => {
+  it('covers the last N UTC days, today included', () => {
+    expect(range.from.toISOString()).toBe('2026-10-17T00:00:00.000Z');
+    expect(range.to).toBe(now);
+  });
+
+  it('sums assistant responses by day, chat and model', () => {
+    const report = buildUsageReport(
+      [
+        {
+          chat: { id: 'chat-1', title: 'Planning' },
+          messages: [
+            message({ id: 'u1', role: 'user', metadata: null }),
+            message({ id: 'a1' }),
+            message({
+              id: 'a2',
+              metadata: { model: 'gemini-1.5-pro', tokensUsed: 300 },
+              createdAt: new Date('2026-10-17T08:00:00.000Z'),
+            }),
+          ],
+        },
+        {
+          chat: { id: 'chat-2', title: 'Recipes' },
+          messages: [
+            message({
+              id: 'a3',
+              chatId: 'chat-2',
+              metadata: { tokensUsed: 50 },
+            }),
+          ],
+        },
+      ],
+      range,
+    );
+
+    expect(report.totals).toEqual(
+      expect.objectContaining({
+        tokens: 450,
+        responses: 3,
+        averageProcessingTime: 800,
+      }),
+    );
+    expect(report.daily.map((day) => [day.date, day.tokens])).toEqual([
+      ['2026-10-17', 300],
+      ['2026-10-18', 0],
+      ['2026-10-19', 150],
+    ]);
+    expect(report.byChat.map((chat) => [chat.title, chat.tokens])).toEqual([
+      ['Planning', 400],
+      ['Recipes', 50],
+    ]);
+    expect(report.byModel.map((model) => [model.model, model.tokens])).toEqual([
+      ['gemini-1.5-pro', 300],
+      ['gemini-2.0-flash', 100],
+      [null, 50],
+    ]);
+  });
+
+  it('estimates cost like the live usage counters', () => {
+    const report = buildUsageReport(
+      [{ chat: { id: 'chat-1', title: 'Planning' }, messages: [message({})] }],
+      range,
+    );
+
+    expect(report.totals.cost).toBe(
+      splitTokenUsage({ content: 'a'.repeat(40), tokensUsed: 100 }).cost,
+    );
+  });
+
+  it('skips failed responses and responses outside the range', () => {
+    const report = buildUsageReport(
+      [
+        {
+          chat: { id: 'chat-1', title: 'Planning' },
+          messages: [
+            message({ id: 'a1', status: 'failed' }),
+            message({
+              id: 'a2',
+              createdAt: new Date('2026-10-16T23:59:59.000Z'),
+            }),
+            message({ id: 'a3', metadata: { stopped: true } }),
+          ],
+        },
+      ],
+      range,
+    );
+
+    expect(report.totals).toEqual({
+      tokens: 0,
+      cost: 0,
+      responses: 0,
+      averageProcessingTime: null,
+    });
+    expect(report.byChat).toEqual([]);
+    expect(report.daily).toHaveLength(3);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * @jest-environment node
+ */
+
+import { getChatModels, getLLMProvider } from '@/lib/llm/providers';
+import { geminiProvider } from '@/lib/llm/providers/gemini';
+import { openAICompatibleProvider } from '@/lib/llm/providers/openai-compatible';
+
+const mockGenerateContent = jest.fn();
+
+jest.mock('@google/genai', () => ({
+  GoogleGenAI: jest.fn(() => ({
+    models: { generateContent: mockGenerateContent },
+  })),
+}));
+
+const ORIGINAL_ENV = { ...process.env };
+
+const baseMessages = [
+  { role: 'system', content: 'Be brief.' },
+  { role: 'user', content: 'Hello there' },
+  { role: 'model', content: 'Hi!' },
+];
+
+function sseResponse(events: string[]): Response {
+  const encoder = new TextEncoder();
+  const payload = events.map((event) => `data: ${event}\n\n`).join('');
+  // Split mid-line to exercise buffering across reads
+  const splitAt = Math.floor(payload.length / 2);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(payload.slice(0, splitAt)));
+      controller.enqueue(encoder.encode(payload.slice(splitAt)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+describe('LLM providers', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.LLM_PROVIDER;
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.OPENAI_COMPAT_BASE_URL;
+    delete process.env.OPENAI_COMPAT_API_KEY;
+    delete process.env.OPENAI_COMPAT_MODEL;
+    delete process.env.OPENAI_COMPAT_MODELS;
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  describe('getLLMProvider', () => {
+    it('falls back to the mock provider when Gemini has no API key', () => {
+      expect(getLLMProvider().name).toBe('mock');
+    });
+
+    it('uses Gemini by default when an API key is configured', () => {
+      process.env.GEMINI_API_KEY = 'test-key';
+
+      expect(getLLMProvider().name).toBe('gemini');
+    });
+
+    it('selects the OpenAI-compatible provider from LLM_PROVIDER', () => {
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      process.env.OPENAI_COMPAT_BASE_URL = 'http://localhost:11434/v1';
+
+      expect(getLLMProvider().name).toBe('openai-compatible');
+    });
+
+    it('falls back to mock when the selected provider is not configured', () => {
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      process.env.GEMINI_API_KEY = 'test-key';
+
+      expect(getLLMProvider().name).toBe('mock');
+    });
+
+    it('ignores unknown provider names', () => {
+      process.env.LLM_PROVIDER = 'unknown' as never;
+      process.env.GEMINI_API_KEY = 'test-key';
+
+      expect(getLLMProvider().name).toBe('gemini');
+    });
+  });
+
+  describe('getChatModels', () => {
+    it('offers the Gemini models by default, even before a key is set', () => {
+      expect(getChatModels().map((model) => model.id)).toContain(
+        'gemini-2.0-flash',
+      );
+    });
+
+    it('lists the models hosted by an OpenAI-compatible server', () => {
+      process.env.LLM_PROVIDER = 'openai-compatible';
+
+      expect(getChatModels()).toEqual([{ id: 'llama3', label: 'llama3' }]);
+
+      process.env.OPENAI_COMPAT_MODELS = 'llama3, mistral';
+
+      expect(getChatModels().map((model) => model.id)).toEqual([
+        'llama3',
+        'mistral',
+      ]);
+    });
+  });
+
+  describe('geminiProvider', () => {
+    it('sends system prompts through the native systemInstruction config', async () => {
+      process.env.GEMINI_API_KEY = 'test-key';
+      mockGenerateContent.mockResolvedValue({
+        text: 'Short answer.',
+        usageMetadata: { totalTokenCount: 12 },
+      });
+
+      const result = await geminiProvider.complete(baseMessages, {
+        model: 'gemini-1.5-pro',
+      });
+
+      expect(result.tokensUsed).toBe(12);
+      expect(mockGenerateContent).toHaveBeenCalledWith({
+        model: 'gemini-1.5-pro',
+        contents: [
+          { role: 'user', parts: [{ text: 'Hello there' }] },
+          { role: 'model', parts: [{ text: 'Hi!' }] },
+        ],
+        config: {
+          temperature: 1,
+          systemInstruction: 'Be brief.',
+        },
+      });
+    });
+  });
+
+  describe('openAICompatibleProvider', () => {
+    beforeEach(() => {
+      process.env.OPENAI_COMPAT_BASE_URL = 'http://localhost:11434/v1/';
+      process.env.OPENAI_COMPAT_API_KEY = 'local-key';
+      process.env.OPENAI_COMPAT_MODEL = 'llama3';
+    });
+
+    it('posts chat completions with normalized roles', async () => {
+      fetchMock.mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            model: 'llama3',
+            choices: [{ message: { content: 'General Kenobi' } }],
+            usage: { total_tokens: 42 },
+          }),
+          { status: 200 },
+        ),
+      );
+
+      const result = await openAICompatibleProvider.complete(baseMessages, {
+        maxTokens: 100,
+        temperature: 0.2,
+      });
+
+      expect(result).toMatchObject({
+        content: 'General Kenobi',
+        model: 'llama3',
+        tokensUsed: 42,
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(init.headers.Authorization).toBe('Bearer local-key');
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'llama3',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hello there' },
+          { role: 'assistant', content: 'Hi!' },
+        ],
+        temperature: 0.2,
+        max_tokens: 100,
+        stream: false,
+      });
+    });
+
+    it('streams SSE deltas until [DONE]', async () => {
+      fetchMock.mockResolvedValue(
+        sseResponse([
+          JSON.stringify({ choices: [{ delta: { content: 'Hello' } }] }),
+          JSON.stringify({ choices: [{ delta: { content: ' world' } }] }),
+          '[DONE]',
+        ]),
+      );
+
+      const chunks: string[] = [];
+      const result = await openAICompatibleProvider.stream(
+        baseMessages,
+        (chunk) => chunks.push(chunk),
+        {},
+      );
+
+      expect(chunks).toEqual(['Hello', ' world']);
+      expect(result.content).toBe('Hello world');
+      expect(result.model).toBe('llama3');
+    });
+
+    it('marks server errors as retryable and client errors as not', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response('overloaded', { status: 503 }),
+      );
+      const serverError = await openAICompatibleProvider
+        .complete(baseMessages, {})
+        .catch((error: unknown) => error);
+
+      fetchMock.mockResolvedValueOnce(
+        new Response('bad request', { status: 400 }),
+      );
+      const clientError = await openAICompatibleProvider
+        .complete(baseMessages, {})
+        .catch((error: unknown) => error);
+
+      expect(openAICompatibleProvider.isRetryableError(serverError)).toBe(true);
+      expect(openAICompatibleProvider.isRetryableError(clientError)).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import * as llmService from '@/lib/llm/service';
 import { redisCircuitBreaker } from '@/lib/redis/circuit-breaker';
+import { recordTokenUsage } from '@/lib/redis/usage';
 
 // Mock the Redis circuit breaker
 jest.mock('@/lib/redis/circuit-breaker', () => ({
@@ -8,6 +9,10 @@ jest.mock('@/lib/redis/circuit-breaker', () => ({
   },
 }));
 
+jest.mock('@/lib/redis/usage', () => ({
+  recordTokenUsage: jest.fn(),
+}));
+
 const baseMessages = [{ role: 'user', content: 'Hello there' }];
 
 describe('LLM service', () => {
@@ -37,6 +42,44 @@ describe('LLM service', () => {
     expect(result.tokensUsed).toBeGreaterThan(0);
   });
 
+  it('records usage against the account only when one is given', async () => {
+    await llmService.callLLM(baseMessages);
+    expect(recordTokenUsage).not.toHaveBeenCalled();
+
+    const result = await llmService.callLLM(baseMessages, {
+      account: { userId: 'user-1', tenantId: 'tenant-1' },
+    });
+
+    expect(recordTokenUsage).toHaveBeenCalledWith(
+      { userId: 'user-1', tenantId: 'tenant-1' },
+      expect.objectContaining({
+        inputTokens: expect.any(Number),
+        outputTokens: expect.any(Number),
+        cost: expect.any(Number),
+      }),
+    );
+    const [, usage] = (recordTokenUsage as jest.Mock).mock.calls[0];
+    expect(usage.inputTokens + usage.outputTokens).toBe(result.tokensUsed);
+  });
+
+  it('still returns the answer when usage cannot be recorded', async () => {
+    (recordTokenUsage as jest.Mock).mockRejectedValueOnce(
+      new Error('Redis down'),
+    );
+
+    const chunks: string[] = [];
+    const result = await llmService.callLLMStream(
+      baseMessages,
+      (chunk: string) => {
+        chunks.push(chunk);
+      },
+      { mockDelay: 0, account: { userId: 'user-1' } },
+    );
+
+    expect(result.content).toContain('Hello there');
+    expect(recordTokenUsage).toHaveBeenCalledTimes(1);
+  });
+
   it('streams chunks via callLLMStream', async () => {
     const chunks: string[] = [];
     const result = await llmService.callLLMStream(
@@ -51,6 +94,53 @@ describe('LLM service', () => {
     expect(result.content).toContain('Hello there');
   });
 
+  it('stops streaming without retrying when the signal aborts', async () => {
+    const abortController = new AbortController();
+    const chunks: string[] = [];
+
+    await expect(
+      llmService.callLLMStreamWithRetry(
+        baseMessages,
+        (chunk: string) => {
+          chunks.push(chunk);
+          abortController.abort();
+        },
+        { mockDelay: 0, signal: abortController.signal },
+      ),
+    ).rejects.toMatchObject({ name: 'AbortError', retryable: false });
+
+    expect(chunks).toHaveLength(1);
+    expect(llmService.getCircuitBreaker().getState()).toBe('CLOSED');
+  });
+
+  it('records usage of the partial answer when the stream is stopped', async () => {
+    const abortController = new AbortController();
+    const chunks: string[] = [];
+
+    await expect(
+      llmService.callLLMStream(
+        baseMessages,
+        (chunk: string) => {
+          chunks.push(chunk);
+          abortController.abort();
+        },
+        {
+          mockDelay: 0,
+          signal: abortController.signal,
+          account: { userId: 'user-1' },
+        },
+      ),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+
+    const [, usage] = (recordTokenUsage as jest.Mock).mock.calls[0];
+    expect(usage.outputTokens).toBe(
+      llmService.calculateTokenCount(chunks.join('')),
+    );
+    expect(usage.inputTokens).toBe(
+      llmService.calculateTokenCount(baseMessages[0].content),
+    );
+  });
+
   it('calculateTokenCount approximates based on length', () => {
     const short = llmService.calculateTokenCount('abcd');
     const longer = llmService.calculateTokenCount('a'.repeat(40));
@@ -90,6 +180,28 @@ describe('LLM service', () => {
     expect(trimmed[trimmed.length - 1].content).toBe('latest question');
   });
 
+  it('truncateMessagesToFit always keeps the system prompt', () => {
+    const systemPrompt = 'You are a meticulous reviewer. '.repeat(4);
+    const messages = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: 'a'.repeat(40) },
+      { role: 'assistant', content: 'b'.repeat(40) },
+      { role: 'user', content: 'latest' },
+    ];
+
+    const { messages: trimmed, removedCount } =
+      llmService.truncateMessagesToFit(
+        messages,
+        llmService.calculateTokenCount(systemPrompt) + 5,
+      );
+
+    expect(removedCount).toBe(2);
+    expect(trimmed).toEqual([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: 'latest' },
+    ]);
+  });
+
   it('formatMessagesForLLM maps MessageModel shape', () => {
     const now = new Date();
     const formatted = llmService.formatMessagesForLLM([
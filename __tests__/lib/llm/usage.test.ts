@@ -0,0 +1,124 @@
+import {
+  EMPTY_USAGE_TOTALS,
+  evaluateUsageQuota,
+  getUsageQuotas,
+  isQuotaExhausted,
+  splitTokenUsage,
+  usagePeriodBucket,
+  usagePeriodResetAt,
+} from '@/lib/llm/usage';
+import { TokenManager } from '@/lib/llm/token-manager';
+
+const QUOTA_ENV_VARS = [
+  'USAGE_QUOTA_USER_DAILY_TOKENS',
+  'USAGE_QUOTA_USER_MONTHLY_COST_USD',
+  'USAGE_QUOTA_TENANT_MONTHLY_TOKENS',
+] as const;
+
+describe('usage accounting', () => {
+  afterEach(() => {
+    QUOTA_ENV_VARS.forEach((name) => delete process.env[name]);
+  });
+
+  describe('splitTokenUsage', () => {
+    it('counts the completion as output and the rest as input', () => {
+      const usage = splitTokenUsage({
+        content: 'a'.repeat(20),
+        tokensUsed: 100,
+      });
+
+      expect(usage.outputTokens).toBe(5);
+      expect(usage.inputTokens).toBe(95);
+      expect(usage.cost).toBe(TokenManager.estimateCost(95, 5).totalCost);
+    });
+
+    it('never reports more output than the provider total', () => {
+      const usage = splitTokenUsage({
+        content: 'a'.repeat(400),
+        tokensUsed: 10,
+      });
+
+      expect(usage).toEqual(
+        expect.objectContaining({ inputTokens: 0, outputTokens: 10 }),
+      );
+    });
+  });
+
+  describe('periods', () => {
+    const now = new Date('2026-02-28T23:30:00.000Z');
+
+    it('buckets by UTC day and month', () => {
+      expect(usagePeriodBucket('day', now)).toBe('2026-02-28');
+      expect(usagePeriodBucket('month', now)).toBe('2026-02');
+    });
+
+    it('resets at the start of the next UTC day and month', () => {
+      expect(usagePeriodResetAt('day', now).toISOString()).toBe(
+        '2026-03-01T00:00:00.000Z',
+      );
+      expect(
+        usagePeriodResetAt(
+          'month',
+          new Date('2026-12-15T10:00:00.000Z'),
+        ).toISOString(),
+      ).toBe('2027-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('getUsageQuotas', () => {
+    it('reads the configured quotas for a scope and skips invalid ones', () => {
+      process.env.USAGE_QUOTA_USER_DAILY_TOKENS = '1000';
+      process.env.USAGE_QUOTA_USER_MONTHLY_COST_USD = '2.5';
+      process.env.USAGE_QUOTA_TENANT_MONTHLY_TOKENS = 'lots';
+
+      expect(getUsageQuotas('user')).toEqual([
+        { scope: 'user', period: 'day', metric: 'tokens', limit: 1000 },
+        { scope: 'user', period: 'month', metric: 'cost', limit: 2.5 },
+      ]);
+      expect(getUsageQuotas('tenant')).toEqual([]);
+    });
+
+    it('scales the limits by the multiplier', () => {
+      process.env.USAGE_QUOTA_USER_DAILY_TOKENS = '1000';
+
+      expect(getUsageQuotas('user', 5)).toEqual([
+        { scope: 'user', period: 'day', metric: 'tokens', limit: 5000 },
+      ]);
+    });
+  });
+
+  describe('evaluateUsageQuota', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    const quota = {
+      scope: 'user',
+      period: 'day',
+      metric: 'tokens',
+      limit: 1000,
+    } as const;
+
+    it('reports what is left until the bucket resets', () => {
+      const status = evaluateUsageQuota(
+        quota,
+        { ...EMPTY_USAGE_TOTALS, tokens: 400 },
+        now,
+      );
+
+      expect(status).toEqual(
+        expect.objectContaining({ used: 400, remaining: 600 }),
+      );
+      expect(status.resetAt.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+      expect(isQuotaExhausted(status)).toBe(false);
+    });
+
+    it('is exhausted at the limit and never goes negative', () => {
+      const status = evaluateUsageQuota(
+        quota,
+        { ...EMPTY_USAGE_TOTALS, tokens: 1200 },
+        now,
+      );
+
+      expect(status.remaining).toBe(0);
+      expect(isQuotaExhausted(status)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  highlightCode,
+  renderMarkdown,
+  splitMarkdownBlocks,
+} from '@/lib/markdown';
+
+describe('splitMarkdownBlocks', () => {
+  it('separates prose from fenced code', () => {
+    const blocks = splitMarkdownBlocks(
+      'Intro\n\n```TypeScript\nconst x = 1;\n```\nOutro',
+    );
+
+    expect(blocks).toEqual([
+      { type: 'markdown', source: 'Intro\n' },
+      {
+        type: 'code',
+        code: 'const x = 1;',
+        language: 'typescript',
+        closed: true,
+      },
+      { type: 'markdown', source: 'Outro' },
+    ]);
+  });
+
+  it('keeps an unterminated fence as an open code block while streaming', () => {
+    const blocks = splitMarkdownBlocks('Here:\n~~~python\nprint("hi")');
+
+    expect(blocks[1]).toEqual({
+      type: 'code',
+      code: 'print("hi")',
+      language: 'python',
+      closed: false,
+    });
+  });
+
+  it('keeps earlier blocks stable as content grows', () => {
+    const partial = splitMarkdownBlocks('Para\n```js\nlet a');
+    const complete = splitMarkdownBlocks('Para\n```js\nlet a = 1;\n```\nDone');
+
+    expect(complete[0]).toEqual(partial[0]);
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('renders tables and lists', () => {
+    const html = renderMarkdown('| a | b |\n|---|--:|\n| 1 | 2 |\n\n- item');
+
+    expect(html).toContain('<table>');
+    expect(html).toContain('<td style="text-align:right">2</td>');
+    expect(html).toContain('<li>item</li>');
+  });
+
+  it('renders raw HTML as text', () => {
+    const html = renderMarkdown('<img src=x onerror=alert(1)>');
+
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;img');
+  });
+
+  it('passes links through sanitizeUrl', () => {
+    const html = renderMarkdown(
+      '[safe](https://example.com) [bad](javascript:alert(1)) [rel](/local)',
+    );
+
+    expect(html).toContain(
+      '<a href="https://example.com/" target="_blank" rel="noopener noreferrer">safe</a>',
+    );
+    expect(html).not.toContain('href="javascript:');
+    expect(html).toContain(
+      '<a target="_blank" rel="noopener noreferrer">rel</a>',
+    );
+  });
+});
+
+describe('highlightCode', () => {
+  it('highlights known languages with token classes', () => {
+    expect(highlightCode('const x = 1;', 'javascript')).toContain(
+      '<span class="hljs-keyword">const</span>',
+    );
+  });
+
+  it('escapes code in unknown languages', () => {
+    expect(highlightCode('<b>hi</b>', 'not-a-language')).toBe(
+      '&lt;b&gt;hi&lt;/b&gt;',
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import {
+  AUDIT_GENESIS_HASH,
+  appendAuditEvent,
+  queryAuditEvents,
+  verifyAuditChain,
+} from '@/lib/redis/audit';
+import { getRedisClient } from '@/lib/redis/client';
+import { AUDIT_HEAD_KEY } from '@/lib/redis/keys';
+import { logError } from '@/utils/logger';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logError: jest.fn(),
+}));
+
+type StreamEntry = [string, string[]];
+
+// In-memory stream; IDs are `{n}-0` so each entry sorts after the last
+let stream: StreamEntry[];
+let head: string | null;
+
+const idMs = (id: string) => Number(id.split('-')[0]);
+
+const inRange = (id: string, low: string, high: string) => {
+  const above =
+    low === '-' ||
+    (low.startsWith('(')
+      ? idMs(id) > idMs(low.slice(1))
+      : idMs(id) >= idMs(low));
+  const below =
+    high === '+' ||
+    (high.startsWith('(')
+      ? idMs(id) < idMs(high.slice(1))
+      : idMs(id) <= idMs(high));
+  return above && below;
+};
+
+// Appends run on a dedicated connection
+const mockAppendRedis = {
+  status: 'ready',
+  watch: jest.fn(),
+  unwatch: jest.fn(),
+  get: jest.fn(async () => head),
+  multi: jest.fn(() => {
+    let fields: string[] = [];
+    let nextHead = '';
+    const pipeline: Record<string, jest.Mock> = {
+      xadd: jest.fn((_key: string, _id: string, ...values: string[]) => {
+        fields = values;
+        return pipeline;
+      }),
+      set: jest.fn((_key: string, value: string) => {
+        nextHead = value;
+        return pipeline;
+      }),
+      exec: jest.fn(async () => {
+        const id = `${stream.length + 1}-0`;
+        stream.push([id, fields]);
+        head = nextHead;
+        return [
+          [null, id],
+          [null, 'OK'],
+        ];
+      }),
+    };
+    return pipeline;
+  }),
+};
+
+const mockRedis = {
+  duplicate: jest.fn(() => mockAppendRedis),
+  xrange: jest.fn(
+    async (_key: string, start: string, end: string, _c: string, n: number) =>
+      stream.filter(([id]) => inRange(id, start, end)).slice(0, n),
+  ),
+  xrevrange: jest.fn(
+    async (_key: string, end: string, start: string, _c: string, n: number) =>
+      stream
+        .filter(([id]) => inRange(id, start, end))
+        .reverse()
+        .slice(0, n),
+  ),
+};
+
+const field = (entry: StreamEntry, name: string) =>
+  entry[1][entry[1].indexOf(name) + 1];
+
+describe('Audit log', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stream = [];
+    head = null;
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+  });
+
+  describe('appendAuditEvent', () => {
+    it('chains each event to the one before it', async () => {
+      const first = await appendAuditEvent({
+        type: 'user.suspend',
+        actorId: 'admin-1',
+        tenantId: 'tenant-1',
+        ip: '203.0.113.7',
+        targetId: 'user-1',
+        details: { reason: 'Abuse' },
+      });
+      const second = await appendAuditEvent({
+        type: 'user.unsuspend',
+        actorId: 'admin-1',
+        targetId: 'user-1',
+        details: {},
+      });
+
+      expect(first).toMatchObject({
+        id: '1-0',
+        type: 'user.suspend',
+        tenantId: 'tenant-1',
+        details: { reason: 'Abuse' },
+        prevHash: AUDIT_GENESIS_HASH,
+      });
+      expect(second?.prevHash).toBe(first?.hash);
+      expect(second?.tenantId).toBeNull();
+      expect(head).toBe(second?.hash);
+      expect(mockAppendRedis.watch).toHaveBeenCalledWith(AUDIT_HEAD_KEY);
+    });
+
+    it('retries when another writer moved the head', async () => {
+      const conflicted = {
+        xadd: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(null),
+      };
+      mockAppendRedis.multi.mockImplementationOnce(() => conflicted);
+
+      const event = await appendAuditEvent({
+        type: 'session.rotated',
+        actorId: 'user-1',
+        details: {},
+      });
+
+      expect(event?.id).toBe('1-0');
+      expect(mockAppendRedis.watch).toHaveBeenCalledTimes(2);
+    });
+
+    it('logs and resolves to null when Redis fails', async () => {
+      mockAppendRedis.get.mockRejectedValueOnce(new Error('connection lost'));
+
+      const event = await appendAuditEvent({
+        type: 'auth.csrf_rejected',
+        details: { reason: 'no_session' },
+      });
+
+      expect(event).toBeNull();
+      expect(mockAppendRedis.unwatch).toHaveBeenCalled();
+      expect(logError).toHaveBeenCalledWith(
+        'Failed to append audit event',
+        expect.any(Error),
+        { type: 'auth.csrf_rejected' },
+      );
+    });
+  });
+
+  describe('queryAuditEvents', () => {
+    beforeEach(async () => {
+      for (const actorId of ['user-1', 'user-2', 'user-1', 'user-1']) {
+        await appendAuditEvent({
+          type: 'chat.access_denied',
+          actorId,
+          details: { chatId: 'chat-1' },
+        });
+      }
+    });
+
+    it('returns matching events newest first with a cursor', async () => {
+      const page = await queryAuditEvents({ actorId: 'user-1', limit: 2 });
+
+      expect(page.events.map((event) => event.id)).toEqual(['4-0', '3-0']);
+      expect(page.nextCursor).toBe('3-0');
+
+      const next = await queryAuditEvents({
+        actorId: 'user-1',
+        before: page.nextCursor!,
+        limit: 2,
+      });
+
+      expect(next.events.map((event) => event.id)).toEqual(['1-0']);
+      expect(next.nextCursor).toBeNull();
+    });
+
+    it('filters by type', async () => {
+      const page = await queryAuditEvents({ type: 'user.suspend', limit: 10 });
+
+      expect(page.events).toEqual([]);
+    });
+  });
+
+  describe('verifyAuditChain', () => {
+    beforeEach(async () => {
+      for (const chatId of ['chat-1', 'chat-2', 'chat-3']) {
+        await appendAuditEvent({
+          type: 'chat.access_denied',
+          actorId: 'user-1',
+          details: { chatId },
+        });
+      }
+    });
+
+    it('accepts an untouched chain, one stretch at a time', async () => {
+      const firstStretch = await verifyAuditChain(undefined, 2);
+
+      expect(firstStretch).toEqual({
+        checked: 2,
+        valid: true,
+        brokenAt: null,
+        cursor: '2-0',
+      });
+
+      const rest = await verifyAuditChain(firstStretch.cursor!, 2);
+
+      expect(rest).toEqual({
+        checked: 1,
+        valid: true,
+        brokenAt: null,
+        cursor: null,
+      });
+    });
+
+    it('reports the first edited entry', async () => {
+      const edited = stream[1][1];
+      edited[edited.indexOf('details') + 1] = JSON.stringify({
+        chatId: 'chat-9',
+      });
+
+      const result = await verifyAuditChain();
+
+      expect(result).toMatchObject({ valid: false, brokenAt: '2-0' });
+      expect(result.checked).toBe(1);
+    });
+
+    it('reports a deleted entry at the one after it', async () => {
+      stream.splice(1, 1);
+
+      const result = await verifyAuditChain();
+
+      expect(result).toMatchObject({ valid: false, brokenAt: '3-0' });
+      expect(field(stream[0], 'hash')).not.toBe(field(stream[1], 'prevHash'));
+    });
+  });
+});
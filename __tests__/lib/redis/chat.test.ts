@@ -1,23 +1,88 @@
 import * as chatOps from '@/lib/redis/chat';
 import { getRedisClient } from '@/lib/redis/client';
-import { chatMessagesKey } from '@/lib/redis/keys';
+import {
+  chatKey,
+  chatMessageDataKey,
+  chatMessageIndexKey,
+  chatMessagesKey,
+  userChatsKey,
+} from '@/lib/redis/keys';
+import { indexMessage, removeMessagesFromIndex } from '@/lib/redis/search';
+import { deleteChatShareLinks } from '@/lib/redis/share';
+import {
+  scheduleChatRetention,
+  unscheduleChatRetention,
+} from '@/lib/redis/retention';
+import {
+  migrateLegacyChat,
+  migrateLegacyUserChats,
+} from '@/lib/redis/tenant-migration';
 import type { MessageModel, ChatModel } from '@/types/models';
 
 jest.mock('@/lib/redis/client', () => ({
   getRedisClient: jest.fn(),
 }));
 
+jest.mock('@/lib/redis/search', () => ({
+  indexMessage: jest.fn(),
+  removeMessagesFromIndex: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/share', () => ({
+  deleteChatShareLinks: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/retention', () => ({
+  scheduleChatRetention: jest.fn(),
+  unscheduleChatRetention: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/tenant-migration', () => ({
+  migrateLegacyChat: jest.fn().mockResolvedValue('missing'),
+  migrateLegacyUserChats: jest
+    .fn()
+    .mockResolvedValue({ migrated: 0, skipped: 0 }),
+}));
+
+const TENANT = 'tenant-1';
+
+function createMultiMock(): Record<string, jest.Mock> {
+  const multi: Record<string, jest.Mock> = {
+    exec: jest.fn().mockResolvedValue([]),
+  };
+  ['hset', 'hsetnx', 'zadd', 'del'].forEach((command) => {
+    multi[command] = jest.fn(() => multi);
+  });
+  return multi;
+}
+
+const mockMulti = createMultiMock();
+
 function createRedisMock(): Record<string, jest.Mock> {
   return {
+    multi: jest.fn(() => mockMulti),
+    exists: jest.fn(),
+    hget: jest.fn(),
+    hset: jest.fn(),
+    hmget: jest.fn(),
+    hvals: jest.fn(),
+    zrange: jest.fn(),
+    zrevrange: jest.fn(),
+    zrevrank: jest.fn(),
     rpush: jest.fn(),
     lrange: jest.fn(),
     lset: jest.fn(),
     get: jest.fn(),
+    set: jest.fn(),
     setex: jest.fn(),
     del: jest.fn(),
     srem: jest.fn(),
     smembers: jest.fn(),
     mget: jest.fn(),
+    llen: jest.fn(),
+    sismember: jest.fn(),
+    sadd: jest.fn(),
+    scan: jest.fn(),
   };
 }
 
@@ -37,6 +102,13 @@ const baseMessage = (): MessageModel => ({
   updatedAt: new Date(),
 });
 
+const serializeMessage = (message: MessageModel): string =>
+  JSON.stringify({
+    ...message,
+    createdAt: message.createdAt.toISOString(),
+    updatedAt: message.updatedAt.toISOString(),
+  });
+
 const baseChatRecord = (): ChatModel => ({
   id: 'chat-123',
   userId: 'user-1',
@@ -57,81 +129,454 @@ describe('Redis Chat Operations', () => {
       const message = baseMessage();
       const chatRecord = baseChatRecord();
 
-      mockRedis.rpush.mockResolvedValue(1);
       mockRedis.get.mockResolvedValue(JSON.stringify(chatRecord));
-      mockRedis.setex.mockResolvedValue('OK');
+      mockRedis.set.mockResolvedValue('OK');
 
-      const result = await chatOps.addMessage(message.chatId, message);
+      const result = await chatOps.addMessage(TENANT, message.chatId, message);
 
       expect(result).toBe(true);
-      expect(mockRedis.rpush).toHaveBeenCalledWith(
-        chatMessagesKey(message.chatId),
+      expect(mockMulti.hset).toHaveBeenCalledWith(
+        chatMessageDataKey(TENANT, message.chatId),
+        message.id,
+        JSON.stringify(message),
+      );
+      expect(mockMulti.zadd).toHaveBeenCalledWith(
+        chatMessageIndexKey(TENANT, message.chatId),
+        message.createdAt.getTime(),
+        message.id,
+      );
+      expect(mockRedis.rpush).not.toHaveBeenCalled();
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        chatKey(TENANT, chatRecord.id),
+        expect.any(String),
+      );
+      expect(scheduleChatRetention).toHaveBeenCalledWith(
+        expect.objectContaining({ id: chatRecord.id }),
+      );
+      expect(indexMessage).toHaveBeenCalledWith(chatRecord.userId, message);
+    });
+
+    it('upgrades a chat still on the legacy list first', async () => {
+      const legacy = { ...baseMessage(), id: 'msg-0' };
+      const message = baseMessage();
+
+      mockRedis.exists.mockResolvedValueOnce(1);
+      mockRedis.lrange.mockResolvedValue([serializeMessage(legacy)]);
+      mockRedis.get.mockResolvedValue(JSON.stringify(baseChatRecord()));
+
+      await chatOps.addMessage(TENANT, message.chatId, message);
+
+      expect(mockMulti.hsetnx).toHaveBeenCalledWith(
+        chatMessageDataKey(TENANT, message.chatId),
+        legacy.id,
+        serializeMessage(legacy),
+      );
+      expect(mockMulti.del).toHaveBeenCalledWith(
+        chatMessagesKey(TENANT, message.chatId),
+      );
+      expect(mockMulti.hset).toHaveBeenCalledWith(
+        chatMessageDataKey(TENANT, message.chatId),
+        message.id,
         JSON.stringify(message),
       );
-      expect(mockRedis.setex).toHaveBeenCalled();
     });
   });
 
-  describe('getChatMessages', () => {
-    it('returns parsed messages', async () => {
+  describe('deleteChat', () => {
+    it('removes the chat messages from the search index', async () => {
       const message = baseMessage();
-      mockRedis.lrange.mockResolvedValue([
-        JSON.stringify({
-          ...message,
-          createdAt: message.createdAt.toISOString(),
-          updatedAt: message.updatedAt.toISOString(),
-        }),
+      const chatRecord = baseChatRecord();
+
+      mockRedis.get.mockResolvedValue(JSON.stringify(chatRecord));
+      mockRedis.hvals.mockResolvedValue([JSON.stringify(message)]);
+
+      const result = await chatOps.deleteChat(TENANT, chatRecord.id);
+
+      expect(result).toBe(true);
+      expect(removeMessagesFromIndex).toHaveBeenCalledWith(chatRecord.userId, [
+        expect.objectContaining({ id: message.id, content: message.content }),
       ]);
+      expect(mockRedis.del).toHaveBeenCalledWith(
+        chatKey(TENANT, chatRecord.id),
+      );
+      expect(mockRedis.del).toHaveBeenCalledWith(
+        chatMessageDataKey(TENANT, chatRecord.id),
+        chatMessageIndexKey(TENANT, chatRecord.id),
+        chatMessagesKey(TENANT, chatRecord.id),
+      );
+    });
+
+    it('revokes the chat share links', async () => {
+      const chatRecord = baseChatRecord();
+
+      mockRedis.get.mockResolvedValue(JSON.stringify(chatRecord));
+      mockRedis.hvals.mockResolvedValue([]);
+
+      await chatOps.deleteChat(TENANT, chatRecord.id);
+
+      expect(deleteChatShareLinks).toHaveBeenCalledWith(chatRecord.id);
+      expect(unscheduleChatRetention).toHaveBeenCalledWith(
+        TENANT,
+        chatRecord.id,
+      );
+    });
+
+    it('refuses to delete a chat under legal hold', async () => {
+      const chatRecord = { ...baseChatRecord(), legalHold: true };
+
+      mockRedis.get.mockResolvedValue(JSON.stringify(chatRecord));
+
+      const result = await chatOps.deleteChat(TENANT, chatRecord.id);
+
+      expect(result).toBe(false);
+      expect(mockRedis.del).not.toHaveBeenCalled();
+      expect(mockRedis.srem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setChatLegalHold', () => {
+    it('stores the hold without counting it as activity', async () => {
+      const chatRecord = baseChatRecord();
+      mockRedis.get.mockResolvedValue(JSON.stringify(chatRecord));
+
+      const held = await chatOps.setChatLegalHold(TENANT, chatRecord.id, true);
+
+      expect(held?.legalHold).toBe(true);
+      expect(held?.updatedAt).toEqual(chatRecord.updatedAt);
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        chatKey(TENANT, chatRecord.id),
+        expect.stringContaining('"legalHold":true'),
+      );
+      expect(scheduleChatRetention).toHaveBeenCalledWith(held);
+    });
+
+    it('returns null for a missing chat', async () => {
+      mockRedis.get.mockResolvedValue(null);
+
+      expect(
+        await chatOps.setChatLegalHold(TENANT, 'chat-missing', true),
+      ).toBeNull();
+      expect(mockRedis.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getChat', () => {
+    it('moves a chat stored before keys were tenant-scoped on first read', async () => {
+      const chatRecord = { ...baseChatRecord(), tenantId: TENANT };
+      mockRedis.get
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(JSON.stringify(chatRecord));
+      (migrateLegacyChat as jest.Mock).mockResolvedValueOnce('migrated');
+
+      const chat = await chatOps.getChat(TENANT, chatRecord.id);
+
+      expect(migrateLegacyChat).toHaveBeenCalledWith(chatRecord.id);
+      expect(mockRedis.get).toHaveBeenLastCalledWith(
+        chatKey(TENANT, chatRecord.id),
+      );
+      expect(chat?.tenantId).toBe(TENANT);
+    });
+
+    it('returns null when there is nothing to move', async () => {
+      mockRedis.get.mockResolvedValue(null);
+
+      expect(await chatOps.getChat(TENANT, 'chat-missing')).toBeNull();
+      expect(mockRedis.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scanChats', () => {
+    it('lists chat records with their tenant and skips message keys', async () => {
+      mockRedis.scan.mockResolvedValue([
+        '12',
+        [
+          chatKey(TENANT, 'chat-1'),
+          chatMessagesKey(TENANT, 'chat-1'),
+          chatKey(undefined, 'chat-2'),
+        ],
+      ]);
+
+      const page = await chatOps.scanChats('0', 100);
+
+      expect(mockRedis.scan).toHaveBeenCalledWith(
+        '0',
+        'MATCH',
+        'tenant:*:chat:*',
+        'COUNT',
+        100,
+      );
+      expect(page).toEqual({
+        cursor: '12',
+        chats: [
+          { tenantId: TENANT, chatId: 'chat-1' },
+          { tenantId: 'default', chatId: 'chat-2' },
+        ],
+      });
+    });
+  });
+
+  describe('getUserChats', () => {
+    it('moves the legacy chat list into the tenant first', async () => {
+      mockRedis.smembers.mockResolvedValue([]);
 
-      const messages = await chatOps.getChatMessages(message.chatId);
+      await chatOps.getUserChats(TENANT, 'user-1');
 
-      expect(messages).toHaveLength(1);
-      expect(messages[0].id).toBe(message.id);
+      expect(migrateLegacyUserChats).toHaveBeenCalledWith('user-1', {
+        tenantId: TENANT,
+      });
+      expect(mockRedis.smembers).toHaveBeenCalledWith(
+        userChatsKey(TENANT, 'user-1'),
+      );
+    });
+
+    it('prunes index entries whose chat record is gone', async () => {
+      const chatRecord = baseChatRecord();
+      mockRedis.smembers.mockResolvedValue([chatRecord.id, 'chat-expired']);
+      mockRedis.mget.mockResolvedValue([JSON.stringify(chatRecord), null]);
+
+      const chats = await chatOps.getUserChats(TENANT, chatRecord.userId);
+
+      expect(chats.map((chat) => chat.id)).toEqual([chatRecord.id]);
+      expect(mockRedis.srem).toHaveBeenCalledWith(
+        userChatsKey(TENANT, chatRecord.userId),
+        'chat-expired',
+      );
+      expect(mockRedis.del).toHaveBeenCalledWith(
+        chatMessageDataKey(TENANT, 'chat-expired'),
+        chatMessageIndexKey(TENANT, 'chat-expired'),
+        chatMessagesKey(TENANT, 'chat-expired'),
+      );
+    });
+  });
+
+  describe('importChat', () => {
+    it('writes the chat, its messages and the user index together', async () => {
+      const chat = baseChatRecord();
+      const message = baseMessage();
+      mockRedis.get.mockResolvedValue(null);
+      mockRedis.llen.mockResolvedValue(0);
+      mockRedis.sismember.mockResolvedValue(0);
+
+      const imported = await chatOps.importChat(TENANT, chat, [message]);
+
+      expect(imported).toBe(chat);
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        chatKey(TENANT, chat.id),
+        JSON.stringify(chat),
+      );
+      expect(mockMulti.hset).toHaveBeenCalledWith(
+        chatMessageDataKey(TENANT, chat.id),
+        message.id,
+        JSON.stringify(message),
+      );
+      expect(mockMulti.zadd).toHaveBeenCalledWith(
+        chatMessageIndexKey(TENANT, chat.id),
+        message.createdAt.getTime(),
+        message.id,
+      );
+      expect(mockMulti.exec).toHaveBeenCalled();
+      expect(mockRedis.sadd).toHaveBeenCalledWith(
+        userChatsKey(TENANT, chat.userId),
+        chat.id,
+      );
+      expect(indexMessage).toHaveBeenCalledWith(chat.userId, message);
+      expect(scheduleChatRetention).toHaveBeenCalledWith(chat);
+    });
+
+    it('rolls back and skips indexing when a write fails', async () => {
+      const chat = baseChatRecord();
+      mockRedis.get.mockResolvedValue(null);
+      mockRedis.llen.mockResolvedValue(0);
+      mockRedis.sismember.mockRejectedValue(new Error('Redis down'));
+
+      await expect(
+        chatOps.importChat(TENANT, chat, [baseMessage()]),
+      ).rejects.toThrow('Redis down');
+
+      expect(mockRedis.del).toHaveBeenCalledWith(chatKey(TENANT, chat.id));
+      expect(mockMulti.exec).not.toHaveBeenCalled();
+      expect(indexMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getChatMessages', () => {
+    it('returns parsed messages in index order', async () => {
+      const first = baseMessage();
+      const second = { ...baseMessage(), id: 'msg-2' };
+      mockRedis.zrange.mockResolvedValue([first.id, second.id]);
+      mockRedis.hmget.mockResolvedValue([
+        serializeMessage(first),
+        serializeMessage(second),
+      ]);
+
+      const messages = await chatOps.getChatMessages(
+        TENANT,
+        first.chatId,
+        10,
+        20,
+      );
+
+      expect(mockRedis.zrange).toHaveBeenCalledWith(
+        chatMessageIndexKey(TENANT, first.chatId),
+        10,
+        29,
+      );
+      expect(mockRedis.hmget).toHaveBeenCalledWith(
+        chatMessageDataKey(TENANT, first.chatId),
+        first.id,
+        second.id,
+      );
+      expect(messages.map((message) => message.id)).toEqual([
+        first.id,
+        second.id,
+      ]);
       expect(messages[0].createdAt).toBeInstanceOf(Date);
     });
 
     it('returns empty array when Redis fails', async () => {
-      mockRedis.lrange.mockRejectedValue(new Error('Redis error'));
+      mockRedis.zrange.mockRejectedValueOnce(new Error('Redis error'));
 
-      const messages = await chatOps.getChatMessages('chat-missing');
+      const messages = await chatOps.getChatMessages(TENANT, 'chat-missing');
 
       expect(messages).toEqual([]);
     });
   });
 
+  describe('getChatMessagePage', () => {
+    const ids = ['msg-5', 'msg-4', 'msg-3'];
+
+    beforeEach(() => {
+      mockRedis.hmget.mockImplementation(
+        async (_key: string, ...messageIds: string[]) =>
+          messageIds.map((id) => serializeMessage({ ...baseMessage(), id })),
+      );
+    });
+
+    it('returns the newest page oldest first with a cursor', async () => {
+      mockRedis.zrevrange.mockResolvedValue(ids);
+
+      const page = await chatOps.getChatMessagePage(
+        TENANT,
+        'chat-123',
+        undefined,
+        2,
+      );
+
+      expect(mockRedis.zrevrange).toHaveBeenCalledWith(
+        chatMessageIndexKey(TENANT, 'chat-123'),
+        0,
+        2,
+      );
+      expect(page.messages.map((message) => message.id)).toEqual([
+        'msg-4',
+        'msg-5',
+      ]);
+      expect(page.nextCursor).toBe('msg-4');
+    });
+
+    it('pages back from the cursor and stops at the start', async () => {
+      mockRedis.zrevrank.mockResolvedValue(1);
+      mockRedis.zrevrange.mockResolvedValue(['msg-3']);
+
+      const page = await chatOps.getChatMessagePage(
+        TENANT,
+        'chat-123',
+        'msg-4',
+        2,
+      );
+
+      expect(mockRedis.zrevrange).toHaveBeenCalledWith(
+        chatMessageIndexKey(TENANT, 'chat-123'),
+        2,
+        4,
+      );
+      expect(page.messages.map((message) => message.id)).toEqual(['msg-3']);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('returns an empty page for an unknown cursor', async () => {
+      mockRedis.zrevrank.mockResolvedValue(null);
+
+      const page = await chatOps.getChatMessagePage(
+        TENANT,
+        'chat-123',
+        'msg-gone',
+      );
+
+      expect(page).toEqual({ messages: [], nextCursor: null });
+      expect(mockRedis.zrevrange).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateMessageStatus', () => {
-    it('updates the status of a stored message', async () => {
+    it('rewrites only the stored message', async () => {
       const message = baseMessage();
-      mockRedis.lrange.mockResolvedValue([
-        JSON.stringify({
-          ...message,
-          createdAt: message.createdAt.toISOString(),
-          updatedAt: message.updatedAt.toISOString(),
-        }),
-      ]);
-      mockRedis.lset.mockResolvedValue('OK');
+      mockRedis.hget.mockResolvedValue(serializeMessage(message));
 
       const updated = await chatOps.updateMessageStatus(
+        TENANT,
         message.chatId,
         message.id,
         'read',
       );
 
       expect(updated).toBe(true);
-      expect(mockRedis.lset).toHaveBeenCalledWith(
-        chatMessagesKey(message.chatId),
-        0,
+      expect(mockRedis.hget).toHaveBeenCalledWith(
+        chatMessageDataKey(TENANT, message.chatId),
+        message.id,
+      );
+      expect(mockRedis.hset).toHaveBeenCalledWith(
+        chatMessageDataKey(TENANT, message.chatId),
+        message.id,
         expect.stringContaining('"status":"read"'),
       );
+      expect(mockRedis.lrange).not.toHaveBeenCalled();
     });
 
     it('returns false when message is missing', async () => {
-      mockRedis.lrange.mockResolvedValue([]);
+      mockRedis.hget.mockResolvedValue(null);
 
-      const updated = await chatOps.updateMessageStatus('chat-123', 'missing', 'read');
+      const updated = await chatOps.updateMessageStatus(
+        TENANT,
+        'chat-123',
+        'missing',
+        'read',
+      );
 
       expect(updated).toBe(false);
-      expect(mockRedis.lset).not.toHaveBeenCalled();
+      expect(mockRedis.hset).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upgradeLegacyMessages', () => {
+    it('moves the list into the hash and index without overwriting', async () => {
+      const message = baseMessage();
+      mockRedis.lrange.mockResolvedValue([serializeMessage(message)]);
+
+      const moved = await chatOps.upgradeLegacyMessages(TENANT, message.chatId);
+
+      expect(moved).toBe(1);
+      expect(mockMulti.hsetnx).toHaveBeenCalledWith(
+        chatMessageDataKey(TENANT, message.chatId),
+        message.id,
+        serializeMessage(message),
+      );
+      expect(mockMulti.zadd).toHaveBeenCalledWith(
+        chatMessageIndexKey(TENANT, message.chatId),
+        'NX',
+        message.createdAt.getTime(),
+        message.id,
+      );
+      expect(mockMulti.del).toHaveBeenCalledWith(
+        chatMessagesKey(TENANT, message.chatId),
+      );
+    });
+
+    it('does nothing for chats without a legacy list', async () => {
+      mockRedis.lrange.mockResolvedValue([]);
+
+      expect(await chatOps.upgradeLegacyMessages(TENANT, 'chat-123')).toBe(0);
+      expect(mockRedis.multi).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,63 @@
+import { backfillMessageStore } from '@/lib/redis/message-backfill';
+import { getRedisClient } from '@/lib/redis/client';
+import { upgradeLegacyMessages } from '@/lib/redis/chat';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  upgradeLegacyMessages: jest.fn(),
+}));
+
+const mockRedis = { scan: jest.fn() };
+
+describe('backfillMessageStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+  });
+
+  it('upgrades every legacy list in the scanned page', async () => {
+    mockRedis.scan.mockResolvedValue([
+      '17',
+      ['tenant:t1:chat:messages:chat-1', 'tenant:t2:chat:messages:chat-2'],
+    ]);
+    (upgradeLegacyMessages as jest.Mock)
+      .mockResolvedValueOnce(3)
+      .mockResolvedValueOnce(0);
+
+    const batch = await backfillMessageStore('5', 50);
+
+    expect(mockRedis.scan).toHaveBeenCalledWith(
+      '5',
+      'MATCH',
+      'tenant:*:chat:messages:*',
+      'COUNT',
+      50,
+    );
+    expect(upgradeLegacyMessages).toHaveBeenCalledWith('t1', 'chat-1');
+    expect(upgradeLegacyMessages).toHaveBeenCalledWith('t2', 'chat-2');
+    expect(batch).toEqual({
+      cursor: '17',
+      upgradedChats: 1,
+      upgradedMessages: 3,
+      failedChatIds: [],
+    });
+  });
+
+  it('reports chats that could not be upgraded and carries on', async () => {
+    mockRedis.scan.mockResolvedValue([
+      '0',
+      ['tenant:t1:chat:messages:chat-1', 'tenant:t2:chat:messages:chat-2'],
+    ]);
+    (upgradeLegacyMessages as jest.Mock)
+      .mockRejectedValueOnce(new Error('corrupt entry'))
+      .mockResolvedValueOnce(2);
+
+    const batch = await backfillMessageStore();
+
+    expect(batch.failedChatIds).toEqual(['chat-1']);
+    expect(batch.upgradedChats).toBe(1);
+  });
+});
@@ -0,0 +1,77 @@
+import * as personaOps from '@/lib/redis/persona';
+import { getRedisClient } from '@/lib/redis/client';
+import { personaKey, userPersonasKey } from '@/lib/redis/keys';
+import type { PersonaModel } from '@/types/models';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+const mockRedis = {
+  get: jest.fn(),
+  del: jest.fn(),
+  srem: jest.fn(),
+  smembers: jest.fn(),
+  mget: jest.fn(),
+};
+
+const buildPersona = (overrides: Partial<PersonaModel> = {}): PersonaModel => ({
+  id: 'persona-1',
+  userId: 'user-1',
+  name: 'Reviewer',
+  systemPrompt: 'You are a strict code reviewer.',
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+describe('Redis Persona Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+  });
+
+  describe('getUserPersonas', () => {
+    it('returns hydrated personas sorted by name and skips missing entries', async () => {
+      mockRedis.smembers.mockResolvedValue(['persona-1', 'persona-2', 'gone']);
+      mockRedis.mget.mockResolvedValue([
+        JSON.stringify(buildPersona({ id: 'persona-1', name: 'Writer' })),
+        JSON.stringify(buildPersona({ id: 'persona-2', name: 'Analyst' })),
+        null,
+      ]);
+
+      const personas = await personaOps.getUserPersonas('user-1');
+
+      expect(mockRedis.smembers).toHaveBeenCalledWith(
+        userPersonasKey('user-1'),
+      );
+      expect(personas.map((persona) => persona.name)).toEqual([
+        'Analyst',
+        'Writer',
+      ]);
+      expect(personas[0].createdAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('deletePersona', () => {
+    it('removes the persona and its index entry', async () => {
+      mockRedis.get.mockResolvedValue(JSON.stringify(buildPersona()));
+
+      const result = await personaOps.deletePersona('persona-1');
+
+      expect(result).toBe(true);
+      expect(mockRedis.del).toHaveBeenCalledWith(personaKey('persona-1'));
+      expect(mockRedis.srem).toHaveBeenCalledWith(
+        userPersonasKey('user-1'),
+        'persona-1',
+      );
+    });
+
+    it('returns false when the persona does not exist', async () => {
+      mockRedis.get.mockResolvedValue(null);
+
+      await expect(personaOps.deletePersona('missing')).resolves.toBe(false);
+      expect(mockRedis.del).not.toHaveBeenCalled();
+    });
+  });
+});
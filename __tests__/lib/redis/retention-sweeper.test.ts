@@ -0,0 +1,130 @@
+import { sweepExpiredChats } from '@/lib/redis/retention-sweeper';
+import { getRedisClient } from '@/lib/redis/client';
+import { chatMessageStoreKeys } from '@/lib/redis/keys';
+import { deleteChat, getChat } from '@/lib/redis/chat';
+import {
+  getDueChats,
+  getEffectiveRetentionPolicy,
+  scheduleChatRetention,
+  unscheduleChatRetention,
+} from '@/lib/redis/retention';
+import type { ChatModel } from '@/types/models';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  getChat: jest.fn(),
+  deleteChat: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/retention', () => ({
+  getDueChats: jest.fn(),
+  getEffectiveRetentionPolicy: jest.fn(),
+  scheduleChatRetention: jest.fn(),
+  unscheduleChatRetention: jest.fn(),
+}));
+
+const mockRedis = { del: jest.fn() };
+
+const TENANT = 'tenant-1';
+
+const NOW = new Date('2024-06-01T00:00:00.000Z');
+
+const chatRecord = (overrides: Partial<ChatModel> = {}): ChatModel => ({
+  id: 'chat-1',
+  userId: 'user-1',
+  title: 'Chat',
+  archived: false,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+describe('sweepExpiredChats', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+    (getEffectiveRetentionPolicy as jest.Mock).mockResolvedValue({
+      mode: 'since_activity',
+      days: 30,
+    });
+    (deleteChat as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('purges chats that are past their expiry', async () => {
+    (getDueChats as jest.Mock).mockResolvedValue([
+      { tenantId: TENANT, chatId: 'chat-1' },
+    ]);
+    (getChat as jest.Mock).mockResolvedValue(chatRecord());
+
+    const result = await sweepExpiredChats(NOW, 10);
+
+    expect(getChat).toHaveBeenCalledWith(TENANT, 'chat-1');
+    expect(deleteChat).toHaveBeenCalledWith(TENANT, 'chat-1');
+    expect(result).toEqual({
+      scanned: 1,
+      purged: 1,
+      rescheduled: 0,
+      failed: 0,
+      hasMore: false,
+    });
+  });
+
+  it('reschedules chats whose policy now keeps them longer', async () => {
+    const chat = chatRecord();
+    (getDueChats as jest.Mock).mockResolvedValue([
+      { tenantId: TENANT, chatId: 'chat-1' },
+    ]);
+    (getChat as jest.Mock).mockResolvedValue(chat);
+    (getEffectiveRetentionPolicy as jest.Mock).mockResolvedValue({
+      mode: 'forever',
+    });
+
+    const result = await sweepExpiredChats(NOW, 10);
+
+    expect(deleteChat).not.toHaveBeenCalled();
+    expect(scheduleChatRetention).toHaveBeenCalledWith(chat);
+    expect(result.rescheduled).toBe(1);
+  });
+
+  it('never purges chats under legal hold', async () => {
+    (getDueChats as jest.Mock).mockResolvedValue([
+      { tenantId: TENANT, chatId: 'chat-1' },
+    ]);
+    (getChat as jest.Mock).mockResolvedValue(chatRecord({ legalHold: true }));
+
+    const result = await sweepExpiredChats(NOW, 10);
+
+    expect(deleteChat).not.toHaveBeenCalled();
+    expect(result.purged).toBe(0);
+  });
+
+  it('cleans up messages left by a chat record that is already gone', async () => {
+    (getDueChats as jest.Mock).mockResolvedValue([
+      { tenantId: TENANT, chatId: 'chat-gone' },
+    ]);
+    (getChat as jest.Mock).mockResolvedValue(null);
+
+    await sweepExpiredChats(NOW, 10);
+
+    expect(mockRedis.del).toHaveBeenCalledWith(
+      ...chatMessageStoreKeys(TENANT, 'chat-gone'),
+    );
+    expect(unscheduleChatRetention).toHaveBeenCalledWith(TENANT, 'chat-gone');
+  });
+
+  it('counts failed deletions and reports a full batch', async () => {
+    (getDueChats as jest.Mock).mockResolvedValue([
+      { tenantId: TENANT, chatId: 'chat-1' },
+    ]);
+    (getChat as jest.Mock).mockResolvedValue(chatRecord());
+    (deleteChat as jest.Mock).mockResolvedValue(false);
+
+    const result = await sweepExpiredChats(NOW, 1);
+
+    expect(result.failed).toBe(1);
+    expect(result.hasMore).toBe(true);
+  });
+});
@@ -0,0 +1,177 @@
+import * as retentionOps from '@/lib/redis/retention';
+import { getRedisClient } from '@/lib/redis/client';
+import {
+  RETENTION_SCHEDULE_KEY,
+  tenantRetentionPolicyKey,
+  tenantUsersKey,
+  userRetentionPolicyKey,
+} from '@/lib/redis/keys';
+import type { ChatModel } from '@/types/models';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+const mockRedis = {
+  get: jest.fn(),
+  set: jest.fn(),
+  del: jest.fn(),
+  sadd: jest.fn(),
+  smembers: jest.fn(),
+  zadd: jest.fn(),
+  zrem: jest.fn(),
+  zrangebyscore: jest.fn(),
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const baseChat = (): ChatModel => ({
+  id: 'chat-1',
+  userId: 'user-1',
+  title: 'Chat',
+  archived: false,
+  tenantId: 'tenant-1',
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-02-01T00:00:00.000Z'),
+});
+
+const storePolicies = (policies: Record<string, unknown>) => {
+  mockRedis.get.mockImplementation(async (key: string) =>
+    policies[key] ? JSON.stringify(policies[key]) : null,
+  );
+};
+
+describe('Redis Retention Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+    storePolicies({});
+  });
+
+  describe('setUserRetentionPolicy', () => {
+    it('stores a policy and clears it with null', async () => {
+      await retentionOps.setUserRetentionPolicy('user-1', { mode: 'forever' });
+      await retentionOps.setUserRetentionPolicy('user-1', null);
+
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        userRetentionPolicyKey('user-1'),
+        JSON.stringify({ mode: 'forever' }),
+      );
+      expect(mockRedis.del).toHaveBeenCalledWith(
+        userRetentionPolicyKey('user-1'),
+      );
+    });
+  });
+
+  describe('scheduleChatRetention', () => {
+    it('schedules by the tenant policy when the user has none', async () => {
+      storePolicies({
+        [tenantRetentionPolicyKey('tenant-1')]: {
+          mode: 'since_creation',
+          days: 7,
+        },
+      });
+      const chat = baseChat();
+
+      await retentionOps.scheduleChatRetention(chat);
+
+      expect(mockRedis.zadd).toHaveBeenCalledWith(
+        RETENTION_SCHEDULE_KEY,
+        chat.createdAt.getTime() + 7 * DAY_MS,
+        'tenant-1:chat-1',
+      );
+      expect(mockRedis.sadd).toHaveBeenCalledWith(
+        tenantUsersKey('tenant-1'),
+        'user-1',
+      );
+    });
+
+    it('lets the user policy override the tenant policy', async () => {
+      storePolicies({
+        [userRetentionPolicyKey('user-1')]: { mode: 'forever' },
+        [tenantRetentionPolicyKey('tenant-1')]: {
+          mode: 'since_creation',
+          days: 7,
+        },
+      });
+
+      await retentionOps.scheduleChatRetention(baseChat());
+
+      expect(mockRedis.zadd).not.toHaveBeenCalled();
+      expect(mockRedis.zrem).toHaveBeenCalledWith(
+        RETENTION_SCHEDULE_KEY,
+        'tenant-1:chat-1',
+      );
+    });
+
+    it('takes chats under legal hold off the schedule', async () => {
+      await retentionOps.scheduleChatRetention({
+        ...baseChat(),
+        legalHold: true,
+      });
+
+      expect(mockRedis.zrem).toHaveBeenCalledWith(
+        RETENTION_SCHEDULE_KEY,
+        'tenant-1:chat-1',
+      );
+    });
+
+    it('falls back to 30 days since activity', async () => {
+      const chat = { ...baseChat(), tenantId: undefined };
+
+      await retentionOps.scheduleChatRetention(chat);
+
+      expect(mockRedis.zadd).toHaveBeenCalledWith(
+        RETENTION_SCHEDULE_KEY,
+        chat.updatedAt.getTime() + 30 * DAY_MS,
+        'default:chat-1',
+      );
+      expect(mockRedis.sadd).not.toHaveBeenCalled();
+    });
+
+    it('reports failure instead of throwing', async () => {
+      mockRedis.zadd.mockRejectedValueOnce(new Error('Redis down'));
+
+      await expect(
+        retentionOps.scheduleChatRetention(baseChat()),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('unscheduleChatRetention', () => {
+    it('removes both the tenant entry and any legacy entry', async () => {
+      await retentionOps.unscheduleChatRetention('tenant-1', 'chat-1');
+
+      expect(mockRedis.zrem).toHaveBeenCalledWith(
+        RETENTION_SCHEDULE_KEY,
+        'tenant-1:chat-1',
+        'chat-1',
+      );
+    });
+  });
+
+  describe('getDueChats', () => {
+    it('reads the oldest due entries from the schedule', async () => {
+      mockRedis.zrangebyscore.mockResolvedValue([
+        'tenant-1:chat-1',
+        'chat-legacy',
+      ]);
+      const now = new Date('2024-05-01T00:00:00.000Z');
+
+      const chats = await retentionOps.getDueChats(now, 50);
+
+      expect(chats).toEqual([
+        { tenantId: 'tenant-1', chatId: 'chat-1' },
+        { tenantId: 'default', chatId: 'chat-legacy' },
+      ]);
+      expect(mockRedis.zrangebyscore).toHaveBeenCalledWith(
+        RETENTION_SCHEDULE_KEY,
+        '-inf',
+        now.getTime(),
+        'LIMIT',
+        0,
+        50,
+      );
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import * as searchOps from '@/lib/redis/search';
+import { getRedisClient } from '@/lib/redis/client';
+import { searchDocKey, searchTermKey } from '@/lib/redis/keys';
+import { createWriteThroughChatRepository } from '@/lib/chat/repository/write-through';
+import { createRedisChatRepository } from '@/lib/chat/repository/redis';
+import { createSqliteChatRepository } from '@/lib/chat/repository/sqlite';
+import type { ChatModel, MessageModel } from '@/types/models';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/chat', () => ({
+  evictChat: jest.fn(),
+}));
+
+jest.mock('@/lib/chat/repository/redis', () => {
+  const cache = { getChat: jest.fn(), importChat: jest.fn() };
+  return { createRedisChatRepository: jest.fn(() => cache) };
+});
+
+jest.mock('@/lib/chat/repository/sqlite', () => {
+  const store = { getChat: jest.fn(), getChatMessages: jest.fn() };
+  return { createSqliteChatRepository: jest.fn(() => store) };
+});
+
+const mockPipeline = {
+  set: jest.fn().mockReturnThis(),
+  zadd: jest.fn().mockReturnThis(),
+  zrem: jest.fn().mockReturnThis(),
+  del: jest.fn().mockReturnThis(),
+  zinterstore: jest.fn().mockReturnThis(),
+  expire: jest.fn().mockReturnThis(),
+  exec: jest.fn(),
+};
+
+const mockRedis = {
+  multi: jest.fn(() => mockPipeline),
+  zrevrangebyscore: jest.fn(),
+  mget: jest.fn(),
+  del: jest.fn(),
+};
+
+const chat: ChatModel = {
+  id: 'chat-1',
+  userId: 'user-1',
+  title: 'Infra',
+  archived: false,
+  createdAt: new Date('2024-05-01T09:00:00.000Z'),
+  updatedAt: new Date('2024-05-01T09:00:00.000Z'),
+};
+
+const mockChats = { getChat: jest.fn() };
+
+const createdAt = new Date('2024-05-01T10:00:00.000Z');
+
+const buildMessage = (overrides: Partial<MessageModel> = {}): MessageModel => ({
+  id: 'msg-1',
+  chatId: 'chat-1',
+  role: 'user',
+  content: 'How do I structure Terraform modules?',
+  status: 'sent',
+  parentMessageId: null,
+  metadata: null,
+  createdAt,
+  updatedAt: createdAt,
+  ...overrides,
+});
+
+const storedDoc = (message: MessageModel) =>
+  JSON.stringify({
+    messageId: message.id,
+    chatId: message.chatId,
+    role: message.role,
+    content: message.content,
+    createdAt: message.createdAt.toISOString(),
+  });
+
+describe('Redis Search Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+    mockPipeline.exec.mockResolvedValue([]);
+    mockRedis.del.mockResolvedValue(1);
+    mockRedis.zrevrangebyscore.mockResolvedValue([]);
+    mockChats.getChat.mockResolvedValue(chat);
+  });
+
+  describe('indexMessage', () => {
+    it('stores the document and scores each term by creation time', async () => {
+      const message = buildMessage();
+
+      await expect(searchOps.indexMessage('user-1', message)).resolves.toBe(
+        true,
+      );
+
+      expect(mockPipeline.set).toHaveBeenCalledWith(
+        searchDocKey('msg-1'),
+        storedDoc(message),
+      );
+      expect(mockPipeline.zadd).toHaveBeenCalledWith(
+        searchTermKey('user-1', 'terraform'),
+        createdAt.getTime(),
+        'msg-1',
+      );
+    });
+
+    it('reports failures without throwing', async () => {
+      mockPipeline.exec.mockRejectedValue(new Error('Redis down'));
+
+      await expect(
+        searchOps.indexMessage('user-1', buildMessage()),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('searchMessages', () => {
+    it('intersects the terms in Redis and returns matches with snippets', async () => {
+      const match = buildMessage();
+      mockRedis.zrevrangebyscore.mockResolvedValueOnce(['msg-1']);
+      mockRedis.mget.mockResolvedValueOnce([storedDoc(match)]);
+
+      const { results, total, truncated } = await searchOps.searchMessages(
+        mockChats,
+        'user-1',
+        {
+          query: 'terraform modules',
+          offset: 0,
+          limit: 10,
+        },
+      );
+
+      const [matchesKey] = mockPipeline.zinterstore.mock.calls[0];
+      expect(mockPipeline.zinterstore).toHaveBeenCalledWith(
+        matchesKey,
+        2,
+        searchTermKey('user-1', 'terraform'),
+        searchTermKey('user-1', 'modules'),
+        'AGGREGATE',
+        'MAX',
+      );
+      expect(mockPipeline.expire).toHaveBeenCalledWith(
+        matchesKey,
+        expect.any(Number),
+      );
+      expect(mockRedis.zrevrangebyscore).toHaveBeenCalledWith(
+        matchesKey,
+        '+inf',
+        '-inf',
+        'LIMIT',
+        0,
+        expect.any(Number),
+      );
+      expect(mockRedis.mget).toHaveBeenCalledWith([searchDocKey('msg-1')]);
+      expect(mockChats.getChat).toHaveBeenCalledWith('chat-1');
+      expect(mockRedis.del).toHaveBeenCalledWith(matchesKey);
+      expect(total).toBe(1);
+      expect(truncated).toBe(false);
+      expect(results[0]).toMatchObject({
+        messageId: 'msg-1',
+        chatTitle: 'Infra',
+        snippet: match.content,
+        highlights: [
+          [19, 28],
+          [29, 36],
+        ],
+      });
+    });
+
+    it('applies date range and role filters', async () => {
+      const from = new Date('2024-04-01T00:00:00.000Z');
+      mockRedis.zrevrangebyscore.mockResolvedValueOnce(['msg-1']);
+      mockRedis.mget.mockResolvedValueOnce([storedDoc(buildMessage())]);
+
+      const { total } = await searchOps.searchMessages(mockChats, 'user-1', {
+        query: 'terraform',
+        role: 'assistant',
+        from,
+        offset: 0,
+        limit: 10,
+      });
+
+      expect(mockPipeline.zinterstore).not.toHaveBeenCalled();
+      expect(mockRedis.zrevrangebyscore).toHaveBeenCalledWith(
+        searchTermKey('user-1', 'terraform'),
+        '+inf',
+        from.getTime(),
+        'LIMIT',
+        0,
+        expect.any(Number),
+      );
+      expect(total).toBe(0);
+    });
+
+    it('reaches matches older than the first batch', async () => {
+      const older = buildMessage({ id: 'msg-older' });
+      const newer = Array.from({ length: 200 }, (_, i) => `msg-${i}`);
+      mockRedis.zrevrangebyscore
+        .mockResolvedValueOnce(newer)
+        .mockResolvedValueOnce(['msg-older']);
+      mockRedis.mget
+        .mockResolvedValueOnce(newer.map(() => null))
+        .mockResolvedValueOnce([storedDoc(older)]);
+
+      const { results, total } = await searchOps.searchMessages(
+        mockChats,
+        'user-1',
+        { query: 'terraform', offset: 0, limit: 10 },
+      );
+
+      expect(mockRedis.zrevrangebyscore).toHaveBeenLastCalledWith(
+        searchTermKey('user-1', 'terraform'),
+        '+inf',
+        '-inf',
+        'LIMIT',
+        200,
+        200,
+      );
+      expect(total).toBe(1);
+      expect(results[0].messageId).toBe('msg-older');
+    });
+
+    it('flags searches that stop before checking every match', async () => {
+      const batch = Array.from({ length: 200 }, (_, i) => `msg-${i}`);
+      mockRedis.zrevrangebyscore.mockResolvedValue(batch);
+      mockRedis.mget.mockResolvedValue(batch.map(() => null));
+
+      const { total, truncated } = await searchOps.searchMessages(
+        mockChats,
+        'user-1',
+        { query: 'terraform', offset: 0, limit: 10 },
+      );
+
+      expect(total).toBe(0);
+      expect(truncated).toBe(true);
+    });
+
+    it('skips hits from chats that no longer belong to the user', async () => {
+      mockRedis.zrevrangebyscore.mockResolvedValueOnce(['msg-1']);
+      mockRedis.mget.mockResolvedValueOnce([storedDoc(buildMessage())]);
+      mockChats.getChat.mockResolvedValue({ ...chat, userId: 'user-2' });
+
+      const { results } = await searchOps.searchMessages(mockChats, 'user-1', {
+        query: 'terraform',
+        offset: 0,
+        limit: 10,
+      });
+
+      expect(results).toEqual([]);
+    });
+
+    it('finds messages in chats SQLite holds but Redis no longer caches', async () => {
+      const repository = createWriteThroughChatRepository('tenant-1');
+      const cache = createRedisChatRepository('tenant-1') as unknown as Record<
+        string,
+        jest.Mock
+      >;
+      const store = createSqliteChatRepository('tenant-1') as unknown as Record<
+        string,
+        jest.Mock
+      >;
+      cache.getChat.mockResolvedValue(null);
+      store.getChat.mockResolvedValue(chat);
+      store.getChatMessages.mockResolvedValue([]);
+      mockRedis.zrevrangebyscore.mockResolvedValueOnce(['msg-1']);
+      mockRedis.mget.mockResolvedValueOnce([storedDoc(buildMessage())]);
+
+      const { results } = await searchOps.searchMessages(repository, 'user-1', {
+        query: 'terraform',
+        offset: 0,
+        limit: 10,
+      });
+
+      expect(store.getChat).toHaveBeenCalledWith('chat-1');
+      expect(results).toHaveLength(1);
+      expect(results[0].chatTitle).toBe('Infra');
+    });
+  });
+});
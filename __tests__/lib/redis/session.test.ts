@@ -1,18 +1,29 @@
 import * as sessionOps from '@/lib/redis/session';
 import { getRedisClient } from '@/lib/redis/client';
-import { sessionKey, userSessionsKey } from '@/lib/redis/keys';
+import { appendAuditEvent } from '@/lib/redis/audit';
+import {
+  sessionKey,
+  userSessionsKey,
+  userSignedOutAtKey,
+} from '@/lib/redis/keys';
 import type { SessionModel } from '@/types/models';
 
 jest.mock('@/lib/redis/client', () => ({
   getRedisClient: jest.fn(),
 }));
 
+jest.mock('@/lib/redis/audit', () => ({
+  appendAuditEvent: jest.fn(),
+}));
+
 const mockRedis = {
   setex: jest.fn(),
   sadd: jest.fn(),
   get: jest.fn(),
   del: jest.fn(),
   srem: jest.fn(),
+  smembers: jest.fn(),
+  multi: jest.fn(),
 };
 
 (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
@@ -105,4 +116,84 @@ describe('Redis Session Operations', () => {
       );
     });
   });
+
+  describe('rotateSession', () => {
+    it('replaces the session and records the rotation', async () => {
+      const stored = buildSessionRecord({
+        data: {
+          lastActivityAt: new Date(),
+          ipAddress: '203.0.113.7',
+          tenantId: 'tenant-1',
+        },
+      });
+      mockRedis.get.mockResolvedValue(JSON.stringify(stored));
+      mockRedis.setex.mockResolvedValue('OK');
+      mockRedis.sadd.mockResolvedValue(1);
+      mockRedis.del.mockResolvedValue(1);
+      mockRedis.srem.mockResolvedValue(1);
+
+      const rotated = await sessionOps.rotateSession(stored.id);
+
+      expect(rotated?.id).not.toBe(stored.id);
+      expect(rotated?.userId).toBe(stored.userId);
+      expect(mockRedis.del).toHaveBeenCalledWith(sessionKey(stored.id));
+      expect(appendAuditEvent).toHaveBeenCalledWith({
+        type: 'session.rotated',
+        actorId: 'user-123',
+        tenantId: 'tenant-1',
+        ip: '203.0.113.7',
+        details: {},
+      });
+    });
+  });
+
+  describe('revokeUserSessions', () => {
+    it('marks the sign-out time before deleting every session', async () => {
+      const multi = {
+        del: jest.fn(),
+        srem: jest.fn(),
+        exec: jest.fn().mockResolvedValue([]),
+      };
+      mockRedis.setex.mockResolvedValue('OK');
+      mockRedis.smembers.mockResolvedValue(['s1', 's2']);
+      mockRedis.multi.mockReturnValue(multi);
+      const now = new Date('2026-10-19T12:00:00.000Z');
+
+      const ended = await sessionOps.revokeUserSessions('user-123', now);
+
+      expect(ended).toBe(2);
+      expect(mockRedis.setex).toHaveBeenCalledWith(
+        userSignedOutAtKey('user-123'),
+        expect.any(Number),
+        String(now.getTime()),
+      );
+      expect(multi.del).toHaveBeenCalledWith(sessionKey('s1'), sessionKey('s2'));
+    });
+  });
+
+  describe('isTokenRevoked', () => {
+    const signedOutAt = Date.parse('2026-10-19T12:00:00.000Z');
+
+    it('refuses tokens issued up to the forced sign-out', async () => {
+      mockRedis.get.mockResolvedValue(String(signedOutAt));
+
+      await expect(
+        sessionOps.isTokenRevoked('user-123', signedOutAt / 1000 - 60),
+      ).resolves.toBe(true);
+      await expect(
+        sessionOps.isTokenRevoked('user-123', signedOutAt / 1000 + 60),
+      ).resolves.toBe(false);
+      expect(mockRedis.get).toHaveBeenCalledWith(
+        userSignedOutAtKey('user-123'),
+      );
+    });
+
+    it('accepts every token when the user was never signed out', async () => {
+      mockRedis.get.mockResolvedValue(null);
+
+      await expect(sessionOps.isTokenRevoked('user-123', 0)).resolves.toBe(
+        false,
+      );
+    });
+  });
 });
@@ -0,0 +1,128 @@
+import * as shareOps from '@/lib/redis/share';
+import { getRedisClient } from '@/lib/redis/client';
+import { chatSharesKey, shareKey } from '@/lib/redis/keys';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+const mockRedis = {
+  get: jest.fn(),
+  set: jest.fn(),
+  setex: jest.fn(),
+  del: jest.fn(),
+  sismember: jest.fn(),
+  sadd: jest.fn(),
+  srem: jest.fn(),
+  smembers: jest.fn(),
+  mget: jest.fn(),
+};
+
+const storedLink = (token: string, expiresAt: string | null) =>
+  JSON.stringify({
+    token,
+    chatId: 'chat-1',
+    userId: 'user-1',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    expiresAt,
+  });
+
+describe('Redis Share Link Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+    mockRedis.get.mockResolvedValue(null);
+    mockRedis.sismember.mockResolvedValue(0);
+  });
+
+  describe('createShareLink', () => {
+    it('stores an expiring link with a matching TTL', async () => {
+      const link = await shareOps.createShareLink(
+        { id: 'chat-1', userId: 'user-1', tenantId: 'tenant-1' },
+        3600,
+      );
+
+      expect(link.tenantId).toBe('tenant-1');
+      expect(link.token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(link.expiresAt!.getTime() - link.createdAt.getTime()).toBe(
+        3600 * 1000,
+      );
+      expect(mockRedis.setex).toHaveBeenCalledWith(
+        shareKey(link.token),
+        3600,
+        expect.stringContaining('"chatId":"chat-1"'),
+      );
+      expect(mockRedis.sadd).toHaveBeenCalledWith(
+        chatSharesKey('chat-1'),
+        link.token,
+      );
+    });
+
+    it('stores a link without expiry until revoked', async () => {
+      const link = await shareOps.createShareLink({
+        id: 'chat-1',
+        userId: 'user-1',
+      });
+
+      expect(link.expiresAt).toBeNull();
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        shareKey(link.token),
+        expect.any(String),
+      );
+    });
+  });
+
+  describe('getShareLink', () => {
+    it('hydrates stored links', async () => {
+      mockRedis.get.mockResolvedValue(storedLink('tok', null));
+
+      const link = await shareOps.getShareLink('tok');
+
+      expect(link?.createdAt).toBeInstanceOf(Date);
+      expect(link?.expiresAt).toBeNull();
+    });
+
+    it('treats links past their expiry as missing', async () => {
+      mockRedis.get.mockResolvedValue(
+        storedLink('tok', '2000-01-01T00:00:00.000Z'),
+      );
+
+      await expect(shareOps.getShareLink('tok')).resolves.toBeNull();
+    });
+  });
+
+  describe('getChatShareLinks', () => {
+    it('returns live links and prunes expired tokens', async () => {
+      mockRedis.smembers.mockResolvedValue(['live', 'gone']);
+      mockRedis.mget.mockResolvedValue([storedLink('live', null), null]);
+
+      const links = await shareOps.getChatShareLinks('chat-1');
+
+      expect(links.map((link) => link.token)).toEqual(['live']);
+      expect(mockRedis.srem).toHaveBeenCalledWith(
+        chatSharesKey('chat-1'),
+        'gone',
+      );
+    });
+  });
+
+  describe('revokeShareLink', () => {
+    it('deletes links that belong to the chat', async () => {
+      mockRedis.srem.mockResolvedValue(1);
+
+      await expect(shareOps.revokeShareLink('chat-1', 'tok')).resolves.toBe(
+        true,
+      );
+      expect(mockRedis.del).toHaveBeenCalledWith(shareKey('tok'));
+    });
+
+    it('ignores tokens from other chats', async () => {
+      mockRedis.srem.mockResolvedValue(0);
+
+      await expect(shareOps.revokeShareLink('chat-1', 'tok')).resolves.toBe(
+        false,
+      );
+      expect(mockRedis.del).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import * as streamBuffer from '@/lib/redis/stream-buffer';
+import { getRedisClient } from '@/lib/redis/client';
+import { streamEventsKey, streamKey } from '@/lib/redis/keys';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+const mockPipeline = {
+  hset: jest.fn().mockReturnThis(),
+  zadd: jest.fn().mockReturnThis(),
+  expire: jest.fn().mockReturnThis(),
+  exec: jest.fn(),
+};
+
+const mockRedis = {
+  multi: jest.fn(() => mockPipeline),
+  hset: jest.fn(),
+  hgetall: jest.fn(),
+  zrangebyscore: jest.fn(),
+};
+
+describe('Redis Stream Buffer Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+    mockPipeline.exec.mockResolvedValue([]);
+  });
+
+  describe('stream event IDs', () => {
+    it('round-trips the generation and sequence number', () => {
+      const eventId = streamBuffer.formatStreamEventId('gen_abc', 7);
+
+      expect(streamBuffer.parseStreamEventId(eventId)).toEqual({
+        generationId: 'gen_abc',
+        seq: 7,
+      });
+    });
+
+    it('rejects malformed IDs', () => {
+      expect(streamBuffer.parseStreamEventId('gen_abc')).toBeNull();
+      expect(streamBuffer.parseStreamEventId(':3')).toBeNull();
+      expect(streamBuffer.parseStreamEventId('gen_abc:x')).toBeNull();
+      expect(streamBuffer.parseStreamEventId('gen_abc:-1')).toBeNull();
+    });
+  });
+
+  describe('openStreamBuffer', () => {
+    it('records the owner with an expiry', async () => {
+      const opened = await streamBuffer.openStreamBuffer('gen-1', {
+        chatId: 'chat-1',
+        userId: 'user-1',
+      });
+
+      expect(opened).toBe(true);
+      expect(mockPipeline.hset).toHaveBeenCalledWith(streamKey('gen-1'), {
+        chatId: 'chat-1',
+        userId: 'user-1',
+        status: 'streaming',
+      });
+      expect(mockPipeline.expire).toHaveBeenCalledWith(
+        streamKey('gen-1'),
+        expect.any(Number),
+      );
+    });
+
+    it('reports buffering as unavailable when Redis fails', async () => {
+      mockPipeline.exec.mockRejectedValue(new Error('Redis down'));
+
+      await expect(
+        streamBuffer.openStreamBuffer('gen-1', {
+          chatId: 'chat-1',
+          userId: 'user-1',
+        }),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('getStreamBuffer', () => {
+    it('returns null once the generation has expired', async () => {
+      mockRedis.hgetall.mockResolvedValue({});
+
+      await expect(streamBuffer.getStreamBuffer('gen-1')).resolves.toBeNull();
+    });
+
+    it('parses status and stop requests', async () => {
+      mockRedis.hgetall.mockResolvedValue({
+        chatId: 'chat-1',
+        userId: 'user-1',
+        status: 'complete',
+        stopRequested: '1',
+      });
+
+      await expect(streamBuffer.getStreamBuffer('gen-1')).resolves.toEqual({
+        chatId: 'chat-1',
+        userId: 'user-1',
+        status: 'complete',
+        stopRequested: true,
+      });
+    });
+  });
+
+  describe('appendStreamEvent', () => {
+    it('scores each event by its sequence number', async () => {
+      const event = { seq: 3, event: 'content_delta', data: { delta: 'Hi' } };
+
+      await expect(
+        streamBuffer.appendStreamEvent('gen-1', event),
+      ).resolves.toBe(true);
+
+      expect(mockPipeline.zadd).toHaveBeenCalledWith(
+        streamEventsKey('gen-1'),
+        3,
+        JSON.stringify(event),
+      );
+    });
+  });
+
+  describe('getStreamEventsAfter', () => {
+    it('reads only events after the given sequence number', async () => {
+      mockRedis.zrangebyscore.mockResolvedValue([
+        JSON.stringify({ seq: 3, event: 'content_delta', data: {} }),
+        JSON.stringify({ seq: 4, event: 'message_complete', data: {} }),
+      ]);
+
+      const events = await streamBuffer.getStreamEventsAfter('gen-1', 2);
+
+      expect(mockRedis.zrangebyscore).toHaveBeenCalledWith(
+        streamEventsKey('gen-1'),
+        '(2',
+        '+inf',
+      );
+      expect(events.map((entry) => entry.seq)).toEqual([3, 4]);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  migrateKeysToTenants,
+  migrateLegacyChat,
+  migrateLegacyUserChats,
+} from '@/lib/redis/tenant-migration';
+import { getRedisClient } from '@/lib/redis/client';
+import {
+  RETENTION_SCHEDULE_KEY,
+  chatKey,
+  chatMessagesKey,
+  shareKey,
+  usageKey,
+  userChatsKey,
+} from '@/lib/redis/keys';
+import { getUserTenantId } from '@/lib/redis/users';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+jest.mock('@/lib/redis/users', () => ({
+  getUserTenantId: jest.fn(),
+}));
+
+const mockPipeline = {
+  set: jest.fn().mockReturnThis(),
+  del: jest.fn().mockReturnThis(),
+  srem: jest.fn().mockReturnThis(),
+  sadd: jest.fn().mockReturnThis(),
+  rename: jest.fn().mockReturnThis(),
+  zadd: jest.fn().mockReturnThis(),
+  zrem: jest.fn().mockReturnThis(),
+  exec: jest.fn(),
+};
+
+const mockRedis = {
+  multi: jest.fn(() => mockPipeline),
+  get: jest.fn(),
+  exists: jest.fn(),
+  zscore: jest.fn(),
+  smembers: jest.fn(),
+  srem: jest.fn(),
+  del: jest.fn(),
+  rename: jest.fn(),
+  scan: jest.fn(),
+};
+
+const legacyChat = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    id: 'chat-1',
+    userId: 'user-1',
+    title: 'Chat',
+    archived: false,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+describe('Tenant key migration', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+    (getUserTenantId as jest.Mock).mockResolvedValue('tenant-1');
+    mockRedis.get.mockResolvedValue(null);
+    mockRedis.exists.mockResolvedValue(0);
+    mockRedis.zscore.mockResolvedValue(null);
+    mockRedis.smembers.mockResolvedValue([]);
+    mockPipeline.exec.mockResolvedValue([]);
+  });
+
+  describe('migrateLegacyChat', () => {
+    it('moves the chat into the tenant its owner signed in with', async () => {
+      mockRedis.get.mockImplementation(async (key: string) =>
+        key === 'chat:chat-1' ? legacyChat() : null,
+      );
+      mockRedis.exists.mockImplementation(async (key: string) =>
+        key === 'chat:messages:chat-1' ? 1 : 0,
+      );
+      mockRedis.zscore.mockResolvedValue('1700000000000');
+
+      expect(await migrateLegacyChat('chat-1')).toBe('migrated');
+
+      expect(mockPipeline.set).toHaveBeenCalledWith(
+        chatKey('tenant-1', 'chat-1'),
+        expect.stringContaining('"tenantId":"tenant-1"'),
+      );
+      expect(mockPipeline.del).toHaveBeenCalledWith('chat:chat-1');
+      expect(mockPipeline.srem).toHaveBeenCalledWith(
+        'user:chats:user-1',
+        'chat-1',
+      );
+      expect(mockPipeline.sadd).toHaveBeenCalledWith(
+        userChatsKey('tenant-1', 'user-1'),
+        'chat-1',
+      );
+      expect(mockPipeline.rename).toHaveBeenCalledTimes(1);
+      expect(mockPipeline.rename).toHaveBeenCalledWith(
+        'chat:messages:chat-1',
+        chatMessagesKey('tenant-1', 'chat-1'),
+      );
+      expect(mockPipeline.zadd).toHaveBeenCalledWith(
+        RETENTION_SCHEDULE_KEY,
+        '1700000000000',
+        'tenant-1:chat-1',
+      );
+      expect(mockPipeline.zrem).toHaveBeenCalledWith(
+        RETENTION_SCHEDULE_KEY,
+        'chat-1',
+      );
+      expect(mockPipeline.exec).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the tenant the chat already records', async () => {
+      mockRedis.get.mockImplementation(async (key: string) =>
+        key === 'chat:chat-1' ? legacyChat({ tenantId: 'tenant-2' }) : null,
+      );
+
+      await migrateLegacyChat('chat-1');
+
+      expect(getUserTenantId).not.toHaveBeenCalled();
+      expect(mockPipeline.set).toHaveBeenCalledWith(
+        chatKey('tenant-2', 'chat-1'),
+        expect.any(String),
+      );
+    });
+
+    it('stamps the tenant on share links without touching their expiry', async () => {
+      mockRedis.get.mockImplementation(async (key: string) => {
+        if (key === 'chat:chat-1') return legacyChat();
+        if (key === shareKey('tok')) return JSON.stringify({ token: 'tok' });
+        return null;
+      });
+      mockRedis.smembers.mockResolvedValue(['tok']);
+
+      await migrateLegacyChat('chat-1');
+
+      expect(mockPipeline.set).toHaveBeenCalledWith(
+        shareKey('tok'),
+        JSON.stringify({ token: 'tok', tenantId: 'tenant-1' }),
+        'KEEPTTL',
+      );
+    });
+
+    it('skips a chat whose tenant is unknown', async () => {
+      (getUserTenantId as jest.Mock).mockResolvedValue(undefined);
+      mockRedis.get.mockImplementation(async (key: string) =>
+        key === 'chat:chat-1' ? legacyChat() : null,
+      );
+
+      expect(await migrateLegacyChat('chat-1')).toBe('skipped');
+      expect(mockRedis.multi).not.toHaveBeenCalled();
+    });
+
+    it("moves a chat whose tenant is unknown into its owner's current one", async () => {
+      (getUserTenantId as jest.Mock).mockResolvedValue(undefined);
+      mockRedis.get.mockImplementation(async (key: string) =>
+        key === 'chat:chat-1' ? legacyChat() : null,
+      );
+
+      expect(await migrateLegacyChat('chat-1', { tenantId: 'tenant-2' })).toBe(
+        'migrated',
+      );
+      expect(mockPipeline.set).toHaveBeenCalledWith(
+        chatKey('tenant-2', 'chat-1'),
+        expect.stringContaining('"tenantId":"tenant-2"'),
+      );
+    });
+
+    it('reports when there is no legacy chat', async () => {
+      expect(await migrateLegacyChat('chat-1')).toBe('missing');
+      expect(mockRedis.multi).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('migrateLegacyUserChats', () => {
+    it('moves each chat and drops what missing chats left behind', async () => {
+      mockRedis.smembers.mockResolvedValueOnce(['chat-1', 'chat-gone']);
+      mockRedis.get.mockImplementation(async (key: string) =>
+        key === 'chat:chat-1' ? legacyChat() : null,
+      );
+
+      expect(await migrateLegacyUserChats('user-1')).toEqual({
+        migrated: 1,
+        skipped: 0,
+      });
+
+      expect(mockRedis.del).toHaveBeenCalledWith(
+        'chat:messages:chat-gone',
+        'chat:message-data:chat-gone',
+        'chat:message-index:chat-gone',
+      );
+      expect(mockRedis.del).toHaveBeenCalledWith('user:chats:user-1');
+    });
+
+    it('keeps the list while chats with an unknown tenant remain', async () => {
+      (getUserTenantId as jest.Mock).mockResolvedValue(undefined);
+      mockRedis.smembers.mockResolvedValueOnce(['chat-1', 'chat-gone']);
+      mockRedis.get.mockImplementation(async (key: string) =>
+        key === 'chat:chat-1' ? legacyChat() : null,
+      );
+
+      expect(await migrateLegacyUserChats('user-1')).toEqual({
+        migrated: 0,
+        skipped: 1,
+      });
+
+      expect(mockRedis.srem).toHaveBeenCalledWith(
+        'user:chats:user-1',
+        'chat-gone',
+      );
+      expect(mockRedis.del).not.toHaveBeenCalledWith('user:chats:user-1');
+    });
+
+    it('does nothing for users without a legacy list', async () => {
+      expect(await migrateLegacyUserChats('user-1')).toEqual({
+        migrated: 0,
+        skipped: 0,
+      });
+      expect(mockRedis.del).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('migrateKeysToTenants', () => {
+    it('migrates chats, chat lists and usage counters in the scanned page', async () => {
+      mockRedis.scan.mockResolvedValue([
+        '9',
+        [
+          'chat:chat-1',
+          'chat:messages:chat-1',
+          'user:chats:user-2',
+          'usage:tenant:tenant-3:2024-01',
+          'usage:user:user-1:2024-01-01',
+          'session:abc',
+        ],
+      ]);
+      mockRedis.get.mockImplementation(async (key: string) =>
+        key === 'chat:chat-1' ? legacyChat() : null,
+      );
+
+      const batch = await migrateKeysToTenants('4', 50);
+
+      expect(mockRedis.scan).toHaveBeenCalledWith('4', 'COUNT', 50);
+      expect(mockRedis.rename).toHaveBeenCalledWith(
+        'usage:tenant:tenant-3:2024-01',
+        usageKey('tenant-3', 'tenant', 'tenant-3', '2024-01'),
+      );
+      expect(mockRedis.rename).toHaveBeenCalledWith(
+        'usage:user:user-1:2024-01-01',
+        usageKey('tenant-1', 'user', 'user-1', '2024-01-01'),
+      );
+      expect(batch).toEqual({
+        cursor: '9',
+        migratedChats: 1,
+        migratedChatLists: 1,
+        migratedUsageKeys: 2,
+        failedKeys: [],
+      });
+    });
+
+    it('reports keys that could not be moved and carries on', async () => {
+      mockRedis.scan.mockResolvedValue([
+        '0',
+        ['usage:user:user-1:2024-01', 'usage:user:user-2:2024-01'],
+      ]);
+      mockRedis.rename
+        .mockRejectedValueOnce(new Error('ERR no such key'))
+        .mockResolvedValueOnce('OK');
+
+      const batch = await migrateKeysToTenants();
+
+      expect(batch.failedKeys).toEqual(['usage:user:user-1:2024-01']);
+      expect(batch.migratedUsageKeys).toBe(1);
+    });
+
+    it('reports chats and chat lists left in place for their owner', async () => {
+      (getUserTenantId as jest.Mock).mockResolvedValue(undefined);
+      mockRedis.scan.mockResolvedValue([
+        '0',
+        ['chat:chat-1', 'user:chats:user-1'],
+      ]);
+      mockRedis.smembers.mockResolvedValue(['chat-1']);
+      mockRedis.get.mockImplementation(async (key: string) =>
+        key === 'chat:chat-1' ? legacyChat() : null,
+      );
+
+      const batch = await migrateKeysToTenants();
+
+      expect(mockRedis.multi).not.toHaveBeenCalled();
+      expect(batch.failedKeys).toEqual(['chat:chat-1', 'user:chats:user-1']);
+      expect(batch.migratedChats).toBe(0);
+      expect(batch.migratedChatLists).toBe(0);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import {
   withTransaction,
   txSet,
+  txRPush,
 } from '@/lib/redis/transactions';
 import { getRedisClient } from '@/lib/redis/client';
 
@@ -20,6 +21,9 @@ function createRedisMock() {
     sismember: jest.fn(),
     sadd: jest.fn(),
     srem: jest.fn(),
+    llen: jest.fn(),
+    rpush: jest.fn(),
+    ltrim: jest.fn(),
   };
 }
 
@@ -63,4 +67,32 @@ describe('Redis transactions', () => {
 
     expect(redisMock.setex).toHaveBeenCalledWith('chat:key', 120, '{"value":0}');
   });
+
+  it('trims only the appended list entries on rollback', async () => {
+    redisMock.llen.mockResolvedValueOnce(2);
+
+    await expect(
+      withTransaction(async (ctx) => {
+        await txRPush(ctx, 'chat:messages:1', ['a', 'b']);
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+
+    expect(redisMock.rpush).toHaveBeenCalledWith('chat:messages:1', 'a', 'b');
+    expect(redisMock.ltrim).toHaveBeenCalledWith('chat:messages:1', 0, 1);
+    expect(redisMock.del).not.toHaveBeenCalled();
+  });
+
+  it('deletes a list it created on rollback', async () => {
+    redisMock.llen.mockResolvedValueOnce(0);
+
+    await expect(
+      withTransaction(async (ctx) => {
+        await txRPush(ctx, 'chat:messages:2', ['a']);
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+
+    expect(redisMock.del).toHaveBeenCalledWith('chat:messages:2');
+  });
 });
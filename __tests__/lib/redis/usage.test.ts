@@ -0,0 +1,162 @@
+import {
+  getUsageQuotaStatuses,
+  getUsageTotals,
+  recordTokenUsage,
+} from '@/lib/redis/usage';
+import { getRedisClient } from '@/lib/redis/client';
+import { usageKey } from '@/lib/redis/keys';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+const mockPipeline = {
+  hincrby: jest.fn().mockReturnThis(),
+  expireat: jest.fn().mockReturnThis(),
+  exec: jest.fn(),
+};
+
+const mockRedis = {
+  multi: jest.fn(() => mockPipeline),
+  hgetall: jest.fn(),
+};
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+describe('Redis Usage Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+    mockRedis.hgetall.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    delete process.env.USAGE_QUOTA_USER_DAILY_TOKENS;
+    delete process.env.USAGE_QUOTA_TENANT_MONTHLY_COST_USD;
+  });
+
+  describe('recordTokenUsage', () => {
+    it('adds the call to the user and tenant day and month buckets', async () => {
+      await recordTokenUsage(
+        { userId: 'user-1', tenantId: 'tenant-1' },
+        { inputTokens: 30, outputTokens: 12, cost: 0.00162 },
+        now,
+      );
+
+      const keys = [
+        usageKey('tenant-1', 'user', 'user-1', '2026-10-19'),
+        usageKey('tenant-1', 'user', 'user-1', '2026-10'),
+        usageKey('tenant-1', 'tenant', 'tenant-1', '2026-10-19'),
+        usageKey('tenant-1', 'tenant', 'tenant-1', '2026-10'),
+      ];
+      keys.forEach((key) => {
+        expect(mockPipeline.hincrby).toHaveBeenCalledWith(key, 'tokens', 42);
+        expect(mockPipeline.hincrby).toHaveBeenCalledWith(
+          key,
+          'costMicroUsd',
+          1620,
+        );
+        expect(mockPipeline.hincrby).toHaveBeenCalledWith(key, 'requests', 1);
+      });
+      expect(mockPipeline.exec).toHaveBeenCalledTimes(1);
+    });
+
+    it('expires buckets after they close', async () => {
+      await recordTokenUsage(
+        { userId: 'user-1' },
+        { inputTokens: 1, outputTokens: 1, cost: 0 },
+        now,
+      );
+
+      // Day closes 2026-10-20, kept two more days
+      expect(mockPipeline.expireat).toHaveBeenCalledWith(
+        usageKey(undefined, 'user', 'user-1', '2026-10-19'),
+        Date.parse('2026-10-22T00:00:00.000Z') / 1000,
+      );
+      expect(mockPipeline.expireat).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getUsageTotals', () => {
+    it('parses the counters and converts cost back to dollars', async () => {
+      mockRedis.hgetall.mockResolvedValue({
+        tokens: '42',
+        inputTokens: '30',
+        outputTokens: '12',
+        costMicroUsd: '1620',
+        requests: '1',
+      });
+
+      await expect(
+        getUsageTotals('tenant-1', 'user', 'user-1', 'day', now),
+      ).resolves.toEqual({
+        tokens: 42,
+        inputTokens: 30,
+        outputTokens: 12,
+        cost: 0.00162,
+        requests: 1,
+      });
+      expect(mockRedis.hgetall).toHaveBeenCalledWith(
+        usageKey('tenant-1', 'user', 'user-1', '2026-10-19'),
+      );
+    });
+  });
+
+  describe('getUsageQuotaStatuses', () => {
+    it('reads no counters when no quotas are configured', async () => {
+      await expect(
+        getUsageQuotaStatuses({ userId: 'user-1', tenantId: 'tenant-1' }, now),
+      ).resolves.toEqual([]);
+      expect(mockRedis.hgetall).not.toHaveBeenCalled();
+    });
+
+    it('evaluates user and tenant quotas against their own buckets', async () => {
+      process.env.USAGE_QUOTA_USER_DAILY_TOKENS = '100';
+      process.env.USAGE_QUOTA_TENANT_MONTHLY_COST_USD = '1';
+      mockRedis.hgetall.mockImplementation(async (key: string) =>
+        key === usageKey('tenant-1', 'user', 'user-1', '2026-10-19')
+          ? { tokens: '40' }
+          : { costMicroUsd: '1500000' },
+      );
+
+      const statuses = await getUsageQuotaStatuses(
+        { userId: 'user-1', tenantId: 'tenant-1' },
+        now,
+      );
+
+      expect(statuses).toEqual([
+        expect.objectContaining({
+          scope: 'user',
+          metric: 'tokens',
+          used: 40,
+          remaining: 60,
+        }),
+        expect.objectContaining({
+          scope: 'tenant',
+          metric: 'cost',
+          used: 1.5,
+          remaining: 0,
+        }),
+      ]);
+      expect(mockRedis.hgetall).toHaveBeenCalledWith(
+        usageKey('tenant-1', 'tenant', 'tenant-1', '2026-10'),
+      );
+    });
+
+    it('scales only the per-user quotas by the multiplier', async () => {
+      process.env.USAGE_QUOTA_USER_DAILY_TOKENS = '100';
+      process.env.USAGE_QUOTA_TENANT_DAILY_TOKENS = '1000';
+
+      const statuses = await getUsageQuotaStatuses(
+        { userId: 'user-1', tenantId: 'tenant-1' },
+        now,
+        5,
+      );
+
+      expect(statuses).toEqual([
+        expect.objectContaining({ scope: 'user', limit: 500 }),
+        expect.objectContaining({ scope: 'tenant', limit: 1000 }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  getUserSuspension,
+  listUsers,
+  recordUserActivity,
+  suspendUser,
+  unsuspendUser,
+} from '@/lib/redis/users';
+import { getRedisClient } from '@/lib/redis/client';
+import {
+  userDirectoryKey,
+  userProfileKey,
+  userSuspensionKey,
+} from '@/lib/redis/keys';
+
+jest.mock('@/lib/redis/client', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+const mockPipeline = {
+  zadd: jest.fn().mockReturnThis(),
+  hset: jest.fn().mockReturnThis(),
+  exec: jest.fn(),
+};
+
+const mockRedis = {
+  multi: jest.fn(() => mockPipeline),
+  zrevrange: jest.fn(),
+  zcard: jest.fn(),
+  hgetall: jest.fn(),
+  get: jest.fn(),
+  set: jest.fn(),
+  del: jest.fn(),
+};
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+describe('Redis User Directory Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(mockRedis);
+  });
+
+  describe('recordUserActivity', () => {
+    it('scores the user by last activity and stores their profile', async () => {
+      await recordUserActivity(
+        {
+          userId: 'user-1',
+          email: 'user@example.com',
+          tenantId: 'tenant-1',
+          role: 'power-user',
+        },
+        now,
+      );
+
+      expect(mockPipeline.zadd).toHaveBeenCalledWith(
+        userDirectoryKey('tenant-1'),
+        now.getTime(),
+        'user-1',
+      );
+      expect(mockPipeline.hset).toHaveBeenCalledWith(userProfileKey('user-1'), {
+        email: 'user@example.com',
+        tenantId: 'tenant-1',
+        role: 'power-user',
+      });
+      expect(mockPipeline.exec).toHaveBeenCalled();
+    });
+  });
+
+  describe('listUsers', () => {
+    it('returns the most recently seen users with their profiles', async () => {
+      mockRedis.zrevrange.mockResolvedValue([
+        'user-2',
+        String(now.getTime()),
+        'user-1',
+        String(now.getTime() - 1000),
+      ]);
+      mockRedis.zcard.mockResolvedValue(5);
+      mockRedis.hgetall.mockImplementation(async (key: string) =>
+        key === userProfileKey('user-2')
+          ? { name: 'Second', role: 'admin' }
+          : {},
+      );
+
+      const page = await listUsers('tenant-1', 0, 2);
+
+      expect(mockRedis.zrevrange).toHaveBeenCalledWith(
+        userDirectoryKey('tenant-1'),
+        0,
+        1,
+        'WITHSCORES',
+      );
+      expect(mockRedis.zcard).toHaveBeenCalledWith(
+        userDirectoryKey('tenant-1'),
+      );
+      expect(page.total).toBe(5);
+      expect(page.users).toEqual([
+        {
+          id: 'user-2',
+          email: null,
+          name: 'Second',
+          tenantId: null,
+          role: 'admin',
+          lastSeenAt: now,
+        },
+        {
+          id: 'user-1',
+          email: null,
+          name: null,
+          tenantId: null,
+          role: null,
+          lastSeenAt: new Date(now.getTime() - 1000),
+        },
+      ]);
+    });
+  });
+
+  describe('suspensions', () => {
+    it('stores and reads back a suspension', async () => {
+      const suspension = await suspendUser(
+        'user-1',
+        { reason: 'Abuse', suspendedBy: 'admin@example.com' },
+        now,
+      );
+      const [key, stored] = mockRedis.set.mock.calls[0];
+      mockRedis.get.mockResolvedValue(stored);
+
+      expect(key).toBe(userSuspensionKey('user-1'));
+      await expect(getUserSuspension('user-1')).resolves.toEqual(suspension);
+    });
+
+    it('returns null for users who are not suspended', async () => {
+      mockRedis.get.mockResolvedValue(null);
+
+      await expect(getUserSuspension('user-1')).resolves.toBeNull();
+    });
+
+    it('reports whether there was a suspension to lift', async () => {
+      mockRedis.del.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      await expect(unsuspendUser('user-1')).resolves.toBe(true);
+      await expect(unsuspendUser('user-1')).resolves.toBe(false);
+    });
+  });
+});
@@ -21,6 +21,7 @@ const buildChat = (overrides: Partial<ChatDTO> = {}): ChatDTO => ({
   title: overrides.title ?? 'Sample Chat',
   userId: overrides.userId ?? 'user-1',
   archived: overrides.archived ?? false,
+  settings: overrides.settings ?? {},
   createdAt: overrides.createdAt ?? new Date().toISOString(),
   updatedAt: overrides.updatedAt ?? new Date().toISOString(),
 });
@@ -74,7 +75,9 @@ describe('chatActions', () => {
       payload: optimisticUpdate,
     });
 
-    expect(chatActions.updateOptimisticUpdate('tmp-1', { status: 'success' })).toEqual({
+    expect(
+      chatActions.updateOptimisticUpdate('tmp-1', { status: 'success' }),
+    ).toEqual({
       type: ChatActionType.UPDATE_OPTIMISTIC_UPDATE,
       payload: { id: 'tmp-1', updates: { status: 'success' } },
     });
@@ -96,4 +99,11 @@ describe('chatActions', () => {
       payload: { key: 'messages', error: 'Network error' },
     });
   });
+
+  it('creates setActiveLeaf action', () => {
+    expect(chatActions.setActiveLeaf('chat-1', 'msg-2')).toEqual({
+      type: ChatActionType.SET_ACTIVE_LEAF,
+      payload: { chatId: 'chat-1', messageId: 'msg-2' },
+    });
+  });
 });
@@ -0,0 +1,153 @@
+import {
+  createBatchingTransport,
+  LogDeliveryError,
+} from '@/server/logging/batching';
+import { LogLevel, type LogRecord } from '@/utils/logger';
+
+const record = (message: string): LogRecord => ({
+  timestamp: '2026-10-19T10:00:00.000Z',
+  level: LogLevel.INFO,
+  message,
+});
+
+const messagesOf = (lines: string[]) =>
+  lines.map((line) => JSON.parse(line).message);
+
+describe('createBatchingTransport', () => {
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('delivers full batches as JSON lines without waiting', async () => {
+    const deliver = jest.fn().mockResolvedValue(undefined);
+    const transport = createBatchingTransport('test', deliver, {
+      maxBatchSize: 2,
+      flushIntervalMs: 60000,
+    });
+
+    transport.send(record('one'));
+    expect(deliver).not.toHaveBeenCalled();
+    transport.send(record('two'));
+    transport.send(record('three'));
+    await transport.close();
+
+    expect(deliver).toHaveBeenCalledTimes(2);
+    expect(messagesOf(deliver.mock.calls[0][0])).toEqual(['one', 'two']);
+    expect(messagesOf(deliver.mock.calls[1][0])).toEqual(['three']);
+  });
+
+  it('sends a partial batch after the flush interval', async () => {
+    jest.useFakeTimers();
+    try {
+      const deliver = jest.fn().mockResolvedValue(undefined);
+      const transport = createBatchingTransport('test', deliver, {
+        flushIntervalMs: 500,
+      });
+
+      transport.send(record('one'));
+      await jest.advanceTimersByTimeAsync(499);
+      expect(deliver).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect(deliver).toHaveBeenCalledTimes(1);
+      await transport.close();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('retries a failed batch with backoff', async () => {
+    const deliver = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValueOnce(undefined);
+    const transport = createBatchingTransport('test', deliver, {
+      maxRetries: 2,
+      retryDelayMs: 1,
+    });
+
+    transport.send(record('one'));
+    await transport.flush();
+
+    expect(deliver).toHaveBeenCalledTimes(3);
+    expect(messagesOf(deliver.mock.calls[2][0])).toEqual(['one']);
+  });
+
+  it('keeps a batch for the next flush once retries run out', async () => {
+    const deliver = jest.fn().mockRejectedValueOnce(new Error('down'));
+    const transport = createBatchingTransport('test', deliver, {
+      maxRetries: 0,
+      flushIntervalMs: 60000,
+    });
+
+    transport.send(record('one'));
+    await transport.flush();
+    deliver.mockResolvedValue(undefined);
+    transport.send(record('two'));
+    await transport.close();
+
+    expect(messagesOf(deliver.mock.calls[1][0])).toEqual(['one', 'two']);
+  });
+
+  it('drops a batch the receiver will never accept', async () => {
+    const deliver = jest
+      .fn()
+      .mockRejectedValue(new LogDeliveryError('Rejected', false));
+    const transport = createBatchingTransport('test', deliver, {
+      maxRetries: 3,
+    });
+
+    transport.send(record('one'));
+    await transport.close();
+
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      '[log-transport:test] Dropped 1 log records',
+      expect.any(LogDeliveryError),
+    );
+  });
+
+  it('drops the oldest records when the buffer is full and reports them', async () => {
+    const deliver = jest.fn().mockResolvedValue(undefined);
+    const transport = createBatchingTransport('test', deliver, {
+      maxBufferSize: 2,
+      flushIntervalMs: 60000,
+    });
+
+    for (const message of ['one', 'two', 'three', 'four']) {
+      transport.send(record(message));
+    }
+    await transport.close();
+
+    const [notice, ...rest] = deliver.mock.calls[0][0].map((line: string) =>
+      JSON.parse(line),
+    );
+    expect(notice).toMatchObject({
+      level: 'warn',
+      message: 'Log records dropped by transport',
+      context: { transport: 'test', droppedCount: 2 },
+    });
+    expect(rest.map((entry: LogRecord) => entry.message)).toEqual([
+      'three',
+      'four',
+    ]);
+  });
+
+  it('ignores records sent after close', async () => {
+    const deliver = jest.fn().mockResolvedValue(undefined);
+    const transport = createBatchingTransport('test', deliver);
+
+    await transport.close();
+    transport.send(record('late'));
+    await transport.flush();
+
+    expect(deliver).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * @jest-environment node
+ */
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Writable } from 'stream';
+import {
+  createFileTransport,
+  createHttpTransport,
+  createStdoutTransport,
+} from '@/server/logging';
+import { LogLevel, type LogRecord } from '@/utils/logger';
+
+const record = (message: string): LogRecord => ({
+  timestamp: '2026-10-19T10:00:00.000Z',
+  level: LogLevel.INFO,
+  message,
+  context: { requestId: 'req-1' },
+});
+
+describe('Log transports', () => {
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe('createStdoutTransport', () => {
+    it('writes one JSON object per line', async () => {
+      const chunks: string[] = [];
+      const stream = new Writable({
+        write(chunk, _encoding, callback) {
+          chunks.push(chunk.toString());
+          callback();
+        },
+      });
+      const transport = createStdoutTransport({}, stream);
+
+      transport.send(record('one'));
+      transport.send(record('two'));
+      await transport.close();
+
+      const lines = chunks.join('').trimEnd().split('\n');
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        record('one'),
+        record('two'),
+      ]);
+    });
+  });
+
+  describe('createFileTransport', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'log-transport-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('appends JSON lines, creating the directory', async () => {
+      const path = join(dir, 'nested', 'app.log');
+      const transport = createFileTransport({ path });
+
+      transport.send(record('one'));
+      await transport.flush();
+      transport.send(record('two'));
+      await transport.close();
+
+      const lines = (await readFile(path, 'utf8')).trimEnd().split('\n');
+      expect(lines.map((line) => JSON.parse(line).message)).toEqual([
+        'one',
+        'two',
+      ]);
+    });
+
+    it('rotates past maxBytes and keeps maxFiles rotated files', async () => {
+      const path = join(dir, 'app.log');
+      const lineBytes = JSON.stringify(record('0')).length + 1;
+      const transport = createFileTransport({
+        path,
+        maxBytes: lineBytes * 2,
+        maxFiles: 2,
+      });
+
+      for (let index = 0; index < 7; index++) {
+        transport.send(record(String(index)));
+        await transport.flush();
+      }
+      await transport.close();
+
+      const messagesIn = async (file: string) =>
+        (await readFile(join(dir, file), 'utf8'))
+          .trimEnd()
+          .split('\n')
+          .map((line) => JSON.parse(line).message);
+
+      expect((await readdir(dir)).sort()).toEqual([
+        'app.log',
+        'app.log.1',
+        'app.log.2',
+      ]);
+      expect(await messagesIn('app.log')).toEqual(['6']);
+      expect(await messagesIn('app.log.1')).toEqual(['4', '5']);
+      expect(await messagesIn('app.log.2')).toEqual(['2', '3']);
+    });
+  });
+
+  describe('createHttpTransport', () => {
+    let server: Server;
+    let url: string;
+    let received: Array<{ headers: IncomingMessage['headers']; body: string }>;
+    let statuses: number[];
+
+    beforeEach(async () => {
+      received = [];
+      statuses = [];
+      server = createServer((request, response) => {
+        let body = '';
+        request.on('data', (chunk) => (body += chunk));
+        request.on('end', () => {
+          received.push({ headers: request.headers, body });
+          response.statusCode = statuses.shift() ?? 204;
+          response.end();
+        });
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve),
+      );
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/logs`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('posts batches as NDJSON to the collector', async () => {
+      const transport = createHttpTransport({
+        url,
+        headers: { Authorization: 'Bearer collector-token' },
+      });
+
+      transport.send(record('one'));
+      transport.send(record('two'));
+      await transport.close();
+
+      expect(received).toHaveLength(1);
+      expect(received[0].headers['content-type']).toBe('application/x-ndjson');
+      expect(received[0].headers.authorization).toBe('Bearer collector-token');
+      expect(
+        received[0].body
+          .trimEnd()
+          .split('\n')
+          .map((line) => JSON.parse(line).message),
+      ).toEqual(['one', 'two']);
+    });
+
+    it('retries server errors and rate limiting', async () => {
+      statuses = [503, 429];
+      const transport = createHttpTransport({ url, retryDelayMs: 1 });
+
+      transport.send(record('one'));
+      await transport.close();
+
+      expect(received).toHaveLength(3);
+      expect(received[2].body).toContain('"message":"one"');
+    });
+
+    it('drops a batch the collector rejects', async () => {
+      statuses = [400];
+      const transport = createHttpTransport({ url, retryDelayMs: 1 });
+
+      transport.send(record('one'));
+      await transport.close();
+
+      expect(received).toHaveLength(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '[log-transport:http] Dropped 1 log records',
+        expect.objectContaining({ retryable: false }),
+      );
+    });
+  });
+
+  describe('configureLogTransports', () => {
+    const originalTransports = process.env.LOG_TRANSPORTS;
+    const signals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+    let existingListeners: Map<NodeJS.Signals, NodeJS.SignalsListener[]>;
+    let existingBeforeExit: NodeJS.BeforeExitListener[];
+    let exitSpy: jest.SpyInstance;
+
+    const addedListener = (signal: NodeJS.Signals) =>
+      process
+        .listeners(signal)
+        .find((listener) => !existingListeners.get(signal)?.includes(listener));
+
+    beforeEach(() => {
+      jest.resetModules();
+      process.env.LOG_TRANSPORTS = 'stdout';
+      existingListeners = new Map(
+        signals.map((signal) => [signal, process.listeners(signal)]),
+      );
+      existingBeforeExit = process.listeners('beforeExit');
+      exitSpy = jest
+        .spyOn(process, 'exit')
+        .mockImplementation((() => undefined) as never);
+    });
+
+    afterEach(() => {
+      if (originalTransports === undefined) {
+        delete process.env.LOG_TRANSPORTS;
+      } else {
+        process.env.LOG_TRANSPORTS = originalTransports;
+      }
+      for (const signal of signals) {
+        const listener = addedListener(signal);
+        if (listener) process.removeListener(signal, listener);
+      }
+      for (const listener of process.listeners('beforeExit')) {
+        if (!existingBeforeExit.includes(listener)) {
+          process.removeListener('beforeExit', listener);
+        }
+      }
+      exitSpy.mockRestore();
+    });
+
+    it('delivers buffered records on SIGTERM before exiting', async () => {
+      const { configureLogTransports } = await import('@/server/logging');
+      const { addLogTransport } = await import('@/utils/logger');
+      const close = jest.fn().mockResolvedValue(undefined);
+
+      expect(configureLogTransports()).toEqual(['stdout']);
+      addLogTransport({
+        name: 'test',
+        send: jest.fn(),
+        flush: jest.fn(),
+        close,
+      });
+
+      addedListener('SIGTERM')?.('SIGTERM');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(close).toHaveBeenCalled();
+      expect(exitSpy).toHaveBeenCalledWith(143);
+    });
+  });
+});
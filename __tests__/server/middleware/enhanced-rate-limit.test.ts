@@ -2,6 +2,8 @@ import { NextRequest } from 'next/server';
 import {
   enhancedRateLimit,
   chatRateLimit,
+  getLockouts,
+  clearLockouts,
 } from '@/server/middleware/enhanced-rate-limit';
 import { getRedisClient } from '@/lib/redis/client';
 import {
@@ -9,6 +11,7 @@ import {
   redisCircuitBreaker,
 } from '@/lib/redis/circuit-breaker';
 import { tooManyRequests, serverError } from '@/server/api-response';
+import { recordAuditEvent } from '@/server/utils/audit';
 
 jest.mock('@/lib/redis/client', () => ({
   getRedisClient: jest.fn(),
@@ -21,6 +24,10 @@ jest.mock('@/lib/redis/circuit-breaker', () => ({
   },
 }));
 
+jest.mock('@/server/utils/audit', () => ({
+  recordAuditEvent: jest.fn(),
+}));
+
 jest.mock('@/server/api-response', () => ({
   tooManyRequests: jest.fn(
     (message: string) => new Response(message, { status: 429 }),
@@ -293,8 +300,9 @@ describe('Enhanced Rate Limit Middleware', () => {
           async (fn: () => Promise<unknown>) => fn(),
         );
 
+        const request = requestFactory();
         const result = await enhancedRateLimit(
-          requestFactory(),
+          request,
           'user:test-user',
           'chat',
           {
@@ -307,6 +315,11 @@ describe('Enhanced Rate Limit Middleware', () => {
         expect(result.allowed).toBe(false);
         // Should have called setex to set lockout
         expect(mockRedis.setex).toHaveBeenCalled();
+        expect(recordAuditEvent).toHaveBeenCalledWith(request, {
+          type: 'rate_limit.lockout',
+          targetId: 'user:test-user',
+          details: { endpoint: 'chat', attempts: 5, durationSeconds: 3600 },
+        });
       });
     });
   });
@@ -353,4 +366,34 @@ describe('Enhanced Rate Limit Middleware', () => {
       );
     });
   });
+
+  describe('lockout administration', () => {
+    it('lists the endpoints an identifier is locked out of', async () => {
+      mockRedis.ttl.mockImplementation(async (key: string) =>
+        key === 'lockout:chat:user:user-123' ? 600 : -2,
+      );
+
+      const lockouts = await getLockouts('user:user-123');
+
+      expect(lockouts).toEqual([
+        { endpoint: 'chat', identifier: 'user:user-123', retryAfter: 600 },
+      ]);
+    });
+
+    it('lifts lockouts and resets attempt and request counters', async () => {
+      mockRedis.del.mockImplementation(async (key: string) =>
+        key === 'lockout:auth:user:user-123' ? 1 : 0,
+      );
+
+      const lifted = await clearLockouts('user:user-123');
+
+      expect(lifted).toBe(1);
+      expect(mockRedis.del).toHaveBeenCalledWith('lockout:chat:user:user-123');
+      expect(mockRedis.del).toHaveBeenCalledWith(
+        'attempts:chat:user:user-123',
+        'ratelimit:chat:user:user-123',
+      );
+      expect(mockRedis.del).toHaveBeenCalledWith('lockout:auth:user:user-123');
+    });
+  });
 });
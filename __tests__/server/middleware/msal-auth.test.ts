@@ -1,9 +1,24 @@
 import { NextRequest } from 'next/server';
+import { createRemoteJWKSet } from 'jose';
 import {
   getMsalTokenFromRequest,
+  validateMsalToken,
   withMsalAuth,
 } from '@/server/middleware/msal-auth';
 
+jest.mock('jose', () => ({
+  createRemoteJWKSet: jest.fn(() => jest.fn()),
+  jwtVerify: jest.fn().mockRejectedValue(new Error('signature mismatch')),
+}));
+
+const tenantId = (n: number) =>
+  `00000000-0000-0000-0000-${String(n).padStart(12, '0')}`;
+
+const tokenForTenant = (tid: string) => {
+  const payload = Buffer.from(JSON.stringify({ tid })).toString('base64url');
+  return `header.${payload}.sig`;
+};
+
 describe('MSAL auth helpers', () => {
   describe('getMsalTokenFromRequest', () => {
     it('returns token when Authorization header uses Bearer scheme', () => {
@@ -41,4 +56,30 @@ describe('MSAL auth helpers', () => {
       expect(mockHandler).not.toHaveBeenCalled();
     });
   });
+
+  describe('validateMsalToken', () => {
+    const originalAllowed = process.env.AZURE_AD_ALLOWED_TENANT_IDS;
+
+    beforeEach(() => {
+      process.env.AZURE_AD_ALLOWED_TENANT_IDS = '*';
+    });
+
+    afterEach(() => {
+      process.env.AZURE_AD_ALLOWED_TENANT_IDS = originalAllowed;
+    });
+
+    it('keeps signing keys for the most recently seen tenants only', async () => {
+      for (let n = 0; n <= 100; n++) {
+        await validateMsalToken(tokenForTenant(tenantId(n)));
+      }
+      expect(createRemoteJWKSet).toHaveBeenCalledTimes(101);
+
+      // The newest tenant is still cached; the oldest was evicted
+      await validateMsalToken(tokenForTenant(tenantId(100)));
+      expect(createRemoteJWKSet).toHaveBeenCalledTimes(101);
+
+      await validateMsalToken(tokenForTenant(tenantId(0)));
+      expect(createRemoteJWKSet).toHaveBeenCalledTimes(102);
+    });
+  });
 });
@@ -65,6 +65,7 @@ jest.mock('@/lib/rate-limiter', () => ({
 
 jest.mock('@/server/middleware/session', () => ({
   getSessionFromRequest: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
 }));
 
 jest.mock('@/server/middleware/enhanced-rate-limit', () => ({
@@ -336,7 +337,7 @@ describe('Rate Limit Middleware', () => {
           (call: [unknown, string, unknown]) => call[1],
         );
         expect(identifiers).toContainEqual(expect.stringContaining('ip:'));
-        expect(identifiers).toContainEqual(expect.stringContaining('user:'));
+        expect(identifiers).toContainEqual('tenant:tenant-1:user:user-123');
       });
 
       it('should only check IP identifier for unauthenticated users', async () => {
@@ -762,7 +763,11 @@ describe('Rate Limit Middleware', () => {
 
       // Should still work with null userId
       expect(response.status).toBe(200);
-      expect(chatRateLimit).toHaveBeenCalledWith(expect.any(NextRequest), null);
+      expect(chatRateLimit).toHaveBeenCalledWith(
+        expect.any(NextRequest),
+        null,
+        undefined,
+      );
     });
   });
 });
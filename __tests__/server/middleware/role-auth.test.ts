@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server';
+import { withMsalAuth } from '@/server/middleware/msal-auth';
+import { checkModelAccess, requireRole } from '@/server/middleware/role-auth';
+import type { SessionModel } from '@/types/models';
+
+const buildSession = (data: Record<string, unknown>): SessionModel => ({
+  id: 'session-1',
+  userId: 'user-1',
+  csrfToken: 'csrf',
+  data,
+  expiresAt: new Date(Date.now() + 60_000),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const request = new NextRequest('http://localhost/api/test');
+
+describe('role-based access control', () => {
+  describe('requireRole', () => {
+    it('passes sessions holding the role or a higher one to the handler', async () => {
+      const handler = jest.fn(async () => new Response('ok'));
+      const guarded = requireRole('power-user', handler);
+
+      const power = buildSession({ appRole: 'power-user' });
+      const admin = buildSession({ appRole: 'admin' });
+
+      expect((await guarded(request, power)).status).toBe(200);
+      expect((await guarded(request, admin)).status).toBe(200);
+      expect(handler).toHaveBeenCalledWith(request, admin, undefined);
+    });
+
+    it('responds 403 without calling the handler', async () => {
+      const handler = jest.fn();
+      const guarded = requireRole('admin', handler);
+
+      const response = await guarded(
+        request,
+        buildSession({ appRole: 'power-user' }),
+      );
+
+      expect(response.status).toBe(403);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('resolves sessions stored before roles were mapped from their app roles', async () => {
+      const handler = jest.fn(async () => new Response('ok'));
+      const guarded = requireRole('admin', handler);
+
+      const response = await guarded(
+        request,
+        buildSession({ roles: ['Admin'] }),
+      );
+
+      expect(response.status).toBe(200);
+    });
+
+    it('composes under withMsalAuth', async () => {
+      const handler = jest.fn();
+      const wrapped = withMsalAuth(requireRole('admin', handler));
+
+      const response = await wrapped(request);
+
+      expect(response.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkModelAccess', () => {
+    it('limits users to the standard models', () => {
+      const session = buildSession({ appRole: 'user' });
+
+      expect(checkModelAccess(session, 'gemini-2.0-flash').allowed).toBe(true);
+      expect(checkModelAccess(session, undefined).allowed).toBe(true);
+
+      const denied = checkModelAccess(session, 'gemini-1.5-pro');
+      expect(denied.allowed).toBe(false);
+      expect(denied.error?.status).toBe(403);
+    });
+
+    it('opens every model to power users', () => {
+      const session = buildSession({ appRole: 'power-user' });
+
+      expect(checkModelAccess(session, 'gemini-1.5-pro').allowed).toBe(true);
+    });
+
+    it('rejects models the configured provider does not offer', () => {
+      const session = buildSession({ appRole: 'admin' });
+
+      const unknown = checkModelAccess(session, 'llama3');
+      expect(unknown.allowed).toBe(false);
+      expect(unknown.error?.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { checkChatSuspension } from '@/server/middleware/suspension';
+import { getUserSuspension } from '@/lib/redis/users';
+
+jest.mock('@/lib/redis/users', () => ({
+  getUserSuspension: jest.fn(),
+}));
+
+describe('checkChatSuspension', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('allows users who are not suspended', async () => {
+    (getUserSuspension as jest.Mock).mockResolvedValue(null);
+
+    await expect(checkChatSuspension('user-1')).resolves.toEqual({
+      allowed: true,
+    });
+  });
+
+  it('refuses suspended users with 403', async () => {
+    (getUserSuspension as jest.Mock).mockResolvedValue({
+      reason: 'Abuse',
+      suspendedBy: 'admin@example.com',
+      suspendedAt: new Date(),
+    });
+
+    const result = await checkChatSuspension('user-1');
+
+    expect(result.allowed).toBe(false);
+    expect(result.error?.status).toBe(403);
+  });
+
+  it('fails closed when the suspension cannot be read', async () => {
+    (getUserSuspension as jest.Mock).mockRejectedValue(new Error('down'));
+
+    const result = await checkChatSuspension('user-1');
+
+    expect(result.allowed).toBe(false);
+    expect(result.error?.status).toBe(500);
+  });
+});
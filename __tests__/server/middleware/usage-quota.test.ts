@@ -0,0 +1,116 @@
+import { checkUsageQuota } from '@/server/middleware/usage-quota';
+import { getUsageQuotaStatuses } from '@/lib/redis/usage';
+import type { UsageQuotaStatus } from '@/lib/llm/usage';
+
+jest.mock('@/lib/redis/usage', () => ({
+  getUsageQuotaStatuses: jest.fn(),
+}));
+
+const account = { userId: 'user-1', tenantId: 'tenant-1' };
+
+const status = (overrides: Partial<UsageQuotaStatus>): UsageQuotaStatus => ({
+  scope: 'user',
+  period: 'day',
+  metric: 'tokens',
+  limit: 1000,
+  used: 0,
+  remaining: 1000,
+  resetAt: new Date(Date.now() + 60 * 60 * 1000),
+  ...overrides,
+});
+
+describe('checkUsageQuota', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('allows requests without headers when no quotas are configured', async () => {
+    (getUsageQuotaStatuses as jest.Mock).mockResolvedValue([]);
+
+    await expect(checkUsageQuota(account)).resolves.toEqual({
+      allowed: true,
+      headers: {},
+    });
+  });
+
+  it('reports the tightest quota per metric', async () => {
+    const monthReset = new Date('2026-11-01T00:00:00.000Z');
+    (getUsageQuotaStatuses as jest.Mock).mockResolvedValue([
+      status({ used: 100, remaining: 900 }),
+      status({
+        scope: 'tenant',
+        period: 'month',
+        limit: 5000,
+        used: 4800,
+        remaining: 200,
+        resetAt: monthReset,
+      }),
+      status({ metric: 'cost', limit: 5, used: 1.25, remaining: 3.75 }),
+    ]);
+
+    const result = await checkUsageQuota(account);
+
+    expect(result.allowed).toBe(true);
+    expect(result.headers).toEqual(
+      expect.objectContaining({
+        'X-Quota-Tokens-Limit': '5000',
+        'X-Quota-Tokens-Remaining': '200',
+        'X-Quota-Tokens-Reset': monthReset.toISOString(),
+        'X-Quota-Cost-Limit': '5',
+        'X-Quota-Cost-Remaining': '3.75',
+      }),
+    );
+  });
+
+  it('returns a 429 that waits for every exhausted quota to reset', async () => {
+    const dayReset = new Date(Date.now() + 60 * 60 * 1000);
+    const monthReset = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+    (getUsageQuotaStatuses as jest.Mock).mockResolvedValue([
+      status({ used: 1000, remaining: 0, resetAt: dayReset }),
+      status({
+        scope: 'tenant',
+        period: 'month',
+        metric: 'cost',
+        limit: 50,
+        used: 51,
+        remaining: 0,
+        resetAt: monthReset,
+      }),
+    ]);
+
+    const result = await checkUsageQuota(account);
+
+    expect(result.allowed).toBe(false);
+    const response = result.error!;
+    expect(response.status).toBe(429);
+    expect(response.headers.get('X-Quota-Tokens-Remaining')).toBe('0');
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(
+      9 * 24 * 60 * 60,
+    );
+
+    const payload = await response.json();
+    expect(payload.error.code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(payload.error.message).toContain(
+      "Your organization's monthly spending quota has been used up",
+    );
+    expect(payload.error.details).toEqual(
+      expect.objectContaining({
+        type: 'quota',
+        scope: 'tenant',
+        period: 'month',
+        metric: 'cost',
+      }),
+    );
+  });
+
+  it('fails closed when the counters cannot be read', async () => {
+    (getUsageQuotaStatuses as jest.Mock).mockRejectedValue(
+      new Error('Redis down'),
+    );
+
+    const result = await checkUsageQuota(account);
+
+    expect(result.allowed).toBe(false);
+    expect(result.error?.status).toBe(500);
+  });
+});
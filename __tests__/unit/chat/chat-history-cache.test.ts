@@ -0,0 +1,90 @@
+import {
+  flattenHistoryPages,
+  updateLatestHistoryMessages,
+  type ChatHistoryData,
+} from '@/app/chat/utils/chatHistoryCache';
+import type { MessageDTO } from '@/types/models';
+
+const createMessage = (
+  id: string,
+  minute: number,
+  overrides: Partial<MessageDTO> = {},
+): MessageDTO => ({
+  id,
+  chatId: 'chat-1',
+  role: 'user',
+  content: `Message ${id}`,
+  status: 'sent',
+  parentMessageId: null,
+  metadata: null,
+  createdAt: new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString(),
+  updatedAt: new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString(),
+  ...overrides,
+});
+
+const history = (...pages: MessageDTO[][]): ChatHistoryData => ({
+  pages: pages.map((messages) => ({ messages })),
+  pageParams: pages.map((_, index) => (index === 0 ? undefined : `c${index}`)),
+});
+
+describe('flattenHistoryPages', () => {
+  it('orders older pages before newer ones', () => {
+    const data = history(
+      [createMessage('m3', 3), createMessage('m4', 4)],
+      [createMessage('m1', 1), createMessage('m2', 2)],
+    );
+
+    expect(flattenHistoryPages(data).map(({ id }) => id)).toEqual([
+      'm1',
+      'm2',
+      'm3',
+      'm4',
+    ]);
+  });
+
+  it('keeps the newest copy of messages repeated across pages', () => {
+    const stale = createMessage('m2', 2, { status: 'sending' });
+    const fresh = createMessage('m2', 2, {
+      updatedAt: new Date(Date.UTC(2024, 0, 1, 1)).toISOString(),
+    });
+    const data = history(
+      [fresh, createMessage('m3', 3)],
+      [createMessage('m1', 1), stale],
+    );
+
+    const messages = flattenHistoryPages(data);
+
+    expect(messages.map(({ id }) => id)).toEqual(['m1', 'm2', 'm3']);
+    expect(messages[1].status).toBe('sent');
+  });
+
+  it('returns nothing before the first fetch', () => {
+    expect(flattenHistoryPages(undefined)).toEqual([]);
+  });
+});
+
+describe('updateLatestHistoryMessages', () => {
+  it('updates only the newest page', () => {
+    const older = [createMessage('m1', 1)];
+    const data = history([createMessage('m2', 2)], older);
+    const added = createMessage('m3', 3);
+
+    const updated = updateLatestHistoryMessages(data, (messages) => [
+      ...messages,
+      added,
+    ]);
+
+    expect(updated.pages[0].messages.map(({ id }) => id)).toEqual(['m2', 'm3']);
+    expect(updated.pages[1].messages).toBe(older);
+    expect(updated.pageParams).toBe(data.pageParams);
+  });
+
+  it('creates the cache entry for chats not fetched yet', () => {
+    const added = createMessage('m1', 1);
+
+    expect(updateLatestHistoryMessages(undefined, () => [added])).toEqual({
+      pages: [{ messages: [added] }],
+      pageParams: [undefined],
+    });
+  });
+});
@@ -5,6 +5,7 @@ import { withCsrfProtection, requireCsrfToken } from '@/server/middleware/csrf';
 jest.mock('@/server/middleware/session', () => ({
   getSessionFromRequest: jest.fn(),
   getCsrfTokenFromRequest: jest.fn(),
+  getSessionTenantId: jest.fn(() => 'tenant-1'),
   requiresCsrfProtection: jest.fn(),
   JWT_FALLBACK_PREFIX: 'jwt-fallback',
 }));
@@ -17,9 +18,14 @@ jest.mock('@/server/middleware/msal-auth', () => ({
   getMsalTokenFromRequest: jest.fn(),
 }));
 
+jest.mock('@/server/utils/audit', () => ({
+  recordAuditEvent: jest.fn(),
+}));
+
 const sessionModule = jest.requireMock('@/server/middleware/session');
 const redisSession = jest.requireMock('@/lib/redis/session');
 const msalModule = jest.requireMock('@/server/middleware/msal-auth');
+const auditModule = jest.requireMock('@/server/utils/audit');
 
 describe('withCsrfProtection', () => {
   beforeEach(() => {
@@ -27,6 +33,7 @@ describe('withCsrfProtection', () => {
     sessionModule.requiresCsrfProtection.mockReturnValue(true);
     sessionModule.getSessionFromRequest.mockResolvedValue({
       id: 'session-1',
+      userId: 'user-1',
     });
     sessionModule.getCsrfTokenFromRequest.mockReturnValue('token');
     redisSession.validateCsrfToken.mockResolvedValue(true);
@@ -44,6 +51,7 @@ describe('withCsrfProtection', () => {
     const result = await withCsrfProtection(req);
     expect(result.valid).toBe(true);
     expect(redisSession.validateCsrfToken).toHaveBeenCalled();
+    expect(auditModule.recordAuditEvent).not.toHaveBeenCalled();
   });
 
   it('rejects missing token', async () => {
@@ -52,6 +60,32 @@ describe('withCsrfProtection', () => {
     const result = await withCsrfProtection(req);
     expect(result.valid).toBe(false);
     expect(result.error?.status).toBe(401);
+    expect(auditModule.recordAuditEvent).toHaveBeenCalledWith(req, {
+      type: 'auth.csrf_rejected',
+      actorId: 'user-1',
+      tenantId: 'tenant-1',
+      details: { reason: 'missing_token' },
+    });
+  });
+
+  it('only logs rejections of requests without a session', async () => {
+    sessionModule.getSessionFromRequest.mockResolvedValue(null);
+    const req = new NextRequest('http://localhost', { method: 'POST' });
+    const result = await withCsrfProtection(req);
+    expect(result.valid).toBe(false);
+    expect(result.error?.status).toBe(401);
+    expect(auditModule.recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('audits an invalid token', async () => {
+    redisSession.validateCsrfToken.mockResolvedValue(false);
+    const req = new NextRequest('http://localhost', { method: 'POST' });
+    const result = await withCsrfProtection(req);
+    expect(result.valid).toBe(false);
+    expect(auditModule.recordAuditEvent).toHaveBeenCalledWith(
+      req,
+      expect.objectContaining({ details: { reason: 'invalid_token' } }),
+    );
   });
 
   it('falls back to MSAL token when session is JWT', async () => {
@@ -395,4 +395,51 @@ describe('HIGH-05: Sensitive Data Masking in Logs', () => {
       expect(consoleInfoSpy).toHaveBeenCalled();
     });
   });
+
+  describe('Remote transports', () => {
+    const captureTransport = () => ({
+      name: 'capture',
+      send: jest.fn(),
+      flush: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined),
+    });
+
+    it('should hand transports masked records only', async () => {
+      Object.defineProperty(process.env, 'NODE_ENV', {
+        value: 'production',
+        writable: true,
+        configurable: true,
+      });
+      const { addLogTransport, logWarn } = await import('@/utils/logger');
+      const transport = captureTransport();
+      addLogTransport(transport);
+
+      logWarn('Sign-in failed', {
+        email: 'jane.doe@example.com',
+        refreshToken: 'refresh-token-xyz',
+        attempt: 2,
+      });
+
+      expect(transport.send).toHaveBeenCalledWith({
+        timestamp: expect.any(String),
+        level: 'warn',
+        message: 'Sign-in failed',
+        context: {
+          email: 'j***e@example.com',
+          refreshToken: '[REDACTED]',
+          attempt: 2,
+        },
+      });
+    });
+
+    it('should not send anything while remote logging is disabled', async () => {
+      const { addLogTransport, logError } = await import('@/utils/logger');
+      const transport = captureTransport();
+      addLogTransport(transport);
+
+      logError('Failure', new Error('boom'));
+
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -293,4 +293,31 @@ describe('Security Headers Attack Prevention', () => {
       expect(hsts).toContain('preload');
     });
   });
+
+  describe('Share Link Token Leakage Prevention', () => {
+    it.each(['/share/secret-token', '/api/share/secret-token'])(
+      'should keep %s out of referrers, search indexes and caches',
+      async (path) => {
+        const { proxy } = await import('@/proxy');
+        const request = new NextRequest(`http://localhost:3000${path}`);
+        const response = proxy(request);
+
+        // The token in the URL is the credential, so it must never be sent on
+        expect(response.headers.get('Referrer-Policy')).toBe('no-referrer');
+        expect(response.headers.get('X-Robots-Tag')).toBe('noindex, nofollow');
+        expect(response.headers.get('Cache-Control')).toBe('private, no-store');
+        // The standard security headers still apply
+        expect(response.headers.get('X-Frame-Options')).toBe('DENY');
+        expect(response.headers.get('Content-Security-Policy')).toBeTruthy();
+      },
+    );
+
+    it('should leave other routes on the default referrer policy', async () => {
+      const { proxy } = await import('@/proxy');
+      const request = new NextRequest('http://localhost:3000/chat');
+      const response = proxy(request);
+
+      expect(response.headers.get('X-Robots-Tag')).toBeNull();
+    });
+  });
 });
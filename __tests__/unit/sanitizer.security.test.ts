@@ -223,6 +223,17 @@ describe('HIGH-02: XSS Sanitization Security Tests', () => {
       const clean = sanitizeRichHtml(dirty);
       expect(clean).not.toContain('javascript:');
     });
+
+    it('should only keep syntax highlighting classes and table alignment', () => {
+      const dirty =
+        '<span class="hljs-keyword fixed inset-0">const</span>' +
+        '<td style="text-align:right;position:fixed">1</td>';
+      const clean = sanitizeRichHtml(dirty);
+      expect(clean).toContain('<span class="hljs-keyword">');
+      expect(clean).not.toContain('inset-0');
+      expect(clean).toContain('text-align:right');
+      expect(clean).not.toContain('position');
+    });
   });
 
   describe('sanitizeUrl - URL validation', () => {
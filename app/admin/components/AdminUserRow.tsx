@@ -0,0 +1,226 @@
+/**
+ * AdminUserRow
+ * One user in the admin console: who they are, their sessions, suspension
+ * and lockouts, and the actions an admin can take on them
+ */
+
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { STRINGS } from '@/lib/constants/strings';
+import { isAppRole } from '@/lib/auth/roles';
+import { SECONDS_PER_MINUTE } from '@/lib/constants/common';
+import type { AdminUserDTO } from '@/types/models';
+
+type RowMode = 'view' | 'confirm-sign-out' | 'suspend';
+
+interface AdminUserRowProps {
+  user: AdminUserDTO;
+  disabled?: boolean;
+  onSignOut: (userId: string) => void;
+  onClearLockouts: (userId: string) => void;
+  onSuspend: (userId: string, reason: string) => void;
+  onUnsuspend: (userId: string) => void;
+}
+
+function relative(date: string): string {
+  return formatDistanceToNow(new Date(date), { addSuffix: true });
+}
+
+export function AdminUserRow({
+  user,
+  disabled = false,
+  onSignOut,
+  onClearLockouts,
+  onSuspend,
+  onUnsuspend,
+}: AdminUserRowProps) {
+  const [mode, setMode] = useState<RowMode>('view');
+  const [reason, setReason] = useState('');
+  const displayName = user.name ?? user.email ?? user.id;
+  const roleLabel =
+    user.role && isAppRole(user.role)
+      ? STRINGS.admin.roles[user.role]
+      : user.role;
+
+  const submitSuspension = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = reason.trim();
+    if (!trimmed) return;
+
+    onSuspend(user.id, trimmed);
+    setReason('');
+    setMode('view');
+  };
+
+  return (
+    <li className="flex flex-col gap-2 border-b border-gray-200 py-3 last:border-b-0 dark:border-gray-700">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <div className="flex flex-col overflow-hidden">
+          <span className="truncate text-sm font-medium text-gray-900 dark:text-gray-100">
+            {displayName}
+          </span>
+          {user.email && user.name && (
+            <span className="truncate text-xs text-gray-500 dark:text-gray-400">
+              {user.email}
+            </span>
+          )}
+        </div>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {roleLabel && `${roleLabel} · `}
+          {STRINGS.admin.lastSeen(relative(user.lastSeenAt))}
+        </span>
+      </div>
+
+      <div className="text-xs text-gray-600 dark:text-gray-300">
+        <p>{STRINGS.admin.sessions(user.sessions.length)}</p>
+        {user.sessions.length > 0 && (
+          <ul className="mt-1 list-inside list-disc">
+            {user.sessions.map((session) => (
+              <li key={session.fingerprint}>
+                {STRINGS.admin.sessionDetails(
+                  session.ipAddress ?? STRINGS.admin.unknownIp,
+                  relative(session.lastActivityAt ?? session.createdAt),
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {user.suspension && (
+        <p className="text-xs text-red-700 dark:text-red-400">
+          {STRINGS.admin.suspended(
+            user.suspension.suspendedBy,
+            user.suspension.reason,
+          )}
+        </p>
+      )}
+      {user.lockouts.map((lockout) => (
+        <p
+          key={lockout.endpoint}
+          className="text-xs text-amber-700 dark:text-amber-400"
+        >
+          {STRINGS.admin.lockedOut(
+            lockout.endpoint,
+            Math.ceil(lockout.retryAfter / SECONDS_PER_MINUTE),
+          )}
+        </p>
+      ))}
+
+      {mode === 'confirm-sign-out' ? (
+        <div className="flex items-center gap-2" role="group">
+          <span className="text-xs text-red-700 dark:text-red-400">
+            {STRINGS.admin.confirmSignOut}
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            variant="destructive"
+            className="h-7 px-2"
+            disabled={disabled}
+            onClick={() => {
+              setMode('view');
+              onSignOut(user.id);
+            }}
+          >
+            {STRINGS.admin.confirm}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2"
+            onClick={() => setMode('view')}
+          >
+            {STRINGS.admin.cancel}
+          </Button>
+        </div>
+      ) : mode === 'suspend' ? (
+        <form className="flex items-center gap-2" onSubmit={submitSuspension}>
+          <Input
+            className="h-8"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            aria-label={STRINGS.admin.suspendReasonLabel}
+            placeholder={STRINGS.admin.suspendReasonPlaceholder}
+            autoFocus
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="destructive"
+            className="h-7 px-2"
+            disabled={disabled || !reason.trim()}
+          >
+            {STRINGS.admin.suspend}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2"
+            onClick={() => setMode('view')}
+          >
+            {STRINGS.admin.cancel}
+          </Button>
+        </form>
+      ) : (
+        <div
+          className="flex flex-wrap gap-1"
+          role="group"
+          aria-label={STRINGS.admin.actionsFor(displayName)}
+        >
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2 text-xs"
+            disabled={disabled}
+            onClick={() => setMode('confirm-sign-out')}
+          >
+            {STRINGS.admin.signOut}
+          </Button>
+          {user.lockouts.length > 0 && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              disabled={disabled}
+              onClick={() => onClearLockouts(user.id)}
+            >
+              {STRINGS.admin.clearLockouts}
+            </Button>
+          )}
+          {user.suspension ? (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              disabled={disabled}
+              onClick={() => onUnsuspend(user.id)}
+            >
+              {STRINGS.admin.unsuspend}
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs text-red-600 hover:text-red-700 dark:text-red-400"
+              disabled={disabled}
+              onClick={() => setMode('suspend')}
+            >
+              {STRINGS.admin.suspend}
+            </Button>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
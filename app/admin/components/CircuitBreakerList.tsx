@@ -0,0 +1,60 @@
+/**
+ * CircuitBreakerList
+ * State of each circuit breaker, with failures and the next trial request
+ */
+
+'use client';
+
+import { cn } from '@/lib/utils/cn';
+import { STRINGS } from '@/lib/constants/strings';
+import type { CircuitBreakerDTO } from '@/types/models';
+
+const STATE_CLASSES: Record<CircuitBreakerDTO['state'], string> = {
+  CLOSED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  OPEN: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  HALF_OPEN:
+    'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+};
+
+export function CircuitBreakerList({
+  breakers,
+}: {
+  breakers: CircuitBreakerDTO[];
+}) {
+  return (
+    <ul
+      className="flex flex-col gap-3"
+      aria-label={STRINGS.admin.circuitBreakersTitle}
+    >
+      {breakers.map((breaker) => (
+        <li key={breaker.name} className="flex flex-col gap-1 text-sm">
+          <div className="flex items-center justify-between gap-4">
+            <span className="font-medium text-gray-900 dark:text-gray-100">
+              {breaker.name}
+            </span>
+            <span
+              className={cn(
+                'rounded-full px-2 py-0.5 text-xs font-medium',
+                STATE_CLASSES[breaker.state],
+              )}
+            >
+              {STRINGS.admin.breakerState[breaker.state]}
+            </span>
+          </div>
+          {breaker.failureCount > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {STRINGS.admin.breakerFailures(breaker.failureCount)}
+            </span>
+          )}
+          {breaker.nextAttemptAt && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {STRINGS.admin.breakerRetry(
+                new Date(breaker.nextAttemptAt).toLocaleTimeString(),
+              )}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * useAdminUsers Hook
+ * Pages through the user directory and runs the admin actions on a user
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth/useAuth';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+import { buildChatAuthHeaders } from '@/app/chat/utils/authHeaders';
+import { sendChatAction } from '@/app/chat/utils/chatApi';
+import type { AdminUserDTO } from '@/types/models';
+import { STRINGS } from '@/lib/constants/strings';
+
+export const ADMIN_USERS_PAGE_SIZE = 25;
+
+interface AdminUsersPage {
+  users: AdminUserDTO[];
+  total: number;
+}
+
+type AdminUserAction =
+  | { type: 'signOut'; userId: string }
+  | { type: 'clearLockouts'; userId: string }
+  | { type: 'suspend'; userId: string; reason: string }
+  | { type: 'unsuspend'; userId: string };
+
+async function fetchAdminUsers(
+  offset: number,
+  accessToken: string | null,
+): Promise<AdminUsersPage> {
+  const headers = await buildChatAuthHeaders(accessToken);
+  const response = await fetch(
+    `/api/admin/users?offset=${offset}&limit=${ADMIN_USERS_PAGE_SIZE}`,
+    { headers },
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || STRINGS.errors.adminFailed);
+  }
+
+  const data = await response.json();
+  return { users: data.data, total: data.meta?.pagination?.total ?? 0 };
+}
+
+function runAdminUserAction(
+  action: AdminUserAction,
+  accessToken: string | null,
+): Promise<unknown> {
+  const userUrl = `/api/admin/users/${encodeURIComponent(action.userId)}`;
+  const fallbackError = STRINGS.errors.adminActionFailed;
+
+  switch (action.type) {
+    case 'signOut':
+      return sendChatAction(
+        'DELETE',
+        `${userUrl}/sessions`,
+        {},
+        accessToken,
+        fallbackError,
+      );
+    case 'clearLockouts':
+      return sendChatAction(
+        'DELETE',
+        `${userUrl}/lockouts`,
+        {},
+        accessToken,
+        fallbackError,
+      );
+    case 'suspend':
+      return sendChatAction(
+        'PUT',
+        `${userUrl}/suspension`,
+        { reason: action.reason },
+        accessToken,
+        fallbackError,
+      );
+    case 'unsuspend':
+      return sendChatAction(
+        'DELETE',
+        `${userUrl}/suspension`,
+        {},
+        accessToken,
+        fallbackError,
+      );
+  }
+}
+
+export function useAdminUsers(offset: number) {
+  const queryClient = useQueryClient();
+  const { accessToken } = useAuth();
+
+  const usersQuery = useQuery({
+    queryKey: [...queryKeys.adminUsers, offset],
+    queryFn: () => fetchAdminUsers(offset, accessToken),
+    enabled: Boolean(accessToken),
+  });
+
+  const actionMutation = useMutation<unknown, Error, AdminUserAction>({
+    mutationFn: (action) => runAdminUserAction(action, accessToken),
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers }),
+  });
+
+  return {
+    users: usersQuery.data?.users ?? [],
+    total: usersQuery.data?.total ?? 0,
+    // Pending covers the wait for an access token too
+    isLoading: usersQuery.isPending,
+    error: usersQuery.error,
+    runAction: (action: AdminUserAction) => actionMutation.mutate(action),
+    isActionPending: actionMutation.isPending,
+    actionError: actionMutation.error,
+  };
+}
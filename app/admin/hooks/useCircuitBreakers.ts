@@ -0,0 +1,47 @@
+/**
+ * useCircuitBreakers Hook
+ * Polls the Redis and LLM circuit breaker states
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth/useAuth';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+import { buildChatAuthHeaders } from '@/app/chat/utils/authHeaders';
+import type { CircuitBreakerDTO } from '@/types/models';
+import { STRINGS } from '@/lib/constants/strings';
+
+const REFRESH_INTERVAL_MS = 15000;
+
+async function fetchCircuitBreakers(
+  accessToken: string | null,
+): Promise<CircuitBreakerDTO[]> {
+  const headers = await buildChatAuthHeaders(accessToken);
+  const response = await fetch('/api/admin/circuit-breakers', { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || STRINGS.errors.adminFailed);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+export function useCircuitBreakers() {
+  const { accessToken } = useAuth();
+
+  const breakersQuery = useQuery({
+    queryKey: queryKeys.circuitBreakers,
+    queryFn: () => fetchCircuitBreakers(accessToken),
+    enabled: Boolean(accessToken),
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  return {
+    breakers: breakersQuery.data ?? [],
+    isLoading: breakersQuery.isPending,
+    error: breakersQuery.error,
+  };
+}
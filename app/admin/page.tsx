@@ -0,0 +1,211 @@
+/**
+ * Admin Page
+ * Console for holders of the admin app role: users and their sessions,
+ * suspensions and lockouts, and circuit breaker health
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ChatSignInPrompt } from '@/app/chat/components/ChatSignInPrompt';
+import { Button, buttonVariants } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { EmptyState } from '@/components/ui/empty-state';
+import { ChatIcon, LoadingSpinner } from '@/components/ui/icons';
+import { useAuth } from '@/lib/auth/useAuth';
+import { DEFAULT_APP_ROLE, hasAppRole } from '@/lib/auth/roles';
+import { STRINGS } from '@/lib/constants/strings';
+import { ADMIN_USERS_PAGE_SIZE, useAdminUsers } from './hooks/useAdminUsers';
+import { useCircuitBreakers } from './hooks/useCircuitBreakers';
+import { AdminUserRow } from './components/AdminUserRow';
+import { CircuitBreakerList } from './components/CircuitBreakerList';
+
+function Loading() {
+  return (
+    <div
+      className="flex justify-center py-8"
+      role="status"
+      aria-label={STRINGS.admin.loading}
+    >
+      <LoadingSpinner className="h-6 w-6" />
+    </div>
+  );
+}
+
+function ErrorMessage({ message }: { message: string }) {
+  return (
+    <p className="rounded-md bg-red-50 p-4 text-sm text-red-800" role="alert">
+      {message}
+    </p>
+  );
+}
+
+function UsersCard() {
+  const [offset, setOffset] = useState(0);
+  const {
+    users,
+    total,
+    isLoading,
+    error,
+    runAction,
+    isActionPending,
+    actionError,
+  } = useAdminUsers(offset);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{STRINGS.admin.usersTitle}</CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {actionError && <ErrorMessage message={actionError.message} />}
+
+        {isLoading ? (
+          <Loading />
+        ) : error ? (
+          <ErrorMessage message={error.message} />
+        ) : users.length === 0 ? (
+          <EmptyState
+            className="py-8"
+            icon={<ChatIcon />}
+            title={STRINGS.admin.noUsers}
+          />
+        ) : (
+          <>
+            <ul aria-label={STRINGS.admin.usersTitle}>
+              {users.map((user) => (
+                <AdminUserRow
+                  key={user.id}
+                  user={user}
+                  disabled={isActionPending}
+                  onSignOut={(userId) => runAction({ type: 'signOut', userId })}
+                  onClearLockouts={(userId) =>
+                    runAction({ type: 'clearLockouts', userId })
+                  }
+                  onSuspend={(userId, reason) =>
+                    runAction({ type: 'suspend', userId, reason })
+                  }
+                  onUnsuspend={(userId) =>
+                    runAction({ type: 'unsuspend', userId })
+                  }
+                />
+              ))}
+            </ul>
+
+            <div className="flex items-center justify-between gap-4 text-sm text-gray-500 dark:text-gray-400">
+              <span>
+                {STRINGS.admin.pageRange(
+                  offset + 1,
+                  offset + users.length,
+                  total,
+                )}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={offset === 0}
+                  onClick={() =>
+                    setOffset(Math.max(0, offset - ADMIN_USERS_PAGE_SIZE))
+                  }
+                >
+                  {STRINGS.admin.previousPage}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={offset + users.length >= total}
+                  onClick={() => setOffset(offset + ADMIN_USERS_PAGE_SIZE)}
+                >
+                  {STRINGS.admin.nextPage}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CircuitBreakersCard() {
+  const { breakers, isLoading, error } = useCircuitBreakers();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">
+          {STRINGS.admin.circuitBreakersTitle}
+        </CardTitle>
+        <CardDescription>{STRINGS.admin.circuitBreakersNote}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loading />
+        ) : error ? (
+          <ErrorMessage message={error.message} />
+        ) : (
+          <CircuitBreakerList breakers={breakers} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminPage() {
+  const {
+    isAuthenticated,
+    user,
+    login,
+    isLoading: isAuthLoading,
+    error: authError,
+  } = useAuth();
+
+  if (!isAuthenticated) {
+    return (
+      <ChatSignInPrompt
+        onLogin={() => void login()}
+        isLoading={isAuthLoading}
+        errorMessage={authError?.message}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] dark:bg-gray-900">
+      <header className="flex items-center justify-between gap-4 border-b border-gray-200 px-6 py-4 dark:border-gray-700">
+        <div>
+          <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            {STRINGS.admin.pageTitle}
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {STRINGS.admin.description}
+          </p>
+        </div>
+        <Link href="/chat" className={buttonVariants({ variant: 'outline' })}>
+          {STRINGS.admin.backToChat}
+        </Link>
+      </header>
+
+      <main className="mx-auto flex max-w-5xl flex-col gap-4 p-4">
+        {hasAppRole(user?.appRole ?? DEFAULT_APP_ROLE, 'admin') ? (
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="md:col-span-2">
+              <UsersCard />
+            </div>
+            <CircuitBreakersCard />
+          </div>
+        ) : (
+          <ErrorMessage message={STRINGS.admin.forbidden} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * Admin Audit Log API Endpoint
+ * GET /api/admin/audit?type=&actorId=&from=&to=&limit=50 - Audit events of
+ *   the admin's tenant, newest first; pass `before=<nextCursor>` for the
+ *   next page
+ * GET /api/admin/audit?format=csv - Download the same page as CSV
+ *
+ * Requires the admin app role.
+ */
+
+import { NextRequest } from 'next/server';
+import { requireAdminSession } from '@/server/middleware/admin-auth';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import { getSessionTenantId } from '@/server/middleware/session';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  forbidden,
+  serverError,
+} from '@/server/api-response';
+import { queryAuditEvents } from '@/lib/redis/audit';
+import { exportAuditEvents } from '@/lib/audit/export';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { ForbiddenError } from '@/utils/error-handler';
+import { auditQuerySchema } from '@/lib/validation/chat.schema';
+import { auditEventToDTO } from '@/types/models';
+
+const QUERY_PARAMS = [
+  'type',
+  'actorId',
+  'from',
+  'to',
+  'before',
+  'limit',
+  'format',
+] as const;
+
+async function handleAdminAuditGet(request: NextRequest): Promise<Response> {
+  try {
+    const admin = await requireAdminSession(request);
+
+    const { searchParams } = request.nextUrl;
+    const queryValidation = auditQuerySchema.safeParse(
+      Object.fromEntries(
+        QUERY_PARAMS.map((param) => [
+          param,
+          searchParams.get(param) || undefined,
+        ]),
+      ),
+    );
+
+    if (!queryValidation.success) {
+      return badRequest('Invalid query parameters', {
+        errors: queryValidation.error.errors,
+      });
+    }
+
+    const { format, ...query } = queryValidation.data;
+    const { events, nextCursor } = await queryAuditEvents({
+      ...query,
+      tenantId: getSessionTenantId(admin),
+    });
+    const dtos = events.map(auditEventToDTO);
+
+    if (format === 'csv') {
+      const { body, contentType, filename } = exportAuditEvents(dtos, format);
+
+      return new Response(body, {
+        headers: {
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+
+    return success(
+      dtos,
+      {
+        pagination: {
+          limit: query.limit,
+          hasMore: nextCursor !== null,
+          nextCursor,
+        },
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } },
+    );
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return forbidden(error.message);
+    }
+
+    logError('Admin audit query error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to query audit log');
+  }
+}
+
+export const GET = requireRateLimit(
+  RATE_LIMITS.API_DEFAULT,
+  handleAdminAuditGet,
+);
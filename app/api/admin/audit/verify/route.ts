@@ -0,0 +1,67 @@
+/**
+ * Admin Audit Chain Verification API Endpoint
+ * GET /api/admin/audit/verify?count=1000 - Re-hash the oldest stretch of the
+ *   audit log; pass `after=<cursor>` to continue where the last stretch ended
+ *
+ * Requires the admin app role.
+ */
+
+import { NextRequest } from 'next/server';
+import { requireAdminSession } from '@/server/middleware/admin-auth';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  forbidden,
+  serverError,
+} from '@/server/api-response';
+import { verifyAuditChain } from '@/lib/redis/audit';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError, logWarn } from '@/utils/logger';
+import { ForbiddenError } from '@/utils/error-handler';
+import { verifyAuditChainSchema } from '@/lib/validation/chat.schema';
+
+async function handleAuditVerify(request: NextRequest): Promise<Response> {
+  try {
+    await requireAdminSession(request);
+
+    const queryValidation = verifyAuditChainSchema.safeParse({
+      after: request.nextUrl.searchParams.get('after') || undefined,
+      count: request.nextUrl.searchParams.get('count') || undefined,
+    });
+
+    if (!queryValidation.success) {
+      return badRequest('Invalid query parameters', {
+        errors: queryValidation.error.errors,
+      });
+    }
+
+    const { after, count } = queryValidation.data;
+    const verification = await verifyAuditChain(after, count);
+
+    if (!verification.valid) {
+      logWarn('Audit log chain is broken', {
+        brokenAt: verification.brokenAt,
+      });
+    }
+
+    return success(verification, undefined, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return forbidden(error.message);
+    }
+
+    logError('Audit chain verification error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to verify audit log');
+  }
+}
+
+export const GET = requireRateLimit(RATE_LIMITS.API_DEFAULT, handleAuditVerify);
@@ -0,0 +1,54 @@
+/**
+ * Admin Circuit Breakers API Endpoint
+ * GET /api/admin/circuit-breakers - State of the Redis and LLM circuit
+ * breakers
+ *
+ * Requires the admin app role. Breakers live in process memory, so this
+ * reports the instance that served the request.
+ */
+
+import { NextRequest } from 'next/server';
+import { requireAdminSession } from '@/server/middleware/admin-auth';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  unauthorized,
+  forbidden,
+  serverError,
+} from '@/server/api-response';
+import { redisCircuitBreaker } from '@/lib/redis/circuit-breaker';
+import { getCircuitBreaker } from '@/lib/llm/service';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { ForbiddenError } from '@/utils/error-handler';
+
+async function handleCircuitBreakersGet(
+  request: NextRequest,
+): Promise<Response> {
+  try {
+    await requireAdminSession(request);
+
+    return success(
+      [redisCircuitBreaker.getSnapshot(), getCircuitBreaker().getSnapshot()],
+      undefined,
+      { headers: { 'Cache-Control': 'private, no-store' } },
+    );
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return forbidden(error.message);
+    }
+
+    logError('Admin circuit breakers error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to read circuit breakers');
+  }
+}
+
+export const GET = requireRateLimit(
+  RATE_LIMITS.API_DEFAULT,
+  handleCircuitBreakersGet,
+);
@@ -0,0 +1,92 @@
+/**
+ * Admin Lockouts API Endpoint
+ * DELETE /api/admin/users/[userId]/lockouts - Lift the user's chat and
+ * sign-in lockouts and reset their rate-limit counters
+ *
+ * Requires the admin app role.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  isUserInAdminTenant,
+  requireAdminSession,
+} from '@/server/middleware/admin-auth';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { getSessionTenantId } from '@/server/middleware/session';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import { clearLockouts } from '@/server/middleware/enhanced-rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  forbidden,
+  notFound,
+  serverError,
+} from '@/server/api-response';
+import { auditAdminAction } from '@/server/utils/admin-audit';
+import { userRateLimitIdentifier } from '@/lib/redis/keys';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { ForbiddenError } from '@/utils/error-handler';
+
+interface RouteContext {
+  params: Promise<{ userId: string }>;
+}
+
+async function handleClearLockouts(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    const admin = await requireAdminSession(request);
+
+    const { userId } = await context.params;
+
+    if (!userId) {
+      return badRequest('User ID is required');
+    }
+
+    if (!(await isUserInAdminTenant(admin, userId))) {
+      return notFound('User');
+    }
+
+    const liftedCount = await clearLockouts(
+      userRateLimitIdentifier(getSessionTenantId(admin), userId),
+    );
+
+    await auditAdminAction(request, admin, 'user.lockouts_cleared', userId, {
+      liftedCount,
+    });
+
+    return success(
+      { userId, liftedCount },
+      { message: 'Lockouts cleared successfully' },
+    );
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return forbidden(error.message);
+    }
+
+    logError('Admin clear lockouts error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to clear lockouts');
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleClearLockouts(req, context),
+  );
+  return limitedHandler(request);
+}
@@ -0,0 +1,88 @@
+/**
+ * Admin Force Sign-Out API Endpoint
+ * DELETE /api/admin/users/[userId]/sessions - End every session the user
+ * has and refuse the access tokens they already hold
+ *
+ * Requires the admin app role.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  isUserInAdminTenant,
+  requireAdminSession,
+} from '@/server/middleware/admin-auth';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  forbidden,
+  notFound,
+  serverError,
+} from '@/server/api-response';
+import { auditAdminAction } from '@/server/utils/admin-audit';
+import { revokeUserSessions } from '@/lib/redis/session';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { ForbiddenError } from '@/utils/error-handler';
+
+interface RouteContext {
+  params: Promise<{ userId: string }>;
+}
+
+async function handleForceSignOut(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    const admin = await requireAdminSession(request);
+
+    const { userId } = await context.params;
+
+    if (!userId) {
+      return badRequest('User ID is required');
+    }
+
+    if (!(await isUserInAdminTenant(admin, userId))) {
+      return notFound('User');
+    }
+
+    const endedCount = await revokeUserSessions(userId);
+
+    await auditAdminAction(request, admin, 'user.sign_out', userId, {
+      endedCount,
+    });
+
+    return success(
+      { userId, endedCount },
+      { message: 'User signed out successfully' },
+    );
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return forbidden(error.message);
+    }
+
+    logError('Admin force sign-out error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to sign out user');
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleForceSignOut(req, context),
+  );
+  return limitedHandler(request);
+}
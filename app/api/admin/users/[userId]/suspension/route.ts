@@ -0,0 +1,157 @@
+/**
+ * Admin Suspension API Endpoint
+ * PUT /api/admin/users/[userId]/suspension - Suspend the user from chatting
+ * DELETE /api/admin/users/[userId]/suspension - Lift the suspension
+ *
+ * Requires the admin app role. Suspended users can still sign in and read
+ * their chats; sending messages is refused.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  isUserInAdminTenant,
+  requireAdminSession,
+} from '@/server/middleware/admin-auth';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  forbidden,
+  notFound,
+  serverError,
+} from '@/server/api-response';
+import { auditAdminAction } from '@/server/utils/admin-audit';
+import { suspendUser, unsuspendUser } from '@/lib/redis/users';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { ForbiddenError } from '@/utils/error-handler';
+import { suspendUserSchema } from '@/lib/validation/chat.schema';
+import { userSuspensionToDTO } from '@/types/models';
+
+interface RouteContext {
+  params: Promise<{ userId: string }>;
+}
+
+function handleAdminError(error: unknown, fallbackMessage: string): Response {
+  if (error instanceof ForbiddenError) {
+    return forbidden(error.message);
+  }
+
+  logError('Admin suspension error', error);
+
+  if (error instanceof Error && error.message.includes('Unauthorized')) {
+    return unauthorized();
+  }
+
+  return serverError(fallbackMessage);
+}
+
+async function handleSuspend(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    const admin = await requireAdminSession(request);
+
+    const { userId } = await context.params;
+
+    if (!userId) {
+      return badRequest('User ID is required');
+    }
+
+    if (!(await isUserInAdminTenant(admin, userId))) {
+      return notFound('User');
+    }
+
+    if (userId === admin.userId) {
+      return badRequest('Admins cannot suspend themselves');
+    }
+
+    const validation = suspendUserSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const suspension = await suspendUser(userId, {
+      reason: validation.data.reason,
+      suspendedBy:
+        typeof admin.data.email === 'string' ? admin.data.email : admin.userId,
+    });
+
+    await auditAdminAction(request, admin, 'user.suspend', userId, {
+      reason: suspension.reason,
+    });
+
+    return success(
+      { userId, suspension: userSuspensionToDTO(suspension) },
+      { message: 'User suspended successfully' },
+    );
+  } catch (error) {
+    return handleAdminError(error, 'Failed to suspend user');
+  }
+}
+
+async function handleUnsuspend(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    const admin = await requireAdminSession(request);
+
+    const { userId } = await context.params;
+
+    if (!userId) {
+      return badRequest('User ID is required');
+    }
+
+    if (!(await isUserInAdminTenant(admin, userId))) {
+      return notFound('User');
+    }
+
+    if (!(await unsuspendUser(userId))) {
+      return notFound('Suspension');
+    }
+
+    await auditAdminAction(request, admin, 'user.unsuspend', userId, {});
+
+    return success(
+      { userId, suspension: null },
+      { message: 'Suspension lifted successfully' },
+    );
+  } catch (error) {
+    return handleAdminError(error, 'Failed to lift suspension');
+  }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleSuspend(req, context),
+  );
+  return limitedHandler(request);
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleUnsuspend(req, context),
+  );
+  return limitedHandler(request);
+}
@@ -0,0 +1,128 @@
+/**
+ * Admin Users API Endpoint
+ * GET /api/admin/users?offset=0&limit=50 - Users of the admin's tenant who
+ * have signed in, most recently seen first, with their active sessions,
+ * suspension and lockouts
+ *
+ * Requires the admin app role.
+ */
+
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { requireAdminSession } from '@/server/middleware/admin-auth';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import { getSessionTenantId } from '@/server/middleware/session';
+import { getLockouts } from '@/server/middleware/enhanced-rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  forbidden,
+  serverError,
+} from '@/server/api-response';
+import { getUserSessions } from '@/lib/redis/session';
+import { getUserSuspension, listUsers } from '@/lib/redis/users';
+import { userRateLimitIdentifier } from '@/lib/redis/keys';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { ForbiddenError } from '@/utils/error-handler';
+import { listAdminUsersSchema } from '@/lib/validation/chat.schema';
+import {
+  userSuspensionToDTO,
+  type AdminSessionDTO,
+  type AdminUserDTO,
+  type SessionModel,
+  type UserProfileModel,
+} from '@/types/models';
+
+const SESSION_FINGERPRINT_LENGTH = 12;
+
+function sessionToAdminDTO(session: SessionModel): AdminSessionDTO {
+  const { ipAddress, userAgent, lastActivityAt } = session.data;
+
+  return {
+    fingerprint: createHash('sha256')
+      .update(session.id)
+      .digest('hex')
+      .slice(0, SESSION_FINGERPRINT_LENGTH),
+    ipAddress: ipAddress ?? null,
+    userAgent: userAgent ?? null,
+    createdAt: session.createdAt.toISOString(),
+    lastActivityAt: lastActivityAt
+      ? new Date(lastActivityAt).toISOString()
+      : null,
+    expiresAt: session.expiresAt.toISOString(),
+  };
+}
+
+async function toAdminUser(profile: UserProfileModel): Promise<AdminUserDTO> {
+  const [sessions, suspension, lockouts] = await Promise.all([
+    getUserSessions(profile.id),
+    getUserSuspension(profile.id),
+    getLockouts(
+      userRateLimitIdentifier(profile.tenantId ?? undefined, profile.id),
+    ),
+  ]);
+
+  return {
+    ...profile,
+    lastSeenAt: profile.lastSeenAt.toISOString(),
+    sessions: sessions.map(sessionToAdminDTO),
+    suspension: suspension ? userSuspensionToDTO(suspension) : null,
+    lockouts,
+  };
+}
+
+async function handleAdminUsersGet(request: NextRequest): Promise<Response> {
+  try {
+    const admin = await requireAdminSession(request);
+
+    const queryValidation = listAdminUsersSchema.safeParse({
+      offset: request.nextUrl.searchParams.get('offset') || undefined,
+      limit: request.nextUrl.searchParams.get('limit') || undefined,
+    });
+
+    if (!queryValidation.success) {
+      return badRequest('Invalid query parameters', {
+        errors: queryValidation.error.errors,
+      });
+    }
+
+    const { offset, limit } = queryValidation.data;
+    const { users, total } = await listUsers(
+      getSessionTenantId(admin),
+      offset,
+      limit,
+    );
+
+    return success(
+      await Promise.all(users.map(toAdminUser)),
+      {
+        pagination: {
+          offset,
+          limit,
+          total,
+          hasMore: offset + users.length < total,
+        },
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } },
+    );
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return forbidden(error.message);
+    }
+
+    logError('Admin users list error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to list users');
+  }
+}
+
+export const GET = requireRateLimit(
+  RATE_LIMITS.API_DEFAULT,
+  handleAdminUsersGet,
+);
@@ -0,0 +1,91 @@
+/**
+ * Chat Delete API Endpoint
+ * POST /api/chat/[chatId]/delete - Delete a chat and its messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  requireSession,
+  getSessionTenantId,
+} from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  forbidden,
+  notFound,
+  serverError,
+} from '@/server/api-response';
+import { getChatRepository } from '@/lib/chat/repository';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError, logInfo } from '@/utils/logger';
+
+interface RouteContext {
+  params: Promise<{ chatId: string }>;
+}
+
+async function handleChatDelete(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+    const chatRepository = getChatRepository(getSessionTenantId(session));
+
+    const { chatId } = await context.params;
+
+    if (!chatId) {
+      return badRequest('Chat ID is required');
+    }
+
+    const chat = await chatRepository.getChat(chatId);
+
+    // SECURITY (HIGH-01): Same response for missing and foreign chats (IDOR)
+    if (!chat || chat.userId !== session.userId) {
+      return notFound('Chat');
+    }
+
+    if (chat.legalHold) {
+      return forbidden('Chat is under legal hold and cannot be deleted');
+    }
+
+    const deleted = await chatRepository.deleteChat(chatId);
+    if (!deleted) {
+      return serverError('Failed to delete chat');
+    }
+
+    logInfo('Chat deleted', { chatId, userId: session.userId });
+
+    return success(
+      { id: chatId },
+      {
+        message: 'Chat deleted successfully',
+      },
+    );
+  } catch (error) {
+    logError('Chat delete error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to delete chat');
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleChatDelete(req, context),
+  );
+  return limitedHandler(request);
+}
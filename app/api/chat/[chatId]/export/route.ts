@@ -0,0 +1,98 @@
+/**
+ * Chat Export API Endpoint
+ * GET /api/chat/[chatId]/export?format=markdown|json|html - Download a chat
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  requireSession,
+  getSessionTenantId,
+} from '@/server/middleware/session';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  badRequest,
+  unauthorized,
+  notFound,
+  serverError,
+} from '@/server/api-response';
+import { getChatRepository } from '@/lib/chat/repository';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { chatToDTO, messageToDTO } from '@/types/models';
+import { exportChat } from '@/lib/chat/export';
+import { exportChatSchema } from '@/lib/validation/chat.schema';
+
+// Exports cover the whole history, not a page of it
+const EXPORT_MESSAGE_LIMIT = 10000;
+
+interface RouteContext {
+  params: Promise<{ chatId: string }>;
+}
+
+async function handleChatExport(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+    const chatRepository = getChatRepository(getSessionTenantId(session));
+
+    const { chatId } = await context.params;
+
+    if (!chatId) {
+      return badRequest('Chat ID is required');
+    }
+
+    const queryValidation = exportChatSchema.safeParse({
+      format: request.nextUrl.searchParams.get('format') || undefined,
+    });
+
+    if (!queryValidation.success) {
+      return badRequest('Invalid query parameters', {
+        errors: queryValidation.error.errors,
+      });
+    }
+
+    const chat = await chatRepository.getChat(chatId);
+
+    // SECURITY (HIGH-01): Same response for missing and foreign chats (IDOR)
+    if (!chat || chat.userId !== session.userId) {
+      return notFound('Chat');
+    }
+
+    const messages = await chatRepository.getChatMessages(
+      chatId,
+      0,
+      EXPORT_MESSAGE_LIMIT,
+    );
+    const { body, contentType, filename } = exportChat(
+      { ...chatToDTO(chat), messages: messages.map(messageToDTO) },
+      queryValidation.data.format,
+    );
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    logError('Chat export error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to export chat');
+  }
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleChatExport(req, context),
+  );
+  return limitedHandler(request);
+}
@@ -0,0 +1,78 @@
+/**
+ * Chat Legal Hold API Endpoint
+ * PUT /api/chat/[chatId]/legal-hold - Place or lift a legal hold
+ *
+ * Operator-only. A held chat is skipped by the retention sweeper and
+ * cannot be deleted by its owner.
+ */
+
+import { NextRequest } from 'next/server';
+import { isOperatorRequest } from '@/server/middleware/operator-auth';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  notFound,
+  serverError,
+} from '@/server/api-response';
+import { getChatRepository } from '@/lib/chat/repository';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError, logInfo } from '@/utils/logger';
+import { chatToDTO } from '@/types/models';
+import { legalHoldSchema } from '@/lib/validation/chat.schema';
+
+interface RouteContext {
+  params: Promise<{ chatId: string }>;
+}
+
+async function handleLegalHoldUpdate(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    if (!isOperatorRequest(request)) {
+      return unauthorized();
+    }
+
+    const { chatId } = await context.params;
+
+    if (!chatId) {
+      return badRequest('Chat ID is required');
+    }
+
+    const validation = legalHoldSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const { legalHold, tenantId } = validation.data;
+    const chat = await getChatRepository(tenantId).setChatLegalHold(
+      chatId,
+      legalHold,
+    );
+    if (!chat) {
+      return notFound('Chat');
+    }
+
+    logInfo('Chat legal hold updated', { chatId, tenantId, legalHold });
+
+    return success(chatToDTO(chat), {
+      message: 'Legal hold updated successfully',
+    });
+  } catch (error) {
+    logError('Legal hold update error', error);
+    return serverError('Failed to update legal hold');
+  }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleLegalHoldUpdate(req, context),
+  );
+  return limitedHandler(request);
+}
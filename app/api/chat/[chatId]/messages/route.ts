@@ -0,0 +1,98 @@
+/**
+ * Chat Messages API Endpoint
+ * GET /api/chat/[chatId]/messages - Get a page of chat messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  requireSession,
+  getSessionTenantId,
+} from '@/server/middleware/session';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  notFound,
+} from '@/server/api-response';
+import { getChatRepository } from '@/lib/chat/repository';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { messageToDTO } from '@/types/models';
+import { getMessagesSchema } from '@/lib/validation/chat.schema';
+
+const DEFAULT_OFFSET_PARAM = '0';
+const DEFAULT_LIMIT_PARAM = '50';
+
+interface RouteContext {
+  params: Promise<{ chatId: string }>;
+}
+
+async function handleMessagesGet(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+    const chatRepository = getChatRepository(getSessionTenantId(session));
+
+    const { chatId } = await context.params;
+
+    if (!chatId) {
+      return badRequest('Chat ID is required');
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const queryValidation = getMessagesSchema.safeParse({
+      offset: searchParams.get('offset') || DEFAULT_OFFSET_PARAM,
+      limit: searchParams.get('limit') || DEFAULT_LIMIT_PARAM,
+    });
+
+    if (!queryValidation.success) {
+      return badRequest('Invalid query parameters', {
+        errors: queryValidation.error.errors,
+      });
+    }
+
+    const { offset, limit } = queryValidation.data;
+
+    const chat = await chatRepository.getChat(chatId);
+
+    // SECURITY (HIGH-01): Same response for missing and foreign chats (IDOR)
+    if (!chat || chat.userId !== session.userId) {
+      return notFound('Chat');
+    }
+
+    const messages = await chatRepository.getChatMessages(
+      chatId,
+      offset,
+      limit,
+    );
+
+    return success(messages.map(messageToDTO), {
+      message: 'Messages retrieved successfully',
+      pagination: {
+        offset,
+        limit,
+        hasMore: messages.length === limit,
+      },
+    });
+  } catch (error) {
+    logError('Chat messages retrieval error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return badRequest('Failed to retrieve messages');
+  }
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleMessagesGet(req, context),
+  );
+  return limitedHandler(request);
+}
@@ -1,23 +1,38 @@
 /**
  * Chat History API Endpoint
- * GET /api/chat/[chatId] - Get chat messages
+ * GET /api/chat/[chatId] - Get a page of chat messages, newest page first;
+ *   pass `before=<nextCursor>` to load the page preceding it
+ * POST /api/chat/[chatId] - Rename or archive a chat
  */
 
 import { NextRequest } from 'next/server';
-import { requireSession } from '@/server/middleware/session';
-import { withChatRateLimit } from '@/server/middleware/rate-limit';
+import {
+  requireSession,
+  getSessionTenantId,
+} from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { checkModelAccess } from '@/server/middleware/role-auth';
+import {
+  requireRateLimit,
+  withChatRateLimit,
+} from '@/server/middleware/rate-limit';
 import {
   success,
   badRequest,
   unauthorized,
   notFound,
+  serverError,
 } from '@/server/api-response';
-import { getChat, getChatMessages } from '@/lib/redis/chat';
+import { recordAuditEvent } from '@/server/utils/audit';
+import { getChatRepository } from '@/lib/chat/repository';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
 import { logError } from '@/utils/logger';
 import { messageToDTO, chatToDTO } from '@/types/models';
-import { getMessagesSchema } from '@/lib/validation/chat.schema';
+import {
+  getChatHistorySchema,
+  updateChatSchema,
+} from '@/lib/validation/chat.schema';
 
-const DEFAULT_OFFSET_PARAM = '0';
 const DEFAULT_LIMIT_PARAM = '50';
 const CACHE_MAX_AGE_SECONDS = 300;
 const PRIVATE_CACHE_CONTROL = `private, max-age=${CACHE_MAX_AGE_SECONDS}`;
@@ -33,6 +48,7 @@ async function handleChatGet(
   try {
     // Require authenticated session
     const session = await requireSession(request);
+    const chatRepository = getChatRepository(getSessionTenantId(session));
 
     // Get chat ID from params
     const { chatId } = await context.params;
@@ -43,8 +59,8 @@ async function handleChatGet(
 
     // Get query parameters for pagination
     const searchParams = request.nextUrl.searchParams;
-    const queryValidation = getMessagesSchema.safeParse({
-      offset: searchParams.get('offset') || DEFAULT_OFFSET_PARAM,
+    const queryValidation = getChatHistorySchema.safeParse({
+      before: searchParams.get('before') || undefined,
       limit: searchParams.get('limit') || DEFAULT_LIMIT_PARAM,
     });
 
@@ -54,20 +70,33 @@ async function handleChatGet(
       });
     }
 
-    const { offset, limit } = queryValidation.data;
+    const { before, limit } = queryValidation.data;
 
     // Get chat
-    const chat = await getChat(chatId);
+    const chat = await chatRepository.getChat(chatId);
 
     // SECURITY (HIGH-01): Combine ownership check to prevent IDOR enumeration
     // Return same error for "not found" and "unauthorized" to prevent
     // attackers from discovering which chat IDs exist
     if (!chat || chat.userId !== session.userId) {
+      if (chat) {
+        await recordAuditEvent(request, {
+          type: 'chat.access_denied',
+          actorId: session.userId,
+          tenantId: getSessionTenantId(session),
+          targetId: chat.userId,
+          details: { chatId },
+        });
+      }
       return notFound('Chat not found');
     }
 
     // Get messages
-    const messages = await getChatMessages(chatId, offset, limit);
+    const { messages, nextCursor } = await chatRepository.getChatMessagePage(
+      chatId,
+      before,
+      limit,
+    );
 
     // Convert to DTOs
     const messagesDTO = messages.map(messageToDTO);
@@ -78,10 +107,9 @@ async function handleChatGet(
         chat: chatDTO,
         messages: messagesDTO,
         pagination: {
-          offset,
           limit,
-          total: messages.length,
-          hasMore: messages.length === limit,
+          nextCursor,
+          hasMore: nextCursor !== null,
         },
       },
       {
@@ -110,3 +138,85 @@ export async function GET(request: NextRequest, context: RouteContext) {
   );
   return limitedHandler(request);
 }
+
+async function handleChatUpdate(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+    const chatRepository = getChatRepository(getSessionTenantId(session));
+
+    const { chatId } = await context.params;
+
+    if (!chatId) {
+      return badRequest('Chat ID is required');
+    }
+
+    const body = await request.json();
+    const validation = updateChatSchema.safeParse(body);
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const updates = validation.data;
+
+    if (Object.keys(updates).length === 0) {
+      return badRequest('No updates provided');
+    }
+
+    const chat = await chatRepository.getChat(chatId);
+
+    // SECURITY (HIGH-01): Same response for missing and foreign chats (IDOR)
+    if (!chat || chat.userId !== session.userId) {
+      return notFound('Chat');
+    }
+
+    if (updates.settings) {
+      const modelAccess = checkModelAccess(session, updates.settings.model);
+      if (!modelAccess.allowed && modelAccess.error) {
+        return modelAccess.error;
+      }
+    }
+
+    const updated = await chatRepository.updateChat(chatId, updates);
+    if (!updated) {
+      return serverError('Failed to update chat');
+    }
+
+    const updatedChat = await chatRepository.getChat(chatId);
+    if (!updatedChat) {
+      return notFound('Chat');
+    }
+
+    return success(chatToDTO(updatedChat), {
+      message: 'Chat updated successfully',
+    });
+  } catch (error) {
+    logError('Chat update error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to update chat');
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleChatUpdate(req, context),
+  );
+  return limitedHandler(request);
+}
@@ -0,0 +1,222 @@
+/**
+ * Chat Share Links API Endpoint
+ * GET /api/chat/[chatId]/share - List share links and the redaction preview
+ * POST /api/chat/[chatId]/share - Mint a share link
+ * DELETE /api/chat/[chatId]/share - Revoke a share link
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  requireSession,
+  getSessionTenantId,
+} from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  notFound,
+  serverError,
+} from '@/server/api-response';
+import { getChatRepository } from '@/lib/chat/repository';
+import {
+  createShareLink,
+  getChatShareLinks,
+  revokeShareLink,
+} from '@/lib/redis/share';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError, logInfo } from '@/utils/logger';
+import { messageToDTO, shareLinkToDTO } from '@/types/models';
+import { buildRedactionPreview } from '@/lib/chat/share';
+import {
+  createShareLinkSchema,
+  revokeShareLinkSchema,
+} from '@/lib/validation/chat.schema';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const MAX_SHARE_LINKS_PER_CHAT = 20;
+const SHARED_MESSAGE_LIMIT = 10000;
+
+interface RouteContext {
+  params: Promise<{ chatId: string }>;
+}
+
+/**
+ * Resolve the chat for the signed-in owner, or an error response
+ */
+async function requireOwnedChat(request: NextRequest, context: RouteContext) {
+  const session = await requireSession(request);
+  const chatRepository = getChatRepository(getSessionTenantId(session));
+  const { chatId } = await context.params;
+
+  if (!chatId) {
+    return { error: badRequest('Chat ID is required') };
+  }
+
+  const chat = await chatRepository.getChat(chatId);
+
+  // SECURITY (HIGH-01): Same response for missing and foreign chats (IDOR)
+  if (!chat || chat.userId !== session.userId) {
+    return { error: notFound('Chat') };
+  }
+
+  return { chat, session, chatRepository };
+}
+
+async function handleShareList(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    const { chat, chatRepository, error } = await requireOwnedChat(
+      request,
+      context,
+    );
+    if (error) return error;
+
+    const [links, messages] = await Promise.all([
+      getChatShareLinks(chat.id),
+      chatRepository.getChatMessages(chat.id, 0, SHARED_MESSAGE_LIMIT),
+    ]);
+
+    return success(
+      {
+        links: links.map(shareLinkToDTO),
+        redactionPreview: buildRedactionPreview(messages.map(messageToDTO)),
+      },
+      { message: 'Share links retrieved successfully' },
+    );
+  } catch (error) {
+    logError('Share link list error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to retrieve share links');
+  }
+}
+
+async function handleShareCreate(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    const { chat, session, error } = await requireOwnedChat(request, context);
+    if (error) return error;
+
+    const validation = createShareLinkSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const existing = await getChatShareLinks(chat.id);
+    if (existing.length >= MAX_SHARE_LINKS_PER_CHAT) {
+      return badRequest(
+        `A chat can have at most ${MAX_SHARE_LINKS_PER_CHAT} share links`,
+      );
+    }
+
+    const { expiresInDays } = validation.data;
+    const link = await createShareLink(
+      chat,
+      expiresInDays ? expiresInDays * SECONDS_PER_DAY : undefined,
+    );
+
+    logInfo('Share link created', {
+      chatId: chat.id,
+      userId: session.userId,
+      expiresAt: link.expiresAt,
+    });
+
+    return success(shareLinkToDTO(link), {
+      message: 'Share link created successfully',
+    });
+  } catch (error) {
+    logError('Share link create error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to create share link');
+  }
+}
+
+async function handleShareRevoke(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    const { chat, session, error } = await requireOwnedChat(request, context);
+    if (error) return error;
+
+    const validation = revokeShareLinkSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const revoked = await revokeShareLink(chat.id, validation.data.token);
+    if (!revoked) {
+      return notFound('Share link');
+    }
+
+    logInfo('Share link revoked', { chatId: chat.id, userId: session.userId });
+
+    return success(
+      { revoked: true },
+      { message: 'Share link revoked successfully' },
+    );
+  } catch (error) {
+    logError('Share link revoke error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to revoke share link');
+  }
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleShareList(req, context),
+  );
+  return limitedHandler(request);
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleShareCreate(req, context),
+  );
+  return limitedHandler(request);
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleShareRevoke(req, context),
+  );
+  return limitedHandler(request);
+}
@@ -0,0 +1,53 @@
+/**
+ * Message Backfill API Endpoint
+ * POST /api/chat/backfill - Move one batch of legacy message lists into the
+ * hash and sorted-set message store
+ *
+ * Operator-only. Callers pass back the returned cursor until it is '0'.
+ */
+
+import { NextRequest } from 'next/server';
+import { isOperatorRequest } from '@/server/middleware/operator-auth';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  serverError,
+} from '@/server/api-response';
+import { backfillMessageStore } from '@/lib/redis/message-backfill';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { migrateChatsSchema } from '@/lib/validation/chat.schema';
+
+async function handleMessageBackfill(request: NextRequest): Promise<Response> {
+  try {
+    if (!isOperatorRequest(request)) {
+      return unauthorized();
+    }
+
+    const validation = migrateChatsSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const { cursor, count } = validation.data;
+    const batch = await backfillMessageStore(cursor, count);
+
+    return success(batch, { message: 'Message backfill batch completed' });
+  } catch (error) {
+    logError('Message backfill error', error);
+    return serverError('Failed to backfill messages');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    handleMessageBackfill,
+  );
+  return limitedHandler(request);
+}
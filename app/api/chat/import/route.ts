@@ -0,0 +1,100 @@
+/**
+ * Chat Import API Endpoint
+ * POST /api/chat/import - Create a chat from a JSON export file
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  getSessionTenantId,
+  requireSession,
+} from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import { validateRequestSize } from '@/server/middleware/validation';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  serverError,
+} from '@/server/api-response';
+import { getChatRepository } from '@/lib/chat/repository';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError, logInfo } from '@/utils/logger';
+import { chatToDTO } from '@/types/models';
+import { buildImportedChat } from '@/lib/chat/import';
+import { importChatSchema } from '@/lib/validation/chat.schema';
+
+const MAX_IMPORT_SIZE_BYTES = 5 * 1024 * 1024;
+
+async function handleChatImport(request: NextRequest): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+    const tenantId = getSessionTenantId(session);
+
+    // Reject by declared size first, then by actual size for chunked uploads
+    const sizeCheck = validateRequestSize(request, MAX_IMPORT_SIZE_BYTES);
+    if (!sizeCheck.valid && sizeCheck.error) {
+      return sizeCheck.error;
+    }
+
+    const raw = await request.text();
+    if (new TextEncoder().encode(raw).length > MAX_IMPORT_SIZE_BYTES) {
+      return badRequest('Request size exceeds maximum allowed size');
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return badRequest('Invalid JSON body');
+    }
+
+    const validation = importChatSchema.safeParse(body);
+
+    if (!validation.success) {
+      return badRequest('Invalid transcript', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const { chat, messages } = buildImportedChat(
+      session.userId,
+      validation.data,
+      tenantId,
+    );
+    await getChatRepository(tenantId).importChat(chat, messages);
+
+    logInfo('Chat imported', {
+      chatId: chat.id,
+      userId: session.userId,
+      messageCount: messages.length,
+    });
+
+    return success(chatToDTO(chat), {
+      message: 'Chat imported successfully',
+    });
+  } catch (error) {
+    logError('Chat import error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to import chat');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    handleChatImport,
+  );
+  return limitedHandler(request);
+}
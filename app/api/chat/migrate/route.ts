@@ -0,0 +1,52 @@
+/**
+ * Chat Migration API Endpoint
+ * POST /api/chat/migrate - Copy one batch of Redis chats into SQLite
+ *
+ * Operator-only. Callers pass back the returned cursor until it is '0'.
+ */
+
+import { NextRequest } from 'next/server';
+import { isOperatorRequest } from '@/server/middleware/operator-auth';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  serverError,
+} from '@/server/api-response';
+import { migrateRedisChatsToSqlite } from '@/lib/chat/repository/migrate';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { migrateChatsSchema } from '@/lib/validation/chat.schema';
+
+async function handleChatMigration(request: NextRequest): Promise<Response> {
+  try {
+    if (!isOperatorRequest(request)) {
+      return unauthorized();
+    }
+
+    const validation = migrateChatsSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const { cursor, count } = validation.data;
+    const batch = await migrateRedisChatsToSqlite(cursor, count);
+
+    return success(batch, { message: 'Chat migration batch completed' });
+  } catch (error) {
+    logError('Chat migration error', error);
+    return serverError('Failed to migrate chats');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    handleChatMigration,
+  );
+  return limitedHandler(request);
+}
@@ -0,0 +1,34 @@
+/**
+ * Chat Models API Endpoint
+ * GET /api/chat/models - Models of the configured LLM provider that the
+ * user's role may pick in the chat settings
+ */
+
+import { NextRequest } from 'next/server';
+import { requireSession, getSessionAppRole } from '@/server/middleware/session';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import { success, unauthorized, serverError } from '@/server/api-response';
+import { getAllowedChatModels } from '@/lib/auth/role-limits';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+
+async function handleChatModels(request: NextRequest): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+
+    return success(getAllowedChatModels(getSessionAppRole(session)), {
+      message: 'Chat models retrieved successfully',
+    });
+  } catch (error) {
+    logError('Chat models error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to retrieve chat models');
+  }
+}
+
+export const GET = requireRateLimit(RATE_LIMITS.API_DEFAULT, handleChatModels);
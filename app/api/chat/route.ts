@@ -1,32 +1,45 @@
 /**
  * Chat API Endpoint
+ * GET /api/chat - List the user's chats
  * POST /api/chat - Send a message and get AI response
  */
 
 import { NextRequest } from 'next/server';
-import { chatMessageSchema } from '@/lib/validation/chat.schema';
+import {
+  chatMessageSchema,
+  listChatsSchema,
+} from '@/lib/validation/chat.schema';
 import { sanitizeChatMessage } from '@/lib/sanitizer';
-import { requireSession } from '@/server/middleware/session';
+import {
+  getSessionAppRole,
+  getSessionTenantId,
+  requireSession,
+} from '@/server/middleware/session';
 import { withCsrfProtection } from '@/server/middleware/csrf';
-import { withChatRateLimit } from '@/server/middleware/rate-limit';
+import {
+  requireRateLimit,
+  withChatRateLimit,
+} from '@/server/middleware/rate-limit';
 import { withRequestDedup } from '@/server/middleware/request-dedup';
+import { checkUsageQuota } from '@/server/middleware/usage-quota';
+import { checkChatSuspension } from '@/server/middleware/suspension';
+import { checkModelAccess } from '@/server/middleware/role-auth';
 import {
   success,
   badRequest,
   unauthorized,
   serverError,
 } from '@/server/api-response';
-import {
-  createChat,
-  getChat,
-  addMessage,
-  getChatMessages,
-} from '@/lib/redis/chat';
+import { FULL_HISTORY_LIMIT, getChatRepository } from '@/lib/chat/repository';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { DEFAULT_CHAT_TEMPERATURE } from '@/lib/constants/llm';
+import { getRoleLimits } from '@/lib/auth/role-limits';
+import { buildMessageTree, resolveBranchPoint } from '@/lib/chat/message-tree';
 import { withTransaction, txSet } from '@/lib/redis/transactions';
 import { callLLMWithRetry, truncateMessagesToFit } from '@/lib/llm/service';
 import { logError, logInfo, logWarn } from '@/utils/logger';
 import type { MessageModel } from '@/types/models';
-import { messageToDTO } from '@/types/models';
+import { chatToDTO, messageToDTO } from '@/types/models';
 // SECURITY (LOW-04): Removed RANDOM_STRING constants, using crypto.randomUUID instead
 
 const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60;
@@ -36,16 +49,68 @@ const IDEMPOTENCY_MAX_WAIT_MS = 5000; // Max time to wait for another request to
 const LLM_TIMEOUT_MS = 30000;
 const TITLE_MAX_LENGTH = 50;
 const CONTEXT_MAX_TOKENS = 8000;
-const LLM_MAX_TOKENS = 1000;
-const LLM_TEMPERATURE = 0.7;
+const DEFAULT_LLM_MAX_TOKENS = 1000;
+const DEFAULT_OFFSET_PARAM = '0';
+const DEFAULT_LIMIT_PARAM = '50';
+
+async function handleChatList(request: NextRequest): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+    const chatRepository = getChatRepository(getSessionTenantId(session));
+
+    const searchParams = request.nextUrl.searchParams;
+    const queryValidation = listChatsSchema.safeParse({
+      archived: searchParams.get('archived') ?? undefined,
+      offset: searchParams.get('offset') || DEFAULT_OFFSET_PARAM,
+      limit: searchParams.get('limit') || DEFAULT_LIMIT_PARAM,
+    });
+
+    if (!queryValidation.success) {
+      return badRequest('Invalid query parameters', {
+        errors: queryValidation.error.errors,
+      });
+    }
+
+    const { archived, offset, limit } = queryValidation.data;
+
+    // getUserChats only returns chats from the user's own set, so no
+    // per-chat ownership check is needed here
+    const chats = await chatRepository.getUserChats(session.userId);
+    const filtered =
+      archived === undefined
+        ? chats
+        : chats.filter((chat) => chat.archived === archived);
+    const page = filtered.slice(offset, offset + limit);
+
+    return success(page.map(chatToDTO), {
+      message: 'Chats retrieved successfully',
+      pagination: {
+        offset,
+        limit,
+        total: filtered.length,
+        hasMore: offset + page.length < filtered.length,
+      },
+    });
+  } catch (error) {
+    logError('Chat list error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to retrieve chats');
+  }
+}
 
 async function processChatRequest(request: NextRequest): Promise<Response> {
-  // SECURITY (MED-02): Track idempotency lock key for cleanup in catch block
+  // SECURITY (MED-02): Set once this request holds the idempotency lock
   let idempotencyLockKey: string | null = null;
 
   try {
     // Require authenticated session
     const session = await requireSession(request);
+    const chatRepository = getChatRepository(getSessionTenantId(session));
 
     // Parse and validate request body
     const body = await request.json();
@@ -57,17 +122,38 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
       });
     }
 
-    const { content, chatId, parentMessageId, idempotencyKey } =
-      validation.data;
+    const {
+      content,
+      chatId,
+      parentMessageId,
+      editOfMessageId,
+      idempotencyKey,
+    } = validation.data;
 
     // Sanitize message content
     const sanitizedContent = sanitizeChatMessage(content);
 
+    const suspension = await checkChatSuspension(session.userId);
+    if (!suspension.allowed && suspension.error) {
+      return suspension.error;
+    }
+
+    // Refuse before anything is written once the account's budget is spent
+    const account = {
+      userId: session.userId,
+      tenantId: getSessionTenantId(session),
+    };
+    const { quotaMultiplier } = getRoleLimits(getSessionAppRole(session));
+    const quota = await checkUsageQuota(account, quotaMultiplier);
+    if (!quota.allowed && quota.error) {
+      return quota.error;
+    }
+
     // SECURITY (MED-02): Check idempotency with atomic lock to prevent race conditions
     // This prevents duplicate LLM calls when multiple requests arrive simultaneously
     if (idempotencyKey) {
       const idempotencyKeyStore = `idempotency:${session.userId}:${idempotencyKey}`;
-      idempotencyLockKey = `idempotency:lock:${session.userId}:${idempotencyKey}`;
+      const lockKey = `idempotency:lock:${session.userId}:${idempotencyKey}`;
       const { getRedisClient } = await import('@/lib/redis/client');
       const redis = getRedisClient();
 
@@ -81,7 +167,7 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
       }
 
       // Try to acquire the idempotency lock atomically (SETNX)
-      const acquired = await redis.setnx(idempotencyLockKey, 'processing');
+      const acquired = await redis.setnx(lockKey, 'processing');
 
       if (!acquired) {
         // Another request is processing - wait for result with timeout
@@ -105,18 +191,13 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
           }
 
           // Check if the lock was released (maybe the other request failed)
-          const lockExists = await redis.exists(idempotencyLockKey);
+          const lockExists = await redis.exists(lockKey);
           if (!lockExists) {
             // Lock released but no result - try to acquire again
-            const retryAcquired = await redis.setnx(
-              idempotencyLockKey,
-              'processing',
-            );
+            const retryAcquired = await redis.setnx(lockKey, 'processing');
             if (retryAcquired) {
-              await redis.expire(
-                idempotencyLockKey,
-                IDEMPOTENCY_LOCK_TTL_SECONDS,
-              );
+              idempotencyLockKey = lockKey;
+              await redis.expire(lockKey, IDEMPOTENCY_LOCK_TTL_SECONDS);
               break; // We got the lock, proceed with processing
             }
           }
@@ -131,7 +212,7 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
         }
 
         // If we couldn't acquire the lock and no result, return conflict
-        const stillLocked = await redis.exists(idempotencyLockKey);
+        const stillLocked = await redis.exists(lockKey);
         if (stillLocked) {
           return badRequest(
             'Request is being processed. Please wait and retry.',
@@ -139,10 +220,7 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
         }
 
         // Lock was released but no result - try one final time to acquire
-        const finalAcquired = await redis.setnx(
-          idempotencyLockKey,
-          'processing',
-        );
+        const finalAcquired = await redis.setnx(lockKey, 'processing');
         if (!finalAcquired) {
           return badRequest(
             'Request is being processed. Please wait and retry.',
@@ -151,11 +229,12 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
       }
 
       // We have the lock - set expiration in case of crash
-      await redis.expire(idempotencyLockKey, IDEMPOTENCY_LOCK_TTL_SECONDS);
+      idempotencyLockKey = lockKey;
+      await redis.expire(lockKey, IDEMPOTENCY_LOCK_TTL_SECONDS);
     }
 
     // Get or create chat
-    let chat = chatId ? await getChat(chatId) : null;
+    let chat = chatId ? await chatRepository.getChat(chatId) : null;
 
     if (chatId && !chat) {
       return badRequest('Chat not found');
@@ -170,15 +249,38 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
       const title =
         sanitizedContent.slice(0, TITLE_MAX_LENGTH) +
         (sanitizedContent.length > TITLE_MAX_LENGTH ? '...' : '');
-      chat = await createChat(session.userId, title);
+      chat = await chatRepository.createChat(session.userId, title);
+    }
+
+    const chatSettings = chat.settings ?? {};
+
+    const modelAccess = checkModelAccess(session, chatSettings.model);
+    if (!modelAccess.allowed && modelAccess.error) {
+      return modelAccess.error;
     }
 
-    // Get chat history for context
-    const chatHistory = await getChatMessages(chat.id);
+    // Resolve where the new message branches off; only that path is context
+    const branchPoint = resolveBranchPoint(
+      buildMessageTree(
+        await chatRepository.getChatMessages(chat.id, 0, FULL_HISTORY_LIMIT),
+      ),
+      { parentMessageId, editOfMessageId },
+    );
+
+    if ('error' in branchPoint) {
+      return badRequest(branchPoint.error);
+    }
 
     // Build chat history payload with smart truncation
+    // The chat's system prompt leads the context; truncation always keeps it
     const allMessages = [
-      ...chatHistory.map((msg) => ({ role: msg.role, content: msg.content })),
+      ...(chatSettings.systemPrompt
+        ? [{ role: 'system', content: chatSettings.systemPrompt }]
+        : []),
+      ...branchPoint.context.map((msg) => ({
+        role: msg.role,
+        content: msg.content,
+      })),
       { role: 'user', content: sanitizedContent },
     ];
 
@@ -210,18 +312,20 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
         role: 'user',
         content: sanitizedContent,
         status: 'sent',
-        parentMessageId: parentMessageId || null,
-        metadata: clientRequestId
-          ? {
-              clientRequestId,
-            }
-          : null,
+        parentMessageId: branchPoint.parentId,
+        metadata:
+          clientRequestId || editOfMessageId
+            ? {
+                clientRequestId: clientRequestId ?? undefined,
+                editedFromMessageId: editOfMessageId,
+              }
+            : null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
       // Save user message
-      await addMessage(chat!.id, userMessage);
+      await chatRepository.addMessage(chat!.id, userMessage);
 
       // Call LLM with timeout
       let aiResponse;
@@ -233,8 +337,10 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
         );
 
         const llmPromise = callLLMWithRetry(truncatedMessages, {
-          maxTokens: LLM_MAX_TOKENS,
-          temperature: LLM_TEMPERATURE,
+          model: chatSettings.model,
+          maxTokens: chatSettings.maxTokens ?? DEFAULT_LLM_MAX_TOKENS,
+          temperature: chatSettings.temperature ?? DEFAULT_CHAT_TEMPERATURE,
+          account,
         });
 
         aiResponse = (await Promise.race([
@@ -276,7 +382,7 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
           updatedAt: new Date(),
         };
 
-        await addMessage(chat!.id, failedMessage);
+        await chatRepository.addMessage(chat!.id, failedMessage);
 
         throw error;
       }
@@ -301,7 +407,7 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
       };
 
       // Save AI message
-      await addMessage(chat!.id, aiMessage);
+      await chatRepository.addMessage(chat!.id, aiMessage);
 
       // Store idempotency key if provided
       if (idempotencyKey) {
@@ -327,31 +433,25 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
       };
     });
 
-    // SECURITY (MED-02): Clean up idempotency lock on success
-    // The result is now stored, so we can release the lock
-    if (idempotencyLockKey) {
-      try {
-        const { getRedisClient } = await import('@/lib/redis/client');
-        const redis = getRedisClient();
-        await redis.del(idempotencyLockKey);
-      } catch (cleanupError) {
-        // Lock will expire automatically, log but don't fail
-        logWarn('Failed to clean up idempotency lock', {
-          idempotencyLockKey,
-          error: cleanupError,
-        });
-      }
-    }
-
-    return success(result, {
-      message: 'Message sent successfully',
-    });
+    return success(
+      result,
+      {
+        message: 'Message sent successfully',
+      },
+      { headers: quota.headers },
+    );
   } catch (error) {
     logError('Chat API error', error);
 
-    // SECURITY (MED-02): Clean up idempotency lock on failure
-    // This allows the same request to be retried
-    // Note: idempotencyLockKey is set at the outer scope of the try block
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to process message');
+  } finally {
+    // SECURITY (MED-02): Release the idempotency lock however the request
+    // ended. A stored result answers replays; a refusal or failure leaves
+    // the same request free to be retried.
     if (idempotencyLockKey) {
       try {
         const { getRedisClient } = await import('@/lib/redis/client');
@@ -359,18 +459,12 @@ async function processChatRequest(request: NextRequest): Promise<Response> {
         await redis.del(idempotencyLockKey);
       } catch (cleanupError) {
         // Lock will expire automatically, log but don't fail
-        logWarn('Failed to clean up idempotency lock on error', {
+        logWarn('Failed to clean up idempotency lock', {
           idempotencyLockKey,
           error: cleanupError,
         });
       }
     }
-
-    if (error instanceof Error && error.message.includes('Unauthorized')) {
-      return unauthorized();
-    }
-
-    return serverError('Failed to process message');
   }
 }
 
@@ -385,4 +479,6 @@ async function handleChatPost(request: NextRequest): Promise<Response> {
   return limitedHandler(request);
 }
 
+export const GET = requireRateLimit(RATE_LIMITS.API_DEFAULT, handleChatList);
+
 export const POST = withRequestDedup(handleChatPost);
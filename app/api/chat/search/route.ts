@@ -0,0 +1,82 @@
+/**
+ * Chat Search API Endpoint
+ * GET /api/chat/search - Full-text search across the user's messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  requireSession,
+  getSessionTenantId,
+} from '@/server/middleware/session';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  serverError,
+} from '@/server/api-response';
+import { searchMessages } from '@/lib/redis/search';
+import { getChatRepository } from '@/lib/chat/repository';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { searchMessagesSchema } from '@/lib/validation/chat.schema';
+import { logError } from '@/utils/logger';
+
+async function handleSearch(request: NextRequest): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+
+    const searchParams = request.nextUrl.searchParams;
+    const queryValidation = searchMessagesSchema.safeParse({
+      q: searchParams.get('q') ?? undefined,
+      role: searchParams.get('role') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      offset: searchParams.get('offset') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    if (!queryValidation.success) {
+      return badRequest('Invalid query parameters', {
+        errors: queryValidation.error.errors,
+      });
+    }
+
+    const { q, role, from, to, offset, limit } = queryValidation.data;
+
+    // The index is per user, so results never include other users' chats
+    const { results, total, truncated } = await searchMessages(
+      getChatRepository(getSessionTenantId(session)),
+      session.userId,
+      {
+        query: q,
+        role,
+        from,
+        to,
+        offset,
+        limit,
+      },
+    );
+
+    return success(results, {
+      message: 'Search completed successfully',
+      pagination: {
+        offset,
+        limit,
+        total,
+        truncated,
+        hasMore: offset + results.length < total || truncated,
+      },
+    });
+  } catch (error) {
+    logError('Chat search error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to search messages');
+  }
+}
+
+export const GET = requireRateLimit(RATE_LIMITS.API_DEFAULT, handleSearch);
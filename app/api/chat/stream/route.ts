@@ -1,15 +1,37 @@
 /**
  * Chat Streaming API Endpoint
  * POST /api/chat/stream - Stream AI responses using Server-Sent Events (SSE)
+ * DELETE /api/chat/stream - Stop a buffered generation
+ *
+ * Events are buffered in Redis per generation; a POST carrying Last-Event-ID
+ * resumes that generation instead of starting a new one.
  */
 
 import { NextRequest } from 'next/server';
-import { chatMessageSchema } from '@/lib/validation/chat.schema';
+import {
+  chatMessageSchema,
+  regenerateMessageSchema,
+  stopStreamSchema,
+} from '@/lib/validation/chat.schema';
 import { sanitizeChatMessage } from '@/lib/sanitizer';
-import { requireSession } from '@/server/middleware/session';
+import {
+  getSessionAppRole,
+  getSessionTenantId,
+  requireSession,
+} from '@/server/middleware/session';
 import { withCsrfProtection } from '@/server/middleware/csrf';
 import { withChatRateLimit } from '@/server/middleware/rate-limit';
-import { badRequest, unauthorized, forbidden } from '@/server/api-response';
+import { checkUsageQuota } from '@/server/middleware/usage-quota';
+import { checkChatSuspension } from '@/server/middleware/suspension';
+import { checkModelAccess } from '@/server/middleware/role-auth';
+import {
+  badRequest,
+  unauthorized,
+  forbidden,
+  notFound,
+  serverError,
+  success,
+} from '@/server/api-response';
 import { logError, logInfo, logWarn } from '@/utils/logger';
 
 /**
@@ -54,25 +76,280 @@ function validateOrigin(request: NextRequest): {
 
   return { valid: true };
 }
-import {
-  createChat,
-  getChat,
-  addMessage,
-  getChatMessages,
-} from '@/lib/redis/chat';
+import { FULL_HISTORY_LIMIT, getChatRepository } from '@/lib/chat/repository';
 import {
   callLLMStreamWithRetry,
   truncateMessagesToFit,
   getFallbackMessage,
   getCircuitBreaker,
 } from '@/lib/llm/service';
-import type { MessageModel } from '@/types/models';
+import {
+  appendStreamEvent,
+  completeStreamBuffer,
+  formatStreamEventId,
+  getStreamBuffer,
+  getStreamEventsAfter,
+  openStreamBuffer,
+  parseStreamEventId,
+  requestStreamStop,
+} from '@/lib/redis/stream-buffer';
+import { DEFAULT_CHAT_TEMPERATURE } from '@/lib/constants/llm';
+import { getRoleLimits } from '@/lib/auth/role-limits';
+import {
+  buildMessageTree,
+  resolveBranchPoint,
+  resolveRegenerationPoint,
+} from '@/lib/chat/message-tree';
+import type { ChatModel, MessageModel, SessionModel } from '@/types/models';
 
 const TITLE_MAX_LENGTH = 50;
 const CONTEXT_MAX_TOKENS = 8000;
 const HEARTBEAT_FREQUENCY = 10;
-const LLM_STREAM_MAX_TOKENS = 2000;
-const LLM_STREAM_TEMPERATURE = 0.7;
+const DEFAULT_LLM_STREAM_MAX_TOKENS = 2000;
+const STOP_POLL_INTERVAL_MS = 1000;
+const RESUME_POLL_INTERVAL_MS = 250;
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no', // Disable nginx buffering
+};
+
+function formatSseEvent(event: string, data: unknown, id?: string): string {
+  const idLine = id ? `id: ${id}\n` : '';
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+interface PreparedTurn {
+  chat: ChatModel;
+  /** Conversation path ending with the user message being answered */
+  context: MessageModel[];
+  userMessage: MessageModel;
+  regeneratedFromMessageId?: string;
+}
+
+/**
+ * Persist a new user message on its branch of the conversation
+ */
+async function prepareNewMessage(
+  body: unknown,
+  session: SessionModel,
+): Promise<PreparedTurn | Response> {
+  const chatRepository = getChatRepository(getSessionTenantId(session));
+  const { userId } = session;
+
+  const validation = chatMessageSchema.safeParse(body);
+
+  if (!validation.success) {
+    return badRequest('Invalid request', {
+      errors: validation.error.errors,
+    });
+  }
+
+  const { content, chatId, parentMessageId, editOfMessageId } = validation.data;
+  const sanitizedContent = sanitizeChatMessage(content);
+
+  // Get or create chat
+  let chat = chatId ? await chatRepository.getChat(chatId) : null;
+
+  if (chatId && !chat) {
+    return badRequest('Chat not found');
+  }
+
+  if (chat && chat.userId !== userId) {
+    return unauthorized('You do not have access to this chat');
+  }
+
+  // Refuse before the message is stored if the chat's model is off-limits
+  const modelAccess = checkModelAccess(session, chat?.settings?.model);
+  if (!modelAccess.allowed && modelAccess.error) {
+    return modelAccess.error;
+  }
+
+  if (!chat) {
+    const title =
+      sanitizedContent.slice(0, TITLE_MAX_LENGTH) +
+      (sanitizedContent.length > TITLE_MAX_LENGTH ? '...' : '');
+    chat = await chatRepository.createChat(userId, title);
+  }
+
+  // Resolve where the new message branches off; only that path is context
+  const branchPoint = resolveBranchPoint(
+    buildMessageTree(
+      await chatRepository.getChatMessages(chat.id, 0, FULL_HISTORY_LIMIT),
+    ),
+    { parentMessageId, editOfMessageId },
+  );
+
+  if ('error' in branchPoint) {
+    return badRequest(branchPoint.error);
+  }
+
+  // SECURITY (LOW-04): Use crypto.randomUUID for secure IDs
+  const userMessage: MessageModel = {
+    id: `msg_${crypto.randomUUID()}`,
+    chatId: chat.id,
+    role: 'user',
+    content: sanitizedContent,
+    status: 'sent',
+    parentMessageId: branchPoint.parentId,
+    metadata: editOfMessageId ? { editedFromMessageId: editOfMessageId } : null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  await chatRepository.addMessage(chat.id, userMessage);
+
+  return {
+    chat,
+    context: [...branchPoint.context, userMessage],
+    userMessage,
+  };
+}
+
+/**
+ * Re-answer the user turn behind an existing assistant message
+ */
+async function prepareRegeneration(
+  body: unknown,
+  session: SessionModel,
+): Promise<PreparedTurn | Response> {
+  const chatRepository = getChatRepository(getSessionTenantId(session));
+  const { userId } = session;
+
+  const validation = regenerateMessageSchema.safeParse(body);
+
+  if (!validation.success) {
+    return badRequest('Invalid request', {
+      errors: validation.error.errors,
+    });
+  }
+
+  const { chatId, regenerateMessageId } = validation.data;
+  const chat = await chatRepository.getChat(chatId);
+
+  if (!chat) {
+    return badRequest('Chat not found');
+  }
+
+  if (chat.userId !== userId) {
+    return unauthorized('You do not have access to this chat');
+  }
+
+  const modelAccess = checkModelAccess(session, chat.settings?.model);
+  if (!modelAccess.allowed && modelAccess.error) {
+    return modelAccess.error;
+  }
+
+  const regenerationPoint = resolveRegenerationPoint(
+    buildMessageTree(
+      await chatRepository.getChatMessages(chat.id, 0, FULL_HISTORY_LIMIT),
+    ),
+    regenerateMessageId,
+  );
+
+  if ('error' in regenerationPoint) {
+    return badRequest(regenerationPoint.error);
+  }
+
+  return {
+    chat,
+    context: regenerationPoint.context,
+    userMessage: regenerationPoint.userMessage,
+    regeneratedFromMessageId: regenerateMessageId,
+  };
+}
+
+/**
+ * Replay buffered events after Last-Event-ID, then follow the live generation
+ */
+async function resumeChatStream(
+  request: NextRequest,
+  userId: string,
+  lastEventId: string,
+): Promise<Response> {
+  const position = parseStreamEventId(lastEventId);
+
+  if (!position) {
+    return badRequest('Invalid Last-Event-ID');
+  }
+
+  const { generationId } = position;
+  const buffer = await getStreamBuffer(generationId);
+
+  // SECURITY (HIGH-01): Same response for missing and foreign streams (IDOR)
+  if (!buffer || buffer.userId !== userId) {
+    return notFound('Stream');
+  }
+
+  let clientConnected = true;
+  request.signal.addEventListener(
+    'abort',
+    () => {
+      clientConnected = false;
+    },
+    { once: true },
+  );
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      let seq = position.seq;
+      let idlePolls = 0;
+
+      try {
+        while (clientConnected) {
+          // Read state first: once complete, this read has every event
+          const state = await getStreamBuffer(generationId);
+          const finished = !state || state.status === 'complete';
+          const events = await getStreamEventsAfter(generationId, seq);
+
+          for (const entry of events) {
+            if (!clientConnected) return;
+            controller.enqueue(
+              encoder.encode(
+                formatSseEvent(
+                  entry.event,
+                  entry.data,
+                  formatStreamEventId(generationId, entry.seq),
+                ),
+              ),
+            );
+            seq = entry.seq;
+          }
+
+          if (finished) break;
+
+          if (events.length === 0) {
+            idlePolls++;
+            if (idlePolls % HEARTBEAT_FREQUENCY === 0) {
+              controller.enqueue(encoder.encode(': heartbeat\n\n'));
+            }
+            await new Promise((resolve) =>
+              setTimeout(resolve, RESUME_POLL_INTERVAL_MS),
+            );
+          }
+        }
+
+        logInfo('Stream resumed', { generationId, userId, lastSeq: seq });
+      } catch (error) {
+        logError('Stream resume error', error, { generationId });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed when the client cancelled the stream
+        }
+      }
+    },
+    cancel() {
+      clientConnected = false;
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
 
 async function processChatStream(request: NextRequest) {
   // SECURITY (MED-04): Validate origin before processing
@@ -84,45 +361,52 @@ async function processChatStream(request: NextRequest) {
   try {
     // Require authenticated session
     const session = await requireSession(request);
+    const chatRepository = getChatRepository(getSessionTenantId(session));
 
-    // Parse and validate request body
-    const body = await request.json();
-    const validation = chatMessageSchema.safeParse(body);
-
-    if (!validation.success) {
-      return badRequest('Invalid request', {
-        errors: validation.error.errors,
-      });
+    // Reconnecting clients pick up the buffered generation; nothing is re-sent
+    const lastEventId = request.headers.get('last-event-id');
+    if (lastEventId) {
+      return resumeChatStream(request, session.userId, lastEventId);
     }
 
-    const { content, chatId, parentMessageId } = validation.data;
-    const sanitizedContent = sanitizeChatMessage(content);
-
-    // Get or create chat
-    let chat = chatId ? await getChat(chatId) : null;
-
-    if (chatId && !chat) {
-      return badRequest('Chat not found');
+    const suspension = await checkChatSuspension(session.userId);
+    if (!suspension.allowed && suspension.error) {
+      return suspension.error;
     }
 
-    if (chat && chat.userId !== session.userId) {
-      return unauthorized('You do not have access to this chat');
+    // Resuming above never calls the LLM, so only new generations are metered
+    const account = {
+      userId: session.userId,
+      tenantId: getSessionTenantId(session),
+    };
+    const { quotaMultiplier } = getRoleLimits(getSessionAppRole(session));
+    const quota = await checkUsageQuota(account, quotaMultiplier);
+    if (!quota.allowed && quota.error) {
+      return quota.error;
     }
 
-    if (!chat) {
-      const title =
-        sanitizedContent.slice(0, TITLE_MAX_LENGTH) +
-        (sanitizedContent.length > TITLE_MAX_LENGTH ? '...' : '');
-      chat = await createChat(session.userId, title);
+    // Parse and validate request body; regeneration re-runs an existing turn
+    const body = await request.json();
+    const prepared =
+      body && typeof body === 'object' && 'regenerateMessageId' in body
+        ? await prepareRegeneration(body, session)
+        : await prepareNewMessage(body, session);
+
+    if (prepared instanceof Response) {
+      return prepared;
     }
 
-    // Get chat history
-    const chatHistory = await getChatMessages(chat.id);
+    const { chat, context, userMessage, regeneratedFromMessageId } = prepared;
+    const userMessageId = userMessage.id;
+    const chatSettings = chat.settings ?? {};
 
     // Prepare messages with smart truncation
+    // The chat's system prompt leads the context; truncation always keeps it
     const allMessages = [
-      ...chatHistory.map((msg) => ({ role: msg.role, content: msg.content })),
-      { role: 'user', content: sanitizedContent },
+      ...(chatSettings.systemPrompt
+        ? [{ role: 'system', content: chatSettings.systemPrompt }]
+        : []),
+      ...context.map((msg) => ({ role: msg.role, content: msg.content })),
     ];
 
     const {
@@ -140,39 +424,68 @@ async function processChatStream(request: NextRequest) {
       });
     }
 
-    // SECURITY (LOW-04): Use crypto.randomUUID for secure IDs
-    const userMessageId = `msg_${crypto.randomUUID()}`;
-    const userMessage: MessageModel = {
-      id: userMessageId,
+    const generationId = `gen_${crypto.randomUUID()}`;
+    const resumable = await openStreamBuffer(generationId, {
       chatId: chat.id,
-      role: 'user',
-      content: sanitizedContent,
-      status: 'sent',
-      parentMessageId: parentMessageId || null,
-      metadata: null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+      userId: session.userId,
+    });
 
-    await addMessage(chat.id, userMessage);
+    // A dropped connection keeps generating into the buffer so the client can
+    // resume; without a buffer it cancels the LLM call like an explicit stop
+    const abortController = new AbortController();
+    let clientConnected = true;
+    const handleDisconnect = () => {
+      clientConnected = false;
+      if (!resumable) {
+        abortController.abort();
+      }
+    };
+    request.signal.addEventListener('abort', handleDisconnect, { once: true });
 
     // Create SSE stream
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(controller) {
+        let eventSeq = 0;
         const sendEvent = (event: string, data: unknown) => {
-          const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-          controller.enqueue(encoder.encode(message));
+          let eventId: string | undefined;
+          if (resumable) {
+            eventSeq++;
+            eventId = formatStreamEventId(generationId, eventSeq);
+            void appendStreamEvent(generationId, {
+              seq: eventSeq,
+              event,
+              data,
+            });
+          }
+          if (!clientConnected) return;
+          controller.enqueue(
+            encoder.encode(formatSseEvent(event, data, eventId)),
+          );
         };
 
         const sendHeartbeat = () => {
+          if (!clientConnected) return;
           controller.enqueue(encoder.encode(': heartbeat\n\n'));
         };
 
+        // Stop requests may arrive on another instance, so poll for them
+        const stopPoll = resumable
+          ? setInterval(async () => {
+              const state = await getStreamBuffer(generationId);
+              if (state?.stopRequested) {
+                abortController.abort();
+              }
+            }, STOP_POLL_INTERVAL_MS)
+          : null;
+
         // Send initial message confirmation
         sendEvent('message_created', {
           messageId: userMessageId,
-          chatId: chat!.id,
+          chatId: chat.id,
+          parentMessageId: userMessage.parentMessageId,
+          regeneratedFromMessageId,
+          generationId: resumable ? generationId : undefined,
           truncated,
           removedCount,
         });
@@ -181,6 +494,7 @@ async function processChatStream(request: NextRequest) {
         const aiMessageId = `msg_${crypto.randomUUID()}`;
         let accumulatedContent = '';
         let heartbeatCount = 0;
+        const startTime = Date.now();
 
         try {
           // Check circuit breaker state
@@ -196,19 +510,20 @@ async function processChatStream(request: NextRequest) {
               tokensUsed: 0,
               processingTime: 0,
               circuitBreakerOpen: true,
+              regeneratedFromMessageId,
             };
 
             sendEvent('fallback', {
               messageId: aiMessageId,
               message: fallbackMsg,
               metadata: fallbackMetadata,
-              chatId: chat!.id,
+              chatId: chat.id,
             });
 
             // Persist fallback message to database
             const aiMessage: MessageModel = {
               id: aiMessageId,
-              chatId: chat!.id,
+              chatId: chat.id,
               role: 'assistant',
               content: accumulatedContent,
               status: 'sent',
@@ -217,16 +532,14 @@ async function processChatStream(request: NextRequest) {
               createdAt: new Date(),
               updatedAt: new Date(),
             };
-            await addMessage(chat!.id, aiMessage);
+            await chatRepository.addMessage(chat.id, aiMessage);
 
             logWarn('Circuit breaker open - sent fallback message', {
-              chatId: chat!.id,
+              chatId: chat.id,
               userId: session.userId,
             });
           } else {
             // Stream LLM response
-            const startTime = Date.now();
-
             const response = await callLLMStreamWithRetry(
               truncatedMessages,
               (chunk: string) => {
@@ -245,8 +558,13 @@ async function processChatStream(request: NextRequest) {
                 }
               },
               {
-                maxTokens: LLM_STREAM_MAX_TOKENS,
-                temperature: LLM_STREAM_TEMPERATURE,
+                model: chatSettings.model,
+                maxTokens:
+                  chatSettings.maxTokens ?? DEFAULT_LLM_STREAM_MAX_TOKENS,
+                temperature:
+                  chatSettings.temperature ?? DEFAULT_CHAT_TEMPERATURE,
+                signal: abortController.signal,
+                account,
               },
             );
 
@@ -255,7 +573,7 @@ async function processChatStream(request: NextRequest) {
             // Save complete AI message
             const aiMessage: MessageModel = {
               id: aiMessageId,
-              chatId: chat!.id,
+              chatId: chat.id,
               role: 'assistant',
               content: accumulatedContent,
               status: 'sent',
@@ -266,12 +584,13 @@ async function processChatStream(request: NextRequest) {
                 processingTime,
                 contextTruncated: truncated,
                 messagesRemoved: truncated ? removedCount : undefined,
+                regeneratedFromMessageId,
               },
               createdAt: new Date(),
               updatedAt: new Date(),
             };
 
-            await addMessage(chat!.id, aiMessage);
+            await chatRepository.addMessage(chat.id, aiMessage);
 
             // Send completion event
             sendEvent('message_complete', {
@@ -281,7 +600,7 @@ async function processChatStream(request: NextRequest) {
             });
 
             logInfo('Streaming completed', {
-              chatId: chat!.id,
+              chatId: chat.id,
               userId: session.userId,
               messageId: aiMessageId,
               tokensUsed: response.tokensUsed,
@@ -289,6 +608,51 @@ async function processChatStream(request: NextRequest) {
             });
           }
         } catch (error) {
+          if (abortController.signal.aborted) {
+            // Keep what was generated so the history matches what the user
+            // saw; a stop before the first token leaves nothing to keep
+            const stoppedContent = accumulatedContent.trim();
+            if (stoppedContent) {
+              const stoppedMessage: MessageModel = {
+                id: aiMessageId,
+                chatId: chat.id,
+                role: 'assistant',
+                content: stoppedContent,
+                status: 'stopped',
+                parentMessageId: userMessageId,
+                metadata: {
+                  model: chatSettings.model,
+                  processingTime: Date.now() - startTime,
+                  stopped: true,
+                  regeneratedFromMessageId,
+                },
+                createdAt: new Date(),
+                updatedAt: new Date(),
+              };
+              try {
+                await chatRepository.addMessage(chat.id, stoppedMessage);
+              } catch (saveError) {
+                logError('Failed to save stopped message', saveError, {
+                  chatId: chat.id,
+                  messageId: aiMessageId,
+                });
+              }
+            }
+
+            // Lets a resuming client settle the message instead of retrying
+            sendEvent('message_stopped', {
+              messageId: stoppedContent ? aiMessageId : null,
+              content: stoppedContent,
+            });
+
+            logInfo('Streaming stopped by client', {
+              chatId: chat.id,
+              userId: session.userId,
+              messageId: aiMessageId,
+            });
+            return;
+          }
+
           logError('Streaming error', error);
 
           // Check if circuit breaker is now open
@@ -309,7 +673,7 @@ async function processChatStream(request: NextRequest) {
               messageId: aiMessageId,
               message: fallbackMsg,
               metadata: fallbackMetadata,
-              chatId: chat!.id,
+              chatId: chat.id,
             });
           } else {
             sendEvent('error', {
@@ -318,18 +682,26 @@ async function processChatStream(request: NextRequest) {
             });
           }
         } finally {
-          controller.close();
+          if (stopPoll) {
+            clearInterval(stopPoll);
+          }
+          if (resumable) {
+            await completeStreamBuffer(generationId);
+          }
+          try {
+            controller.close();
+          } catch {
+            // Already closed when the client cancelled the stream
+          }
         }
       },
+      cancel() {
+        handleDisconnect();
+      },
     });
 
     return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        Connection: 'keep-alive',
-        'X-Accel-Buffering': 'no', // Disable nginx buffering
-      },
+      headers: { ...SSE_HEADERS, ...quota.headers },
     });
   } catch (error) {
     logError('Stream API error', error);
@@ -355,3 +727,45 @@ export async function POST(request: NextRequest) {
   const limitedHandler = withChatRateLimit(processChatStream);
   return limitedHandler(request);
 }
+
+/**
+ * DELETE /api/chat/stream
+ * Stops a buffered generation; the partial answer is kept as stopped.
+ */
+export async function DELETE(request: NextRequest) {
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  try {
+    const session = await requireSession(request);
+    const validation = stopStreamSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const { generationId } = validation.data;
+    const buffer = await getStreamBuffer(generationId);
+
+    // SECURITY (HIGH-01): Same response for missing and foreign streams (IDOR)
+    if (!buffer || buffer.userId !== session.userId) {
+      return notFound('Stream');
+    }
+
+    await requestStreamStop(generationId);
+
+    return success({ generationId, stopped: true });
+  } catch (error) {
+    logError('Stream stop error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to stop stream');
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Persona Delete API Endpoint
+ * POST /api/personas/[personaId]/delete - Delete a persona preset
+ */
+
+import { NextRequest } from 'next/server';
+import { requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  notFound,
+  serverError,
+} from '@/server/api-response';
+import { deletePersona, getPersona } from '@/lib/redis/persona';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError, logInfo } from '@/utils/logger';
+
+interface RouteContext {
+  params: Promise<{ personaId: string }>;
+}
+
+async function handlePersonaDelete(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+
+    const { personaId } = await context.params;
+
+    if (!personaId) {
+      return badRequest('Persona ID is required');
+    }
+
+    const persona = await getPersona(personaId);
+
+    // SECURITY (HIGH-01): Same response for missing and foreign personas (IDOR)
+    if (!persona || persona.userId !== session.userId) {
+      return notFound('Persona');
+    }
+
+    const deleted = await deletePersona(personaId);
+    if (!deleted) {
+      return serverError('Failed to delete persona');
+    }
+
+    logInfo('Persona deleted', { personaId, userId: session.userId });
+
+    return success(
+      { id: personaId },
+      {
+        message: 'Persona deleted successfully',
+      },
+    );
+  } catch (error) {
+    logError('Persona delete error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to delete persona');
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handlePersonaDelete(req, context),
+  );
+  return limitedHandler(request);
+}
@@ -0,0 +1,103 @@
+/**
+ * Personas API Endpoint
+ * GET /api/personas - List the user's persona presets
+ * POST /api/personas - Save a new persona preset
+ */
+
+import { NextRequest } from 'next/server';
+import { requireSession } from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  serverError,
+} from '@/server/api-response';
+import { createPersona, getUserPersonas } from '@/lib/redis/persona';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError, logInfo } from '@/utils/logger';
+import { personaToDTO } from '@/types/models';
+import { createPersonaSchema } from '@/lib/validation/chat.schema';
+
+const MAX_PERSONAS_PER_USER = 50;
+
+async function handlePersonaList(request: NextRequest): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+
+    const personas = await getUserPersonas(session.userId);
+
+    return success(personas.map(personaToDTO), {
+      message: 'Personas retrieved successfully',
+    });
+  } catch (error) {
+    logError('Persona list error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to retrieve personas');
+  }
+}
+
+async function handlePersonaCreate(request: NextRequest): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+
+    const body = await request.json();
+    const validation = createPersonaSchema.safeParse(body);
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const existing = await getUserPersonas(session.userId);
+    if (existing.length >= MAX_PERSONAS_PER_USER) {
+      return badRequest(
+        `Persona limit reached (max ${MAX_PERSONAS_PER_USER} presets)`,
+      );
+    }
+
+    const { name, systemPrompt } = validation.data;
+    const persona = await createPersona(session.userId, name, systemPrompt);
+
+    logInfo('Persona created', {
+      personaId: persona.id,
+      userId: session.userId,
+    });
+
+    return success(personaToDTO(persona), {
+      message: 'Persona created successfully',
+    });
+  } catch (error) {
+    logError('Persona create error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to create persona');
+  }
+}
+
+export const GET = requireRateLimit(RATE_LIMITS.API_DEFAULT, handlePersonaList);
+
+export async function POST(request: NextRequest) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    handlePersonaCreate,
+  );
+  return limitedHandler(request);
+}
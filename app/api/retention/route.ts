@@ -0,0 +1,124 @@
+/**
+ * Retention Policy API Endpoint
+ * GET /api/retention - The user's own policy and the one in force
+ * PUT /api/retention - Set or clear the user's policy
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  getSessionTenantId,
+  requireSession,
+} from '@/server/middleware/session';
+import { withCsrfProtection } from '@/server/middleware/csrf';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  serverError,
+} from '@/server/api-response';
+import {
+  getEffectiveRetentionPolicy,
+  getUserRetentionPolicy,
+  setUserRetentionPolicy,
+} from '@/lib/redis/retention';
+import { rescheduleUserChats } from '@/lib/redis/chat';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError, logInfo } from '@/utils/logger';
+import { updateRetentionPolicySchema } from '@/lib/validation/chat.schema';
+
+async function handleRetentionGet(request: NextRequest): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+
+    const [policy, effective] = await Promise.all([
+      getUserRetentionPolicy(session.userId),
+      getEffectiveRetentionPolicy(session.userId, getSessionTenantId(session)),
+    ]);
+
+    return success(
+      { policy, effective },
+      { message: 'Retention policy retrieved successfully' },
+    );
+  } catch (error) {
+    logError('Retention policy get error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to retrieve retention policy');
+  }
+}
+
+async function handleRetentionUpdate(request: NextRequest): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+
+    const validation = updateRetentionPolicySchema.safeParse(
+      await request.json(),
+    );
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const { policy } = validation.data;
+    await setUserRetentionPolicy(session.userId, policy);
+
+    // Existing chats move to the new schedule right away
+    const rescheduledChats = await rescheduleUserChats(
+      getSessionTenantId(session),
+      session.userId,
+    );
+    const effective = await getEffectiveRetentionPolicy(
+      session.userId,
+      getSessionTenantId(session),
+    );
+
+    logInfo('Retention policy updated', {
+      userId: session.userId,
+      policy,
+      rescheduledChats,
+    });
+
+    return success(
+      { policy, effective },
+      { message: 'Retention policy updated successfully' },
+    );
+  } catch (error) {
+    logError('Retention policy update error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to update retention policy');
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    handleRetentionGet,
+  );
+  return limitedHandler(request);
+}
+
+export async function PUT(request: NextRequest) {
+  // CRITICAL: Validate CSRF token BEFORE rate limiting
+  const csrfCheck = await withCsrfProtection(request);
+  if (!csrfCheck.valid && csrfCheck.error) {
+    return csrfCheck.error;
+  }
+
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    handleRetentionUpdate,
+  );
+  return limitedHandler(request);
+}
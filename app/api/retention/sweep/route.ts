@@ -0,0 +1,38 @@
+/**
+ * Retention Sweep API Endpoint
+ * POST /api/retention/sweep - Purge one batch of expired chats
+ *
+ * Called on a schedule (cron) with the operator token; callers repeat
+ * while `hasMore` is true.
+ */
+
+import { NextRequest } from 'next/server';
+import { isOperatorRequest } from '@/server/middleware/operator-auth';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import { success, unauthorized, serverError } from '@/server/api-response';
+import { sweepExpiredChats } from '@/lib/redis/retention-sweeper';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+
+async function handleRetentionSweep(request: NextRequest): Promise<Response> {
+  try {
+    if (!isOperatorRequest(request)) {
+      return unauthorized();
+    }
+
+    const result = await sweepExpiredChats();
+
+    return success(result, { message: 'Retention sweep completed' });
+  } catch (error) {
+    logError('Retention sweep error', error);
+    return serverError('Failed to sweep expired chats');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    handleRetentionSweep,
+  );
+  return limitedHandler(request);
+}
@@ -0,0 +1,85 @@
+/**
+ * Tenant Retention Policy API Endpoint
+ * PUT /api/retention/tenants/[tenantId] - Set or clear a tenant's policy
+ *
+ * Operator-only; users without their own policy follow this one.
+ */
+
+import { NextRequest } from 'next/server';
+import { isOperatorRequest } from '@/server/middleware/operator-auth';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  serverError,
+} from '@/server/api-response';
+import {
+  getTenantUserIds,
+  setTenantRetentionPolicy,
+} from '@/lib/redis/retention';
+import { rescheduleUserChats } from '@/lib/redis/chat';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError, logInfo } from '@/utils/logger';
+import { updateRetentionPolicySchema } from '@/lib/validation/chat.schema';
+
+interface RouteContext {
+  params: Promise<{ tenantId: string }>;
+}
+
+async function handleTenantRetentionUpdate(
+  request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    if (!isOperatorRequest(request)) {
+      return unauthorized();
+    }
+
+    const { tenantId } = await context.params;
+
+    if (!tenantId) {
+      return badRequest('Tenant ID is required');
+    }
+
+    const validation = updateRetentionPolicySchema.safeParse(
+      await request.json(),
+    );
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const { policy } = validation.data;
+    await setTenantRetentionPolicy(tenantId, policy);
+
+    let rescheduledChats = 0;
+    for (const userId of await getTenantUserIds(tenantId)) {
+      rescheduledChats += await rescheduleUserChats(tenantId, userId);
+    }
+
+    logInfo('Tenant retention policy updated', {
+      tenantId,
+      policy,
+      rescheduledChats,
+    });
+
+    return success(
+      { tenantId, policy, rescheduledChats },
+      { message: 'Tenant retention policy updated successfully' },
+    );
+  } catch (error) {
+    logError('Tenant retention policy update error', error);
+    return serverError('Failed to update tenant retention policy');
+  }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    (req: NextRequest) => handleTenantRetentionUpdate(req, context),
+  );
+  return limitedHandler(request);
+}
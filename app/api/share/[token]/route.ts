@@ -0,0 +1,65 @@
+/**
+ * Public Share API Endpoint
+ * GET /api/share/[token] - Read-only view of a shared chat (no session)
+ */
+
+import { NextRequest } from 'next/server';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import { success, notFound, serverError } from '@/server/api-response';
+import { getChatRepository } from '@/lib/chat/repository';
+import { getShareLink } from '@/lib/redis/share';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { chatToDTO, messageToDTO } from '@/types/models';
+import { buildSharedChat } from '@/lib/chat/share';
+
+const SHARED_MESSAGE_LIMIT = 10000;
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+async function handleSharedChatGet(
+  _request: NextRequest,
+  context: RouteContext,
+): Promise<Response> {
+  try {
+    const { token } = await context.params;
+    const link = token ? await getShareLink(token) : null;
+
+    // Unknown, revoked and expired tokens are indistinguishable
+    if (!link) {
+      return notFound('Shared chat');
+    }
+
+    // The link records the tenant whose keys hold the chat
+    const chatRepository = getChatRepository(link.tenantId);
+    const chat = await chatRepository.getChat(link.chatId);
+    if (!chat || chat.userId !== link.userId) {
+      return notFound('Shared chat');
+    }
+
+    const messages = await chatRepository.getChatMessages(
+      chat.id,
+      0,
+      SHARED_MESSAGE_LIMIT,
+    );
+
+    return success(
+      buildSharedChat(chatToDTO(chat), messages.map(messageToDTO)),
+      { message: 'Shared chat retrieved successfully' },
+      { headers: { 'Cache-Control': 'private, no-store' } },
+    );
+  } catch (error) {
+    logError('Shared chat retrieval error', error);
+    return serverError('Failed to retrieve shared chat');
+  }
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.SHARE_PUBLIC,
+    (req: NextRequest) => handleSharedChatGet(req, context),
+  );
+  return limitedHandler(request);
+}
@@ -0,0 +1,54 @@
+/**
+ * Tenant Key Migration API Endpoint
+ * POST /api/tenants/migrate - Move one batch of chats, chat lists and usage
+ * counters stored before keys were tenant-scoped into their tenant's
+ * namespace
+ *
+ * Operator-only. Callers pass back the returned cursor until it is '0'.
+ */
+
+import { NextRequest } from 'next/server';
+import { isOperatorRequest } from '@/server/middleware/operator-auth';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  serverError,
+} from '@/server/api-response';
+import { migrateKeysToTenants } from '@/lib/redis/tenant-migration';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { migrateChatsSchema } from '@/lib/validation/chat.schema';
+
+async function handleTenantMigration(request: NextRequest): Promise<Response> {
+  try {
+    if (!isOperatorRequest(request)) {
+      return unauthorized();
+    }
+
+    const validation = migrateChatsSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return badRequest('Invalid request', {
+        errors: validation.error.errors,
+      });
+    }
+
+    const { cursor, count } = validation.data;
+    const batch = await migrateKeysToTenants(cursor, count);
+
+    return success(batch, { message: 'Tenant migration batch completed' });
+  } catch (error) {
+    logError('Tenant migration error', error);
+    return serverError('Failed to migrate keys');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const limitedHandler = requireRateLimit(
+    RATE_LIMITS.API_DEFAULT,
+    handleTenantMigration,
+  );
+  return limitedHandler(request);
+}
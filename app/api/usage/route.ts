@@ -0,0 +1,75 @@
+/**
+ * Usage API Endpoint
+ * GET /api/usage?days=30 - Tokens and estimated cost of the user's AI
+ * responses over the last N days, by day, chat and model
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  requireSession,
+  getSessionTenantId,
+} from '@/server/middleware/session';
+import { requireRateLimit } from '@/server/middleware/rate-limit';
+import {
+  success,
+  badRequest,
+  unauthorized,
+  serverError,
+} from '@/server/api-response';
+import { getChatRepository } from '@/lib/chat/repository';
+import { RATE_LIMITS } from '@/lib/rate-limiter';
+import { logError } from '@/utils/logger';
+import { buildUsageReport, usageReportRange } from '@/lib/chat/usage-report';
+import { usageReportSchema } from '@/lib/validation/chat.schema';
+
+// Reports cover whole histories, not a page of them
+const USAGE_MESSAGE_LIMIT = 10000;
+
+async function handleUsageGet(request: NextRequest): Promise<Response> {
+  try {
+    // Require authenticated session
+    const session = await requireSession(request);
+    const chatRepository = getChatRepository(getSessionTenantId(session));
+
+    const queryValidation = usageReportSchema.safeParse({
+      days: request.nextUrl.searchParams.get('days') || undefined,
+    });
+
+    if (!queryValidation.success) {
+      return badRequest('Invalid query parameters', {
+        errors: queryValidation.error.errors,
+      });
+    }
+
+    const range = usageReportRange(queryValidation.data.days, new Date());
+
+    // A chat untouched since the range began has no responses inside it
+    const chats = (await chatRepository.getUserChats(session.userId)).filter(
+      (chat) => new Date(chat.updatedAt) >= range.from,
+    );
+    const sources = await Promise.all(
+      chats.map(async (chat) => ({
+        chat,
+        messages: await chatRepository.getChatMessages(
+          chat.id,
+          0,
+          USAGE_MESSAGE_LIMIT,
+        ),
+      })),
+    );
+
+    return success(buildUsageReport(sources, range), undefined, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+  } catch (error) {
+    logError('Usage report error', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return unauthorized();
+    }
+
+    return serverError('Failed to load usage');
+  }
+}
+
+export const GET = requireRateLimit(RATE_LIMITS.API_DEFAULT, handleUsageGet);
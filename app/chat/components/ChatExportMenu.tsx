@@ -0,0 +1,81 @@
+/**
+ * ChatExportMenu
+ * Header menu for downloading the active chat as Markdown, JSON or HTML
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { DownloadIcon } from '@/components/ui/icons';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { useExportChat } from '@/app/chat/hooks/useExportChat';
+import type { ChatExportFormat } from '@/lib/chat/export';
+import { STRINGS } from '@/lib/constants/strings';
+
+const FORMAT_OPTIONS: Array<{ format: ChatExportFormat; label: string }> = [
+  { format: 'markdown', label: STRINGS.chat.export.markdown },
+  { format: 'json', label: STRINGS.chat.export.json },
+  { format: 'html', label: STRINGS.chat.export.html },
+];
+
+interface ChatExportMenuProps {
+  chatId: string | null;
+}
+
+export function ChatExportMenu({ chatId }: ChatExportMenuProps) {
+  const { exportChat, isExporting, error } = useExportChat();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: ChatExportFormat) => {
+    if (!chatId) return;
+
+    exportChat(chatId, format);
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={STRINGS.chat.export.triggerLabel}
+          title={error?.message ?? STRINGS.chat.export.triggerLabel}
+          disabled={isExporting}
+        >
+          <DownloadIcon className="h-5 w-5" aria-hidden="true" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64" align="end">
+        <h2 className="mb-2 text-sm font-semibold">
+          {STRINGS.chat.export.title}
+        </h2>
+
+        {!chatId ? (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {STRINGS.chat.export.unavailable}
+          </p>
+        ) : (
+          <div className="flex flex-col gap-1">
+            {FORMAT_OPTIONS.map(({ format, label }) => (
+              <Button
+                key={format}
+                variant="ghost"
+                size="sm"
+                className="justify-start"
+                onClick={() => handleExport(format)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,6 +1,7 @@
 /**
  * ChatHeader
- * Branded chat header with connection status and user menu
+ * Branded chat header with connection status, chat settings, export,
+ * sharing and user menu
  */
 
 'use client';
@@ -8,6 +9,10 @@
 import Image from 'next/image';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { STRINGS } from '@/lib/constants/strings';
+import type { AppRole } from '@/lib/auth/roles';
+import { ChatExportMenu } from './ChatExportMenu';
+import { ChatSettingsPopover } from './ChatSettingsPopover';
+import { ChatShareMenu } from './ChatShareMenu';
 import { ConnectionStatus } from './ConnectionStatus';
 import { UserMenu } from './UserMenu';
 
@@ -15,12 +20,19 @@ interface ChatHeaderProps {
   user?: {
     name: string;
     email: string;
+    appRole?: AppRole;
   } | null;
   photoUrl?: string | null;
+  activeChatId?: string | null;
   onLogout: () => void;
 }
 
-export function ChatHeader({ user, photoUrl, onLogout }: ChatHeaderProps) {
+export function ChatHeader({
+  user,
+  photoUrl,
+  activeChatId = null,
+  onLogout,
+}: ChatHeaderProps) {
   return (
     <header className="flex items-center justify-between border-b border-gray-200 bg-[var(--background)] px-6 py-4 shadow-sm dark:border-gray-700 dark:bg-gray-900">
       <div className="flex items-center gap-2">
@@ -43,6 +55,9 @@ export function ChatHeader({ user, photoUrl, onLogout }: ChatHeaderProps) {
         <ConnectionStatus />
       </div>
       <div className="flex items-center gap-3">
+        {user && <ChatShareMenu chatId={activeChatId} />}
+        {user && <ChatExportMenu chatId={activeChatId} />}
+        {user && <ChatSettingsPopover chatId={activeChatId} />}
         <ThemeToggle />
         <UserMenu user={user} photoUrl={photoUrl} onLogout={onLogout} />
       </div>
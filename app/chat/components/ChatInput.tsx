@@ -15,7 +15,7 @@ import {
   MESSAGE_LENGTH_WARNING_THRESHOLD,
 } from '@/lib/constants/ui';
 import { STRINGS } from '@/lib/constants/strings';
-import { SendIcon, PlusIcon } from '@/components/ui/icons';
+import { SendIcon, PlusIcon, StopIcon } from '@/components/ui/icons';
 
 const COUNTDOWN_INTERVAL_MS = 1000;
 const MIN_COUNTDOWN_VALUE = 1;
@@ -28,6 +28,7 @@ interface ChatInputProps {
   error?: Error | null;
   rateLimitSeconds?: number | null;
   onNewChat?: () => void;
+  onStop?: () => void;
 }
 
 export function ChatInput({
@@ -36,6 +37,7 @@ export function ChatInput({
   error,
   rateLimitSeconds,
   onNewChat,
+  onStop,
 }: ChatInputProps) {
   const [message, setMessage] = useState('');
   const [isComposing, setIsComposing] = useState(false);
@@ -235,32 +237,45 @@ export function ChatInput({
                 )}
               </span>
             </div>
-            <button
-              onClick={handleSubmit}
-              disabled={!canSubmit}
-              className={clsx(
-                'flex-1 rounded-md px-4 py-1 text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 sm:flex-initial',
-                {
-                  'cursor-pointer bg-blue-600 text-white hover:bg-blue-700':
-                    canSubmit,
-                  'cursor-not-allowed bg-gray-300 text-gray-500': !canSubmit,
-                },
-              )}
-              aria-label={STRINGS.input.sendButtonAria}
-              aria-disabled={!canSubmit}
-            >
-              {isStreaming ? (
-                <div className="flex items-center gap-2">
-                  <LoadingSpinner className="h-4 w-4 border-white border-t-transparent" />
-                  <span>{STRINGS.status.loading}</span>
-                </div>
-              ) : (
+            {isStreaming && onStop ? (
+              <button
+                onClick={onStop}
+                className="flex-1 cursor-pointer rounded-md bg-red-600 px-4 py-1 text-sm font-medium text-white transition-colors hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 sm:flex-initial"
+                aria-label={STRINGS.input.stopButtonAria}
+              >
                 <div className="flex items-center gap-2">
-                  <SendIcon className="h-5 w-5" />
-                  <span>{STRINGS.input.sendButton}</span>
+                  <StopIcon className="h-4 w-4" />
+                  <span>{STRINGS.input.stopButton}</span>
                 </div>
-              )}
-            </button>
+              </button>
+            ) : (
+              <button
+                onClick={handleSubmit}
+                disabled={!canSubmit}
+                className={clsx(
+                  'flex-1 rounded-md px-4 py-1 text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 sm:flex-initial',
+                  {
+                    'cursor-pointer bg-blue-600 text-white hover:bg-blue-700':
+                      canSubmit,
+                    'cursor-not-allowed bg-gray-300 text-gray-500': !canSubmit,
+                  },
+                )}
+                aria-label={STRINGS.input.sendButtonAria}
+                aria-disabled={!canSubmit}
+              >
+                {isStreaming ? (
+                  <div className="flex items-center gap-2">
+                    <LoadingSpinner className="h-4 w-4 border-white border-t-transparent" />
+                    <span>{STRINGS.status.loading}</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <SendIcon className="h-5 w-5" />
+                    <span>{STRINGS.input.sendButton}</span>
+                  </div>
+                )}
+              </button>
+            )}
             {onNewChat && (
               <button
                 onClick={onNewChat}
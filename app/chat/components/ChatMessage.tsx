@@ -5,28 +5,45 @@
 
 'use client';
 
+import { useState, type FormEvent } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import clsx from 'clsx';
 import type { MessageDTO } from '@/types/models';
+import type { BranchInfo } from '@/lib/chat/message-tree';
 import { MessageAvatar } from './MessageAvatar';
 import { MessageStatusIcon } from './MessageStatusIcon';
 import { ContextTruncationBanner } from './ContextTruncationBanner';
+import { MarkdownContent } from './MarkdownContent';
 import { LoadingDots } from '@/components/ui/icons';
+import { Button } from '@/components/ui/button';
 import { STRINGS } from '@/lib/constants/strings';
 
 interface ChatMessageProps {
   message: MessageDTO;
   isStreaming?: boolean;
   userPhotoUrl?: string | null;
+  branchInfo?: BranchInfo;
+  onSelectBranch?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  /** Highlight the message, e.g. after jumping to a search result */
+  isFocused?: boolean;
 }
 
 export function ChatMessage({
   message,
   isStreaming = false,
   userPhotoUrl,
+  branchInfo,
+  onSelectBranch,
+  onEdit,
+  onRegenerate,
+  isFocused = false,
 }: ChatMessageProps) {
   const isUser = message.role === 'user';
   const isAssistant = message.role === 'assistant';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
 
   const roleLabel = isUser ? STRINGS.roles.user : STRINGS.roles.assistant;
   const timeLabel = formatDistanceToNow(new Date(message.createdAt), {
@@ -35,6 +52,30 @@ export function ChatMessage({
 
   const contextTruncated = message.metadata?.contextTruncated;
   const messagesRemoved = message.metadata?.messagesRemoved;
+  const canEdit = isUser && Boolean(onEdit) && !isStreaming;
+  const canRegenerate = isAssistant && Boolean(onRegenerate) && !isStreaming;
+
+  const handleStartEdit = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const handleEditSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const content = draft.trim();
+    if (!content || !onEdit) return;
+
+    onEdit(message.id, content);
+    setIsEditing(false);
+  };
+
+  const selectSibling = (offset: number) => {
+    if (!branchInfo) return;
+    const siblingId = branchInfo.siblingIds[branchInfo.index + offset];
+    if (siblingId) {
+      onSelectBranch?.(siblingId);
+    }
+  };
 
   return (
     <div
@@ -58,6 +99,8 @@ export function ChatMessage({
           // Dark mode: maintain contrast with gray-700 + border
           'bg-gray-100 text-gray-900 border border-gray-200 shadow-sm dark:bg-gray-700 dark:text-gray-100 dark:border dark:border-gray-600 dark:shadow-none':
             isAssistant,
+          'ring-2 ring-yellow-400 ring-offset-2 dark:ring-offset-gray-900':
+            isFocused,
         })}
       >
         {/* Context truncation indicator */}
@@ -67,12 +110,43 @@ export function ChatMessage({
             <ContextTruncationBanner messagesRemoved={messagesRemoved} />
           )}
 
-        <div className="whitespace-pre-wrap break-words text-sm">
-          {message.content}
-          {isStreaming && (
-            <span className="ml-1 inline-block h-4 w-1 animate-pulse bg-current"></span>
-          )}
-        </div>
+        {isEditing ? (
+          <form onSubmit={handleEditSubmit} className="flex flex-col gap-2">
+            <textarea
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              aria-label={STRINGS.chat.branches.editLabel}
+              rows={3}
+              className="min-w-64 resize-y rounded-md px-2 py-1 text-sm text-gray-900"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(false)}
+              >
+                {STRINGS.chat.branches.cancel}
+              </Button>
+              <Button type="submit" size="sm" disabled={!draft.trim()}>
+                {STRINGS.chat.branches.resubmit}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div>
+            {isAssistant ? (
+              <MarkdownContent content={message.content} />
+            ) : (
+              <div className="whitespace-pre-wrap break-words text-sm">
+                {message.content}
+              </div>
+            )}
+            {isStreaming && (
+              <span className="ml-1 inline-block h-4 w-1 animate-pulse bg-current"></span>
+            )}
+          </div>
+        )}
 
         <div
           className={clsx('flex items-center gap-2 text-xs', {
@@ -80,6 +154,32 @@ export function ChatMessage({
             'text-gray-500': isAssistant,
           })}
         >
+          {branchInfo && branchInfo.total > 1 && (
+            <span className="flex items-center gap-1 tabular-nums">
+              <button
+                type="button"
+                onClick={() => selectSibling(-1)}
+                disabled={branchInfo.index === 0}
+                aria-label={STRINGS.chat.branches.previous}
+                className="px-1 disabled:opacity-40"
+              >
+                ‹
+              </button>
+              {STRINGS.chat.branches.position(
+                branchInfo.index + 1,
+                branchInfo.total,
+              )}
+              <button
+                type="button"
+                onClick={() => selectSibling(1)}
+                disabled={branchInfo.index === branchInfo.total - 1}
+                aria-label={STRINGS.chat.branches.next}
+                className="px-1 disabled:opacity-40"
+              >
+                ›
+              </button>
+            </span>
+          )}
           <span>{timeLabel}</span>
           <MessageStatusIcon status={message.status} />
           {isStreaming && (
@@ -93,6 +193,26 @@ export function ChatMessage({
               {STRINGS.metadata.tokens(message.metadata.tokensUsed)}
             </span>
           )}
+          {canEdit && !isEditing && (
+            <button
+              type="button"
+              onClick={handleStartEdit}
+              aria-label={STRINGS.chat.branches.editLabel}
+              className="ml-auto underline-offset-2 hover:underline"
+            >
+              {STRINGS.chat.branches.edit}
+            </button>
+          )}
+          {canRegenerate && (
+            <button
+              type="button"
+              onClick={() => onRegenerate?.(message.id)}
+              aria-label={STRINGS.chat.branches.regenerateLabel}
+              className="ml-auto underline-offset-2 hover:underline"
+            >
+              {STRINGS.chat.branches.regenerate}
+            </button>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,136 @@
+/**
+ * ChatSearch
+ * Search box over the user's messages; picking a result jumps to it
+ */
+
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import { Input } from '@/components/ui/input';
+import { LoadingSpinner } from '@/components/ui/icons';
+import {
+  useMessageSearch,
+  type SearchRoleFilter,
+} from '@/app/chat/hooks/useMessageSearch';
+import type { MessageSearchResultDTO } from '@/types/models';
+import { STRINGS } from '@/lib/constants/strings';
+
+interface ChatSearchProps {
+  onSelectResult: (result: MessageSearchResultDTO) => void;
+}
+
+function HighlightedSnippet({
+  snippet,
+  highlights,
+}: Pick<MessageSearchResultDTO, 'snippet' | 'highlights'>) {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+
+  highlights.forEach(([start, end]) => {
+    if (start > cursor) {
+      parts.push(snippet.slice(cursor, start));
+    }
+    parts.push(
+      <mark
+        key={start}
+        className="rounded bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-700"
+      >
+        {snippet.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  });
+  parts.push(snippet.slice(cursor));
+
+  return <>{parts}</>;
+}
+
+export function ChatSearch({ onSelectResult }: ChatSearchProps) {
+  const [query, setQuery] = useState('');
+  const [role, setRole] = useState<SearchRoleFilter>(undefined);
+  const { results, isSearching, error } = useMessageSearch(query, role);
+
+  const hasQuery = query.trim().length > 0;
+
+  const handleSelect = (result: MessageSearchResultDTO) => {
+    onSelectResult(result);
+    setQuery('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2 px-4 pb-3">
+      <div className="flex gap-2">
+        <Input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder={STRINGS.chat.search.placeholder}
+          aria-label={STRINGS.chat.search.label}
+          className="h-8 text-sm"
+        />
+        <select
+          value={role ?? ''}
+          onChange={(event) =>
+            setRole((event.target.value || undefined) as SearchRoleFilter)
+          }
+          aria-label={STRINGS.chat.search.roleFilter}
+          className="h-8 rounded-md border border-slate-200 bg-white px-2 text-xs dark:border-slate-800 dark:bg-slate-950"
+        >
+          <option value="">{STRINGS.chat.search.anyRole}</option>
+          <option value="user">{STRINGS.chat.search.userRole}</option>
+          <option value="assistant">{STRINGS.chat.search.assistantRole}</option>
+        </select>
+      </div>
+
+      {hasQuery && (
+        <div className="max-h-80 overflow-y-auto rounded-md border border-gray-200 dark:border-gray-700">
+          {error ? (
+            <p className="p-2 text-xs text-red-700" role="alert">
+              {error.message}
+            </p>
+          ) : isSearching && results.length === 0 ? (
+            <div
+              className="flex justify-center py-3"
+              role="status"
+              aria-label={STRINGS.chat.search.loading}
+            >
+              <LoadingSpinner className="h-4 w-4" />
+            </div>
+          ) : results.length === 0 ? (
+            <p className="p-2 text-xs text-gray-500 dark:text-gray-400">
+              {STRINGS.chat.search.noResults}
+            </p>
+          ) : (
+            <ul aria-label={STRINGS.chat.search.results}>
+              {results.map((result) => (
+                <li key={result.messageId}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(result)}
+                    className="flex w-full flex-col gap-0.5 px-3 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-800"
+                  >
+                    <span className="truncate text-xs font-medium text-gray-900 dark:text-gray-100">
+                      {result.chatTitle}
+                    </span>
+                    <span className="text-xs text-gray-600 dark:text-gray-300">
+                      <span className="font-medium">
+                        {result.role === 'user'
+                          ? STRINGS.chat.search.userRole
+                          : STRINGS.chat.search.assistantRole}
+                        :{' '}
+                      </span>
+                      <HighlightedSnippet
+                        snippet={result.snippet}
+                        highlights={result.highlights}
+                      />
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
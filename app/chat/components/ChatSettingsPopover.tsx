@@ -0,0 +1,187 @@
+/**
+ * ChatSettingsPopover
+ * Per-chat model, generation and system prompt settings
+ */
+
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SlidersIcon } from '@/components/ui/icons';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { useAppSelector } from '@/lib/redux/hooks';
+import { useManageChat } from '@/app/chat/hooks/useManageChat';
+import { useChatModels } from '@/app/chat/hooks/useChatModels';
+import { PersonaPresets } from './PersonaPresets';
+import { STRINGS } from '@/lib/constants/strings';
+import {
+  CHAT_MAX_TOKENS_MAX,
+  CHAT_MAX_TOKENS_MIN,
+  CHAT_TEMPERATURE_MAX,
+  CHAT_TEMPERATURE_MIN,
+  CHAT_TEMPERATURE_STEP,
+  DEFAULT_CHAT_TEMPERATURE,
+} from '@/lib/constants/llm';
+
+const MAX_SYSTEM_PROMPT_LENGTH = 4000;
+
+interface ChatSettingsPopoverProps {
+  chatId: string | null;
+}
+
+export function ChatSettingsPopover({ chatId }: ChatSettingsPopoverProps) {
+  const chat = useAppSelector((state) =>
+    chatId ? state.chat.chats[chatId] : undefined,
+  );
+  const { updateSettings, isPending } = useManageChat();
+  const { models } = useChatModels();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [model, setModel] = useState('');
+  const [temperature, setTemperature] = useState<number | undefined>();
+  const [maxTokens, setMaxTokens] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState('');
+
+  const handleOpenChange = (open: boolean) => {
+    if (open && chat) {
+      setModel(chat.settings?.model ?? '');
+      setTemperature(chat.settings?.temperature);
+      setMaxTokens(chat.settings?.maxTokens?.toString() ?? '');
+      setSystemPrompt(chat.settings?.systemPrompt ?? '');
+    }
+    setIsOpen(open);
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!chat) return;
+
+    updateSettings(chat.id, {
+      model: model || undefined,
+      temperature,
+      maxTokens: maxTokens ? Number(maxTokens) : undefined,
+      systemPrompt: systemPrompt.trim() || undefined,
+    });
+    setIsOpen(false);
+  };
+
+  const handleReset = () => {
+    if (!chat) return;
+
+    updateSettings(chat.id, {});
+    setIsOpen(false);
+  };
+
+  const displayTemperature = temperature ?? DEFAULT_CHAT_TEMPERATURE;
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={STRINGS.chat.settings.triggerLabel}
+          title={STRINGS.chat.settings.triggerLabel}
+        >
+          <SlidersIcon className="h-5 w-5" aria-hidden="true" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="max-h-[80vh] w-96 overflow-y-auto" align="end">
+        <h2 className="mb-3 text-sm font-semibold">
+          {STRINGS.chat.settings.title}
+        </h2>
+
+        {!chat ? (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {STRINGS.chat.settings.unavailable}
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+            <label className="flex flex-col gap-1 text-sm">
+              <span>{STRINGS.chat.settings.model}</span>
+              <select
+                value={model}
+                onChange={(event) => setModel(event.target.value)}
+                className="h-10 rounded-md border border-slate-200 bg-white px-3 text-sm dark:border-slate-800 dark:bg-slate-950"
+              >
+                <option value="">{STRINGS.chat.settings.defaultModel}</option>
+                {models.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="flex justify-between">
+                {STRINGS.chat.settings.temperature}
+                <output className="tabular-nums">
+                  {displayTemperature.toFixed(1)}
+                </output>
+              </span>
+              <input
+                type="range"
+                min={CHAT_TEMPERATURE_MIN}
+                max={CHAT_TEMPERATURE_MAX}
+                step={CHAT_TEMPERATURE_STEP}
+                value={displayTemperature}
+                onChange={(event) => setTemperature(Number(event.target.value))}
+              />
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm">
+              <span>{STRINGS.chat.settings.maxTokens}</span>
+              <Input
+                type="number"
+                inputMode="numeric"
+                min={CHAT_MAX_TOKENS_MIN}
+                max={CHAT_MAX_TOKENS_MAX}
+                value={maxTokens}
+                placeholder={STRINGS.chat.settings.maxTokensPlaceholder}
+                onChange={(event) => setMaxTokens(event.target.value)}
+              />
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm">
+              <span>{STRINGS.chat.settings.systemPrompt}</span>
+              <textarea
+                value={systemPrompt}
+                onChange={(event) => setSystemPrompt(event.target.value)}
+                maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+                rows={4}
+                placeholder={STRINGS.chat.settings.systemPromptPlaceholder}
+                className="resize-y rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-slate-800 dark:bg-slate-950"
+              />
+            </label>
+
+            <PersonaPresets
+              systemPrompt={systemPrompt}
+              onApply={setSystemPrompt}
+            />
+
+            <div className="flex justify-between gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={handleReset}
+                disabled={isPending}
+              >
+                {STRINGS.chat.settings.reset}
+              </Button>
+              <Button type="submit" size="sm" disabled={isPending}>
+                {STRINGS.chat.settings.save}
+              </Button>
+            </div>
+          </form>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * ChatShareMenu
+ * Header popover for minting, copying and revoking read-only share links
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner, ShareIcon } from '@/components/ui/icons';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { buildShareUrl, useShareLinks } from '@/app/chat/hooks/useShareLinks';
+import { STRINGS } from '@/lib/constants/strings';
+import { COPY_FEEDBACK_DURATION_MS } from '@/lib/constants/ui';
+
+const EXPIRY_OPTIONS_DAYS = [1, 7, 30] as const;
+
+interface ChatShareMenuProps {
+  chatId: string | null;
+}
+
+export function ChatShareMenu({ chatId }: ChatShareMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const {
+    links,
+    redactionPreview,
+    isLoading,
+    createLink,
+    revokeLink,
+    isPending,
+    error,
+  } = useShareLinks(chatId, isOpen);
+
+  useEffect(() => {
+    if (!copiedToken) return;
+    const timeout = setTimeout(
+      () => setCopiedToken(null),
+      COPY_FEEDBACK_DURATION_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [copiedToken]);
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(token));
+      setCopiedToken(token);
+    } catch {
+      // Clipboard access can be denied; the link stays selectable
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={STRINGS.chat.share.triggerLabel}
+          title={STRINGS.chat.share.triggerLabel}
+        >
+          <ShareIcon className="h-5 w-5" aria-hidden="true" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="max-h-[80vh] w-96 overflow-y-auto" align="end">
+        <h2 className="mb-3 text-sm font-semibold">
+          {STRINGS.chat.share.title}
+        </h2>
+
+        {!chatId ? (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {STRINGS.chat.share.unavailable}
+          </p>
+        ) : isLoading ? (
+          <div
+            className="flex justify-center py-4"
+            role="status"
+            aria-label={STRINGS.chat.share.loading}
+          >
+            <LoadingSpinner className="h-5 w-5" />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4 text-sm">
+            {error && (
+              <p className="rounded-md bg-red-50 p-2 text-xs text-red-800">
+                {error.message}
+              </p>
+            )}
+
+            {redactionPreview && (
+              <div className="rounded-md border border-gray-200 p-3 dark:border-gray-700">
+                <p>
+                  {STRINGS.chat.share.preview(redactionPreview.messageCount)}
+                </p>
+                {redactionPreview.redactedFields.length > 0 ? (
+                  <p className="mt-2 text-xs text-gray-600 dark:text-gray-300">
+                    {STRINGS.chat.share.redactedFields}{' '}
+                    {redactionPreview.redactedFields.map((field) => (
+                      <code
+                        key={field}
+                        className="mr-1 rounded bg-gray-100 px-1 line-through dark:bg-gray-800"
+                      >
+                        {field}
+                      </code>
+                    ))}
+                  </p>
+                ) : (
+                  <p className="mt-2 text-xs text-gray-600 dark:text-gray-300">
+                    {STRINGS.chat.share.nothingRedacted}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-end gap-2">
+              <label className="flex flex-1 flex-col gap-1">
+                <span>{STRINGS.chat.share.expiry}</span>
+                <select
+                  value={expiresInDays}
+                  onChange={(event) => setExpiresInDays(event.target.value)}
+                  className="h-9 rounded-md border border-slate-200 bg-white px-2 text-sm dark:border-slate-800 dark:bg-slate-950"
+                >
+                  <option value="">{STRINGS.chat.share.neverExpires}</option>
+                  {EXPIRY_OPTIONS_DAYS.map((days) => (
+                    <option key={days} value={days}>
+                      {STRINGS.chat.share.expiryDays(days)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <Button
+                size="sm"
+                disabled={isPending}
+                onClick={() =>
+                  createLink(expiresInDays ? Number(expiresInDays) : undefined)
+                }
+              >
+                {STRINGS.chat.share.create}
+              </Button>
+            </div>
+
+            <div>
+              <h3 className="mb-2 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+                {STRINGS.chat.share.activeLinks}
+              </h3>
+              {links.length === 0 ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {STRINGS.chat.share.noLinks}
+                </p>
+              ) : (
+                <ul className="flex flex-col gap-2">
+                  {links.map((link) => (
+                    <li
+                      key={link.token}
+                      className="flex items-center gap-2 rounded-md border border-gray-200 p-2 dark:border-gray-700"
+                    >
+                      <div className="flex min-w-0 flex-1 flex-col">
+                        <span className="truncate font-mono text-xs">
+                          /share/{link.token}
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {link.expiresAt
+                            ? STRINGS.chat.share.expiresAt(
+                                format(new Date(link.expiresAt), 'PPp'),
+                              )
+                            : STRINGS.chat.share.noExpiry}
+                        </span>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => void handleCopy(link.token)}
+                      >
+                        {copiedToken === link.token
+                          ? STRINGS.chat.share.copied
+                          : STRINGS.chat.share.copy}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 dark:text-red-400"
+                        aria-label={STRINGS.chat.share.revokeLabel}
+                        disabled={isPending}
+                        onClick={() => revokeLink(link.token)}
+                      >
+                        {STRINGS.chat.share.revoke}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * ChatSidebar
+ * Lists the user's conversations and lets them switch, rename, archive, delete
+ * or import
+ */
+
+'use client';
+
+import { useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { useAppSelector } from '@/lib/redux/hooks';
+import { useChatList } from '@/app/chat/hooks/useChatList';
+import { useManageChat } from '@/app/chat/hooks/useManageChat';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/icons';
+import { STRINGS } from '@/lib/constants/strings';
+import type { MessageSearchResultDTO } from '@/types/models';
+import { ChatSearch } from './ChatSearch';
+import { ChatSidebarItem } from './ChatSidebarItem';
+
+interface ChatSidebarProps {
+  activeChatId: string | null;
+  onSelectChat: (chatId: string) => void;
+  /** Open a search result's chat scrolled to the matching message */
+  onJumpToMessage?: (result: MessageSearchResultDTO) => void;
+}
+
+export function ChatSidebar({
+  activeChatId,
+  onSelectChat,
+  onJumpToMessage,
+}: ChatSidebarProps) {
+  const [showArchived, setShowArchived] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    isLoading,
+    error: listError,
+    hasMoreChats,
+    isFetchingMoreChats,
+    fetchMoreChats,
+  } = useChatList({
+    archived: showArchived,
+  });
+  const {
+    renameChat,
+    archiveChat,
+    deleteChat,
+    importChat,
+    isImporting,
+    error: actionError,
+  } = useManageChat();
+  const chatsById = useAppSelector((state) => state.chat.chats);
+
+  const chats = useMemo(
+    () =>
+      Object.values(chatsById)
+        .filter((chat) => chat.archived === showArchived)
+        .sort(
+          (a, b) =>
+            new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
+        ),
+    [chatsById, showArchived],
+  );
+
+  const error = listError ?? actionError;
+
+  const handleImportFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+
+    importChat(file, (chat) => {
+      setShowArchived(chat.archived);
+      onSelectChat(chat.id);
+    });
+  };
+
+  return (
+    <aside
+      aria-label={STRINGS.chat.sidebar.ariaLabel}
+      className="hidden w-72 shrink-0 flex-col border-r border-gray-200 bg-[var(--background)] md:flex dark:border-gray-700 dark:bg-gray-900"
+    >
+      <div className="flex items-center justify-between px-4 py-3">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          {STRINGS.chat.sidebar.title}
+        </h2>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="h-7 px-2 text-xs"
+            title={STRINGS.chat.sidebar.importChatLabel}
+            disabled={isImporting}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {STRINGS.chat.sidebar.importChat}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="h-7 px-2 text-xs"
+            aria-pressed={showArchived}
+            onClick={() => setShowArchived((prev) => !prev)}
+          >
+            {showArchived
+              ? STRINGS.chat.sidebar.showActive
+              : STRINGS.chat.sidebar.showArchived}
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          aria-label={STRINGS.chat.sidebar.importChatLabel}
+          onChange={handleImportFile}
+        />
+      </div>
+
+      {onJumpToMessage && <ChatSearch onSelectResult={onJumpToMessage} />}
+
+      {error && (
+        <div
+          className="mx-4 mb-2 rounded-md bg-red-50 p-2 text-xs text-red-800"
+          role="alert"
+        >
+          {error.message}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto px-2 pb-4">
+        {isLoading ? (
+          <div
+            className="flex justify-center py-6"
+            role="status"
+            aria-label={STRINGS.chat.sidebar.loading}
+          >
+            <LoadingSpinner className="h-5 w-5" />
+          </div>
+        ) : chats.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            {showArchived
+              ? STRINGS.chat.sidebar.emptyArchived
+              : STRINGS.chat.sidebar.empty}
+          </p>
+        ) : (
+          <>
+            <ul className="flex flex-col gap-1">
+              {chats.map((chat) => (
+                <ChatSidebarItem
+                  key={chat.id}
+                  chat={chat}
+                  isActive={chat.id === activeChatId}
+                  onSelect={onSelectChat}
+                  onRename={renameChat}
+                  onArchive={archiveChat}
+                  onDelete={deleteChat}
+                />
+              ))}
+            </ul>
+            {hasMoreChats && (
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="mt-2 w-full text-xs"
+                disabled={isFetchingMoreChats}
+                onClick={() => void fetchMoreChats()}
+              >
+                {isFetchingMoreChats
+                  ? STRINGS.chat.sidebar.loadingMore
+                  : STRINGS.chat.sidebar.loadMore}
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
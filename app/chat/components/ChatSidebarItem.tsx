@@ -0,0 +1,182 @@
+/**
+ * ChatSidebarItem
+ * Single conversation entry with inline rename, archive and delete actions
+ */
+
+'use client';
+
+import { useState, type FormEvent, type KeyboardEvent } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import clsx from 'clsx';
+import type { ChatDTO } from '@/types/models';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { STRINGS } from '@/lib/constants/strings';
+
+const MAX_TITLE_LENGTH = 200;
+
+type ItemMode = 'view' | 'rename' | 'confirm-delete';
+
+interface ChatSidebarItemProps {
+  chat: ChatDTO;
+  isActive: boolean;
+  onSelect: (chatId: string) => void;
+  onRename: (chatId: string, title: string) => void;
+  onArchive: (chatId: string, archived: boolean) => void;
+  onDelete: (chatId: string) => void;
+}
+
+export function ChatSidebarItem({
+  chat,
+  isActive,
+  onSelect,
+  onRename,
+  onArchive,
+  onDelete,
+}: ChatSidebarItemProps) {
+  const [mode, setMode] = useState<ItemMode>('view');
+  const [draftTitle, setDraftTitle] = useState(chat.title);
+
+  const updatedLabel = STRINGS.chat.sidebar.updatedAt(
+    formatDistanceToNow(new Date(chat.updatedAt), { addSuffix: true }),
+  );
+
+  const startRename = () => {
+    setDraftTitle(chat.title);
+    setMode('rename');
+  };
+
+  const handleRenameSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = draftTitle.trim();
+    if (trimmed && trimmed !== chat.title) {
+      onRename(chat.id, trimmed);
+    }
+    setMode('view');
+  };
+
+  const handleRenameKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      setMode('view');
+    }
+  };
+
+  if (mode === 'rename') {
+    return (
+      <li className="px-2 py-1">
+        <form onSubmit={handleRenameSubmit} className="flex flex-col gap-2">
+          <Input
+            value={draftTitle}
+            onChange={(event) => setDraftTitle(event.target.value)}
+            onKeyDown={handleRenameKeyDown}
+            maxLength={MAX_TITLE_LENGTH}
+            aria-label={STRINGS.chat.sidebar.renameLabel}
+            autoFocus
+          />
+          <div className="flex gap-2">
+            <Button type="submit" size="sm">
+              {STRINGS.chat.sidebar.rename}
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => setMode('view')}
+            >
+              {STRINGS.chat.sidebar.cancel}
+            </Button>
+          </div>
+        </form>
+      </li>
+    );
+  }
+
+  return (
+    <li
+      className={clsx('group rounded-md px-2 py-1', {
+        'bg-blue-50 dark:bg-gray-800': isActive,
+        'hover:bg-gray-100 dark:hover:bg-gray-800': !isActive,
+      })}
+    >
+      <button
+        type="button"
+        onClick={() => onSelect(chat.id)}
+        aria-current={isActive ? 'page' : undefined}
+        className="flex w-full cursor-pointer flex-col items-start text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+      >
+        <span className="w-full truncate text-sm font-medium text-gray-900 dark:text-gray-100">
+          {chat.title}
+        </span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {updatedLabel}
+        </span>
+      </button>
+
+      {mode === 'confirm-delete' ? (
+        <div className="mt-1 flex items-center gap-2" role="group">
+          <span className="text-xs text-red-700 dark:text-red-400">
+            {STRINGS.chat.sidebar.confirmDelete}
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            variant="destructive"
+            className="h-7 px-2"
+            onClick={() => {
+              setMode('view');
+              onDelete(chat.id);
+            }}
+          >
+            {STRINGS.chat.sidebar.confirm}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2"
+            onClick={() => setMode('view')}
+          >
+            {STRINGS.chat.sidebar.cancel}
+          </Button>
+        </div>
+      ) : (
+        <div
+          className="mt-1 flex gap-1"
+          role="group"
+          aria-label={STRINGS.chat.sidebar.actionsFor(chat.title)}
+        >
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2 text-xs"
+            onClick={startRename}
+          >
+            {STRINGS.chat.sidebar.rename}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2 text-xs"
+            onClick={() => onArchive(chat.id, !chat.archived)}
+          >
+            {chat.archived
+              ? STRINGS.chat.sidebar.unarchive
+              : STRINGS.chat.sidebar.archive}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2 text-xs text-red-600 hover:text-red-700 dark:text-red-400"
+            onClick={() => setMode('confirm-delete')}
+          >
+            {STRINGS.chat.sidebar.delete}
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+}
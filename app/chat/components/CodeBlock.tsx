@@ -0,0 +1,66 @@
+/**
+ * CodeBlock
+ * Syntax-highlighted fenced code with a copy button
+ */
+
+'use client';
+
+import { memo, useEffect, useMemo, useState } from 'react';
+import { highlightCode } from '@/lib/markdown';
+import { COPY_FEEDBACK_DURATION_MS } from '@/lib/constants/ui';
+import { STRINGS } from '@/lib/constants/strings';
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+}
+
+export const CodeBlock = memo(function CodeBlock({
+  code,
+  language,
+}: CodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+  const html = useMemo(() => highlightCode(code, language), [code, language]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(
+      () => setCopied(false),
+      COPY_FEEDBACK_DURATION_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the code stays selectable
+    }
+  };
+
+  return (
+    <div className="my-2 overflow-hidden rounded-md border border-gray-700 bg-gray-900 text-gray-100">
+      <div className="flex items-center justify-between border-b border-gray-700 px-3 py-1 text-xs text-gray-400">
+        <span>{language || STRINGS.chat.markdown.plainCode}</span>
+        <button
+          type="button"
+          onClick={() => void handleCopy()}
+          aria-label={STRINGS.chat.markdown.copyCode}
+          className="rounded px-2 py-0.5 hover:bg-gray-800 hover:text-gray-100"
+        >
+          {copied
+            ? STRINGS.chat.markdown.copied
+            : STRINGS.chat.markdown.copyCode}
+        </button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-sm">
+        <code
+          className={language ? `hljs language-${language}` : 'hljs'}
+          dangerouslySetInnerHTML={{ __html: html }}
+        />
+      </pre>
+    </div>
+  );
+});
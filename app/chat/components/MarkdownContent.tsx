@@ -0,0 +1,41 @@
+/**
+ * MarkdownContent
+ * Renders assistant markdown as sanitized HTML, block by block
+ */
+
+'use client';
+
+import { memo, useMemo } from 'react';
+import { renderMarkdown, splitMarkdownBlocks } from '@/lib/markdown';
+import { CodeBlock } from './CodeBlock';
+
+interface MarkdownContentProps {
+  content: string;
+}
+
+// Memoized per block so a streaming update only re-renders the tail
+const MarkdownBlock = memo(function MarkdownBlock({
+  source,
+}: {
+  source: string;
+}) {
+  const html = useMemo(() => renderMarkdown(source), [source]);
+
+  return <div dangerouslySetInnerHTML={{ __html: html }} />;
+});
+
+export function MarkdownContent({ content }: MarkdownContentProps) {
+  const blocks = useMemo(() => splitMarkdownBlocks(content), [content]);
+
+  return (
+    <div className="markdown-content break-words text-sm">
+      {blocks.map((block, index) =>
+        block.type === 'code' ? (
+          <CodeBlock key={index} code={block.code} language={block.language} />
+        ) : (
+          <MarkdownBlock key={index} source={block.source} />
+        ),
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,9 @@
 
 'use client';
 
-import { useMemo } from 'react';
+import { useEffect } from 'react';
 import type { MessageDTO } from '@/types/models';
-import { useFetchChatHistory } from '@/app/chat/hooks/useFetchChatHistory';
+import { useMessageBranches } from '@/app/chat/hooks/useMessageBranches';
 import { useProfilePhoto } from '@/lib/auth/useProfilePhoto';
 import { MessageListEmptyState } from './MessageListEmptyState';
 import { MessageListErrorState } from './MessageListErrorState';
@@ -17,47 +17,57 @@ import { VirtualizedMessageList } from './VirtualizedMessageList';
 interface MessageListProps {
   chatId?: string;
   liveMessages?: MessageDTO[];
+  /** Re-submit an edited user message as a new branch */
+  onEditMessage?: (messageId: string, content: string) => void;
+  /** Stream an alternate answer, kept as a sibling of the original */
+  onRegenerateMessage?: (messageId: string) => void;
+  /** Message to bring into view, e.g. a search result */
+  focusedMessageId?: string | null;
 }
 
-function mergeMessages(
-  liveMessages: MessageDTO[] | undefined,
-  persistedMessages: MessageDTO[],
-): MessageDTO[] {
-  if (!liveMessages?.length) {
-    return persistedMessages;
-  }
-
-  const merged = [...persistedMessages];
-  const indexMap = new Map<string, number>();
-
-  merged.forEach((message, index) => {
-    indexMap.set(message.id, index);
-  });
-
-  liveMessages.forEach((message) => {
-    const existingIndex = indexMap.get(message.id);
-    if (typeof existingIndex === 'number') {
-      merged[existingIndex] = message;
-    } else {
-      indexMap.set(message.id, merged.length);
-      merged.push(message);
-    }
-  });
-
-  return merged.sort(
-    (a, b) =>
-      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
-  );
-}
-
-export function MessageList({ chatId, liveMessages }: MessageListProps) {
-  const { messages, isLoading, error } = useFetchChatHistory(chatId);
+export function MessageList({
+  chatId,
+  liveMessages,
+  onEditMessage,
+  onRegenerateMessage,
+  focusedMessageId = null,
+}: MessageListProps) {
+  const {
+    messages: allMessages,
+    branchInfo,
+    selectBranch,
+    isMessageLoaded,
+    isLoading,
+    error,
+    hasOlderMessages,
+    isFetchingOlderMessages,
+    fetchOlderMessages,
+  } = useMessageBranches(chatId, liveMessages);
   const { photoUrl: userPhotoUrl } = useProfilePhoto();
 
-  const allMessages = useMemo(
-    () => mergeMessages(liveMessages, messages),
-    [liveMessages, messages],
+  // A match older than the loaded pages pages back until it is loaded; a
+  // match on another branch switches to that branch first
+  const isFocusedOnPath = allMessages.some(
+    (message) => message.id === focusedMessageId,
   );
+  useEffect(() => {
+    if (!focusedMessageId || isFocusedOnPath || isLoading) return;
+
+    if (isMessageLoaded(focusedMessageId)) {
+      selectBranch(focusedMessageId);
+    } else if (hasOlderMessages && !isFetchingOlderMessages) {
+      void fetchOlderMessages();
+    }
+  }, [
+    focusedMessageId,
+    isFocusedOnPath,
+    isLoading,
+    isMessageLoaded,
+    selectBranch,
+    hasOlderMessages,
+    isFetchingOlderMessages,
+    fetchOlderMessages,
+  ]);
 
   if (!chatId) {
     return <MessageListEmptyState variant="no-chat" />;
@@ -84,6 +94,14 @@ export function MessageList({ chatId, liveMessages }: MessageListProps) {
       messages={allMessages}
       isLoading={isLoading}
       userPhotoUrl={userPhotoUrl}
+      branchInfo={branchInfo}
+      onSelectBranch={selectBranch}
+      onEditMessage={onEditMessage}
+      onRegenerateMessage={onRegenerateMessage}
+      focusedMessageId={focusedMessageId}
+      hasOlderMessages={hasOlderMessages}
+      isLoadingOlderMessages={isFetchingOlderMessages}
+      onLoadOlderMessages={fetchOlderMessages}
     />
   );
 }
@@ -5,7 +5,13 @@
 
 'use client';
 
-import { CheckIcon, CloseIcon, LoadingSpinner } from '@/components/ui/icons';
+import {
+  CheckIcon,
+  CloseIcon,
+  LoadingSpinner,
+  StopIcon,
+} from '@/components/ui/icons';
+import { STRINGS } from '@/lib/constants/strings';
 import type { MessageDTO } from '@/types/models';
 
 interface MessageStatusIconProps {
@@ -20,6 +26,13 @@ export function MessageStatusIcon({ status }: MessageStatusIconProps) {
       return <CheckIcon className="h-4 w-4 text-green-500" />;
     case 'failed':
       return <CloseIcon className="h-4 w-4 text-red-500" />;
+    case 'stopped':
+      return (
+        <StopIcon
+          className="h-4 w-4 text-gray-400"
+          aria-label={STRINGS.status.stopped}
+        />
+      );
     default:
       return null;
   }
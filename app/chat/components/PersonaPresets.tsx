@@ -0,0 +1,102 @@
+/**
+ * PersonaPresets
+ * Apply, save and delete named system prompt presets
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { usePersonas } from '@/app/chat/hooks/usePersonas';
+import { STRINGS } from '@/lib/constants/strings';
+
+const MAX_PERSONA_NAME_LENGTH = 80;
+
+interface PersonaPresetsProps {
+  systemPrompt: string;
+  onApply: (systemPrompt: string) => void;
+}
+
+export function PersonaPresets({ systemPrompt, onApply }: PersonaPresetsProps) {
+  const { personas, createPersona, deletePersona, isPending } = usePersonas();
+  const [selectedId, setSelectedId] = useState('');
+  const [name, setName] = useState('');
+
+  const handleSelect = (personaId: string) => {
+    setSelectedId(personaId);
+    const persona = personas.find((item) => item.id === personaId);
+    if (persona) {
+      onApply(persona.systemPrompt);
+    }
+  };
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    const trimmedPrompt = systemPrompt.trim();
+    if (!trimmedName || !trimmedPrompt) return;
+
+    createPersona({ name: trimmedName, systemPrompt: trimmedPrompt });
+    setName('');
+  };
+
+  const handleDelete = () => {
+    if (!selectedId) return;
+
+    deletePersona(selectedId);
+    setSelectedId('');
+  };
+
+  return (
+    <fieldset className="flex flex-col gap-2 text-sm">
+      <legend className="mb-1">{STRINGS.chat.settings.persona}</legend>
+
+      {personas.length > 0 && (
+        <div className="flex gap-2">
+          <select
+            value={selectedId}
+            onChange={(event) => handleSelect(event.target.value)}
+            aria-label={STRINGS.chat.settings.choosePersona}
+            className="h-9 min-w-0 flex-1 rounded-md border border-slate-200 bg-white px-2 text-sm dark:border-slate-800 dark:bg-slate-950"
+          >
+            <option value="">{STRINGS.chat.settings.choosePersona}</option>
+            {personas.map((persona) => (
+              <option key={persona.id} value={persona.id}>
+                {persona.name}
+              </option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={handleDelete}
+            disabled={!selectedId || isPending}
+          >
+            {STRINGS.chat.settings.deletePersona}
+          </Button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={MAX_PERSONA_NAME_LENGTH}
+          placeholder={STRINGS.chat.settings.personaName}
+          aria-label={STRINGS.chat.settings.personaName}
+          className="h-9"
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={handleSave}
+          disabled={!name.trim() || !systemPrompt.trim() || isPending}
+        >
+          {STRINGS.chat.settings.saveAsPersona}
+        </Button>
+      </div>
+    </fieldset>
+  );
+}
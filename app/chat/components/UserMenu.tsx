@@ -5,7 +5,8 @@
 
 'use client';
 
-import { Button } from '@/components/ui/button';
+import Link from 'next/link';
+import { Button, buttonVariants } from '@/components/ui/button';
 import {
   Popover,
   PopoverContent,
@@ -13,11 +14,13 @@ import {
 } from '@/components/ui/popover';
 import { UserAvatar } from '@/components/ui/user-avatar';
 import { STRINGS } from '@/lib/constants/strings';
+import { DEFAULT_APP_ROLE, hasAppRole, type AppRole } from '@/lib/auth/roles';
 
 interface UserMenuProps {
   user?: {
     name?: string | null;
     email?: string | null;
+    appRole?: AppRole;
   } | null;
   photoUrl?: string | null;
   onLogout: () => void;
@@ -81,7 +84,27 @@ export function UserMenu({ user, photoUrl, onLogout }: UserMenuProps) {
               )}
             </div>
           </div>
-          <div className="border-t border-gray-200 pt-3 dark:border-gray-700">
+          <div className="flex flex-col gap-1 border-t border-gray-200 pt-3 dark:border-gray-700">
+            <Link
+              href="/usage"
+              className={buttonVariants({
+                variant: 'ghost',
+                className: 'w-full justify-start',
+              })}
+            >
+              {STRINGS.usage.menuLink}
+            </Link>
+            {hasAppRole(user.appRole ?? DEFAULT_APP_ROLE, 'admin') && (
+              <Link
+                href="/admin"
+                className={buttonVariants({
+                  variant: 'ghost',
+                  className: 'w-full justify-start',
+                })}
+              >
+                {STRINGS.admin.menuLink}
+              </Link>
+            )}
             <Button
               variant="ghost"
               className="w-full justify-start text-red-600 hover:bg-red-50 hover:text-red-700 dark:text-red-400 dark:hover:bg-red-950 dark:hover:text-red-300"
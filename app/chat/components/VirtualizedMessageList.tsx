@@ -5,11 +5,13 @@
 
 'use client';
 
-import { useCallback, useEffect, useRef } from 'react';
+import { useCallback, useEffect, useLayoutEffect, useRef } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import type { MessageDTO } from '@/types/models';
+import type { BranchInfo } from '@/lib/chat/message-tree';
 import {
   ESTIMATED_MESSAGE_HEIGHT_PX,
+  LOAD_OLDER_MESSAGES_THRESHOLD_PX,
   VIRTUAL_SCROLL_OVERSCAN_COUNT,
 } from '@/lib/constants/ui';
 import { STRINGS } from '@/lib/constants/strings';
@@ -19,14 +21,38 @@ interface VirtualizedMessageListProps {
   messages: MessageDTO[];
   isLoading: boolean;
   userPhotoUrl?: string | null;
+  /** Sibling positions for messages that have alternate branches */
+  branchInfo?: Record<string, BranchInfo>;
+  onSelectBranch?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onRegenerateMessage?: (messageId: string) => void;
+  /** Scrolled into view and highlighted instead of following the latest */
+  focusedMessageId?: string | null;
+  /** Earlier messages exist that have not been loaded yet */
+  hasOlderMessages?: boolean;
+  isLoadingOlderMessages?: boolean;
+  /** Called when the user scrolls near the top of the loaded history */
+  onLoadOlderMessages?: () => void;
 }
 
 export function VirtualizedMessageList({
   messages,
   isLoading,
   userPhotoUrl,
+  branchInfo,
+  onSelectBranch,
+  onEditMessage,
+  onRegenerateMessage,
+  focusedMessageId = null,
+  hasOlderMessages = false,
+  isLoadingOlderMessages = false,
+  onLoadOlderMessages,
 }: VirtualizedMessageListProps) {
   const parentRef = useRef<HTMLDivElement>(null);
+  // Distance from the bottom, kept while older messages are prepended
+  const scrollAnchorRef = useRef<number | null>(null);
+  const firstMessageId = messages[0]?.id;
+  const lastMessageId = messages[messages.length - 1]?.id;
 
   // eslint-disable-next-line react-hooks/incompatible-library -- TanStack's hook manages its own memoization
   const rowVirtualizer = useVirtualizer({
@@ -46,18 +72,75 @@ export function VirtualizedMessageList({
     [rowVirtualizer],
   );
 
+  const focusedIndex = focusedMessageId
+    ? messages.findIndex((message) => message.id === focusedMessageId)
+    : -1;
+
+  const lastIndexRef = useRef(-1);
   useEffect(() => {
-    if (parentRef.current && messages.length > 0) {
-      rowVirtualizer.scrollToIndex(messages.length - 1, {
+    lastIndexRef.current = messages.length - 1;
+  });
+
+  // Follow new messages at the end; older pages land at the start instead
+  useEffect(() => {
+    if (parentRef.current && lastMessageId && focusedIndex < 0) {
+      rowVirtualizer.scrollToIndex(lastIndexRef.current, {
         align: 'end',
         behavior: 'smooth',
       });
     }
-  }, [messages.length, rowVirtualizer]);
+  }, [lastMessageId, focusedIndex, rowVirtualizer]);
+
+  useEffect(() => {
+    if (parentRef.current && focusedIndex >= 0) {
+      rowVirtualizer.scrollToIndex(focusedIndex, { align: 'center' });
+    }
+  }, [focusedIndex, rowVirtualizer]);
+
+  const loadOlderMessages = useCallback(() => {
+    const element = parentRef.current;
+    if (
+      !element ||
+      !hasOlderMessages ||
+      isLoadingOlderMessages ||
+      !onLoadOlderMessages
+    ) {
+      return;
+    }
+
+    scrollAnchorRef.current = element.scrollHeight - element.scrollTop;
+    onLoadOlderMessages();
+  }, [hasOlderMessages, isLoadingOlderMessages, onLoadOlderMessages]);
+
+  const handleScroll = useCallback(() => {
+    const element = parentRef.current;
+    if (element && element.scrollTop <= LOAD_OLDER_MESSAGES_THRESHOLD_PX) {
+      loadOlderMessages();
+    }
+  }, [loadOlderMessages]);
+
+  // History shorter than the viewport cannot be scrolled to the top
+  useEffect(() => {
+    const element = parentRef.current;
+    if (element && element.scrollHeight <= element.clientHeight) {
+      loadOlderMessages();
+    }
+  }, [messages.length, loadOlderMessages]);
+
+  // Keep the messages on screen in place once older ones are prepended
+  useLayoutEffect(() => {
+    const element = parentRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (!element || anchor === null) return;
+
+    scrollAnchorRef.current = null;
+    element.scrollTop = element.scrollHeight - anchor;
+  }, [firstMessageId]);
 
   return (
     <div
       ref={parentRef}
+      onScroll={handleScroll}
       className="h-full overflow-auto p-6"
       role="log"
       aria-live="polite"
@@ -65,6 +148,14 @@ export function VirtualizedMessageList({
       aria-busy={isLoading}
       aria-label={STRINGS.chat.messageHistory}
     >
+      {isLoadingOlderMessages && (
+        <div
+          role="status"
+          className="pb-4 text-center text-sm text-gray-500 dark:text-gray-400"
+        >
+          {STRINGS.chat.loadingOlderMessages}
+        </div>
+      )}
       <div
         style={{
           height: `${rowVirtualizer.getTotalSize()}px`,
@@ -94,6 +185,11 @@ export function VirtualizedMessageList({
                 message={message}
                 isStreaming={streamInProgress}
                 userPhotoUrl={userPhotoUrl}
+                branchInfo={branchInfo?.[message.id]}
+                onSelectBranch={onSelectBranch}
+                onEdit={onEditMessage}
+                onRegenerate={onRegenerateMessage}
+                isFocused={message.id === focusedMessageId}
               />
             </div>
           );
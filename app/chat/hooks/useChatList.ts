@@ -0,0 +1,89 @@
+/**
+ * useChatList Hook
+ * TanStack infinite query that loads the user's chats into the Redux chat
+ * slice: the most recent page loads first and further pages on demand
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth/useAuth';
+import { useAppDispatch } from '@/lib/redux/hooks';
+import { chatActions } from '@/lib/redux/features/chat/actions';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+import { buildChatAuthHeaders } from '@/app/chat/utils/authHeaders';
+import type { ChatDTO } from '@/types/models';
+import { STRINGS } from '@/lib/constants/strings';
+import { ONE_MINUTE_IN_MS } from '@/lib/constants/common';
+
+const STALE_TIME_MS = ONE_MINUTE_IN_MS;
+const CHAT_LIST_PAGE_SIZE = 100;
+
+interface ChatListPage {
+  chats: ChatDTO[];
+  /** Offset of the next page; null on the last page */
+  nextOffset: number | null;
+}
+
+/**
+ * Fetch one page of chats from the API
+ */
+async function fetchChatList(
+  archived: boolean,
+  offset: number,
+  accessToken: string | null,
+): Promise<ChatListPage> {
+  const headers = await buildChatAuthHeaders(accessToken);
+  const params = new URLSearchParams({
+    archived: String(archived),
+    offset: String(offset),
+    limit: String(CHAT_LIST_PAGE_SIZE),
+  });
+
+  const response = await fetch(`/api/chat?${params.toString()}`, { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || STRINGS.errors.chatListFailed);
+  }
+
+  const data = await response.json();
+  const chats: ChatDTO[] = data.data ?? [];
+  return {
+    chats,
+    nextOffset: data.meta?.pagination?.hasMore ? offset + chats.length : null,
+  };
+}
+
+export function useChatList({ archived }: { archived: boolean }) {
+  const { accessToken } = useAuth();
+  const dispatch = useAppDispatch();
+
+  const query = useInfiniteQuery({
+    queryKey: queryKeys.chatList(archived),
+    queryFn: ({ pageParam }) => fetchChatList(archived, pageParam, accessToken),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+    enabled: Boolean(accessToken),
+    staleTime: STALE_TIME_MS,
+  });
+
+  // Keep the Redux chat slice in sync with the current list view
+  useEffect(() => {
+    if (query.data) {
+      dispatch(
+        chatActions.setChats(query.data.pages.flatMap((page) => page.chats)),
+      );
+    }
+  }, [dispatch, query.data]);
+
+  return {
+    isLoading: query.isLoading,
+    error: query.error,
+    hasMoreChats: query.hasNextPage,
+    isFetchingMoreChats: query.isFetchingNextPage,
+    fetchMoreChats: query.fetchNextPage,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * useChatModels Hook
+ * TanStack Query access to the chat models the user may pick, as offered by
+ * the server's configured LLM provider
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth/useAuth';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+import { buildChatAuthHeaders } from '@/app/chat/utils/authHeaders';
+import type { ChatModelOption } from '@/lib/constants/llm';
+import { STRINGS } from '@/lib/constants/strings';
+import { FIVE_MINUTES_IN_MS } from '@/lib/constants/common';
+
+const STALE_TIME_MS = FIVE_MINUTES_IN_MS;
+
+async function fetchChatModels(
+  accessToken: string | null,
+): Promise<ChatModelOption[]> {
+  const headers = await buildChatAuthHeaders(accessToken);
+  const response = await fetch('/api/chat/models', { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || STRINGS.errors.chatModelsFailed);
+  }
+
+  const data = await response.json();
+  return data.data ?? [];
+}
+
+export function useChatModels() {
+  const { accessToken } = useAuth();
+
+  const query = useQuery({
+    queryKey: queryKeys.chatModels,
+    queryFn: () => fetchChatModels(accessToken),
+    enabled: Boolean(accessToken),
+    staleTime: STALE_TIME_MS,
+  });
+
+  return {
+    models: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
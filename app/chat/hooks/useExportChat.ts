@@ -0,0 +1,66 @@
+/**
+ * useExportChat Hook
+ * Downloads a chat export as a file via the export endpoint
+ */
+
+'use client';
+
+import { useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth/useAuth';
+import { buildChatAuthHeaders } from '@/app/chat/utils/authHeaders';
+import type { ChatExportFormat } from '@/lib/chat/export';
+import { STRINGS } from '@/lib/constants/strings';
+
+const FILENAME_PATTERN = /filename="([^"]+)"/;
+const FALLBACK_FILENAME = 'chat';
+
+function triggerDownload(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+async function downloadChatExport(
+  chatId: string,
+  format: ChatExportFormat,
+  accessToken: string | null,
+): Promise<void> {
+  const headers = await buildChatAuthHeaders(accessToken);
+  const response = await fetch(`/api/chat/${chatId}/export?format=${format}`, {
+    headers,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || STRINGS.errors.exportFailed);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const filename = FILENAME_PATTERN.exec(disposition)?.[1] ?? FALLBACK_FILENAME;
+  triggerDownload(await response.blob(), filename);
+}
+
+export function useExportChat() {
+  const { accessToken } = useAuth();
+
+  const mutation = useMutation<
+    void,
+    Error,
+    { chatId: string; format: ChatExportFormat }
+  >({
+    mutationFn: ({ chatId, format }) =>
+      downloadChatExport(chatId, format, accessToken),
+  });
+
+  return {
+    exportChat: (chatId: string, format: ChatExportFormat) =>
+      mutation.mutate({ chatId, format }),
+    isExporting: mutation.isPending,
+    error: mutation.error,
+  };
+}
@@ -1,15 +1,20 @@
 /**
  * useFetchChatHistory Hook
- * TanStack Query hook for fetching chat history
+ * TanStack infinite query for chat history: the newest page loads first and
+ * older pages are fetched on demand as the user scrolls back
  */
 
 'use client';
 
 import { useMemo } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery } from '@tanstack/react-query';
 import { useAuth } from '@/lib/auth/useAuth';
-import { dedupeMessages } from '@/app/chat/utils/messageReconciler';
-import type { MessageDTO, ChatDTO } from '@/types/models';
+import {
+  flattenHistoryPages,
+  type ChatHistoryData,
+  type ChatHistoryPage,
+} from '@/app/chat/utils/chatHistoryCache';
+import type { MessageDTO } from '@/types/models';
 import { STRINGS } from '@/lib/constants/strings';
 import { FIVE_MINUTES_IN_MS, TEN_MINUTES_IN_MS } from '@/lib/constants/common';
 
@@ -18,25 +23,16 @@ const GC_TIME_MS = TEN_MINUTES_IN_MS;
 const NOT_FOUND_STATUS_TEXT = '404';
 const MAX_RETRY_ATTEMPTS = 2;
 
-interface ChatHistoryResponse {
-  chat: ChatDTO;
-  messages: MessageDTO[];
-  pagination: {
-    offset: number;
-    limit: number;
-    total: number;
-    hasMore: boolean;
-  };
-}
-
 /**
- * Fetch chat history from API
+ * Fetch one page of chat history from API
  */
 async function fetchChatHistory(
   chatId: string,
   accessToken: string | null,
-): Promise<ChatHistoryResponse> {
-  const response = await fetch(`/api/chat/${chatId}`, {
+  before?: string,
+): Promise<ChatHistoryPage> {
+  const query = before ? `?before=${encodeURIComponent(before)}` : '';
+  const response = await fetch(`/api/chat/${chatId}${query}`, {
     headers: {
       Authorization: accessToken ? `Bearer ${accessToken}` : '',
     },
@@ -54,9 +50,20 @@ async function fetchChatHistory(
 export function useFetchChatHistory(chatId?: string) {
   const { accessToken } = useAuth();
 
-  const query = useQuery({
+  const query = useInfiniteQuery<
+    ChatHistoryPage,
+    Error,
+    ChatHistoryData,
+    string[],
+    string | undefined
+  >({
     queryKey: ['chat', chatId ?? ''],
-    queryFn: () => fetchChatHistory(chatId as string, accessToken),
+    queryFn: ({ pageParam }) =>
+      fetchChatHistory(chatId as string, accessToken, pageParam),
+    initialPageParam: undefined,
+    // "Next" pages go back in time
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination?.nextCursor ?? undefined,
     enabled: Boolean(chatId && accessToken),
     staleTime: STALE_TIME_MS,
     gcTime: GC_TIME_MS,
@@ -70,14 +77,16 @@ export function useFetchChatHistory(chatId?: string) {
   });
 
   const normalizedMessages = useMemo<MessageDTO[]>(
-    () => dedupeMessages(query.data?.messages || []),
-    [query.data?.messages],
+    () => flattenHistoryPages(query.data),
+    [query.data],
   );
 
   return {
-    chat: query.data?.chat,
+    chat: query.data?.pages.find((page) => page.chat)?.chat,
     messages: normalizedMessages,
-    pagination: query.data?.pagination,
+    hasOlderMessages: query.hasNextPage,
+    isFetchingOlderMessages: query.isFetchingNextPage,
+    fetchOlderMessages: query.fetchNextPage,
     isLoading: query.isLoading,
     error: query.error,
     refetch: query.refetch,
@@ -0,0 +1,88 @@
+/**
+ * useManageChat Hook
+ * TanStack Query mutations for renaming, archiving, configuring, deleting and
+ * importing chats
+ */
+
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth/useAuth';
+import { useAppDispatch } from '@/lib/redux/hooks';
+import { chatActions } from '@/lib/redux/features/chat/actions';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+import { postChatAction } from '@/app/chat/utils/chatApi';
+import type { ChatDTO } from '@/types/models';
+import { STRINGS } from '@/lib/constants/strings';
+import type {
+  ChatSettingsInput,
+  UpdateChatInput,
+} from '@/lib/validation/chat.schema';
+
+export function useManageChat() {
+  const queryClient = useQueryClient();
+  const dispatch = useAppDispatch();
+  const { accessToken } = useAuth();
+
+  const updateMutation = useMutation<
+    ChatDTO,
+    Error,
+    { chatId: string; updates: UpdateChatInput }
+  >({
+    mutationFn: ({ chatId, updates }) =>
+      postChatAction<ChatDTO>(`/api/chat/${chatId}`, updates, accessToken),
+    onSuccess: (chat) => {
+      dispatch(chatActions.updateChat(chat.id, chat));
+      queryClient.invalidateQueries({ queryKey: queryKeys.chats });
+    },
+  });
+
+  const deleteMutation = useMutation<unknown, Error, string>({
+    mutationFn: (chatId) =>
+      postChatAction(`/api/chat/${chatId}/delete`, {}, accessToken),
+    onSuccess: (_data, chatId) => {
+      dispatch(chatActions.removeChat(chatId));
+      queryClient.removeQueries({ queryKey: ['chat', chatId] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.chats });
+    },
+  });
+
+  const importMutation = useMutation<ChatDTO, Error, File>({
+    mutationFn: async (file) => {
+      let transcript: unknown;
+      try {
+        transcript = JSON.parse(await file.text());
+      } catch {
+        throw new Error(STRINGS.errors.importInvalidFile);
+      }
+      return postChatAction<ChatDTO>(
+        '/api/chat/import',
+        transcript,
+        accessToken,
+        STRINGS.errors.importFailed,
+      );
+    },
+    onSuccess: (chat) => {
+      dispatch(chatActions.addChat(chat));
+      queryClient.invalidateQueries({ queryKey: queryKeys.chats });
+    },
+  });
+
+  return {
+    renameChat: (chatId: string, title: string) =>
+      updateMutation.mutate({ chatId, updates: { title } }),
+    archiveChat: (chatId: string, archived: boolean) =>
+      updateMutation.mutate({ chatId, updates: { archived } }),
+    updateSettings: (chatId: string, settings: ChatSettingsInput) =>
+      updateMutation.mutate({ chatId, updates: { settings } }),
+    deleteChat: (chatId: string) => deleteMutation.mutate(chatId),
+    importChat: (file: File, onImported?: (chat: ChatDTO) => void) =>
+      importMutation.mutate(file, { onSuccess: onImported }),
+    isImporting: importMutation.isPending,
+    isPending:
+      updateMutation.isPending ||
+      deleteMutation.isPending ||
+      importMutation.isPending,
+    error: updateMutation.error ?? deleteMutation.error ?? importMutation.error,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * useMessageBranches Hook
+ * Merges persisted and live messages and resolves the active branch
+ */
+
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import type { MessageDTO } from '@/types/models';
+import { useFetchChatHistory } from '@/app/chat/hooks/useFetchChatHistory';
+import { useAppDispatch, useAppSelector } from '@/lib/redux/hooks';
+import { chatActions } from '@/lib/redux/features/chat/actions';
+import {
+  buildMessageTree,
+  getActivePath,
+  getBranchInfo,
+  getLatestLeafId,
+  type BranchInfo,
+} from '@/lib/chat/message-tree';
+
+export function mergeMessages(
+  liveMessages: MessageDTO[] | undefined,
+  persistedMessages: MessageDTO[],
+): MessageDTO[] {
+  if (!liveMessages?.length) {
+    return persistedMessages;
+  }
+
+  const merged = [...persistedMessages];
+  const indexMap = new Map<string, number>();
+
+  merged.forEach((message, index) => {
+    indexMap.set(message.id, index);
+  });
+
+  liveMessages.forEach((message) => {
+    const existingIndex = indexMap.get(message.id);
+    if (typeof existingIndex === 'number') {
+      merged[existingIndex] = message;
+    } else {
+      indexMap.set(message.id, merged.length);
+      merged.push(message);
+    }
+  });
+
+  return merged.sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  );
+}
+
+export function useMessageBranches(
+  chatId: string | undefined,
+  liveMessages?: MessageDTO[],
+) {
+  const dispatch = useAppDispatch();
+  const {
+    messages,
+    isLoading,
+    error,
+    hasOlderMessages,
+    isFetchingOlderMessages,
+    fetchOlderMessages,
+  } = useFetchChatHistory(chatId);
+  const activeLeafId = useAppSelector((state) =>
+    chatId ? state.chat.activeLeafIds[chatId] : undefined,
+  );
+
+  const tree = useMemo(
+    () => buildMessageTree(mergeMessages(liveMessages, messages)),
+    [liveMessages, messages],
+  );
+
+  const activePath = useMemo(
+    () => getActivePath(tree, activeLeafId),
+    [tree, activeLeafId],
+  );
+
+  const branchInfo = useMemo(() => {
+    const info: Record<string, BranchInfo> = {};
+    activePath.forEach((message) => {
+      const messageInfo = getBranchInfo(tree, message.id);
+      if (messageInfo.total > 1) {
+        info[message.id] = messageInfo;
+      }
+    });
+    return info;
+  }, [tree, activePath]);
+
+  /**
+   * Show a sibling branch, continuing down to its most recent message
+   */
+  const selectBranch = useCallback(
+    (messageId: string) => {
+      if (!chatId || !tree.byId.has(messageId)) return;
+      dispatch(
+        chatActions.setActiveLeaf(chatId, getLatestLeafId(tree, messageId)),
+      );
+    },
+    [chatId, tree, dispatch],
+  );
+
+  /**
+   * Whether the message is in the pages loaded so far, on any branch
+   */
+  const isMessageLoaded = useCallback(
+    (messageId: string) => tree.byId.has(messageId),
+    [tree],
+  );
+
+  return {
+    messages: activePath,
+    branchInfo,
+    selectBranch,
+    isMessageLoaded,
+    isLoading,
+    error,
+    hasOlderMessages,
+    isFetchingOlderMessages,
+    fetchOlderMessages,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * useMessageSearch Hook
+ * Debounced full-text search across the user's conversation history
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth/useAuth';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+import { buildChatAuthHeaders } from '@/app/chat/utils/authHeaders';
+import type { MessageSearchResultDTO } from '@/types/models';
+import { STRINGS } from '@/lib/constants/strings';
+import { SEARCH_DEBOUNCE_MS } from '@/lib/constants/ui';
+import { ONE_MINUTE_IN_MS } from '@/lib/constants/common';
+
+const STALE_TIME_MS = ONE_MINUTE_IN_MS;
+
+export type SearchRoleFilter = 'user' | 'assistant' | undefined;
+
+async function fetchSearchResults(
+  query: string,
+  role: SearchRoleFilter,
+  accessToken: string | null,
+): Promise<MessageSearchResultDTO[]> {
+  const headers = await buildChatAuthHeaders(accessToken);
+  const params = new URLSearchParams({ q: query });
+  if (role) {
+    params.set('role', role);
+  }
+
+  const response = await fetch(`/api/chat/search?${params.toString()}`, {
+    headers,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || STRINGS.errors.searchFailed);
+  }
+
+  const data = await response.json();
+  return data.data ?? [];
+}
+
+export function useMessageSearch(query: string, role?: SearchRoleFilter) {
+  const { accessToken } = useAuth();
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setDebouncedQuery(query.trim()),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const searchQuery = useQuery({
+    queryKey: queryKeys.messageSearch(debouncedQuery, role),
+    queryFn: () => fetchSearchResults(debouncedQuery, role, accessToken),
+    enabled: Boolean(accessToken) && debouncedQuery.length > 0,
+    staleTime: STALE_TIME_MS,
+  });
+
+  return {
+    results: debouncedQuery ? (searchQuery.data ?? []) : [],
+    isSearching: searchQuery.isFetching,
+    error: searchQuery.error,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * usePersonas Hook
+ * TanStack Query access to the user's persona (system prompt) presets
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth/useAuth';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+import { buildChatAuthHeaders } from '@/app/chat/utils/authHeaders';
+import { postChatAction } from '@/app/chat/utils/chatApi';
+import type { PersonaDTO } from '@/types/models';
+import type { CreatePersonaInput } from '@/lib/validation/chat.schema';
+import { STRINGS } from '@/lib/constants/strings';
+import { FIVE_MINUTES_IN_MS } from '@/lib/constants/common';
+
+const STALE_TIME_MS = FIVE_MINUTES_IN_MS;
+
+async function fetchPersonas(
+  accessToken: string | null,
+): Promise<PersonaDTO[]> {
+  const headers = await buildChatAuthHeaders(accessToken);
+  const response = await fetch('/api/personas', { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || STRINGS.errors.personaListFailed);
+  }
+
+  const data = await response.json();
+  return data.data ?? [];
+}
+
+export function usePersonas() {
+  const queryClient = useQueryClient();
+  const { accessToken } = useAuth();
+
+  const query = useQuery({
+    queryKey: queryKeys.personas,
+    queryFn: () => fetchPersonas(accessToken),
+    enabled: Boolean(accessToken),
+    staleTime: STALE_TIME_MS,
+  });
+
+  const createMutation = useMutation<PersonaDTO, Error, CreatePersonaInput>({
+    mutationFn: (input) =>
+      postChatAction<PersonaDTO>(
+        '/api/personas',
+        input,
+        accessToken,
+        STRINGS.errors.personaUpdateFailed,
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.personas });
+    },
+  });
+
+  const deleteMutation = useMutation<unknown, Error, string>({
+    mutationFn: (personaId) =>
+      postChatAction(
+        `/api/personas/${personaId}/delete`,
+        {},
+        accessToken,
+        STRINGS.errors.personaUpdateFailed,
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.personas });
+    },
+  });
+
+  return {
+    personas: query.data ?? [],
+    isLoading: query.isLoading,
+    createPersona: (input: CreatePersonaInput) => createMutation.mutate(input),
+    deletePersona: (personaId: string) => deleteMutation.mutate(personaId),
+    isPending: createMutation.isPending || deleteMutation.isPending,
+    error: query.error ?? createMutation.error ?? deleteMutation.error,
+  };
+}
@@ -9,6 +9,10 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/lib/auth/useAuth';
 import { deriveCsrfToken } from '@/lib/auth/csrf';
 import { reconcileMessages } from '@/app/chat/utils/messageReconciler';
+import {
+  updateLatestHistoryMessages,
+  type ChatHistoryData,
+} from '@/app/chat/utils/chatHistoryCache';
 import type { MessageDTO } from '@/types/models';
 import {
   RANDOM_STRING_BASE,
@@ -60,7 +64,7 @@ interface InternalSendMessageInput extends SendMessageInput {
 }
 
 interface MutationContext {
-  previousData?: { messages: MessageDTO[] };
+  previousData?: ChatHistoryData;
   optimisticMessage?: MessageDTO;
 }
 
@@ -171,9 +175,10 @@ export function useSendMessage(_chatId?: string | null) {
 
       await queryClient.cancelQueries({ queryKey: ['chat', chatId] });
 
-      const previousData = queryClient.getQueryData<{
-        messages: MessageDTO[];
-      }>(['chat', chatId]);
+      const previousData = queryClient.getQueryData<ChatHistoryData>([
+        'chat',
+        chatId,
+      ]);
 
       const optimisticMessage: MessageDTO = {
         id: `temp_${Date.now()}`,
@@ -189,12 +194,11 @@ export function useSendMessage(_chatId?: string | null) {
         updatedAt: new Date().toISOString(),
       };
 
-      queryClient.setQueryData(
-        ['chat', chatId],
-        (old: { messages?: MessageDTO[] }) => ({
-          ...old,
-          messages: [...(old?.messages || []), optimisticMessage],
-        }),
+      queryClient.setQueryData<ChatHistoryData>(['chat', chatId], (old) =>
+        updateLatestHistoryMessages(old, (messages) => [
+          ...messages,
+          optimisticMessage,
+        ]),
       );
 
       return { previousData, optimisticMessage };
@@ -204,22 +208,15 @@ export function useSendMessage(_chatId?: string | null) {
     onSuccess: (data, variables, context) => {
       const { chatId } = data;
 
-      queryClient.setQueryData(
-        ['chat', chatId],
-        (old: { messages?: MessageDTO[] }) => {
-          const messages = old?.messages || [];
-          const reconciled = reconcileMessages({
+      queryClient.setQueryData<ChatHistoryData>(['chat', chatId], (old) =>
+        updateLatestHistoryMessages(old, (messages) =>
+          reconcileMessages({
             existingMessages: messages,
             incomingMessages: [data.userMessage, data.aiMessage],
             clientRequestId: variables.clientRequestId ?? data.clientRequestId,
             optimisticMessageId: context?.optimisticMessage?.id,
-          });
-
-          return {
-            ...old,
-            messages: reconciled,
-          };
-        },
+          }),
+        ),
       );
 
       queryClient.invalidateQueries({ queryKey: ['chat', chatId] });
@@ -0,0 +1,93 @@
+/**
+ * useShareLinks Hook
+ * Lists, mints and revokes read-only share links for a chat
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth/useAuth';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+import { buildChatAuthHeaders } from '@/app/chat/utils/authHeaders';
+import { sendChatAction } from '@/app/chat/utils/chatApi';
+import type { ShareLinkDTO, ShareRedactionPreview } from '@/types/models';
+import { STRINGS } from '@/lib/constants/strings';
+
+interface ShareLinksResponse {
+  links: ShareLinkDTO[];
+  redactionPreview: ShareRedactionPreview;
+}
+
+async function fetchShareLinks(
+  chatId: string,
+  accessToken: string | null,
+): Promise<ShareLinksResponse> {
+  const headers = await buildChatAuthHeaders(accessToken);
+  const response = await fetch(`/api/chat/${chatId}/share`, { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || STRINGS.errors.shareFailed);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+/**
+ * Public URL for a share token on the current origin
+ */
+export function buildShareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+export function useShareLinks(chatId: string | null, enabled = true) {
+  const queryClient = useQueryClient();
+  const { accessToken } = useAuth();
+
+  const linksQuery = useQuery({
+    queryKey: queryKeys.shareLinks(chatId ?? ''),
+    queryFn: () => fetchShareLinks(chatId!, accessToken),
+    enabled: enabled && Boolean(chatId) && Boolean(accessToken),
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.shareLinks(chatId ?? ''),
+    });
+
+  const createMutation = useMutation<ShareLinkDTO, Error, number | undefined>({
+    mutationFn: (expiresInDays) =>
+      sendChatAction<ShareLinkDTO>(
+        'POST',
+        `/api/chat/${chatId}/share`,
+        { expiresInDays },
+        accessToken,
+        STRINGS.errors.shareFailed,
+      ),
+    onSuccess: invalidate,
+  });
+
+  const revokeMutation = useMutation<unknown, Error, string>({
+    mutationFn: (token) =>
+      sendChatAction(
+        'DELETE',
+        `/api/chat/${chatId}/share`,
+        { token },
+        accessToken,
+        STRINGS.errors.shareFailed,
+      ),
+    onSuccess: invalidate,
+  });
+
+  return {
+    links: linksQuery.data?.links ?? [],
+    redactionPreview: linksQuery.data?.redactionPreview ?? null,
+    isLoading: linksQuery.isLoading,
+    createLink: (expiresInDays?: number) =>
+      createMutation.mutate(expiresInDays),
+    revokeLink: (token: string) => revokeMutation.mutate(token),
+    isPending: createMutation.isPending || revokeMutation.isPending,
+    error: linksQuery.error ?? createMutation.error ?? revokeMutation.error,
+  };
+}
@@ -10,16 +10,17 @@ import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/lib/auth/useAuth';
 import { deriveCsrfToken } from '@/lib/auth/csrf';
 import type { MessageDTO } from '@/types/models';
+import {
+  updateLatestHistoryMessages,
+  type ChatHistoryData,
+} from '@/app/chat/utils/chatHistoryCache';
 import {
   BYPASS_ACCESS_TOKEN,
   BYPASS_CSRF_TOKEN,
   isBypassAuthEnabled,
 } from '@/lib/auth/bypass';
 import { STRINGS } from '@/lib/constants/strings';
-import {
-  ONE_SECOND_IN_MS,
-  PARSE_INT_RADIX,
-} from '@/lib/constants/common';
+import { ONE_SECOND_IN_MS, PARSE_INT_RADIX } from '@/lib/constants/common';
 
 const MAX_RECONNECT_ATTEMPTS = 3;
 const TEST_STREAM_CHUNK_DELAY_MS = 15;
@@ -31,6 +32,27 @@ const RECONNECT_BACKOFF_MULTIPLIER = 2;
 const RECONNECT_BACKOFF_BASE_MS = ONE_SECOND_IN_MS;
 const calculateReconnectDelay = (attempt: number) =>
   Math.pow(RECONNECT_BACKOFF_MULTIPLIER, attempt) * RECONNECT_BACKOFF_BASE_MS;
+const TERMINAL_STREAM_EVENTS = new Set([
+  'message_complete',
+  'message_stopped',
+  'fallback',
+  'error',
+]);
+
+async function buildStreamHeaders(
+  token: string,
+  bypassAuth: boolean,
+): Promise<Record<string, string>> {
+  const csrfToken = bypassAuth
+    ? BYPASS_CSRF_TOKEN
+    : await deriveCsrfToken(token);
+
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${token}`,
+    ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+  };
+}
 
 interface MessageCacheUpdate
   extends Partial<Omit<MessageDTO, 'id' | 'chatId'>> {
@@ -46,6 +68,15 @@ interface StreamingMessage {
   messagesRemoved?: number;
 }
 
+interface SendStreamingMessageOptions {
+  /** Re-submit an edited user message as a new branch */
+  editOfMessageId?: string;
+  /** Re-run an assistant message; the content argument is ignored */
+  regenerateMessageId?: string;
+  /** Resume a dropped stream after this SSE event ID instead of re-sending */
+  resumeFromEventId?: string;
+}
+
 interface UseStreamingResponseOptions {
   chatId?: string;
   onMessageCreated?: (
@@ -81,6 +112,8 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
   const lastUserMessageRef = useRef<{
     content: string;
     parentMessageId: string | null;
+    editOfMessageId?: string;
+    regenerateMessageId?: string;
     messageId: string | null;
   }>({
     content: '',
@@ -135,10 +168,8 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
         return;
       }
 
-      queryClient.setQueryData(
-        ['chat', targetChatId],
-        (old: { messages?: MessageDTO[] } | undefined) => {
-          const existingMessages = old?.messages ?? [];
+      queryClient.setQueryData<ChatHistoryData>(['chat', targetChatId], (old) =>
+        updateLatestHistoryMessages(old, (existingMessages) => {
           const targetIndex = existingMessages.findIndex(
             (entry) => entry.id === update.id,
           );
@@ -170,27 +201,25 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
                 : update.parentMessageId,
           };
 
-          const nextMessages =
-            targetIndex >= 0
-              ? [
-                  ...existingMessages.slice(0, targetIndex),
-                  nextMessage,
-                  ...existingMessages.slice(targetIndex + 1),
-                ]
-              : [...existingMessages, nextMessage];
-
-          return {
-            ...old,
-            messages: nextMessages,
-          };
-        },
+          return targetIndex >= 0
+            ? [
+                ...existingMessages.slice(0, targetIndex),
+                nextMessage,
+                ...existingMessages.slice(targetIndex + 1),
+              ]
+            : [...existingMessages, nextMessage];
+        }),
       );
     },
     [queryClient],
   );
 
   const eventSourceRef = useRef<EventSource | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const reconnectAttempts = useRef(0);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const lastEventIdRef = useRef<string | null>(null);
+  const generationIdRef = useRef<string | null>(null);
 
   /**
    * Close SSE connection
@@ -307,8 +336,12 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
   );
 
   const sendStreamingMessage = useCallback(
-    async (content: string, parentMessageId?: string) => {
-      if (isAutomatedTestMode) {
+    async (
+      content: string,
+      parentMessageId?: string,
+      sendOptions: SendStreamingMessageOptions = {},
+    ) => {
+      if (isAutomatedTestMode && !sendOptions.regenerateMessageId) {
         await simulateTestStream(content, parentMessageId);
         return;
       }
@@ -321,41 +354,59 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
         return;
       }
 
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const { resumeFromEventId } = sendOptions;
+      let resumeScheduled = false;
+      let receivedTerminalEvent = false;
+
       try {
         setError(null);
         setIsStreaming(true);
-        setStreamingMessage(null);
         setRateLimitSeconds(null);
-        setContextTruncated(false);
-        setMessagesRemoved(0);
-        contextTruncatedRef.current = false;
-        messagesRemovedRef.current = 0;
-        lastUserMessageRef.current = {
-          content,
-          parentMessageId: parentMessageId ?? null,
-          messageId: null,
-        };
+        // A resumed stream continues the same turn, so keep its state
+        if (!resumeFromEventId) {
+          setStreamingMessage(null);
+          setContextTruncated(false);
+          setMessagesRemoved(0);
+          contextTruncatedRef.current = false;
+          messagesRemovedRef.current = 0;
+          lastEventIdRef.current = null;
+          generationIdRef.current = null;
+          lastUserMessageRef.current = {
+            content,
+            parentMessageId: parentMessageId ?? null,
+            editOfMessageId: sendOptions.editOfMessageId,
+            regenerateMessageId: sendOptions.regenerateMessageId,
+            messageId: null,
+          };
+        }
 
         // Create FormData or JSON payload
-        const payload = {
-          content,
-          chatId: chatId || undefined,
-          parentMessageId,
-        };
-
-        const csrfToken = bypassAuth
-          ? BYPASS_CSRF_TOKEN
-          : await deriveCsrfToken(token);
+        const payload = resumeFromEventId
+          ? { chatId: activeChatIdRef.current || chatId || undefined }
+          : sendOptions.regenerateMessageId
+            ? { chatId, regenerateMessageId: sendOptions.regenerateMessageId }
+            : {
+                content,
+                chatId: chatId || undefined,
+                parentMessageId,
+                editOfMessageId: sendOptions.editOfMessageId,
+              };
+
+        const headers = await buildStreamHeaders(token, bypassAuth);
 
         // Initiate streaming request
         const response = await fetch('/api/chat/stream', {
           method: 'POST',
           headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-            ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+            ...headers,
+            ...(resumeFromEventId
+              ? { 'Last-Event-ID': resumeFromEventId }
+              : {}),
           },
           body: JSON.stringify(payload),
+          signal: abortController.signal,
         });
 
         if (response.status === STATUS_TOO_MANY_REQUESTS) {
@@ -438,6 +489,7 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
             const lines = trimmedEvent.split('\n');
             let eventType = 'message';
             let dataPayload = '';
+            let eventId: string | null = null;
 
             for (const rawLine of lines) {
               const line = rawLine.trim();
@@ -447,6 +499,8 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
 
               if (line.startsWith('event:')) {
                 eventType = line.slice(6).trim();
+              } else if (line.startsWith('id:')) {
+                eventId = line.slice(3).trim();
               } else if (line.startsWith('data:')) {
                 const valuePart = line.slice(5).trim();
                 dataPayload = dataPayload
@@ -455,6 +509,13 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
               }
             }
 
+            if (eventId) {
+              lastEventIdRef.current = eventId;
+            }
+            if (TERMINAL_STREAM_EVENTS.has(eventType)) {
+              receivedTerminalEvent = true;
+            }
+
             if (!dataPayload) {
               continue;
             }
@@ -490,13 +551,32 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
                 if (resolvedChatId) {
                   activeChatIdRef.current = resolvedChatId;
                 }
+                if (typeof data.generationId === 'string') {
+                  generationIdRef.current = data.generationId;
+                }
 
                 setContextTruncated(isTruncated);
                 setMessagesRemoved(removedCount);
                 contextTruncatedRef.current = isTruncated;
                 messagesRemovedRef.current = removedCount;
-                if (resolvedChatId && messageId) {
+                if (
+                  resolvedChatId &&
+                  messageId &&
+                  lastUserMessageRef.current.regenerateMessageId
+                ) {
+                  // Regeneration answers an existing user message
+                  lastUserMessageRef.current.messageId = messageId;
+                } else if (resolvedChatId && messageId) {
                   lastUserMessageRef.current.messageId = messageId;
+                  // The server resolves where the message attaches in the tree
+                  if (typeof data.parentMessageId === 'string') {
+                    lastUserMessageRef.current.parentMessageId =
+                      data.parentMessageId;
+                  }
+                  const { editOfMessageId } = lastUserMessageRef.current;
+                  const userMetadata = editOfMessageId
+                    ? { editedFromMessageId: editOfMessageId }
+                    : null;
                   const timestamp = new Date().toISOString();
 
                   upsertMessageInCache({
@@ -506,7 +586,7 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
                     content: lastUserMessageRef.current.content,
                     status: 'sent',
                     parentMessageId: lastUserMessageRef.current.parentMessageId,
-                    metadata: null,
+                    metadata: userMetadata,
                     createdAt: timestamp,
                     updatedAt: timestamp,
                   });
@@ -519,7 +599,7 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
                       status: 'sent',
                       parentMessageId:
                         lastUserMessageRef.current.parentMessageId,
-                      metadata: null,
+                      metadata: userMetadata,
                       createdAt: timestamp,
                       updatedAt: timestamp,
                     });
@@ -699,6 +779,32 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
                 break;
               }
 
+              case 'message_stopped': {
+                const resolvedChatId = activeChatIdRef.current || chatId || '';
+                const messageId =
+                  typeof data.messageId === 'string' ? data.messageId : '';
+                const stoppedUpdate = {
+                  status: 'stopped' as const,
+                  metadata: { stopped: true },
+                };
+                setStreamingMessage(null);
+                if (resolvedChatId && messageId) {
+                  upsertMessageInCache({
+                    id: messageId,
+                    chatId: resolvedChatId,
+                    ...stoppedUpdate,
+                  });
+                  setLiveMessages((prev) =>
+                    prev.map((message) =>
+                      message.id === messageId
+                        ? { ...message, ...stoppedUpdate }
+                        : message,
+                    ),
+                  );
+                }
+                break;
+              }
+
               case 'error': {
                 const streamError = new Error(
                   typeof data.message === 'string'
@@ -717,14 +823,48 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
           }
         }
 
+        // The connection closed before the server finished the turn
+        if (lastEventIdRef.current && !receivedTerminalEvent) {
+          throw new Error(STRINGS.errors.streamInterrupted);
+        }
+
         reconnectAttempts.current = 0;
       } catch (err) {
+        // Stopped by the user; not an error and never retried
+        if (abortController.signal.aborted) {
+          lastUserMessageRef.current = {
+            content: '',
+            parentMessageId: null,
+            messageId: null,
+          };
+          setStreamingMessage(null);
+          return;
+        }
+
+        // The server buffers the generation, so pick up after the last event
+        const lastEventId = lastEventIdRef.current;
+        if (lastEventId && reconnectAttempts.current < MAX_RECONNECT_ATTEMPTS) {
+          const delay = calculateReconnectDelay(reconnectAttempts.current);
+          reconnectAttempts.current++;
+          resumeScheduled = true;
+
+          reconnectTimeoutRef.current = setTimeout(() => {
+            reconnectTimeoutRef.current = null;
+            void sendStreamingMessage(content, parentMessageId, {
+              ...sendOptions,
+              resumeFromEventId: lastEventId,
+            });
+          }, delay);
+          return;
+        }
+
         lastUserMessageRef.current = {
           content: '',
           parentMessageId: null,
           messageId: null,
         };
         setStreamingMessage(null);
+
         const streamError =
           err instanceof Error
             ? err
@@ -732,17 +872,23 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
         setError(streamError);
         onError?.(streamError);
 
-        // Attempt reconnection with exponential backoff
-        if (reconnectAttempts.current < MAX_RECONNECT_ATTEMPTS) {
+        // Nothing reached the client, so the request is safe to send again
+        if (
+          !lastEventId &&
+          reconnectAttempts.current < MAX_RECONNECT_ATTEMPTS
+        ) {
           const delay = calculateReconnectDelay(reconnectAttempts.current);
           reconnectAttempts.current++;
 
-          setTimeout(() => {
-            void sendStreamingMessage(content, parentMessageId);
+          reconnectTimeoutRef.current = setTimeout(() => {
+            reconnectTimeoutRef.current = null;
+            void sendStreamingMessage(content, parentMessageId, sendOptions);
           }, delay);
         }
       } finally {
-        setIsStreaming(false);
+        if (!resumeScheduled) {
+          setIsStreaming(false);
+        }
       }
     },
     [
@@ -762,6 +908,70 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
     ],
   );
 
+  /**
+   * Stop the in-flight response; the server keeps the partial message
+   */
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+
+    // A buffered generation outlives the connection, so stop it explicitly
+    const generationId = generationIdRef.current;
+    const token = accessToken ?? (bypassAuth ? BYPASS_ACCESS_TOKEN : null);
+    if (generationId && token) {
+      generationIdRef.current = null;
+      void buildStreamHeaders(token, bypassAuth)
+        .then((headers) =>
+          fetch('/api/chat/stream', {
+            method: 'DELETE',
+            headers,
+            body: JSON.stringify({ generationId }),
+          }),
+        )
+        .catch(() => {
+          // Best effort; an unstopped generation still completes and is saved
+        });
+    }
+
+    const resolvedChatId = activeChatIdRef.current;
+    if (streamingMessage && resolvedChatId) {
+      const stoppedUpdate = {
+        status: 'stopped' as const,
+        metadata: { stopped: true },
+      };
+      upsertMessageInCache({
+        id: streamingMessage.id,
+        chatId: resolvedChatId,
+        ...stoppedUpdate,
+      });
+      setLiveMessages((prev) =>
+        prev.map((message) =>
+          message.id === streamingMessage.id
+            ? { ...message, ...stoppedUpdate }
+            : message,
+        ),
+      );
+    }
+
+    setStreamingMessage(null);
+    setIsStreaming(false);
+  }, [accessToken, bypassAuth, streamingMessage, upsertMessageInCache]);
+
+  /**
+   * Stream an alternate answer for an assistant message
+   */
+  const regenerateResponse = useCallback(
+    (assistantMessageId: string) =>
+      sendStreamingMessage('', undefined, {
+        regenerateMessageId: assistantMessageId,
+      }),
+    [sendStreamingMessage],
+  );
+
   /**
    * Cleanup on unmount
    */
@@ -773,6 +983,8 @@ export function useStreamingResponse(options: UseStreamingResponseOptions) {
 
   return {
     sendStreamingMessage,
+    regenerateResponse,
+    stopGeneration,
     streamingMessage,
     isStreaming,
     error,
@@ -5,20 +5,38 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { STRINGS } from '@/lib/constants/strings';
-import type { MessageDTO } from '@/types/models';
+import type { MessageDTO, MessageSearchResultDTO } from '@/types/models';
 import { useAuth } from '@/lib/auth/useAuth';
 import { useProfilePhoto } from '@/lib/auth/useProfilePhoto';
+import { useAppDispatch, useAppSelector } from '@/lib/redux/hooks';
+import { chatActions } from '@/lib/redux/features/chat/actions';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
 import { ChatHeader } from './components/ChatHeader';
 import { ChatInput } from './components/ChatInput';
 import { ChatErrorBoundary } from './components/ChatErrorBoundary';
+import { ChatSidebar } from './components/ChatSidebar';
 import { ChatSignInPrompt } from './components/ChatSignInPrompt';
 import { MessageList } from './components/MessageList';
 import { useStreamingResponse } from './hooks/useStreamingResponse';
 
 export default function ChatPage() {
-  const [chatId, setChatId] = useState<string | undefined>(undefined);
+  const dispatch = useAppDispatch();
+  const queryClient = useQueryClient();
+  const activeChatId = useAppSelector((state) => state.chat.activeChatId);
+  const chatId = activeChatId ?? undefined;
+  const activeLeafId = useAppSelector((state) =>
+    chatId ? state.chat.activeLeafIds[chatId] : undefined,
+  );
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  const setChatId = useCallback(
+    (nextChatId: string | undefined) => {
+      dispatch(chatActions.setActiveChat(nextChatId ?? null));
+    },
+    [dispatch],
+  );
   const {
     isAuthenticated,
     login,
@@ -31,6 +49,8 @@ export default function ChatPage() {
 
   const {
     sendStreamingMessage,
+    regenerateResponse,
+    stopGeneration,
     isStreaming,
     error: streamingError,
     closeConnection,
@@ -47,18 +67,56 @@ export default function ChatPage() {
       if (!chatId && message.chatId) {
         setChatId(message.chatId);
       }
+      // New messages create chats and bump updatedAt, so refresh the sidebar
+      queryClient.invalidateQueries({ queryKey: queryKeys.chats });
     },
   });
 
   const handleSendMessage = (content: string) => {
-    void sendStreamingMessage(content);
+    setFocusedMessageId(null);
+    // Continue from the branch being viewed; the new message becomes the leaf
+    void sendStreamingMessage(content, activeLeafId);
+    if (chatId) {
+      dispatch(chatActions.setActiveLeaf(chatId, null));
+    }
+  };
+
+  const handleEditMessage = (messageId: string, content: string) => {
+    void sendStreamingMessage(content, undefined, {
+      editOfMessageId: messageId,
+    });
+    if (chatId) {
+      dispatch(chatActions.setActiveLeaf(chatId, null));
+    }
+  };
+
+  const handleRegenerateMessage = (messageId: string) => {
+    void regenerateResponse(messageId);
+    if (chatId) {
+      dispatch(chatActions.setActiveLeaf(chatId, null));
+    }
   };
 
   const handleNewChat = () => {
     closeConnection();
+    setFocusedMessageId(null);
     setChatId(undefined);
   };
 
+  const handleSelectChat = (nextChatId: string) => {
+    if (nextChatId === chatId) {
+      return;
+    }
+    closeConnection();
+    setFocusedMessageId(null);
+    setChatId(nextChatId);
+  };
+
+  const handleJumpToMessage = (result: MessageSearchResultDTO) => {
+    handleSelectChat(result.chatId);
+    setFocusedMessageId(result.messageId);
+  };
+
   if (!isAuthenticated) {
     return (
       <ChatSignInPrompt
@@ -74,31 +132,50 @@ export default function ChatPage() {
       <a href="#chat-main" className="skip-link">
         {STRINGS.chat.authPrompt.skipLink}
       </a>
-      <ChatHeader user={user} photoUrl={photoUrl} onLogout={() => void logout()} />
+      <ChatHeader
+        user={user}
+        photoUrl={photoUrl}
+        activeChatId={activeChatId}
+        onLogout={() => void logout()}
+      />
+
+      <div className="flex flex-1 overflow-hidden">
+        <ChatSidebar
+          activeChatId={activeChatId}
+          onSelectChat={handleSelectChat}
+          onJumpToMessage={handleJumpToMessage}
+        />
 
-      {/* Main chat area */}
-      <ChatErrorBoundary onReset={handleNewChat}>
-        <main id="chat-main" className="flex flex-1 flex-col overflow-hidden">
-          {/* Messages */}
-          <div className="flex-1 overflow-y-auto">
-            <MessageList
-              chatId={chatId}
-              liveMessages={liveMessages}
-            />
-          </div>
+        {/* Main chat area */}
+        <ChatErrorBoundary onReset={handleNewChat}>
+          <main id="chat-main" className="flex flex-1 flex-col overflow-hidden">
+            {/* Messages */}
+            <div className="flex-1 overflow-y-auto">
+              <MessageList
+                chatId={chatId}
+                liveMessages={liveMessages}
+                focusedMessageId={focusedMessageId}
+                onEditMessage={isStreaming ? undefined : handleEditMessage}
+                onRegenerateMessage={
+                  isStreaming ? undefined : handleRegenerateMessage
+                }
+              />
+            </div>
 
-          {/* Input */}
-          <div className="border-t border-gray-200 bg-[var(--background)] dark:border-gray-700 dark:bg-gray-900">
-            <ChatInput
-              onSendMessage={handleSendMessage}
-              isStreaming={isStreaming}
-              error={streamingError}
-              rateLimitSeconds={rateLimitSeconds}
-              onNewChat={handleNewChat}
-            />
-          </div>
-        </main>
-      </ChatErrorBoundary>
+            {/* Input */}
+            <div className="border-t border-gray-200 bg-[var(--background)] dark:border-gray-700 dark:bg-gray-900">
+              <ChatInput
+                onSendMessage={handleSendMessage}
+                isStreaming={isStreaming}
+                error={streamingError}
+                rateLimitSeconds={rateLimitSeconds}
+                onNewChat={handleNewChat}
+                onStop={stopGeneration}
+              />
+            </div>
+          </main>
+        </ChatErrorBoundary>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,48 @@
+/**
+ * Chat request auth helpers.
+ * Resolves the bearer token (or test bypass token) and the derived CSRF token.
+ */
+
+import { deriveCsrfToken } from '@/lib/auth/csrf';
+import {
+  BYPASS_ACCESS_TOKEN,
+  BYPASS_CSRF_TOKEN,
+  isBypassAuthEnabled,
+} from '@/lib/auth/bypass';
+import { STRINGS } from '@/lib/constants/strings';
+
+interface AuthHeaderOptions {
+  includeCsrf?: boolean;
+}
+
+/**
+ * Build Authorization (and optionally X-CSRF-Token) headers for chat API calls.
+ * Throws when no token is available so callers surface a sign-in error.
+ */
+export async function buildChatAuthHeaders(
+  accessToken: string | null,
+  options: AuthHeaderOptions = {},
+): Promise<Record<string, string>> {
+  const bypassAuth = isBypassAuthEnabled();
+  const token = accessToken ?? (bypassAuth ? BYPASS_ACCESS_TOKEN : null);
+
+  if (!token) {
+    throw new Error(STRINGS.errors.notAuthenticated);
+  }
+
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${token}`,
+  };
+
+  if (options.includeCsrf) {
+    const csrfToken = bypassAuth
+      ? BYPASS_CSRF_TOKEN
+      : await deriveCsrfToken(token);
+
+    if (csrfToken) {
+      headers['X-CSRF-Token'] = csrfToken;
+    }
+  }
+
+  return headers;
+}
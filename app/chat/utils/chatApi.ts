@@ -0,0 +1,53 @@
+/**
+ * Chat API request helpers.
+ * Authenticated, CSRF-protected mutations shared by chat management hooks.
+ */
+
+import { buildChatAuthHeaders } from '@/app/chat/utils/authHeaders';
+import { STRINGS } from '@/lib/constants/strings';
+
+/**
+ * Send a chat management action with auth and CSRF headers.
+ * Resolves with the response `data` payload.
+ */
+export async function sendChatAction<T>(
+  method: 'POST' | 'PUT' | 'DELETE',
+  url: string,
+  body: unknown,
+  accessToken: string | null,
+  fallbackError: string = STRINGS.errors.chatUpdateFailed,
+): Promise<T> {
+  const authHeaders = await buildChatAuthHeaders(accessToken, {
+    includeCsrf: true,
+  });
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}));
+    throw new Error(errorBody.error?.message || fallbackError);
+  }
+
+  const data = await response.json();
+  return data.data as T;
+}
+
+/**
+ * POST a chat management action with auth and CSRF headers.
+ * Resolves with the response `data` payload.
+ */
+export function postChatAction<T>(
+  url: string,
+  body: unknown,
+  accessToken: string | null,
+  fallbackError: string = STRINGS.errors.chatUpdateFailed,
+): Promise<T> {
+  return sendChatAction<T>('POST', url, body, accessToken, fallbackError);
+}
@@ -0,0 +1,62 @@
+/**
+ * Chat history cache helpers.
+ * The history query caches one page per request, newest page first; live
+ * messages (optimistic sends, streamed replies) belong on the newest page.
+ */
+
+import type { InfiniteData } from '@tanstack/react-query';
+import type { ChatDTO, MessageDTO } from '@/types/models';
+import { dedupeMessages } from './messageReconciler';
+
+export interface ChatHistoryPage {
+  /** Absent on pages created locally before the first fetch */
+  chat?: ChatDTO;
+  /** Oldest message first */
+  messages: MessageDTO[];
+  pagination?: {
+    limit: number;
+    /** Cursor for the page before this one; null at the start of the chat */
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+/** Page params are the `before` cursors; the newest page has none */
+export type ChatHistoryData = InfiniteData<ChatHistoryPage, string | undefined>;
+
+/**
+ * Apply an update to the messages on the newest page, creating the cache
+ * entry when the chat has not been fetched yet
+ */
+export function updateLatestHistoryMessages(
+  old: ChatHistoryData | undefined,
+  update: (messages: MessageDTO[]) => MessageDTO[],
+): ChatHistoryData {
+  if (!old?.pages.length) {
+    return {
+      pages: [{ messages: update([]) }],
+      pageParams: [undefined],
+    };
+  }
+
+  const [latest, ...older] = old.pages;
+
+  return {
+    ...old,
+    pages: [{ ...latest, messages: update(latest.messages) }, ...older],
+  };
+}
+
+/**
+ * All loaded messages, oldest first, with duplicates across page
+ * boundaries (pages shift as new messages arrive) removed
+ */
+export function flattenHistoryPages(
+  data: ChatHistoryData | undefined,
+): MessageDTO[] {
+  if (!data) return [];
+
+  return dedupeMessages(
+    [...data.pages].reverse().flatMap((page) => page.messages),
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { format } from 'date-fns';
+import { ChatMessage } from '@/app/chat/components/ChatMessage';
+import { useSharedChat } from '@/app/share/hooks/useSharedChat';
+import { LoadingSpinner } from '@/components/ui/icons';
+import { STRINGS } from '@/lib/constants/strings';
+
+export default function SharedChatPage() {
+  const { token } = useParams<{ token: string }>();
+  const { chat, isLoading, error } = useSharedChat(token);
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] dark:bg-gray-900">
+      <header className="border-b border-gray-200 px-6 py-4 dark:border-gray-700">
+        <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+          {chat?.title ?? STRINGS.chat.share.pageTitle}
+        </h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {STRINGS.chat.share.readOnly}
+          {chat && ` · ${format(new Date(chat.createdAt), 'PP')}`}
+        </p>
+      </header>
+
+      <main className="mx-auto flex max-w-3xl flex-col gap-4 p-4">
+        {isLoading ? (
+          <div
+            className="flex justify-center py-12"
+            role="status"
+            aria-label={STRINGS.chat.share.loading}
+          >
+            <LoadingSpinner className="h-6 w-6" />
+          </div>
+        ) : error || !chat ? (
+          <p
+            className="rounded-md bg-red-50 p-4 text-sm text-red-800"
+            role="alert"
+          >
+            {error?.message ?? STRINGS.chat.share.notFound}
+          </p>
+        ) : (
+          chat.messages.map((message) => (
+            <ChatMessage key={message.id} message={message} />
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * useSharedChat Hook
+ * Loads the public, read-only view of a shared chat (no sign-in needed)
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+import type { SharedChatDTO } from '@/types/models';
+import { STRINGS } from '@/lib/constants/strings';
+
+async function fetchSharedChat(token: string): Promise<SharedChatDTO> {
+  const response = await fetch(`/api/share/${encodeURIComponent(token)}`);
+
+  if (!response.ok) {
+    throw new Error(
+      response.status === 404
+        ? STRINGS.chat.share.notFound
+        : STRINGS.errors.sharedChatFailed,
+    );
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+export function useSharedChat(token: string) {
+  const sharedChatQuery = useQuery({
+    queryKey: queryKeys.sharedChat(token),
+    queryFn: () => fetchSharedChat(token),
+    enabled: Boolean(token),
+    // A missing link will not reappear; don't hammer the rate limit
+    retry: false,
+  });
+
+  return {
+    chat: sharedChatQuery.data ?? null,
+    isLoading: sharedChatQuery.isLoading,
+    error: sharedChatQuery.error,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * UsageBreakdownChart
+ * Horizontal bars of tokens per item (model or conversation)
+ */
+
+'use client';
+
+import type { UsageSummaryDTO } from '@/types/models';
+import { barPercent, formatCost, formatTokens } from '../utils/formatUsage';
+
+export interface UsageBreakdownItem extends UsageSummaryDTO {
+  key: string;
+  label: string;
+}
+
+interface UsageBreakdownChartProps {
+  items: UsageBreakdownItem[];
+  ariaLabel: string;
+}
+
+export function UsageBreakdownChart({
+  items,
+  ariaLabel,
+}: UsageBreakdownChartProps) {
+  const maxTokens = Math.max(0, ...items.map((item) => item.tokens));
+
+  return (
+    <ul className="flex flex-col gap-3" aria-label={ariaLabel}>
+      {items.map((item) => (
+        <li key={item.key}>
+          <div className="flex items-baseline justify-between gap-4 text-sm">
+            <span className="truncate text-gray-900 dark:text-gray-100">
+              {item.label}
+            </span>
+            <span className="shrink-0 tabular-nums text-gray-500 dark:text-gray-400">
+              {formatTokens(item.tokens)} · {formatCost(item.cost)}
+            </span>
+          </div>
+          <div className="mt-1 h-2 rounded-full bg-gray-100 dark:bg-gray-800">
+            <div
+              className="h-2 rounded-full bg-blue-500 dark:bg-blue-400"
+              style={{ width: `${barPercent(item.tokens, maxTokens)}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * UsageDailyChart
+ * Column chart of tokens per day
+ */
+
+'use client';
+
+import { format } from 'date-fns';
+import type { UsageReportDTO } from '@/types/models';
+import { STRINGS } from '@/lib/constants/strings';
+import { barPercent, formatCost, formatTokens } from '../utils/formatUsage';
+
+interface UsageDailyChartProps {
+  daily: UsageReportDTO['daily'];
+}
+
+// Dates are UTC days; parse at midday so no time zone shifts the label
+function parseDay(date: string): Date {
+  return new Date(`${date}T12:00:00Z`);
+}
+
+export function UsageDailyChart({ daily }: UsageDailyChartProps) {
+  const maxTokens = Math.max(0, ...daily.map((day) => day.tokens));
+
+  return (
+    <div>
+      <ul
+        className="flex h-40 items-end gap-px"
+        aria-label={STRINGS.usage.overTime}
+      >
+        {daily.map((day) => {
+          const label = STRINGS.usage.dayBar(
+            format(parseDay(day.date), 'PP'),
+            formatTokens(day.tokens),
+            formatCost(day.cost),
+          );
+
+          return (
+            <li
+              key={day.date}
+              className="flex h-full flex-1 items-end"
+              aria-label={label}
+              title={label}
+            >
+              <div
+                className="w-full rounded-t bg-blue-500 dark:bg-blue-400"
+                style={{ height: `${barPercent(day.tokens, maxTokens)}%` }}
+              />
+            </li>
+          );
+        })}
+      </ul>
+      {daily.length > 0 && (
+        <div className="mt-2 flex justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>{format(parseDay(daily[0].date), 'MMM d')}</span>
+          <span>{format(parseDay(daily[daily.length - 1].date), 'MMM d')}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * useUsageReport Hook
+ * Loads the signed-in user's token and cost usage for the last N days
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth/useAuth';
+import { queryKeys } from '@/lib/tanstack-query/hooks';
+import { buildChatAuthHeaders } from '@/app/chat/utils/authHeaders';
+import type { UsageReportDTO } from '@/types/models';
+import { STRINGS } from '@/lib/constants/strings';
+
+async function fetchUsageReport(
+  days: number,
+  accessToken: string | null,
+): Promise<UsageReportDTO> {
+  const headers = await buildChatAuthHeaders(accessToken);
+  const response = await fetch(`/api/usage?days=${days}`, { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || STRINGS.errors.usageFailed);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+export function useUsageReport(days: number) {
+  const { accessToken } = useAuth();
+
+  const usageQuery = useQuery({
+    queryKey: queryKeys.usage(days),
+    queryFn: () => fetchUsageReport(days, accessToken),
+    enabled: Boolean(accessToken),
+  });
+
+  return {
+    report: usageQuery.data ?? null,
+    // Pending covers the wait for an access token too
+    isLoading: usageQuery.isPending,
+    error: usageQuery.error,
+  };
+}
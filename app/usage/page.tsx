@@ -0,0 +1,218 @@
+/**
+ * Usage Page
+ * Shows the signed-in user how many tokens their AI responses used and
+ * what they cost, over time and by model and conversation
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ChatSignInPrompt } from '@/app/chat/components/ChatSignInPrompt';
+import { Button, buttonVariants } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { EmptyState } from '@/components/ui/empty-state';
+import { ChatIcon, LoadingSpinner } from '@/components/ui/icons';
+import { useAuth } from '@/lib/auth/useAuth';
+import { STRINGS } from '@/lib/constants/strings';
+import { useUsageReport } from './hooks/useUsageReport';
+import { UsageDailyChart } from './components/UsageDailyChart';
+import {
+  UsageBreakdownChart,
+  type UsageBreakdownItem,
+} from './components/UsageBreakdownChart';
+import { formatCost, formatDuration, formatTokens } from './utils/formatUsage';
+import type { UsageReportDTO } from '@/types/models';
+
+const RANGE_OPTIONS = [7, 30, 90] as const;
+const DEFAULT_RANGE_DAYS = 30;
+
+function modelItems(report: UsageReportDTO): UsageBreakdownItem[] {
+  return report.byModel.map((entry) => ({
+    ...entry,
+    key: entry.model ?? '',
+    label: entry.model ?? STRINGS.usage.unknownModel,
+  }));
+}
+
+function chatItems(report: UsageReportDTO): UsageBreakdownItem[] {
+  return report.byChat.map((entry) => ({
+    ...entry,
+    key: entry.chatId,
+    label: entry.title,
+  }));
+}
+
+function SummaryCard({ label, value }: { label: string; value: string }) {
+  return (
+    <Card>
+      <CardHeader className="p-4">
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-xl tabular-nums">{value}</CardTitle>
+      </CardHeader>
+    </Card>
+  );
+}
+
+function UsageReport({ report }: { report: UsageReportDTO }) {
+  const { totals } = report;
+
+  if (totals.responses === 0) {
+    return (
+      <EmptyState
+        className="py-16"
+        icon={<ChatIcon />}
+        title={STRINGS.usage.empty}
+      />
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <SummaryCard
+          label={STRINGS.usage.totalTokens}
+          value={formatTokens(totals.tokens)}
+        />
+        <SummaryCard
+          label={STRINGS.usage.estimatedCost}
+          value={formatCost(totals.cost)}
+        />
+        <SummaryCard
+          label={STRINGS.usage.responses}
+          value={formatTokens(totals.responses)}
+        />
+        <SummaryCard
+          label={STRINGS.usage.averageResponseTime}
+          value={
+            totals.averageProcessingTime === null
+              ? STRINGS.usage.notAvailable
+              : formatDuration(totals.averageProcessingTime)
+          }
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{STRINGS.usage.overTime}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <UsageDailyChart daily={report.daily} />
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{STRINGS.usage.byModel}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <UsageBreakdownChart
+              items={modelItems(report)}
+              ariaLabel={STRINGS.usage.byModel}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{STRINGS.usage.byChat}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <UsageBreakdownChart
+              items={chatItems(report)}
+              ariaLabel={STRINGS.usage.byChat}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {STRINGS.usage.costNote}
+      </p>
+    </>
+  );
+}
+
+export default function UsagePage() {
+  const {
+    isAuthenticated,
+    login,
+    isLoading: isAuthLoading,
+    error: authError,
+  } = useAuth();
+  const [days, setDays] = useState<number>(DEFAULT_RANGE_DAYS);
+  const { report, isLoading, error } = useUsageReport(days);
+
+  if (!isAuthenticated) {
+    return (
+      <ChatSignInPrompt
+        onLogin={() => void login()}
+        isLoading={isAuthLoading}
+        errorMessage={authError?.message}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] dark:bg-gray-900">
+      <header className="flex items-center justify-between gap-4 border-b border-gray-200 px-6 py-4 dark:border-gray-700">
+        <div>
+          <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            {STRINGS.usage.pageTitle}
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {STRINGS.usage.description}
+          </p>
+        </div>
+        <Link href="/chat" className={buttonVariants({ variant: 'outline' })}>
+          {STRINGS.usage.backToChat}
+        </Link>
+      </header>
+
+      <main className="mx-auto flex max-w-5xl flex-col gap-4 p-4">
+        <div
+          className="flex gap-2"
+          role="group"
+          aria-label={STRINGS.usage.rangeLabel}
+        >
+          {RANGE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={option === days ? 'secondary' : 'ghost'}
+              aria-pressed={option === days}
+              onClick={() => setDays(option)}
+            >
+              {STRINGS.usage.rangeDays(option)}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div
+            className="flex justify-center py-12"
+            role="status"
+            aria-label={STRINGS.usage.loading}
+          >
+            <LoadingSpinner className="h-6 w-6" />
+          </div>
+        ) : error || !report ? (
+          <p
+            className="rounded-md bg-red-50 p-4 text-sm text-red-800"
+            role="alert"
+          >
+            {error?.message ?? STRINGS.errors.usageFailed}
+          </p>
+        ) : (
+          <UsageReport report={report} />
+        )}
+      </main>
+    </div>
+  );
+}
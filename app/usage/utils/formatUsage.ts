@@ -0,0 +1,38 @@
+/**
+ * Usage formatting helpers
+ */
+
+const MILLISECONDS_PER_SECOND = 1000;
+
+const tokenFormatter = new Intl.NumberFormat('en-US');
+
+// Per-response costs are fractions of a cent; keep enough digits to show them
+const costFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 4,
+});
+
+export function formatTokens(tokens: number): string {
+  return tokenFormatter.format(tokens);
+}
+
+export function formatCost(cost: number): string {
+  return costFormatter.format(cost);
+}
+
+export function formatDuration(milliseconds: number): string {
+  return milliseconds < MILLISECONDS_PER_SECOND
+    ? `${milliseconds} ms`
+    : `${(milliseconds / MILLISECONDS_PER_SECOND).toFixed(1)} s`;
+}
+
+/**
+ * Bar length as a percentage of the largest value; non-zero values stay
+ * visible
+ */
+export function barPercent(value: number, max: number): number {
+  if (max <= 0 || value <= 0) return 0;
+  return Math.max((value / max) * 100, 2);
+}
@@ -0,0 +1,12 @@
+/**
+ * Next.js Instrumentation
+ * Runs once when a server instance starts
+ */
+
+export async function register() {
+  // Transports use Node APIs; the edge runtime keeps console logging only
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { configureLogTransports } = await import('@/server/logging');
+    configureLogTransports();
+  }
+}
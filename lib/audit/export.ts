@@ -0,0 +1,82 @@
+/**
+ * Audit Log Export
+ * Serializes a page of audit events to JSON or CSV for download.
+ * CSV cells that a spreadsheet would read as a formula are prefixed with
+ * a quote, since event fields such as paths and reasons are user-supplied.
+ */
+
+import type { AuditEventDTO } from '@/types/models';
+
+export const AUDIT_EXPORT_FORMATS = ['json', 'csv'] as const;
+
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+export interface AuditExport {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+const JSON_INDENT_SPACES = 2;
+const CSV_LINE_BREAK = '\r\n';
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+const CSV_COLUMNS = [
+  'id',
+  'occurredAt',
+  'type',
+  'actorId',
+  'tenantId',
+  'ip',
+  'targetId',
+  'details',
+  'hash',
+] as const satisfies ReadonlyArray<keyof AuditEventDTO>;
+
+function csvCell(value: unknown): string {
+  let text =
+    value === null || value === undefined
+      ? ''
+      : typeof value === 'string'
+        ? value
+        : JSON.stringify(value);
+
+  if (FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEventsToCsv(events: AuditEventDTO[]): string {
+  const rows = [
+    CSV_COLUMNS.join(','),
+    ...events.map((event) =>
+      CSV_COLUMNS.map((column) => csvCell(event[column])).join(','),
+    ),
+  ];
+
+  return rows.join(CSV_LINE_BREAK) + CSV_LINE_BREAK;
+}
+
+export function exportAuditEvents(
+  events: AuditEventDTO[],
+  format: AuditExportFormat,
+  exportedAt: Date = new Date(),
+): AuditExport {
+  const filename = `audit-${exportedAt.toISOString().slice(0, 10)}`;
+
+  if (format === 'csv') {
+    return {
+      body: auditEventsToCsv(events),
+      contentType: 'text/csv; charset=utf-8',
+      filename: `${filename}.csv`,
+    };
+  }
+
+  return {
+    body: JSON.stringify(events, null, JSON_INDENT_SPACES),
+    contentType: 'application/json; charset=utf-8',
+    filename: `${filename}.json`,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Role Limits
+ * What each app role may do with the LLM: which of the configured
+ * provider's chat models it can pick and how far its per-user usage quotas
+ * stretch. Tenant quotas are shared by everyone in the organization and are
+ * never scaled.
+ */
+
+import type { ChatModelOption } from '@/lib/constants/llm';
+import { getChatModels } from '@/lib/llm/providers';
+import type { AppRole } from '@/lib/auth/roles';
+
+export interface RoleLimits {
+  /** Whether the provider's premium models are open to the role */
+  premiumModels: boolean;
+  /** Applied to every configured per-user quota */
+  quotaMultiplier: number;
+}
+
+const DEFAULT_ROLE_LIMITS: Record<AppRole, RoleLimits> = {
+  user: { premiumModels: false, quotaMultiplier: 1 },
+  'power-user': { premiumModels: true, quotaMultiplier: 5 },
+  admin: { premiumModels: true, quotaMultiplier: 10 },
+};
+
+/** Env overrides for the multipliers; unset or invalid keeps the default */
+const QUOTA_MULTIPLIER_ENV_VARS: Partial<
+  Record<AppRole, keyof NodeJS.ProcessEnv>
+> = {
+  'power-user': 'USAGE_QUOTA_MULTIPLIER_POWER_USER',
+  admin: 'USAGE_QUOTA_MULTIPLIER_ADMIN',
+};
+
+export function getRoleLimits(role: AppRole): RoleLimits {
+  const limits = DEFAULT_ROLE_LIMITS[role];
+  const envVar = QUOTA_MULTIPLIER_ENV_VARS[role];
+  const multiplier = envVar ? Number(process.env[envVar]) : NaN;
+
+  return Number.isFinite(multiplier) && multiplier > 0
+    ? { ...limits, quotaMultiplier: multiplier }
+    : limits;
+}
+
+/**
+ * Whether the configured provider offers the model at all
+ */
+export function isKnownChatModel(model: string): boolean {
+  return getChatModels().some((option) => option.id === model);
+}
+
+export function getAllowedChatModels(role: AppRole): ChatModelOption[] {
+  const { premiumModels } = getRoleLimits(role);
+  return getChatModels().filter((option) => premiumModels || !option.premium);
+}
+
+/**
+ * No model means the provider default, which every role may use
+ */
+export function isModelAllowedForRole(
+  role: AppRole,
+  model: string | undefined,
+): boolean {
+  return (
+    model === undefined ||
+    getAllowedChatModels(role).some((option) => option.id === model)
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * App Roles
+ * Maps the Azure AD `roles` and `groups` claims onto the application's own
+ * roles (user, power-user, admin), shared by the API guards and the UI that
+ * decides which links to show
+ */
+
+export const APP_ROLES = ['user', 'power-user', 'admin'] as const;
+
+export type AppRole = (typeof APP_ROLES)[number];
+
+export const DEFAULT_APP_ROLE: AppRole = 'user';
+
+const DEFAULT_ADMIN_ROLE = 'Admin';
+const DEFAULT_POWER_USER_ROLE = 'PowerUser';
+
+export interface RoleClaims {
+  roles?: readonly string[];
+  groups?: readonly string[];
+}
+
+/**
+ * App role that grants the admin console
+ */
+export function getAdminRole(): string {
+  return (
+    process.env.NEXT_PUBLIC_AZURE_AD_ADMIN_ROLE ||
+    process.env.AZURE_AD_ADMIN_ROLE ||
+    DEFAULT_ADMIN_ROLE
+  );
+}
+
+/**
+ * App role that grants the power-user limits
+ */
+export function getPowerUserRole(): string {
+  return process.env.AZURE_AD_POWER_USER_ROLE || DEFAULT_POWER_USER_ROLE;
+}
+
+/**
+ * Comma-separated group object IDs
+ */
+function parseGroupIds(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Only the NEXT_PUBLIC_ admin groups reach the browser, where they decide
+ * whether the admin console is shown; the API checks every mapping itself
+ */
+function getAdminGroupIds(): string[] {
+  return parseGroupIds(
+    process.env.NEXT_PUBLIC_AZURE_AD_ADMIN_GROUPS ||
+      process.env.AZURE_AD_ADMIN_GROUPS,
+  );
+}
+
+function getPowerUserGroupIds(): string[] {
+  return parseGroupIds(process.env.AZURE_AD_POWER_USER_GROUPS);
+}
+
+export function isAppRole(value: unknown): value is AppRole {
+  return (APP_ROLES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Highest app role the claims grant; a claim matching either the app role
+ * name or one of the configured group IDs counts
+ */
+export function resolveAppRole({
+  roles = [],
+  groups = [],
+}: RoleClaims): AppRole {
+  const grants = (roleName: string, groupIds: string[]) =>
+    roles.includes(roleName) || groupIds.some((id) => groups.includes(id));
+
+  if (grants(getAdminRole(), getAdminGroupIds())) {
+    return 'admin';
+  }
+
+  if (grants(getPowerUserRole(), getPowerUserGroupIds())) {
+    return 'power-user';
+  }
+
+  return DEFAULT_APP_ROLE;
+}
+
+/**
+ * Whether `role` is at least `required`; admins hold every lower role
+ */
+export function hasAppRole(role: AppRole, required: AppRole): boolean {
+  return APP_ROLES.indexOf(role) >= APP_ROLES.indexOf(required);
+}
@@ -0,0 +1,52 @@
+/**
+ * Tenant Allow-List
+ * Which Azure AD tenants may sign in. Tokens carry their tenant in the `tid`
+ * claim; the allow-list is checked before the tenant's signing keys are
+ * fetched, so arbitrary tenants cannot make the server resolve their JWKS.
+ */
+
+const MULTI_TENANT_AUTHORITIES = ['common', 'organizations'];
+const ANY_TENANT = '*';
+const TENANT_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Tenant (or multi-tenant authority) the sign-in is configured against
+ */
+export function getConfiguredTenantId(): string {
+  return (
+    process.env.NEXT_PUBLIC_AZURE_AD_TENANT_ID ??
+    process.env.AZURE_AD_TENANT_ID ??
+    'common'
+  );
+}
+
+export function isMultiTenantAuthority(tenantId: string): boolean {
+  return MULTI_TENANT_AUTHORITIES.includes(tenantId.toLowerCase());
+}
+
+/**
+ * AZURE_AD_ALLOWED_TENANT_IDS (comma-separated, `*` for any tenant), or
+ * the configured tenant when that is a single tenant. Empty when neither
+ * names a tenant, in which case no token is accepted.
+ */
+export function getAllowedTenantIds(): string[] {
+  const configured = (process.env.AZURE_AD_ALLOWED_TENANT_IDS ?? '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+  if (configured.length > 0) {
+    return configured;
+  }
+
+  const tenantId = getConfiguredTenantId();
+  return isMultiTenantAuthority(tenantId) ? [] : [tenantId.toLowerCase()];
+}
+
+export function isTenantAllowed(tenantId: string): boolean {
+  const allowed = getAllowedTenantIds();
+  if (allowed.includes(ANY_TENANT)) {
+    return TENANT_ID_PATTERN.test(tenantId);
+  }
+  return allowed.includes(tenantId.toLowerCase());
+}
@@ -20,6 +20,7 @@ import {
   ONE_SECOND_IN_MS,
 } from '@/lib/constants/common';
 import { loginRequest, silentRequest } from './msalConfig';
+import { DEFAULT_APP_ROLE, resolveAppRole, type AppRole } from './roles';
 
 interface UseAuthReturn {
   isAuthenticated: boolean;
@@ -27,6 +28,10 @@ interface UseAuthReturn {
     id: string;
     email: string;
     name: string;
+    /** App roles from the ID token */
+    roles?: string[];
+    /** Application role the ID token's roles and groups map to */
+    appRole?: AppRole;
   } | null;
   accessToken: string | null;
   login: () => Promise<void>;
@@ -69,14 +74,25 @@ export function useAuth(): UseAuthReturn {
     id: 'bypass-user',
     email: 'test-user@example.com',
     name: 'Test User',
-  } as const;
+    roles: [],
+    appRole: DEFAULT_APP_ROLE,
+  };
 
   const isAuthenticated = accounts.length > 0;
+  const claims = accounts[0]?.idTokenClaims;
+  const roles = claims?.roles ?? [];
+  const groups = Array.isArray(claims?.groups)
+    ? claims.groups.filter(
+        (group): group is string => typeof group === 'string',
+      )
+    : [];
   const user = isAuthenticated && accounts[0]
     ? {
         id: accounts[0].localAccountId,
         email: accounts[0].username,
         name: accounts[0].name || accounts[0].username,
+        roles,
+        appRole: resolveAppRole({ roles, groups }),
       }
     : null;
 
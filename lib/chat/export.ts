@@ -0,0 +1,181 @@
+/**
+ * Chat Export
+ * Serializes a chat to Markdown, JSON or standalone printable HTML.
+ * Markdown and HTML are transcripts of the latest branch; JSON keeps
+ * every message, branch and metadata so nothing is lost.
+ */
+
+import type { ChatWithMessages, MessageDTO } from '@/types/models';
+import { buildMessageTree, getActivePath } from '@/lib/chat/message-tree';
+
+export const CHAT_EXPORT_FORMATS = ['markdown', 'json', 'html'] as const;
+
+export type ChatExportFormat = (typeof CHAT_EXPORT_FORMATS)[number];
+
+/** Bumped when the JSON export shape changes; imports check it */
+export const CHAT_EXPORT_VERSION = 1;
+
+export interface ChatExport {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+const JSON_INDENT_SPACES = 2;
+const MAX_FILENAME_LENGTH = 60;
+const FALLBACK_FILENAME = 'chat';
+
+const ROLE_LABELS: Record<MessageDTO['role'], string> = {
+  user: 'You',
+  assistant: 'Assistant',
+  system: 'System',
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function transcriptMessages(chat: ChatWithMessages): MessageDTO[] {
+  return getActivePath(buildMessageTree(chat.messages));
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toUTCString();
+}
+
+/**
+ * Filesystem- and header-safe (ASCII) name derived from the chat title
+ */
+export function buildExportFilename(
+  title: string,
+  format: ChatExportFormat,
+): string {
+  const extension = format === 'markdown' ? 'md' : format;
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_FILENAME_LENGTH);
+
+  return `${slug || FALLBACK_FILENAME}.${extension}`;
+}
+
+export function serializeChatToMarkdown(chat: ChatWithMessages): string {
+  const lines = [
+    `# ${chat.title}`,
+    '',
+    `_Exported ${formatTimestamp(new Date().toISOString())}_`,
+  ];
+
+  transcriptMessages(chat).forEach((message) => {
+    lines.push(
+      '',
+      `## ${ROLE_LABELS[message.role]} · ${formatTimestamp(message.createdAt)}`,
+      '',
+      message.content,
+    );
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+export function serializeChatToJson(chat: ChatWithMessages): string {
+  const { messages, ...chatFields } = chat;
+
+  return JSON.stringify(
+    {
+      version: CHAT_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      chat: chatFields,
+      messages: messages.map((message) => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        status: message.status,
+        parentMessageId: message.parentMessageId,
+        metadata: message.metadata,
+        createdAt: message.createdAt,
+        updatedAt: message.updatedAt,
+      })),
+    },
+    null,
+    JSON_INDENT_SPACES,
+  );
+}
+
+export function serializeChatToHtml(chat: ChatWithMessages): string {
+  const title = escapeHtml(chat.title);
+  const messages = transcriptMessages(chat)
+    .map(
+      (message) => `    <article class="message ${message.role}">
+      <header>
+        <strong>${ROLE_LABELS[message.role]}</strong>
+        <time datetime="${message.createdAt}">${escapeHtml(formatTimestamp(message.createdAt))}</time>
+      </header>
+      <div class="content">${escapeHtml(message.content)}</div>
+    </article>`,
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${title}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111827; }
+      h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+      .exported { color: #6b7280; font-size: 0.875rem; margin-bottom: 2rem; }
+      .message { border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 0.75rem 1rem; margin-bottom: 1rem; break-inside: avoid; }
+      .message.user { background: #eff6ff; border-color: #bfdbfe; }
+      .message header { display: flex; justify-content: space-between; gap: 1rem; font-size: 0.75rem; color: #4b5563; margin-bottom: 0.5rem; }
+      .content { white-space: pre-wrap; overflow-wrap: anywhere; font-size: 0.9375rem; line-height: 1.5; }
+      @media print { body { margin: 0; max-width: none; } }
+    </style>
+  </head>
+  <body>
+    <h1>${title}</h1>
+    <p class="exported">Exported ${escapeHtml(formatTimestamp(new Date().toISOString()))}</p>
+${messages}
+  </body>
+</html>
+`;
+}
+
+export function exportChat(
+  chat: ChatWithMessages,
+  format: ChatExportFormat,
+): ChatExport {
+  const filename = buildExportFilename(chat.title, format);
+
+  switch (format) {
+    case 'markdown':
+      return {
+        body: serializeChatToMarkdown(chat),
+        contentType: 'text/markdown; charset=utf-8',
+        filename,
+      };
+    case 'json':
+      return {
+        body: serializeChatToJson(chat),
+        contentType: 'application/json; charset=utf-8',
+        filename,
+      };
+    case 'html':
+      return {
+        body: serializeChatToHtml(chat),
+        contentType: 'text/html; charset=utf-8',
+        filename,
+      };
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Chat Import
+ * Turns a validated JSON export into fresh chat and message records.
+ * Everything gets a new ID so an import never overwrites existing data,
+ * and all content is sanitized again since the file is untrusted.
+ */
+
+import type { ChatModel, MessageModel } from '@/types/models';
+import type { ImportChatInput } from '@/lib/validation/chat.schema';
+import { sanitizeChatMessage } from '@/lib/sanitizer';
+
+const FALLBACK_TITLE = 'Imported chat';
+
+export interface ImportedChat {
+  chat: ChatModel;
+  messages: MessageModel[];
+}
+
+export function buildImportedChat(
+  userId: string,
+  transcript: ImportChatInput,
+  tenantId?: string,
+): ImportedChat {
+  const now = new Date();
+  // SECURITY (LOW-04): Use crypto.randomUUID for secure IDs
+  const chatId = `chat_${crypto.randomUUID()}`;
+
+  const idMap = new Map<string, string>();
+  transcript.messages.forEach((message) => {
+    idMap.set(message.id, `msg_${crypto.randomUUID()}`);
+  });
+
+  const messages = [...transcript.messages]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(
+      (message): MessageModel => ({
+        id: idMap.get(message.id)!,
+        chatId,
+        role: message.role,
+        content: sanitizeChatMessage(message.content),
+        // A message caught mid-send will never finish now
+        status: message.status === 'sending' ? 'failed' : message.status,
+        parentMessageId: message.parentMessageId
+          ? (idMap.get(message.parentMessageId) ?? null)
+          : null,
+        metadata: message.metadata,
+        createdAt: message.createdAt,
+        updatedAt: message.updatedAt ?? message.createdAt,
+      }),
+    );
+
+  const chat: ChatModel = {
+    id: chatId,
+    userId,
+    title: sanitizeChatMessage(transcript.chat.title) || FALLBACK_TITLE,
+    archived: transcript.chat.archived,
+    settings: transcript.chat.settings,
+    tenantId,
+    createdAt: transcript.chat.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  return { chat, messages };
+}
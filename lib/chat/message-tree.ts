@@ -0,0 +1,187 @@
+/**
+ * Message Tree
+ * Builds the branching conversation tree from parentMessageId links.
+ * Shared by the API (context building) and the client (branch navigation).
+ */
+
+export interface TreeMessage {
+  id: string;
+  parentMessageId: string | null;
+  metadata?: { editedFromMessageId?: string; [key: string]: unknown } | null;
+}
+
+export interface MessageTree<T extends TreeMessage> {
+  /** Messages in chronological order */
+  messages: T[];
+  byId: Map<string, T>;
+  parentOf: Map<string, string | null>;
+  /** Child IDs in chronological order; `null` holds the roots */
+  childrenOf: Map<string | null, string[]>;
+}
+
+export interface BranchInfo {
+  index: number;
+  total: number;
+  siblingIds: string[];
+}
+
+/**
+ * Build a tree from messages in chronological order.
+ * Messages stored before branching existed have no parent link; they are
+ * treated as a linear chain so older chats keep their history.
+ */
+export function buildMessageTree<T extends TreeMessage>(
+  messages: T[],
+): MessageTree<T> {
+  const byId = new Map<string, T>();
+  const parentOf = new Map<string, string | null>();
+  const childrenOf = new Map<string | null, string[]>();
+
+  messages.forEach((message, index) => {
+    byId.set(message.id, message);
+
+    const isExplicitRoot =
+      index === 0 || Boolean(message.metadata?.editedFromMessageId);
+    let parentId = message.parentMessageId;
+    if (!parentId && !isExplicitRoot) {
+      parentId = messages[index - 1].id;
+    }
+    if (parentId && !byId.has(parentId)) {
+      // Parent is outside the loaded window; treat as a root
+      parentId = null;
+    }
+
+    parentOf.set(message.id, parentId ?? null);
+    const siblings = childrenOf.get(parentId ?? null) ?? [];
+    siblings.push(message.id);
+    childrenOf.set(parentId ?? null, siblings);
+  });
+
+  return { messages, byId, parentOf, childrenOf };
+}
+
+/**
+ * Messages from the root down to (and including) the given message
+ */
+export function getPathToMessage<T extends TreeMessage>(
+  tree: MessageTree<T>,
+  messageId: string | null,
+): T[] {
+  const path: T[] = [];
+  let currentId = messageId;
+
+  while (currentId) {
+    const message = tree.byId.get(currentId);
+    if (!message) break;
+    path.unshift(message);
+    currentId = tree.parentOf.get(currentId) ?? null;
+  }
+
+  return path;
+}
+
+/**
+ * Follow the most recent child from a message down to a leaf
+ */
+export function getLatestLeafId<T extends TreeMessage>(
+  tree: MessageTree<T>,
+  messageId: string,
+): string {
+  let currentId = messageId;
+  let children = tree.childrenOf.get(currentId);
+
+  while (children && children.length > 0) {
+    currentId = children[children.length - 1];
+    children = tree.childrenOf.get(currentId);
+  }
+
+  return currentId;
+}
+
+/**
+ * Active conversation path ending at `leafId`, defaulting to the most
+ * recently created message when no (known) leaf is selected
+ */
+export function getActivePath<T extends TreeMessage>(
+  tree: MessageTree<T>,
+  leafId?: string | null,
+): T[] {
+  const resolvedLeafId =
+    leafId && tree.byId.has(leafId)
+      ? leafId
+      : (tree.messages[tree.messages.length - 1]?.id ?? null);
+
+  return getPathToMessage(tree, resolvedLeafId);
+}
+
+/**
+ * Position of a message among its siblings, e.g. "2 of 3"
+ */
+export function getBranchInfo<T extends TreeMessage>(
+  tree: MessageTree<T>,
+  messageId: string,
+): BranchInfo {
+  const parentId = tree.parentOf.get(messageId) ?? null;
+  const siblingIds = tree.childrenOf.get(parentId) ?? [messageId];
+
+  return {
+    index: siblingIds.indexOf(messageId),
+    total: siblingIds.length,
+    siblingIds,
+  };
+}
+
+/**
+ * Where a new user message attaches to the tree.
+ * Edits become siblings of the edited message; otherwise the message
+ * continues from `parentMessageId` or the latest message in the chat.
+ */
+export function resolveBranchPoint<T extends TreeMessage & { role: string }>(
+  tree: MessageTree<T>,
+  options: { parentMessageId?: string; editOfMessageId?: string },
+): { parentId: string | null; context: T[] } | { error: string } {
+  if (options.editOfMessageId) {
+    const original = tree.byId.get(options.editOfMessageId);
+    if (!original || original.role !== 'user') {
+      return { error: 'Message to edit not found' };
+    }
+    const parentId = tree.parentOf.get(original.id) ?? null;
+    return { parentId, context: getPathToMessage(tree, parentId) };
+  }
+
+  if (options.parentMessageId) {
+    if (!tree.byId.has(options.parentMessageId)) {
+      return { error: 'Parent message not found' };
+    }
+    return {
+      parentId: options.parentMessageId,
+      context: getPathToMessage(tree, options.parentMessageId),
+    };
+  }
+
+  const context = getActivePath(tree);
+  return { parentId: context[context.length - 1]?.id ?? null, context };
+}
+
+/**
+ * The user turn an assistant message answered, with the path leading to it.
+ * Regenerated responses become siblings of the original answer.
+ */
+export function resolveRegenerationPoint<
+  T extends TreeMessage & { role: string },
+>(
+  tree: MessageTree<T>,
+  assistantMessageId: string,
+): { userMessage: T; context: T[] } | { error: string } {
+  const original = tree.byId.get(assistantMessageId);
+  const context = original
+    ? getPathToMessage(tree, tree.parentOf.get(original.id) ?? null)
+    : [];
+  const userMessage = context[context.length - 1];
+
+  if (original?.role !== 'assistant' || userMessage?.role !== 'user') {
+    return { error: 'Message to regenerate not found' };
+  }
+
+  return { userMessage, context };
+}
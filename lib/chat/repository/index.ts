@@ -0,0 +1,53 @@
+/**
+ * Chat Repository Registry
+ * Selects the chat store from CHAT_STORE: `redis` (default) keeps chats in
+ * Redis only; `sqlite` keeps them durably in SQLite with Redis as a
+ * write-through cache. Repositories are bound to the tenant of the
+ * session they serve.
+ */
+
+import { logWarn } from '@/utils/logger';
+import { createRedisChatRepository } from './redis';
+import { createWriteThroughChatRepository } from './write-through';
+import type { ChatRepository, ChatStoreName } from './types';
+
+export type { ChatRepository, ChatStoreName } from './types';
+export { FULL_HISTORY_LIMIT } from './types';
+
+const CHAT_REPOSITORIES: Record<
+  ChatStoreName,
+  (tenantId?: string) => ChatRepository
+> = {
+  redis: createRedisChatRepository,
+  sqlite: createWriteThroughChatRepository,
+};
+
+const DEFAULT_CHAT_STORE: ChatStoreName = 'redis';
+
+let warnedStoreName: string | null = null;
+
+function isChatStoreName(value: string): value is ChatStoreName {
+  return Object.prototype.hasOwnProperty.call(CHAT_REPOSITORIES, value);
+}
+
+/**
+ * Resolve the repository for the configured chat store, scoped to the
+ * tenant (the default tenant when the session has none)
+ */
+export function getChatRepository(tenantId?: string): ChatRepository {
+  const rawName = process.env.CHAT_STORE?.trim().toLowerCase();
+  if (!rawName) {
+    return CHAT_REPOSITORIES[DEFAULT_CHAT_STORE](tenantId);
+  }
+  if (isChatStoreName(rawName)) {
+    return CHAT_REPOSITORIES[rawName](tenantId);
+  }
+
+  if (warnedStoreName !== rawName) {
+    logWarn(
+      `Unknown CHAT_STORE "${rawName}". Falling back to ${DEFAULT_CHAT_STORE}.`,
+    );
+    warnedStoreName = rawName;
+  }
+  return CHAT_REPOSITORIES[DEFAULT_CHAT_STORE](tenantId);
+}
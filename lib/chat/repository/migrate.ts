@@ -0,0 +1,69 @@
+/**
+ * Redis → SQLite Chat Migration
+ * Copies chats and their full history from Redis into the SQLite store,
+ * one SCAN page per call. Copies replace what SQLite already holds, so the
+ * migration can be re-run (e.g. right before switching CHAT_STORE) to pick
+ * up anything written since the last pass.
+ */
+
+import { getChat, getChatMessages, scanChats } from '@/lib/redis/chat';
+import { logError, logInfo } from '@/utils/logger';
+import { createSqliteChatRepository } from './sqlite';
+import { FULL_HISTORY_LIMIT } from './types';
+
+const DEFAULT_SCAN_COUNT = 100;
+
+export interface ChatMigrationBatch {
+  /** Pass back to continue; '0' when every chat has been visited */
+  cursor: string;
+  migratedChats: number;
+  migratedMessages: number;
+  failedChatIds: string[];
+}
+
+export async function migrateRedisChatsToSqlite(
+  cursor: string = '0',
+  count: number = DEFAULT_SCAN_COUNT,
+): Promise<ChatMigrationBatch> {
+  const page = await scanChats(cursor, count);
+  const batch: ChatMigrationBatch = {
+    cursor: page.cursor,
+    migratedChats: 0,
+    migratedMessages: 0,
+    failedChatIds: [],
+  };
+
+  for (const { tenantId, chatId } of page.chats) {
+    try {
+      const chat = await getChat(tenantId, chatId);
+      // Expired or deleted since the scan
+      if (!chat) continue;
+
+      const messages = await getChatMessages(
+        tenantId,
+        chatId,
+        0,
+        FULL_HISTORY_LIMIT,
+      );
+      await createSqliteChatRepository(chat.tenantId).importChat(
+        chat,
+        messages,
+      );
+
+      batch.migratedChats++;
+      batch.migratedMessages += messages.length;
+    } catch (error) {
+      logError('Failed to migrate chat', error, { chatId });
+      batch.failedChatIds.push(chatId);
+    }
+  }
+
+  logInfo('Chat migration batch finished', {
+    cursor: batch.cursor,
+    migratedChats: batch.migratedChats,
+    migratedMessages: batch.migratedMessages,
+    failedChats: batch.failedChatIds.length,
+  });
+
+  return batch;
+}
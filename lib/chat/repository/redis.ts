@@ -0,0 +1,58 @@
+/**
+ * Redis Chat Repository
+ * Chats and messages kept in Redis only (lib/redis/chat.ts), in the key
+ * namespace of one tenant
+ */
+
+import * as redisChat from '@/lib/redis/chat';
+import type { ChatRepository } from './types';
+
+export function createRedisChatRepository(tenantId?: string): ChatRepository {
+  return {
+    name: 'redis',
+
+    createChat(userId, title) {
+      return redisChat.createChat(tenantId, userId, title);
+    },
+
+    getChat(chatId) {
+      return redisChat.getChat(tenantId, chatId);
+    },
+
+    updateChat(chatId, updates) {
+      return redisChat.updateChat(tenantId, chatId, updates);
+    },
+
+    deleteChat(chatId) {
+      return redisChat.deleteChat(tenantId, chatId);
+    },
+
+    getUserChats(userId) {
+      return redisChat.getUserChats(tenantId, userId);
+    },
+
+    addMessage(chatId, message) {
+      return redisChat.addMessage(tenantId, chatId, message);
+    },
+
+    importChat(chat, messages) {
+      return redisChat.importChat(tenantId, chat, messages);
+    },
+
+    getChatMessages(chatId, offset, limit) {
+      return redisChat.getChatMessages(tenantId, chatId, offset, limit);
+    },
+
+    getChatMessagePage(chatId, before, limit) {
+      return redisChat.getChatMessagePage(tenantId, chatId, before, limit);
+    },
+
+    updateMessageStatus(chatId, messageId, status) {
+      return redisChat.updateMessageStatus(tenantId, chatId, messageId, status);
+    },
+
+    setChatLegalHold(chatId, legalHold) {
+      return redisChat.setChatLegalHold(tenantId, chatId, legalHold);
+    },
+  };
+}
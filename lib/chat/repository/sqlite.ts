@@ -0,0 +1,361 @@
+/**
+ * SQLite Chat Repository
+ * Durable store for chats and messages. Message order is kept with a
+ * per-chat sequence number, matching the Redis list order.
+ */
+
+import { getDatabase } from '@/lib/db';
+import type { ChatModel, MessageModel } from '@/types/models';
+import { logError, logWarn } from '@/utils/logger';
+import type { ChatRepository } from './types';
+
+interface ChatRow {
+  id: string;
+  user_id: string;
+  tenant_id: string | null;
+  title: string;
+  archived: number;
+  legal_hold: number;
+  settings: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MessageRow {
+  chat_id: string;
+  id: string;
+  role: MessageModel['role'];
+  content: string;
+  status: MessageModel['status'];
+  parent_message_id: string | null;
+  metadata: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const DEFAULT_MESSAGE_LIMIT = 100;
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+
+function toChatModel(row: ChatRow): ChatModel {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    archived: row.archived === 1,
+    settings: row.settings ? JSON.parse(row.settings) : undefined,
+    tenantId: row.tenant_id ?? undefined,
+    legalHold: row.legal_hold === 1,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function toChatParams(chat: ChatModel) {
+  return {
+    id: chat.id,
+    user_id: chat.userId,
+    tenant_id: chat.tenantId ?? null,
+    title: chat.title,
+    archived: chat.archived ? 1 : 0,
+    legal_hold: chat.legalHold ? 1 : 0,
+    settings: chat.settings ? JSON.stringify(chat.settings) : null,
+    created_at: new Date(chat.createdAt).toISOString(),
+    updated_at: new Date(chat.updatedAt).toISOString(),
+  };
+}
+
+function toMessageModel(row: MessageRow): MessageModel {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    role: row.role,
+    content: row.content,
+    status: row.status,
+    parentMessageId: row.parent_message_id,
+    metadata: row.metadata ? JSON.parse(row.metadata) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function toMessageParams(chatId: string, message: MessageModel) {
+  return {
+    chat_id: chatId,
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    status: message.status,
+    parent_message_id: message.parentMessageId,
+    metadata: message.metadata ? JSON.stringify(message.metadata) : null,
+    created_at: new Date(message.createdAt).toISOString(),
+    updated_at: new Date(message.updatedAt).toISOString(),
+  };
+}
+
+/**
+ * Chats created before sign-in was tenant-aware carry no tenant and stay
+ * visible to their owner whichever tenant they sign in from
+ */
+const VISIBLE_IN_TENANT = '(tenant_id IS NULL OR tenant_id = ?)';
+
+function readChat(chatId: string, tenantId?: string): ChatModel | null {
+  const row = getDatabase()
+    .prepare(`SELECT * FROM chats WHERE id = ? AND ${VISIBLE_IN_TENANT}`)
+    .get(chatId, tenantId ?? null) as ChatRow | undefined;
+
+  return row ? toChatModel(row) : null;
+}
+
+function upsertChat(chat: ChatModel): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO chats (id, user_id, tenant_id, title, archived, legal_hold,
+         settings, created_at, updated_at)
+       VALUES (@id, @user_id, @tenant_id, @title, @archived, @legal_hold,
+         @settings, @created_at, @updated_at)
+       ON CONFLICT (id) DO UPDATE SET
+         user_id = excluded.user_id,
+         tenant_id = excluded.tenant_id,
+         title = excluded.title,
+         archived = excluded.archived,
+         legal_hold = excluded.legal_hold,
+         settings = excluded.settings,
+         created_at = excluded.created_at,
+         updated_at = excluded.updated_at`,
+    )
+    .run(toChatParams(chat));
+}
+
+function appendMessage(chatId: string, message: MessageModel): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO messages (chat_id, id, seq, role, content, status,
+         parent_message_id, metadata, created_at, updated_at)
+       VALUES (@chat_id, @id,
+         (SELECT COALESCE(MAX(seq), -1) + 1 FROM messages WHERE chat_id = @chat_id),
+         @role, @content, @status, @parent_message_id, @metadata,
+         @created_at, @updated_at)`,
+    )
+    .run(toMessageParams(chatId, message));
+}
+
+/**
+ * Rows are keyed by globally unique chat IDs, so one table serves every
+ * tenant; each repository only reads and writes the chats its tenant can see
+ */
+export function createSqliteChatRepository(tenantId?: string): ChatRepository {
+  return {
+    name: 'sqlite',
+
+    async createChat(userId, title = 'New Chat') {
+      const now = new Date();
+      const chat: ChatModel = {
+        // SECURITY (LOW-04): Use crypto.randomUUID for secure IDs
+        id: `chat_${crypto.randomUUID()}`,
+        userId,
+        title,
+        archived: false,
+        tenantId,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      upsertChat(chat);
+
+      return chat;
+    },
+
+    async getChat(chatId) {
+      try {
+        return readChat(chatId, tenantId);
+      } catch (error) {
+        logError('Failed to get chat', error, { chatId });
+        return null;
+      }
+    },
+
+    async updateChat(chatId, updates) {
+      try {
+        const chat = readChat(chatId, tenantId);
+        if (!chat) return false;
+
+        upsertChat({
+          ...chat,
+          ...updates,
+          updatedAt: updates.updatedAt ?? new Date(),
+        });
+
+        return true;
+      } catch (error) {
+        logError('Failed to update chat', error, { chatId });
+        return false;
+      }
+    },
+
+    async deleteChat(chatId) {
+      try {
+        const chat = readChat(chatId, tenantId);
+        if (!chat) return false;
+
+        if (chat.legalHold) {
+          logWarn('Refusing to delete chat under legal hold', { chatId });
+          return false;
+        }
+
+        // Messages go with it (ON DELETE CASCADE)
+        getDatabase().prepare('DELETE FROM chats WHERE id = ?').run(chatId);
+
+        return true;
+      } catch (error) {
+        logError('Failed to delete chat', error, { chatId });
+        return false;
+      }
+    },
+
+    async getUserChats(userId) {
+      try {
+        const rows = getDatabase()
+          .prepare(
+            `SELECT * FROM chats WHERE user_id = ? AND ${VISIBLE_IN_TENANT}
+             ORDER BY updated_at DESC`,
+          )
+          .all(userId, tenantId ?? null) as ChatRow[];
+
+        return rows.map(toChatModel);
+      } catch (error) {
+        logError('Failed to get user chats', error, { userId });
+        return [];
+      }
+    },
+
+    async addMessage(chatId, message) {
+      const db = getDatabase();
+
+      try {
+        return db.transaction(() => {
+          if (!readChat(chatId, tenantId)) return false;
+
+          appendMessage(chatId, message);
+          db.prepare('UPDATE chats SET updated_at = ? WHERE id = ?').run(
+            new Date().toISOString(),
+            chatId,
+          );
+          return true;
+        })();
+      } catch (error) {
+        logError('Failed to add message', error, {
+          chatId,
+          messageId: message.id,
+        });
+        return false;
+      }
+    },
+
+    /**
+     * Replaces any stored copy, so re-running a migration is safe
+     */
+    async importChat(chat, messages) {
+      const db = getDatabase();
+
+      db.transaction(() => {
+        upsertChat(chat);
+        db.prepare('DELETE FROM messages WHERE chat_id = ?').run(chat.id);
+        messages.forEach((message) => appendMessage(chat.id, message));
+      })();
+
+      return chat;
+    },
+
+    async getChatMessages(chatId, offset = 0, limit = DEFAULT_MESSAGE_LIMIT) {
+      try {
+        if (!readChat(chatId, tenantId)) return [];
+
+        const rows = getDatabase()
+          .prepare(
+            'SELECT * FROM messages WHERE chat_id = ? ORDER BY seq LIMIT ? OFFSET ?',
+          )
+          .all(chatId, limit, offset) as MessageRow[];
+
+        return rows.map(toMessageModel);
+      } catch (error) {
+        logError('Failed to get chat messages', error, { chatId });
+        return [];
+      }
+    },
+
+    async getChatMessagePage(
+      chatId,
+      before,
+      limit = DEFAULT_MESSAGE_PAGE_SIZE,
+    ) {
+      try {
+        if (!readChat(chatId, tenantId)) {
+          return { messages: [], nextCursor: null };
+        }
+
+        const db = getDatabase();
+        let beforeSeq = Number.MAX_SAFE_INTEGER;
+        if (before) {
+          const cursor = db
+            .prepare('SELECT seq FROM messages WHERE chat_id = ? AND id = ?')
+            .get(chatId, before) as { seq: number } | undefined;
+          // Unknown cursor; nothing to page back from
+          if (!cursor) return { messages: [], nextCursor: null };
+          beforeSeq = cursor.seq;
+        }
+
+        // One row past the page tells whether older messages remain
+        const rows = db
+          .prepare(
+            'SELECT * FROM messages WHERE chat_id = ? AND seq < ? ORDER BY seq DESC LIMIT ?',
+          )
+          .all(chatId, beforeSeq, limit + 1) as MessageRow[];
+        const messages = rows.slice(0, limit).reverse().map(toMessageModel);
+
+        return {
+          messages,
+          nextCursor: rows.length > limit ? messages[0].id : null,
+        };
+      } catch (error) {
+        logError('Failed to get chat message page', error, { chatId });
+        return { messages: [], nextCursor: null };
+      }
+    },
+
+    async updateMessageStatus(chatId, messageId, status) {
+      try {
+        if (!readChat(chatId, tenantId)) return false;
+
+        const result = getDatabase()
+          .prepare(
+            'UPDATE messages SET status = ?, updated_at = ? WHERE chat_id = ? AND id = ?',
+          )
+          .run(status, new Date().toISOString(), chatId, messageId);
+
+        return result.changes > 0;
+      } catch (error) {
+        logError('Failed to update message status', error, {
+          chatId,
+          messageId,
+        });
+        return false;
+      }
+    },
+
+    async setChatLegalHold(chatId, legalHold) {
+      try {
+        const chat = readChat(chatId, tenantId);
+        if (!chat) return null;
+
+        // Not user activity, so updatedAt is left alone
+        const heldChat: ChatModel = { ...chat, legalHold };
+        upsertChat(heldChat);
+
+        return heldChat;
+      } catch (error) {
+        logError('Failed to set chat legal hold', error, { chatId });
+        return null;
+      }
+    },
+  };
+}
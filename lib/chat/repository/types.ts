@@ -0,0 +1,51 @@
+/**
+ * Chat Repository Types
+ * Storage contract the chat API routes depend on, whichever store is active
+ */
+
+import type { ChatModel, MessageModel, MessagePage } from '@/types/models';
+
+export type ChatStoreName = 'redis' | 'sqlite';
+
+/** Pass as the limit to read a chat's whole history */
+export const FULL_HISTORY_LIMIT = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Each repository is bound to one tenant: chats are created in it and
+ * chats of other tenants are not found
+ */
+export interface ChatRepository {
+  readonly name: ChatStoreName;
+  createChat(userId: string, title?: string): Promise<ChatModel>;
+  getChat(chatId: string): Promise<ChatModel | null>;
+  /** Returns false when the chat does not exist or the write failed */
+  updateChat(chatId: string, updates: Partial<ChatModel>): Promise<boolean>;
+  /** Refuses (returns false) for chats under legal hold */
+  deleteChat(chatId: string): Promise<boolean>;
+  /** Most recently updated first */
+  getUserChats(userId: string): Promise<ChatModel[]>;
+  addMessage(chatId: string, message: MessageModel): Promise<boolean>;
+  /** Stores a chat with its whole history at once; throws on failure */
+  importChat(chat: ChatModel, messages: MessageModel[]): Promise<ChatModel>;
+  /** Messages oldest first */
+  getChatMessages(
+    chatId: string,
+    offset?: number,
+    limit?: number,
+  ): Promise<MessageModel[]>;
+  /** The page just before message `before`, or the newest page */
+  getChatMessagePage(
+    chatId: string,
+    before?: string,
+    limit?: number,
+  ): Promise<MessagePage>;
+  updateMessageStatus(
+    chatId: string,
+    messageId: string,
+    status: MessageModel['status'],
+  ): Promise<boolean>;
+  setChatLegalHold(
+    chatId: string,
+    legalHold: boolean,
+  ): Promise<ChatModel | null>;
+}
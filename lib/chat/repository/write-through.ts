@@ -0,0 +1,184 @@
+/**
+ * Write-Through Chat Repository
+ * SQLite is the source of truth; Redis holds a copy of each chat that has
+ * been read or written. Writes land in SQLite first and are then mirrored
+ * into Redis, so the side effects tied to Redis (search index, share links,
+ * retention schedule) keep working. A chat missing from Redis is loaded
+ * back from SQLite on its next read; a failed mirror evicts the cached copy
+ * rather than leave it stale.
+ */
+
+import { evictChat } from '@/lib/redis/chat';
+import type { ChatModel, MessageModel } from '@/types/models';
+import { logWarn } from '@/utils/logger';
+import { createRedisChatRepository } from './redis';
+import { createSqliteChatRepository } from './sqlite';
+import { FULL_HISTORY_LIMIT, type ChatRepository } from './types';
+
+export function createWriteThroughChatRepository(
+  tenantId?: string,
+): ChatRepository {
+  const cache = createRedisChatRepository(tenantId);
+  const store = createSqliteChatRepository(tenantId);
+
+  async function evict(chatId: string): Promise<void> {
+    try {
+      await evictChat(tenantId, chatId);
+    } catch (error) {
+      logWarn('Failed to evict cached chat', {
+        chatId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Replace the cached copy of a chat with the given state
+   */
+  async function populate(
+    chat: ChatModel,
+    messages: MessageModel[],
+  ): Promise<void> {
+    try {
+      await evictChat(tenantId, chat.id);
+      await cache.importChat(chat, messages);
+    } catch (error) {
+      logWarn('Failed to cache chat', {
+        chatId: chat.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await evict(chat.id);
+    }
+  }
+
+  /**
+   * Apply a write to the cached copy, if there is one. Chats that are not
+   * cached are skipped; they are loaded whole on their next read.
+   */
+  async function mirror(
+    chatId: string,
+    write: () => Promise<unknown>,
+  ): Promise<void> {
+    try {
+      if (!(await cache.getChat(chatId))) return;
+
+      const result = await write();
+      if (result === false || result === null) {
+        await evict(chatId);
+      }
+    } catch {
+      await evict(chatId);
+    }
+  }
+
+  /**
+   * Cached copy of the chat, loading it from SQLite on a miss
+   */
+  async function ensureCached(chatId: string): Promise<ChatModel | null> {
+    const cached = await cache.getChat(chatId);
+    if (cached) return cached;
+
+    const chat = await store.getChat(chatId);
+    if (!chat) return null;
+
+    await populate(
+      chat,
+      await store.getChatMessages(chatId, 0, FULL_HISTORY_LIMIT),
+    );
+
+    return chat;
+  }
+
+  return {
+    name: 'sqlite',
+
+    async createChat(userId, title) {
+      const chat = await store.createChat(userId, title);
+      await populate(chat, []);
+      return chat;
+    },
+
+    getChat(chatId) {
+      return ensureCached(chatId);
+    },
+
+    async updateChat(chatId, updates) {
+      // One timestamp for both copies
+      const timestamped = { ...updates, updatedAt: new Date() };
+
+      const updated = await store.updateChat(chatId, timestamped);
+      if (updated) {
+        await mirror(chatId, () => cache.updateChat(chatId, timestamped));
+      }
+
+      return updated;
+    },
+
+    async deleteChat(chatId) {
+      // The cached copy knows the owner, which the search cleanup needs
+      await ensureCached(chatId);
+
+      const deleted = await store.deleteChat(chatId);
+      if (deleted && !(await cache.deleteChat(chatId))) {
+        await evict(chatId);
+      }
+
+      return deleted;
+    },
+
+    getUserChats(userId) {
+      return store.getUserChats(userId);
+    },
+
+    async addMessage(chatId, message) {
+      const added = await store.addMessage(chatId, message);
+      if (added) {
+        await mirror(chatId, () => cache.addMessage(chatId, message));
+      }
+
+      return added;
+    },
+
+    async importChat(chat, messages) {
+      await store.importChat(chat, messages);
+      await populate(chat, messages);
+      return chat;
+    },
+
+    async getChatMessages(chatId, offset, limit) {
+      if (!(await ensureCached(chatId))) return [];
+      return cache.getChatMessages(chatId, offset, limit);
+    },
+
+    async getChatMessagePage(chatId, before, limit) {
+      if (!(await ensureCached(chatId))) {
+        return { messages: [], nextCursor: null };
+      }
+      return cache.getChatMessagePage(chatId, before, limit);
+    },
+
+    async updateMessageStatus(chatId, messageId, status) {
+      const updated = await store.updateMessageStatus(
+        chatId,
+        messageId,
+        status,
+      );
+      if (updated) {
+        await mirror(chatId, () =>
+          cache.updateMessageStatus(chatId, messageId, status),
+        );
+      }
+
+      return updated;
+    },
+
+    async setChatLegalHold(chatId, legalHold) {
+      const chat = await store.setChatLegalHold(chatId, legalHold);
+      if (chat) {
+        await mirror(chatId, () => cache.setChatLegalHold(chatId, legalHold));
+      }
+
+      return chat;
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Chat Retention
+ * Resolves which retention policy applies to a chat and when it expires.
+ * A user policy wins over the tenant policy, which wins over the default;
+ * chats under legal hold never expire.
+ */
+
+import type { ChatModel, RetentionPolicy } from '@/types/models';
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Matches the old fixed TTL: 30 days since the last activity */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  mode: 'since_activity',
+  days: 30,
+};
+
+export function resolveRetentionPolicy(
+  userPolicy: RetentionPolicy | null,
+  tenantPolicy: RetentionPolicy | null,
+): RetentionPolicy {
+  return userPolicy ?? tenantPolicy ?? DEFAULT_RETENTION_POLICY;
+}
+
+/**
+ * When the chat becomes eligible for purging, or null if it is kept
+ */
+export function computeChatExpiry(
+  chat: Pick<ChatModel, 'createdAt' | 'updatedAt' | 'legalHold'>,
+  policy: RetentionPolicy,
+): Date | null {
+  if (chat.legalHold) return null;
+
+  switch (policy.mode) {
+    case 'forever':
+      return null;
+    case 'since_creation':
+      return new Date(
+        new Date(chat.createdAt).getTime() + policy.days * MILLISECONDS_PER_DAY,
+      );
+    case 'since_activity':
+      return new Date(
+        new Date(chat.updatedAt).getTime() + policy.days * MILLISECONDS_PER_DAY,
+      );
+  }
+}
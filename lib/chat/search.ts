@@ -0,0 +1,73 @@
+/**
+ * Message Search
+ * Tokenizing and snippet building shared by the search index and API.
+ * Terms are whole words, so indexing and highlighting always agree.
+ */
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 40;
+const SNIPPET_RADIUS = 60;
+const ELLIPSIS = '…';
+
+export interface SearchSnippet {
+  snippet: string;
+  /** [start, end) offsets of matched terms within the snippet */
+  highlights: Array<[number, number]>;
+}
+
+interface WordMatch {
+  term: string;
+  start: number;
+  end: number;
+}
+
+function findWords(text: string): WordMatch[] {
+  return Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    term: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function isSearchableTerm(term: string): boolean {
+  return term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH;
+}
+
+/**
+ * Unique lowercase terms in the order they first appear
+ */
+export function tokenizeSearchText(text: string): string[] {
+  const terms = new Set<string>();
+  findWords(text).forEach(({ term }) => {
+    if (isSearchableTerm(term)) {
+      terms.add(term);
+    }
+  });
+  return Array.from(terms);
+}
+
+/**
+ * Excerpt around the first match, with every matched term highlighted
+ */
+export function buildSearchSnippet(
+  content: string,
+  terms: string[],
+): SearchSnippet {
+  const termSet = new Set(terms);
+  const matches = findWords(content).filter(({ term }) => termSet.has(term));
+  const anchor = matches[0]?.start ?? 0;
+
+  const start = Math.max(0, anchor - SNIPPET_RADIUS);
+  const end = Math.min(content.length, anchor + SNIPPET_RADIUS);
+  const prefix = start > 0 ? ELLIPSIS : '';
+  const suffix = end < content.length ? ELLIPSIS : '';
+  const offset = prefix.length - start;
+
+  return {
+    snippet: `${prefix}${content.slice(start, end)}${suffix}`,
+    highlights: matches
+      .filter((match) => match.start >= start && match.end <= end)
+      .map((match) => [match.start + offset, match.end + offset]),
+  };
+}
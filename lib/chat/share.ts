@@ -0,0 +1,56 @@
+/**
+ * Chat Sharing
+ * Builds the public, read-only view of a shared chat. Metadata (model,
+ * token counts, request IDs, ...) never leaves the server; the owner is
+ * shown which fields are stripped before minting a link.
+ */
+
+import type {
+  ChatDTO,
+  MessageDTO,
+  SharedChatDTO,
+  ShareRedactionPreview,
+} from '@/types/models';
+import { buildMessageTree, getActivePath } from '@/lib/chat/message-tree';
+
+/**
+ * Messages as they appear on the share page: the latest branch, with
+ * metadata removed
+ */
+export function redactMessagesForShare(messages: MessageDTO[]): MessageDTO[] {
+  return getActivePath(buildMessageTree(messages)).map((message) => ({
+    ...message,
+    metadata: null,
+  }));
+}
+
+export function buildSharedChat(
+  chat: ChatDTO,
+  messages: MessageDTO[],
+): SharedChatDTO {
+  return {
+    title: chat.title,
+    createdAt: chat.createdAt,
+    messages: redactMessagesForShare(messages),
+  };
+}
+
+export function buildRedactionPreview(
+  messages: MessageDTO[],
+): ShareRedactionPreview {
+  const shared = getActivePath(buildMessageTree(messages));
+  const redactedFields = new Set<string>();
+
+  shared.forEach((message) => {
+    Object.entries(message.metadata ?? {}).forEach(([field, value]) => {
+      if (value !== undefined) {
+        redactedFields.add(field);
+      }
+    });
+  });
+
+  return {
+    messageCount: shared.length,
+    redactedFields: Array.from(redactedFields).sort(),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Usage Report
+ * Summarises a user's AI responses over a date range from the metadata
+ * stored with each message (tokensUsed, model, processingTime). Costs are
+ * estimates, split into input and output tokens the same way as the live
+ * usage counters.
+ */
+
+import { splitTokenUsage, usagePeriodBucket } from '@/lib/llm/usage';
+import type {
+  ChatModel,
+  MessageModel,
+  UsageReportDTO,
+  UsageSummaryDTO,
+} from '@/types/models';
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+const COST_DECIMAL_PLACES = 6;
+
+export interface UsageReportRange {
+  /** Inclusive */
+  from: Date;
+  /** Exclusive */
+  to: Date;
+}
+
+export interface ChatUsageSource {
+  chat: Pick<ChatModel, 'id' | 'title'>;
+  messages: MessageModel[];
+}
+
+/**
+ * The last `days` UTC days, today included
+ */
+export function usageReportRange(days: number, now: Date): UsageReportRange {
+  const startOfToday = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate(),
+  );
+
+  return {
+    from: new Date(startOfToday - (days - 1) * MILLISECONDS_PER_DAY),
+    to: now,
+  };
+}
+
+function emptySummary(): UsageSummaryDTO {
+  return { tokens: 0, cost: 0, responses: 0 };
+}
+
+function addUsage(
+  summary: UsageSummaryDTO,
+  tokens: number,
+  cost: number,
+): void {
+  summary.tokens += tokens;
+  summary.cost += cost;
+  summary.responses++;
+}
+
+function roundCost<T extends UsageSummaryDTO>(summary: T): T {
+  return {
+    ...summary,
+    cost: Number(summary.cost.toFixed(COST_DECIMAL_PLACES)),
+  };
+}
+
+function byTokensDescending(a: UsageSummaryDTO, b: UsageSummaryDTO): number {
+  return b.tokens - a.tokens;
+}
+
+/**
+ * Only answered assistant messages that recorded a token count are billed
+ */
+function billedTokens(message: MessageModel): number | null {
+  if (message.role !== 'assistant' || message.status === 'failed') {
+    return null;
+  }
+
+  const tokensUsed = message.metadata?.tokensUsed;
+  return typeof tokensUsed === 'number' && tokensUsed > 0 ? tokensUsed : null;
+}
+
+export function buildUsageReport(
+  sources: ChatUsageSource[],
+  range: UsageReportRange,
+): UsageReportDTO {
+  const totals = emptySummary();
+  let processingTimeTotal = 0;
+  let processingTimeCount = 0;
+
+  const daily = new Map<string, UsageSummaryDTO>();
+  for (
+    let day = range.from.getTime();
+    day < range.to.getTime();
+    day += MILLISECONDS_PER_DAY
+  ) {
+    daily.set(usagePeriodBucket('day', new Date(day)), emptySummary());
+  }
+
+  const byChat: UsageReportDTO['byChat'] = [];
+  const byModel = new Map<string | null, UsageSummaryDTO>();
+
+  for (const { chat, messages } of sources) {
+    const chatSummary = emptySummary();
+
+    for (const message of messages) {
+      const tokens = billedTokens(message);
+      const createdAt = new Date(message.createdAt);
+      if (tokens === null || createdAt < range.from || createdAt >= range.to) {
+        continue;
+      }
+
+      const { cost } = splitTokenUsage({
+        content: message.content,
+        tokensUsed: tokens,
+      });
+      const model = message.metadata?.model ?? null;
+
+      addUsage(totals, tokens, cost);
+      addUsage(chatSummary, tokens, cost);
+
+      const day = daily.get(usagePeriodBucket('day', createdAt));
+      if (day) addUsage(day, tokens, cost);
+
+      const modelSummary = byModel.get(model) ?? emptySummary();
+      addUsage(modelSummary, tokens, cost);
+      byModel.set(model, modelSummary);
+
+      const processingTime = message.metadata?.processingTime;
+      if (typeof processingTime === 'number') {
+        processingTimeTotal += processingTime;
+        processingTimeCount++;
+      }
+    }
+
+    if (chatSummary.responses > 0) {
+      byChat.push(
+        roundCost({ ...chatSummary, chatId: chat.id, title: chat.title }),
+      );
+    }
+  }
+
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    totals: {
+      ...roundCost(totals),
+      averageProcessingTime:
+        processingTimeCount > 0
+          ? Math.round(processingTimeTotal / processingTimeCount)
+          : null,
+    },
+    daily: Array.from(daily, ([date, summary]) =>
+      roundCost({ ...summary, date }),
+    ),
+    byChat: byChat.sort(byTokensDescending),
+    byModel: Array.from(byModel, ([model, summary]) =>
+      roundCost({ ...summary, model }),
+    ).sort(byTokensDescending),
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * LLM Constants
+ * Model catalog and generation limits for per-chat settings
+ */
+
+export interface ChatModelOption {
+  id: string;
+  label: string;
+  /** Reserved for power users and admins */
+  premium?: boolean;
+}
+
+/**
+ * Models offered while Gemini is the provider; other providers list their
+ * own (see LLMProvider.chatModels)
+ */
+export const GEMINI_CHAT_MODELS: readonly ChatModelOption[] = [
+  { id: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash' },
+  { id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro', premium: true },
+  { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash' },
+];
+
+export const CHAT_MODEL_ID_MAX_LENGTH = 100;
+
+export const CHAT_TEMPERATURE_MIN = 0;
+export const CHAT_TEMPERATURE_MAX = 2;
+export const CHAT_TEMPERATURE_STEP = 0.1;
+export const DEFAULT_CHAT_TEMPERATURE = 0.7;
+
+export const CHAT_MAX_TOKENS_MIN = 16;
+export const CHAT_MAX_TOKENS_MAX = 8192;
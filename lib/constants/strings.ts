@@ -19,6 +19,7 @@ export const STRINGS = {
     },
     noMessages: 'No messages yet. Start the conversation!',
     messageHistory: 'Chat message history',
+    loadingOlderMessages: 'Loading earlier messages…',
     authPrompt: {
       title: 'Sign in to start chatting',
       description:
@@ -31,6 +32,109 @@ export const STRINGS = {
       logoAlt: 'Gemini 3 logo',
       userMenuAriaLabel: 'Open user menu',
     },
+    sidebar: {
+      title: 'Conversations',
+      ariaLabel: 'Conversation history',
+      showArchived: 'Archived',
+      showActive: 'Active',
+      empty: 'No conversations yet.',
+      emptyArchived: 'No archived conversations.',
+      importChat: 'Import',
+      importChatLabel: 'Import a conversation from a JSON export',
+      loading: 'Loading conversations',
+      loadMore: 'Load more',
+      loadingMore: 'Loading more…',
+      renameLabel: 'Chat title',
+      rename: 'Rename',
+      archive: 'Archive',
+      unarchive: 'Unarchive',
+      delete: 'Delete',
+      confirmDelete: 'Delete this chat?',
+      confirm: 'Confirm',
+      cancel: 'Cancel',
+      updatedAt: (relative: string) => `Updated ${relative}`,
+      actionsFor: (title: string) => `Actions for ${title}`,
+    },
+    search: {
+      label: 'Search messages',
+      placeholder: 'Search messages...',
+      roleFilter: 'Filter by author',
+      anyRole: 'Everyone',
+      userRole: 'You',
+      assistantRole: 'Assistant',
+      results: 'Search results',
+      noResults: 'No matching messages.',
+      loading: 'Searching messages',
+    },
+    settings: {
+      triggerLabel: 'Chat settings',
+      title: 'Model settings',
+      unavailable: 'Send a message to start a chat, then adjust its settings.',
+      model: 'Model',
+      defaultModel: 'Default',
+      temperature: 'Temperature',
+      maxTokens: 'Max response tokens',
+      maxTokensPlaceholder: 'Default',
+      systemPrompt: 'System prompt',
+      systemPromptPlaceholder: 'e.g. You are a concise technical reviewer.',
+      persona: 'Persona',
+      choosePersona: 'Apply a saved persona',
+      personaName: 'Persona name',
+      saveAsPersona: 'Save as persona',
+      deletePersona: 'Delete persona',
+      save: 'Save',
+      reset: 'Reset to defaults',
+    },
+    branches: {
+      edit: 'Edit',
+      editLabel: 'Edit message',
+      cancel: 'Cancel',
+      resubmit: 'Save & submit',
+      regenerate: 'Regenerate',
+      regenerateLabel: 'Regenerate response',
+      previous: 'Previous version',
+      next: 'Next version',
+      position: (index: number, total: number) => `${index} of ${total}`,
+    },
+    markdown: {
+      copyCode: 'Copy code',
+      copied: 'Copied',
+      plainCode: 'code',
+    },
+    export: {
+      triggerLabel: 'Download chat',
+      title: 'Download as',
+      unavailable: 'Send a message to start a chat, then download it.',
+      markdown: 'Markdown (.md)',
+      json: 'JSON with metadata (.json)',
+      html: 'Printable HTML (.html)',
+    },
+    share: {
+      triggerLabel: 'Share chat',
+      title: 'Share a read-only link',
+      unavailable: 'Send a message to start a chat, then share it.',
+      preview: (count: number) =>
+        `Anyone with the link can read ${count} ${count === 1 ? 'message' : 'messages'} from the current branch.`,
+      redactedFields: 'Removed before sharing:',
+      nothingRedacted: 'No message metadata to remove.',
+      expiry: 'Link expires',
+      neverExpires: 'Never',
+      expiryDays: (days: number) =>
+        `After ${days} ${days === 1 ? 'day' : 'days'}`,
+      create: 'Create link',
+      activeLinks: 'Active links',
+      noLinks: 'No active links.',
+      expiresAt: (date: string) => `Expires ${date}`,
+      noExpiry: 'No expiry',
+      copy: 'Copy',
+      copied: 'Copied',
+      revoke: 'Revoke',
+      revokeLabel: 'Revoke share link',
+      pageTitle: 'Shared conversation',
+      readOnly: 'Read-only view shared from Gemini 3',
+      loading: 'Loading shared conversation',
+      notFound: 'This link is invalid, expired or has been revoked.',
+    },
     clear: 'Clear',
   },
 
@@ -45,6 +149,7 @@ export const STRINGS = {
     sending: 'Sending',
     sent: 'Sent',
     failed: 'Failed',
+    stopped: 'Stopped',
     loading: 'Loading...',
   },
 
@@ -63,6 +168,8 @@ export const STRINGS = {
 `,
     sendButton: 'Send',
     sendButtonAria: 'Send message',
+    stopButton: 'Stop',
+    stopButtonAria: 'Stop generating',
     characterCount: (current: number, max: number) =>
       `Characters: ${current} / ${max}`,
     ariaLabel: 'Message input',
@@ -85,8 +192,23 @@ export const STRINGS = {
     streamingStartFailed: 'Failed to start streaming.',
     streamingGeneric: 'Streaming error',
     emptyResponse: 'Empty response received from server.',
+    streamInterrupted: 'The response was interrupted.',
     unexpected: 'An unexpected error occurred. Please try again.',
     chatHistoryFailed: 'Failed to fetch chat history',
+    chatListFailed: 'Failed to load conversations',
+    searchFailed: 'Failed to search messages',
+    exportFailed: 'Failed to download conversation',
+    importFailed: 'Failed to import conversation',
+    importInvalidFile: 'That file is not a JSON chat export.',
+    shareFailed: 'Failed to update share links',
+    sharedChatFailed: 'Failed to load shared conversation',
+    chatUpdateFailed: 'Failed to update conversation',
+    personaListFailed: 'Failed to load personas',
+    chatModelsFailed: 'Failed to load chat models',
+    personaUpdateFailed: 'Failed to save persona',
+    usageFailed: 'Failed to load usage',
+    adminFailed: 'Failed to load the admin console',
+    adminActionFailed: 'The admin action failed',
   },
 
   // Actions
@@ -150,6 +272,80 @@ export const STRINGS = {
     tokens: (count: number) => `${count} tokens`,
   },
 
+  // Usage dashboard
+  usage: {
+    pageTitle: 'Usage',
+    description: 'Tokens and estimated cost of your AI responses.',
+    menuLink: 'Usage',
+    backToChat: 'Back to chat',
+    rangeLabel: 'Time range',
+    rangeDays: (days: number) => `${days} days`,
+    loading: 'Loading usage',
+    totalTokens: 'Tokens',
+    estimatedCost: 'Estimated cost',
+    responses: 'Responses',
+    averageResponseTime: 'Avg. response time',
+    notAvailable: '—',
+    overTime: 'Tokens per day',
+    byModel: 'By model',
+    byChat: 'By conversation',
+    unknownModel: 'Unknown model',
+    empty: 'No AI responses in this period.',
+    dayBar: (date: string, tokens: string, cost: string) =>
+      `${date}: ${tokens} tokens, ${cost}`,
+    costNote: 'Costs are estimates based on token counts.',
+  },
+
+  // Admin console
+  admin: {
+    pageTitle: 'Admin',
+    description: 'Users, sessions and service health.',
+    menuLink: 'Admin',
+    backToChat: 'Back to chat',
+    forbidden: 'You need the admin role to use this page.',
+    loading: 'Loading',
+    usersTitle: 'Users',
+    noUsers: 'No one has signed in yet.',
+    lastSeen: (relative: string) => `Last seen ${relative}`,
+    roles: {
+      user: 'User',
+      'power-user': 'Power user',
+      admin: 'Admin',
+    },
+    sessions: (count: number) =>
+      count === 1 ? '1 active session' : `${count} active sessions`,
+    sessionDetails: (ipAddress: string, lastActivity: string) =>
+      `${ipAddress} · active ${lastActivity}`,
+    unknownIp: 'Unknown IP',
+    suspended: (by: string, reason: string) => `Suspended by ${by}: ${reason}`,
+    lockedOut: (endpoint: string, minutes: number) =>
+      `Locked out of ${endpoint} for ${minutes} min`,
+    actionsFor: (name: string) => `Actions for ${name}`,
+    signOut: 'Sign out everywhere',
+    confirmSignOut: 'End every session for this user?',
+    suspend: 'Suspend',
+    suspendReasonLabel: 'Reason for suspension',
+    suspendReasonPlaceholder: 'Reason',
+    unsuspend: 'Lift suspension',
+    clearLockouts: 'Clear lockouts',
+    confirm: 'Confirm',
+    cancel: 'Cancel',
+    previousPage: 'Previous',
+    nextPage: 'Next',
+    pageRange: (from: number, to: number, total: number) =>
+      `${from}–${to} of ${total}`,
+    circuitBreakersTitle: 'Circuit breakers',
+    circuitBreakersNote: 'As seen by the server instance that answered.',
+    breakerState: {
+      CLOSED: 'Closed',
+      OPEN: 'Open',
+      HALF_OPEN: 'Recovering',
+    },
+    breakerFailures: (count: number) =>
+      count === 1 ? '1 consecutive failure' : `${count} consecutive failures`,
+    breakerRetry: (time: string) => `Next attempt at ${time}`,
+  },
+
   // Accessibility
   a11y: {
     chatInterface: 'Chat interface',
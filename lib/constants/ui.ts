@@ -12,6 +12,8 @@ export const CHAR_COUNT_DEBOUNCE_MS = 300;
 export const SEND_DEBOUNCE_MS = 600;
 export const FOCUS_DELAY_MS = 0;
 export const CHAR_COUNT_IMMEDIATE_THRESHOLD = 200;
+export const COPY_FEEDBACK_DURATION_MS = 2000;
+export const SEARCH_DEBOUNCE_MS = 300;
 
 // UI thresholds
 export const MESSAGE_LENGTH_WARNING_THRESHOLD = 0.9; // 90% of max length
@@ -19,6 +21,8 @@ export const MESSAGE_LENGTH_WARNING_THRESHOLD = 0.9; // 90% of max length
 // Virtual scrolling
 export const ESTIMATED_MESSAGE_HEIGHT_PX = 120;
 export const VIRTUAL_SCROLL_OVERSCAN_COUNT = 5;
+// Distance from the top of the history that triggers loading older pages
+export const LOAD_OLDER_MESSAGES_THRESHOLD_PX = 200;
 
 // Loading skeleton counts
 export const LOADING_SKELETON_COUNT = 3;
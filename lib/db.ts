@@ -1,14 +1,76 @@
 /**
- * Minimal Prisma client placeholder for tests.
- * The actual implementation is mocked in unit tests.
+ * SQLite Database
+ * Durable store for chats and messages, opened lazily once per process
+ * at SQLITE_DATABASE_PATH (default: data/chat.db)
  */
 
-export interface PrismaClientLike {
-  chat: Record<string, unknown>;
-  message: Record<string, unknown>;
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+
+const DEFAULT_DATABASE_PATH = path.join(process.cwd(), 'data', 'chat.db');
+const IN_MEMORY_DATABASE = ':memory:';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS chats (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    tenant_id TEXT,
+    title TEXT NOT NULL,
+    archived INTEGER NOT NULL DEFAULT 0,
+    legal_hold INTEGER NOT NULL DEFAULT 0,
+    settings TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS chats_user_updated
+    ON chats (user_id, updated_at DESC);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    chat_id TEXT NOT NULL REFERENCES chats (id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    status TEXT NOT NULL,
+    parent_message_id TEXT,
+    metadata TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (chat_id, id)
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS messages_chat_seq
+    ON messages (chat_id, seq);
+`;
+
+let database: Database.Database | null = null;
+
+/**
+ * Get the shared connection, creating the file and schema on first use
+ */
+export function getDatabase(): Database.Database {
+  if (!database) {
+    const file = process.env.SQLITE_DATABASE_PATH || DEFAULT_DATABASE_PATH;
+
+    if (file !== IN_MEMORY_DATABASE) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+
+    database = new Database(file);
+    database.pragma('journal_mode = WAL');
+    database.pragma('foreign_keys = ON');
+    database.exec(SCHEMA);
+  }
+
+  return database;
 }
 
-export const prisma: PrismaClientLike = {
-  chat: {},
-  message: {},
-};
+/**
+ * Close the shared connection (tests, graceful shutdown)
+ */
+export function closeDatabase(): void {
+  database?.close();
+  database = null;
+}
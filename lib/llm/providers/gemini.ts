@@ -0,0 +1,208 @@
+/**
+ * Gemini Provider
+ * Google Gemini via the @google/genai SDK
+ */
+
+import { GEMINI_CHAT_MODELS } from '@/lib/constants/llm';
+import {
+  DEFAULT_TEMPERATURE,
+  approximateTokenCount,
+  createAbortError,
+  getErrorStatus,
+  isRetryableStatus,
+  splitSystemMessages,
+} from './shared';
+import type {
+  LLMMessage,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMStreamOptions,
+  StreamCallback,
+} from './types';
+
+type GoogleGenAIModule = typeof import('@google/genai');
+type GoogleGenAIClient = InstanceType<GoogleGenAIModule['GoogleGenAI']>;
+
+interface GeminiGenerationConfig {
+  temperature?: number;
+  maxOutputTokens?: number;
+  systemInstruction?: string;
+  abortSignal?: AbortSignal;
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+
+let geminiClient: GoogleGenAIClient | null = null;
+let googleGenAIModulePromise: Promise<GoogleGenAIModule> | null = null;
+
+function getGeminiApiKey(): string | undefined {
+  const rawKey = process.env.GEMINI_API_KEY;
+  if (!rawKey) {
+    return undefined;
+  }
+  const trimmed = rawKey.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+async function loadGoogleGenAIModule(): Promise<GoogleGenAIModule> {
+  if (!googleGenAIModulePromise) {
+    googleGenAIModulePromise = import('@google/genai');
+  }
+  return googleGenAIModulePromise;
+}
+
+async function getGeminiClient(): Promise<GoogleGenAIClient> {
+  const apiKey = getGeminiApiKey();
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY environment variable is required.');
+  }
+  if (!geminiClient) {
+    const { GoogleGenAI } = await loadGoogleGenAIModule();
+    geminiClient = new GoogleGenAI({ apiKey });
+  }
+  return geminiClient;
+}
+
+function resolveModel(model?: string): string {
+  return model?.trim() || process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL;
+}
+
+function normalizeMessagesForGemini(
+  messages: LLMMessage[],
+): Array<{ role: string; parts: Array<{ text: string }> }> {
+  // Gemini uses 'user' and 'model' roles; system messages go through
+  // systemInstruction and must be removed before calling this
+  return messages.map((msg) => ({
+    role: msg.role === 'assistant' || msg.role === 'model' ? 'model' : 'user',
+    parts: [{ text: msg.content }],
+  }));
+}
+
+function buildRequest(messages: LLMMessage[], options: LLMRequestOptions) {
+  const { systemInstruction, conversation } = splitSystemMessages(messages);
+
+  const config: GeminiGenerationConfig = {
+    temperature:
+      typeof options.temperature === 'number'
+        ? options.temperature
+        : DEFAULT_TEMPERATURE,
+  };
+
+  if (typeof options.maxTokens === 'number') {
+    config.maxOutputTokens = options.maxTokens;
+  }
+
+  if (systemInstruction) {
+    config.systemInstruction = systemInstruction;
+  }
+
+  if (options.signal) {
+    config.abortSignal = options.signal;
+  }
+
+  return {
+    model: resolveModel(options.model),
+    contents: normalizeMessagesForGemini(conversation),
+    config,
+  };
+}
+
+export const geminiProvider: LLMProvider = {
+  name: 'gemini',
+  capabilities: {
+    streaming: true,
+    systemInstruction: true,
+    nativeTokenCounting: true,
+  },
+
+  isConfigured(): boolean {
+    return Boolean(getGeminiApiKey());
+  },
+
+  chatModels() {
+    return GEMINI_CHAT_MODELS;
+  },
+
+  async complete(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const client = await getGeminiClient();
+    const request = buildRequest(messages, options);
+
+    const response = await client.models.generateContent(request);
+    const content = response.text;
+
+    if (!content) {
+      throw new Error('Gemini response did not include any content.');
+    }
+
+    return {
+      content,
+      model: request.model,
+      tokensUsed:
+        response.usageMetadata?.totalTokenCount ??
+        approximateTokenCount(content),
+      processingTime: Date.now() - startTime,
+    };
+  },
+
+  async stream(
+    messages: LLMMessage[],
+    onChunk: StreamCallback,
+    options: LLMStreamOptions,
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const client = await getGeminiClient();
+    const request = buildRequest(messages, options);
+
+    const stream = await client.models.generateContentStream(request);
+
+    let fullContent = '';
+    let totalTokenCount: number | undefined;
+
+    for await (const chunk of stream) {
+      // The SDK stops fetching on abort, but chunks already buffered would
+      // still be yielded
+      if (options.signal?.aborted) {
+        throw createAbortError();
+      }
+      const chunkText = chunk.text;
+      if (chunkText) {
+        fullContent += chunkText;
+        onChunk(chunkText);
+      }
+      // Usage metadata is cumulative; the final chunk carries the total
+      totalTokenCount = chunk.usageMetadata?.totalTokenCount ?? totalTokenCount;
+    }
+
+    const finalContent = fullContent.trim();
+
+    if (!finalContent) {
+      throw new Error('Gemini streaming response returned no content.');
+    }
+
+    return {
+      content: finalContent,
+      model: request.model,
+      tokensUsed: totalTokenCount ?? approximateTokenCount(finalContent),
+      processingTime: Date.now() - startTime,
+    };
+  },
+
+  async countTokens(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+  ): Promise<number> {
+    const client = await getGeminiClient();
+    const { model, contents } = buildRequest(messages, options);
+    const response = await client.models.countTokens({ model, contents });
+    return response.totalTokens ?? 0;
+  },
+
+  isRetryableError(error: unknown): boolean {
+    return isRetryableStatus(getErrorStatus(error));
+  },
+};
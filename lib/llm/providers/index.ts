@@ -0,0 +1,100 @@
+/**
+ * LLM Provider Registry
+ * Selects the active provider from LLM_PROVIDER, falling back to the mock
+ * provider whenever the requested backend is not configured
+ */
+
+import type { ChatModelOption } from '@/lib/constants/llm';
+import { logWarn } from '@/utils/logger';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openAICompatibleProvider } from './openai-compatible';
+import type { LLMProvider, LLMProviderName } from './types';
+
+export type {
+  LLMError,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderCapabilities,
+  LLMProviderName,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMStreamOptions,
+  LLMUsageAccount,
+  StreamCallback,
+} from './types';
+
+const LLM_PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+  gemini: geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+  mock: mockProvider,
+};
+
+const DEFAULT_PROVIDER: LLMProviderName = 'gemini';
+
+const loggedWarnings = new Set<string>();
+
+function warnOnce(message: string): void {
+  if (loggedWarnings.has(message) || process.env.NODE_ENV === 'test') {
+    return;
+  }
+  logWarn(message);
+  loggedWarnings.add(message);
+}
+
+function isBrowserLikeEnvironment(): boolean {
+  return typeof window !== 'undefined';
+}
+
+function isProviderName(value: string): value is LLMProviderName {
+  return Object.prototype.hasOwnProperty.call(LLM_PROVIDERS, value);
+}
+
+function getConfiguredProviderName(): LLMProviderName {
+  const rawName = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (!rawName) {
+    return DEFAULT_PROVIDER;
+  }
+  if (isProviderName(rawName)) {
+    return rawName;
+  }
+  warnOnce(
+    `Unknown LLM_PROVIDER "${rawName}". Falling back to ${DEFAULT_PROVIDER}.`,
+  );
+  return DEFAULT_PROVIDER;
+}
+
+/**
+ * Resolve the provider for the current environment.
+ * Browser-like environments always receive the mock provider so that
+ * credentials are never exercised client-side.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (isBrowserLikeEnvironment()) {
+    warnOnce(
+      'LLM service was invoked in a browser-like environment. Using mock responses to avoid exposing sensitive credentials.',
+    );
+    return mockProvider;
+  }
+
+  const provider = LLM_PROVIDERS[getConfiguredProviderName()];
+  if (provider.isConfigured()) {
+    return provider;
+  }
+
+  warnOnce(
+    provider.name === 'gemini'
+      ? 'GEMINI_API_KEY is not configured. Falling back to mock LLM responses.'
+      : `LLM provider "${provider.name}" is not configured. Falling back to mock LLM responses.`,
+  );
+  return mockProvider;
+}
+
+/**
+ * Models offered by the configured provider. Taken from the configured
+ * provider even while it falls back to mock, so stored chat settings stay
+ * valid once its credentials are in place.
+ */
+export function getChatModels(): readonly ChatModelOption[] {
+  return LLM_PROVIDERS[getConfiguredProviderName()].chatModels();
+}
@@ -0,0 +1,114 @@
+/**
+ * Mock Provider
+ * Canned responses for development, tests and unconfigured environments
+ */
+
+import { approximateMessageTokens, createAbortError } from './shared';
+import type {
+  LLMMessage,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMStreamOptions,
+  StreamCallback,
+} from './types';
+
+const MOCK_LLM_DELAY_MS = 1000;
+const MOCK_LLM_TOKEN_RANGE = 500;
+const MOCK_LLM_TOKEN_BASE = 100;
+const MOCK_STREAM_DEFAULT_DELAY_MS = 30;
+const MIN_MOCK_DELAY_MS = 0;
+const MOCK_CHAT_MODELS = [{ id: 'mock-model', label: 'Mock model' }];
+
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+  capabilities: {
+    streaming: true,
+    systemInstruction: false,
+    nativeTokenCounting: false,
+  },
+
+  isConfigured(): boolean {
+    return true;
+  },
+
+  chatModels() {
+    return MOCK_CHAT_MODELS;
+  },
+
+  async complete(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const latestContent = messages[messages.length - 1]?.content ?? '';
+
+    await new Promise((resolve) => setTimeout(resolve, MOCK_LLM_DELAY_MS));
+
+    const mockResponse = `This is a mock response to: "${latestContent}".
+
+In a production environment, this would be replaced with an actual AI response from a service like OpenAI, Anthropic Claude, or another LLM provider.
+
+To integrate a real LLM:
+1. Configure your API keys in environment variables
+2. Ensure the LLM client is initialized on the server
+3. Handle rate limiting and errors appropriately`;
+
+    return {
+      content: mockResponse,
+      model: options.model || 'mock-model',
+      tokensUsed:
+        Math.floor(Math.random() * MOCK_LLM_TOKEN_RANGE) + MOCK_LLM_TOKEN_BASE,
+      processingTime: Date.now() - startTime,
+    };
+  },
+
+  async stream(
+    messages: LLMMessage[],
+    onChunk: StreamCallback,
+    options: LLMStreamOptions,
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const latestContent = messages[messages.length - 1]?.content ?? '';
+
+    const mockResponse = `This is a streaming mock response to: "${latestContent}".
+
+In a production environment, this would stream tokens from a real LLM API like OpenAI or Anthropic.
+
+Each word is sent as a separate chunk to simulate real streaming behavior.`;
+
+    const words = mockResponse.split(' ');
+    let fullContent = '';
+
+    const mockDelay =
+      typeof options.mockDelay === 'number' &&
+      options.mockDelay >= MIN_MOCK_DELAY_MS
+        ? options.mockDelay
+        : MOCK_STREAM_DEFAULT_DELAY_MS;
+
+    for (let i = 0; i < words.length; i++) {
+      if (options.signal?.aborted) {
+        throw createAbortError();
+      }
+      const word = `${words[i]} `;
+      fullContent += word;
+      onChunk(word);
+      await new Promise((resolve) => setTimeout(resolve, mockDelay));
+    }
+
+    return {
+      content: fullContent.trim(),
+      model: options.model || 'mock-streaming-model',
+      tokensUsed: words.length,
+      processingTime: Date.now() - startTime,
+    };
+  },
+
+  async countTokens(messages: LLMMessage[]): Promise<number> {
+    return approximateMessageTokens(messages);
+  },
+
+  isRetryableError(): boolean {
+    return false;
+  },
+};
@@ -0,0 +1,275 @@
+/**
+ * OpenAI-Compatible Provider
+ * Any server exposing /chat/completions (OpenAI, llama.cpp, Ollama, vLLM)
+ */
+
+import type { ChatModelOption } from '@/lib/constants/llm';
+import {
+  DEFAULT_TEMPERATURE,
+  approximateMessageTokens,
+  approximateTokenCount,
+  getErrorStatus,
+  isRetryableStatus,
+} from './shared';
+import type {
+  LLMError,
+  LLMMessage,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMStreamOptions,
+  StreamCallback,
+} from './types';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { total_tokens?: number };
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: { total_tokens?: number } | null;
+}
+
+const DEFAULT_OPENAI_COMPAT_MODEL = 'llama3';
+const COMPLETIONS_PATH = '/chat/completions';
+const SSE_DATA_PREFIX = 'data:';
+const SSE_DONE_SENTINEL = '[DONE]';
+const MAX_ERROR_BODY_LENGTH = 200;
+
+function getBaseUrl(): string | undefined {
+  const rawUrl = process.env.OPENAI_COMPAT_BASE_URL?.trim();
+  return rawUrl ? rawUrl.replace(/\/+$/, '') : undefined;
+}
+
+function resolveModel(model?: string): string {
+  return (
+    model?.trim() ||
+    process.env.OPENAI_COMPAT_MODEL?.trim() ||
+    DEFAULT_OPENAI_COMPAT_MODEL
+  );
+}
+
+/**
+ * OPENAI_COMPAT_MODELS lists what the server hosts (comma-separated);
+ * without it only the default model is offered
+ */
+function getChatModels(): ChatModelOption[] {
+  const ids = (process.env.OPENAI_COMPAT_MODELS ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  return (ids.length > 0 ? ids : [resolveModel()]).map((id) => ({
+    id,
+    label: id,
+  }));
+}
+
+function normalizeRole(role: string): string {
+  if (role === 'model') {
+    return 'assistant';
+  }
+  return role === 'system' || role === 'assistant' ? role : 'user';
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  const apiKey = process.env.OPENAI_COMPAT_API_KEY?.trim();
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+  return headers;
+}
+
+async function postCompletion(
+  messages: LLMMessage[],
+  options: LLMRequestOptions,
+  stream: boolean,
+): Promise<{ response: Response; model: string }> {
+  const baseUrl = getBaseUrl();
+  if (!baseUrl) {
+    throw new Error('OPENAI_COMPAT_BASE_URL environment variable is required.');
+  }
+
+  const model = resolveModel(options.model);
+  const body: Record<string, unknown> = {
+    model,
+    messages: messages.map((msg) => ({
+      role: normalizeRole(msg.role),
+      content: msg.content,
+    })),
+    temperature:
+      typeof options.temperature === 'number'
+        ? options.temperature
+        : DEFAULT_TEMPERATURE,
+    stream,
+  };
+
+  if (typeof options.maxTokens === 'number') {
+    body.max_tokens = options.maxTokens;
+  }
+
+  const response = await fetch(`${baseUrl}${COMPLETIONS_PATH}`, {
+    method: 'POST',
+    headers: buildHeaders(),
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(
+      0,
+      MAX_ERROR_BODY_LENGTH,
+    );
+    const error: LLMError = new Error(
+      `OpenAI-compatible request failed with status ${response.status}${
+        detail ? `: ${detail}` : ''
+      }`,
+    );
+    error.status = response.status;
+    throw error;
+  }
+
+  return { response, model };
+}
+
+/**
+ * Yield the JSON payload of each SSE `data:` line until [DONE]
+ */
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith(SSE_DATA_PREFIX)) {
+          continue;
+        }
+        const data = trimmed.slice(SSE_DATA_PREFIX.length).trim();
+        if (data === SSE_DONE_SENTINEL) {
+          return;
+        }
+        yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const openAICompatibleProvider: LLMProvider = {
+  name: 'openai-compatible',
+  capabilities: {
+    streaming: true,
+    systemInstruction: true,
+    nativeTokenCounting: false,
+  },
+
+  isConfigured(): boolean {
+    return Boolean(getBaseUrl());
+  },
+
+  chatModels() {
+    return getChatModels();
+  },
+
+  async complete(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const { response, model } = await postCompletion(messages, options, false);
+    const payload = (await response.json()) as ChatCompletionResponse;
+    const content = payload.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new Error(
+        'OpenAI-compatible response did not include any content.',
+      );
+    }
+
+    return {
+      content,
+      model: payload.model || model,
+      tokensUsed: payload.usage?.total_tokens ?? approximateTokenCount(content),
+      processingTime: Date.now() - startTime,
+    };
+  },
+
+  async stream(
+    messages: LLMMessage[],
+    onChunk: StreamCallback,
+    options: LLMStreamOptions,
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const { response, model } = await postCompletion(messages, options, true);
+
+    if (!response.body) {
+      throw new Error('OpenAI-compatible streaming response had no body.');
+    }
+
+    let fullContent = '';
+    let responseModel = model;
+    let totalTokens: number | undefined;
+
+    for await (const data of readServerSentEvents(response.body)) {
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data) as ChatCompletionChunk;
+      } catch {
+        continue;
+      }
+
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        fullContent += delta;
+        onChunk(delta);
+      }
+      responseModel = chunk.model || responseModel;
+      totalTokens = chunk.usage?.total_tokens ?? totalTokens;
+    }
+
+    const finalContent = fullContent.trim();
+
+    if (!finalContent) {
+      throw new Error(
+        'OpenAI-compatible streaming response returned no content.',
+      );
+    }
+
+    return {
+      content: finalContent,
+      model: responseModel,
+      tokensUsed: totalTokens ?? approximateTokenCount(finalContent),
+      processingTime: Date.now() - startTime,
+    };
+  },
+
+  async countTokens(messages: LLMMessage[]): Promise<number> {
+    // No standard tokenizer endpoint across compatible servers
+    return approximateMessageTokens(messages);
+  },
+
+  isRetryableError(error: unknown): boolean {
+    return isRetryableStatus(getErrorStatus(error));
+  },
+};
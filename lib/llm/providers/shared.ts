@@ -0,0 +1,87 @@
+/**
+ * LLM Provider Helpers
+ * Small utilities shared between provider implementations
+ */
+
+import type { LLMError, LLMMessage } from './types';
+
+const TOKEN_APPROX_CHARS_PER_TOKEN = 4;
+
+export const DEFAULT_TEMPERATURE = 1;
+
+/**
+ * Rough token approximation: ~4 characters per token
+ */
+export function approximateTokenCount(text: string): number {
+  return Math.ceil(text.length / TOKEN_APPROX_CHARS_PER_TOKEN);
+}
+
+export function approximateMessageTokens(messages: LLMMessage[]): number {
+  return messages.reduce(
+    (sum, msg) => sum + approximateTokenCount(msg.content),
+    0,
+  );
+}
+
+/**
+ * Split system messages from the conversation turns
+ */
+export function splitSystemMessages(messages: LLMMessage[]): {
+  systemInstruction: string | undefined;
+  conversation: LLMMessage[];
+} {
+  const systemParts = messages
+    .filter((msg) => msg.role === 'system')
+    .map((msg) => msg.content);
+
+  return {
+    systemInstruction:
+      systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+    conversation: messages.filter((msg) => msg.role !== 'system'),
+  };
+}
+
+const HTTP_REQUEST_TIMEOUT = 408;
+const HTTP_TOO_MANY_REQUESTS = 429;
+const HTTP_SERVER_ERROR_MIN = 500;
+
+/**
+ * Transient failures (timeouts, throttling, server errors) are retryable.
+ * Errors without an HTTP status are treated as network failures.
+ */
+export function isRetryableStatus(status: number | undefined): boolean {
+  if (typeof status !== 'number') {
+    return true;
+  }
+  return (
+    status === HTTP_REQUEST_TIMEOUT ||
+    status === HTTP_TOO_MANY_REQUESTS ||
+    status >= HTTP_SERVER_ERROR_MIN
+  );
+}
+
+/**
+ * Error raised when a request is cancelled through its AbortSignal
+ */
+export function createAbortError(): LLMError {
+  const error: LLMError = new Error('LLM request aborted');
+  error.name = 'AbortError';
+  error.code = 'ABORTED';
+  error.retryable = false;
+  return error;
+}
+
+/**
+ * Matches our own abort errors as well as fetch/SDK AbortErrors
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function getErrorStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object' && 'status' in error) {
+    const { status } = error as { status?: unknown };
+    return typeof status === 'number' ? status : undefined;
+  }
+  return undefined;
+}
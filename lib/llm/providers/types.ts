@@ -0,0 +1,86 @@
+/**
+ * LLM Provider Types
+ * Shared contract implemented by every language model backend
+ */
+
+import type { ChatModelOption } from '@/lib/constants/llm';
+
+export type LLMProviderName = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface LLMMessage {
+  role: string;
+  content: string;
+}
+
+export interface LLMResponse {
+  content: string;
+  model: string;
+  tokensUsed: number;
+  processingTime: number;
+}
+
+export interface LLMError extends Error {
+  code?: string;
+  status?: number;
+  retryable?: boolean;
+}
+
+/**
+ * Who a request's tokens are billed to
+ */
+export interface LLMUsageAccount {
+  userId: string;
+  tenantId?: string;
+}
+
+export interface LLMRequestOptions {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Cancels the request, e.g. when the user stops generation */
+  signal?: AbortSignal;
+  /** Usage is recorded against this account when set */
+  account?: LLMUsageAccount;
+}
+
+export interface LLMStreamOptions extends LLMRequestOptions {
+  mockDelay?: number;
+}
+
+/**
+ * Streaming callback for LLM responses
+ */
+export type StreamCallback = (chunk: string) => void;
+
+export interface LLMProviderCapabilities {
+  /** Emits incremental chunks rather than a single completion */
+  streaming: boolean;
+  /** Accepts system messages natively (instruction config or system role) */
+  systemInstruction: boolean;
+  /** countTokens asks the backend instead of approximating */
+  nativeTokenCounting: boolean;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly capabilities: LLMProviderCapabilities;
+  /** Whether the provider has the configuration it needs to serve requests */
+  isConfigured(): boolean;
+  /** Models users may pick in the chat settings */
+  chatModels(): readonly ChatModelOption[];
+  complete(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+  ): Promise<LLMResponse>;
+  stream(
+    messages: LLMMessage[],
+    onChunk: StreamCallback,
+    options: LLMStreamOptions,
+  ): Promise<LLMResponse>;
+  countTokens(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+  ): Promise<number>;
+  /** Decides whether a failed call is worth retrying */
+  isRetryableError(error: unknown): boolean;
+}
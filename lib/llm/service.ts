@@ -1,153 +1,50 @@
 /**
  * LLM Service
- * Handles communication with Language Model APIs
+ * Handles communication with Language Model APIs via the configured provider
  * SECURITY (MED-03): Linked to Redis circuit breaker to prevent LLM abuse when rate limiting is down
  */
 
 import { logError, logInfo, logWarn } from '@/utils/logger';
 import { redisCircuitBreaker } from '@/lib/redis/circuit-breaker';
-import type { MessageModel } from '@/types/models';
-type GoogleGenAIModule = typeof import('@google/genai');
-type GoogleGenAIClient = InstanceType<GoogleGenAIModule['GoogleGenAI']>;
-
-interface LLMResponse {
-  content: string;
-  model: string;
-  tokensUsed: number;
-  processingTime: number;
-}
-
-interface LLMError extends Error {
-  code?: string;
-  retryable?: boolean;
-}
-
-interface LLMRequestOptions {
-  model?: string;
-  maxTokens?: number;
-  temperature?: number;
-}
-
-interface LLMStreamOptions extends LLMRequestOptions {
-  mockDelay?: number;
-}
+import { getLLMProvider } from '@/lib/llm/providers';
+import type {
+  LLMError,
+  LLMMessage,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMStreamOptions,
+  LLMUsageAccount,
+  StreamCallback,
+} from '@/lib/llm/providers';
+import {
+  approximateMessageTokens,
+  approximateTokenCount,
+  isAbortError,
+} from '@/lib/llm/providers/shared';
+import { splitTokenUsage } from '@/lib/llm/usage';
+import { recordTokenUsage } from '@/lib/redis/usage';
+import type { CircuitBreakerDTO, MessageModel } from '@/types/models';
 
-const DEFAULT_TEMPERATURE = 1;
-const FALLBACK_MODEL = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
 const CIRCUIT_BREAKER_FAILURE_THRESHOLD = 5;
 const CIRCUIT_BREAKER_SUCCESS_THRESHOLD = 2;
 const CIRCUIT_BREAKER_TIMEOUT_MS = 60000;
-const MOCK_LLM_DELAY_MS = 1000;
-const MOCK_LLM_TOKEN_RANGE = 500;
-const MOCK_LLM_TOKEN_BASE = 100;
-const MOCK_STREAM_DEFAULT_DELAY_MS = 30;
-const MIN_MOCK_DELAY_MS = 0;
-const TOKEN_APPROX_CHARS_PER_TOKEN = 4;
 const DEFAULT_MAX_TOKENS = 8000;
 const MIN_TOKEN_LIMIT = 1;
 const DEFAULT_MAX_RETRIES = 3;
 const BACKOFF_EXPONENT = 2;
 const BACKOFF_BASE_DELAY_MS = 1000;
 
-let geminiClient: GoogleGenAIClient | null = null;
-let googleGenAIModulePromise: Promise<GoogleGenAIModule> | null = null;
-let hasLoggedMissingGeminiKey = false;
-let hasLoggedBrowserEnvironmentFallback = false;
-
-function getGeminiApiKey(): string | undefined {
-  const rawKey = process.env.GEMINI_API_KEY;
-  if (!rawKey) {
-    return undefined;
-  }
-  const trimmed = rawKey.trim();
-  return trimmed.length > 0 ? trimmed : undefined;
-}
-
-function isGeminiConfigured(): boolean {
-  return Boolean(getGeminiApiKey());
-}
-
-function isBrowserLikeEnvironment(): boolean {
-  return typeof window !== 'undefined';
-}
-
-function shouldUseMockLLM(): boolean {
-  if (isBrowserLikeEnvironment()) {
-    if (
-      !hasLoggedBrowserEnvironmentFallback &&
-      process.env.NODE_ENV !== 'test'
-    ) {
-      logWarn(
-        'LLM service was invoked in a browser-like environment. Using mock responses to avoid exposing sensitive credentials.',
-      );
-      hasLoggedBrowserEnvironmentFallback = true;
-    }
-    return true;
-  }
-
-  if (isGeminiConfigured()) {
-    return false;
-  }
-  if (!hasLoggedMissingGeminiKey && process.env.NODE_ENV !== 'test') {
-    logWarn(
-      'GEMINI_API_KEY is not configured. Falling back to mock LLM responses.',
-    );
-    hasLoggedMissingGeminiKey = true;
-  }
-  return true;
-}
-
-async function loadGoogleGenAIModule(): Promise<GoogleGenAIModule> {
-  if (!googleGenAIModulePromise) {
-    googleGenAIModulePromise = import('@google/genai');
-  }
-  return googleGenAIModulePromise;
-}
-
-async function getGeminiClient(): Promise<GoogleGenAIClient> {
-  const apiKey = getGeminiApiKey();
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY environment variable is required.');
-  }
-  if (!geminiClient) {
-    const { GoogleGenAI } = await loadGoogleGenAIModule();
-    geminiClient = new GoogleGenAI({ apiKey });
-  }
-  return geminiClient;
-}
-
-function resolveModel(model?: string): string {
-  return model?.trim() || FALLBACK_MODEL;
-}
-
-function normalizeMessagesForGemini(
-  messages: Array<{ role: string; content: string }>,
-): Array<{ role: string; parts: Array<{ text: string }> }> {
-  return messages.map((msg) => {
-    // Gemini uses 'user' and 'model' roles
-    // Map 'assistant' to 'model', 'system' is handled differently usually but for chat 'user'/'model' is standard
-    // For now, we'll map 'system' to 'user' with a prefix or just 'user' if the API supports system instructions separately
-    // The new SDK might support system instructions in the config.
-    // For simplicity in this migration, we'll map roles.
-
-    let role = 'user';
-    if (msg.role === 'assistant') {
-      role = 'model';
-    } else if (msg.role === 'model') {
-      role = 'model';
-    }
-
-    return {
-      role,
-      parts: [{ text: msg.content }],
-    };
-  });
-}
-
-function isRetryableApiError(_error: unknown): boolean {
-  // TODO: Check specific Gemini error codes
-  // For now, assume standard HTTP status codes if available or generic error check
-  return true;
+function toLLMError(
+  provider: LLMProvider,
+  error: unknown,
+  fallbackMessage: string,
+): LLMError {
+  const llmError: LLMError =
+    error instanceof Error ? error : new Error(fallbackMessage);
+  // A cancelled request must never be retried
+  llmError.retryable = !isAbortError(error) && provider.isRetryableError(error);
+  return llmError;
 }
 
 /**
@@ -190,7 +87,10 @@ class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      // User cancellation says nothing about the health of the service
+      if (!isAbortError(error)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
@@ -233,6 +133,18 @@ class CircuitBreaker {
     return this.state;
   }
 
+  getSnapshot(): CircuitBreakerDTO {
+    return {
+      name: 'LLM',
+      state: this.state,
+      failureCount: this.failureCount,
+      nextAttemptAt:
+        this.state === CircuitState.OPEN
+          ? new Date(this.nextAttemptTime).toISOString()
+          : null,
+    };
+  }
+
   reset(): void {
     this.state = CircuitState.CLOSED;
     this.failureCount = 0;
@@ -252,285 +164,157 @@ export function getCircuitBreaker(): CircuitBreaker {
   return llmCircuitBreaker;
 }
 
+export type { StreamCallback };
+
 /**
- * Streaming callback for LLM responses
+ * Add a completed call to the account's usage counters. Accounting is
+ * best effort: a Redis failure must not cost the user their answer.
  */
-export type StreamCallback = (chunk: string) => void;
+async function recordUsage(
+  account: LLMUsageAccount | undefined,
+  response: LLMResponse,
+): Promise<void> {
+  if (!account) return;
+
+  try {
+    await recordTokenUsage(account, splitTokenUsage(response));
+  } catch (error) {
+    logWarn('Failed to record token usage', {
+      userId: account.userId,
+      tenantId: account.tenantId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
 
 /**
- * Mock LLM service for development
- * Replace with actual LLM API integration (OpenAI, Anthropic, etc.)
+ * Send a completion request to the configured LLM provider
  */
 export async function callLLM(
-  messages: Array<{ role: string; content: string }>,
+  messages: LLMMessage[],
   options: LLMRequestOptions = {},
 ): Promise<LLMResponse> {
-  if (shouldUseMockLLM()) {
-    return callMockLLM(messages, options);
-  }
-
-  const startTime = Date.now();
+  const provider = getLLMProvider();
 
   try {
-    const client = await getGeminiClient();
-    const modelName = resolveModel(options.model);
-
-    // Separate system message if present
-    const systemMessage = messages.find((m) => m.role === 'system');
-    const chatMessages = messages.filter((m) => m.role !== 'system');
-
-    const contents = normalizeMessagesForGemini(chatMessages);
-
-    const config: {
-      temperature?: number;
-      maxOutputTokens?: number;
-      systemInstruction?: string;
-    } = {
-      temperature:
-        typeof options.temperature === 'number'
-          ? options.temperature
-          : DEFAULT_TEMPERATURE,
-    };
-
-    if (typeof options.maxTokens === 'number') {
-      config.maxOutputTokens = options.maxTokens;
-    }
-
-    if (systemMessage) {
-      config.systemInstruction = systemMessage.content;
-    }
-
-    const response = await client.models.generateContent({
-      model: modelName,
-      contents,
-      config,
-    });
-
-    const content = response.text;
-
-    if (!content) {
-      throw new Error('Gemini response did not include any content.');
-    }
-
-    const processingTime = Date.now() - startTime;
+    const response = await provider.complete(messages, options);
 
     logInfo('LLM request completed', {
-      model: modelName,
-      processingTime,
+      provider: provider.name,
+      model: response.model,
+      processingTime: response.processingTime,
       messageCount: messages.length,
     });
 
-    return {
-      content,
-      model: modelName,
-      tokensUsed:
-        response.usageMetadata?.totalTokenCount ?? calculateTokenCount(content),
-      processingTime,
-    };
+    await recordUsage(options.account, response);
+
+    return response;
   } catch (error) {
     logError('LLM request failed', error, {
+      provider: provider.name,
       model: options.model,
       messageCount: messages.length,
     });
 
-    const llmError: LLMError =
-      error instanceof Error ? error : new Error('Unknown LLM error');
-
-    llmError.retryable = isRetryableApiError(error);
-    throw llmError;
+    throw toLLMError(provider, error, 'Unknown LLM error');
   }
 }
 
 /**
  * Stream LLM response
- * Calls the callback function with each token as it arrives
+ * Calls the callback function with each token as it arrives. Providers
+ * without streaming support deliver the full completion as a single chunk.
  */
 export async function callLLMStream(
-  messages: Array<{ role: string; content: string }>,
+  messages: LLMMessage[],
   onChunk: StreamCallback,
   options: LLMStreamOptions = {},
 ): Promise<LLMResponse> {
-  if (shouldUseMockLLM()) {
-    return callMockLLMStream(messages, onChunk, options);
-  }
-
+  const provider = getLLMProvider();
   const startTime = Date.now();
+  // What the user already received, billed if the stream is cut short
+  let partialContent = '';
+  const trackChunk: StreamCallback = (chunk) => {
+    partialContent += chunk;
+    onChunk(chunk);
+  };
 
   try {
-    const client = await getGeminiClient();
-    const modelName = resolveModel(options.model);
-
-    // Separate system message if present
-    const systemMessage = messages.find((m) => m.role === 'system');
-    const chatMessages = messages.filter((m) => m.role !== 'system');
-
-    const contents = normalizeMessagesForGemini(chatMessages);
-
-    const config: {
-      temperature?: number;
-      maxOutputTokens?: number;
-      systemInstruction?: string;
-    } = {
-      temperature:
-        typeof options.temperature === 'number'
-          ? options.temperature
-          : DEFAULT_TEMPERATURE,
-    };
-
-    if (typeof options.maxTokens === 'number') {
-      config.maxOutputTokens = options.maxTokens;
-    }
-
-    if (systemMessage) {
-      config.systemInstruction = systemMessage.content;
+    let response: LLMResponse;
+    if (provider.capabilities.streaming) {
+      response = await provider.stream(messages, trackChunk, options);
+    } else {
+      response = await provider.complete(messages, options);
+      trackChunk(response.content);
     }
 
-    const stream = await client.models.generateContentStream({
-      model: modelName,
-      contents,
-      config,
+    logInfo('LLM streaming request completed', {
+      provider: provider.name,
+      model: response.model,
+      processingTime: response.processingTime,
+      messageCount: messages.length,
     });
 
-    let fullContent = '';
+    await recordUsage(options.account, response);
 
-    for await (const chunk of stream) {
-      const chunkText = chunk.text;
-      if (chunkText) {
-        fullContent += chunkText;
-        onChunk(chunkText);
+    return response;
+  } catch (error) {
+    if (isAbortError(error)) {
+      logInfo('LLM streaming request aborted', {
+        provider: provider.name,
+        model: options.model,
+      });
+
+      // Providers report no usage for a cut-off stream; estimate it from the
+      // prompt and the tokens already generated
+      if (partialContent) {
+        await recordUsage(options.account, {
+          content: partialContent,
+          model: options.model ?? '',
+          tokensUsed:
+            approximateMessageTokens(messages) +
+            approximateTokenCount(partialContent),
+          processingTime: Date.now() - startTime,
+        });
       }
-    }
-
-    const finalContent = fullContent.trim();
 
-    if (!finalContent) {
-      throw new Error('Gemini streaming response returned no content.');
+      throw toLLMError(provider, error, 'LLM streaming request aborted');
     }
 
-    const processingTime = Date.now() - startTime;
-
-    logInfo('LLM streaming request completed', {
-      model: modelName,
-      processingTime,
-      messageCount: messages.length,
-    });
-
-    return {
-      content: finalContent,
-      model: modelName,
-      tokensUsed: calculateTokenCount(finalContent), // Usage metadata might be available in the final chunk, but for now approx
-      processingTime,
-    };
-  } catch (error) {
     logError('LLM streaming request failed', error, {
+      provider: provider.name,
       model: options.model,
       messageCount: messages.length,
     });
 
-    const llmError: LLMError =
-      error instanceof Error ? error : new Error('Unknown LLM streaming error');
-
-    llmError.retryable = isRetryableApiError(error);
-    throw llmError;
+    throw toLLMError(provider, error, 'Unknown LLM streaming error');
   }
 }
 
-async function callMockLLM(
-  messages: Array<{ role: string; content: string }>,
-  options: LLMRequestOptions,
-): Promise<LLMResponse> {
-  const startTime = Date.now();
-  const latestContent = messages[messages.length - 1]?.content ?? '';
-
-  await new Promise((resolve) => setTimeout(resolve, MOCK_LLM_DELAY_MS));
-
-  const mockResponse = `This is a mock response to: "${latestContent}".
-
-In a production environment, this would be replaced with an actual AI response from a service like OpenAI, Anthropic Claude, or another LLM provider.
-
-To integrate a real LLM:
-1. Configure your API keys in environment variables
-2. Ensure the LLM client is initialized on the server
-3. Handle rate limiting and errors appropriately`;
-
-  const processingTime = Date.now() - startTime;
-
-  logInfo('LLM request completed (mock)', {
-    model: options.model || 'mock',
-    processingTime,
-    messageCount: messages.length,
-  });
-
-  return {
-    content: mockResponse,
-    model: options.model || 'mock-model',
-    tokensUsed:
-      Math.floor(Math.random() * MOCK_LLM_TOKEN_RANGE) + MOCK_LLM_TOKEN_BASE,
-    processingTime,
-  };
-}
-
-async function callMockLLMStream(
-  messages: Array<{ role: string; content: string }>,
-  onChunk: StreamCallback,
-  options: LLMStreamOptions,
-): Promise<LLMResponse> {
-  const startTime = Date.now();
-  const latestContent = messages[messages.length - 1]?.content ?? '';
-
-  const mockResponse = `This is a streaming mock response to: "${latestContent}".
-
-In a production environment, this would stream tokens from a real LLM API like OpenAI or Anthropic.
-
-Each word is sent as a separate chunk to simulate real streaming behavior.`;
-
-  const words = mockResponse.split(' ');
-  let fullContent = '';
-
-  const mockDelay =
-    typeof options.mockDelay === 'number' &&
-    options.mockDelay >= MIN_MOCK_DELAY_MS
-      ? options.mockDelay
-      : MOCK_STREAM_DEFAULT_DELAY_MS;
-
-  for (let i = 0; i < words.length; i++) {
-    const word = `${words[i]} `;
-    fullContent += word;
-    onChunk(word);
-    await new Promise((resolve) => setTimeout(resolve, mockDelay));
-  }
-
-  const processingTime = Date.now() - startTime;
-
-  logInfo('LLM streaming request completed (mock)', {
-    model: options.model || 'mock-streaming',
-    processingTime,
-    messageCount: messages.length,
-  });
-
-  return {
-    content: fullContent.trim(),
-    model: options.model || 'mock-streaming-model',
-    tokensUsed: words.length,
-    processingTime,
-  };
+/**
+ * Count prompt tokens using the provider's tokenizer when it has one
+ */
+export async function countTokens(
+  messages: LLMMessage[],
+  options: LLMRequestOptions = {},
+): Promise<number> {
+  return getLLMProvider().countTokens(messages, options);
 }
 
 /**
  * Calculate token count (simplified)
- * In production, use proper tokenizer for the specific model
+ * Synchronous approximation used for context budgeting; use countTokens
+ * for the provider's own tokenizer
  */
 export function calculateTokenCount(text: string): number {
-  // Rough approximation: ~4 characters per token
-  // Use proper tokenizers like tiktoken for OpenAI models
-  return Math.ceil(text.length / TOKEN_APPROX_CHARS_PER_TOKEN);
+  return approximateTokenCount(text);
 }
 
 /**
  * Validate token count before API call
  */
 export function validateTokenCount(
-  messages: Array<{ role: string; content: string }>,
+  messages: LLMMessage[],
   maxTokens: number = DEFAULT_MAX_TOKENS,
 ): boolean {
   if (maxTokens < MIN_TOKEN_LIMIT) {
@@ -550,10 +334,10 @@ export function validateTokenCount(
  * Truncates messages to fit within token limit while preserving important context
  */
 export function truncateMessagesToFit(
-  messages: Array<{ role: string; content: string }>,
+  messages: LLMMessage[],
   maxTokens: number = DEFAULT_MAX_TOKENS,
 ): {
-  messages: Array<{ role: string; content: string }>;
+  messages: LLMMessage[];
   truncated: boolean;
   removedCount: number;
 } {
@@ -581,7 +365,7 @@ export function truncateMessagesToFit(
   );
 
   // Add messages from most recent to oldest until we hit the limit
-  const keptMessages: Array<{ role: string; content: string }> = [];
+  const keptMessages: LLMMessage[] = [];
   for (let i = conversationMessages.length - 1; i >= 0; i--) {
     const msg = conversationMessages[i];
     const msgTokens = calculateTokenCount(msg.content);
@@ -616,12 +400,13 @@ export function truncateMessagesToFit(
 
 /**
  * Format messages for LLM API
+ * System messages keep their role so providers can apply them as instructions
  */
 export function formatMessagesForLLM(
   messages: MessageModel[],
-): Array<{ role: string; content: string }> {
+): LLMMessage[] {
   return messages.map((msg) => ({
-    role: msg.role === 'user' ? 'user' : 'assistant',
+    role: msg.role,
     content: msg.content,
   }));
 }
@@ -631,7 +416,7 @@ export function formatMessagesForLLM(
  * SECURITY (MED-03): Checks Redis circuit breaker to prevent LLM abuse when rate limiting is unavailable
  */
 export async function callLLMWithRetry(
-  messages: Array<{ role: string; content: string }>,
+  messages: LLMMessage[],
   options: LLMRequestOptions = {},
   maxRetries: number = DEFAULT_MAX_RETRIES,
 ): Promise<LLMResponse> {
@@ -685,7 +470,7 @@ export async function callLLMWithRetry(
  * SECURITY (MED-03): Checks Redis circuit breaker to prevent LLM abuse when rate limiting is unavailable
  */
 export async function callLLMStreamWithRetry(
-  messages: Array<{ role: string; content: string }>,
+  messages: LLMMessage[],
   onChunk: StreamCallback,
   options: LLMStreamOptions = {},
   maxRetries: number = DEFAULT_MAX_RETRIES,
@@ -0,0 +1,157 @@
+/**
+ * Token Usage Accounting
+ * Splits LLM responses into billable input/output tokens, buckets usage
+ * into UTC days and months, and resolves the quotas configured through
+ * the environment. Counters themselves live in Redis (lib/redis/usage).
+ */
+
+import { approximateTokenCount } from '@/lib/llm/providers/shared';
+import type { LLMResponse } from '@/lib/llm/providers';
+import { TokenManager } from '@/lib/llm/token-manager';
+
+export type UsageScope = 'user' | 'tenant';
+export type UsagePeriod = 'day' | 'month';
+export type UsageMetric = 'tokens' | 'cost';
+
+export const USAGE_PERIODS: UsagePeriod[] = ['day', 'month'];
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated, in USD */
+  cost: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  tokens: number;
+  requests: number;
+}
+
+export interface UsageQuota {
+  scope: UsageScope;
+  period: UsagePeriod;
+  metric: UsageMetric;
+  limit: number;
+}
+
+export interface UsageQuotaStatus extends UsageQuota {
+  used: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  tokens: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cost: 0,
+  requests: 0,
+};
+
+/** Env var holding each quota; unset or invalid means unlimited */
+const QUOTA_ENV_VARS: Record<
+  UsageScope,
+  Record<UsagePeriod, Record<UsageMetric, keyof NodeJS.ProcessEnv>>
+> = {
+  user: {
+    day: {
+      tokens: 'USAGE_QUOTA_USER_DAILY_TOKENS',
+      cost: 'USAGE_QUOTA_USER_DAILY_COST_USD',
+    },
+    month: {
+      tokens: 'USAGE_QUOTA_USER_MONTHLY_TOKENS',
+      cost: 'USAGE_QUOTA_USER_MONTHLY_COST_USD',
+    },
+  },
+  tenant: {
+    day: {
+      tokens: 'USAGE_QUOTA_TENANT_DAILY_TOKENS',
+      cost: 'USAGE_QUOTA_TENANT_DAILY_COST_USD',
+    },
+    month: {
+      tokens: 'USAGE_QUOTA_TENANT_MONTHLY_TOKENS',
+      cost: 'USAGE_QUOTA_TENANT_MONTHLY_COST_USD',
+    },
+  },
+};
+
+/**
+ * Providers report one total; the completion is counted as output (capped
+ * at the total) and the remainder as prompt input
+ */
+export function splitTokenUsage(
+  response: Pick<LLMResponse, 'content' | 'tokensUsed'>,
+): TokenUsage {
+  const total = Math.max(response.tokensUsed, 0);
+  const outputTokens = Math.min(approximateTokenCount(response.content), total);
+  const inputTokens = total - outputTokens;
+
+  return {
+    inputTokens,
+    outputTokens,
+    cost: TokenManager.estimateCost(inputTokens, outputTokens).totalCost,
+  };
+}
+
+/**
+ * UTC bucket the date falls in: YYYY-MM-DD for days, YYYY-MM for months
+ */
+export function usagePeriodBucket(period: UsagePeriod, now: Date): string {
+  const day = now.toISOString().slice(0, 10);
+  return period === 'day' ? day : day.slice(0, 7);
+}
+
+/**
+ * When the bucket containing `now` closes
+ */
+export function usagePeriodResetAt(period: UsagePeriod, now: Date): Date {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  return period === 'day'
+    ? new Date(Date.UTC(year, month, now.getUTCDate() + 1))
+    : new Date(Date.UTC(year, month + 1, 1));
+}
+
+/**
+ * Quotas configured for the scope, skipping unset or non-positive values
+ * Limits are scaled by `multiplier`, e.g. for a role with a larger budget.
+ */
+export function getUsageQuotas(
+  scope: UsageScope,
+  multiplier: number = 1,
+): UsageQuota[] {
+  const quotas: UsageQuota[] = [];
+
+  for (const period of USAGE_PERIODS) {
+    for (const [metric, envVar] of Object.entries(
+      QUOTA_ENV_VARS[scope][period],
+    ) as [UsageMetric, keyof NodeJS.ProcessEnv][]) {
+      const limit = Number(process.env[envVar]);
+      if (Number.isFinite(limit) && limit > 0) {
+        quotas.push({ scope, period, metric, limit: limit * multiplier });
+      }
+    }
+  }
+
+  return quotas;
+}
+
+export function evaluateUsageQuota(
+  quota: UsageQuota,
+  totals: UsageTotals,
+  now: Date,
+): UsageQuotaStatus {
+  const used = quota.metric === 'tokens' ? totals.tokens : totals.cost;
+
+  return {
+    ...quota,
+    used,
+    remaining: Math.max(quota.limit - used, 0),
+    resetAt: usagePeriodResetAt(quota.period, now),
+  };
+}
+
+export function isQuotaExhausted(status: UsageQuotaStatus): boolean {
+  return status.used >= status.limit;
+}
@@ -0,0 +1,114 @@
+/**
+ * Markdown Rendering Utilities
+ * Turns assistant markdown into sanitized HTML for display
+ */
+
+import MarkdownIt from 'markdown-it';
+import hljs from 'highlight.js/lib/common';
+import { sanitizeRichHtml } from '@/lib/sanitizer';
+
+const OPENING_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w#+.-]*)/;
+const CLOSING_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*$/;
+
+export type MarkdownBlock =
+  | { type: 'markdown'; source: string }
+  | { type: 'code'; code: string; language: string; closed: boolean };
+
+/**
+ * Raw HTML in model output is rendered as text; links still pass through
+ * sanitizeRichHtml, which re-validates every href with sanitizeUrl
+ */
+const markdown = new MarkdownIt({
+  html: false,
+  linkify: true,
+  breaks: true,
+  highlight: (code, language) => highlightCode(code, language),
+});
+
+/**
+ * Syntax-highlight code as sanitized HTML.
+ * Unknown languages fall back to escaped plain text; auto-detection is
+ * skipped because it is too slow to run on every streamed chunk.
+ */
+export function highlightCode(code: string, language: string): string {
+  const html =
+    language && hljs.getLanguage(language)
+      ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+      : markdown.utils.escapeHtml(code);
+
+  return sanitizeRichHtml(html);
+}
+
+/**
+ * Render a markdown fragment to sanitized HTML
+ */
+export function renderMarkdown(source: string): string {
+  return sanitizeRichHtml(markdown.render(source));
+}
+
+/**
+ * Split content into prose and fenced code blocks.
+ * Earlier blocks stay byte-identical as a message streams in, so only the
+ * trailing block re-renders; an unterminated fence is still a code block.
+ */
+export function splitMarkdownBlocks(content: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let prose: string[] = [];
+  let fence: { marker: string; language: string; lines: string[] } | null =
+    null;
+
+  const flushProse = () => {
+    const source = prose.join('\n');
+    if (source.trim()) {
+      blocks.push({ type: 'markdown', source });
+    }
+    prose = [];
+  };
+
+  for (const line of content.split('\n')) {
+    if (fence) {
+      const closing = CLOSING_FENCE_PATTERN.exec(line);
+      if (
+        closing &&
+        closing[1][0] === fence.marker[0] &&
+        closing[1].length >= fence.marker.length
+      ) {
+        blocks.push({
+          type: 'code',
+          code: fence.lines.join('\n'),
+          language: fence.language,
+          closed: true,
+        });
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      continue;
+    }
+
+    const opening = OPENING_FENCE_PATTERN.exec(line);
+    if (opening) {
+      flushProse();
+      fence = {
+        marker: opening[1],
+        language: opening[2].toLowerCase(),
+        lines: [],
+      };
+    } else {
+      prose.push(line);
+    }
+  }
+
+  if (fence) {
+    blocks.push({
+      type: 'code',
+      code: fence.lines.join('\n'),
+      language: fence.language,
+      closed: false,
+    });
+  } else {
+    flushProse();
+  }
+
+  return blocks;
+}
@@ -251,4 +251,13 @@ export const RATE_LIMITS = {
     windowSeconds: 60,
     keyPrefix: 'ratelimit:zset:llm-global',
   },
+  /**
+   * Unauthenticated share link views, limited per IP so tokens can't be
+   * brute-forced or scraped
+   */
+  SHARE_PUBLIC: {
+    maxRequests: 30,
+    windowSeconds: 60,
+    keyPrefix: 'ratelimit:zset:share',
+  },
 } as const;
@@ -0,0 +1,316 @@
+/**
+ * Audit Log Data Layer
+ * Security events appended to a Redis stream that is never trimmed or
+ * rewritten. Each entry stores the hash of the entry before it, so editing
+ * or deleting an entry breaks the chain from that point on.
+ */
+
+import { createHash } from 'crypto';
+import type Redis from 'ioredis';
+import { getRedisClient } from './client';
+import { AUDIT_HEAD_KEY, AUDIT_STREAM_KEY } from './keys';
+import type {
+  AuditEventDetails,
+  AuditEventModel,
+  AuditEventType
+} from '@/types/models';
+import { logError } from '@/utils/logger';
+
+/** prevHash of the first event */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+const MAX_APPEND_ATTEMPTS = 5;
+const QUERY_BATCH_SIZE = 200;
+// Bounds the work of one query page when filters match rarely
+const MAX_QUERY_SCAN = 5000;
+const DEFAULT_VERIFY_COUNT = 1000;
+
+// Fields covered by the hash, in hashing order
+const HASHED_FIELDS = [
+  'type',
+  'occurredAt',
+  'actorId',
+  'tenantId',
+  'ip',
+  'targetId',
+  'details'
+] as const;
+
+type HashedField = (typeof HASHED_FIELDS)[number];
+
+export interface AuditEventInput<T extends AuditEventType = AuditEventType> {
+  type: T;
+  actorId?: string | null;
+  tenantId?: string | null;
+  ip?: string | null;
+  targetId?: string | null;
+  details: AuditEventDetails[T];
+}
+
+export interface AuditEventQuery {
+  type?: AuditEventType;
+  actorId?: string;
+  tenantId?: string;
+  from?: Date;
+  to?: Date;
+  /** ID of the last event on the previous page */
+  before?: string;
+  limit: number;
+}
+
+export interface AuditEventPage {
+  /** Newest first */
+  events: AuditEventModel[];
+  /** Pass as `before` for the next page; null when nothing older is left */
+  nextCursor: string | null;
+}
+
+export interface AuditChainVerification {
+  checked: number;
+  valid: boolean;
+  /** First entry whose link or hash does not match */
+  brokenAt: string | null;
+  /** Pass back to verify the next stretch; null at the newest event */
+  cursor: string | null;
+}
+
+/**
+ * Hash of an entry: its fields chained to the previous entry's hash
+ */
+export function hashAuditEntry(
+  prevHash: string,
+  fields: Record<HashedField, string>
+): string {
+  return createHash('sha256')
+    .update(prevHash)
+    .update(JSON.stringify(HASHED_FIELDS.map((field) => fields[field])))
+    .digest('hex');
+}
+
+function toEntryFields(
+  input: AuditEventInput,
+  occurredAt: Date
+): Record<HashedField, string> {
+  return {
+    type: input.type,
+    occurredAt: occurredAt.toISOString(),
+    actorId: input.actorId ?? '',
+    tenantId: input.tenantId ?? '',
+    ip: input.ip ?? '',
+    targetId: input.targetId ?? '',
+    details: JSON.stringify(input.details)
+  };
+}
+
+function parseEntry(id: string, fieldList: string[]): AuditEventModel {
+  const fields: Record<string, string> = {};
+  for (let i = 0; i < fieldList.length; i += 2) {
+    fields[fieldList[i]] = fieldList[i + 1];
+  }
+
+  return {
+    id,
+    type: fields.type as AuditEventType,
+    occurredAt: new Date(fields.occurredAt),
+    actorId: fields.actorId || null,
+    tenantId: fields.tenantId || null,
+    ip: fields.ip || null,
+    targetId: fields.targetId || null,
+    details: fields.details ? JSON.parse(fields.details) : {},
+    prevHash: fields.prevHash,
+    hash: fields.hash
+  };
+}
+
+/**
+ * Fields as stored, for re-hashing during verification
+ */
+function storedFields(event: AuditEventModel): Record<HashedField, string> {
+  return toEntryFields(
+    {
+      type: event.type,
+      actorId: event.actorId,
+      tenantId: event.tenantId,
+      ip: event.ip,
+      targetId: event.targetId,
+      details: event.details as AuditEventDetails[AuditEventType]
+    },
+    event.occurredAt
+  );
+}
+
+// WATCH holds for the whole connection, so appends get one of their own
+// rather than watching on the client every other MULTI goes through
+let appendClient: Redis | null = null;
+
+function getAppendClient(): Redis {
+  if (!appendClient || appendClient.status === 'end') {
+    appendClient = getRedisClient().duplicate();
+  }
+  return appendClient;
+}
+
+/**
+ * Append under WATCH on the head hash so concurrent writers on other
+ * instances cannot link two events to the same predecessor
+ */
+async function appendChained(input: AuditEventInput): Promise<AuditEventModel> {
+  const redis = getAppendClient();
+  const fields = toEntryFields(input, new Date());
+
+  for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+    try {
+      await redis.watch(AUDIT_HEAD_KEY);
+      const prevHash = (await redis.get(AUDIT_HEAD_KEY)) ?? AUDIT_GENESIS_HASH;
+      const hash = hashAuditEntry(prevHash, fields);
+      const fieldList = Object.entries({ ...fields, prevHash, hash }).flat();
+
+      const result = await redis
+        .multi()
+        .xadd(AUDIT_STREAM_KEY, '*', ...fieldList)
+        .set(AUDIT_HEAD_KEY, hash)
+        .exec();
+
+      // Null when another event was appended since the WATCH
+      if (result) {
+        return parseEntry(result[0][1] as string, fieldList);
+      }
+    } catch (error) {
+      await redis.unwatch();
+      throw error;
+    }
+  }
+
+  throw new Error('Audit log append conflicted too many times');
+}
+
+// Appends from this instance run one at a time on the append connection;
+// WATCH covers other instances
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Record an event. Never throws: a failed append is logged and returns
+ * null so the request that triggered it is unaffected.
+ */
+export function appendAuditEvent<T extends AuditEventType>(
+  input: AuditEventInput<T>
+): Promise<AuditEventModel | null> {
+  const append = appendQueue.then(() =>
+    appendChained(input).catch((error) => {
+      logError('Failed to append audit event', error, { type: input.type });
+      return null;
+    })
+  );
+  appendQueue = append;
+  return append;
+}
+
+function matchesQuery(event: AuditEventModel, query: AuditEventQuery): boolean {
+  return (
+    (!query.type || event.type === query.type) &&
+    (!query.actorId || event.actorId === query.actorId) &&
+    (!query.tenantId || event.tenantId === query.tenantId)
+  );
+}
+
+/**
+ * Newest events first. The date range maps onto stream IDs; the other
+ * filters are applied while paging back through the stream.
+ */
+export async function queryAuditEvents(
+  query: AuditEventQuery
+): Promise<AuditEventPage> {
+  const redis = getRedisClient();
+  const start = query.from ? String(query.from.getTime()) : '-';
+  let end = query.before
+    ? `(${query.before}`
+    : query.to
+      ? String(query.to.getTime())
+      : '+';
+
+  const events: AuditEventModel[] = [];
+  let scanned = 0;
+  let lastId: string | null = null;
+
+  while (scanned < MAX_QUERY_SCAN) {
+    const entries = await redis.xrevrange(
+      AUDIT_STREAM_KEY,
+      end,
+      start,
+      'COUNT',
+      QUERY_BATCH_SIZE
+    );
+
+    for (const [id, fieldList] of entries) {
+      scanned++;
+      lastId = id;
+      const event = parseEntry(id, fieldList);
+      if (!matchesQuery(event, query)) continue;
+
+      events.push(event);
+      if (events.length === query.limit) {
+        return { events, nextCursor: id };
+      }
+    }
+
+    if (entries.length < QUERY_BATCH_SIZE) {
+      return { events, nextCursor: null };
+    }
+    end = `(${lastId}`;
+  }
+
+  return { events, nextCursor: lastId };
+}
+
+/**
+ * Re-hash a stretch of the log, oldest first. Pass the returned cursor
+ * back to continue; `after` must be an entry that has already been
+ * verified.
+ */
+export async function verifyAuditChain(
+  after?: string,
+  count: number = DEFAULT_VERIFY_COUNT
+): Promise<AuditChainVerification> {
+  const redis = getRedisClient();
+  let expectedPrevHash = AUDIT_GENESIS_HASH;
+  let entries: Array<[string, string[]]>;
+
+  if (after) {
+    // The anchor entry supplies the hash the first new entry links to
+    const [anchor, ...rest] = await redis.xrange(
+      AUDIT_STREAM_KEY,
+      after,
+      '+',
+      'COUNT',
+      count + 1
+    );
+    if (!anchor || anchor[0] !== after) {
+      return { checked: 0, valid: false, brokenAt: after, cursor: null };
+    }
+    expectedPrevHash = parseEntry(anchor[0], anchor[1]).hash;
+    entries = rest;
+  } else {
+    entries = await redis.xrange(AUDIT_STREAM_KEY, '-', '+', 'COUNT', count);
+  }
+
+  let checked = 0;
+  for (const [id, fieldList] of entries) {
+    const event = parseEntry(id, fieldList);
+    if (
+      event.prevHash !== expectedPrevHash ||
+      event.hash !== hashAuditEntry(event.prevHash, storedFields(event))
+    ) {
+      return { checked, valid: false, brokenAt: id, cursor: null };
+    }
+
+    expectedPrevHash = event.hash;
+    checked++;
+  }
+
+  return {
+    checked,
+    valid: true,
+    brokenAt: null,
+    cursor: entries.length === count ? entries[entries.length - 1][0] : null
+  };
+}
@@ -1,20 +1,125 @@
 /**
  * Chat Data Layer
- * Redis-based storage for chats and messages
+ * Redis-based storage for chats and messages, namespaced by tenant
  */
 
 import { getRedisClient } from './client';
-import { chatKey, chatMessagesKey, userChatsKey } from './keys';
-import type { ChatModel, MessageModel } from '@/types/models';
-import { logError } from '@/utils/logger';
+import {
+  CHAT_MESSAGE_DATA_PREFIX,
+  CHAT_MESSAGE_INDEX_PREFIX,
+  CHAT_MESSAGES_PREFIX,
+  CHAT_PREFIX,
+  TENANT_PREFIX,
+  chatKey,
+  chatMessageDataKey,
+  chatMessageIndexKey,
+  chatMessageStoreKeys,
+  chatMessagesKey,
+  parseTenantKey,
+  userChatsKey
+} from './keys';
+import type { ChatModel, MessageModel, MessagePage } from '@/types/models';
+import { logError, logWarn } from '@/utils/logger';
 import { withTransaction, txSet, txSAdd } from './transactions';
+import { indexMessage, removeMessagesFromIndex } from './search';
+import { deleteChatShareLinks } from './share';
+import { scheduleChatRetention, unscheduleChatRetention } from './retention';
+import { migrateLegacyChat, migrateLegacyUserChats } from './tenant-migration';
 
-const CHAT_TTL = 30 * 24 * 60 * 60; // 30 days
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+
+/** Where a chat lives: its tenant namespace and ID */
+export interface StoredChatRef {
+  tenantId: string;
+  chatId: string;
+}
+
+// Keys under CHAT_PREFIX that hold messages rather than a chat record
+const MESSAGE_KEY_PREFIXES = [
+  CHAT_MESSAGES_PREFIX,
+  CHAT_MESSAGE_DATA_PREFIX,
+  CHAT_MESSAGE_INDEX_PREFIX
+];
+
+function parseMessage(raw: string): MessageModel {
+  const message = JSON.parse(raw);
+  message.createdAt = new Date(message.createdAt);
+  message.updatedAt = new Date(message.updatedAt);
+  return message as MessageModel;
+}
+
+function messageScore(message: MessageModel): number {
+  return new Date(message.createdAt).getTime();
+}
+
+/**
+ * Load messages by id, keeping the order of the ids
+ */
+async function readMessages(
+  tenantId: string | undefined,
+  chatId: string,
+  messageIds: string[]
+): Promise<MessageModel[]> {
+  if (messageIds.length === 0) return [];
+
+  const results = await getRedisClient().hmget(
+    chatMessageDataKey(tenantId, chatId),
+    ...messageIds
+  );
+
+  return results
+    .filter((raw): raw is string => raw !== null)
+    .map(parseMessage);
+}
+
+/**
+ * Move a chat's legacy message list into the data hash and index. Entries
+ * already in the new layout win, so nothing written there since is lost.
+ * Returns the number of messages moved.
+ */
+export async function upgradeLegacyMessages(
+  tenantId: string | undefined,
+  chatId: string
+): Promise<number> {
+  const redis = getRedisClient();
+  const legacy = await redis.lrange(chatMessagesKey(tenantId, chatId), 0, -1);
+  if (legacy.length === 0) return 0;
+
+  const pipeline = redis.multi();
+  legacy.forEach((raw) => {
+    const message = parseMessage(raw);
+    pipeline.hsetnx(chatMessageDataKey(tenantId, chatId), message.id, raw);
+    pipeline.zadd(
+      chatMessageIndexKey(tenantId, chatId),
+      'NX',
+      messageScore(message),
+      message.id
+    );
+  });
+  pipeline.del(chatMessagesKey(tenantId, chatId));
+  await pipeline.exec();
+
+  return legacy.length;
+}
+
+/**
+ * Upgrade a chat still on the legacy list before its messages are touched.
+ * Costs one EXISTS per call; can go once the backfill has run everywhere.
+ */
+async function ensureMessageLayout(
+  tenantId: string | undefined,
+  chatId: string
+): Promise<void> {
+  if (await getRedisClient().exists(chatMessagesKey(tenantId, chatId))) {
+    await upgradeLegacyMessages(tenantId, chatId);
+  }
+}
 
 /**
  * Create a new chat
  */
 export async function createChat(
+  tenantId: string | undefined,
   userId: string,
   title: string = 'New Chat'
 ): Promise<ChatModel> {
@@ -25,29 +130,39 @@ export async function createChat(
     userId,
     title,
     archived: false,
+    tenantId,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
 
-  return await withTransaction(async (ctx) => {
-    // Save chat
-    await txSet(ctx, chatKey(chatId), JSON.stringify(chat), CHAT_TTL);
+  await withTransaction(async (ctx) => {
+    // Save chat; expiry is enforced by the retention sweeper, not a TTL
+    await txSet(ctx, chatKey(tenantId, chatId), JSON.stringify(chat));
 
     // Add to user's chat list
-    await txSAdd(ctx, userChatsKey(userId), chatId);
-
-    return chat;
+    await txSAdd(ctx, userChatsKey(tenantId, userId), chatId);
   });
+
+  await scheduleChatRetention(chat);
+
+  return chat;
 }
 
 /**
  * Get chat by ID
  */
-export async function getChat(chatId: string): Promise<ChatModel | null> {
+export async function getChat(
+  tenantId: string | undefined,
+  chatId: string
+): Promise<ChatModel | null> {
   const redis = getRedisClient();
 
   try {
-    const data = await redis.get(chatKey(chatId));
+    let data = await redis.get(chatKey(tenantId, chatId));
+    // Chats stored before keys were tenant-scoped move on first read
+    if (!data && (await migrateLegacyChat(chatId)) === 'migrated') {
+      data = await redis.get(chatKey(tenantId, chatId));
+    }
     if (!data) return null;
 
     const chat = JSON.parse(data);
@@ -66,26 +181,26 @@ export async function getChat(chatId: string): Promise<ChatModel | null> {
  * Update chat
  */
 export async function updateChat(
+  tenantId: string | undefined,
   chatId: string,
   updates: Partial<ChatModel>
 ): Promise<boolean> {
   const redis = getRedisClient();
 
   try {
-    const chat = await getChat(chatId);
+    const chat = await getChat(tenantId, chatId);
     if (!chat) return false;
 
     const updatedChat = {
       ...chat,
       ...updates,
-      updatedAt: new Date(),
+      updatedAt: updates.updatedAt ?? new Date(),
     };
 
-    await redis.setex(
-      chatKey(chatId),
-      CHAT_TTL,
-      JSON.stringify(updatedChat)
-    );
+    await redis.set(chatKey(tenantId, chatId), JSON.stringify(updatedChat));
+
+    // Activity moves the expiry for "since activity" policies
+    await scheduleChatRetention(updatedChat);
 
     return true;
   } catch (error) {
@@ -97,21 +212,42 @@ export async function updateChat(
 /**
  * Delete chat
  */
-export async function deleteChat(chatId: string): Promise<boolean> {
+export async function deleteChat(
+  tenantId: string | undefined,
+  chatId: string
+): Promise<boolean> {
   const redis = getRedisClient();
 
   try {
-    const chat = await getChat(chatId);
+    const chat = await getChat(tenantId, chatId);
     if (!chat) return false;
 
+    if (chat.legalHold) {
+      logWarn('Refusing to delete chat under legal hold', { chatId });
+      return false;
+    }
+
+    // Remove messages from the owner's search index
+    await ensureMessageLayout(tenantId, chatId);
+    const messages = await redis.hvals(chatMessageDataKey(tenantId, chatId));
+    await removeMessagesFromIndex(
+      chat.userId,
+      messages.map((raw) => JSON.parse(raw))
+    );
+
+    // Public links must stop working with the chat
+    await deleteChatShareLinks(chatId);
+
     // Delete chat
-    await redis.del(chatKey(chatId));
+    await redis.del(chatKey(tenantId, chatId));
 
     // Remove from user's chat list
-    await redis.srem(userChatsKey(chat.userId), chatId);
+    await redis.srem(userChatsKey(tenantId, chat.userId), chatId);
 
     // Delete all messages
-    await redis.del(chatMessagesKey(chatId));
+    await redis.del(...chatMessageStoreKeys(tenantId, chatId));
+
+    await unscheduleChatRetention(tenantId, chatId);
 
     return true;
   } catch (error) {
@@ -120,23 +256,134 @@ export async function deleteChat(chatId: string): Promise<boolean> {
   }
 }
 
+/**
+ * Drop the cached copy of a chat (record and messages) without the
+ * cleanup deleteChat does; used when Redis fronts a durable store
+ */
+export async function evictChat(
+  tenantId: string | undefined,
+  chatId: string
+): Promise<void> {
+  await getRedisClient().del(
+    chatKey(tenantId, chatId),
+    ...chatMessageStoreKeys(tenantId, chatId)
+  );
+}
+
+/**
+ * Split `tenant:{tenantId}:chat:{chatId}` into its parts; null for keys
+ * that hold messages rather than a chat record
+ */
+function parseChatKey(key: string): StoredChatRef | null {
+  const parsed = parseTenantKey(key);
+  if (
+    !parsed ||
+    !parsed.key.startsWith(CHAT_PREFIX) ||
+    MESSAGE_KEY_PREFIXES.some((prefix) => parsed.key.startsWith(prefix))
+  ) {
+    return null;
+  }
+
+  return {
+    tenantId: parsed.tenantId,
+    chatId: parsed.key.slice(CHAT_PREFIX.length)
+  };
+}
+
+/**
+ * Page through every stored chat across tenants; the returned cursor is
+ * '0' once the keyspace has been covered
+ */
+export async function scanChats(
+  cursor: string,
+  count: number
+): Promise<{ cursor: string; chats: StoredChatRef[] }> {
+  const [nextCursor, keys] = await getRedisClient().scan(
+    cursor,
+    'MATCH',
+    `${TENANT_PREFIX}*:${CHAT_PREFIX}*`,
+    'COUNT',
+    count
+  );
+
+  return {
+    cursor: nextCursor,
+    chats: keys
+      .map(parseChatKey)
+      .filter((ref): ref is StoredChatRef => ref !== null)
+  };
+}
+
+/**
+ * Place or lift a legal hold; held chats cannot be deleted or purged
+ */
+export async function setChatLegalHold(
+  tenantId: string | undefined,
+  chatId: string,
+  legalHold: boolean
+): Promise<ChatModel | null> {
+  const redis = getRedisClient();
+
+  try {
+    const chat = await getChat(tenantId, chatId);
+    if (!chat) return null;
+
+    // Not user activity, so updatedAt is left alone
+    const heldChat: ChatModel = { ...chat, legalHold };
+    await redis.set(chatKey(tenantId, chatId), JSON.stringify(heldChat));
+    await scheduleChatRetention(heldChat);
+
+    return heldChat;
+  } catch (error) {
+    logError('Failed to set chat legal hold', error, { chatId });
+    return null;
+  }
+}
+
+/**
+ * Recompute expiries after the user's (or their tenant's) policy changed
+ */
+export async function rescheduleUserChats(
+  tenantId: string | undefined,
+  userId: string
+): Promise<number> {
+  const chats = await getUserChats(tenantId, userId);
+
+  for (const chat of chats) {
+    await scheduleChatRetention(chat);
+  }
+
+  return chats.length;
+}
+
 /**
  * Get user's chats
  */
-export async function getUserChats(userId: string): Promise<ChatModel[]> {
+export async function getUserChats(
+  tenantId: string | undefined,
+  userId: string
+): Promise<ChatModel[]> {
   const redis = getRedisClient();
 
   try {
-    const chatIds = await redis.smembers(userChatsKey(userId));
+    // Chat lists stored before keys were tenant-scoped move on first read;
+    // chats that record no tenant follow their owner into this one
+    await migrateLegacyUserChats(userId, { tenantId });
+
+    const chatIds = await redis.smembers(userChatsKey(tenantId, userId));
     if (chatIds.length === 0) return [];
 
-    const keys = chatIds.map((id) => chatKey(id));
+    const keys = chatIds.map((id) => chatKey(tenantId, id));
     const results = await redis.mget(keys);
 
     const chats: ChatModel[] = [];
+    const staleIds: string[] = [];
 
-    results.forEach((raw) => {
-      if (!raw) return;
+    results.forEach((raw, index) => {
+      if (!raw) {
+        staleIds.push(chatIds[index]);
+        return;
+      }
       try {
         const chat = JSON.parse(raw);
         chat.createdAt = new Date(chat.createdAt);
@@ -147,6 +394,15 @@ export async function getUserChats(userId: string): Promise<ChatModel[]> {
       }
     });
 
+    // Chats written before retention scheduling could expire via their
+    // old TTL and leave the index entry and message list behind
+    if (staleIds.length > 0) {
+      await redis.srem(userChatsKey(tenantId, userId), ...staleIds);
+      await redis.del(
+        ...staleIds.flatMap((id) => chatMessageStoreKeys(tenantId, id))
+      );
+    }
+
     // Sort by updatedAt descending
     chats.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
 
@@ -161,17 +417,38 @@ export async function getUserChats(userId: string): Promise<ChatModel[]> {
  * Add message to chat
  */
 export async function addMessage(
+  tenantId: string | undefined,
   chatId: string,
   message: MessageModel
 ): Promise<boolean> {
   const redis = getRedisClient();
 
   try {
-    // Add message to chat messages list
-    await redis.rpush(chatMessagesKey(chatId), JSON.stringify(message));
+    await ensureMessageLayout(tenantId, chatId);
+
+    // Store the message by id and place it in the chat's order
+    await redis
+      .multi()
+      .hset(
+        chatMessageDataKey(tenantId, chatId),
+        message.id,
+        JSON.stringify(message)
+      )
+      .zadd(
+        chatMessageIndexKey(tenantId, chatId),
+        messageScore(message),
+        message.id
+      )
+      .exec();
 
     // Update chat's updatedAt
-    await updateChat(chatId, { updatedAt: new Date() });
+    await updateChat(tenantId, chatId, { updatedAt: new Date() });
+
+    // Keep the owner's search index in step with the history
+    const chat = await getChat(tenantId, chatId);
+    if (chat) {
+      await indexMessage(chat.userId, message);
+    }
 
     return true;
   } catch (error) {
@@ -180,10 +457,55 @@ export async function addMessage(
   }
 }
 
+/**
+ * Import a chat with its whole history in one transaction
+ */
+export async function importChat(
+  tenantId: string | undefined,
+  chat: ChatModel,
+  messages: MessageModel[]
+): Promise<ChatModel> {
+  const imported = await withTransaction(async (ctx) => {
+    await txSet(ctx, chatKey(tenantId, chat.id), JSON.stringify(chat));
+    await txSAdd(ctx, userChatsKey(tenantId, chat.userId), chat.id);
+
+    // Last, so a failure rolls back the writes above; MULTI leaves either
+    // every message or none
+    if (messages.length > 0) {
+      const pipeline = getRedisClient().multi();
+      messages.forEach((message) => {
+        pipeline.hset(
+          chatMessageDataKey(tenantId, chat.id),
+          message.id,
+          JSON.stringify(message)
+        );
+        pipeline.zadd(
+          chatMessageIndexKey(tenantId, chat.id),
+          messageScore(message),
+          message.id
+        );
+      });
+      await pipeline.exec();
+    }
+
+    return chat;
+  });
+
+  // Indexed after commit; search stays best-effort as in addMessage
+  for (const message of messages) {
+    await indexMessage(chat.userId, message);
+  }
+
+  await scheduleChatRetention(imported);
+
+  return imported;
+}
+
 /**
  * Get messages for a chat
  */
 export async function getChatMessages(
+  tenantId: string | undefined,
   chatId: string,
   offset: number = 0,
   limit: number = 100
@@ -191,28 +513,70 @@ export async function getChatMessages(
   const redis = getRedisClient();
 
   try {
-    const messages = await redis.lrange(
-      chatMessagesKey(chatId),
+    await ensureMessageLayout(tenantId, chatId);
+
+    const messageIds = await redis.zrange(
+      chatMessageIndexKey(tenantId, chatId),
       offset,
       offset + limit - 1
     );
 
-    return messages.map((raw) => {
-      const message = JSON.parse(raw);
-      message.createdAt = new Date(message.createdAt);
-      message.updatedAt = new Date(message.updatedAt);
-      return message as MessageModel;
-    });
+    return await readMessages(tenantId, chatId, messageIds);
   } catch (error) {
     logError('Failed to get chat messages', error, { chatId });
     return [];
   }
 }
 
+/**
+ * Get the page of messages just before `before` (a message id), or the
+ * newest page without it
+ */
+export async function getChatMessagePage(
+  tenantId: string | undefined,
+  chatId: string,
+  before?: string,
+  limit: number = DEFAULT_MESSAGE_PAGE_SIZE
+): Promise<MessagePage> {
+  const redis = getRedisClient();
+
+  try {
+    await ensureMessageLayout(tenantId, chatId);
+
+    let start = 0;
+    if (before) {
+      const rank = await redis.zrevrank(
+        chatMessageIndexKey(tenantId, chatId),
+        before
+      );
+      // Unknown cursor; nothing to page back from
+      if (rank === null) return { messages: [], nextCursor: null };
+      start = rank + 1;
+    }
+
+    // One id past the page tells whether older messages remain
+    const newestFirst = await redis.zrevrange(
+      chatMessageIndexKey(tenantId, chatId),
+      start,
+      start + limit
+    );
+    const pageIds = newestFirst.slice(0, limit).reverse();
+
+    return {
+      messages: await readMessages(tenantId, chatId, pageIds),
+      nextCursor: newestFirst.length > limit ? pageIds[0] : null
+    };
+  } catch (error) {
+    logError('Failed to get chat message page', error, { chatId });
+    return { messages: [], nextCursor: null };
+  }
+}
+
 /**
  * Update message status
  */
 export async function updateMessageStatus(
+  tenantId: string | undefined,
   chatId: string,
   messageId: string,
   status: MessageModel['status']
@@ -220,19 +584,24 @@ export async function updateMessageStatus(
   const redis = getRedisClient();
 
   try {
-    const messages = await redis.lrange(chatMessagesKey(chatId), 0, -1);
-
-    for (let i = 0; i < messages.length; i++) {
-      const message = JSON.parse(messages[i]);
-      if (message.id === messageId) {
-        message.status = status;
-        message.updatedAt = new Date();
-        await redis.lset(chatMessagesKey(chatId), i, JSON.stringify(message));
-        return true;
-      }
-    }
+    await ensureMessageLayout(tenantId, chatId);
 
-    return false;
+    const raw = await redis.hget(
+      chatMessageDataKey(tenantId, chatId),
+      messageId
+    );
+    if (!raw) return false;
+
+    const message = JSON.parse(raw);
+    message.status = status;
+    message.updatedAt = new Date();
+    await redis.hset(
+      chatMessageDataKey(tenantId, chatId),
+      messageId,
+      JSON.stringify(message)
+    );
+
+    return true;
   } catch (error) {
     logError('Failed to update message status', error, { chatId, messageId });
     return false;
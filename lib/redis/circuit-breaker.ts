@@ -4,6 +4,7 @@
  */
 
 import { logError, logWarn, logInfo } from '@/utils/logger';
+import type { CircuitBreakerDTO } from '@/types/models';
 
 const DEFAULT_FAILURE_THRESHOLD = 5;
 const DEFAULT_SUCCESS_THRESHOLD = 2;
@@ -112,6 +113,18 @@ class CircuitBreaker {
     return this.state;
   }
 
+  getSnapshot(): CircuitBreakerDTO {
+    return {
+      name: this.config.name,
+      state: this.state,
+      failureCount: this.failureCount,
+      nextAttemptAt:
+        this.state === CircuitState.OPEN
+          ? new Date(this.nextAttempt).toISOString()
+          : null,
+    };
+  }
+
   reset() {
     this.state = CircuitState.CLOSED;
     this.failureCount = 0;
@@ -2,7 +2,11 @@ export const SESSION_PREFIX = 'session:';
 export const USER_SESSIONS_PREFIX = 'user:';
 export const CHAT_PREFIX = 'chat:';
 export const CHAT_MESSAGES_PREFIX = 'chat:messages:';
+export const CHAT_MESSAGE_DATA_PREFIX = 'chat:message-data:';
+export const CHAT_MESSAGE_INDEX_PREFIX = 'chat:message-index:';
 export const USER_CHATS_PREFIX = 'user:chats:';
+export const PERSONA_PREFIX = 'persona:';
+export const USER_PERSONAS_PREFIX = 'user:personas:';
 
 export function sessionKey(id: string): string {
   return `${SESSION_PREFIX}${id}`;
@@ -12,14 +16,183 @@ export function userSessionsKey(userId: string): string {
   return `${USER_SESSIONS_PREFIX}${userId}:sessions`;
 }
 
-export function chatKey(id: string): string {
-  return `${CHAT_PREFIX}${id}`;
+/**
+ * Chats, usage counters and rate limits live under `tenant:{tenantId}:`.
+ * Sessions without a tenant (bypass and test auth) share the default one.
+ * The unprefixed builders' layouts are kept in the prefixes above for the
+ * migration (lib/redis/tenant-migration.ts).
+ */
+export const TENANT_PREFIX = 'tenant:';
+export const DEFAULT_TENANT_ID = 'default';
+
+export function tenantKeyPrefix(tenantId?: string | null): string {
+  return `${TENANT_PREFIX}${tenantId || DEFAULT_TENANT_ID}:`;
+}
+
+/**
+ * Split a tenant-scoped key into its tenant and the key within the tenant
+ */
+export function parseTenantKey(
+  key: string,
+): { tenantId: string; key: string } | null {
+  if (!key.startsWith(TENANT_PREFIX)) return null;
+
+  const rest = key.slice(TENANT_PREFIX.length);
+  const separator = rest.indexOf(':');
+  if (separator <= 0) return null;
+
+  return { tenantId: rest.slice(0, separator), key: rest.slice(separator + 1) };
+}
+
+export function chatKey(tenantId: string | undefined, id: string): string {
+  return `${tenantKeyPrefix(tenantId)}${CHAT_PREFIX}${id}`;
+}
+
+/**
+ * Legacy message list; superseded by the data hash and index below and
+ * only read to backfill them
+ */
+export function chatMessagesKey(
+  tenantId: string | undefined,
+  chatId: string,
+): string {
+  return `${tenantKeyPrefix(tenantId)}${CHAT_MESSAGES_PREFIX}${chatId}`;
+}
+
+/** Hash of message id -> serialized message */
+export function chatMessageDataKey(
+  tenantId: string | undefined,
+  chatId: string,
+): string {
+  return `${tenantKeyPrefix(tenantId)}${CHAT_MESSAGE_DATA_PREFIX}${chatId}`;
+}
+
+/** Sorted set of message ids scored by createdAt */
+export function chatMessageIndexKey(
+  tenantId: string | undefined,
+  chatId: string,
+): string {
+  return `${tenantKeyPrefix(tenantId)}${CHAT_MESSAGE_INDEX_PREFIX}${chatId}`;
+}
+
+/** Every key holding a chat's messages, in either layout */
+export function chatMessageStoreKeys(
+  tenantId: string | undefined,
+  chatId: string,
+): string[] {
+  return [
+    chatMessageDataKey(tenantId, chatId),
+    chatMessageIndexKey(tenantId, chatId),
+    chatMessagesKey(tenantId, chatId),
+  ];
+}
+
+export function userChatsKey(
+  tenantId: string | undefined,
+  userId: string,
+): string {
+  return `${tenantKeyPrefix(tenantId)}${USER_CHATS_PREFIX}${userId}`;
+}
+
+/** Rate limit and lockout identifier for a signed-in user */
+export function userRateLimitIdentifier(
+  tenantId: string | undefined,
+  userId: string,
+): string {
+  return `${tenantKeyPrefix(tenantId)}user:${userId}`;
+}
+
+export function personaKey(id: string): string {
+  return `${PERSONA_PREFIX}${id}`;
 }
 
-export function chatMessagesKey(chatId: string): string {
-  return `${CHAT_MESSAGES_PREFIX}${chatId}`;
+export function userPersonasKey(userId: string): string {
+  return `${USER_PERSONAS_PREFIX}${userId}`;
 }
 
-export function userChatsKey(userId: string): string {
-  return `${USER_CHATS_PREFIX}${userId}`;
+export const STREAM_PREFIX = 'stream:';
+
+export function streamKey(generationId: string): string {
+  return `${STREAM_PREFIX}${generationId}`;
+}
+
+export function streamEventsKey(generationId: string): string {
+  return `${STREAM_PREFIX}${generationId}:events`;
 }
+
+export const SEARCH_PREFIX = 'search:';
+
+export function searchTermKey(userId: string, term: string): string {
+  return `${SEARCH_PREFIX}user:${userId}:term:${term}`;
+}
+
+export function searchDocKey(messageId: string): string {
+  return `${SEARCH_PREFIX}doc:${messageId}`;
+}
+
+/** Short-lived intersection of one search's term postings */
+export function searchMatchesKey(userId: string, searchId: string): string {
+  return `${SEARCH_PREFIX}user:${userId}:matches:${searchId}`;
+}
+
+export const SHARE_PREFIX = 'share:';
+
+export function shareKey(token: string): string {
+  return `${SHARE_PREFIX}${token}`;
+}
+
+export function chatSharesKey(chatId: string): string {
+  return `${SHARE_PREFIX}chat:${chatId}`;
+}
+
+export const RETENTION_PREFIX = 'retention:';
+export const RETENTION_SCHEDULE_KEY = `${RETENTION_PREFIX}schedule`;
+
+export function userRetentionPolicyKey(userId: string): string {
+  return `${RETENTION_PREFIX}policy:user:${userId}`;
+}
+
+export function tenantRetentionPolicyKey(tenantId: string): string {
+  return `${RETENTION_PREFIX}policy:tenant:${tenantId}`;
+}
+
+export function tenantUsersKey(tenantId: string): string {
+  return `${RETENTION_PREFIX}tenant:${tenantId}:users`;
+}
+
+export const USAGE_PREFIX = 'usage:';
+
+/** Hash of usage counters for one user or tenant in one day/month bucket */
+export function usageKey(
+  tenantId: string | undefined,
+  scope: 'user' | 'tenant',
+  id: string,
+  bucket: string,
+): string {
+  return `${tenantKeyPrefix(tenantId)}${USAGE_PREFIX}${scope}:${id}:${bucket}`;
+}
+
+/** Epoch ms of the last forced sign-out; tokens issued before it are refused */
+export function userSignedOutAtKey(userId: string): string {
+  return `${USER_SESSIONS_PREFIX}${userId}:signed-out-at`;
+}
+
+export const USERS_PREFIX = 'users:';
+/** Sorted set of the tenant's user IDs scored by when they were last seen */
+export function userDirectoryKey(tenantId: string | undefined): string {
+  return `${tenantKeyPrefix(tenantId)}${USERS_PREFIX}directory`;
+}
+
+export function userProfileKey(userId: string): string {
+  return `${USERS_PREFIX}profile:${userId}`;
+}
+
+export function userSuspensionKey(userId: string): string {
+  return `${USERS_PREFIX}suspension:${userId}`;
+}
+
+export const AUDIT_PREFIX = 'audit:';
+/** Append-only stream of audit events */
+export const AUDIT_STREAM_KEY = `${AUDIT_PREFIX}events`;
+/** Hash of the newest audit event; the next one links to it */
+export const AUDIT_HEAD_KEY = `${AUDIT_PREFIX}head`;
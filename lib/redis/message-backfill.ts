@@ -0,0 +1,69 @@
+/**
+ * Message Store Backfill
+ * Moves chats still holding their messages in the legacy list into the
+ * data hash and sorted-set index, one SCAN page per call. Chats are also
+ * upgraded lazily when their messages are next touched; the backfill
+ * covers the ones nobody opens. Only tenant-scoped keys are visited, so
+ * run the tenant migration first.
+ */
+
+import { getRedisClient } from './client';
+import { CHAT_MESSAGES_PREFIX, TENANT_PREFIX, parseTenantKey } from './keys';
+import { upgradeLegacyMessages } from './chat';
+import { logError, logInfo } from '@/utils/logger';
+
+const DEFAULT_SCAN_COUNT = 100;
+
+export interface MessageBackfillBatch {
+  /** Pass back to continue; '0' when every legacy list has been visited */
+  cursor: string;
+  upgradedChats: number;
+  upgradedMessages: number;
+  failedChatIds: string[];
+}
+
+export async function backfillMessageStore(
+  cursor: string = '0',
+  count: number = DEFAULT_SCAN_COUNT
+): Promise<MessageBackfillBatch> {
+  const [nextCursor, keys] = await getRedisClient().scan(
+    cursor,
+    'MATCH',
+    `${TENANT_PREFIX}*:${CHAT_MESSAGES_PREFIX}*`,
+    'COUNT',
+    count
+  );
+  const batch: MessageBackfillBatch = {
+    cursor: nextCursor,
+    upgradedChats: 0,
+    upgradedMessages: 0,
+    failedChatIds: []
+  };
+
+  for (const key of keys) {
+    const parsed = parseTenantKey(key);
+    if (!parsed) continue;
+    const { tenantId } = parsed;
+    const chatId = parsed.key.slice(CHAT_MESSAGES_PREFIX.length);
+
+    try {
+      const moved = await upgradeLegacyMessages(tenantId, chatId);
+      if (moved > 0) {
+        batch.upgradedChats++;
+        batch.upgradedMessages += moved;
+      }
+    } catch (error) {
+      logError('Failed to backfill chat messages', error, { chatId, tenantId });
+      batch.failedChatIds.push(chatId);
+    }
+  }
+
+  logInfo('Message backfill batch finished', {
+    cursor: batch.cursor,
+    upgradedChats: batch.upgradedChats,
+    upgradedMessages: batch.upgradedMessages,
+    failedChats: batch.failedChatIds.length
+  });
+
+  return batch;
+}
@@ -0,0 +1,116 @@
+/**
+ * Persona Data Layer
+ * Redis-based storage for a user's reusable system prompt presets
+ */
+
+import { getRedisClient } from './client';
+import { personaKey, userPersonasKey } from './keys';
+import type { PersonaModel } from '@/types/models';
+import { logError } from '@/utils/logger';
+import { withTransaction, txSet, txSAdd } from './transactions';
+
+/**
+ * Create a persona preset
+ */
+export async function createPersona(
+  userId: string,
+  name: string,
+  systemPrompt: string
+): Promise<PersonaModel> {
+  const personaId = `persona_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+  const persona: PersonaModel = {
+    id: personaId,
+    userId,
+    name,
+    systemPrompt,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  return await withTransaction(async (ctx) => {
+    await txSet(ctx, personaKey(personaId), JSON.stringify(persona));
+    await txSAdd(ctx, userPersonasKey(userId), personaId);
+    return persona;
+  });
+}
+
+/**
+ * Get persona by ID
+ */
+export async function getPersona(
+  personaId: string
+): Promise<PersonaModel | null> {
+  const redis = getRedisClient();
+
+  try {
+    const data = await redis.get(personaKey(personaId));
+    if (!data) return null;
+
+    const persona = JSON.parse(data);
+    persona.createdAt = new Date(persona.createdAt);
+    persona.updatedAt = new Date(persona.updatedAt);
+
+    return persona as PersonaModel;
+  } catch (error) {
+    logError('Failed to get persona', error, { personaId });
+    return null;
+  }
+}
+
+/**
+ * Delete persona
+ */
+export async function deletePersona(personaId: string): Promise<boolean> {
+  const redis = getRedisClient();
+
+  try {
+    const persona = await getPersona(personaId);
+    if (!persona) return false;
+
+    await redis.del(personaKey(personaId));
+    await redis.srem(userPersonasKey(persona.userId), personaId);
+
+    return true;
+  } catch (error) {
+    logError('Failed to delete persona', error, { personaId });
+    return false;
+  }
+}
+
+/**
+ * Get user's personas, sorted by name
+ */
+export async function getUserPersonas(
+  userId: string
+): Promise<PersonaModel[]> {
+  const redis = getRedisClient();
+
+  try {
+    const personaIds = await redis.smembers(userPersonasKey(userId));
+    if (personaIds.length === 0) return [];
+
+    const results = await redis.mget(personaIds.map((id) => personaKey(id)));
+
+    const personas: PersonaModel[] = [];
+
+    results.forEach((raw) => {
+      if (!raw) return;
+      try {
+        const persona = JSON.parse(raw);
+        persona.createdAt = new Date(persona.createdAt);
+        persona.updatedAt = new Date(persona.updatedAt);
+        personas.push(persona);
+      } catch {
+        // Skip invalid entries
+      }
+    });
+
+    personas.sort((a, b) => a.name.localeCompare(b.name));
+
+    return personas;
+  } catch (error) {
+    logError('Failed to get user personas', error, { userId });
+    return [];
+  }
+}
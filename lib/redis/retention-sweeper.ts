@@ -0,0 +1,89 @@
+/**
+ * Retention Sweeper
+ * Purges chats whose scheduled expiry has passed. Each due chat is
+ * re-checked against the current policy and legal hold before it is
+ * deleted, so policy changes never purge early.
+ */
+
+import { getRedisClient } from './client';
+import { chatMessageStoreKeys } from './keys';
+import {
+  getDueChats,
+  getEffectiveRetentionPolicy,
+  scheduleChatRetention,
+  unscheduleChatRetention
+} from './retention';
+import { computeChatExpiry } from '@/lib/chat/retention';
+import { getChatRepository } from '@/lib/chat/repository';
+import { logError, logInfo } from '@/utils/logger';
+
+const DEFAULT_SWEEP_BATCH_SIZE = 100;
+
+export interface RetentionSweepResult {
+  scanned: number;
+  purged: number;
+  rescheduled: number;
+  failed: number;
+  /** More chats were due than fit in the batch */
+  hasMore: boolean;
+}
+
+/**
+ * Purge one batch of due chats: the chat, its messages, its entry in the
+ * user's chat set, search index entries and share links. Deletes go
+ * through the chat repository so the durable store is purged too.
+ */
+export async function sweepExpiredChats(
+  now: Date = new Date(),
+  batchSize: number = DEFAULT_SWEEP_BATCH_SIZE
+): Promise<RetentionSweepResult> {
+  const dueChats = await getDueChats(now, batchSize);
+  const result: RetentionSweepResult = {
+    scanned: dueChats.length,
+    purged: 0,
+    rescheduled: 0,
+    failed: 0,
+    hasMore: dueChats.length === batchSize
+  };
+
+  for (const { tenantId, chatId } of dueChats) {
+    try {
+      const chatRepository = getChatRepository(tenantId);
+      const chat = await chatRepository.getChat(chatId);
+
+      if (!chat) {
+        // Record already gone; drop whatever it left behind
+        await getRedisClient().del(...chatMessageStoreKeys(tenantId, chatId));
+        await unscheduleChatRetention(tenantId, chatId);
+        result.purged++;
+        continue;
+      }
+
+      const policy = await getEffectiveRetentionPolicy(
+        chat.userId,
+        chat.tenantId
+      );
+      const expiresAt = computeChatExpiry(chat, policy);
+
+      // Held, kept forever or given more time since it was scheduled
+      if (!expiresAt || expiresAt.getTime() > now.getTime()) {
+        await scheduleChatRetention(chat);
+        result.rescheduled++;
+        continue;
+      }
+
+      if (await chatRepository.deleteChat(chatId)) {
+        result.purged++;
+      } else {
+        result.failed++;
+      }
+    } catch (error) {
+      logError('Failed to sweep chat', error, { chatId, tenantId });
+      result.failed++;
+    }
+  }
+
+  logInfo('Retention sweep finished', { ...result });
+
+  return result;
+}
@@ -0,0 +1,188 @@
+/**
+ * Retention Data Layer
+ * Per-user and per-tenant retention policies, plus the schedule (a sorted
+ * set of `{tenantId}:{chatId}` members scored by expiry time) that the
+ * sweeper drains
+ */
+
+import { getRedisClient } from './client';
+import {
+  DEFAULT_TENANT_ID,
+  RETENTION_SCHEDULE_KEY,
+  tenantRetentionPolicyKey,
+  tenantUsersKey,
+  userRetentionPolicyKey
+} from './keys';
+import type { ChatModel, RetentionPolicy } from '@/types/models';
+import { logError } from '@/utils/logger';
+import {
+  computeChatExpiry,
+  resolveRetentionPolicy
+} from '@/lib/chat/retention';
+
+/** A chat on the retention schedule */
+export interface ScheduledChat {
+  tenantId: string;
+  chatId: string;
+}
+
+export function retentionScheduleMember(
+  tenantId: string | undefined,
+  chatId: string
+): string {
+  return `${tenantId || DEFAULT_TENANT_ID}:${chatId}`;
+}
+
+/**
+ * Members written before the schedule was tenant-scoped are bare chat IDs;
+ * they belong to the default tenant until the migration rewrites them
+ */
+function parseScheduleMember(member: string): ScheduledChat {
+  const separator = member.indexOf(':');
+  return separator === -1
+    ? { tenantId: DEFAULT_TENANT_ID, chatId: member }
+    : {
+        tenantId: member.slice(0, separator),
+        chatId: member.slice(separator + 1)
+      };
+}
+
+async function readPolicy(key: string): Promise<RetentionPolicy | null> {
+  const data = await getRedisClient().get(key);
+  return data ? (JSON.parse(data) as RetentionPolicy) : null;
+}
+
+async function writePolicy(
+  key: string,
+  policy: RetentionPolicy | null
+): Promise<void> {
+  const redis = getRedisClient();
+
+  if (policy) {
+    await redis.set(key, JSON.stringify(policy));
+  } else {
+    await redis.del(key);
+  }
+}
+
+/**
+ * Get the user's own policy (null when they follow the tenant default)
+ */
+export async function getUserRetentionPolicy(
+  userId: string
+): Promise<RetentionPolicy | null> {
+  return readPolicy(userRetentionPolicyKey(userId));
+}
+
+/**
+ * Set or clear (null) the user's policy
+ */
+export async function setUserRetentionPolicy(
+  userId: string,
+  policy: RetentionPolicy | null
+): Promise<void> {
+  await writePolicy(userRetentionPolicyKey(userId), policy);
+}
+
+export async function getTenantRetentionPolicy(
+  tenantId: string
+): Promise<RetentionPolicy | null> {
+  return readPolicy(tenantRetentionPolicyKey(tenantId));
+}
+
+/**
+ * Set or clear (null) the tenant-wide policy
+ */
+export async function setTenantRetentionPolicy(
+  tenantId: string,
+  policy: RetentionPolicy | null
+): Promise<void> {
+  await writePolicy(tenantRetentionPolicyKey(tenantId), policy);
+}
+
+/**
+ * Users with chats in the tenant, so a tenant policy change can be re-applied
+ */
+export async function getTenantUserIds(tenantId: string): Promise<string[]> {
+  return getRedisClient().smembers(tenantUsersKey(tenantId));
+}
+
+/**
+ * Policy in force for a user's chats
+ */
+export async function getEffectiveRetentionPolicy(
+  userId: string,
+  tenantId?: string
+): Promise<RetentionPolicy> {
+  const [userPolicy, tenantPolicy] = await Promise.all([
+    getUserRetentionPolicy(userId),
+    tenantId ? getTenantRetentionPolicy(tenantId) : Promise.resolve(null)
+  ]);
+
+  return resolveRetentionPolicy(userPolicy, tenantPolicy);
+}
+
+/**
+ * (Re)compute when the chat expires and record it in the schedule.
+ * Chats kept forever or under legal hold are left off the schedule.
+ */
+export async function scheduleChatRetention(chat: ChatModel): Promise<boolean> {
+  const redis = getRedisClient();
+  const member = retentionScheduleMember(chat.tenantId, chat.id);
+
+  try {
+    const policy = await getEffectiveRetentionPolicy(
+      chat.userId,
+      chat.tenantId
+    );
+    const expiresAt = computeChatExpiry(chat, policy);
+
+    if (expiresAt) {
+      await redis.zadd(RETENTION_SCHEDULE_KEY, expiresAt.getTime(), member);
+    } else {
+      await redis.zrem(RETENTION_SCHEDULE_KEY, member);
+    }
+
+    if (chat.tenantId) {
+      await redis.sadd(tenantUsersKey(chat.tenantId), chat.userId);
+    }
+
+    return true;
+  } catch (error) {
+    logError('Failed to schedule chat retention', error, { chatId: chat.id });
+    return false;
+  }
+}
+
+/**
+ * Also drops a bare legacy member for the chat, should one remain
+ */
+export async function unscheduleChatRetention(
+  tenantId: string | undefined,
+  chatId: string
+): Promise<void> {
+  await getRedisClient().zrem(
+    RETENTION_SCHEDULE_KEY,
+    retentionScheduleMember(tenantId, chatId),
+    chatId
+  );
+}
+
+/**
+ * Chats whose scheduled expiry is at or before `now`, oldest first
+ */
+export async function getDueChats(
+  now: Date,
+  limit: number
+): Promise<ScheduledChat[]> {
+  const members = await getRedisClient().zrangebyscore(
+    RETENTION_SCHEDULE_KEY,
+    '-inf',
+    now.getTime(),
+    'LIMIT',
+    0,
+    limit
+  );
+
+  return members.map(parseScheduleMember);
+}
@@ -0,0 +1,246 @@
+/**
+ * Search Index Data Layer
+ * Per-user inverted index over message content, kept up to date by addMessage
+ *
+ * Each term maps to a sorted set of message IDs scored by creation time, so
+ * date filters are range queries. A small document per message holds what
+ * results need (chat, role, content) without loading whole chats.
+ */
+
+import { randomUUID } from 'crypto';
+import { getRedisClient } from './client';
+import { searchDocKey, searchMatchesKey, searchTermKey } from './keys';
+import { buildSearchSnippet, tokenizeSearchText } from '@/lib/chat/search';
+import type { ChatRepository } from '@/lib/chat/repository/types';
+import type { MessageModel, MessageSearchResultDTO } from '@/types/models';
+import { logError } from '@/utils/logger';
+
+const MAX_INDEXED_TERMS = 500;
+// Multi-term searches intersect into a key that outlives a crashed request
+// only briefly
+const MATCHES_TTL_SECONDS = 60;
+const SCAN_BATCH_SIZE = 200;
+// Bounds the work of one search when a query matches very many messages
+const MAX_SEARCH_SCAN = 5000;
+
+interface SearchDocument {
+  messageId: string;
+  chatId: string;
+  role: MessageModel['role'];
+  content: string;
+  createdAt: string;
+}
+
+export interface SearchMessagesOptions {
+  query: string;
+  role?: MessageModel['role'];
+  from?: Date;
+  to?: Date;
+  offset: number;
+  limit: number;
+}
+
+export interface SearchMessagesResult {
+  results: MessageSearchResultDTO[];
+  /** Matches found; only a lower bound when `truncated` */
+  total: number;
+  /** True when the search stopped before every match was checked */
+  truncated: boolean;
+}
+
+const NO_RESULTS: SearchMessagesResult = {
+  results: [],
+  total: 0,
+  truncated: false
+};
+
+/**
+ * Add a message to its owner's index; failures never block persistence
+ */
+export async function indexMessage(
+  userId: string,
+  message: MessageModel
+): Promise<boolean> {
+  const terms = tokenizeSearchText(message.content).slice(0, MAX_INDEXED_TERMS);
+  if (terms.length === 0) return true;
+
+  const redis = getRedisClient();
+  const createdAt = new Date(message.createdAt);
+  const doc: SearchDocument = {
+    messageId: message.id,
+    chatId: message.chatId,
+    role: message.role,
+    content: message.content,
+    createdAt: createdAt.toISOString()
+  };
+
+  try {
+    const pipeline = redis
+      .multi()
+      .set(searchDocKey(message.id), JSON.stringify(doc));
+    terms.forEach((term) => {
+      pipeline.zadd(
+        searchTermKey(userId, term),
+        createdAt.getTime(),
+        message.id
+      );
+    });
+    await pipeline.exec();
+    return true;
+  } catch (error) {
+    logError('Failed to index message', error, { messageId: message.id });
+    return false;
+  }
+}
+
+/**
+ * Drop messages from their owner's index, e.g. when a chat is deleted
+ */
+export async function removeMessagesFromIndex(
+  userId: string,
+  messages: Array<Pick<MessageModel, 'id' | 'content'>>
+): Promise<boolean> {
+  if (messages.length === 0) return true;
+
+  const redis = getRedisClient();
+
+  try {
+    const pipeline = redis.multi();
+    messages.forEach((message) => {
+      pipeline.del(searchDocKey(message.id));
+      tokenizeSearchText(message.content)
+        .slice(0, MAX_INDEXED_TERMS)
+        .forEach((term) => {
+          pipeline.zrem(searchTermKey(userId, term), message.id);
+        });
+    });
+    await pipeline.exec();
+    return true;
+  } catch (error) {
+    logError('Failed to remove messages from index', error, { userId });
+    return false;
+  }
+}
+
+/**
+ * Titles of the chats the user owns, read through the chat repository so
+ * chats that are not cached still resolve. Chats already looked up are
+ * skipped; those that are gone or not the user's map to null.
+ */
+async function resolveChatTitles(
+  chats: Pick<ChatRepository, 'getChat'>,
+  userId: string,
+  chatIds: string[],
+  titles: Map<string, string | null>
+): Promise<void> {
+  const unresolved = chatIds.filter((chatId) => !titles.has(chatId));
+  const resolved = await Promise.all(
+    unresolved.map((chatId) => chats.getChat(chatId))
+  );
+  resolved.forEach((chat, index) => {
+    titles.set(
+      unresolved[index],
+      chat && chat.userId === userId ? chat.title : null
+    );
+  });
+}
+
+/**
+ * Find messages containing every query term, newest first
+ * The term postings are intersected in Redis, so older matches are as
+ * reachable as recent ones.
+ */
+export async function searchMessages(
+  chats: Pick<ChatRepository, 'getChat'>,
+  userId: string,
+  options: SearchMessagesOptions
+): Promise<SearchMessagesResult> {
+  const terms = tokenizeSearchText(options.query);
+  if (terms.length === 0) return NO_RESULTS;
+
+  const redis = getRedisClient();
+  const min = options.from ? options.from.getTime() : '-inf';
+  const max = options.to ? options.to.getTime() : '+inf';
+  const termKeys = terms.map((term) => searchTermKey(userId, term));
+  // A single term's postings are already the matches
+  const matchesKey =
+    termKeys.length > 1 ? searchMatchesKey(userId, randomUUID()) : termKeys[0];
+
+  try {
+    if (matchesKey !== termKeys[0]) {
+      // Scores are creation times, the same in every posting
+      await redis
+        .multi()
+        .zinterstore(
+          matchesKey,
+          termKeys.length,
+          ...termKeys,
+          'AGGREGATE',
+          'MAX'
+        )
+        .expire(matchesKey, MATCHES_TTL_SECONDS)
+        .exec();
+    }
+
+    const chatTitles = new Map<string, string | null>();
+    const matches: SearchDocument[] = [];
+    let scanned = 0;
+    let truncated = false;
+
+    while (true) {
+      if (scanned >= MAX_SEARCH_SCAN) {
+        truncated = true;
+        break;
+      }
+
+      const ids = await redis.zrevrangebyscore(
+        matchesKey,
+        max,
+        min,
+        'LIMIT',
+        scanned,
+        SCAN_BATCH_SIZE
+      );
+      scanned += ids.length;
+      if (ids.length === 0) break;
+
+      const docs = (await redis.mget(ids.map(searchDocKey)))
+        .filter((raw): raw is string => Boolean(raw))
+        .map((raw) => JSON.parse(raw) as SearchDocument)
+        .filter((doc) => !options.role || doc.role === options.role);
+
+      // Skip chats that are gone or no longer belong to the user
+      await resolveChatTitles(
+        chats,
+        userId,
+        Array.from(new Set(docs.map((doc) => doc.chatId))),
+        chatTitles
+      );
+      matches.push(...docs.filter((doc) => chatTitles.get(doc.chatId)));
+
+      if (ids.length < SCAN_BATCH_SIZE) break;
+    }
+
+    const page = matches.slice(options.offset, options.offset + options.limit);
+
+    return {
+      total: matches.length,
+      truncated,
+      results: page.map((doc) => ({
+        messageId: doc.messageId,
+        chatId: doc.chatId,
+        chatTitle: chatTitles.get(doc.chatId) ?? '',
+        role: doc.role,
+        createdAt: doc.createdAt,
+        ...buildSearchSnippet(doc.content, terms)
+      }))
+    };
+  } catch (error) {
+    logError('Failed to search messages', error, { userId });
+    return NO_RESULTS;
+  } finally {
+    if (matchesKey !== termKeys[0]) {
+      await redis.del(matchesKey).catch(() => undefined);
+    }
+  }
+}
@@ -6,13 +6,20 @@
 import { randomBytes } from 'crypto';
 import type { SessionModel, SessionData } from '@/types/models';
 import { getRedisClient } from '@/lib/redis/client';
+import { appendAuditEvent } from '@/lib/redis/audit';
 import { RedisUnavailableError } from '@/lib/redis/errors';
 import { logError } from '@/utils/logger';
-import { sessionKey, userSessionsKey } from '@/lib/redis/keys';
+import {
+  sessionKey,
+  userSessionsKey,
+  userSignedOutAtKey,
+} from '@/lib/redis/keys';
 import { hydrateSession } from '@/lib/session/hydrator';
 import { MILLISECONDS_PER_SECOND, RANDOM_BYTES_SIZE } from '@/lib/constants/common';
 
 const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Outlives any access token issued before a forced sign-out
+const SIGNED_OUT_MARKER_TTL_SECONDS = 24 * 60 * 60;
 
 /**
  * Generate a secure session ID
@@ -184,6 +191,15 @@ export async function rotateSession(
     // Delete old session
     await deleteSession(oldSessionId);
 
+    const { ipAddress, tenantId } = oldSession.data;
+    await appendAuditEvent({
+      type: 'session.rotated',
+      actorId: oldSession.userId,
+      tenantId: typeof tenantId === 'string' ? tenantId : null,
+      ip: typeof ipAddress === 'string' ? ipAddress : null,
+      details: {},
+    });
+
     return newSession;
   } catch (error) {
     logError('Failed to rotate session', error, { oldSessionId });
@@ -313,3 +329,35 @@ export async function deleteUserSessions(userId: string): Promise<number> {
     }
   }
 }
+
+/**
+ * Force a user to sign in again: drop their sessions and refuse any access
+ * token issued up to now, so the JWT fallback cannot recreate a session
+ */
+export async function revokeUserSessions(
+  userId: string,
+  now: Date = new Date(),
+): Promise<number> {
+  await getRedisClient().setex(
+    userSignedOutAtKey(userId),
+    SIGNED_OUT_MARKER_TTL_SECONDS,
+    String(now.getTime()),
+  );
+
+  return deleteUserSessions(userId);
+}
+
+/**
+ * Whether a token issued at `issuedAt` (JWT iat, in seconds) predates the
+ * user's last forced sign-out
+ */
+export async function isTokenRevoked(
+  userId: string,
+  issuedAt: number,
+): Promise<boolean> {
+  const signedOutAt = await getRedisClient().get(userSignedOutAtKey(userId));
+  return (
+    signedOutAt !== null &&
+    issuedAt * MILLISECONDS_PER_SECOND <= Number(signedOutAt)
+  );
+}
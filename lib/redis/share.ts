@@ -0,0 +1,156 @@
+/**
+ * Share Link Data Layer
+ * Revocable, optionally expiring tokens that expose one chat read-only
+ *
+ * Expiring links carry a matching Redis TTL, so they disappear on their own;
+ * the per-chat set lets owners list and revoke their links.
+ */
+
+import { randomBytes } from 'crypto';
+import { getRedisClient } from './client';
+import { chatSharesKey, shareKey } from './keys';
+import type { ChatModel, ShareLinkModel } from '@/types/models';
+import { logError } from '@/utils/logger';
+import { withTransaction, txSet, txSAdd } from './transactions';
+import {
+  MILLISECONDS_PER_SECOND,
+  RANDOM_BYTES_SIZE
+} from '@/lib/constants/common';
+
+function parseShareLink(raw: string): ShareLinkModel {
+  const link = JSON.parse(raw);
+  link.createdAt = new Date(link.createdAt);
+  link.expiresAt = link.expiresAt ? new Date(link.expiresAt) : null;
+  return link as ShareLinkModel;
+}
+
+function isExpired(link: ShareLinkModel): boolean {
+  return link.expiresAt !== null && link.expiresAt.getTime() <= Date.now();
+}
+
+/**
+ * Mint a share link; omit `expiresInSeconds` for a link that lasts until
+ * revoked or the chat is deleted
+ */
+export async function createShareLink(
+  chat: Pick<ChatModel, 'id' | 'userId' | 'tenantId'>,
+  expiresInSeconds?: number
+): Promise<ShareLinkModel> {
+  const createdAt = new Date();
+  const link: ShareLinkModel = {
+    // SECURITY: Unguessable bearer token; it is the only credential
+    token: randomBytes(RANDOM_BYTES_SIZE).toString('base64url'),
+    chatId: chat.id,
+    userId: chat.userId,
+    // Tells the public share route which tenant's keys hold the chat
+    tenantId: chat.tenantId,
+    createdAt,
+    expiresAt: expiresInSeconds
+      ? new Date(
+          createdAt.getTime() + expiresInSeconds * MILLISECONDS_PER_SECOND
+        )
+      : null
+  };
+
+  return await withTransaction(async (ctx) => {
+    await txSet(
+      ctx,
+      shareKey(link.token),
+      JSON.stringify(link),
+      expiresInSeconds
+    );
+    await txSAdd(ctx, chatSharesKey(chat.id), link.token);
+    return link;
+  });
+}
+
+/**
+ * Resolve a token; revoked, expired and unknown tokens all return null
+ */
+export async function getShareLink(
+  token: string
+): Promise<ShareLinkModel | null> {
+  const redis = getRedisClient();
+
+  try {
+    const data = await redis.get(shareKey(token));
+    if (!data) return null;
+
+    const link = parseShareLink(data);
+    return isExpired(link) ? null : link;
+  } catch (error) {
+    logError('Failed to get share link', error);
+    return null;
+  }
+}
+
+/**
+ * Active share links for a chat, newest first
+ */
+export async function getChatShareLinks(
+  chatId: string
+): Promise<ShareLinkModel[]> {
+  const redis = getRedisClient();
+
+  try {
+    const tokens = await redis.smembers(chatSharesKey(chatId));
+    if (tokens.length === 0) return [];
+
+    const results = await redis.mget(tokens.map(shareKey));
+    const links: ShareLinkModel[] = [];
+    const staleTokens: string[] = [];
+
+    results.forEach((raw, index) => {
+      const link = raw ? parseShareLink(raw) : null;
+      if (link && !isExpired(link)) {
+        links.push(link);
+      } else {
+        staleTokens.push(tokens[index]);
+      }
+    });
+
+    // Expired links vanish via TTL; drop them from the chat's set too
+    if (staleTokens.length > 0) {
+      await redis.srem(chatSharesKey(chatId), ...staleTokens);
+    }
+
+    return links.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch (error) {
+    logError('Failed to get chat share links', error, { chatId });
+    return [];
+  }
+}
+
+/**
+ * Revoke a share link
+ */
+export async function revokeShareLink(
+  chatId: string,
+  token: string
+): Promise<boolean> {
+  const redis = getRedisClient();
+
+  try {
+    const removed = await redis.srem(chatSharesKey(chatId), token);
+    if (removed === 0) return false;
+
+    await redis.del(shareKey(token));
+    return true;
+  } catch (error) {
+    logError('Failed to revoke share link', error, { chatId });
+    return false;
+  }
+}
+
+/**
+ * Revoke every share link for a chat, e.g. when it is deleted
+ */
+export async function deleteChatShareLinks(chatId: string): Promise<void> {
+  const redis = getRedisClient();
+  const tokens = await redis.smembers(chatSharesKey(chatId));
+
+  if (tokens.length > 0) {
+    await redis.del(...tokens.map(shareKey));
+  }
+  await redis.del(chatSharesKey(chatId));
+}
@@ -0,0 +1,178 @@
+/**
+ * Stream Buffer Data Layer
+ * Redis-buffered SSE events so an interrupted generation can be resumed
+ */
+
+import { getRedisClient } from './client';
+import { streamEventsKey, streamKey } from './keys';
+import { logError } from '@/utils/logger';
+
+const STREAM_BUFFER_TTL = 10 * 60; // 10 minutes
+const EVENT_ID_SEPARATOR = ':';
+
+export type StreamBufferStatus = 'streaming' | 'complete';
+
+export interface StreamBufferState {
+  chatId: string;
+  userId: string;
+  status: StreamBufferStatus;
+  stopRequested: boolean;
+}
+
+export interface BufferedStreamEvent {
+  seq: number;
+  event: string;
+  data: unknown;
+}
+
+/**
+ * SSE event IDs carry the generation so Last-Event-ID alone can resume
+ */
+export function formatStreamEventId(generationId: string, seq: number): string {
+  return `${generationId}${EVENT_ID_SEPARATOR}${seq}`;
+}
+
+export function parseStreamEventId(
+  eventId: string
+): { generationId: string; seq: number } | null {
+  const separatorIndex = eventId.lastIndexOf(EVENT_ID_SEPARATOR);
+  if (separatorIndex <= 0) return null;
+
+  const generationId = eventId.slice(0, separatorIndex);
+  const seq = Number(eventId.slice(separatorIndex + 1));
+  if (!Number.isInteger(seq) || seq < 0) return null;
+
+  return { generationId, seq };
+}
+
+/**
+ * Register a generation; returns false when buffering is unavailable
+ */
+export async function openStreamBuffer(
+  generationId: string,
+  owner: { chatId: string; userId: string }
+): Promise<boolean> {
+  const redis = getRedisClient();
+
+  try {
+    await redis
+      .multi()
+      .hset(streamKey(generationId), {
+        chatId: owner.chatId,
+        userId: owner.userId,
+        status: 'streaming',
+      })
+      .expire(streamKey(generationId), STREAM_BUFFER_TTL)
+      .exec();
+    return true;
+  } catch (error) {
+    logError('Failed to open stream buffer', error, { generationId });
+    return false;
+  }
+}
+
+/**
+ * Append an event, scored by its sequence number so reads never depend on
+ * every earlier append having succeeded
+ */
+export async function appendStreamEvent(
+  generationId: string,
+  event: BufferedStreamEvent
+): Promise<boolean> {
+  const redis = getRedisClient();
+
+  try {
+    await redis
+      .multi()
+      .zadd(streamEventsKey(generationId), event.seq, JSON.stringify(event))
+      .expire(streamEventsKey(generationId), STREAM_BUFFER_TTL)
+      .expire(streamKey(generationId), STREAM_BUFFER_TTL)
+      .exec();
+    return true;
+  } catch (error) {
+    logError('Failed to buffer stream event', error, {
+      generationId,
+      seq: event.seq,
+    });
+    return false;
+  }
+}
+
+/**
+ * Mark the generation finished so resuming readers can stop polling
+ */
+export async function completeStreamBuffer(
+  generationId: string
+): Promise<void> {
+  const redis = getRedisClient();
+
+  try {
+    await redis.hset(streamKey(generationId), 'status', 'complete');
+  } catch (error) {
+    logError('Failed to complete stream buffer', error, { generationId });
+  }
+}
+
+/**
+ * Ask whichever instance runs the generation to stop it
+ */
+export async function requestStreamStop(
+  generationId: string
+): Promise<boolean> {
+  const redis = getRedisClient();
+
+  try {
+    await redis.hset(streamKey(generationId), 'stopRequested', '1');
+    return true;
+  } catch (error) {
+    logError('Failed to request stream stop', error, { generationId });
+    return false;
+  }
+}
+
+/**
+ * Get generation state, or null once it has expired
+ */
+export async function getStreamBuffer(
+  generationId: string
+): Promise<StreamBufferState | null> {
+  const redis = getRedisClient();
+
+  try {
+    const data = await redis.hgetall(streamKey(generationId));
+    if (!data.chatId || !data.userId) return null;
+
+    return {
+      chatId: data.chatId,
+      userId: data.userId,
+      status: data.status === 'complete' ? 'complete' : 'streaming',
+      stopRequested: data.stopRequested === '1',
+    };
+  } catch (error) {
+    logError('Failed to get stream buffer', error, { generationId });
+    return null;
+  }
+}
+
+/**
+ * Get buffered events with a sequence number after the given one
+ */
+export async function getStreamEventsAfter(
+  generationId: string,
+  seq: number
+): Promise<BufferedStreamEvent[]> {
+  const redis = getRedisClient();
+
+  try {
+    const entries = await redis.zrangebyscore(
+      streamEventsKey(generationId),
+      `(${seq}`,
+      '+inf'
+    );
+
+    return entries.map((raw) => JSON.parse(raw) as BufferedStreamEvent);
+  } catch (error) {
+    logError('Failed to read stream events', error, { generationId, seq });
+    return [];
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Tenant Key Migration
+ * Moves chats, chat lists and usage counters stored before keys were
+ * tenant-scoped under `tenant:{tenantId}:`, one SCAN page per call. A
+ * chat's tenant is the one it records, else the one its owner last signed
+ * in with. Chats with neither stay put and are reported as failed until
+ * their owner lists their chats, which moves them into the tenant of that
+ * request. Chats and chat lists also move lazily the first time they are
+ * read; the migration covers the ones nobody opens. Rate limit counters
+ * are short-lived and are left to expire.
+ */
+
+import { getRedisClient } from './client';
+import {
+  CHAT_MESSAGE_DATA_PREFIX,
+  CHAT_MESSAGE_INDEX_PREFIX,
+  CHAT_MESSAGES_PREFIX,
+  CHAT_PREFIX,
+  RETENTION_SCHEDULE_KEY,
+  USAGE_PREFIX,
+  USER_CHATS_PREFIX,
+  chatKey,
+  chatMessageDataKey,
+  chatMessageIndexKey,
+  chatMessagesKey,
+  chatSharesKey,
+  shareKey,
+  usageKey,
+  userChatsKey
+} from './keys';
+import { retentionScheduleMember } from './retention';
+import { getUserTenantId } from './users';
+import type { ChatModel } from '@/types/models';
+import { logError, logInfo, logWarn } from '@/utils/logger';
+
+const DEFAULT_SCAN_COUNT = 100;
+
+const LEGACY_MESSAGE_KEY_PREFIXES = [
+  CHAT_MESSAGES_PREFIX,
+  CHAT_MESSAGE_DATA_PREFIX,
+  CHAT_MESSAGE_INDEX_PREFIX
+];
+
+export interface TenantMigrationBatch {
+  /** Pass back to continue; '0' when the whole keyspace has been visited */
+  cursor: string;
+  migratedChats: number;
+  migratedChatLists: number;
+  migratedUsageKeys: number;
+  failedKeys: string[];
+}
+
+/**
+ * Moved, no legacy chat to move, or left in place because its tenant is
+ * unknown
+ */
+export type LegacyChatMigration = 'migrated' | 'missing' | 'skipped';
+
+export interface LegacyChatListMigration {
+  migrated: number;
+  /** Chats left in the legacy list because their tenant is unknown */
+  skipped: number;
+}
+
+/**
+ * Tenant of a request made by the chat's owner, which places chats that
+ * record no tenant of their own
+ */
+export interface OwnerTenant {
+  tenantId: string | undefined;
+}
+
+/**
+ * Legacy message keys paired with where they move to
+ */
+function messageKeyMoves(
+  tenantId: string | undefined,
+  chatId: string
+): Array<[string, string]> {
+  return [
+    [
+      `${CHAT_MESSAGE_DATA_PREFIX}${chatId}`,
+      chatMessageDataKey(tenantId, chatId)
+    ],
+    [
+      `${CHAT_MESSAGE_INDEX_PREFIX}${chatId}`,
+      chatMessageIndexKey(tenantId, chatId)
+    ],
+    [`${CHAT_MESSAGES_PREFIX}${chatId}`, chatMessagesKey(tenantId, chatId)]
+  ];
+}
+
+/**
+ * Move a chat stored under `chat:{chatId}` into its tenant's namespace with
+ * its messages, list entry, retention schedule entry and share links.
+ * Without `owner`, a chat that records no tenant and whose owner has none
+ * on file is skipped rather than guessed into the default tenant.
+ */
+export async function migrateLegacyChat(
+  chatId: string,
+  owner?: OwnerTenant
+): Promise<LegacyChatMigration> {
+  const redis = getRedisClient();
+  const raw = await redis.get(`${CHAT_PREFIX}${chatId}`);
+  if (!raw) return 'missing';
+
+  const chat = JSON.parse(raw) as ChatModel;
+  const tenantId =
+    chat.tenantId || (await getUserTenantId(chat.userId)) || owner?.tenantId;
+  if (!tenantId && !owner) return 'skipped';
+
+  const moves = messageKeyMoves(tenantId, chatId);
+  const present = await Promise.all(moves.map(([from]) => redis.exists(from)));
+  const expiresAt = await redis.zscore(RETENTION_SCHEDULE_KEY, chatId);
+
+  const pipeline = redis
+    .multi()
+    .set(chatKey(tenantId, chatId), JSON.stringify({ ...chat, tenantId }))
+    .del(`${CHAT_PREFIX}${chatId}`)
+    .srem(`${USER_CHATS_PREFIX}${chat.userId}`, chatId)
+    .sadd(userChatsKey(tenantId, chat.userId), chatId);
+  moves.forEach(([from, to], index) => {
+    if (present[index]) pipeline.rename(from, to);
+  });
+  if (expiresAt !== null) {
+    pipeline
+      .zadd(
+        RETENTION_SCHEDULE_KEY,
+        expiresAt,
+        retentionScheduleMember(tenantId, chatId)
+      )
+      .zrem(RETENTION_SCHEDULE_KEY, chatId);
+  }
+
+  // Share links keep their expiry; the public route needs the tenant
+  if (tenantId) {
+    for (const token of await redis.smembers(chatSharesKey(chatId))) {
+      const link = await redis.get(shareKey(token));
+      if (!link) continue;
+      pipeline.set(
+        shareKey(token),
+        JSON.stringify({ ...JSON.parse(link), tenantId }),
+        'KEEPTTL'
+      );
+    }
+  }
+
+  await pipeline.exec();
+
+  return 'migrated';
+}
+
+/**
+ * Move every chat in the user's legacy chat list; entries whose chat is
+ * gone are dropped with whatever messages they left behind. The list goes
+ * once no skipped chats remain in it.
+ */
+export async function migrateLegacyUserChats(
+  userId: string,
+  owner?: OwnerTenant
+): Promise<LegacyChatListMigration> {
+  const redis = getRedisClient();
+  const legacyKey = `${USER_CHATS_PREFIX}${userId}`;
+  const chatIds = await redis.smembers(legacyKey);
+  if (chatIds.length === 0) return { migrated: 0, skipped: 0 };
+
+  const counts: LegacyChatListMigration = { migrated: 0, skipped: 0 };
+  const staleIds: string[] = [];
+  for (const chatId of chatIds) {
+    const outcome = await migrateLegacyChat(chatId, owner);
+    if (outcome === 'migrated') {
+      counts.migrated++;
+    } else if (outcome === 'skipped') {
+      counts.skipped++;
+    } else {
+      staleIds.push(chatId);
+    }
+  }
+
+  if (staleIds.length > 0) {
+    await redis.del(
+      ...staleIds.flatMap((chatId) =>
+        LEGACY_MESSAGE_KEY_PREFIXES.map((prefix) => `${prefix}${chatId}`)
+      )
+    );
+    if (counts.skipped > 0) await redis.srem(legacyKey, ...staleIds);
+  }
+  if (counts.skipped === 0) await redis.del(legacyKey);
+
+  return counts;
+}
+
+/**
+ * `usage:{scope}:{id}:{bucket}` moves under the tenant: the counted tenant
+ * itself, or for users the tenant they last signed in with. The TTL goes
+ * with the key.
+ */
+async function migrateLegacyUsageKey(key: string): Promise<boolean> {
+  const [scope, id, bucket] = key.slice(USAGE_PREFIX.length).split(':');
+  if ((scope !== 'user' && scope !== 'tenant') || !id || !bucket) {
+    return false;
+  }
+
+  const tenantId = scope === 'tenant' ? id : await getUserTenantId(id);
+  await getRedisClient().rename(key, usageKey(tenantId, scope, id, bucket));
+
+  return true;
+}
+
+export async function migrateKeysToTenants(
+  cursor: string = '0',
+  count: number = DEFAULT_SCAN_COUNT
+): Promise<TenantMigrationBatch> {
+  const [nextCursor, keys] = await getRedisClient().scan(
+    cursor,
+    'COUNT',
+    count
+  );
+  const batch: TenantMigrationBatch = {
+    cursor: nextCursor,
+    migratedChats: 0,
+    migratedChatLists: 0,
+    migratedUsageKeys: 0,
+    failedKeys: []
+  };
+
+  for (const key of keys) {
+    try {
+      if (key.startsWith(USER_CHATS_PREFIX)) {
+        const { migrated, skipped } = await migrateLegacyUserChats(
+          key.slice(USER_CHATS_PREFIX.length)
+        );
+        batch.migratedChats += migrated;
+        if (skipped > 0) {
+          batch.failedKeys.push(key);
+        } else {
+          batch.migratedChatLists++;
+        }
+      } else if (
+        key.startsWith(CHAT_PREFIX) &&
+        !LEGACY_MESSAGE_KEY_PREFIXES.some((prefix) => key.startsWith(prefix))
+      ) {
+        const outcome = await migrateLegacyChat(key.slice(CHAT_PREFIX.length));
+        if (outcome === 'migrated') {
+          batch.migratedChats++;
+        } else if (outcome === 'skipped') {
+          logWarn('Left legacy chat in place; its tenant is unknown', { key });
+          batch.failedKeys.push(key);
+        }
+      } else if (key.startsWith(USAGE_PREFIX)) {
+        if (await migrateLegacyUsageKey(key)) {
+          batch.migratedUsageKeys++;
+        }
+      }
+    } catch (error) {
+      logError('Failed to migrate key to its tenant', error, { key });
+      batch.failedKeys.push(key);
+    }
+  }
+
+  logInfo('Tenant key migration batch finished', {
+    cursor: batch.cursor,
+    migratedChats: batch.migratedChats,
+    migratedChatLists: batch.migratedChatLists,
+    migratedUsageKeys: batch.migratedUsageKeys,
+    failedKeys: batch.failedKeys.length
+  });
+
+  return batch;
+}
@@ -12,9 +12,9 @@ import { logError, logWarn } from '@/utils/logger';
 interface TransactionContext {
   id: string;
   operations: Array<{
-    type: 'set' | 'del' | 'sadd' | 'srem' | 'incr' | 'decr';
+    type: 'set' | 'del' | 'sadd' | 'srem' | 'rpush' | 'incr' | 'decr';
     key: string;
-    value?: string | number;
+    value?: string | number | string[];
     ttl?: number;
   }>;
   rollbackOperations: Array<() => Promise<void>>;
@@ -194,6 +194,43 @@ export async function txSRem(
   }
 }
 
+/**
+ * Append values to a list within a transaction
+ */
+export async function txRPush(
+  ctx: TransactionContext,
+  key: string,
+  values: string[]
+): Promise<void> {
+  if (ctx.committed) {
+    throw new Error('Cannot perform operations on committed transaction');
+  }
+
+  if (values.length === 0) {
+    return;
+  }
+
+  const redis = getRedisClient();
+
+  // Remember the original length so rollback trims only what we added
+  const oldLength = await redis.llen(key);
+
+  // Perform the operation
+  await redis.rpush(key, ...values);
+
+  // Track the operation
+  ctx.operations.push({ type: 'rpush', key, value: values });
+
+  // Add rollback operation
+  ctx.rollbackOperations.push(async () => {
+    if (oldLength === 0) {
+      await redis.del(key);
+    } else {
+      await redis.ltrim(key, 0, oldLength - 1);
+    }
+  });
+}
+
 /**
  * Commit a transaction (mark as completed)
  */
@@ -0,0 +1,151 @@
+/**
+ * Usage Counters Data Layer
+ * Per-user and per-tenant token and cost totals, one hash per UTC day and
+ * month. Cost is kept in integer micro-dollars so increments stay exact.
+ * Buckets expire a while after they close.
+ */
+
+import { getRedisClient } from './client';
+import { usageKey } from './keys';
+import type { LLMUsageAccount } from '@/lib/llm/providers';
+import {
+  EMPTY_USAGE_TOTALS,
+  USAGE_PERIODS,
+  evaluateUsageQuota,
+  getUsageQuotas,
+  usagePeriodBucket,
+  usagePeriodResetAt,
+  type TokenUsage,
+  type UsagePeriod,
+  type UsageQuotaStatus,
+  type UsageScope,
+  type UsageTotals
+} from '@/lib/llm/usage';
+import { MILLISECONDS_PER_SECOND } from '@/lib/constants/common';
+
+const MICRO_USD_PER_USD = 1_000_000;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/** How long a closed bucket stays readable */
+const BUCKET_GRACE_SECONDS: Record<UsagePeriod, number> = {
+  day: 2 * SECONDS_PER_DAY,
+  month: 31 * SECONDS_PER_DAY
+};
+
+function accountScopes(
+  account: LLMUsageAccount
+): Array<{ scope: UsageScope; id: string }> {
+  return account.tenantId
+    ? [
+        { scope: 'user', id: account.userId },
+        { scope: 'tenant', id: account.tenantId }
+      ]
+    : [{ scope: 'user', id: account.userId }];
+}
+
+function parseTotals(data: Record<string, string>): UsageTotals {
+  const read = (field: string) => Number(data[field] ?? 0) || 0;
+
+  return {
+    tokens: read('tokens'),
+    inputTokens: read('inputTokens'),
+    outputTokens: read('outputTokens'),
+    cost: read('costMicroUsd') / MICRO_USD_PER_USD,
+    requests: read('requests')
+  };
+}
+
+/**
+ * Add one LLM call to the account's user and tenant counters for the
+ * current day and month
+ */
+export async function recordTokenUsage(
+  account: LLMUsageAccount,
+  usage: TokenUsage,
+  now: Date = new Date()
+): Promise<void> {
+  const pipeline = getRedisClient().multi();
+
+  for (const { scope, id } of accountScopes(account)) {
+    for (const period of USAGE_PERIODS) {
+      const key = usageKey(
+        account.tenantId,
+        scope,
+        id,
+        usagePeriodBucket(period, now)
+      );
+      const expireAt =
+        Math.floor(
+          usagePeriodResetAt(period, now).getTime() / MILLISECONDS_PER_SECOND
+        ) + BUCKET_GRACE_SECONDS[period];
+
+      pipeline
+        .hincrby(key, 'tokens', usage.inputTokens + usage.outputTokens)
+        .hincrby(key, 'inputTokens', usage.inputTokens)
+        .hincrby(key, 'outputTokens', usage.outputTokens)
+        .hincrby(
+          key,
+          'costMicroUsd',
+          Math.round(usage.cost * MICRO_USD_PER_USD)
+        )
+        .hincrby(key, 'requests', 1)
+        .expireat(key, expireAt);
+    }
+  }
+
+  await pipeline.exec();
+}
+
+/**
+ * Totals for the bucket containing `now`
+ */
+export async function getUsageTotals(
+  tenantId: string | undefined,
+  scope: UsageScope,
+  id: string,
+  period: UsagePeriod,
+  now: Date = new Date()
+): Promise<UsageTotals> {
+  const data = await getRedisClient().hgetall(
+    usageKey(tenantId, scope, id, usagePeriodBucket(period, now))
+  );
+  return data ? parseTotals(data) : { ...EMPTY_USAGE_TOTALS };
+}
+
+/**
+ * Where the account stands against every configured user and tenant quota
+ * `userQuotaMultiplier` scales the per-user quotas only; the tenant's are
+ * shared by everyone in it.
+ */
+export async function getUsageQuotaStatuses(
+  account: LLMUsageAccount,
+  now: Date = new Date(),
+  userQuotaMultiplier: number = 1
+): Promise<UsageQuotaStatus[]> {
+  const statuses: UsageQuotaStatus[] = [];
+
+  for (const { scope, id } of accountScopes(account)) {
+    const quotas = getUsageQuotas(
+      scope,
+      scope === 'user' ? userQuotaMultiplier : 1
+    );
+
+    for (const period of USAGE_PERIODS) {
+      const periodQuotas = quotas.filter((quota) => quota.period === period);
+      if (periodQuotas.length === 0) continue;
+
+      const totals = await getUsageTotals(
+        account.tenantId,
+        scope,
+        id,
+        period,
+        now
+      );
+      periodQuotas.forEach((quota) => {
+        statuses.push(evaluateUsageQuota(quota, totals, now));
+      });
+    }
+  }
+
+  return statuses;
+}
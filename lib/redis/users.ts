@@ -0,0 +1,158 @@
+/**
+ * User Directory Data Layer
+ * Everyone who has signed in (a sorted set per tenant scored by last
+ * activity, plus a profile hash each) and the chat suspensions admins place
+ * on them
+ */
+
+import { getRedisClient } from './client';
+import { userDirectoryKey, userProfileKey, userSuspensionKey } from './keys';
+import type { UserProfileModel, UserSuspensionModel } from '@/types/models';
+
+export interface UserActivity {
+  userId: string;
+  email?: string;
+  name?: string;
+  tenantId?: string;
+  role?: string;
+}
+
+export interface UserDirectoryPage {
+  users: UserProfileModel[];
+  total: number;
+}
+
+function parseProfile(
+  userId: string,
+  data: Record<string, string>,
+  lastSeen: number
+): UserProfileModel {
+  return {
+    id: userId,
+    email: data.email || null,
+    name: data.name || null,
+    tenantId: data.tenantId || null,
+    role: data.role || null,
+    lastSeenAt: new Date(lastSeen)
+  };
+}
+
+function parseSuspension(data: string): UserSuspensionModel {
+  const stored = JSON.parse(data) as {
+    reason: string;
+    suspendedBy: string;
+    suspendedAt: string;
+  };
+  return { ...stored, suspendedAt: new Date(stored.suspendedAt) };
+}
+
+/**
+ * Add or refresh the user's directory entry
+ */
+export async function recordUserActivity(
+  activity: UserActivity,
+  now: Date = new Date()
+): Promise<void> {
+  const profile: Record<string, string> = {};
+  if (activity.email) profile.email = activity.email;
+  if (activity.name) profile.name = activity.name;
+  if (activity.tenantId) profile.tenantId = activity.tenantId;
+  if (activity.role) profile.role = activity.role;
+
+  const pipeline = getRedisClient()
+    .multi()
+    .zadd(
+      userDirectoryKey(activity.tenantId),
+      now.getTime(),
+      activity.userId
+    );
+  if (Object.keys(profile).length > 0) {
+    pipeline.hset(userProfileKey(activity.userId), profile);
+  }
+
+  await pipeline.exec();
+}
+
+/**
+ * The tenant's users, most recently seen first
+ */
+export async function listUsers(
+  tenantId: string | undefined,
+  offset: number,
+  limit: number
+): Promise<UserDirectoryPage> {
+  const redis = getRedisClient();
+  const directoryKey = userDirectoryKey(tenantId);
+
+  const [entries, total] = await Promise.all([
+    redis.zrevrange(
+      directoryKey,
+      offset,
+      offset + limit - 1,
+      'WITHSCORES'
+    ),
+    redis.zcard(directoryKey)
+  ]);
+
+  const ranked: Array<{ userId: string; lastSeen: number }> = [];
+  for (let i = 0; i < entries.length; i += 2) {
+    ranked.push({ userId: entries[i], lastSeen: Number(entries[i + 1]) });
+  }
+
+  const users = await Promise.all(
+    ranked.map(async ({ userId, lastSeen }) =>
+      parseProfile(
+        userId,
+        (await redis.hgetall(userProfileKey(userId))) ?? {},
+        lastSeen
+      )
+    )
+  );
+
+  return { users, total };
+}
+
+/**
+ * Tenant recorded at the user's last sign-in, if any
+ */
+export async function getUserTenantId(
+  userId: string
+): Promise<string | undefined> {
+  const tenantId = await getRedisClient().hget(
+    userProfileKey(userId),
+    'tenantId'
+  );
+  return tenantId || undefined;
+}
+
+/**
+ * Bar the user from sending messages until lifted
+ */
+export async function suspendUser(
+  userId: string,
+  details: { reason: string; suspendedBy: string },
+  now: Date = new Date()
+): Promise<UserSuspensionModel> {
+  const suspension: UserSuspensionModel = { ...details, suspendedAt: now };
+
+  await getRedisClient().set(
+    userSuspensionKey(userId),
+    JSON.stringify(suspension)
+  );
+
+  return suspension;
+}
+
+/**
+ * Lift a suspension; false when the user was not suspended
+ */
+export async function unsuspendUser(userId: string): Promise<boolean> {
+  return (await getRedisClient().del(userSuspensionKey(userId))) > 0;
+}
+
+export async function getUserSuspension(
+  userId: string
+): Promise<UserSuspensionModel | null> {
+  const data = await getRedisClient().get(userSuspensionKey(userId));
+  return data ? parseSuspension(data) : null;
+}
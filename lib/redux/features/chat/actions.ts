@@ -18,6 +18,7 @@ export enum ChatActionType {
   ADD_MESSAGE = 'chat/addMessage',
   UPDATE_MESSAGE = 'chat/updateMessage',
   SET_MESSAGES = 'chat/setMessages',
+  SET_ACTIVE_LEAF = 'chat/setActiveLeaf',
   ADD_OPTIMISTIC_UPDATE = 'chat/addOptimisticUpdate',
   UPDATE_OPTIMISTIC_UPDATE = 'chat/updateOptimisticUpdate',
   REMOVE_OPTIMISTIC_UPDATE = 'chat/removeOptimisticUpdate',
@@ -81,6 +82,12 @@ export const chatActions = {
       payload: { chatId, messages },
     }) as const,
 
+  setActiveLeaf: (chatId: string, messageId: string | null) =>
+    ({
+      type: ChatActionType.SET_ACTIVE_LEAF,
+      payload: { chatId, messageId },
+    }) as const,
+
   addOptimisticUpdate: (update: OptimisticUpdate) =>
     ({
       type: ChatActionType.ADD_OPTIMISTIC_UPDATE,
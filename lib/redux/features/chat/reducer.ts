@@ -13,6 +13,7 @@ const initialState: ChatState = {
   chats: {},
   messages: {},
   activeChatId: null,
+  activeLeafIds: {},
   optimisticUpdates: {},
   loading: {
     fetchingChats: false,
@@ -70,11 +71,14 @@ export function chatReducer(
       const { [action.payload]: _removed, ...remainingChats } = state.chats;
       const { [action.payload]: _removedMessages, ...remainingMessages } =
         state.messages;
+      const { [action.payload]: _removedLeaf, ...remainingLeafIds } =
+        state.activeLeafIds;
 
       return {
         ...state,
         chats: remainingChats,
         messages: remainingMessages,
+        activeLeafIds: remainingLeafIds,
         activeChatId:
           state.activeChatId === action.payload ? null : state.activeChatId,
       };
@@ -136,6 +140,18 @@ export function chatReducer(
       };
     }
 
+    case ChatActionType.SET_ACTIVE_LEAF: {
+      const { chatId, messageId } = action.payload;
+      const { [chatId]: _previous, ...otherLeafIds } = state.activeLeafIds;
+
+      return {
+        ...state,
+        activeLeafIds: messageId
+          ? { ...otherLeafIds, [chatId]: messageId }
+          : otherLeafIds,
+      };
+    }
+
     case ChatActionType.ADD_OPTIMISTIC_UPDATE:
       return {
         ...state,
@@ -65,11 +65,41 @@ export function sanitizeRichHtml(dirty: string): string {
       'code',
       'pre',
       'blockquote',
+      // Markdown output
+      'h1',
+      'h2',
+      'h3',
+      'h4',
+      'h5',
+      'h6',
+      'hr',
+      'del',
+      's',
+      'span',
+      'table',
+      'thead',
+      'tbody',
+      'tr',
+      'th',
+      'td',
     ],
     allowedAttributes: {
       a: ['href', 'title', 'target', 'rel'],
-      code: [],
+      code: ['class'],
       pre: [],
+      span: ['class'],
+      ol: ['start'],
+      th: ['style'],
+      td: ['style'],
+    },
+    // Only syntax-highlighting classes, never arbitrary styling hooks
+    allowedClasses: {
+      code: ['hljs', 'language-*'],
+      span: ['hljs-*'],
+    },
+    allowedStyles: {
+      th: { 'text-align': [/^(left|right|center)$/] },
+      td: { 'text-align': [/^(left|right|center)$/] },
     },
     allowedSchemes: [...SAFE_URL_SCHEMES],
     allowProtocolRelative: false,
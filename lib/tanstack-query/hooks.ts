@@ -16,8 +16,19 @@ import { TEN_MINUTES_IN_MS } from '@/lib/constants/common';
 export const queryKeys = {
   user: ['user'],
   chats: ['chats'],
+  // Under `chats` so chat mutations refresh it; the sidebar pages its own list
+  chatList: (archived: boolean) => ['chats', 'list', { archived }] as const,
+  personas: ['personas'],
+  chatModels: ['chatModels'],
+  messageSearch: (query: string, role?: string) =>
+    ['messageSearch', query, role ?? null] as const,
   chat: (id: string) => ['chat', id],
+  shareLinks: (chatId: string) => ['shareLinks', chatId] as const,
+  sharedChat: (token: string) => ['sharedChat', token] as const,
   messages: (chatId: string) => ['messages', chatId],
+  usage: (days: number) => ['usage', days] as const,
+  adminUsers: ['adminUsers'],
+  circuitBreakers: ['circuitBreakers'],
 } as const;
 
 /**
@@ -38,13 +49,17 @@ export function useUserSession() {
 }
 
 /**
- * Hook: Get all chats
+ * Hook: Get all chats, optionally filtered by archived state
  */
-export function useChatHistory() {
+export function useChatHistory(options: { archived?: boolean } = {}) {
+  const { archived } = options;
+
   return useQuery({
-    queryKey: queryKeys.chats,
+    queryKey: [...queryKeys.chats, { archived }],
     queryFn: async () => {
-      const response = await get<ChatDTO[]>('/api/chat');
+      const url =
+        archived === undefined ? '/api/chat' : `/api/chat?archived=${archived}`;
+      const response = await get<ChatDTO[]>(url);
       if (response.error) {
         throw new Error(response.error.message);
       }
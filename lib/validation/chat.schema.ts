@@ -4,6 +4,16 @@
  */
 
 import { z } from 'zod';
+import {
+  CHAT_MAX_TOKENS_MAX,
+  CHAT_MAX_TOKENS_MIN,
+  CHAT_MODEL_ID_MAX_LENGTH,
+  CHAT_TEMPERATURE_MAX,
+  CHAT_TEMPERATURE_MIN,
+} from '@/lib/constants/llm';
+import { CHAT_EXPORT_FORMATS, CHAT_EXPORT_VERSION } from '@/lib/chat/export';
+import { AUDIT_EXPORT_FORMATS } from '@/lib/audit/export';
+import { AUDIT_EVENT_TYPES } from '@/types/models';
 
 const MIN_MESSAGE_LENGTH = 1;
 const MAX_MESSAGE_LENGTH = 4000;
@@ -14,6 +24,27 @@ const DEFAULT_OFFSET = 0;
 const MIN_LIMIT = 1;
 const MAX_LIMIT = 100;
 const DEFAULT_LIMIT = 50;
+const MAX_SYSTEM_PROMPT_LENGTH = 4000;
+const MIN_PERSONA_NAME_LENGTH = 1;
+const MAX_PERSONA_NAME_LENGTH = 80;
+const MAX_SEARCH_QUERY_LENGTH = 200;
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_IMPORTED_MESSAGES = 2000;
+const MAX_IMPORTED_MESSAGE_LENGTH = 100000;
+const MAX_IMPORTED_ID_LENGTH = 200;
+const MIN_SHARE_EXPIRY_DAYS = 1;
+const MAX_SHARE_EXPIRY_DAYS = 90;
+const MIN_RETENTION_DAYS = 1;
+const MAX_RETENTION_DAYS = 3650;
+const MAX_MIGRATION_SCAN_COUNT = 1000;
+const MIN_USAGE_REPORT_DAYS = 1;
+const MAX_USAGE_REPORT_DAYS = 90;
+const DEFAULT_USAGE_REPORT_DAYS = 30;
+const MIN_SUSPENSION_REASON_LENGTH = 1;
+const MAX_SUSPENSION_REASON_LENGTH = 500;
+const MAX_AUDIT_QUERY_LIMIT = 1000;
+const MAX_AUDIT_VERIFY_COUNT = 10000;
+const AUDIT_EVENT_ID_PATTERN = /^\d+-\d+$/;
 
 /**
  * Chat message schema
@@ -26,11 +57,34 @@ export const chatMessageSchema = z.object({
     .trim(),
   chatId: z.string().optional(),
   parentMessageId: z.string().optional(),
+  /** Re-submit an edited user message as a sibling branch of the original */
+  editOfMessageId: z.string().optional(),
   idempotencyKey: z.string().optional(),
 });
 
 export type ChatMessageInput = z.infer<typeof chatMessageSchema>;
 
+/**
+ * Regenerate schema
+ * Re-runs an assistant response; the alternate is stored as a sibling
+ */
+export const regenerateMessageSchema = z.object({
+  chatId: z.string(),
+  regenerateMessageId: z.string(),
+});
+
+export type RegenerateMessageInput = z.infer<typeof regenerateMessageSchema>;
+
+/**
+ * Stop stream schema
+ * Stops a buffered generation on whichever instance is running it
+ */
+export const stopStreamSchema = z.object({
+  generationId: z.string().min(1),
+});
+
+export type StopStreamInput = z.infer<typeof stopStreamSchema>;
+
 /**
  * Create chat schema
  */
@@ -40,16 +94,90 @@ export const createChatSchema = z.object({
 
 export type CreateChatInput = z.infer<typeof createChatSchema>;
 
+/**
+ * Chat settings schema
+ * Models are checked against the provider's list on the server; omitted
+ * fields use defaults
+ */
+export const chatSettingsSchema = z
+  .object({
+    model: z.string().trim().min(1).max(CHAT_MODEL_ID_MAX_LENGTH).optional(),
+    temperature: z
+      .number()
+      .min(CHAT_TEMPERATURE_MIN)
+      .max(CHAT_TEMPERATURE_MAX)
+      .optional(),
+    maxTokens: z
+      .number()
+      .int()
+      .min(CHAT_MAX_TOKENS_MIN)
+      .max(CHAT_MAX_TOKENS_MAX)
+      .optional(),
+    systemPrompt: z
+      .string()
+      .trim()
+      .max(
+        MAX_SYSTEM_PROMPT_LENGTH,
+        'System prompt is too long (max 4000 characters)',
+      )
+      .optional(),
+  })
+  .strict();
+
+export type ChatSettingsInput = z.infer<typeof chatSettingsSchema>;
+
 /**
  * Update chat schema
+ * `settings` replaces the stored settings as a whole
  */
 export const updateChatSchema = z.object({
   title: z.string().min(MIN_TITLE_LENGTH).max(MAX_TITLE_LENGTH).optional(),
   archived: z.boolean().optional(),
+  settings: chatSettingsSchema.optional(),
 });
 
 export type UpdateChatInput = z.infer<typeof updateChatSchema>;
 
+/**
+ * Create persona schema
+ */
+export const createPersonaSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(MIN_PERSONA_NAME_LENGTH)
+    .max(MAX_PERSONA_NAME_LENGTH),
+  systemPrompt: z
+    .string()
+    .trim()
+    .min(MIN_MESSAGE_LENGTH, 'System prompt cannot be empty')
+    .max(
+      MAX_SYSTEM_PROMPT_LENGTH,
+      'System prompt is too long (max 4000 characters)',
+    ),
+});
+
+export type CreatePersonaInput = z.infer<typeof createPersonaSchema>;
+
+/**
+ * List chats query schema
+ */
+export const listChatsSchema = z.object({
+  archived: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value === 'true')),
+  offset: z.coerce.number().int().min(MIN_OFFSET).default(DEFAULT_OFFSET),
+  limit: z
+    .coerce.number()
+    .int()
+    .min(MIN_LIMIT)
+    .max(MAX_LIMIT)
+    .default(DEFAULT_LIMIT),
+});
+
+export type ListChatsQuery = z.infer<typeof listChatsSchema>;
+
 /**
  * Get messages query schema
  */
@@ -64,3 +192,253 @@ export const getMessagesSchema = z.object({
 });
 
 export type GetMessagesQuery = z.infer<typeof getMessagesSchema>;
+
+/**
+ * Chat history query schema
+ * `before` is the `nextCursor` of the previous page (a message id)
+ */
+export const getChatHistorySchema = z.object({
+  before: z.string().min(1).max(MAX_IMPORTED_ID_LENGTH).optional(),
+  limit: z
+    .coerce.number()
+    .int()
+    .min(MIN_LIMIT)
+    .max(MAX_LIMIT)
+    .default(DEFAULT_LIMIT),
+});
+
+export type GetChatHistoryQuery = z.infer<typeof getChatHistorySchema>;
+
+/**
+ * Search messages query schema
+ */
+export const searchMessagesSchema = z
+  .object({
+    q: z.string().trim().min(1).max(MAX_SEARCH_QUERY_LENGTH),
+    role: z.enum(['user', 'assistant']).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    offset: z.coerce.number().int().min(MIN_OFFSET).default(DEFAULT_OFFSET),
+    limit: z
+      .coerce.number()
+      .int()
+      .min(MIN_LIMIT)
+      .max(MAX_LIMIT)
+      .default(DEFAULT_SEARCH_LIMIT),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export type SearchMessagesQuery = z.infer<typeof searchMessagesSchema>;
+
+/**
+ * Export chat query schema
+ */
+export const exportChatSchema = z.object({
+  format: z.enum(CHAT_EXPORT_FORMATS).default('markdown'),
+});
+
+export type ExportChatQuery = z.infer<typeof exportChatSchema>;
+
+/**
+ * Imported message schema
+ * Mirrors a message in the JSON export; IDs only link messages together
+ */
+const importedMessageSchema = z.object({
+  id: z.string().min(1).max(MAX_IMPORTED_ID_LENGTH),
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.string().max(MAX_IMPORTED_MESSAGE_LENGTH),
+  status: z
+    .enum(['sending', 'sent', 'failed', 'read', 'stopped'])
+    .default('sent'),
+  parentMessageId: z.string().nullable().default(null),
+  metadata: z.record(z.unknown()).nullable().default(null),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date().optional(),
+});
+
+/**
+ * Import chat schema
+ * Accepts the JSON export; unknown fields such as the old chat ID are dropped
+ */
+export const importChatSchema = z
+  .object({
+    version: z.literal(CHAT_EXPORT_VERSION),
+    chat: z.object({
+      title: z.string().trim().min(MIN_TITLE_LENGTH).max(MAX_TITLE_LENGTH),
+      archived: z.boolean().default(false),
+      settings: chatSettingsSchema.default({}),
+      createdAt: z.coerce.date().optional(),
+    }),
+    messages: z
+      .array(importedMessageSchema)
+      .min(1, 'Transcript has no messages')
+      .max(MAX_IMPORTED_MESSAGES),
+  })
+  .superRefine(({ messages }, ctx) => {
+    const ids = new Set<string>();
+    messages.forEach((message, index) => {
+      if (ids.has(message.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Duplicate message ID',
+          path: ['messages', index, 'id'],
+        });
+      }
+      ids.add(message.id);
+    });
+
+    messages.forEach((message, index) => {
+      if (message.parentMessageId && !ids.has(message.parentMessageId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Parent message is not in the transcript',
+          path: ['messages', index, 'parentMessageId'],
+        });
+      }
+    });
+  });
+
+export type ImportChatInput = z.infer<typeof importChatSchema>;
+
+/**
+ * Create share link schema
+ * Omitting `expiresInDays` creates a link that lasts until revoked
+ */
+export const createShareLinkSchema = z.object({
+  expiresInDays: z
+    .number()
+    .int()
+    .min(MIN_SHARE_EXPIRY_DAYS)
+    .max(MAX_SHARE_EXPIRY_DAYS)
+    .optional(),
+});
+
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>;
+
+/**
+ * Revoke share link schema
+ */
+export const revokeShareLinkSchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * Retention policy schema
+ */
+const retentionDaysSchema = z
+  .number()
+  .int()
+  .min(MIN_RETENTION_DAYS)
+  .max(MAX_RETENTION_DAYS);
+
+export const retentionPolicySchema = z.discriminatedUnion('mode', [
+  z.object({ mode: z.literal('forever') }),
+  z.object({ mode: z.literal('since_creation'), days: retentionDaysSchema }),
+  z.object({ mode: z.literal('since_activity'), days: retentionDaysSchema }),
+]);
+
+/**
+ * Update retention policy schema
+ * A null policy falls back to the tenant (or default) policy
+ */
+export const updateRetentionPolicySchema = z.object({
+  policy: retentionPolicySchema.nullable(),
+});
+
+/**
+ * Legal hold schema
+ * `tenantId` names the tenant holding the chat; omit it for the default one
+ */
+export const legalHoldSchema = z.object({
+  legalHold: z.boolean(),
+  tenantId: z.string().min(1).optional(),
+});
+
+/**
+ * Chat migration schema, shared by the message backfill and the tenant key
+ * migration
+ * `cursor` is the value returned by the previous batch
+ */
+export const migrateChatsSchema = z.object({
+  cursor: z.string().regex(/^\d+$/).default('0'),
+  count: z.number().int().min(1).max(MAX_MIGRATION_SCAN_COUNT).optional(),
+});
+
+/**
+ * Usage report query schema
+ */
+export const usageReportSchema = z.object({
+  days: z
+    .coerce.number()
+    .int()
+    .min(MIN_USAGE_REPORT_DAYS)
+    .max(MAX_USAGE_REPORT_DAYS)
+    .default(DEFAULT_USAGE_REPORT_DAYS),
+});
+
+/**
+ * Admin user list query schema
+ */
+export const listAdminUsersSchema = z.object({
+  offset: z.coerce.number().int().min(MIN_OFFSET).default(DEFAULT_OFFSET),
+  limit: z
+    .coerce.number()
+    .int()
+    .min(MIN_LIMIT)
+    .max(MAX_LIMIT)
+    .default(DEFAULT_LIMIT),
+});
+
+/**
+ * Suspend user schema
+ */
+export const suspendUserSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(MIN_SUSPENSION_REASON_LENGTH, 'A reason is required')
+    .max(MAX_SUSPENSION_REASON_LENGTH),
+});
+
+/**
+ * Audit log query schema
+ * `before` is the `nextCursor` of the previous page
+ */
+export const auditQuerySchema = z
+  .object({
+    type: z.enum(AUDIT_EVENT_TYPES).optional(),
+    actorId: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    before: z.string().regex(AUDIT_EVENT_ID_PATTERN).optional(),
+    limit: z
+      .coerce.number()
+      .int()
+      .min(MIN_LIMIT)
+      .max(MAX_AUDIT_QUERY_LIMIT)
+      .default(DEFAULT_LIMIT),
+    format: z.enum(AUDIT_EXPORT_FORMATS).default('json'),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+/**
+ * Audit chain verification query schema
+ * `after` is the `cursor` returned by the previous stretch
+ */
+export const verifyAuditChainSchema = z.object({
+  after: z.string().regex(AUDIT_EVENT_ID_PATTERN).optional(),
+  count: z
+    .coerce.number()
+    .int()
+    .min(MIN_LIMIT)
+    .max(MAX_AUDIT_VERIFY_COUNT)
+    .optional(),
+});
@@ -71,6 +71,24 @@ const PRODUCTION_SECURITY_HEADERS: Record<string, string> = {
   'Strict-Transport-Security': 'max-age=31536000; includeSubDomains; preload',
 };
 
+/**
+ * Extra headers for public share links
+ * The token in the URL is the credential: never leak it via Referer,
+ * keep pages out of search indexes and shared caches
+ */
+const PUBLIC_SHARE_HEADERS: Record<string, string> = {
+  'Referrer-Policy': 'no-referrer',
+  'X-Robots-Tag': 'noindex, nofollow',
+  'Cache-Control': 'private, no-store',
+};
+
+/**
+ * Check if a path serves a shared chat without authentication
+ */
+export function isPublicShareRoute(pathname: string): boolean {
+  return pathname.startsWith('/share/') || pathname.startsWith('/api/share/');
+}
+
 /**
  * Add security headers to a response
  */
@@ -108,9 +126,16 @@ function isProtectedRoute(_pathname: string): boolean {
  * Main proxy function for non-auth-protected routes
  * Adds security headers to all responses
  */
-export function proxy(_request: NextRequest): NextResponse {
-  const response = NextResponse.next();
-  return addSecurityHeaders(response);
+export function proxy(request: NextRequest): NextResponse {
+  const response = addSecurityHeaders(NextResponse.next());
+
+  if (isPublicShareRoute(request.nextUrl.pathname)) {
+    for (const [header, value] of Object.entries(PUBLIC_SHARE_HEADERS)) {
+      response.headers.set(header, value);
+    }
+  }
+
+  return response;
 }
 
 /**
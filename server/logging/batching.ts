@@ -0,0 +1,190 @@
+/**
+ * Batching Log Transport
+ * Buffers records and hands them to a delivery function as JSON lines, in
+ * batches, with retry and exponential backoff. The buffer is bounded: when
+ * delivery cannot keep up, the oldest records are dropped and the next
+ * batch reports how many were lost.
+ */
+
+import { LogLevel, type LogRecord, type LogTransport } from '@/utils/logger';
+import {
+  BACKOFF_EXPONENT,
+  MAX_RETRY_COUNT,
+  RETRY_DELAY_BASE_MS,
+} from '@/lib/constants/retry';
+
+const DEFAULT_MAX_BATCH_SIZE = 100;
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+const DEFAULT_MAX_BUFFER_SIZE = 10000;
+
+export interface BatchingOptions {
+  /** Records per delivery; a full batch is sent without waiting */
+  maxBatchSize?: number;
+  /** How long a partial batch waits before it is sent */
+  flushIntervalMs?: number;
+  /** Records held while delivery is slow or failing */
+  maxBufferSize?: number;
+  /** Retries after the first failed delivery of a batch */
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+
+/**
+ * Sends one batch of JSON lines; throws when the batch was not accepted
+ */
+export type DeliverBatch = (lines: string[]) => Promise<void>;
+
+/**
+ * A delivery failure that retrying will not fix, such as a rejected payload
+ * The batch is dropped instead of being retried.
+ */
+export class LogDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean = true,
+  ) {
+    super(message);
+    this.name = 'LogDeliveryError';
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof LogDeliveryError) || error.retryable;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Failures are reported on the console, never through the logger, which
+ * would feed them back into the transport that failed
+ */
+function reportFailure(name: string, message: string, error?: unknown): void {
+  console.error(`[log-transport:${name}] ${message}`, error ?? '');
+}
+
+export function createBatchingTransport(
+  name: string,
+  deliver: DeliverBatch,
+  options: BatchingOptions = {},
+): LogTransport {
+  const maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+  const flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+  const maxBufferSize = options.maxBufferSize ?? DEFAULT_MAX_BUFFER_SIZE;
+  const maxRetries = options.maxRetries ?? MAX_RETRY_COUNT;
+  const retryDelayMs = options.retryDelayMs ?? RETRY_DELAY_BASE_MS;
+
+  const buffer: string[] = [];
+  let droppedCount = 0;
+  let timer: NodeJS.Timeout | null = null;
+  let flushing: Promise<void> | null = null;
+  let closed = false;
+
+  function enqueue(lines: string[], atFront = false): void {
+    if (atFront) {
+      buffer.unshift(...lines);
+    } else {
+      buffer.push(...lines);
+    }
+    const overflow = buffer.length - maxBufferSize;
+    if (overflow > 0) {
+      buffer.splice(0, overflow);
+      droppedCount += overflow;
+    }
+  }
+
+  function scheduleFlush(): void {
+    if (timer || closed) return;
+    timer = setTimeout(() => {
+      timer = null;
+      void flush();
+    }, flushIntervalMs);
+    // Buffered logs should not keep the process alive
+    timer.unref?.();
+  }
+
+  function takeBatch(): string[] {
+    const batch = buffer.splice(0, maxBatchSize);
+    if (droppedCount > 0) {
+      const notice: LogRecord = {
+        timestamp: new Date().toISOString(),
+        level: LogLevel.WARN,
+        message: 'Log records dropped by transport',
+        context: { transport: name, droppedCount },
+      };
+      batch.unshift(JSON.stringify(notice));
+      droppedCount = 0;
+    }
+    return batch;
+  }
+
+  /**
+   * True when the batch was delivered or given up on as undeliverable
+   */
+  async function deliverWithRetry(batch: string[]): Promise<boolean> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await deliver(batch);
+        return true;
+      } catch (error) {
+        if (!isRetryable(error)) {
+          reportFailure(name, `Dropped ${batch.length} log records`, error);
+          return true;
+        }
+        if (attempt >= maxRetries) {
+          reportFailure(name, 'Log delivery failed; will retry', error);
+          return false;
+        }
+        await sleep(retryDelayMs * Math.pow(BACKOFF_EXPONENT, attempt));
+      }
+    }
+  }
+
+  async function drain(): Promise<void> {
+    while (buffer.length > 0 || droppedCount > 0) {
+      const batch = takeBatch();
+      if (!(await deliverWithRetry(batch))) {
+        // Keep the batch for the next flush, within the buffer bound
+        enqueue(batch, true);
+        scheduleFlush();
+        return;
+      }
+    }
+  }
+
+  function flush(): Promise<void> {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!flushing) {
+      flushing = drain().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  }
+
+  return {
+    name,
+    send(record: LogRecord): void {
+      if (closed) return;
+      enqueue([JSON.stringify(record)]);
+      if (buffer.length >= maxBatchSize && !flushing) {
+        void flush();
+      } else {
+        scheduleFlush();
+      }
+    },
+    flush,
+    async close(): Promise<void> {
+      await flush();
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
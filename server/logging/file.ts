@@ -0,0 +1,77 @@
+/**
+ * Rotating File Log Transport
+ * Appends JSON lines to a file. When the next batch would push the file past
+ * `maxBytes`, it is renamed to `{path}.1`, older files shift up one, and
+ * anything past `maxFiles` is deleted.
+ */
+
+import { appendFile, mkdir, rename, rm, stat } from 'fs/promises';
+import { dirname } from 'path';
+import type { LogTransport } from '@/utils/logger';
+import { createBatchingTransport, type BatchingOptions } from './batching';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+export interface FileTransportOptions extends BatchingOptions {
+  path: string;
+  maxBytes?: number;
+  /** Rotated files kept besides the live one */
+  maxFiles?: number;
+}
+
+async function currentSize(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+    throw error;
+  }
+}
+
+async function rotate(path: string, maxFiles: number): Promise<void> {
+  await rm(`${path}.${maxFiles}`, { force: true });
+  for (let index = maxFiles - 1; index >= 1; index--) {
+    await rename(`${path}.${index}`, `${path}.${index + 1}`).catch(
+      (error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      },
+    );
+  }
+  if (maxFiles > 0) {
+    await rename(path, `${path}.1`);
+  } else {
+    await rm(path, { force: true });
+  }
+}
+
+export function createFileTransport(
+  options: FileTransportOptions,
+): LogTransport {
+  const { path } = options;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  // Read from disk on the first write, then tracked
+  let size: number | null = null;
+
+  return createBatchingTransport(
+    'file',
+    async (lines) => {
+      const chunk = `${lines.join('\n')}\n`;
+      const bytes = Buffer.byteLength(chunk);
+
+      if (size === null) {
+        await mkdir(dirname(path), { recursive: true });
+        size = await currentSize(path);
+      }
+      if (size > 0 && size + bytes > maxBytes) {
+        await rotate(path, maxFiles);
+        size = 0;
+      }
+
+      await appendFile(path, chunk);
+      size += bytes;
+    },
+    options,
+  );
+}
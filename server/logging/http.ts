@@ -0,0 +1,53 @@
+/**
+ * HTTP Log Transport
+ * POSTs batches of JSON lines (`application/x-ndjson`) to a log collector.
+ * Network errors, timeouts, 408, 429 and 5xx responses are retried; other
+ * rejections drop the batch.
+ */
+
+import type { LogTransport } from '@/utils/logger';
+import {
+  createBatchingTransport,
+  LogDeliveryError,
+  type BatchingOptions,
+} from './batching';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const RETRYABLE_STATUSES = [408, 429];
+const SERVER_ERROR_MIN_STATUS = 500;
+
+export interface HttpTransportOptions extends BatchingOptions {
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+export function createHttpTransport(
+  options: HttpTransportOptions,
+): LogTransport {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  return createBatchingTransport(
+    'http',
+    async (lines) => {
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-ndjson',
+          ...options.headers,
+        },
+        body: `${lines.join('\n')}\n`,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new LogDeliveryError(
+          `Log collector responded ${response.status}`,
+          response.status >= SERVER_ERROR_MIN_STATUS ||
+            RETRYABLE_STATUSES.includes(response.status),
+        );
+      }
+    },
+    options,
+  );
+}
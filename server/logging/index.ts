@@ -0,0 +1,116 @@
+/**
+ * Log Transport Setup
+ * Attaches the transports named in LOG_TRANSPORTS (comma-separated:
+ * `stdout`, `file`, `http`) to the logger. Records reach them only where
+ * remote logging is enabled, which by default is production.
+ */
+
+import { constants } from 'os';
+import {
+  addLogTransport,
+  closeLogTransports,
+  logWarn,
+  type LogTransport,
+} from '@/utils/logger';
+import type { BatchingOptions } from './batching';
+import { createFileTransport } from './file';
+import { createHttpTransport } from './http';
+import { createStdoutTransport } from './stdout';
+
+export { createBatchingTransport, LogDeliveryError } from './batching';
+export { createFileTransport, createHttpTransport, createStdoutTransport };
+
+const DEFAULT_LOG_FILE_PATH = 'logs/app.log';
+
+let configured = false;
+
+function numberFromEnv(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function batchingOptionsFromEnv(): BatchingOptions {
+  return {
+    maxBatchSize: numberFromEnv('LOG_BATCH_SIZE'),
+    flushIntervalMs: numberFromEnv('LOG_FLUSH_INTERVAL_MS'),
+    maxBufferSize: numberFromEnv('LOG_BUFFER_SIZE'),
+  };
+}
+
+function createTransport(name: string): LogTransport | null {
+  const batching = batchingOptionsFromEnv();
+
+  switch (name) {
+    case 'stdout':
+      return createStdoutTransport(batching);
+    case 'file':
+      return createFileTransport({
+        ...batching,
+        path: process.env.LOG_FILE_PATH || DEFAULT_LOG_FILE_PATH,
+        maxBytes: numberFromEnv('LOG_FILE_MAX_BYTES'),
+        maxFiles: numberFromEnv('LOG_FILE_MAX_FILES'),
+      });
+    case 'http': {
+      const url = process.env.LOG_HTTP_URL;
+      if (!url) {
+        logWarn('HTTP log transport needs LOG_HTTP_URL; skipping it');
+        return null;
+      }
+      const token = process.env.LOG_HTTP_TOKEN;
+      return createHttpTransport({
+        ...batching,
+        url,
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      });
+    }
+    default:
+      logWarn('Unknown log transport', { transport: name });
+      return null;
+  }
+}
+
+/**
+ * Signals replace the default exit, so once the buffers are delivered the
+ * process exits as the signal would have made it, unless another handler
+ * (such as the Next.js server's own shutdown) is left to do that
+ */
+function closeLogTransportsOn(signal: NodeJS.Signals): void {
+  process.once(signal, () => {
+    void closeLogTransports().finally(() => {
+      if (process.listenerCount(signal) === 0) {
+        process.exit(128 + constants.signals[signal]);
+      }
+    });
+  });
+}
+
+/**
+ * Idempotent; returns the names of the transports attached
+ */
+export function configureLogTransports(): string[] {
+  if (configured) return [];
+  configured = true;
+
+  const names = (process.env.LOG_TRANSPORTS ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const attached: string[] = [];
+  for (const name of new Set(names)) {
+    const transport = createTransport(name);
+    if (transport) {
+      addLogTransport(transport);
+      attached.push(name);
+    }
+  }
+
+  if (attached.length > 0) {
+    // Deliver what is still buffered before the process exits
+    process.once('beforeExit', () => void closeLogTransports());
+    closeLogTransportsOn('SIGTERM');
+    closeLogTransportsOn('SIGINT');
+  }
+
+  return attached;
+}
@@ -0,0 +1,25 @@
+/**
+ * Stdout Log Transport
+ * Writes records to stdout as JSON lines for a log shipper to collect
+ */
+
+import type { LogTransport } from '@/utils/logger';
+import { createBatchingTransport, type BatchingOptions } from './batching';
+
+export function createStdoutTransport(
+  options: BatchingOptions = {},
+  stream: NodeJS.WritableStream = process.stdout,
+): LogTransport {
+  return createBatchingTransport(
+    'stdout',
+    (lines) =>
+      new Promise<void>((resolve, reject) => {
+        // Resolves once the stream has taken the chunk, so a slow
+        // consumer holds records in the bounded buffer instead
+        stream.write(`${lines.join('\n')}\n`, (error) =>
+          error ? reject(error) : resolve(),
+        );
+      }),
+    options,
+  );
+}
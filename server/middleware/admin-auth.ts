@@ -0,0 +1,44 @@
+/**
+ * Admin Authorization
+ * Restricts the admin console to sessions mapped to the admin app role:
+ * the Azure AD app role named by NEXT_PUBLIC_AZURE_AD_ADMIN_ROLE (default
+ * "Admin") or membership of one of AZURE_AD_ADMIN_GROUPS
+ */
+
+import type { NextRequest } from 'next/server';
+import { hasAppRole } from '@/lib/auth/roles';
+import { getUserTenantId } from '@/lib/redis/users';
+import {
+  getSessionAppRole,
+  getSessionTenantId,
+  requireSession,
+} from '@/server/middleware/session';
+import { assertRole } from '@/server/middleware/role-auth';
+import type { SessionModel } from '@/types/models';
+
+export function isAdminSession(session: SessionModel): boolean {
+  return hasAppRole(getSessionAppRole(session), 'admin');
+}
+
+/**
+ * Require an authenticated admin
+ * Throws AuthError without a session and ForbiddenError without the role
+ */
+export async function requireAdminSession(
+  request: NextRequest,
+): Promise<SessionModel> {
+  const session = await requireSession(request);
+  assertRole(request, session, 'admin');
+  return session;
+}
+
+/**
+ * Whether the user last signed in under the admin's tenant
+ * Admins only see and act on the users of their own tenant.
+ */
+export async function isUserInAdminTenant(
+  admin: SessionModel,
+  userId: string,
+): Promise<boolean> {
+  return (await getUserTenantId(userId)) === getSessionTenantId(admin);
+}
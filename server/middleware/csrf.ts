@@ -10,6 +10,7 @@ import { validateCsrfToken } from '@/lib/redis/session';
 import {
   getSessionFromRequest,
   getCsrfTokenFromRequest,
+  getSessionTenantId,
   requiresCsrfProtection,
   JWT_FALLBACK_PREFIX,
 } from '@/server/middleware/session';
@@ -17,6 +18,26 @@ import { getMsalTokenFromRequest } from '@/server/middleware/msal-auth';
 import { unauthorized } from '@/server/api-response';
 import { logWarn } from '@/utils/logger';
 import { isTestAuthRequest } from '@/server/utils/test-auth';
+import { recordAuditEvent } from '@/server/utils/audit';
+import type { AuditEventDetails, SessionModel } from '@/types/models';
+
+/**
+ * Only rejections tied to a session reach the audit log. Requests without
+ * one come before rate limiting from anyone at all, so they are logged
+ * only, and cannot grow the never-trimmed audit stream.
+ */
+async function auditRejection(
+  request: NextRequest,
+  session: SessionModel,
+  reason: AuditEventDetails['auth.csrf_rejected']['reason'],
+): Promise<void> {
+  await recordAuditEvent(request, {
+    type: 'auth.csrf_rejected',
+    actorId: session.userId,
+    tenantId: getSessionTenantId(session),
+    details: { reason },
+  });
+}
 
 /**
  * CSRF protection middleware
@@ -53,6 +74,7 @@ export async function withCsrfProtection(
 
   if (!csrfToken) {
     logWarn('CSRF check failed: Missing token', { sessionId: session.id });
+    await auditRejection(request, session, 'missing_token');
     return {
       valid: false,
       error: unauthorized('Missing CSRF token'),
@@ -66,6 +88,7 @@ export async function withCsrfProtection(
       logWarn('CSRF fallback failed: Missing MSAL token', {
         sessionId: session.id,
       });
+      await auditRejection(request, session, 'invalid_token');
       return {
         valid: false,
         error: unauthorized('Invalid CSRF token'),
@@ -76,6 +99,7 @@ export async function withCsrfProtection(
       logWarn('CSRF fallback failed: Token mismatch', {
         sessionId: session.id,
       });
+      await auditRejection(request, session, 'invalid_token');
       return {
         valid: false,
         error: unauthorized('Invalid CSRF token'),
@@ -89,6 +113,7 @@ export async function withCsrfProtection(
 
   if (!isValid) {
     logWarn('CSRF check failed: Invalid token', { sessionId: session.id });
+    await auditRejection(request, session, 'invalid_token');
     return {
       valid: false,
       error: unauthorized('Invalid CSRF token'),
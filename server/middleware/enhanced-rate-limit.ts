@@ -5,11 +5,13 @@
 
 import type { NextRequest } from 'next/server';
 import { getRedisClient } from '@/lib/redis/client';
+import { userRateLimitIdentifier } from '@/lib/redis/keys';
 import {
   withCircuitBreaker,
   redisCircuitBreaker,
 } from '@/lib/redis/circuit-breaker';
 import { tooManyRequests, serverError } from '@/server/api-response';
+import { recordAuditEvent } from '@/server/utils/audit';
 import { logWarn, logError } from '@/utils/logger';
 import {
   MILLISECONDS_PER_SECOND,
@@ -25,6 +27,7 @@ import {
   BACKOFF_EXPONENT,
   MIN_RETRY_AFTER_SECONDS,
 } from '@/lib/constants/retry';
+import type { RateLimitLockoutDTO } from '@/types/models';
 
 const DEFAULT_WINDOW_MS = ONE_MINUTE_IN_MS;
 const DEFAULT_MAX_REQUESTS = 10;
@@ -61,6 +64,17 @@ const DEFAULT_CONFIG: RateLimitConfig = {
   lockoutDurationMs: DEFAULT_LOCKOUT_DURATION_MS,
 };
 
+// Endpoints that lock accounts out; see chatRateLimit and withAuthRateLimit
+const LOCKOUT_ENDPOINTS = ['chat', 'auth'] as const;
+
+function rateLimitKeys(endpoint: string, identifier: string) {
+  return {
+    rateLimitKey: `ratelimit:${endpoint}:${identifier}`,
+    lockoutKey: `lockout:${endpoint}:${identifier}`,
+    attemptKey: `attempts:${endpoint}:${identifier}`,
+  };
+}
+
 /**
  * Calculate progressive delay based on attempt count
  */
@@ -110,9 +124,10 @@ export async function enhancedRateLimit(
   const fullConfig = { ...DEFAULT_CONFIG, ...config };
   const redis = getRedisClient();
 
-  const rateLimitKey = `ratelimit:${endpoint}:${identifier}`;
-  const lockoutKey = `lockout:${endpoint}:${identifier}`;
-  const attemptKey = `attempts:${endpoint}:${identifier}`;
+  const { rateLimitKey, lockoutKey, attemptKey } = rateLimitKeys(
+    endpoint,
+    identifier,
+  );
 
   // SECURITY (CRIT-02): Check Redis circuit breaker state before attempting rate limit
   // If Redis is down, fail CLOSED to prevent LLM cost abuse
@@ -227,6 +242,17 @@ export async function enhancedRateLimit(
             endpoint,
             attempts,
           });
+          await recordAuditEvent(request, {
+            type: 'rate_limit.lockout',
+            targetId: identifier,
+            details: {
+              endpoint,
+              attempts,
+              durationSeconds: Math.ceil(
+                fullConfig.lockoutDurationMs / MILLISECONDS_PER_SECOND,
+              ),
+            },
+          });
 
           return {
             allowed: false,
@@ -309,8 +335,11 @@ export async function enhancedRateLimit(
 export async function chatRateLimit(
   request: NextRequest,
   userId?: string | null,
+  tenantId?: string,
 ): Promise<{ allowed: boolean; error?: Response; retryAfter?: number }> {
-  const identifier = userId ? `user:${userId}` : `ip:${getClientIp(request)}`;
+  const identifier = userId
+    ? userRateLimitIdentifier(tenantId, userId)
+    : `ip:${getClientIp(request)}`;
 
   return enhancedRateLimit(request, identifier, 'chat', {
     windowMs: CHAT_WINDOW_MS,
@@ -321,3 +350,44 @@ export async function chatRateLimit(
     lockoutDurationMs: CHAT_LOCKOUT_DURATION_MS,
   });
 }
+
+/**
+ * Lockouts currently in force for an identifier
+ * (`tenant:<tenantId>:user:<id>` or `ip:<ip>`)
+ */
+export async function getLockouts(
+  identifier: string,
+): Promise<RateLimitLockoutDTO[]> {
+  const redis = getRedisClient();
+
+  const ttls = await Promise.all(
+    LOCKOUT_ENDPOINTS.map((endpoint) =>
+      redis.ttl(rateLimitKeys(endpoint, identifier).lockoutKey),
+    ),
+  );
+
+  // ttl is -2 for a missing key
+  return LOCKOUT_ENDPOINTS.flatMap((endpoint, index) =>
+    ttls[index] > 0 ? [{ endpoint, identifier, retryAfter: ttls[index] }] : [],
+  );
+}
+
+/**
+ * Lift lockouts for an identifier and reset its attempt and request counters
+ * Returns the number of lockouts lifted
+ */
+export async function clearLockouts(identifier: string): Promise<number> {
+  const redis = getRedisClient();
+  let lifted = 0;
+
+  for (const endpoint of LOCKOUT_ENDPOINTS) {
+    const { rateLimitKey, lockoutKey, attemptKey } = rateLimitKeys(
+      endpoint,
+      identifier,
+    );
+    lifted += (await redis.del(lockoutKey)) > 0 ? 1 : 0;
+    await redis.del(attemptKey, rateLimitKey);
+  }
+
+  return lifted;
+}
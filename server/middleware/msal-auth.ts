@@ -7,7 +7,18 @@ import type { NextRequest } from 'next/server';
 import type { JWTPayload } from 'jose';
 import { AuthError } from '@/utils/error-handler';
 import { logError, logWarn } from '@/utils/logger';
-import { createSession, getSession } from '@/lib/redis/session';
+import {
+  createSession,
+  getSession,
+  isTokenRevoked,
+} from '@/lib/redis/session';
+import { recordUserActivity } from '@/lib/redis/users';
+import { resolveAppRole, type AppRole } from '@/lib/auth/roles';
+import {
+  getAllowedTenantIds,
+  getConfiguredTenantId,
+  isTenantAllowed,
+} from '@/lib/auth/tenants';
 import type { SessionModel } from '@/types/models';
 import { HTTP_STATUS_UNAUTHORIZED } from '@/lib/constants/http-status';
 
@@ -26,17 +37,12 @@ export interface MsalTokenPayload extends JWTPayload {
   iss: string; // Issuer
   aud: string; // Audience
   tid: string; // Tenant ID
+  roles?: string[]; // App roles assigned to the user
+  groups?: string[]; // Security group object IDs (when the app emits them)
 }
 
-// Azure AD tenant ID and client ID from environment
-// NOTE: For multi-tenant applications, TENANT_ID should be set to a specific tenant ID
-// rather than 'common'. The 'common' endpoint cannot be used for JWKS validation.
-// If you need to support multiple tenants, the token's 'tid' claim should be used
-// to construct the JWKS URI dynamically.
-const TENANT_ID =
-  process.env.NEXT_PUBLIC_AZURE_AD_TENANT_ID ??
-  process.env.AZURE_AD_TENANT_ID ??
-  'common';
+// Azure AD client ID from environment; tenants are checked per token against
+// the allow-list in lib/auth/tenants.ts
 const CLIENT_ID =
   process.env.NEXT_PUBLIC_AZURE_AD_CLIENT_ID ??
   process.env.AZURE_AD_CLIENT_ID ??
@@ -93,12 +99,12 @@ if (!API_AUDIENCE_OVERRIDE && !DERIVED_AUDIENCE) {
 }
 
 // Validate configuration at module load time
-if (TENANT_ID === 'common') {
-  logWarn(
-    'MSAL configuration warning: TENANT_ID is set to "common". ' +
-    'This is not valid for JWKS validation in multi-tenant applications. ' +
-    'Please set NEXT_PUBLIC_AZURE_AD_TENANT_ID to your specific tenant ID. ' +
-    'See: https://docs.microsoft.com/en-us/azure/active-directory/develop/howto-convert-app-to-be-multi-tenant'
+if (getAllowedTenantIds().length === 0) {
+  logError(
+    'MSAL configuration error: no tenant is allowed to sign in. ' +
+      `NEXT_PUBLIC_AZURE_AD_TENANT_ID is "${getConfiguredTenantId()}"; ` +
+      'set AZURE_AD_ALLOWED_TENANT_IDS to the tenant IDs that may sign in ' +
+      '(or "*" for any tenant).',
   );
 }
 
@@ -115,22 +121,40 @@ async function loadJose(): Promise<JoseModule> {
   return joseModulePromise;
 }
 
+// With AZURE_AD_ALLOWED_TENANT_IDS="*" any tenant can be looked up, so the
+// cache keeps the most recently used tenants only
+const MAX_CACHED_JWKS = 100;
 const jwksCache = new Map<string, RemoteJwks>();
 
+// The directory only needs a rough last-seen time, not a write per request
+const USER_ACTIVITY_INTERVAL_MS = 60 * 1000;
+const MAX_TRACKED_USERS = 10000;
+const lastActivityRecordedAt = new Map<string, number>();
+
 /**
  * Get or create a JWKS set for a specific tenant
- * This ensures proper token validation for multi-tenant scenarios
+ * Map order tracks use: a hit moves the tenant to the end, and the tenant at
+ * the front is evicted when the cache is full
  */
 async function getJWKSForTenant(tenantId: string): Promise<RemoteJwks> {
-  if (!jwksCache.has(tenantId)) {
-    const { createRemoteJWKSet } = await loadJose();
-    const jwksUri = `https://login.microsoftonline.com/${tenantId}/discovery/v2.0/keys`;
-    jwksCache.set(tenantId, createRemoteJWKSet(new URL(jwksUri)));
+  const cached = jwksCache.get(tenantId);
+  if (cached) {
+    jwksCache.delete(tenantId);
+    jwksCache.set(tenantId, cached);
+    return cached;
   }
-  const jwks = jwksCache.get(tenantId);
-  if (!jwks) {
-    throw new Error('Failed to initialize JWKS');
+
+  const { createRemoteJWKSet } = await loadJose();
+  const jwksUri = `https://login.microsoftonline.com/${tenantId}/discovery/v2.0/keys`;
+  const jwks = createRemoteJWKSet(new URL(jwksUri));
+
+  if (jwksCache.size >= MAX_CACHED_JWKS) {
+    const leastRecent = jwksCache.keys().next().value;
+    if (leastRecent !== undefined) {
+      jwksCache.delete(leastRecent);
+    }
   }
+  jwksCache.set(tenantId, jwks);
   return jwks;
 }
 
@@ -164,6 +188,14 @@ export async function validateMsalToken(
       return null;
     }
 
+    // Refuse unknown tenants before resolving their signing keys
+    if (!isTenantAllowed(tokenTenantId)) {
+      logWarn('MSAL token from a tenant that is not allowed', {
+        tenantId: tokenTenantId,
+      });
+      return null;
+    }
+
     // Get JWKS for the specific tenant from the token
     const { jwtVerify } = await loadJose();
     const JWKS = await getJWKSForTenant(tokenTenantId);
@@ -187,15 +219,6 @@ export async function validateMsalToken(
       return null;
     }
 
-    // If a specific tenant is configured, validate the token is from that tenant
-    if (TENANT_ID !== 'common' && msalPayload.tid !== TENANT_ID) {
-      logWarn('MSAL token tenant mismatch', {
-        expected: TENANT_ID,
-        actual: msalPayload.tid,
-      });
-      return null;
-    }
-
     return msalPayload;
   } catch (error) {
     // Log specific verification errors
@@ -211,6 +234,69 @@ export async function validateMsalToken(
   }
 }
 
+/**
+ * App roles carried by the token
+ */
+export function getTokenRoles(payload: MsalTokenPayload): string[] {
+  return Array.isArray(payload.roles)
+    ? payload.roles.filter((role): role is string => typeof role === 'string')
+    : [];
+}
+
+/**
+ * Security groups carried by the token
+ * Users in too many groups get an overage claim instead of the list; they
+ * resolve from their app roles alone.
+ */
+export function getTokenGroups(payload: MsalTokenPayload): string[] {
+  return Array.isArray(payload.groups)
+    ? payload.groups.filter(
+        (group): group is string => typeof group === 'string',
+      )
+    : [];
+}
+
+/**
+ * Application role the token's roles and groups map to
+ */
+export function getTokenAppRole(payload: MsalTokenPayload): AppRole {
+  return resolveAppRole({
+    roles: getTokenRoles(payload),
+    groups: getTokenGroups(payload),
+  });
+}
+
+/**
+ * Note the token's user in the user directory, at most once a minute per
+ * user. Best effort: a failed write never blocks the request.
+ */
+export async function trackUserActivity(
+  payload: MsalTokenPayload,
+): Promise<void> {
+  const now = Date.now();
+  const last = lastActivityRecordedAt.get(payload.oid);
+  if (last !== undefined && now - last < USER_ACTIVITY_INTERVAL_MS) {
+    return;
+  }
+
+  if (lastActivityRecordedAt.size >= MAX_TRACKED_USERS) {
+    lastActivityRecordedAt.clear();
+  }
+  lastActivityRecordedAt.set(payload.oid, now);
+
+  try {
+    await recordUserActivity({
+      userId: payload.oid,
+      email: payload.preferred_username,
+      name: payload.name,
+      tenantId: payload.tid,
+      role: getTokenAppRole(payload),
+    });
+  } catch (error) {
+    logWarn('Failed to record user activity', { userId: payload.oid, error });
+  }
+}
+
 /**
  * Get MSAL token from request Authorization header
  */
@@ -252,6 +338,12 @@ export async function authenticateWithMsal(
       return null;
     }
 
+    // Tokens issued before a forced sign-out no longer open sessions
+    if (await isTokenRevoked(payload.oid, payload.iat)) {
+      logWarn('MSAL token revoked by forced sign-out', { userId: payload.oid });
+      return null;
+    }
+
     // Check if session already exists
     const sessionId = request.cookies.get('session_id')?.value;
     if (sessionId) {
@@ -268,7 +360,11 @@ export async function authenticateWithMsal(
       ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined,
       email: payload.preferred_username,
       name: payload.name,
+      tenantId: payload.tid,
+      roles: getTokenRoles(payload),
+      appRole: getTokenAppRole(payload),
     });
+    await trackUserActivity(payload);
 
     return session;
   } catch (error) {
@@ -0,0 +1,36 @@
+/**
+ * Operator Authentication
+ * Bearer-token guard for operational endpoints (scheduled sweeps,
+ * compliance tooling) that act across users and have no browser session
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+const BEARER_PREFIX = 'Bearer ';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * True when the request carries OPERATOR_API_TOKEN.
+ * Operator endpoints are disabled while the token is unset.
+ */
+export function isOperatorRequest(request: NextRequest): boolean {
+  const expected = process.env.OPERATOR_API_TOKEN;
+  if (!expected) {
+    return false;
+  }
+
+  const header = request.headers.get('authorization');
+  if (!header?.startsWith(BEARER_PREFIX)) {
+    return false;
+  }
+
+  // Digests keep the comparison constant-time regardless of length
+  return timingSafeEqual(
+    digest(header.slice(BEARER_PREFIX.length)),
+    digest(expected),
+  );
+}
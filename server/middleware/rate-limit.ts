@@ -9,7 +9,12 @@ import { checkRateLimit, RATE_LIMITS } from '@/lib/rate-limiter';
 import { getRedisClient } from '@/lib/redis/client';
 import { redisCircuitBreaker } from '@/lib/redis/circuit-breaker';
 import { tooManyRequests, serverError } from '@/server/api-response';
-import { getSessionFromRequest } from '@/server/middleware/session';
+import {
+  getSessionFromRequest,
+  getSessionTenantId,
+} from '@/server/middleware/session';
+import { userRateLimitIdentifier } from '@/lib/redis/keys';
+import type { SessionModel } from '@/types/models';
 import {
   chatRateLimit,
   enhancedRateLimit,
@@ -74,7 +79,7 @@ function getClientIp(request: NextRequest): string {
  */
 function getRateLimitIdentifiers(
   request: NextRequest,
-  userId?: string,
+  session?: SessionModel | null,
 ): string[] {
   const identifiers: string[] = [];
   const clientIp = getClientIp(request);
@@ -83,8 +88,10 @@ function getRateLimitIdentifiers(
   identifiers.push(`ip:${clientIp}`);
 
   // Also track user if authenticated
-  if (userId) {
-    identifiers.push(`user:${userId}`);
+  if (session) {
+    identifiers.push(
+      userRateLimitIdentifier(getSessionTenantId(session), session.userId),
+    );
   }
 
   return identifiers;
@@ -130,10 +137,10 @@ async function checkAllRateLimits(
  */
 function getPrimaryRateLimitIdentifier(
   request: NextRequest,
-  userId?: string,
+  session?: SessionModel | null,
 ): string {
-  if (userId) {
-    return `user:${userId}`;
+  if (session) {
+    return userRateLimitIdentifier(getSessionTenantId(session), session.userId);
   }
 
   return `ip:${getClientIp(request)}`;
@@ -202,7 +209,7 @@ export async function withRateLimit(
 
     // SECURITY (MED-01): Check all identifiers (both IP and user if authenticated)
     // This prevents users from bypassing rate limits by logging in/out
-    const identifiers = getRateLimitIdentifiers(request, session?.userId);
+    const identifiers = getRateLimitIdentifiers(request, session);
     const result = await checkAllRateLimits(redis, identifiers, config);
 
     if (!result.allowed) {
@@ -276,24 +283,27 @@ export function withChatRateLimit(
   // Previously this applied BOTH chatRateLimit AND requireRateLimit, causing inconsistency
 
   return async (request: NextRequest, context?: unknown) => {
-    let userId: string | null = null;
+    let session: SessionModel | null = null;
 
     try {
-      const session = await getSessionFromRequest(request);
-      userId = session?.userId ?? null;
+      session = await getSessionFromRequest(request);
     } catch (error) {
       logWarn('Failed to read session for chat rate limit', { error });
     }
 
     // SECURITY (HIGH-03): Check global LLM rate limit first (shared across all LLM endpoints)
     const { allowed: globalAllowed, error: globalError } =
-      await checkGlobalLLMRateLimit(request, userId);
+      await checkGlobalLLMRateLimit(request, session);
     if (!globalAllowed && globalError) {
       return globalError;
     }
 
     // Then check chat-specific rate limit
-    const { allowed, error } = await chatRateLimit(request, userId);
+    const { allowed, error } = await chatRateLimit(
+      request,
+      session?.userId ?? null,
+      session ? getSessionTenantId(session) : undefined,
+    );
 
     if (!allowed && error) {
       return error;
@@ -309,7 +319,7 @@ export function withChatRateLimit(
  */
 async function checkGlobalLLMRateLimit(
   request: NextRequest,
-  userId: string | null,
+  session: SessionModel | null,
 ): Promise<{ allowed: boolean; error?: Response }> {
   // SECURITY (MED-03): Check Redis circuit breaker first
   if (isRedisCircuitBreakerOpen()) {
@@ -330,7 +340,7 @@ async function checkGlobalLLMRateLimit(
 
   try {
     const redis = getRedisClient();
-    const identifier = userId ? `user:${userId}` : `ip:${getClientIp(request)}`;
+    const identifier = getPrimaryRateLimitIdentifier(request, session);
 
     const result = await checkRateLimit(
       redis,
@@ -0,0 +1,108 @@
+/**
+ * Role-Based Access Control
+ * Guards for the application roles mapped from Azure AD app roles and
+ * groups (lib/auth/roles). `requireRole` wraps a session handler, so it
+ * stacks under either authentication wrapper:
+ *
+ *   withSession(requireRole('power-user', handler))
+ *   withMsalAuth(requireRole('admin', handler))
+ */
+
+import type { NextRequest } from 'next/server';
+import { hasAppRole, type AppRole } from '@/lib/auth/roles';
+import {
+  isKnownChatModel,
+  isModelAllowedForRole,
+} from '@/lib/auth/role-limits';
+import {
+  getSessionAppRole,
+  type SessionHandler,
+} from '@/server/middleware/session';
+import { badRequest, forbidden } from '@/server/api-response';
+import type { SessionModel } from '@/types/models';
+import { ForbiddenError } from '@/utils/error-handler';
+import { logWarn } from '@/utils/logger';
+
+/**
+ * Throw ForbiddenError unless the session holds `required` or a higher role
+ */
+export function assertRole(
+  request: NextRequest,
+  session: SessionModel,
+  required: AppRole,
+): void {
+  const role = getSessionAppRole(session);
+  if (hasAppRole(role, required)) {
+    return;
+  }
+
+  logWarn('Role access denied', {
+    userId: session.userId,
+    role,
+    required,
+    path: request.nextUrl.pathname,
+  });
+  throw new ForbiddenError(`${required} role required`);
+}
+
+/**
+ * Middleware wrapper that responds 403 unless the session holds `required`
+ * or a higher role
+ */
+export function requireRole(
+  required: AppRole,
+  handler: SessionHandler,
+): SessionHandler {
+  return async (request, session, context) => {
+    try {
+      assertRole(request, session, required);
+    } catch (error) {
+      if (error instanceof ForbiddenError) {
+        return forbidden(error.message);
+      }
+      throw error;
+    }
+
+    return handler(request, session, context);
+  };
+}
+
+export interface ModelAccessCheck {
+  allowed: boolean;
+  error?: Response;
+}
+
+/**
+ * Whether the session's role may use the chat model (see lib/auth/role-limits)
+ * A model the provider does not offer is a bad request rather than a denial.
+ */
+export function checkModelAccess(
+  session: SessionModel,
+  model: string | undefined,
+): ModelAccessCheck {
+  const role = getSessionAppRole(session);
+  if (isModelAllowedForRole(role, model)) {
+    return { allowed: true };
+  }
+
+  if (model !== undefined && !isKnownChatModel(model)) {
+    return {
+      allowed: false,
+      error: badRequest(
+        `The ${model} model is not offered by the configured LLM provider. Choose another model in the chat settings.`,
+      ),
+    };
+  }
+
+  logWarn('Chat model not allowed for role', {
+    userId: session.userId,
+    role,
+    model,
+  });
+  return {
+    allowed: false,
+    error: forbidden(
+      `The ${model} model is not available to your account. Choose another model in the chat settings.`,
+    ),
+  };
+}
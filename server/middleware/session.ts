@@ -7,17 +7,27 @@ import { createHash } from 'crypto';
 import type { NextRequest } from 'next/server';
 import { cookies } from 'next/headers';
 
-import { getSession, refreshSession } from '@/lib/redis/session';
+import {
+  getSession,
+  isTokenRevoked,
+  refreshSession,
+} from '@/lib/redis/session';
 import { isRedisUnavailableError } from '@/lib/redis/errors';
 import {
   getMsalTokenFromRequest,
+  getTokenAppRole,
+  getTokenRoles,
+  trackUserActivity,
   validateMsalToken,
 } from '@/server/middleware/msal-auth';
+import { isAppRole, resolveAppRole, type AppRole } from '@/lib/auth/roles';
 import type { SessionModel } from '@/types/models';
+import { unauthorized } from '@/server/api-response';
 import { AuthError } from '@/utils/error-handler';
 import { logWarn } from '@/utils/logger';
 import { MILLISECONDS_PER_SECOND } from '@/lib/constants/common';
 import { shouldBypassAuth } from '@/server/utils/test-auth';
+import { recordAuditEvent } from '@/server/utils/audit';
 
 const SESSION_COOKIE_NAME = 'session_id';
 const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
@@ -31,8 +41,14 @@ const SESSION_COOKIE_OPTIONS = {
 };
 
 export const JWT_FALLBACK_PREFIX = 'jwt-fallback';
-const BYPASS_SESSION_ID = `${JWT_FALLBACK_PREFIX}:bypass-user`;
+const BYPASS_USER_ID = 'bypass-user';
+const BYPASS_SESSION_ID = `${JWT_FALLBACK_PREFIX}:${BYPASS_USER_ID}`;
 const BYPASS_CSRF_TOKEN = 'bypass-csrf-token';
+// Bypassed requests are audited at most once per IP per interval
+const BYPASS_AUDIT_INTERVAL_MS = 60 * MILLISECONDS_PER_SECOND;
+
+// Per-process; each instance audits its own bypassed requests
+const bypassAuditedAt = new Map<string, number>();
 
 function getClientIp(request: NextRequest): string | undefined {
   const forwarded = request.headers.get('x-forwarded-for');
@@ -48,7 +64,7 @@ function createBypassSession(request: NextRequest): SessionModel {
   const now = new Date();
   return {
     id: BYPASS_SESSION_ID,
-    userId: 'bypass-user',
+    userId: BYPASS_USER_ID,
     csrfToken: BYPASS_CSRF_TOKEN,
     data: {
       userAgent: request.headers.get('user-agent') ?? undefined,
@@ -66,6 +82,25 @@ function createBypassSession(request: NextRequest): SessionModel {
   };
 }
 
+async function auditBypass(request: NextRequest): Promise<void> {
+  const ip = getClientIp(request) ?? 'unknown';
+  const now = Date.now();
+  const lastAuditedAt = bypassAuditedAt.get(ip);
+  if (lastAuditedAt && now - lastAuditedAt < BYPASS_AUDIT_INTERVAL_MS) {
+    return;
+  }
+  bypassAuditedAt.set(ip, now);
+
+  await recordAuditEvent(request, {
+    type: 'auth.bypass_used',
+    actorId: BYPASS_USER_ID,
+    details: {
+      source: process.env.BYPASS_AUTH === 'true' ? 'bypass-auth' : 'test-auth',
+      path: request.nextUrl.pathname,
+    },
+  });
+}
+
 async function getSessionFromJwtFallback(
   request: NextRequest,
   reason:
@@ -84,6 +119,22 @@ async function getSessionFromJwtFallback(
     return null;
   }
 
+  // Without Redis there is nothing to check against or record to
+  if (reason !== 'redis_unavailable') {
+    try {
+      if (await isTokenRevoked(payload.oid, payload.iat)) {
+        logWarn('JWT fallback refused - token revoked by forced sign-out', {
+          userId: payload.oid,
+        });
+        return null;
+      }
+    } catch (error) {
+      logWarn('Token revocation check failed', { userId: payload.oid, error });
+    }
+
+    await trackUserActivity(payload);
+  }
+
   const now = new Date();
   const expiresAt = new Date(payload.exp * MILLISECONDS_PER_SECOND);
   const csrfToken = createHash('sha256').update(token).digest('hex');
@@ -102,6 +153,9 @@ async function getSessionFromJwtFallback(
       ipAddress: getClientIp(request),
       email: payload.preferred_username,
       name: payload.name,
+      tenantId: payload.tid,
+      roles: getTokenRoles(payload),
+      appRole: getTokenAppRole(payload),
       lastActivityAt: now,
       source: 'jwt-fallback',
     },
@@ -111,6 +165,35 @@ async function getSessionFromJwtFallback(
   };
 }
 
+/**
+ * Azure AD tenant the session was issued for, when known
+ */
+export function getSessionTenantId(session: SessionModel): string | undefined {
+  const { tenantId } = session.data;
+  return typeof tenantId === 'string' ? tenantId : undefined;
+}
+
+/**
+ * Azure AD app roles the session was issued with
+ */
+export function getSessionRoles(session: SessionModel): string[] {
+  const { roles } = session.data;
+  return Array.isArray(roles)
+    ? roles.filter((role): role is string => typeof role === 'string')
+    : [];
+}
+
+/**
+ * Application role stored on the session
+ * Sessions created before roles were mapped resolve from their app roles.
+ */
+export function getSessionAppRole(session: SessionModel): AppRole {
+  const { appRole } = session.data;
+  return isAppRole(appRole)
+    ? appRole
+    : resolveAppRole({ roles: getSessionRoles(session) });
+}
+
 /**
  * Get session from request
  */
@@ -120,6 +203,7 @@ export async function getSessionFromRequest(
   // SECURITY (CRIT-02): shouldBypassAuth already checks production,
   // but we add an extra guard here for defense in depth
   if (process.env.NODE_ENV !== 'production' && shouldBypassAuth(request)) {
+    await auditBypass(request);
     return createBypassSession(request);
   }
 
@@ -209,3 +293,34 @@ export function getCsrfTokenFromRequest(request: NextRequest): string | null {
 export function requiresCsrfProtection(method: string): boolean {
   return ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method.toUpperCase());
 }
+
+/**
+ * Route handler that receives the authenticated session
+ */
+export type SessionHandler = (
+  request: NextRequest,
+  session: SessionModel,
+  context?: unknown,
+) => Promise<Response>;
+
+/**
+ * Middleware wrapper for session authentication
+ * Responds 401 without a session, like withMsalAuth does without a token
+ */
+export function withSession(
+  handler: SessionHandler,
+): (request: NextRequest, context?: unknown) => Promise<Response> {
+  return async (request: NextRequest, context?: unknown) => {
+    let session: SessionModel;
+    try {
+      session = await requireSession(request);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return unauthorized(error.message);
+      }
+      throw error;
+    }
+
+    return handler(request, session, context);
+  };
+}
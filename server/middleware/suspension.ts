@@ -0,0 +1,42 @@
+/**
+ * Chat Suspension Middleware
+ * Stops users an admin has suspended from sending messages
+ */
+
+import { getUserSuspension } from '@/lib/redis/users';
+import { forbidden, serverError } from '@/server/api-response';
+import { logError, logWarn } from '@/utils/logger';
+
+export interface SuspensionCheck {
+  allowed: boolean;
+  error?: Response;
+}
+
+/**
+ * Fails CLOSED like the usage quota: a suspension that cannot be read
+ * cannot be ruled out
+ */
+export async function checkChatSuspension(
+  userId: string,
+): Promise<SuspensionCheck> {
+  try {
+    const suspension = await getUserSuspension(userId);
+    if (!suspension) {
+      return { allowed: true };
+    }
+
+    logWarn('Suspended user attempted to chat', { userId });
+    return {
+      allowed: false,
+      error: forbidden('Your account has been suspended from chatting.'),
+    };
+  } catch (error) {
+    logError('Suspension check failed - failing closed', error, { userId });
+    return {
+      allowed: false,
+      error: serverError(
+        'Account status temporarily unavailable. Please try again.',
+      ),
+    };
+  }
+}
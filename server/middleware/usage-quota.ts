@@ -0,0 +1,138 @@
+/**
+ * Usage Quota Middleware
+ * Enforces the configured per-user and per-tenant token and cost quotas
+ * before an LLM call, and reports the remaining budget in X-Quota-* headers
+ * next to the rate-limit ones
+ */
+
+import type { LLMUsageAccount } from '@/lib/llm/providers';
+import {
+  isQuotaExhausted,
+  type UsageMetric,
+  type UsageQuotaStatus,
+} from '@/lib/llm/usage';
+import { getUsageQuotaStatuses } from '@/lib/redis/usage';
+import { serverError, tooManyRequests } from '@/server/api-response';
+import { MILLISECONDS_PER_SECOND } from '@/lib/constants/common';
+import { logError, logWarn } from '@/utils/logger';
+
+const QUOTA_HEADER_PREFIX: Record<UsageMetric, string> = {
+  tokens: 'X-Quota-Tokens',
+  cost: 'X-Quota-Cost',
+};
+
+const QUOTA_LABELS = {
+  scope: { user: 'Your', tenant: "Your organization's" },
+  period: { day: 'daily', month: 'monthly' },
+  metric: { tokens: 'token', cost: 'spending' },
+} as const;
+
+export interface UsageQuotaCheck {
+  allowed: boolean;
+  /** Remaining-budget headers to attach to the response */
+  headers: Record<string, string>;
+  error?: Response;
+}
+
+/**
+ * Headers for the tightest quota on each metric
+ */
+function buildQuotaHeaders(
+  statuses: UsageQuotaStatus[],
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const metric of Object.keys(QUOTA_HEADER_PREFIX) as UsageMetric[]) {
+    const tightest = statuses
+      .filter((status) => status.metric === metric)
+      .sort((a, b) => a.remaining - b.remaining)[0];
+    if (!tightest) continue;
+
+    const prefix = QUOTA_HEADER_PREFIX[metric];
+    headers[`${prefix}-Limit`] = String(tightest.limit);
+    headers[`${prefix}-Remaining`] = String(tightest.remaining);
+    headers[`${prefix}-Reset`] = tightest.resetAt.toISOString();
+  }
+
+  return headers;
+}
+
+function describeExhaustedQuota(status: UsageQuotaStatus): string {
+  return `${QUOTA_LABELS.scope[status.scope]} ${QUOTA_LABELS.period[status.period]} ${QUOTA_LABELS.metric[status.metric]} quota has been used up. It resets at ${status.resetAt.toISOString()}.`;
+}
+
+/**
+ * Check the account against its quotas, with the per-user ones scaled by
+ * `quotaMultiplier` (see lib/auth/role-limits)
+ * Fails CLOSED like the LLM rate limits: without the counters there is no
+ * way to bound spend.
+ */
+export async function checkUsageQuota(
+  account: LLMUsageAccount,
+  quotaMultiplier: number = 1,
+): Promise<UsageQuotaCheck> {
+  let statuses: UsageQuotaStatus[];
+
+  try {
+    statuses = await getUsageQuotaStatuses(
+      account,
+      new Date(),
+      quotaMultiplier,
+    );
+  } catch (error) {
+    logError('Usage quota check failed - failing closed', error, {
+      userId: account.userId,
+      tenantId: account.tenantId,
+    });
+    return {
+      allowed: false,
+      headers: {},
+      error: serverError(
+        'Usage quota service temporarily unavailable. Please try again.',
+      ),
+    };
+  }
+
+  const headers = buildQuotaHeaders(statuses);
+
+  // Every exhausted quota has to reset before the next call can go out
+  const blocking = statuses
+    .filter(isQuotaExhausted)
+    .sort((a, b) => b.resetAt.getTime() - a.resetAt.getTime())[0];
+
+  if (!blocking) {
+    return { allowed: true, headers };
+  }
+
+  logWarn('Usage quota exceeded', {
+    userId: account.userId,
+    tenantId: account.tenantId,
+    scope: blocking.scope,
+    period: blocking.period,
+    metric: blocking.metric,
+    limit: blocking.limit,
+    used: blocking.used,
+  });
+
+  const retryAfter = Math.max(
+    Math.ceil(
+      (blocking.resetAt.getTime() - Date.now()) / MILLISECONDS_PER_SECOND,
+    ),
+    1,
+  );
+
+  const error = tooManyRequests(describeExhaustedQuota(blocking), {
+    retryAfter,
+    type: 'quota',
+    scope: blocking.scope,
+    period: blocking.period,
+    metric: blocking.metric,
+    limit: blocking.limit,
+    resetAt: blocking.resetAt.toISOString(),
+  });
+  Object.entries(headers).forEach(([key, value]) => {
+    error.headers.set(key, value);
+  });
+
+  return { allowed: false, headers, error };
+}
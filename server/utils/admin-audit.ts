@@ -0,0 +1,43 @@
+/**
+ * Admin Audit Logging
+ * One structured log entry and one audit log event per admin action: who did
+ * what to whom, from where
+ */
+
+import type { NextRequest } from 'next/server';
+import { getSessionTenantId } from '@/server/middleware/session';
+import { getRequestIp, recordAuditEvent } from '@/server/utils/audit';
+import type {
+  AuditEventDetails,
+  AuditEventType,
+  SessionModel,
+} from '@/types/models';
+import { logInfo } from '@/utils/logger';
+
+export type AdminAction = Extract<AuditEventType, `user.${string}`>;
+
+export async function auditAdminAction<A extends AdminAction>(
+  request: NextRequest,
+  admin: SessionModel,
+  action: A,
+  targetUserId: string,
+  details: AuditEventDetails[A],
+): Promise<void> {
+  logInfo('Admin action', {
+    audit: true,
+    action,
+    actorId: admin.userId,
+    actorEmail: admin.data.email,
+    actorIp: getRequestIp(request),
+    targetUserId,
+    ...details,
+  });
+
+  await recordAuditEvent(request, {
+    type: action,
+    actorId: admin.userId,
+    tenantId: getSessionTenantId(admin),
+    targetId: targetUserId,
+    details,
+  });
+}
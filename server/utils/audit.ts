@@ -0,0 +1,30 @@
+/**
+ * Audit Events
+ * Records security events from API requests in the audit log
+ */
+
+import type { NextRequest } from 'next/server';
+import { appendAuditEvent, type AuditEventInput } from '@/lib/redis/audit';
+import type { AuditEventModel, AuditEventType } from '@/types/models';
+
+export function getRequestIp(request: NextRequest): string | undefined {
+  return (
+    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ??
+    request.headers.get('x-real-ip') ??
+    undefined
+  );
+}
+
+/**
+ * Append an event, taking the IP from the request unless one is given.
+ * Resolves to null when the event could not be stored; never rejects.
+ */
+export function recordAuditEvent<T extends AuditEventType>(
+  request: NextRequest | null,
+  input: AuditEventInput<T>,
+): Promise<AuditEventModel | null> {
+  return appendAuditEvent({
+    ...input,
+    ip: input.ip ?? (request ? getRequestIp(request) : undefined),
+  });
+}
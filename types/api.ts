@@ -41,7 +41,7 @@ export interface ChatMessage {
   content: string;
   createdAt: string;
   updatedAt: string;
-  status?: 'sending' | 'sent' | 'failed' | 'read';
+  status?: 'sending' | 'sent' | 'failed' | 'read' | 'stopped';
   parentMessageId?: string;
   metadata?: {
     model?: string;
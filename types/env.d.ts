@@ -31,6 +31,7 @@ declare namespace NodeJS {
     NEXT_PUBLIC_TEST_AUTH_MODE?: string;
     AZURE_AD_CLIENT_ID?: string;
     AZURE_AD_TENANT_ID?: string;
+    AZURE_AD_ALLOWED_TENANT_IDS?: string;
     AZURE_AD_REDIRECT_URI?: string;
     AZURE_AD_POST_LOGOUT_REDIRECT_URI?: string;
     AZURE_AD_CHAT_SCOPE?: string;
@@ -41,6 +42,12 @@ declare namespace NodeJS {
     NEXT_PUBLIC_REDIRECT_URI?: string;
     NEXT_PUBLIC_POST_LOGOUT_REDIRECT_URI?: string;
     NEXT_PUBLIC_AZURE_AD_CHAT_SCOPE?: string;
+    NEXT_PUBLIC_AZURE_AD_ADMIN_ROLE?: string;
+    NEXT_PUBLIC_AZURE_AD_ADMIN_GROUPS?: string;
+    AZURE_AD_ADMIN_ROLE?: string;
+    AZURE_AD_POWER_USER_ROLE?: string;
+    AZURE_AD_ADMIN_GROUPS?: string;
+    AZURE_AD_POWER_USER_GROUPS?: string;
 
     // Node Environment
     NODE_ENV: 'development' | 'production' | 'test';
@@ -56,7 +63,30 @@ declare namespace NodeJS {
     // External Services
     SENTRY_DSN?: string;
     VERCEL_ANALYTICS_ID?: string;
+    LLM_PROVIDER?: 'gemini' | 'openai-compatible' | 'mock';
     GEMINI_API_KEY?: string;
     GEMINI_MODEL?: string;
+    OPENAI_COMPAT_BASE_URL?: string;
+    OPENAI_COMPAT_API_KEY?: string;
+    OPENAI_COMPAT_MODEL?: string;
+
+    // Chat storage: redis (default) or sqlite (durable, Redis as cache)
+    CHAT_STORE?: 'redis' | 'sqlite';
+    SQLITE_DATABASE_PATH?: string;
+
+    // Token usage quotas; unset means unlimited. Cost is estimated USD.
+    USAGE_QUOTA_USER_DAILY_TOKENS?: string;
+    USAGE_QUOTA_USER_MONTHLY_TOKENS?: string;
+    USAGE_QUOTA_USER_DAILY_COST_USD?: string;
+    USAGE_QUOTA_USER_MONTHLY_COST_USD?: string;
+    USAGE_QUOTA_TENANT_DAILY_TOKENS?: string;
+    USAGE_QUOTA_TENANT_MONTHLY_TOKENS?: string;
+    USAGE_QUOTA_TENANT_DAILY_COST_USD?: string;
+    USAGE_QUOTA_TENANT_MONTHLY_COST_USD?: string;
+    USAGE_QUOTA_MULTIPLIER_POWER_USER?: string;
+    USAGE_QUOTA_MULTIPLIER_ADMIN?: string;
+
+    // Operational endpoints (retention sweeps, legal holds, migrations)
+    OPERATOR_API_TOKEN?: string;
   }
 }
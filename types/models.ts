@@ -26,10 +26,59 @@ export interface ChatModel {
   userId: string;
   title: string;
   archived: boolean;
+  settings?: ChatSettings;
+  tenantId?: string;
+  legalHold?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Chat settings
+ * Per-conversation generation overrides; unset fields use server defaults
+ */
+export interface ChatSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+}
+
+/**
+ * Retention policy
+ * How long chats are kept; a user policy overrides the tenant policy
+ */
+export type RetentionPolicy =
+  | { mode: 'forever' }
+  | { mode: 'since_creation'; days: number }
+  | { mode: 'since_activity'; days: number };
+
+/**
+ * Persona model
+ * Named, reusable system prompt owned by a user
+ */
+export interface PersonaModel {
+  id: string;
+  userId: string;
+  name: string;
+  systemPrompt: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Share link model
+ * Grants read-only public access to one chat until revoked or expired
+ */
+export interface ShareLinkModel {
+  token: string;
+  chatId: string;
+  userId: string;
+  tenantId?: string;
+  createdAt: Date;
+  expiresAt: Date | null;
+}
+
 /**
  * Message model
  * Represents a single message in a chat
@@ -39,7 +88,7 @@ export interface MessageModel {
   chatId: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
-  status: 'sending' | 'sent' | 'failed' | 'read';
+  status: 'sending' | 'sent' | 'failed' | 'read' | 'stopped';
   parentMessageId: string | null;
   metadata: MessageMetadata | null;
   createdAt: Date;
@@ -59,6 +108,10 @@ export interface MessageMetadata {
   contextTruncated?: boolean;
   messagesRemoved?: number;
   circuitBreakerOpen?: boolean;
+  editedFromMessageId?: string;
+  regeneratedFromMessageId?: string;
+  /** Generation was cancelled; content holds what streamed before */
+  stopped?: boolean;
   [key: string]: unknown;
 }
 
@@ -119,24 +172,242 @@ export interface ChatDTO {
   userId: string;
   title: string;
   archived: boolean;
+  settings: ChatSettings;
+  legalHold?: boolean;
   createdAt: string;
   updatedAt: string;
   messageCount?: number;
   lastMessage?: MessageDTO;
 }
 
+export interface PersonaDTO {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface MessageDTO {
   id: string;
   chatId: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
-  status: 'sending' | 'sent' | 'failed' | 'read';
+  status: 'sending' | 'sent' | 'failed' | 'read' | 'stopped';
   parentMessageId: string | null;
   metadata: MessageMetadata | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ShareLinkDTO {
+  token: string;
+  chatId: string;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+/**
+ * What the owner sees before sharing: the fields that will be stripped
+ */
+export interface ShareRedactionPreview {
+  messageCount: number;
+  redactedFields: string[];
+}
+
+/**
+ * Public, read-only view of a shared chat; messages carry no metadata
+ */
+export interface SharedChatDTO {
+  title: string;
+  createdAt: string;
+  messages: MessageDTO[];
+}
+
+export interface MessageSearchResultDTO {
+  messageId: string;
+  chatId: string;
+  chatTitle: string;
+  role: MessageDTO['role'];
+  /** Excerpt around the first match */
+  snippet: string;
+  /** [start, end) offsets of matched terms within the snippet */
+  highlights: Array<[number, number]>;
+  createdAt: string;
+}
+
+/**
+ * Tokens and estimated cost (USD) of the AI responses in one slice of a
+ * usage report
+ */
+export interface UsageSummaryDTO {
+  tokens: number;
+  cost: number;
+  responses: number;
+}
+
+/**
+ * A user's usage over a date range, computed from stored message metadata
+ */
+export interface UsageReportDTO {
+  from: string;
+  to: string;
+  totals: UsageSummaryDTO & {
+    /** Mean response time in ms; null when nothing was answered */
+    averageProcessingTime: number | null;
+  };
+  /** One entry per UTC day in the range, oldest first */
+  daily: Array<UsageSummaryDTO & { date: string }>;
+  /** Most tokens first */
+  byChat: Array<UsageSummaryDTO & { chatId: string; title: string }>;
+  /** Most tokens first; model is null for responses that did not record one */
+  byModel: Array<UsageSummaryDTO & { model: string | null }>;
+}
+
+/**
+ * Directory entry for a user who has signed in
+ */
+export interface UserProfileModel {
+  id: string;
+  email: string | null;
+  name: string | null;
+  tenantId: string | null;
+  /** App role (user, power-user, admin) as of the last visit */
+  role: string | null;
+  lastSeenAt: Date;
+}
+
+/**
+ * Why and by whom a user was barred from chatting
+ */
+export interface UserSuspensionModel {
+  reason: string;
+  suspendedBy: string;
+  suspendedAt: Date;
+}
+
+export interface UserSuspensionDTO {
+  reason: string;
+  suspendedBy: string;
+  suspendedAt: string;
+}
+
+export interface AdminSessionDTO {
+  /** Fingerprint of the session ID; the ID itself is a credential */
+  fingerprint: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastActivityAt: string | null;
+  expiresAt: string;
+}
+
+/**
+ * An active rate-limit lockout; retryAfter is in seconds
+ */
+export interface RateLimitLockoutDTO {
+  endpoint: string;
+  identifier: string;
+  retryAfter: number;
+}
+
+/**
+ * A user as seen from the admin console
+ */
+export interface AdminUserDTO {
+  id: string;
+  email: string | null;
+  name: string | null;
+  tenantId: string | null;
+  role: string | null;
+  lastSeenAt: string;
+  sessions: AdminSessionDTO[];
+  suspension: UserSuspensionDTO | null;
+  lockouts: RateLimitLockoutDTO[];
+}
+
+/**
+ * Circuit breaker state on the instance that served the request
+ */
+export interface CircuitBreakerDTO {
+  name: string;
+  state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+  failureCount: number;
+  /** When an open breaker lets the next trial request through */
+  nextAttemptAt: string | null;
+}
+
+/**
+ * Security events recorded in the audit log
+ */
+export const AUDIT_EVENT_TYPES = [
+  'auth.csrf_rejected',
+  'auth.bypass_used',
+  'session.rotated',
+  'chat.access_denied',
+  'rate_limit.lockout',
+  'user.sign_out',
+  'user.suspend',
+  'user.unsuspend',
+  'user.lockouts_cleared',
+] as const;
+
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+/**
+ * Details recorded with each type of audit event
+ */
+export interface AuditEventDetails {
+  'auth.csrf_rejected': {
+    // no_session only appears on events recorded before anonymous
+    // rejections stopped being audited
+    reason: 'no_session' | 'missing_token' | 'invalid_token';
+  };
+  'auth.bypass_used': { source: 'bypass-auth' | 'test-auth'; path: string };
+  'session.rotated': Record<string, never>;
+  'chat.access_denied': { chatId: string };
+  'rate_limit.lockout': {
+    endpoint: string;
+    attempts: number;
+    durationSeconds: number;
+  };
+  'user.sign_out': { endedCount: number };
+  'user.suspend': { reason: string };
+  'user.unsuspend': Record<string, never>;
+  'user.lockouts_cleared': { liftedCount: number };
+}
+
+/**
+ * An entry in the audit log. Each entry carries the hash of the one
+ * before it, so editing or removing an entry breaks the chain.
+ */
+export interface AuditEventModel {
+  /** Stream entry ID; orders events and pages queries */
+  id: string;
+  type: AuditEventType;
+  occurredAt: Date;
+  actorId: string | null;
+  tenantId: string | null;
+  ip: string | null;
+  /** User, identifier or resource the event was about */
+  targetId: string | null;
+  details: Record<string, unknown>;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditEventDTO {
+  id: string;
+  type: AuditEventType;
+  occurredAt: string;
+  actorId: string | null;
+  tenantId: string | null;
+  ip: string | null;
+  targetId: string | null;
+  details: Record<string, unknown>;
+  hash: string;
+}
+
 /**
  * Pagination types
  */
@@ -148,6 +419,16 @@ export interface PaginatedResult<T> {
   hasMore: boolean;
 }
 
+/**
+ * One page of a chat's history, oldest message first. `nextCursor` is the
+ * id of the oldest message on the page; pass it as `before` to load the
+ * page preceding it, or null when the start of the chat was reached.
+ */
+export interface MessagePage {
+  messages: MessageModel[];
+  nextCursor: string | null;
+}
+
 /**
  * Chat history with messages
  */
@@ -176,11 +457,56 @@ export function chatToDTO(chat: ChatModel): ChatDTO {
     userId: chat.userId,
     title: chat.title,
     archived: chat.archived,
+    settings: chat.settings ?? {},
+    legalHold: chat.legalHold ?? false,
     createdAt: chat.createdAt.toISOString(),
     updatedAt: chat.updatedAt.toISOString(),
   };
 }
 
+export function personaToDTO(persona: PersonaModel): PersonaDTO {
+  return {
+    id: persona.id,
+    name: persona.name,
+    systemPrompt: persona.systemPrompt,
+    createdAt: persona.createdAt.toISOString(),
+    updatedAt: persona.updatedAt.toISOString(),
+  };
+}
+
+export function shareLinkToDTO(link: ShareLinkModel): ShareLinkDTO {
+  return {
+    token: link.token,
+    chatId: link.chatId,
+    createdAt: link.createdAt.toISOString(),
+    expiresAt: link.expiresAt ? link.expiresAt.toISOString() : null,
+  };
+}
+
+export function userSuspensionToDTO(
+  suspension: UserSuspensionModel,
+): UserSuspensionDTO {
+  return {
+    reason: suspension.reason,
+    suspendedBy: suspension.suspendedBy,
+    suspendedAt: suspension.suspendedAt.toISOString(),
+  };
+}
+
+export function auditEventToDTO(event: AuditEventModel): AuditEventDTO {
+  return {
+    id: event.id,
+    type: event.type,
+    occurredAt: event.occurredAt.toISOString(),
+    actorId: event.actorId,
+    tenantId: event.tenantId,
+    ip: event.ip,
+    targetId: event.targetId,
+    details: event.details,
+    hash: event.hash,
+  };
+}
+
 export function messageToDTO(message: MessageModel): MessageDTO {
   return {
     id: message.id,
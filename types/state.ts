@@ -38,6 +38,11 @@ export interface ChatState {
    */
   activeChatId: string | null;
 
+  /**
+   * Selected branch leaf message per chat (latest branch when absent)
+   */
+  activeLeafIds: Record<string, string>;
+
   /**
    * Optimistic updates for pending messages
    */
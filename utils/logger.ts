@@ -15,6 +15,30 @@ interface LogContext {
   [key: string]: unknown;
 }
 
+/**
+ * One log entry as handed to transports. The context has already been
+ * through sensitive data masking.
+ */
+export interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Destination for log records beyond the console
+ * `send` must not block or throw; delivery happens in the background.
+ */
+export interface LogTransport {
+  name: string;
+  send(record: LogRecord): void;
+  /** Deliver everything buffered so far */
+  flush(): Promise<void>;
+  /** Flush and release timers, files and connections */
+  close(): Promise<void>;
+}
+
 /**
  * SECURITY (HIGH-05): Keys that should be masked in logs
  * These patterns are case-insensitive
@@ -147,24 +171,74 @@ interface LoggerConfig {
 
 const defaultConfig: LoggerConfig = {
   level: process.env.NODE_ENV === 'production' ? LogLevel.INFO : LogLevel.DEBUG,
-  enableConsole: true,
+  // Turn off when a stdout transport already writes every record
+  enableConsole: process.env.LOG_CONSOLE !== 'false',
   enableRemote: process.env.NODE_ENV === 'production',
 };
 
+const transports: LogTransport[] = [];
+
+export function addLogTransport(transport: LogTransport): void {
+  transports.push(transport);
+}
+
+export function removeLogTransport(transport: LogTransport): void {
+  const index = transports.indexOf(transport);
+  if (index !== -1) {
+    transports.splice(index, 1);
+  }
+}
+
+export async function flushLogTransports(): Promise<void> {
+  await Promise.all(transports.map((transport) => transport.flush()));
+}
+
 /**
- * Format log message with timestamp and context
- * SECURITY (HIGH-05): Applies sensitive data masking before logging
+ * Flush and detach every transport
+ */
+export async function closeLogTransports(): Promise<void> {
+  const closing = transports.splice(0, transports.length);
+  await Promise.all(closing.map((transport) => transport.close()));
+}
+
+/**
+ * SECURITY (HIGH-05): Applies sensitive data masking before the record is
+ * logged or handed to any transport
  */
-function formatMessage(
+function createLogRecord(
   level: LogLevel,
   message: string,
   context?: LogContext,
-): string {
-  const timestamp = new Date().toISOString();
-  // Apply sensitive data masking to context
-  const maskedContext = context ? maskSensitiveData(context) : undefined;
-  const contextStr = maskedContext ? ` ${JSON.stringify(maskedContext)}` : '';
-  return `[${timestamp}] [${level.toUpperCase()}] ${message}${contextStr}`;
+): LogRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    context: context
+      ? (maskSensitiveData(context) as Record<string, unknown>)
+      : undefined,
+  };
+}
+
+/**
+ * Format log message with timestamp and context
+ */
+function formatMessage(record: LogRecord): string {
+  const contextStr = record.context ? ` ${JSON.stringify(record.context)}` : '';
+  return `[${record.timestamp}] [${record.level.toUpperCase()}] ${record.message}${contextStr}`;
+}
+
+function sendToTransports(record: LogRecord): void {
+  if (!defaultConfig.enableRemote) return;
+
+  for (const transport of transports) {
+    try {
+      transport.send(record);
+    } catch (error) {
+      // Not logged through the logger, which would loop back here
+      console.error(`Log transport ${transport.name} failed`, error);
+    }
+  }
 }
 
 /**
@@ -199,16 +273,13 @@ export function logError(
         : error,
   };
 
-  const formatted = formatMessage(LogLevel.ERROR, message, errorContext);
+  const record = createLogRecord(LogLevel.ERROR, message, errorContext);
 
   if (defaultConfig.enableConsole) {
-    console.error(formatted);
+    console.error(formatMessage(record));
   }
 
-  // TODO: Send to remote logging service (e.g., Sentry)
-  if (defaultConfig.enableRemote) {
-    // sendToRemoteLogger(formatted, errorContext);
-  }
+  sendToTransports(record);
 }
 
 /**
@@ -217,11 +288,13 @@ export function logError(
 export function logWarn(message: string, context?: LogContext): void {
   if (!shouldLog(LogLevel.WARN, defaultConfig)) return;
 
-  const formatted = formatMessage(LogLevel.WARN, message, context);
+  const record = createLogRecord(LogLevel.WARN, message, context);
 
   if (defaultConfig.enableConsole) {
-    console.warn(formatted);
+    console.warn(formatMessage(record));
   }
+
+  sendToTransports(record);
 }
 
 /**
@@ -230,11 +303,13 @@ export function logWarn(message: string, context?: LogContext): void {
 export function logInfo(message: string, context?: LogContext): void {
   if (!shouldLog(LogLevel.INFO, defaultConfig)) return;
 
-  const formatted = formatMessage(LogLevel.INFO, message, context);
+  const record = createLogRecord(LogLevel.INFO, message, context);
 
   if (defaultConfig.enableConsole) {
-    console.info(formatted);
+    console.info(formatMessage(record));
   }
+
+  sendToTransports(record);
 }
 
 /**
@@ -243,11 +318,13 @@ export function logInfo(message: string, context?: LogContext): void {
 export function logDebug(message: string, context?: LogContext): void {
   if (!shouldLog(LogLevel.DEBUG, defaultConfig)) return;
 
-  const formatted = formatMessage(LogLevel.DEBUG, message, context);
+  const record = createLogRecord(LogLevel.DEBUG, message, context);
 
   if (defaultConfig.enableConsole) {
-    console.debug(formatted);
+    console.debug(formatMessage(record));
   }
+
+  sendToTransports(record);
 }
 
 /**